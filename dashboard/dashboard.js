@@ -3,6 +3,12 @@ class Dashboard {
   constructor() {
     this.apiUrl = 'http://localhost:3000/api'; // Update with your API URL
     this.updateInterval = 5000; // 5 seconds
+    this.liveUpdateInterval = 60000; // Safety-net poll while the live feed is connected
+    this.eventSource = null;
+    this.streamClientId = null;
+    this.renderTimer = null;
+    this.refreshTimer = null;
+    this.solPrice = null;
     this.isConnected = false;
     this.currentPage = 1;
     this.tokensPerPage = 50;
@@ -20,6 +26,7 @@ class Dashboard {
     await this.updateSolPrice();
     this.startAutoUpdate();
     this.updateConnectionStatus(true);
+    this.connectLiveFeed();
     this.setupSortHandlers();
     this.setupTabHandlers();
     this.setupSearchHandlers();
@@ -42,6 +49,7 @@ class Dashboard {
         this.totalTokens = data.pagination.total;
         this.renderTokens();
         this.renderPagination(data.pagination);
+        this.updateStreamSubscription();
       } else {
         console.error('Invalid API response structure:', data);
       }
@@ -57,6 +65,7 @@ class Dashboard {
       const data = await response.json();
       
       const price = typeof data.price === 'string' ? parseFloat(data.price) : data.price;
+      this.solPrice = price;
       document.querySelector('.sol-price-value').textContent = `$${price.toFixed(2)}`;
       document.querySelector('.sol-price-updated').textContent = `Updated: ${data.secondsAgo}s ago`;
     } catch (error) {
@@ -84,13 +93,15 @@ class Dashboard {
                 ? '<img src="https://pump.fun/_next/image?url=%2Flogo.png&w=48&q=75" alt="Pump.fun" class="platform-icon" style="width: 20px; height: 20px;">'
                 : token.platform === 'raydium_launchpad'
                 ? '<img src="raydium-launchpad-icon.png" alt="Raydium Launchpad" class="platform-icon" style="width: 20px; height: 20px;">'
+                : token.platform === 'meteora_dbc'
+                ? '<span class="platform-icon platform-badge meteora" title="Meteora DBC">M</span>'
                 : '<img src="raydium-launchpad-icon.png" alt="Unknown" class="platform-icon" style="width: 20px; height: 20px;">'
               }
             </a>
           </div>
           <img src="${this.getImageUrl(token.image)}" alt="Token" class="token-icon" onerror="this.src='data:image/svg+xml,%3Csvg xmlns=\\'http://www.w3.org/2000/svg\\' width=\\'32\\' height=\\'32\\' fill=\\'%23333\\'%3E%3Crect width=\\'32\\' height=\\'32\\' rx=\\'16\\'/%3E%3C/svg%3E'">
           <div class="token-details">
-            <span class="token-name">${token.symbol}</span>
+            <span class="token-name">${token.symbol}${token.hasDataGap ? ' <span class="data-gap" title="Stream gap since creation - transaction history may be incomplete">⚠</span>' : ''}${this.renderCreatorRiskBadge(token.creatorRisk)}</span>
             <span class="token-symbol">${token.name}</span>
           </div>
         </td>
@@ -104,12 +115,13 @@ class Dashboard {
         </td>
         <td class="progress">${this.renderProgressBar(token.bondingCurveProgress, token.isGraduated)}</td>
         <td class="score ${this.getScoreClass(token.scores.total, 999)}">${Math.round(token.scores.total)}</td>
-        <td class="score ${this.getScoreClass(token.scores.technical, 333)}" title="Market Cap: ${Math.round(token.scores.marketCap)}/100 | Bonding Curve: ${Math.round(token.scores.bondingCurve)}/83 | Trading Health: ${Math.round(token.scores.tradingHealth)}/75 | Sell-off Response: ${Math.round(token.scores.selloffResponse)}/75">${Math.round(token.scores.technical)}${token.isSelloffActive ? ' ⚠️' : ''}</td>
+        <td class="score ${this.getScoreClass(token.scores.technical, 333)}" title="Market Cap: ${Math.round(token.scores.marketCap)}/100 | Bonding Curve: ${Math.round(token.scores.bondingCurve)}/83 | Trading Health: ${Math.round(token.scores.tradingHealth)}/75 | Sell-off Response: ${Math.round(token.scores.selloffResponse)}/75${token.graduationProbability !== null && token.graduationProbability !== undefined ? ` | Graduation probability: ${(token.graduationProbability * 100).toFixed(0)}%` : ''}">${Math.round(token.scores.technical)}${token.isSelloffActive ? ' ⚠️' : ''}</td>
         <td class="score ${this.getScoreClass(token.scores.holder, 333)}" title="${this.getHolderScoreTooltip(token)}">${Math.round(token.scores.holder)}</td>
         <td class="score ${this.getScoreClass(token.scores.social, 333)}">${token.scores.social}</td>
         <td class="age">${token.age}</td>
         <td class="txns">${this.formatNumber(token.txns24h)}</td>
         <td class="holders">${this.formatNumber(token.holders)}</td>
+        <td class="holder-trend">${this.renderHolderTrend(token.holderTrend)}</td>
         <td class="volume">${this.formatMarketCap(token.volume24h.usd)}</td>
         <td class="makers">${this.formatNumber(token.makers24h)}</td>
         <td class="liquidity">${this.formatMarketCap(token.liquidity.usd)}</td>
@@ -118,6 +130,38 @@ class Dashboard {
     });
   }
 
+  renderCreatorRiskBadge(risk) {
+    if (!risk || risk.level === 'low') return '';
+    const labels = { medium: 'DEV', high: 'DEV DUMP', critical: 'RUG' };
+    const flags = risk.flags.map(flag => flag.replace(/_/g, ' ')).join(', ');
+    return ` <span class="creator-risk ${risk.level}" title="Creator risk ${Math.round(risk.score)}/100: ${flags} (-${Math.round(risk.penalty)} pts)">${labels[risk.level]}</span>`;
+  }
+
+  renderHolderTrend(trend) {
+    if (!trend || trend.sparkline.length < 2) return '<span class="no-trend">-</span>';
+
+    const width = 64;
+    const height = 20;
+    const min = Math.min(...trend.sparkline);
+    const range = Math.max(...trend.sparkline) - min || 1;
+    const step = width / (trend.sparkline.length - 1);
+    const points = trend.sparkline
+      .map((holders, i) => `${(i * step).toFixed(1)},${(height - 2 - ((holders - min) / range) * (height - 4)).toFixed(1)}`)
+      .join(' ');
+
+    const direction = trend.growthPerHour >= 0 ? 'up' : 'down';
+    const parts = [
+      `Holders ${trend.growthPerHour >= 0 ? '+' : ''}${trend.growthPerHour.toFixed(1)}%/h`,
+      `Gini ${trend.giniDrift >= 0 ? '+' : ''}${trend.giniDrift.toFixed(3)}`,
+      `Top 10 ${trend.top10Change >= 0 ? '+' : ''}${trend.top10Change.toFixed(1)}pp`
+    ];
+    if (trend.entered !== null) {
+      parts.push(`${trend.entered} in / ${trend.exited} out`);
+    }
+
+    return `<svg class="sparkline ${direction}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><title>${parts.join(' | ')}</title><polyline points="${points}" /></svg>`;
+  }
+
   getScoreClass(score, max) {
     const percentage = (score / max) * 100;
     if (percentage >= 75) return 'high';
@@ -302,7 +346,7 @@ class Dashboard {
     if (connected) {
       statusDot.classList.add('active');
       statusDot.classList.remove('inactive');
-      statusText.textContent = 'Connected';
+      statusText.textContent = this.streamClientId ? 'Live' : 'Connected';
     } else {
       statusDot.classList.remove('active');
       statusDot.classList.add('inactive');
@@ -382,10 +426,114 @@ class Dashboard {
   }
 
   startAutoUpdate() {
-    setInterval(async () => {
+    // Poll slowly while the live feed pushes changes, at full speed without it
+    const tick = async () => {
       await this.updateTokens();
       await this.updateSolPrice();
-    }, this.updateInterval);
+      setTimeout(tick, this.streamClientId ? this.liveUpdateInterval : this.updateInterval);
+    };
+    setTimeout(tick, this.updateInterval);
+  }
+
+  connectLiveFeed() {
+    if (!window.EventSource) return;
+
+    this.eventSource = new EventSource(`${this.apiUrl}/stream?events=new_token,trade,score,graduation,selloff`);
+
+    // Sent on every (re)connect with a new client id, so resubscribe each time
+    this.eventSource.addEventListener('ready', (e) => {
+      this.streamClientId = JSON.parse(e.data).clientId;
+      this.updateConnectionStatus(true);
+      this.updateStreamSubscription();
+    });
+
+    this.eventSource.addEventListener('resync', () => this.scheduleRefresh());
+    this.eventSource.addEventListener('new_token', () => {
+      if (this.sortColumn === 'age' && this.currentPage === 1) this.scheduleRefresh();
+    });
+    ['trade', 'score', 'graduation', 'selloff'].forEach(type => {
+      this.eventSource.addEventListener(type, (e) => this.applyLiveEvent(JSON.parse(e.data)));
+    });
+
+    this.eventSource.onerror = () => {
+      // EventSource reconnects by itself; fall back to fast polling meanwhile
+      this.streamClientId = null;
+      this.updateConnectionStatus(this.eventSource.readyState !== EventSource.CLOSED);
+    };
+  }
+
+  async updateStreamSubscription() {
+    if (!this.streamClientId) return;
+    try {
+      await fetch(`${this.apiUrl}/stream/${this.streamClientId}/subscription`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mints: this.allTokens.map(token => token.address),
+          events: ['new_token', 'trade', 'score', 'graduation', 'selloff']
+        })
+      });
+    } catch (error) {
+      console.error('Failed to update live feed subscription:', error);
+    }
+  }
+
+  applyLiveEvent(event) {
+    const token = this.allTokens.find(t => t.address === event.mint);
+    if (!token) return;
+    const data = event.data;
+
+    if (event.event === 'trade') {
+      const priceSol = parseFloat(data.pricePerToken);
+      if (priceSol > 0) {
+        token.price.sol = priceSol;
+        token.marketCap.sol = priceSol * 1_000_000_000;
+        if (this.solPrice) {
+          token.price.usd = priceSol * this.solPrice;
+          token.marketCap.usd = token.price.usd * 1_000_000_000;
+        }
+      }
+      token.txns24h += 1;
+      const solAmount = parseFloat(data.solAmount) || 0;
+      token.volume24h.sol += solAmount;
+      if (this.solPrice) token.volume24h.usd += solAmount * this.solPrice;
+    } else if (event.event === 'score') {
+      const technical = parseFloat(data.total);
+      token.scores.total += technical - token.scores.technical;
+      token.scores.technical = technical;
+      token.scores.marketCap = parseFloat(data.marketCap);
+      token.scores.bondingCurve = parseFloat(data.bondingCurve);
+      token.scores.tradingHealth = parseFloat(data.tradingHealth);
+      token.scores.selloffResponse = parseFloat(data.selloffResponse);
+      token.isSelloffActive = data.isSelloffActive;
+      if (data.buySellRatio !== null) token.buySellRatio = parseFloat(data.buySellRatio);
+      if (data.bondingCurveProgress !== null) token.bondingCurveProgress = parseFloat(data.bondingCurveProgress);
+      if (data.graduationProbability !== null) token.graduationProbability = parseFloat(data.graduationProbability);
+    } else if (event.event === 'graduation') {
+      token.isGraduated = true;
+    } else if (event.event === 'selloff') {
+      token.isSelloffActive = data.isActive;
+    }
+
+    this.scheduleRender();
+  }
+
+  // Trades arrive in bursts; redraw the table at most every 250ms
+  scheduleRender() {
+    if (this.renderTimer) return;
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = null;
+      this.renderTokens();
+    }, 250);
+  }
+
+  // Refetch the page after missed events or new tokens, at most every 5s
+  scheduleRefresh() {
+    if (this.refreshTimer) return;
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = null;
+      await this.updateTokens();
+    }, 5000);
   }
   
   setupSortHandlers() {
@@ -403,9 +551,10 @@ class Dashboard {
       8: 'age',        // AGE
       9: 'txns',       // TXNS
       10: 'holders',   // HOLDERS
-      11: 'volume',    // VOLUME
-      12: 'makers',    // MAKERS
-      13: 'liquidity'  // LIQUIDITY
+      // 11: holder trend sparkline, not sortable
+      12: 'volume',    // VOLUME
+      13: 'makers',    // MAKERS
+      14: 'liquidity'  // LIQUIDITY
     };
     
     Object.entries(sortableColumns).forEach(([index, column]) => {
@@ -528,7 +677,7 @@ class Dashboard {
     const mintAddress = searchInput.value.trim();
 
     if (!mintAddress) {
-      this.showSearchMessage('Please enter a mint address', 'error');
+      this.showSearchMessage('Please enter a mint or wallet address', 'error');
       return;
     }
 
@@ -557,12 +706,19 @@ class Dashboard {
         this.currentPage = 1;
         this.renderTokens();
         this.renderPagination();
+        this.updateStreamSubscription();
         
         // Show clear button
         clearButton.style.display = 'inline-block';
         this.showSearchMessage(`Found token: ${data.token.symbol}`, 'success');
       } else {
-        this.showSearchMessage('Token not found', 'error');
+        // Not a mint; try it as a wallet that has traded
+        const walletResponse = await fetch(`${this.apiUrl}/wallets/${mintAddress}`);
+        if (walletResponse.ok) {
+          window.location.href = `wallet.html?address=${encodeURIComponent(mintAddress)}`;
+          return;
+        }
+        this.showSearchMessage('Token or wallet not found', 'error');
       }
     } catch (error) {
       console.error('Search failed:', error);
@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import { getDbPool } from '../database/connection';
+import { creatorProfileService } from '../services/creator-profiles/creator-profile-service';
+import { CreatorProfileSort } from '../services/creator-profiles/types';
+
+const router = Router();
+
+const SORTS: CreatorProfileSort[] = ['launches', 'graduation_rate', 'rug_rate', 'peak_market_cap', 'recent'];
+
+// Creators ranked by launch count, graduation rate, rug rate, peak market cap or recency
+// e.g. /api/creators/top?sort=rug_rate&minLaunches=5&limit=50
+router.get('/creators/top', async (req, res) => {
+  try {
+    const sort = SORTS.includes(req.query.sort as CreatorProfileSort)
+      ? req.query.sort as CreatorProfileSort
+      : 'launches';
+    const creators = await creatorProfileService.getTopCreators({
+      sort,
+      minLaunches: parseInt(req.query.minLaunches as string) || 1,
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 500)
+    });
+
+    res.json({
+      success: true,
+      sort,
+      creators,
+      count: creators.length,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching top creators:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Creator profile with its launches, newest first
+router.get('/creators/:address', async (req, res) => {
+  try {
+    const address = req.params.address;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    const [profile, launches] = await Promise.all([
+      creatorProfileService.getProfile(address),
+      creatorProfileService.getLaunches(address, limit)
+    ]);
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Creator not found'
+      });
+    }
+
+    const mints = launches.map(launch => launch.mintAddress);
+    const tokenResult = mints.length > 0
+      ? await getDbPool().query('SELECT mint_address, symbol, name FROM tokens WHERE mint_address = ANY($1)', [mints])
+      : { rows: [] };
+    const tokens = new Map<string, { symbol: string; name: string }>(
+      tokenResult.rows.map((row: any) => [row.mint_address, { symbol: row.symbol, name: row.name }])
+    );
+
+    res.json({
+      success: true,
+      profile,
+      launches: launches.map(launch => ({
+        ...launch,
+        symbol: tokens.get(launch.mintAddress)?.symbol ?? null,
+        name: tokens.get(launch.mintAddress)?.name ?? null
+      })),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching creator profile:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// The creator behind a token: its profile, and its record before this
+// launch as the graduation model sees it
+router.get('/tokens/:mint/creator', async (req, res) => {
+  try {
+    const token = await getDbPool().query(
+      'SELECT id, creator_address FROM tokens WHERE mint_address = $1',
+      [req.params.mint]
+    );
+    if (token.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Token not found'
+      });
+    }
+
+    const [profile, features] = await Promise.all([
+      creatorProfileService.getProfile(token.rows[0].creator_address),
+      creatorProfileService.getFeatures(token.rows[0].id)
+    ]);
+
+    res.json({
+      success: true,
+      tokenMint: req.params.mint,
+      creatorAddress: token.rows[0].creator_address,
+      profile,
+      priorRecord: features,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching token creator:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
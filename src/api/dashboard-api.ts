@@ -1,9 +1,21 @@
 import express from 'express';
 import { Router } from 'express';
 import { getDbPool } from '../database/connection';
+import { streamGapOperations } from '../database/operations/stream-gap';
+import { paperTradingOperations } from '../database/operations/paper-trading';
+import { mlModelOperations } from '../database/operations/ml-model';
+import { alertOperations } from '../database/operations/alert';
+import { SimpleCache } from '../database/cache';
+import { holderTrendService } from '../services/holder-trends/holder-trend-service';
+import { HolderTrend } from '../services/holder-trends/types';
 
 const router = Router();
 
+// /tokens recomputes technical scores for every row, so identical pages
+// requested by several dashboards within a few seconds share one query.
+// Live changes reach the UI through the /stream feed in the meantime.
+const tokensCache = new SimpleCache<any>(10);
+
 // Debug endpoint
 router.get('/debug', async (req, res) => {
   try {
@@ -37,6 +49,12 @@ router.get('/tokens', async (req, res) => {
     const sortBy = (req.query.sortBy as string) || 'created_at';
     const sortDirection = (req.query.sortDirection as string)?.toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
     
+    const cacheKey = `${page}:${limit}:${sortBy}:${sortDirection}`;
+    const cached = tokensCache.get(cacheKey);
+    if (cached) {
+      return res.json(cached);
+    }
+
     console.log(`Fetching page ${page} with ${limit} tokens (offset: ${offset}), sorted by ${sortBy} ${sortDirection}...`);
     
     // First get the latest SOL price
@@ -58,6 +76,7 @@ router.get('/tokens', async (req, res) => {
       'progress': 'bonding_curve_progress',
       'total': 'total_score',
       'technical': 'technical_score',
+      'graduation': 'graduation_probability',
       'holder': 'holder_score',
       'social': 'social_score',
       'age': 'age_seconds',
@@ -101,6 +120,7 @@ router.get('/tokens', async (req, res) => {
           ts.selloff_response_score,
           ts.buy_sell_ratio,
           ts.is_selloff_active,
+          gp.graduation_probability,
           COALESCE(ag.holder_score, hs.total_score, 0) as holder_score,
           COALESCE(hs.distribution_score, 0) as holder_distribution_score,
           COALESCE(hs.quality_score, 0) as holder_quality_score,
@@ -112,6 +132,12 @@ router.get('/tokens', async (req, res) => {
           COALESCE(ag.bot_ratio, hs.bot_ratio, 0) as bot_ratio,
           COALESCE(hsnap.organic_growth_score, 0) as organic_growth_score,
           COALESCE(ag.social_score, ss.social_score, 0) as social_score,
+          COALESCE(ag.smart_money_score, 0) as smart_money_score,
+          ag.smart_wallets_count,
+          cr.risk_level as creator_risk_level,
+          cr.risk_score as creator_risk_score,
+          cr.score_penalty as creator_risk_penalty,
+          cr.flags as creator_risk_flags,
           (SELECT COUNT(*) FROM transactions WHERE token_id = t.id AND block_time > NOW() - INTERVAL '24 hours') as txns_24h,
           COALESCE(hs.unique_holders, 0) as holder_count,
           0 as makers_24h,
@@ -119,12 +145,20 @@ router.get('/tokens', async (req, res) => {
           (SELECT COALESCE(SUM(sol_amount), 0) FROM transactions WHERE token_id = t.id AND block_time > NOW() - INTERVAL '24 hours' AND type IN ('buy', 'sell')) as volume_24h_sol,
           p.bonding_curve_progress,
           t.is_graduated,
+          token_has_stream_gap(t.id) as has_data_gap,
           COALESCE(p.latest_price_usd, p.initial_price_usd, 0) * 1000000000 as market_cap_usd
         FROM tokens t
         JOIN pools p ON t.id = p.token_id
         LEFT JOIN LATERAL (
           SELECT * FROM calculate_technical_score(t.id, p.id)
         ) ts ON true
+        LEFT JOIN LATERAL (
+          -- Model output is only stored with saved scores, so take the newest one
+          SELECT graduation_probability FROM technical_scores
+          WHERE token_id = t.id AND pool_id = p.id AND graduation_probability IS NOT NULL
+          ORDER BY calculated_at DESC
+          LIMIT 1
+        ) gp ON true
         LEFT JOIN LATERAL (
           SELECT * FROM holder_scores_v2
           WHERE token_id = t.id
@@ -142,6 +176,7 @@ router.get('/tokens', async (req, res) => {
           SELECT * FROM latest_aggregate_scores
           WHERE token_id = t.id
         ) ag ON true
+        LEFT JOIN creator_risk cr ON cr.token_id = t.id
         LEFT JOIN LATERAL (
           -- Placeholder for social scores (not implemented yet)
           SELECT 0 as social_score
@@ -172,6 +207,14 @@ router.get('/tokens', async (req, res) => {
     `);
     const totalTokens = parseInt(countResult.rows[0].total);
     const totalPages = Math.ceil(totalTokens / limit);
+
+    // Sparkline data; the page still renders if the trend aggregate is missing
+    const holderTrends = await holderTrendService
+      .getTrends(result.rows.map((row: any) => row.token_id))
+      .catch(error => {
+        console.warn('Holder trends unavailable:', error instanceof Error ? error.message : error);
+        return new Map<string, HolderTrend>();
+      });
     
     // Format the data for frontend
     const tokens = result.rows.map((row: any, index: number) => {
@@ -204,6 +247,8 @@ router.get('/tokens', async (req, res) => {
           technical: technicalScore,
           holder: holderScore,
           social: socialScore,
+          smartMoney: parseFloat(row.smart_money_score) || 0,
+          smartWallets: row.smart_wallets_count ?? null,
           // Technical score breakdown
           marketCap: parseFloat(row.market_cap_score) || 0,
           bondingCurve: parseFloat(row.bonding_curve_score) || 0,
@@ -223,6 +268,7 @@ router.get('/tokens', async (req, res) => {
         },
         buySellRatio: parseFloat(row.buy_sell_ratio) || 0,
         isSelloffActive: row.is_selloff_active || false,
+        graduationProbability: row.graduation_probability !== null ? parseFloat(row.graduation_probability) : null,
         age: formatAge(row.age_seconds),
         txns24h: row.txns_24h || 0,
         holders: row.holder_count || 0,
@@ -237,11 +283,14 @@ router.get('/tokens', async (req, res) => {
         },
         bondingCurveProgress: row.bonding_curve_progress !== null ? parseFloat(row.bonding_curve_progress) : null,
         isGraduated: row.is_graduated || false,
+        hasDataGap: row.has_data_gap || false,
+        creatorRisk: formatCreatorRisk(row),
+        holderTrend: formatHolderTrend(holderTrends.get(row.token_id)),
         platform: row.platform
       };
     });
 
-    res.json({
+    const response = {
       success: true,
       tokens: tokens,
       pagination: {
@@ -252,7 +301,9 @@ router.get('/tokens', async (req, res) => {
       },
       timestamp: new Date(),
       solPrice: parseFloat(solPriceUsd)
-    });
+    };
+    tokensCache.set(cacheKey, response);
+    res.json(response);
 
   } catch (error) {
     console.error('Error fetching tokens:', error);
@@ -364,6 +415,122 @@ router.get('/sol-price', async (req, res) => {
   }
 });
 
+// Get slot gaps detected by the gRPC monitors
+router.get('/stream-gaps', async (req, res) => {
+  try {
+    const gaps = await streamGapOperations.getGaps({
+      monitorId: req.query.monitor as string | undefined,
+      unresolvedOnly: req.query.unresolved === 'true',
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 500)
+    });
+
+    res.json({
+      success: true,
+      gaps,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching stream gaps:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Paper trading PnL for a strategy
+router.get('/paper-trading/report', async (req, res) => {
+  try {
+    const strategy = (req.query.strategy as string) || 'default';
+    const report = await paperTradingOperations.getPnLReport(strategy);
+
+    res.json({
+      success: true,
+      report,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching paper trading report:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Paper trading positions, newest first
+router.get('/paper-trading/positions', async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const positions = await paperTradingOperations.getPositions({
+      strategy: req.query.strategy as string | undefined,
+      status: status === 'open' || status === 'closed' ? status : undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 500)
+    });
+
+    res.json({
+      success: true,
+      positions,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching paper trading positions:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Graduation models in the registry, newest first
+router.get('/graduation-models', async (req, res) => {
+  try {
+    const models = await mlModelOperations.getModels(
+      req.query.name as string | undefined,
+      Math.min(parseInt(req.query.limit as string) || 20, 100)
+    );
+
+    res.json({
+      success: true,
+      models,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching graduation models:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Fired alerts, newest first
+router.get('/alerts', async (req, res) => {
+  try {
+    const severity = req.query.severity as string | undefined;
+    const alerts = await alertOperations.getAlerts({
+      ruleId: req.query.rule as string | undefined,
+      mintAddress: req.query.mint as string | undefined,
+      severity: severity === 'info' || severity === 'positive' || severity === 'warning' || severity === 'critical'
+        ? severity
+        : undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 500)
+    });
+
+    res.json({
+      success: true,
+      alerts,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Search for a token by mint address
 router.get('/search/:mintAddress', async (req, res) => {
   try {
@@ -503,9 +670,14 @@ router.get('/search/:mintAddress', async (req, res) => {
         (SELECT COALESCE(SUM(sol_amount), 0) FROM transactions WHERE token_id = tws.token_id AND block_time > NOW() - INTERVAL '24 hours' AND type IN ('buy', 'sell')) as volume_24h_sol,
         tws.bonding_curve_progress,
         tws.is_graduated,
-        tws.market_cap_usd
+        tws.market_cap_usd,
+        cr.risk_level as creator_risk_level,
+        cr.risk_score as creator_risk_score,
+        cr.score_penalty as creator_risk_penalty,
+        cr.flags as creator_risk_flags
       FROM token_with_scores tws
       LEFT JOIN latest_holder_scores lhs ON tws.token_id = lhs.token_id
+      LEFT JOIN creator_risk cr ON cr.token_id = tws.token_id
     `;
 
     const result = await pool.query(query, [mintAddress]);
@@ -563,6 +735,7 @@ router.get('/search/:mintAddress', async (req, res) => {
       },
       bondingCurveProgress: row.bonding_curve_progress !== null ? parseFloat(row.bonding_curve_progress) : null,
       isGraduated: row.is_graduated || false,
+      creatorRisk: formatCreatorRisk(row),
       platform: row.platform
     };
 
@@ -629,6 +802,29 @@ router.get('/sentiment', async (req, res) => {
   }
 });
 
+// Creator risk columns joined from creator_risk, or null when the token has not been assessed
+function formatCreatorRisk(row: any) {
+  if (!row.creator_risk_level) return null;
+  return {
+    level: row.creator_risk_level,
+    score: parseFloat(row.creator_risk_score) || 0,
+    penalty: parseFloat(row.creator_risk_penalty) || 0,
+    flags: row.creator_risk_flags || []
+  };
+}
+
+function formatHolderTrend(trend: HolderTrend | undefined) {
+  if (!trend) return null;
+  return {
+    sparkline: trend.sparkline,
+    growthPerHour: trend.holderGrowthPerHour,
+    giniDrift: trend.giniDrift,
+    top10Change: trend.top10Change,
+    entered: trend.flowKnown ? trend.holdersEntered : null,
+    exited: trend.flowKnown ? trend.holdersExited : null
+  };
+}
+
 // Helper function to format age
 function formatAge(seconds: number): string {
   if (!seconds) return 'New';
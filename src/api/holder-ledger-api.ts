@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { holderLedger } from '../services/holder-ledger/holder-ledger';
+
+const router = Router();
+
+// Holders reconstructed from our own transactions, largest first, with the
+// ledger's state and last Helius reconciliation
+// e.g. /api/tokens/<mint>/holders?limit=100
+router.get('/tokens/:mint/holders', async (req, res) => {
+  try {
+    const mint = req.params.mint;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+
+    const holders = await holderLedger.getBalances(mint, { limit });
+    const [state, reconciliations] = await Promise.all([
+      holderLedger.getState(mint),
+      holderLedger.getReconciliations(mint, 1)
+    ]);
+
+    if (!state) {
+      return res.status(404).json({
+        success: false,
+        error: 'Token not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      state,
+      trusted: holderLedger.isTrusted(state),
+      lastReconciliation: reconciliations[0] ?? null,
+      holders,
+      count: holders.length,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching ledger holders:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Ledger vs Helius comparisons for a token, newest first
+router.get('/tokens/:mint/holders/reconciliations', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 200);
+    const reconciliations = await holderLedger.getReconciliations(req.params.mint, limit);
+
+    res.json({
+      success: true,
+      reconciliations,
+      count: reconciliations.length,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching holder reconciliations:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
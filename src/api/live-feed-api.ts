@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { liveFeed, parseSubscription } from '../services/live-feed/live-feed';
+
+const router = Router();
+
+// Server-Sent Events stream of new tokens, trades, scores, graduations and sell-offs
+// e.g. /api/stream?mints=<mint>,<mint>&events=trade,score
+router.get('/stream', (req, res) => {
+  const clientId = liveFeed.addClient(res, parseSubscription(req.query.mints, req.query.events));
+  if (clientId) {
+    console.log(`Live feed client ${clientId} connected (${liveFeed.getStatus().clients} total)`);
+  }
+});
+
+// Replace a connected client's subscription without reconnecting
+router.put('/stream/:clientId/subscription', (req, res) => {
+  const subscription = parseSubscription(req.body?.mints, req.body?.events);
+  if (!liveFeed.updateSubscription(req.params.clientId, subscription)) {
+    return res.status(404).json({ success: false, error: 'Unknown live feed client' });
+  }
+  res.json({
+    success: true,
+    mints: subscription.mints ? subscription.mints.size : null,
+    events: Array.from(subscription.events),
+    timestamp: new Date()
+  });
+});
+
+router.get('/stream/status', (req, res) => {
+  res.json({ success: true, status: liveFeed.getStatus(), timestamp: new Date() });
+});
+
+export default router;
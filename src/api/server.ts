@@ -2,6 +2,11 @@ import express from 'express';
 import cors from 'cors';
 import path from 'path';
 import dashboardApi from './dashboard-api';
+import liveFeedApi from './live-feed-api';
+import walletTrackerApi from './wallet-tracker-api';
+import creatorProfileApi from './creator-profile-api';
+import holderLedgerApi from './holder-ledger-api';
+import { liveFeed } from '../services/live-feed/live-feed';
 
 const app = express();
 const PORT = process.env.API_PORT || 3000;
@@ -21,6 +26,18 @@ app.use(express.static(dashboardPath));
 // API routes with technical scoring
 app.use('/api', dashboardApi);
 
+// Push channel for the dashboard (SSE)
+app.use('/api', liveFeedApi);
+
+// Wallet tracker: top traders, wallet profiles, smart-money holders
+app.use('/api', walletTrackerApi);
+
+// Creator reputation from launch history
+app.use('/api', creatorProfileApi);
+
+// Holder balances from our own transaction stream
+app.use('/api', holderLedgerApi);
+
 // Health check
 app.get('/health', (req, res) => {
   res.json({ 
@@ -47,6 +64,7 @@ const server = app.listen(PORT, () => {
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.log('\nShutting down server...');
+  liveFeed.stop();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
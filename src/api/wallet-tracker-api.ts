@@ -0,0 +1,248 @@
+import { Router } from 'express';
+import { getDbPool } from '../database/connection';
+import { walletTrackerService } from '../services/wallet-tracker/wallet-tracker-service';
+import { WalletPosition, WalletTrader } from '../services/wallet-tracker/types';
+
+const router = Router();
+
+// Top traders by score, bots and Sybil clusters excluded unless asked for
+// e.g. /api/wallets/top?limit=50&minScore=700&includeFlagged=true
+router.get('/wallets/top', async (req, res) => {
+  try {
+    const wallets = await walletTrackerService.getTopWallets(
+      Math.min(parseInt(req.query.limit as string) || 50, 500),
+      {
+        minScore: parseFloat(req.query.minScore as string) || 0,
+        excludeFlagged: req.query.includeFlagged !== 'true'
+      }
+    );
+
+    res.json({
+      success: true,
+      wallets: wallets.map(formatWallet),
+      count: wallets.length,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching top wallets:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Wallet profile: score history, positions, trades and cluster membership.
+// Works for any address seen by the monitors, tracked or not.
+router.get('/wallets/:address', async (req, res) => {
+  try {
+    const pool = getDbPool();
+    const address = req.params.address;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    const [wallet, history, positions, trades, relationships, transactions] = await Promise.all([
+      walletTrackerService.getWallet(address),
+      walletTrackerService.getScoreHistory(address, limit),
+      walletTrackerService.getWalletPositions(address),
+      walletTrackerService.getWalletTrades(address),
+      walletTrackerService.getWalletRelationships(address),
+      pool.query(`
+        SELECT
+          tx.signature, tx.type, tx.block_time, tx.sol_amount,
+          tx.token_amount, tx.price_per_token,
+          t.mint_address, t.symbol, t.name
+        FROM transactions tx
+        JOIN tokens t ON tx.token_id = t.id
+        WHERE tx.user_address = $1
+        ORDER BY tx.block_time DESC
+        LIMIT $2
+      `, [address, limit])
+    ]);
+
+    if (!wallet && transactions.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Wallet not found'
+      });
+    }
+
+    const [cluster, clusterWallets] = wallet?.cluster_id
+      ? await Promise.all([
+          walletTrackerService.getCluster(wallet.cluster_id),
+          walletTrackerService.getClusterWallets(wallet.cluster_id)
+        ])
+      : [null, []];
+
+    const mints = Array.from(new Set([...positions.map(p => p.token_mint), ...trades.map(t => t.token_mint)]));
+    const tokenResult = mints.length > 0
+      ? await pool.query('SELECT mint_address, symbol, name FROM tokens WHERE mint_address = ANY($1)', [mints])
+      : { rows: [] };
+    const tokens = new Map<string, { symbol: string; name: string }>(
+      tokenResult.rows.map((row: any) => [row.mint_address, { symbol: row.symbol, name: row.name }])
+    );
+
+    res.json({
+      success: true,
+      address,
+      tracked: wallet !== null,
+      wallet: wallet ? formatWallet(wallet) : null,
+      scoreHistory: history.map(h => ({
+        timestamp: h.score_timestamp,
+        score: toNumber(h.trader_score),
+        components: h.components,
+        winRate: toNumber(h.win_rate),
+        totalPnlSol: toNumber(h.total_pnl_sol)
+      })),
+      positions: positions.map(p => formatPosition(p, tokens.get(p.token_mint))),
+      trades: trades.slice(0, limit).map(t => ({
+        signature: t.transaction_hash,
+        type: t.trade_type,
+        blockTime: t.block_time,
+        tokenMint: t.token_mint,
+        symbol: tokens.get(t.token_mint)?.symbol ?? null,
+        amount: toNumber(t.amount),
+        priceSol: toNumber(t.price_sol),
+        solValue: toNumber(t.sol_value),
+        isGraduatedToken: t.is_graduated_token
+      })),
+      recentTransactions: transactions.rows.map((tx: any) => ({
+        signature: tx.signature,
+        type: tx.type,
+        blockTime: tx.block_time,
+        solAmount: parseFloat(tx.sol_amount),
+        tokenAmount: parseFloat(tx.token_amount),
+        pricePerToken: parseFloat(tx.price_per_token),
+        token: {
+          symbol: tx.symbol,
+          name: tx.name,
+          mintAddress: tx.mint_address
+        }
+      })),
+      cluster: cluster
+        ? {
+            clusterId: cluster.cluster_id,
+            type: cluster.cluster_type,
+            walletCount: cluster.wallet_count,
+            primaryWallet: cluster.primary_wallet ?? null,
+            riskScore: toNumber(cluster.risk_score),
+            confidence: toNumber(cluster.detection_confidence),
+            detectionMethod: cluster.detection_method ?? null,
+            wallets: clusterWallets.map(w => ({
+              address: w.wallet_address,
+              score: toNumber(w.trader_score),
+              type: w.wallet_type
+            }))
+          }
+        : null,
+      relationships: relationships.map(r => ({
+        wallet: r.wallet_a === address ? r.wallet_b : r.wallet_a,
+        type: r.relationship_type,
+        interactions: r.interaction_count,
+        confidence: toNumber(r.confidence_score)
+      })),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching wallet profile:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Smart-money wallets holding a token and the signals they produced
+router.get('/tokens/:mint/smart-money', async (req, res) => {
+  try {
+    const mint = req.params.mint;
+    const minScore = parseFloat(req.query.minScore as string) || undefined;
+
+    const [signals, holders] = await Promise.all([
+      walletTrackerService.getTokenSmartMoneySignals(mint, Math.min(parseInt(req.query.limit as string) || 20, 100)),
+      walletTrackerService.getSmartMoneyHolders(mint, minScore)
+    ]);
+    const latest = signals[0];
+
+    res.json({
+      success: true,
+      tokenMint: mint,
+      smartWalletCount: latest?.smart_wallets_count ?? 0,
+      signalStrength: latest ? toNumber(latest.signal_strength) : null,
+      holders: holders.map(h => ({
+        address: h.wallet_address,
+        score: toNumber(h.trader_score),
+        type: h.wallet_type,
+        clusterId: h.cluster_id ?? null,
+        balance: toNumber(h.current_balance),
+        costBasisSol: toNumber(h.cost_basis_sol),
+        realizedPnlSol: toNumber(h.realized_pnl_sol),
+        unrealizedPnlSol: toNumber(h.unrealized_pnl_sol),
+        firstBuyAt: h.first_buy_at ?? null
+      })),
+      signals: signals.map(s => ({
+        timestamp: s.signal_timestamp,
+        smartWallets: s.smart_wallets_count,
+        avgTraderScore: toNumber(s.avg_trader_score),
+        investedSol: toNumber(s.total_smart_money_invested_sol),
+        signalStrength: toNumber(s.signal_strength),
+        topTraders: s.top_traders || []
+      })),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error fetching smart money holders:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// pg returns DECIMAL columns as strings
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+}
+
+function formatWallet(wallet: WalletTrader) {
+  return {
+    address: wallet.wallet_address,
+    score: toNumber(wallet.trader_score),
+    type: wallet.wallet_type,
+    clusterId: wallet.cluster_id ?? null,
+    pnlSol: toNumber(wallet.total_pnl_sol),
+    pnlUsd: toNumber(wallet.total_pnl_usd),
+    winRate: toNumber(wallet.win_rate),
+    totalTrades: wallet.total_trades,
+    graduatedTokensTraded: wallet.graduated_tokens_traded,
+    avgHoldTimeMinutes: wallet.avg_hold_time_minutes,
+    decayFactor: toNumber(wallet.score_decay_factor),
+    scoreUpdatedAt: wallet.score_updated_at ?? null,
+    lastActive: wallet.last_activity_at
+  };
+}
+
+function formatPosition(position: WalletPosition, token?: { symbol: string; name: string }) {
+  return {
+    tokenMint: position.token_mint,
+    symbol: token?.symbol ?? null,
+    name: token?.name ?? null,
+    totalBought: toNumber(position.total_bought),
+    totalSold: toNumber(position.total_sold),
+    balance: toNumber(position.current_balance),
+    avgBuyPrice: toNumber(position.avg_buy_price),
+    avgSellPrice: toNumber(position.avg_sell_price),
+    costBasisSol: toNumber(position.cost_basis_sol),
+    realizedPnlSol: toNumber(position.realized_pnl_sol),
+    unrealizedPnlSol: toNumber(position.unrealized_pnl_sol),
+    realizedPnlUsd: toNumber(position.realized_pnl_usd),
+    unrealizedPnlUsd: toNumber(position.unrealized_pnl_usd),
+    markPriceSol: toNumber(position.mark_price_sol),
+    isGraduated: position.is_graduated,
+    firstBuyAt: position.first_buy_at ?? null,
+    lastSellAt: position.last_sell_at ?? null
+  };
+}
+
+export default router;
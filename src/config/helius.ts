@@ -0,0 +1,32 @@
+import { Helius } from 'helius-sdk';
+import { Connection } from '@solana/web3.js';
+
+export const DEFAULT_HELIUS_API_URL = 'https://api.helius.xyz';
+
+/**
+ * Where Helius is reached. A field left out falls back to HELIUS_RPC_URL or
+ * HELIUS_API_URL, then to mainnet, so pointing both variables at the mock
+ * Helius server (npm run mock-helius) takes every service offline.
+ */
+export interface HeliusEndpoints {
+  rpcUrl?: string;              // JSON-RPC and DAS (getTokenAccounts)
+  apiUrl?: string;              // REST API (enhanced transactions)
+}
+
+export function heliusRpcUrl(apiKey: string, endpoints: HeliusEndpoints = {}): string {
+  return endpoints.rpcUrl || process.env.HELIUS_RPC_URL || `https://mainnet.helius-rpc.com/?api-key=${apiKey}`;
+}
+
+export function heliusApiUrl(endpoints: HeliusEndpoints = {}): string {
+  return endpoints.apiUrl || process.env.HELIUS_API_URL || DEFAULT_HELIUS_API_URL;
+}
+
+export function createHeliusClient(apiKey: string, endpoints: HeliusEndpoints = {}): Helius {
+  const rpcUrl = endpoints.rpcUrl || process.env.HELIUS_RPC_URL;
+  // The SDK only uses `url` when it is given no API key
+  return rpcUrl ? new Helius('', 'mainnet-beta', 'helius-sdk', rpcUrl) : new Helius(apiKey);
+}
+
+export function createHeliusConnection(apiKey: string, endpoints: HeliusEndpoints = {}): Connection {
+  return new Connection(heliusRpcUrl(apiKey, endpoints));
+}
@@ -77,6 +77,36 @@ export interface HolderScoringConfig {
       totalScoreThreshold: number;
     };
   };
+  // Points added to the total for how the distribution moved over the
+  // trend window, between -maxPoints and +maxPoints
+  trend: {
+    minSnapshots: number;
+    maxPoints: number;
+    holderGrowth: {
+      strong: number;             // % per hour
+      positive: number;
+      decline: number;            // negative
+      points: {
+        strong: number;
+        positive: number;
+        decline: number;          // negative
+      };
+    };
+    giniDrift: {
+      threshold: number;          // Gini change either way that earns or costs points
+      points: number;
+    };
+    top10Change: {
+      threshold: number;          // percentage points
+      points: number;
+    };
+    holderFlow: {
+      minMoves: number;           // entered + exited below this earns nothing
+      inflowShare: number;        // entered / (entered + exited) at or above this earns points
+      outflowShare: number;       // at or below this costs points
+      points: number;
+    };
+  };
   quickScore: {
     uniqueBuyers: {
       high: number;
@@ -111,6 +141,80 @@ export interface HolderScoringConfig {
   };
 }
 
+// Fallback configuration matching the original hardcoded values
+export const defaultHolderScoringConfig: HolderScoringConfig = {
+  distribution: {
+    gini: {
+      excellent: 0.3,
+      good: 0.5,
+      fair: 0.7,
+      poor: 0.8,
+      points: { excellent: 40, good: 30, fair: 20, poor: 10, terrible: 0 }
+    },
+    top1Percent: {
+      excellent: 5,
+      good: 10,
+      fair: 15,
+      poor: 20,
+      points: { excellent: 40, good: 30, fair: 20, poor: 10, terrible: 0 }
+    },
+    holderCount: { divisor: 10, maxPoints: 31 }
+  },
+  quality: {
+    botRatio: {
+      excellent: 0.1,
+      good: 0.2,
+      fair: 0.3,
+      poor: 0.4,
+      points: { excellent: 40, good: 30, fair: 20, poor: 10, terrible: 0 }
+    },
+    smartMoney: { multiplier: 400, maxPoints: 40 },
+    walletAge: {
+      excellent: 90,
+      good: 60,
+      fair: 30,
+      acceptable: 14,
+      poor: 7,
+      points: { excellent: 31, good: 25, fair: 20, acceptable: 15, poor: 10, terrible: 5 }
+    }
+  },
+  activity: {
+    activeHolders: { multiplier: 50, maxPoints: 40 },
+    organicGrowth: { multiplier: 40, maxPoints: 40 },
+    velocity: { multiplier: 31, maxPoints: 31 }
+  },
+  alerts: {
+    critical: { giniThreshold: 0.9, botRatioThreshold: 0.5, riskScoreThreshold: 80 },
+    warning: { topHolderThreshold: 20, walletAgeThreshold: 7 },
+    positive: { smartMoneyThreshold: 0.1, totalScoreThreshold: 250 }
+  },
+  trend: {
+    minSnapshots: 3,
+    maxPoints: 20,
+    holderGrowth: {
+      strong: 10, positive: 2, decline: -2,
+      points: { strong: 8, positive: 4, decline: -6 }
+    },
+    giniDrift: { threshold: 0.05, points: 4 },
+    top10Change: { threshold: 5, points: 4 },
+    holderFlow: { minMoves: 10, inflowShare: 0.65, outflowShare: 0.4, points: 4 }
+  },
+  quickScore: {
+    uniqueBuyers: {
+      high: 10, medium: 5, low: 2,
+      points: { high: 15, medium: 10, low: 5 }
+    },
+    largestBuy: {
+      high: 2, medium: 1, low: 0.5,
+      points: { high: 15, medium: 10, low: 5 }
+    },
+    buyRatio: {
+      high: 2, medium: 1.5, low: 1,
+      points: { high: 20, medium: 15, low: 10 }
+    }
+  }
+};
+
 export class ScoringConfigLoader {
   private static instance: ScoringConfigLoader;
   private config!: HolderScoringConfig;
@@ -175,68 +279,7 @@ export class ScoringConfigLoader {
   }
 
   private getDefaultConfig(): HolderScoringConfig {
-    // Fallback configuration matching current hardcoded values
-    return {
-      distribution: {
-        gini: {
-          excellent: 0.3,
-          good: 0.5,
-          fair: 0.7,
-          poor: 0.8,
-          points: { excellent: 40, good: 30, fair: 20, poor: 10, terrible: 0 }
-        },
-        top1Percent: {
-          excellent: 5,
-          good: 10,
-          fair: 15,
-          poor: 20,
-          points: { excellent: 40, good: 30, fair: 20, poor: 10, terrible: 0 }
-        },
-        holderCount: { divisor: 10, maxPoints: 31 }
-      },
-      quality: {
-        botRatio: {
-          excellent: 0.1,
-          good: 0.2,
-          fair: 0.3,
-          poor: 0.4,
-          points: { excellent: 40, good: 30, fair: 20, poor: 10, terrible: 0 }
-        },
-        smartMoney: { multiplier: 400, maxPoints: 40 },
-        walletAge: {
-          excellent: 90,
-          good: 60,
-          fair: 30,
-          acceptable: 14,
-          poor: 7,
-          points: { excellent: 31, good: 25, fair: 20, acceptable: 15, poor: 10, terrible: 5 }
-        }
-      },
-      activity: {
-        activeHolders: { multiplier: 50, maxPoints: 40 },
-        organicGrowth: { multiplier: 40, maxPoints: 40 },
-        velocity: { multiplier: 31, maxPoints: 31 }
-      },
-      alerts: {
-        critical: { giniThreshold: 0.9, botRatioThreshold: 0.5, riskScoreThreshold: 80 },
-        warning: { topHolderThreshold: 20, walletAgeThreshold: 7 },
-        positive: { smartMoneyThreshold: 0.1, totalScoreThreshold: 250 }
-      },
-      quickScore: {
-        uniqueBuyers: {
-          high: 10, medium: 5, low: 2,
-          points: { high: 15, medium: 10, low: 5 }
-        },
-        largestBuy: {
-          high: 2, medium: 1, low: 0.5,
-          points: { high: 15, medium: 10, low: 5 }
-        },
-        buyRatio: {
-          high: 2, medium: 1.5, low: 1,
-          points: { high: 20, medium: 15, low: 10 }
-        }
-      }
-    };
+    return defaultHolderScoringConfig;
   }
 }
 
@@ -7,11 +7,21 @@ export { PoolOperations } from './operations/pool';
 export { TokenOperations } from './operations/token';
 export { TransactionOperations } from './operations/transaction';
 export { PriceOperations } from './operations/price';
+export { StreamGapOperations } from './operations/stream-gap';
+export { PaperTradingOperations } from './operations/paper-trading';
+export { BacktestOperations } from './operations/backtest';
+export { MlModelOperations } from './operations/ml-model';
+export { AlertOperations } from './operations/alert';
 
 // Singleton instances
 export { priceOperations } from './operations/price';
 export { tokenOperations } from './operations/token';
 export { transactionOperations } from './operations/transaction';
+export { streamGapOperations } from './operations/stream-gap';
+export { paperTradingOperations } from './operations/paper-trading';
+export { backtestOperations } from './operations/backtest';
+export { mlModelOperations } from './operations/ml-model';
+export { alertOperations } from './operations/alert';
 
 // Monitor service and cache
 export { monitorService, MonitorService } from './monitor-service';
@@ -27,6 +37,21 @@ export type {
   LatestPrice,
   PriceChange,
   VolumeStats,
+  StreamCheckpoint,
+  StreamGap,
+  StreamGapStatus,
+  StreamGapRecoveryMethod,
+  PaperExitReason,
+  PaperPosition,
+  PaperFill,
+  PaperPnLReport,
+  BacktestRun,
+  BacktestTokenResult,
+  MlModelAlgorithm,
+  MlModel,
+  AlertSeverity,
+  AlertDelivery,
+  FiredAlert,
   
   // Legacy types
   PoolData,
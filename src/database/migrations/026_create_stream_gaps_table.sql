@@ -0,0 +1,49 @@
+-- Migration: 026_create_stream_gaps_table
+-- Description: Slot checkpoints for gRPC monitors and the gaps detected when their streams reconnect
+-- Dependencies: 001_create_tokens_table
+
+-- Last slot processed by each monitor, so gaps survive process restarts
+CREATE TABLE IF NOT EXISTS stream_checkpoints (
+    monitor_id VARCHAR(64) PRIMARY KEY,
+    last_slot BIGINT NOT NULL,
+    last_update_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Slot ranges a monitor did not receive live
+CREATE TABLE IF NOT EXISTS stream_gaps (
+    id SERIAL PRIMARY KEY,
+    monitor_id VARCHAR(64) NOT NULL,
+    from_slot BIGINT NOT NULL,
+    to_slot BIGINT NOT NULL,
+    gap_start TIMESTAMPTZ NOT NULL,
+    gap_end TIMESTAMPTZ NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'recovering', 'recovered', 'unrecovered')),
+    recovery_method VARCHAR(20)
+        CHECK (recovery_method IN ('from_slot', 'rpc_backfill')),
+    transactions_recovered INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    detected_at TIMESTAMPTZ DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stream_gaps_monitor ON stream_gaps(monitor_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stream_gaps_unresolved ON stream_gaps(gap_end)
+    WHERE status IN ('open', 'recovering', 'unrecovered');
+
+COMMENT ON TABLE stream_checkpoints IS 'Highest slot each gRPC monitor has processed';
+COMMENT ON TABLE stream_gaps IS 'Slot ranges missed during stream reconnects and how they were recovered';
+COMMENT ON COLUMN stream_gaps.recovery_method IS 'from_slot = resubscribed from the last slot, rpc_backfill = fetched through RPC signature history';
+
+-- A token's history is incomplete if a gap that was not recovered ended after the token was created
+CREATE OR REPLACE FUNCTION token_has_stream_gap(p_token_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM stream_gaps g
+        JOIN tokens t ON t.id = p_token_id
+        WHERE g.status IN ('open', 'recovering', 'unrecovered')
+          AND g.gap_end >= t.created_at
+    );
+$$ LANGUAGE sql STABLE;
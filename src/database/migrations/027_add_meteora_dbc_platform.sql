@@ -0,0 +1,20 @@
+-- Migration: 027_add_meteora_dbc_platform
+-- Description: Allow Meteora Dynamic Bonding Curve (DBC) launches in tokens and pools
+-- Dependencies: 001_create_tokens_table, 002_create_pools_table, 018_add_graduated_platforms
+
+ALTER TABLE tokens
+DROP CONSTRAINT IF EXISTS tokens_platform_check;
+
+ALTER TABLE tokens
+ADD CONSTRAINT tokens_platform_check
+CHECK (platform IN ('pumpfun', 'raydium_launchpad', 'raydium', 'pumpswap', 'meteora_dbc'));
+
+ALTER TABLE pools
+DROP CONSTRAINT IF EXISTS pools_platform_check;
+
+ALTER TABLE pools
+ADD CONSTRAINT pools_platform_check
+CHECK (platform IN ('pumpfun', 'raydium_launchpad', 'raydium', 'pumpswap', 'raydium_cpmm', 'meteora_dbc'));
+
+COMMENT ON COLUMN tokens.platform IS 'Launchpad the token was created on: pumpfun, raydium_launchpad, meteora_dbc';
+COMMENT ON COLUMN pools.platform IS 'Platform hosting the pool: pumpfun, raydium_launchpad, meteora_dbc, raydium (AMM V4), pumpswap, raydium_cpmm';
@@ -0,0 +1,69 @@
+-- Migration: 028_create_paper_trading_tables
+-- Description: Simulated positions and fills for the paper-trading engine
+-- Dependencies: 001_create_tokens_table, 002_create_pools_table
+
+-- One row per simulated position; a strategy holds at most one open position per pool
+CREATE TABLE IF NOT EXISTS paper_positions (
+    id SERIAL PRIMARY KEY,
+    strategy VARCHAR(64) NOT NULL,
+    token_id UUID NOT NULL REFERENCES tokens(id),
+    pool_id UUID NOT NULL REFERENCES pools(id),
+    mint_address VARCHAR(44) NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+
+    -- Entry
+    opened_at TIMESTAMPTZ NOT NULL,
+    size_sol NUMERIC(20, 9) NOT NULL,
+    token_amount NUMERIC(30, 6) NOT NULL,
+    entry_price_sol NUMERIC(30, 18) NOT NULL,
+    entry_technical_score NUMERIC(6, 2),
+    entry_holder_score NUMERIC(6, 2),
+    entry_progress NUMERIC(5, 2),
+
+    -- Mark to market while open
+    last_price_sol NUMERIC(30, 18),
+    peak_price_sol NUMERIC(30, 18),
+    unrealized_pnl_sol NUMERIC(20, 9),
+
+    -- Exit
+    closed_at TIMESTAMPTZ,
+    exit_price_sol NUMERIC(30, 18),
+    exit_proceeds_sol NUMERIC(20, 9),
+    realized_pnl_sol NUMERIC(20, 9),
+    realized_pnl_pct NUMERIC(10, 4),
+    exit_reason VARCHAR(20) CHECK (exit_reason IN (
+        'stop_loss', 'take_profit', 'trailing_stop', 'selloff', 'score_decay', 'max_hold', 'graduated', 'manual'
+    )),
+
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_paper_positions_open
+    ON paper_positions(strategy, pool_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_paper_positions_strategy
+    ON paper_positions(strategy, opened_at DESC);
+
+-- Every simulated buy and sell with the spot price it was modelled against
+CREATE TABLE IF NOT EXISTS paper_fills (
+    id BIGSERIAL PRIMARY KEY,
+    position_id INT NOT NULL REFERENCES paper_positions(id) ON DELETE CASCADE,
+    strategy VARCHAR(64) NOT NULL,
+    side VARCHAR(4) NOT NULL CHECK (side IN ('buy', 'sell')),
+    filled_at TIMESTAMPTZ NOT NULL,
+    sol_amount NUMERIC(20, 9) NOT NULL,
+    token_amount NUMERIC(30, 6) NOT NULL,
+    spot_price_sol NUMERIC(30, 18) NOT NULL,
+    fill_price_sol NUMERIC(30, 18) NOT NULL,
+    slippage_pct NUMERIC(10, 4) NOT NULL,
+    fee_sol NUMERIC(20, 9) NOT NULL DEFAULT 0,
+    price_model VARCHAR(16) NOT NULL CHECK (price_model IN ('bonding_curve', 'fixed_slippage')),
+    reason VARCHAR(20),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_fills_position ON paper_fills(position_id, filled_at);
+
+COMMENT ON TABLE paper_positions IS 'Simulated positions opened by the paper-trading engine from live scores';
+COMMENT ON TABLE paper_fills IS 'Simulated fills; slippage is modelled on the pool''s virtual reserves when available';
@@ -0,0 +1,63 @@
+-- Migration: 029_create_backtest_tables
+-- Description: Persisted backtest runs and per-token outcomes for comparing scoring configs
+-- Dependencies: 001_create_tokens_table, 025_create_graduated_tokens_table
+
+-- One row per backtest; config holds the strategy, scoring_config the scoring parameters used
+CREATE TABLE IF NOT EXISTS backtest_runs (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    status VARCHAR(12) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    range_start TIMESTAMPTZ NOT NULL,
+    range_end TIMESTAMPTZ NOT NULL,
+    step_minutes INT NOT NULL,
+    config JSONB NOT NULL,
+    scoring_config JSONB NOT NULL,
+
+    -- Graduation hit rate
+    tokens_evaluated INT,
+    tokens_signaled INT,
+    tokens_graduated INT,
+    hits INT,
+    hit_rate NUMERIC(7, 4),
+    recall NUMERIC(7, 4),
+    base_rate NUMERIC(7, 4),
+
+    -- Simulated trading
+    trades INT,
+    win_rate NUMERIC(7, 4),
+    realized_pnl_sol NUMERIC(20, 9),
+
+    error TEXT,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_backtest_runs_started ON backtest_runs(started_at DESC);
+
+-- Per-token outcome: scores at the first entry signal against what actually happened
+CREATE TABLE IF NOT EXISTS backtest_results (
+    id BIGSERIAL PRIMARY KEY,
+    run_id INT NOT NULL REFERENCES backtest_runs(id) ON DELETE CASCADE,
+    token_id UUID NOT NULL REFERENCES tokens(id),
+    mint_address VARCHAR(44) NOT NULL,
+    signaled BOOLEAN NOT NULL,
+    signal_at TIMESTAMPTZ,
+    technical_score NUMERIC(6, 2),
+    holder_score NUMERIC(6, 2),
+    aggregate_score NUMERIC(6, 2),
+    progress_at_signal NUMERIC(5, 2),
+    max_technical_score NUMERIC(6, 2),
+    graduated BOOLEAN NOT NULL,
+    graduated_at TIMESTAMPTZ,
+    minutes_to_graduation NUMERIC(10, 2),
+    realized_pnl_sol NUMERIC(20, 9),
+    exit_reason VARCHAR(20),
+    UNIQUE (run_id, token_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backtest_results_run ON backtest_results(run_id, signaled);
+
+COMMENT ON TABLE backtest_runs IS 'Historical replays of the scoring pipeline and a paper-trading strategy';
+COMMENT ON COLUMN backtest_runs.hit_rate IS 'Share of signaled tokens that graduated';
+COMMENT ON COLUMN backtest_runs.recall IS 'Share of graduated tokens that were signaled';
+COMMENT ON COLUMN backtest_runs.base_rate IS 'Share of evaluated tokens that graduated';
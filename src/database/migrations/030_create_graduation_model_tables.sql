@@ -0,0 +1,40 @@
+-- Migration: 030_create_graduation_model_tables
+-- Description: Registry for trained graduation-probability models and a per-score probability column
+-- Dependencies: 015_technical_scoring_system
+
+-- One row per trained model; parameters holds everything inference needs
+CREATE TABLE IF NOT EXISTS ml_models (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    version INT NOT NULL,
+    algorithm VARCHAR(20) NOT NULL CHECK (algorithm IN ('logistic', 'gbdt')),
+    feature_version INT NOT NULL,
+    feature_names JSONB NOT NULL,
+    parameters JSONB NOT NULL,
+    hyperparameters JSONB NOT NULL DEFAULT '{}',
+
+    -- Training data
+    training_range_start TIMESTAMPTZ NOT NULL,
+    training_range_end TIMESTAMPTZ NOT NULL,
+    train_samples INT NOT NULL,
+    test_samples INT NOT NULL,
+    positive_rate NUMERIC(7, 4),
+
+    -- Held-out evaluation
+    metrics JSONB NOT NULL DEFAULT '{}',
+
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    trained_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    activated_at TIMESTAMPTZ,
+
+    UNIQUE (name, version)
+);
+
+-- At most one active model per name
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ml_models_active ON ml_models(name) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_ml_models_trained ON ml_models(trained_at DESC);
+
+-- Probability written alongside each technical score by the active model
+ALTER TABLE technical_scores ADD COLUMN IF NOT EXISTS graduation_probability NUMERIC(5, 4)
+    CHECK (graduation_probability BETWEEN 0 AND 1);
+ALTER TABLE technical_scores ADD COLUMN IF NOT EXISTS graduation_model_id INT REFERENCES ml_models(id);
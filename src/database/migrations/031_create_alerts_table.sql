@@ -0,0 +1,33 @@
+-- Migration: 031_create_alerts_table
+-- Description: Fired alerts from the rule-based alert bus with per-sink delivery results
+-- Dependencies: none
+
+-- One row per fired alert; repeats inside the rule's cooldown bump suppressed_count instead
+CREATE TABLE IF NOT EXISTS alerts (
+    id BIGSERIAL PRIMARY KEY,
+    rule_id VARCHAR(100) NOT NULL,
+    rule_name VARCHAR(200) NOT NULL,
+    event_type VARCHAR(30) NOT NULL,
+    severity VARCHAR(10) NOT NULL CHECK (severity IN ('info', 'positive', 'warning', 'critical')),
+    dedupe_key VARCHAR(200) NOT NULL,
+
+    -- Subject, when the event concerns a token
+    token_id UUID,
+    mint_address VARCHAR(64),
+    symbol VARCHAR(50),
+
+    title VARCHAR(300) NOT NULL,
+    message TEXT NOT NULL,
+    fields JSONB NOT NULL DEFAULT '{}',
+
+    -- [{ sink, ok, error, at }]
+    deliveries JSONB NOT NULL DEFAULT '[]',
+    suppressed_count INT NOT NULL DEFAULT 0,
+    last_suppressed_at TIMESTAMPTZ,
+
+    fired_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_fired ON alerts(fired_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_dedupe ON alerts(dedupe_key, fired_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_mint ON alerts(mint_address, fired_at DESC) WHERE mint_address IS NOT NULL;
@@ -0,0 +1,151 @@
+-- Migration: 032_create_dashboard_feed_notifications
+-- Description: NOTIFY triggers that push new tokens, trades, score snapshots, graduations and sell-offs to the dashboard live feed
+-- Dependencies: 001_create_tokens_table, 003_create_transactions_hypertable, 015_technical_scoring_system, 030_create_graduation_model_tables
+
+-- Every event goes out on one channel as {"event": ..., "mint": ..., "data": {...}}.
+-- Payloads stay small (NOTIFY is capped at 8000 bytes); the API server fans
+-- them out to subscribed dashboard clients.
+CREATE OR REPLACE FUNCTION notify_dashboard_feed(
+    p_event TEXT,
+    p_token_id UUID,
+    p_mint VARCHAR(44),
+    p_data JSONB
+) RETURNS VOID AS $$
+BEGIN
+    PERFORM pg_notify('dashboard_feed', json_build_object(
+        'event', p_event,
+        'tokenId', p_token_id,
+        'mint', p_mint,
+        'data', p_data,
+        'at', NOW()
+    )::TEXT);
+END;
+$$ LANGUAGE plpgsql;
+
+-- New tokens and graduations (tokens.is_graduated flipping to true)
+CREATE OR REPLACE FUNCTION dashboard_feed_tokens()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM notify_dashboard_feed('new_token', NEW.id, NEW.mint_address, jsonb_build_object(
+            'symbol', NEW.symbol,
+            'name', NEW.name,
+            'platform', NEW.platform,
+            'creator', NEW.creator_address,
+            'createdAt', NEW.creation_timestamp
+        ));
+    ELSIF NEW.is_graduated AND NOT COALESCE(OLD.is_graduated, FALSE) THEN
+        PERFORM notify_dashboard_feed('graduation', NEW.id, NEW.mint_address, jsonb_build_object(
+            'symbol', NEW.symbol,
+            'signature', NEW.graduation_signature,
+            'graduatedAt', NEW.graduation_timestamp
+        ));
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS dashboard_feed_tokens_trigger ON tokens;
+CREATE TRIGGER dashboard_feed_tokens_trigger
+    AFTER INSERT OR UPDATE OF is_graduated ON tokens
+    FOR EACH ROW
+    EXECUTE FUNCTION dashboard_feed_tokens();
+
+-- Trades
+CREATE OR REPLACE FUNCTION dashboard_feed_transactions()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.type NOT IN ('buy', 'sell') THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM notify_dashboard_feed('trade', NEW.token_id,
+        (SELECT mint_address FROM tokens WHERE id = NEW.token_id),
+        jsonb_build_object(
+            'signature', NEW.signature,
+            'type', NEW.type,
+            'userAddress', NEW.user_address,
+            'solAmount', NEW.sol_amount,
+            'tokenAmount', NEW.token_amount,
+            'pricePerToken', NEW.price_per_token,
+            'blockTime', NEW.block_time
+        ));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS dashboard_feed_transactions_trigger ON transactions;
+CREATE TRIGGER dashboard_feed_transactions_trigger
+    AFTER INSERT ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION dashboard_feed_transactions();
+
+-- Technical score snapshots. The graduation probability may be filled in by
+-- a follow-up UPDATE, which is sent as a second score event.
+CREATE OR REPLACE FUNCTION dashboard_feed_technical_scores()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.graduation_probability IS NOT DISTINCT FROM OLD.graduation_probability THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM notify_dashboard_feed('score', NEW.token_id,
+        (SELECT mint_address FROM tokens WHERE id = NEW.token_id),
+        jsonb_build_object(
+            'total', NEW.total_score,
+            'marketCap', NEW.market_cap_score,
+            'bondingCurve', NEW.bonding_curve_score,
+            'tradingHealth', NEW.trading_health_score,
+            'selloffResponse', NEW.selloff_response_score,
+            'marketCapUsd', NEW.market_cap_usd,
+            'bondingCurveProgress', NEW.bonding_curve_progress,
+            'buySellRatio', NEW.buy_sell_ratio,
+            'isSelloffActive', NEW.is_selloff_active,
+            'graduationProbability', NEW.graduation_probability,
+            'calculatedAt', NEW.calculated_at
+        ));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS dashboard_feed_technical_scores_trigger ON technical_scores;
+CREATE TRIGGER dashboard_feed_technical_scores_trigger
+    AFTER INSERT OR UPDATE OF graduation_probability ON technical_scores
+    FOR EACH ROW
+    EXECUTE FUNCTION dashboard_feed_technical_scores();
+
+-- Sell-off events, sent when one opens and when it ends
+CREATE OR REPLACE FUNCTION dashboard_feed_selloff_events()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_token_id UUID;
+    v_mint VARCHAR(44);
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.is_active IS NOT DISTINCT FROM OLD.is_active THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT t.id, t.mint_address INTO v_token_id, v_mint
+    FROM pools p
+    JOIN tokens t ON t.id = p.token_id
+    WHERE p.id = NEW.pool_id;
+
+    PERFORM notify_dashboard_feed('selloff', v_token_id, v_mint, jsonb_build_object(
+        'id', NEW.id,
+        'isActive', NEW.is_active,
+        'startTime', NEW.start_time,
+        'endTime', NEW.end_time,
+        'maxDropPercent', NEW.max_drop_percent,
+        'totalSellVolume', NEW.total_sell_volume
+    ));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS dashboard_feed_selloff_events_trigger ON selloff_events;
+CREATE TRIGGER dashboard_feed_selloff_events_trigger
+    AFTER INSERT OR UPDATE OF is_active ON selloff_events
+    FOR EACH ROW
+    EXECUTE FUNCTION dashboard_feed_selloff_events();
+
+COMMENT ON FUNCTION notify_dashboard_feed IS 'Publishes a dashboard live-feed event on the dashboard_feed NOTIFY channel';
@@ -0,0 +1,194 @@
+-- Migration: 033_add_smart_money_to_aggregate_scores
+-- Description: Adds the live smart-money signal to aggregate_scores as the wallet component of the 999-point total
+-- Dependencies: 022_create_aggregate_scores_table, 024_create_wallet_tracker_tables
+
+-- The third 333-point slot was reserved for social, which is not implemented.
+-- Smart money shares it: total = technical + holder + LEAST(333, social + smart money).
+ALTER TABLE aggregate_scores
+    ADD COLUMN IF NOT EXISTS smart_money_score DECIMAL(5,1) NOT NULL DEFAULT 0
+        CHECK (smart_money_score BETWEEN 0 AND 333),
+    ADD COLUMN IF NOT EXISTS smart_wallets_count INT,
+    ADD COLUMN IF NOT EXISTS last_smart_money_update TIMESTAMPTZ;
+
+-- Generated columns cannot change their expression, so rebuild them
+DROP VIEW IF EXISTS latest_aggregate_scores;
+
+ALTER TABLE aggregate_scores DROP COLUMN IF EXISTS total_score;
+ALTER TABLE aggregate_scores DROP COLUMN IF EXISTS total_percentage;
+
+ALTER TABLE aggregate_scores
+    ADD COLUMN total_score DECIMAL(6,1) GENERATED ALWAYS AS (
+        technical_score + holder_score + LEAST(333, social_score + smart_money_score)
+    ) STORED,
+    ADD COLUMN total_percentage DECIMAL(5,2) GENERATED ALWAYS AS (
+        (technical_score + holder_score + LEAST(333, social_score + smart_money_score)) / 999 * 100
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_aggregate_scores_total ON aggregate_scores(total_score DESC) WHERE NOT is_stale;
+CREATE INDEX IF NOT EXISTS idx_aggregate_scores_percentage ON aggregate_scores(total_percentage DESC) WHERE NOT is_stale;
+
+CREATE OR REPLACE VIEW latest_aggregate_scores AS
+SELECT DISTINCT ON (token_id)
+    token_id,
+    technical_score,
+    holder_score,
+    social_score,
+    smart_money_score,
+    total_score,
+    technical_percentage,
+    holder_percentage,
+    social_percentage,
+    total_percentage,
+    bonding_curve_progress,
+    market_cap_usd,
+    unique_holders,
+    gini_coefficient,
+    bot_ratio,
+    smart_wallets_count,
+    score_time,
+    last_technical_update,
+    last_holder_update,
+    last_social_update,
+    last_smart_money_update,
+    is_stale
+FROM aggregate_scores
+WHERE NOT is_stale
+ORDER BY token_id, score_time DESC;
+
+-- Same as 022 plus the latest smart-money signal. signal_strength (0-100)
+-- is computed by the signal generator; it scales to the 333-point slot here.
+CREATE OR REPLACE FUNCTION update_aggregate_scores(
+    p_token_id UUID
+) RETURNS aggregate_scores AS $$
+DECLARE
+    v_technical_score DECIMAL(5,1);
+    v_holder_score DECIMAL(5,1);
+    v_social_score DECIMAL(5,1);
+    v_smart_money_score DECIMAL(5,1);
+    v_smart_wallets INT;
+    v_smart_money_time TIMESTAMPTZ;
+    v_bonding_progress DECIMAL(5,2);
+    v_market_cap DECIMAL(20,2);
+    v_unique_holders INT;
+    v_gini DECIMAL(5,4);
+    v_bot_ratio DECIMAL(5,4);
+    v_pool_id UUID;
+    v_result aggregate_scores;
+BEGIN
+    SELECT id, bonding_curve_progress, latest_price_usd * 1000000000
+    INTO v_pool_id, v_bonding_progress, v_market_cap
+    FROM pools
+    WHERE token_id = p_token_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    SELECT total_score INTO v_technical_score
+    FROM calculate_technical_score(p_token_id, v_pool_id);
+
+    IF v_technical_score IS NULL THEN
+        v_technical_score := 0;
+    END IF;
+
+    SELECT
+        total_score,
+        unique_holders,
+        gini_coefficient,
+        bot_ratio
+    INTO
+        v_holder_score,
+        v_unique_holders,
+        v_gini,
+        v_bot_ratio
+    FROM holder_scores_v2
+    WHERE token_id = p_token_id
+    ORDER BY score_time DESC
+    LIMIT 1;
+
+    IF v_holder_score IS NULL THEN
+        v_holder_score := 0;
+    END IF;
+
+    SELECT
+        LEAST(333, ROUND(COALESCE(s.signal_strength, 0) * 3.33, 1)),
+        s.smart_wallets_count,
+        s.signal_timestamp
+    INTO
+        v_smart_money_score,
+        v_smart_wallets,
+        v_smart_money_time
+    FROM token_smart_money_signals s
+    JOIN tokens t ON t.mint_address = s.token_mint
+    WHERE t.id = p_token_id
+    ORDER BY s.signal_timestamp DESC
+    LIMIT 1;
+
+    IF v_smart_money_score IS NULL THEN
+        v_smart_money_score := 0;
+    END IF;
+
+    -- Social score not implemented yet
+    v_social_score := 0;
+
+    INSERT INTO aggregate_scores (
+        token_id,
+        technical_score,
+        holder_score,
+        social_score,
+        smart_money_score,
+        bonding_curve_progress,
+        market_cap_usd,
+        unique_holders,
+        gini_coefficient,
+        bot_ratio,
+        smart_wallets_count,
+        last_technical_update,
+        last_holder_update,
+        last_social_update,
+        last_smart_money_update
+    ) VALUES (
+        p_token_id,
+        v_technical_score,
+        v_holder_score,
+        v_social_score,
+        v_smart_money_score,
+        v_bonding_progress,
+        v_market_cap,
+        v_unique_holders,
+        v_gini,
+        v_bot_ratio,
+        v_smart_wallets,
+        CASE WHEN v_technical_score > 0 THEN NOW() ELSE NULL END,
+        CASE WHEN v_holder_score > 0 THEN NOW() ELSE NULL END,
+        NULL, -- Social not implemented
+        v_smart_money_time
+    )
+    RETURNING * INTO v_result;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refresh the aggregate when a new signal is stored
+CREATE OR REPLACE FUNCTION trigger_update_aggregate_on_smart_money() RETURNS TRIGGER AS $$
+DECLARE
+    v_token_id UUID;
+BEGIN
+    SELECT id INTO v_token_id FROM tokens WHERE mint_address = NEW.token_mint;
+    IF v_token_id IS NOT NULL THEN
+        PERFORM update_aggregate_scores(v_token_id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_aggregate_on_smart_money_signal ON token_smart_money_signals;
+CREATE TRIGGER update_aggregate_on_smart_money_signal
+    AFTER INSERT ON token_smart_money_signals
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_update_aggregate_on_smart_money();
+
+GRANT SELECT ON latest_aggregate_scores TO PUBLIC;
+
+COMMENT ON COLUMN aggregate_scores.smart_money_score IS 'Smart-money score (0-333) from the latest token_smart_money_signals row; shares the 333-point slot with social';
+COMMENT ON COLUMN aggregate_scores.total_score IS 'Total score (0-999): technical + holder + LEAST(333, social + smart money)';
+COMMENT ON VIEW latest_aggregate_scores IS 'Convenient view showing latest aggregate scores for all tokens';
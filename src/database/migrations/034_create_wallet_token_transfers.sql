@@ -0,0 +1,38 @@
+-- Migration: 034_create_wallet_token_transfers
+-- Description: Token transfers in/out of tracked wallets and lot-accounting columns on wallet_positions
+-- Dependencies: 024_create_wallet_tracker_tables, 008_create_sol_usd_prices
+
+-- Tokens that moved without a trade. Position accounting needs these so a
+-- sell of tokens received from another wallet is not treated as profit on
+-- tokens never bought, and tokens sent away stop counting as held.
+CREATE TABLE IF NOT EXISTS wallet_token_transfers (
+  id SERIAL PRIMARY KEY,
+  wallet_address VARCHAR(44) NOT NULL,
+  token_mint VARCHAR(44) NOT NULL,
+  direction VARCHAR(3) NOT NULL CHECK (direction IN ('in', 'out')),
+  amount DECIMAL(20, 6) NOT NULL CHECK (amount > 0),
+  counterparty VARCHAR(44),
+  transaction_hash VARCHAR(88) NOT NULL,
+  block_time TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (transaction_hash, wallet_address, token_mint, direction),
+  FOREIGN KEY (wallet_address) REFERENCES wallet_traders(wallet_address) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_token_transfers_wallet_token
+  ON wallet_token_transfers(wallet_address, token_mint, block_time);
+
+-- Results of lot accounting, written when positions are reconciled
+ALTER TABLE wallet_positions
+  ADD COLUMN IF NOT EXISTS cost_basis_sol DECIMAL(20, 9) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS realized_pnl_usd DECIMAL(20, 2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS unrealized_pnl_usd DECIMAL(20, 2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS transferred_in DECIMAL(20, 6) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS transferred_out DECIMAL(20, 6) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS mark_price_sol DECIMAL(30, 20),
+  ADD COLUMN IF NOT EXISTS marked_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS accounting_method VARCHAR(10) CHECK (accounting_method IN ('fifo', 'average'));
+
+COMMENT ON TABLE wallet_token_transfers IS 'Token transfers in and out of tracked wallets, used for position cost basis';
+COMMENT ON COLUMN wallet_positions.cost_basis_sol IS 'SOL cost of the tokens still held under accounting_method';
+COMMENT ON COLUMN wallet_positions.mark_price_sol IS 'Price the open balance was marked at for unrealized PnL';
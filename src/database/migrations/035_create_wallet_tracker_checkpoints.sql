@@ -0,0 +1,40 @@
+-- Migration: 035_create_wallet_tracker_checkpoints
+-- Description: Checkpoints for incremental wallet tracker ingestion; makes wallet_trades inserts idempotent
+-- Dependencies: 024_create_wallet_tracker_tables
+
+-- One row per ingestion job. Cursors only move forward once a token or a
+-- page of trades is saved, so an interrupted run resumes where it stopped.
+CREATE TABLE IF NOT EXISTS wallet_tracker_checkpoints (
+  name VARCHAR(50) PRIMARY KEY,
+
+  -- Last graduated token whose pre-graduation trades were ingested
+  graduation_cursor_at TIMESTAMP,
+  graduation_cursor_mint VARCHAR(44),
+
+  -- Last monitor transaction ingested for tracked wallets
+  trade_cursor_at TIMESTAMP,
+  trade_cursor_signature VARCHAR(88),
+
+  -- Wallets with new trades whose positions and metrics are not yet updated
+  pending_wallets TEXT[] NOT NULL DEFAULT '{}',
+
+  run_started_at TIMESTAMP,
+  run_completed_at TIMESTAMP,
+  runs_completed INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Repeated full collections inserted the same trades again; keep the first copy
+DELETE FROM wallet_trades a
+USING wallet_trades b
+WHERE a.id > b.id
+  AND a.transaction_hash = b.transaction_hash
+  AND a.wallet_address = b.wallet_address
+  AND a.token_mint = b.token_mint
+  AND a.trade_type = b.trade_type;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_trades_unique_tx
+  ON wallet_trades(transaction_hash, wallet_address, token_mint, trade_type);
+
+COMMENT ON TABLE wallet_tracker_checkpoints IS 'Resume points for incremental wallet tracker ingestion';
@@ -0,0 +1,72 @@
+-- Migration: 036_add_sell_pressure_tracking
+-- Description: Severity, trade counts and recovery details on selloff_events; sell pressure thresholds in scoring_config
+-- Dependencies: 015_technical_scoring_system, 021_progressive_scoring_complete, 032_create_dashboard_feed_notifications
+
+-- Episodes written by the sell pressure detector. Rows opened by
+-- detect_selloff_event() leave these NULL until the detector adopts them.
+ALTER TABLE selloff_events
+    ADD COLUMN IF NOT EXISTS token_id UUID REFERENCES tokens(id),
+    ADD COLUMN IF NOT EXISTS severity VARCHAR(10)
+        CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+    ADD COLUMN IF NOT EXISTS last_price NUMERIC(20,9),
+    ADD COLUMN IF NOT EXISTS last_trade_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS sell_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS buy_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS largest_sell_volume NUMERIC(20,9),
+    ADD COLUMN IF NOT EXISTS recovery_strength NUMERIC(10,4),
+    ADD COLUMN IF NOT EXISTS end_reason VARCHAR(20)
+        CHECK (end_reason IN ('recovered', 'expired'));
+
+CREATE INDEX IF NOT EXISTS idx_selloff_events_token ON selloff_events(token_id, start_time DESC);
+
+-- Thresholds that used to be hard-coded in MonitorIntegration
+INSERT INTO scoring_config (component, parameter, value, description) VALUES
+('selloff', 'medium_volume_sol', 2, 'SOL sold within the window for medium sell pressure'),
+('selloff', 'high_volume_sol', 5, 'SOL sold within the window for high sell pressure'),
+('selloff', 'critical_volume_sol', 10, 'SOL sold within the window for critical sell pressure'),
+('selloff', 'window_minutes', 5, 'Lookback window for sell pressure detection'),
+('selloff', 'coordinated_sells_per_minute', 5, 'Sells in one minute that raise low pressure to medium'),
+('selloff', 'recovery_retrace_percent', 75, 'Percent of the drawdown the price must regain to end an episode'),
+('selloff', 'max_episode_minutes', 60, 'Minutes without recovery after which an episode expires')
+ON CONFLICT (component, parameter) DO NOTHING;
+
+-- Also notify when an active episode escalates
+CREATE OR REPLACE FUNCTION dashboard_feed_selloff_events()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_token_id UUID;
+    v_mint VARCHAR(44);
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.is_active IS NOT DISTINCT FROM OLD.is_active
+        AND NEW.severity IS NOT DISTINCT FROM OLD.severity THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT t.id, t.mint_address INTO v_token_id, v_mint
+    FROM pools p
+    JOIN tokens t ON t.id = p.token_id
+    WHERE p.id = NEW.pool_id;
+
+    PERFORM notify_dashboard_feed('selloff', v_token_id, v_mint, jsonb_build_object(
+        'id', NEW.id,
+        'isActive', NEW.is_active,
+        'severity', NEW.severity,
+        'startTime', NEW.start_time,
+        'endTime', NEW.end_time,
+        'maxDropPercent', NEW.max_drop_percent,
+        'totalSellVolume', NEW.total_sell_volume,
+        'endReason', NEW.end_reason
+    ));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS dashboard_feed_selloff_events_trigger ON selloff_events;
+CREATE TRIGGER dashboard_feed_selloff_events_trigger
+    AFTER INSERT OR UPDATE OF is_active, severity ON selloff_events
+    FOR EACH ROW
+    EXECUTE FUNCTION dashboard_feed_selloff_events();
+
+COMMENT ON COLUMN selloff_events.severity IS 'Highest sell pressure severity reached during the episode';
+COMMENT ON COLUMN selloff_events.end_reason IS 'recovered: price regained recovery_retrace_percent of the drawdown; expired: max_episode_minutes passed';
@@ -0,0 +1,249 @@
+-- Migration: 037_create_creator_risk
+-- Description: Per-token creator risk (dev sells, funded wallets, supply transfers, serial launches) and its penalty on the aggregate score
+-- Dependencies: 001_create_tokens_table, 033_add_smart_money_to_aggregate_scores
+
+-- One row per token, rewritten each time the creator risk detector looks at it
+CREATE TABLE IF NOT EXISTS creator_risk (
+    token_id UUID PRIMARY KEY REFERENCES tokens(id) ON DELETE CASCADE,
+    mint_address VARCHAR(44) NOT NULL,
+    creator_address VARCHAR(44) NOT NULL,
+
+    risk_score DECIMAL(5,1) NOT NULL DEFAULT 0 CHECK (risk_score BETWEEN 0 AND 100),
+    risk_level VARCHAR(10) NOT NULL DEFAULT 'low'
+        CHECK (risk_level IN ('low', 'medium', 'high', 'critical')),
+    score_penalty DECIMAL(5,1) NOT NULL DEFAULT 0 CHECK (score_penalty BETWEEN 0 AND 333),
+    flags TEXT[] NOT NULL DEFAULT '{}',
+
+    -- What the creator itself did with the token
+    creator_bought_tokens DECIMAL(30,6) NOT NULL DEFAULT 0,
+    creator_sold_tokens DECIMAL(30,6) NOT NULL DEFAULT 0,
+    creator_sold_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+    creator_sell_sol DECIMAL(20,9) NOT NULL DEFAULT 0,
+    creator_sell_count INT NOT NULL DEFAULT 0,
+    first_creator_sell_at TIMESTAMPTZ,
+
+    -- Wallets the creator sent SOL to, and what they did with the token
+    funded_wallets TEXT[] NOT NULL DEFAULT '{}',
+    funded_wallet_bought_tokens DECIMAL(30,6) NOT NULL DEFAULT 0,
+    funded_wallet_sold_tokens DECIMAL(30,6) NOT NULL DEFAULT 0,
+    funded_wallet_sell_sol DECIMAL(20,9) NOT NULL DEFAULT 0,
+
+    -- Tokens the creator moved to wallets with no earlier trades
+    fresh_wallet_transfers INT NOT NULL DEFAULT 0,
+    transferred_tokens DECIMAL(30,6) NOT NULL DEFAULT 0,
+    transferred_supply_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+
+    -- Other tokens launched by the same creator within the lookback
+    serial_launches INT NOT NULL DEFAULT 0,
+
+    details JSONB,
+    transfers_checked_at TIMESTAMPTZ,
+    checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_risk_creator ON creator_risk(creator_address);
+CREATE INDEX IF NOT EXISTS idx_creator_risk_level ON creator_risk(risk_level, checked_at DESC) WHERE risk_level <> 'low';
+
+-- The penalty is subtracted from the 999-point total, which never goes below 0
+ALTER TABLE aggregate_scores
+    ADD COLUMN IF NOT EXISTS creator_risk_penalty DECIMAL(5,1) NOT NULL DEFAULT 0
+        CHECK (creator_risk_penalty BETWEEN 0 AND 333),
+    ADD COLUMN IF NOT EXISTS creator_risk_level VARCHAR(10);
+
+DROP VIEW IF EXISTS latest_aggregate_scores;
+
+ALTER TABLE aggregate_scores DROP COLUMN IF EXISTS total_score;
+ALTER TABLE aggregate_scores DROP COLUMN IF EXISTS total_percentage;
+
+ALTER TABLE aggregate_scores
+    ADD COLUMN total_score DECIMAL(6,1) GENERATED ALWAYS AS (
+        GREATEST(0, technical_score + holder_score + LEAST(333, social_score + smart_money_score) - creator_risk_penalty)
+    ) STORED,
+    ADD COLUMN total_percentage DECIMAL(5,2) GENERATED ALWAYS AS (
+        GREATEST(0, technical_score + holder_score + LEAST(333, social_score + smart_money_score) - creator_risk_penalty) / 999 * 100
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_aggregate_scores_total ON aggregate_scores(total_score DESC) WHERE NOT is_stale;
+CREATE INDEX IF NOT EXISTS idx_aggregate_scores_percentage ON aggregate_scores(total_percentage DESC) WHERE NOT is_stale;
+
+CREATE OR REPLACE VIEW latest_aggregate_scores AS
+SELECT DISTINCT ON (token_id)
+    token_id,
+    technical_score,
+    holder_score,
+    social_score,
+    smart_money_score,
+    creator_risk_penalty,
+    creator_risk_level,
+    total_score,
+    technical_percentage,
+    holder_percentage,
+    social_percentage,
+    total_percentage,
+    bonding_curve_progress,
+    market_cap_usd,
+    unique_holders,
+    gini_coefficient,
+    bot_ratio,
+    smart_wallets_count,
+    score_time,
+    last_technical_update,
+    last_holder_update,
+    last_social_update,
+    last_smart_money_update,
+    is_stale
+FROM aggregate_scores
+WHERE NOT is_stale
+ORDER BY token_id, score_time DESC;
+
+-- Same as 033 plus the creator risk penalty
+CREATE OR REPLACE FUNCTION update_aggregate_scores(
+    p_token_id UUID
+) RETURNS aggregate_scores AS $$
+DECLARE
+    v_technical_score DECIMAL(5,1);
+    v_holder_score DECIMAL(5,1);
+    v_social_score DECIMAL(5,1);
+    v_smart_money_score DECIMAL(5,1);
+    v_smart_wallets INT;
+    v_smart_money_time TIMESTAMPTZ;
+    v_creator_penalty DECIMAL(5,1);
+    v_creator_level VARCHAR(10);
+    v_bonding_progress DECIMAL(5,2);
+    v_market_cap DECIMAL(20,2);
+    v_unique_holders INT;
+    v_gini DECIMAL(5,4);
+    v_bot_ratio DECIMAL(5,4);
+    v_pool_id UUID;
+    v_result aggregate_scores;
+BEGIN
+    SELECT id, bonding_curve_progress, latest_price_usd * 1000000000
+    INTO v_pool_id, v_bonding_progress, v_market_cap
+    FROM pools
+    WHERE token_id = p_token_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    SELECT total_score INTO v_technical_score
+    FROM calculate_technical_score(p_token_id, v_pool_id);
+
+    IF v_technical_score IS NULL THEN
+        v_technical_score := 0;
+    END IF;
+
+    SELECT
+        total_score,
+        unique_holders,
+        gini_coefficient,
+        bot_ratio
+    INTO
+        v_holder_score,
+        v_unique_holders,
+        v_gini,
+        v_bot_ratio
+    FROM holder_scores_v2
+    WHERE token_id = p_token_id
+    ORDER BY score_time DESC
+    LIMIT 1;
+
+    IF v_holder_score IS NULL THEN
+        v_holder_score := 0;
+    END IF;
+
+    SELECT
+        LEAST(333, ROUND(COALESCE(s.signal_strength, 0) * 3.33, 1)),
+        s.smart_wallets_count,
+        s.signal_timestamp
+    INTO
+        v_smart_money_score,
+        v_smart_wallets,
+        v_smart_money_time
+    FROM token_smart_money_signals s
+    JOIN tokens t ON t.mint_address = s.token_mint
+    WHERE t.id = p_token_id
+    ORDER BY s.signal_timestamp DESC
+    LIMIT 1;
+
+    IF v_smart_money_score IS NULL THEN
+        v_smart_money_score := 0;
+    END IF;
+
+    SELECT score_penalty, risk_level
+    INTO v_creator_penalty, v_creator_level
+    FROM creator_risk
+    WHERE token_id = p_token_id;
+
+    -- Social score not implemented yet
+    v_social_score := 0;
+
+    INSERT INTO aggregate_scores (
+        token_id,
+        technical_score,
+        holder_score,
+        social_score,
+        smart_money_score,
+        creator_risk_penalty,
+        creator_risk_level,
+        bonding_curve_progress,
+        market_cap_usd,
+        unique_holders,
+        gini_coefficient,
+        bot_ratio,
+        smart_wallets_count,
+        last_technical_update,
+        last_holder_update,
+        last_social_update,
+        last_smart_money_update
+    ) VALUES (
+        p_token_id,
+        v_technical_score,
+        v_holder_score,
+        v_social_score,
+        v_smart_money_score,
+        COALESCE(v_creator_penalty, 0),
+        v_creator_level,
+        v_bonding_progress,
+        v_market_cap,
+        v_unique_holders,
+        v_gini,
+        v_bot_ratio,
+        v_smart_wallets,
+        CASE WHEN v_technical_score > 0 THEN NOW() ELSE NULL END,
+        CASE WHEN v_holder_score > 0 THEN NOW() ELSE NULL END,
+        NULL, -- Social not implemented
+        v_smart_money_time
+    )
+    RETURNING * INTO v_result;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refresh the aggregate when a token's penalty or level changes
+CREATE OR REPLACE FUNCTION trigger_update_aggregate_on_creator_risk() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.score_penalty IS NOT DISTINCT FROM OLD.score_penalty
+        AND NEW.risk_level IS NOT DISTINCT FROM OLD.risk_level THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM update_aggregate_scores(NEW.token_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_aggregate_on_creator_risk ON creator_risk;
+CREATE TRIGGER update_aggregate_on_creator_risk
+    AFTER INSERT OR UPDATE ON creator_risk
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_update_aggregate_on_creator_risk();
+
+GRANT SELECT ON latest_aggregate_scores TO PUBLIC;
+
+COMMENT ON TABLE creator_risk IS 'Rug-pull and dev-dump risk per token, from what its creator and the wallets it funded do after launch';
+COMMENT ON COLUMN creator_risk.flags IS 'creator_sell, creator_dump, funded_wallet_buy, funded_wallet_sell, supply_to_fresh_wallet, fresh_wallet_sell, serial_launcher';
+COMMENT ON COLUMN aggregate_scores.creator_risk_penalty IS 'Points (0-333) subtracted from the total for creator risk, from creator_risk.score_penalty';
+COMMENT ON COLUMN aggregate_scores.total_score IS 'Total score (0-999): technical + holder + LEAST(333, social + smart money) - creator risk penalty, floored at 0';
+COMMENT ON VIEW latest_aggregate_scores IS 'Convenient view showing latest aggregate scores for all tokens';
@@ -0,0 +1,193 @@
+-- Migration: 038_create_creator_profiles
+-- Description: Creator reputation from launch history: one row per launch and a per-creator profile kept current by triggers
+-- Dependencies: 001_create_tokens_table, 025_create_graduated_tokens_table, 037_create_creator_risk
+
+-- One row per launched token. Graduation is copied in by triggers; peak
+-- market cap and rug time are filled in by the creator profile service
+-- while the launch is being followed.
+CREATE TABLE IF NOT EXISTS creator_launches (
+    token_id UUID PRIMARY KEY REFERENCES tokens(id) ON DELETE CASCADE,
+    creator_address VARCHAR(44) NOT NULL,
+    mint_address VARCHAR(44) NOT NULL,
+    platform VARCHAR(20) NOT NULL,
+    launched_at TIMESTAMPTZ NOT NULL,
+
+    graduated_at TIMESTAMPTZ,
+
+    peak_price_sol DECIMAL(30,10),
+    peak_market_cap_usd DECIMAL(20,2),
+    peak_at TIMESTAMPTZ,
+    rugged_at TIMESTAMPTZ,
+    rug_reason VARCHAR(20) CHECK (rug_reason IN ('price_collapse', 'creator_dump')),
+    trade_count INT NOT NULL DEFAULT 0,
+
+    -- No longer followed: graduated, rugged or older than the tracking window
+    is_settled BOOLEAN NOT NULL DEFAULT FALSE,
+    checked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_launches_creator ON creator_launches(creator_address, launched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_creator_launches_unsettled ON creator_launches(checked_at NULLS FIRST) WHERE NOT is_settled;
+
+CREATE TABLE IF NOT EXISTS creator_profiles (
+    creator_address VARCHAR(44) PRIMARY KEY,
+    launch_count INT NOT NULL DEFAULT 0,
+    graduated_count INT NOT NULL DEFAULT 0,
+    graduation_rate DECIMAL(5,4) NOT NULL DEFAULT 0,
+    rugged_count INT NOT NULL DEFAULT 0,
+    rug_rate DECIMAL(5,4) NOT NULL DEFAULT 0,
+    avg_peak_market_cap_usd DECIMAL(20,2),
+    max_peak_market_cap_usd DECIMAL(20,2),
+    avg_time_to_rug_minutes DECIMAL(12,2),
+    avg_time_to_graduation_minutes DECIMAL(12,2),
+    first_launch_at TIMESTAMPTZ,
+    last_launch_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_profiles_launches ON creator_profiles(launch_count DESC);
+CREATE INDEX IF NOT EXISTS idx_creator_profiles_last_launch ON creator_profiles(last_launch_at DESC);
+
+-- Recompute one creator's profile from its launches
+CREATE OR REPLACE FUNCTION refresh_creator_profile(p_creator VARCHAR) RETURNS VOID AS $$
+BEGIN
+    INSERT INTO creator_profiles (
+        creator_address,
+        launch_count,
+        graduated_count,
+        graduation_rate,
+        rugged_count,
+        rug_rate,
+        avg_peak_market_cap_usd,
+        max_peak_market_cap_usd,
+        avg_time_to_rug_minutes,
+        avg_time_to_graduation_minutes,
+        first_launch_at,
+        last_launch_at,
+        updated_at
+    )
+    SELECT
+        p_creator,
+        COUNT(*),
+        COUNT(graduated_at),
+        COUNT(graduated_at)::DECIMAL / COUNT(*),
+        COUNT(rugged_at),
+        COUNT(rugged_at)::DECIMAL / COUNT(*),
+        AVG(peak_market_cap_usd),
+        MAX(peak_market_cap_usd),
+        AVG(EXTRACT(EPOCH FROM (rugged_at - launched_at)) / 60),
+        AVG(EXTRACT(EPOCH FROM (graduated_at - launched_at)) / 60),
+        MIN(launched_at),
+        MAX(launched_at),
+        NOW()
+    FROM creator_launches
+    WHERE creator_address = p_creator
+    HAVING COUNT(*) > 0
+    ON CONFLICT (creator_address) DO UPDATE SET
+        launch_count = EXCLUDED.launch_count,
+        graduated_count = EXCLUDED.graduated_count,
+        graduation_rate = EXCLUDED.graduation_rate,
+        rugged_count = EXCLUDED.rugged_count,
+        rug_rate = EXCLUDED.rug_rate,
+        avg_peak_market_cap_usd = EXCLUDED.avg_peak_market_cap_usd,
+        max_peak_market_cap_usd = EXCLUDED.max_peak_market_cap_usd,
+        avg_time_to_rug_minutes = EXCLUDED.avg_time_to_rug_minutes,
+        avg_time_to_graduation_minutes = EXCLUDED.avg_time_to_graduation_minutes,
+        first_launch_at = EXCLUDED.first_launch_at,
+        last_launch_at = EXCLUDED.last_launch_at,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill launches for tokens already recorded, before the triggers so
+-- each creator's profile is built once
+INSERT INTO creator_launches (token_id, creator_address, mint_address, platform, launched_at, graduated_at)
+SELECT
+    t.id,
+    t.creator_address,
+    t.mint_address,
+    t.platform,
+    t.creation_timestamp,
+    COALESCE(g.graduation_timestamp, t.graduation_timestamp, CASE WHEN t.is_graduated THEN t.updated_at END)
+FROM tokens t
+LEFT JOIN graduated_tokens g ON g.token_mint = t.mint_address
+ON CONFLICT (token_id) DO NOTHING;
+
+SELECT refresh_creator_profile(creator_address)
+FROM (SELECT DISTINCT creator_address FROM creator_launches) creators;
+
+-- Keep the profile in step when a launch is added or its outcome changes
+CREATE OR REPLACE FUNCTION trigger_refresh_creator_profile() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND (NEW.graduated_at, NEW.rugged_at, NEW.peak_market_cap_usd)
+            IS NOT DISTINCT FROM (OLD.graduated_at, OLD.rugged_at, OLD.peak_market_cap_usd) THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM refresh_creator_profile(NEW.creator_address);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_creator_profile_on_launch ON creator_launches;
+CREATE TRIGGER refresh_creator_profile_on_launch
+    AFTER INSERT OR UPDATE ON creator_launches
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_refresh_creator_profile();
+
+-- New tokens from the mint monitors become launches as they are inserted
+CREATE OR REPLACE FUNCTION trigger_record_creator_launch() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO creator_launches (token_id, creator_address, mint_address, platform, launched_at, graduated_at)
+        VALUES (
+            NEW.id,
+            NEW.creator_address,
+            NEW.mint_address,
+            NEW.platform,
+            NEW.creation_timestamp,
+            CASE WHEN NEW.is_graduated THEN COALESCE(NEW.graduation_timestamp, NOW()) END
+        )
+        ON CONFLICT (token_id) DO NOTHING;
+    ELSIF NEW.is_graduated AND NOT COALESCE(OLD.is_graduated, FALSE) THEN
+        UPDATE creator_launches
+        SET graduated_at = COALESCE(NEW.graduation_timestamp, NOW()),
+            rugged_at = NULL,
+            rug_reason = NULL,
+            is_settled = TRUE
+        WHERE token_id = NEW.id AND graduated_at IS NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_creator_launch ON tokens;
+CREATE TRIGGER record_creator_launch
+    AFTER INSERT OR UPDATE OF is_graduated ON tokens
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_record_creator_launch();
+
+-- The graduation monitor writes graduated_tokens without always flagging the token
+CREATE OR REPLACE FUNCTION trigger_record_creator_graduation() RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE creator_launches
+    SET graduated_at = COALESCE(NEW.graduation_timestamp, NOW()),
+        rugged_at = NULL,
+        rug_reason = NULL,
+        is_settled = TRUE
+    WHERE mint_address = NEW.token_mint AND graduated_at IS NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_creator_graduation ON graduated_tokens;
+CREATE TRIGGER record_creator_graduation
+    AFTER INSERT ON graduated_tokens
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_record_creator_graduation();
+
+COMMENT ON TABLE creator_launches IS 'Every token launch with its outcome: graduation, peak market cap and rug time';
+COMMENT ON COLUMN creator_launches.rugged_at IS 'First time the price fell the configured share below its running peak, or the creator dumped (creator_risk), unless the token graduated';
+COMMENT ON TABLE creator_profiles IS 'Per-creator launch count, graduation rate, average peak market cap and time-to-rug, derived from creator_launches';
@@ -0,0 +1,53 @@
+-- Migration: 039_create_token_launch_analysis
+-- Description: Sniper and bundle detection at token launch, stored per token and carried into holder risk
+-- Dependencies: 003_create_transactions_hypertable, 018_holder_analysis_v2_fixed
+
+-- One row per token, rewritten while the launch analyzer follows it
+CREATE TABLE IF NOT EXISTS token_launch_analysis (
+    token_id UUID PRIMARY KEY REFERENCES tokens(id) ON DELETE CASCADE,
+    mint_address VARCHAR(44) NOT NULL,
+
+    launch_slot BIGINT,
+    launch_time TIMESTAMPTZ,
+    early_buy_count INT NOT NULL DEFAULT 0,
+
+    -- Buys landing in the launch slot or the next few slots
+    same_slot_buyers INT NOT NULL DEFAULT 0,
+    sniper_wallets TEXT[] NOT NULL DEFAULT '{}',
+    sniper_bought_tokens DECIMAL(30,6) NOT NULL DEFAULT 0,
+    sniper_supply_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+    sniper_held_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+
+    -- Same-slot buys by wallets sharing a funder (or funded by the creator)
+    bundle_count INT NOT NULL DEFAULT 0,
+    bundled_wallets TEXT[] NOT NULL DEFAULT '{}',
+    bundled_bought_tokens DECIMAL(30,6) NOT NULL DEFAULT 0,
+    bundled_supply_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+    bundled_held_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+    creator_in_bundle BOOLEAN NOT NULL DEFAULT FALSE,
+
+    -- Snipers and bundles together, each wallet counted once
+    captured_supply_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+    held_supply_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+    risk_score DECIMAL(5,1) NOT NULL DEFAULT 0 CHECK (risk_score BETWEEN 0 AND 100),
+
+    details JSONB,
+    analyzed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_launch_analysis_mint ON token_launch_analysis(mint_address);
+CREATE INDEX IF NOT EXISTS idx_token_launch_analysis_risk ON token_launch_analysis(risk_score DESC);
+CREATE INDEX IF NOT EXISTS idx_token_launch_analysis_analyzed ON token_launch_analysis(analyzed_at);
+
+-- The launch risk the holder analysis used for each snapshot and score
+ALTER TABLE holder_snapshots_v2
+    ADD COLUMN IF NOT EXISTS launch_snipe_risk DECIMAL(5,2) CHECK (launch_snipe_risk BETWEEN 0 AND 100);
+
+ALTER TABLE holder_scores_v2
+    ADD COLUMN IF NOT EXISTS launch_snipe_risk DECIMAL(5,2);
+
+COMMENT ON TABLE token_launch_analysis IS 'Sniper and bundle buys at launch, from transactions, with the share of supply they captured and still hold';
+COMMENT ON COLUMN token_launch_analysis.captured_supply_percent IS 'Share of supply bought in the early window by sniper and bundled wallets';
+COMMENT ON COLUMN token_launch_analysis.held_supply_percent IS 'Share of supply those wallets still hold (bought minus sold, all time)';
+COMMENT ON COLUMN holder_snapshots_v2.launch_snipe_risk IS 'token_launch_analysis.risk_score at the time of the snapshot, NULL when the launch was not analyzed';
@@ -0,0 +1,80 @@
+-- Migration: 040_create_holder_ledger
+-- Description: Per-mint holder balances rebuilt from our own trades and captured token transfers, with Helius reconciliation
+-- Dependencies: 003_create_transactions_hypertable, 034_create_wallet_token_transfers
+
+-- Token balance changes that are not trades: transfers seen in monitored
+-- transactions, and tracked-wallet transfers from the wallet tracker.
+-- One row per owner per transaction, so the two sources cannot double count.
+CREATE TABLE IF NOT EXISTS holder_ledger_transfers (
+    id BIGSERIAL PRIMARY KEY,
+    signature VARCHAR(88) NOT NULL,
+    mint_address VARCHAR(44) NOT NULL,
+    owner VARCHAR(44) NOT NULL,
+    delta DECIMAL(30,6) NOT NULL CHECK (delta <> 0),
+    slot BIGINT,
+    block_time TIMESTAMPTZ NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('monitor', 'wallet_tracker')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (signature, mint_address, owner)
+);
+
+CREATE INDEX IF NOT EXISTS idx_holder_ledger_transfers_mint ON holder_ledger_transfers(mint_address, created_at);
+
+-- Current balance per owner, rewritten whenever the mint is rebuilt
+CREATE TABLE IF NOT EXISTS holder_balances (
+    mint_address VARCHAR(44) NOT NULL,
+    owner VARCHAR(44) NOT NULL,
+    token_id UUID NOT NULL REFERENCES tokens(id) ON DELETE CASCADE,
+    balance DECIMAL(30,6) NOT NULL,
+    bought DECIMAL(30,6) NOT NULL DEFAULT 0,
+    sold DECIMAL(30,6) NOT NULL DEFAULT 0,
+    transferred_in DECIMAL(30,6) NOT NULL DEFAULT 0,
+    transferred_out DECIMAL(30,6) NOT NULL DEFAULT 0,
+    trade_count INT NOT NULL DEFAULT 0,
+    first_activity TIMESTAMPTZ,
+    last_activity TIMESTAMPTZ,
+    PRIMARY KEY (mint_address, owner)
+);
+
+CREATE INDEX IF NOT EXISTS idx_holder_balances_mint_balance ON holder_balances(mint_address, balance DESC);
+CREATE INDEX IF NOT EXISTS idx_holder_balances_owner ON holder_balances(owner);
+
+-- One row per mint: when it was rebuilt and whether Helius agreed with it
+CREATE TABLE IF NOT EXISTS holder_ledger_state (
+    mint_address VARCHAR(44) PRIMARY KEY,
+    token_id UUID NOT NULL REFERENCES tokens(id) ON DELETE CASCADE,
+    holder_count INT NOT NULL DEFAULT 0,
+    negative_balances INT NOT NULL DEFAULT 0,
+    total_held DECIMAL(30,6) NOT NULL DEFAULT 0,
+    trade_count INT NOT NULL DEFAULT 0,
+    transfer_count INT NOT NULL DEFAULT 0,
+    rebuilt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    trusted BOOLEAN NOT NULL DEFAULT FALSE,
+    last_reconciled_at TIMESTAMPTZ,
+    last_balance_drift DECIMAL(7,4),
+    last_count_drift DECIMAL(7,4)
+);
+
+CREATE INDEX IF NOT EXISTS idx_holder_ledger_state_rebuilt ON holder_ledger_state(rebuilt_at);
+
+-- Every comparison of the ledger against Helius getTokenAccounts
+CREATE TABLE IF NOT EXISTS holder_ledger_reconciliations (
+    id BIGSERIAL PRIMARY KEY,
+    mint_address VARCHAR(44) NOT NULL,
+    token_id UUID REFERENCES tokens(id) ON DELETE CASCADE,
+    ledger_holders INT NOT NULL,
+    helius_holders INT NOT NULL,
+    matched_holders INT NOT NULL,
+    count_drift DECIMAL(7,4) NOT NULL,
+    balance_drift DECIMAL(7,4) NOT NULL,
+    top10_overlap INT NOT NULL,
+    passed BOOLEAN NOT NULL,
+    details JSONB,
+    reconciled_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_holder_ledger_reconciliations_mint ON holder_ledger_reconciliations(mint_address, reconciled_at DESC);
+
+COMMENT ON TABLE holder_balances IS 'Holder balances from transactions and holder_ledger_transfers: bought - sold + transferred_in - transferred_out';
+COMMENT ON COLUMN holder_ledger_state.trusted IS 'The last Helius reconciliation passed and no balance went negative; holder analysis reads the ledger instead of Helius';
+COMMENT ON COLUMN holder_ledger_reconciliations.balance_drift IS 'Share of the held supply assigned to different owners by the ledger and by Helius (0-1)';
@@ -0,0 +1,50 @@
+-- Migration: 041_create_holder_trends
+-- Description: Holder flow between snapshots and a 15 minute continuous aggregate of holder distribution for trend scoring
+-- Dependencies: 018_holder_analysis_v2_fixed, 040_create_holder_ledger
+-- IMPORTANT: This migration must be run separately as continuous aggregates cannot be created in transactions.
+-- holder_snapshots_v2 must be a hypertable (018 skips the conversion when TimescaleDB is missing).
+
+-- Holders that arrived and left since the token's previous snapshot, filled
+-- in from holder_balances by the holder trends runner. NULL until then.
+ALTER TABLE holder_snapshots_v2
+    ADD COLUMN IF NOT EXISTS holders_entered INT,
+    ADD COLUMN IF NOT EXISTS holders_exited INT;
+
+-- Points the distribution trend added to (or took from) total_score
+ALTER TABLE holder_scores_v2
+    ADD COLUMN IF NOT EXISTS trend_score DECIMAL(4,1);
+
+-- First and last value of each distribution metric per 15 minutes, so
+-- drift between any two buckets is last - first
+CREATE MATERIALIZED VIEW IF NOT EXISTS holder_trends_15m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    token_id,
+    time_bucket('15 minutes', snapshot_time) AS bucket,
+    count(*) AS snapshot_count,
+    min(snapshot_time) AS first_snapshot_at,
+    max(snapshot_time) AS last_snapshot_at,
+    first(unique_holders, snapshot_time) AS first_holders,
+    last(unique_holders, snapshot_time) AS last_holders,
+    first(gini_coefficient, snapshot_time) AS first_gini,
+    last(gini_coefficient, snapshot_time) AS last_gini,
+    first(herfindahl_index, snapshot_time) AS first_hhi,
+    last(herfindahl_index, snapshot_time) AS last_hhi,
+    first(top_10_percent, snapshot_time) AS first_top_10,
+    last(top_10_percent, snapshot_time) AS last_top_10,
+    sum(holders_entered) AS holders_entered,
+    sum(holders_exited) AS holders_exited,
+    count(holders_entered) AS flow_snapshots
+FROM holder_snapshots_v2
+GROUP BY token_id, time_bucket('15 minutes', snapshot_time);
+
+-- Flows are filled in after the snapshot is written, so keep refreshing
+-- buckets for a day
+SELECT add_continuous_aggregate_policy('holder_trends_15m',
+    start_offset => INTERVAL '1 day',
+    end_offset => INTERVAL '15 minutes',
+    schedule_interval => INTERVAL '5 minutes',
+    if_not_exists => true);
+
+COMMENT ON COLUMN holder_snapshots_v2.holders_entered IS 'Owners whose first ledger activity falls after the previous snapshot of the token and at or before this one';
+COMMENT ON COLUMN holder_snapshots_v2.holders_exited IS 'Owners whose balance is now zero and whose last ledger activity falls between the previous snapshot and this one';
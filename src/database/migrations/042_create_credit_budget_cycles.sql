@@ -0,0 +1,28 @@
+-- Migration: 042_create_credit_budget_cycles
+-- Description: Planning cycles of the credit budget planner that schedules holder analysis
+-- Dependencies: 018_holder_analysis_v2_fixed
+
+-- One row per planning cycle: the allowance the planner worked with, what it
+-- scheduled and, once the analyses finished, what they actually cost
+CREATE TABLE IF NOT EXISTS credit_budget_cycles (
+    id BIGSERIAL PRIMARY KEY,
+    planned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    spendable BIGINT NOT NULL,
+    used_this_month BIGINT NOT NULL,
+    used_today BIGINT NOT NULL,
+    hourly_allowance DECIMAL(14,2) NOT NULL,
+    today_allowance DECIMAL(14,2) NOT NULL,
+    bank DECIMAL(14,2) NOT NULL,
+    candidates INT NOT NULL,
+    selected INT NOT NULL,
+    planned_credits INT NOT NULL,
+    spent_credits INT,
+    selected_mints TEXT[] NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_budget_cycles_planned ON credit_budget_cycles(planned_at DESC);
+
+COMMENT ON TABLE credit_budget_cycles IS 'Holder analysis scheduled by the credit budget planner per cycle, against the allowance of that cycle';
+COMMENT ON COLUMN credit_budget_cycles.spendable IS 'Credits left this month under the target usage when the cycle was planned';
+COMMENT ON COLUMN credit_budget_cycles.bank IS 'Allowance accrued and not yet spent, before this cycle was scheduled';
+COMMENT ON COLUMN credit_budget_cycles.spent_credits IS 'Credits the scheduled analyses reported, NULL until they finish';
@@ -0,0 +1,16 @@
+-- Migration: 043_drop_slotless_launch_analysis
+-- Description: Remove launch analyses built from pump.fun trades stored without their slot
+-- Dependencies: 039_create_token_launch_analysis
+
+-- The pump.fun monitor wrote slot 0 for every trade, so these analyses took
+-- every early buyer for a same-slot sniper. The analyzer now skips such
+-- launches; without this their stale rows would keep feeding holder risk.
+DELETE FROM token_launch_analysis la
+WHERE EXISTS (
+    SELECT 1
+    FROM transactions tx
+    JOIN tokens t ON t.id = tx.token_id
+    WHERE tx.token_id = la.token_id
+      AND tx.slot = 0
+      AND tx.block_time BETWEEN t.creation_timestamp - INTERVAL '1 minute' AND t.creation_timestamp + INTERVAL '10 minutes'
+);
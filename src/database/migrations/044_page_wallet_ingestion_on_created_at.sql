@@ -0,0 +1,13 @@
+-- Migration: 044_page_wallet_ingestion_on_created_at
+-- Description: Index transactions by write time for the wallet tracker's trade cursor
+-- Dependencies: 003_create_transactions_hypertable, 035_create_wallet_tracker_checkpoints
+
+-- The trade cursor now follows created_at, so trades written late (gap
+-- backfills, slow batches) are not skipped past. A cursor saved as a
+-- block_time stays valid: every trade that landed after it was also
+-- written after it, and trades written since that landed earlier are
+-- exactly the ones the old cursor missed.
+CREATE INDEX IF NOT EXISTS idx_transactions_created_at
+  ON transactions(created_at, signature);
+
+COMMENT ON COLUMN wallet_tracker_checkpoints.trade_cursor_at IS 'created_at of the last transactions row ingested for tracked wallets';
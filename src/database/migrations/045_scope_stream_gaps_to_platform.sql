@@ -0,0 +1,50 @@
+-- Migration: 045_scope_stream_gaps_to_platform
+-- Description: Attribute stream gaps to a platform and only flag tokens whose trading a gap could have cut into
+-- Dependencies: 026_create_stream_gaps_table, 027_add_meteora_dbc_platform
+
+-- Platform whose transactions the monitor streams, matching tokens.platform and pools.platform
+ALTER TABLE stream_gaps ADD COLUMN IF NOT EXISTS platform VARCHAR(20)
+    CHECK (platform IN ('pumpfun', 'raydium_launchpad', 'pumpswap', 'meteora_dbc'));
+
+UPDATE stream_gaps
+SET platform = CASE
+    WHEN monitor_id LIKE 'pumpfun-%' THEN 'pumpfun'
+    WHEN monitor_id LIKE 'pumpswap-%' THEN 'pumpswap'
+    WHEN monitor_id LIKE 'raydium-launchpad-%' THEN 'raydium_launchpad'
+    WHEN monitor_id LIKE 'meteora-dbc-%' THEN 'meteora_dbc'
+END
+WHERE platform IS NULL;
+
+-- Account subscriptions cannot be backfilled, so every reconnect was stored
+-- as unrecovered. The next update of each account restores its state, so
+-- they never lost history; the monitors no longer record them.
+DELETE FROM stream_gaps
+WHERE monitor_id IN ('pumpfun-account', 'pumpswap-account', 'meteora-dbc-account');
+
+CREATE INDEX IF NOT EXISTS idx_stream_gaps_platform_unresolved ON stream_gaps(platform, gap_end)
+    WHERE status IN ('open', 'recovering', 'unrecovered');
+
+COMMENT ON COLUMN stream_gaps.platform IS 'Platform of the transactions the monitor streams: pumpfun, raydium_launchpad, pumpswap, meteora_dbc';
+
+-- A token's history is incomplete if a gap that was not recovered, on a
+-- stream of its launchpad or of a pool it trades in, overlaps the time from
+-- its creation to its last recorded trade
+CREATE OR REPLACE FUNCTION token_has_stream_gap(p_token_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM tokens t
+        CROSS JOIN LATERAL (
+            SELECT GREATEST(t.creation_timestamp, MAX(tx.block_time)) AS last_trade_at
+            FROM transactions tx
+            WHERE tx.token_id = t.id
+        ) w
+        JOIN stream_gaps g
+          ON g.status IN ('open', 'recovering', 'unrecovered')
+         AND g.gap_end >= t.creation_timestamp
+         AND g.gap_start <= w.last_trade_at
+        WHERE t.id = p_token_id
+          AND (g.platform = t.platform
+               OR g.platform IN (SELECT p.platform FROM pools p WHERE p.token_id = t.id))
+    );
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,64 @@
+-- Migration: 046_skip_unattributed_creator_launches
+-- Description: Leave tokens first seen at PumpSwap pool creation out of creator launches and profiles
+-- Dependencies: 038_create_creator_profiles
+
+-- Tokens the PumpSwap pool monitor sees before any launch are saved with
+-- the placeholder creator 'Unknown' or with the pool creator. Neither is the
+-- wallet that launched the token, so as launches they pile unrelated tokens
+-- into one profile or credit a graduation to whoever created the pool.
+CREATE OR REPLACE FUNCTION trigger_record_creator_launch() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.creator_address = 'Unknown'
+            OR COALESCE(NEW.metadata->>'detected_via', '') = 'pumpswap_pool_creation' THEN
+            RETURN NEW;
+        END IF;
+
+        INSERT INTO creator_launches (token_id, creator_address, mint_address, platform, launched_at, graduated_at)
+        VALUES (
+            NEW.id,
+            NEW.creator_address,
+            NEW.mint_address,
+            NEW.platform,
+            NEW.creation_timestamp,
+            CASE WHEN NEW.is_graduated THEN COALESCE(NEW.graduation_timestamp, NOW()) END
+        )
+        ON CONFLICT (token_id) DO NOTHING;
+    ELSIF NEW.is_graduated AND NOT COALESCE(OLD.is_graduated, FALSE) THEN
+        UPDATE creator_launches
+        SET graduated_at = COALESCE(NEW.graduation_timestamp, NOW()),
+            rugged_at = NULL,
+            rug_reason = NULL,
+            is_settled = TRUE
+        WHERE token_id = NEW.id AND graduated_at IS NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Drop the launches the 038 backfill and the old trigger recorded for them,
+-- then rebuild the profiles they fed; a creator left with no launches has
+-- no profile
+DO $$
+DECLARE
+    v_creators VARCHAR[];
+    v_creator VARCHAR;
+BEGIN
+    WITH removed AS (
+        DELETE FROM creator_launches cl
+        USING tokens t
+        WHERE t.id = cl.token_id
+          AND (t.creator_address = 'Unknown'
+               OR COALESCE(t.metadata->>'detected_via', '') = 'pumpswap_pool_creation')
+        RETURNING cl.creator_address
+    )
+    SELECT array_agg(DISTINCT creator_address) INTO v_creators FROM removed;
+
+    FOREACH v_creator IN ARRAY COALESCE(v_creators, ARRAY[]::VARCHAR[]) LOOP
+        IF EXISTS (SELECT 1 FROM creator_launches WHERE creator_address = v_creator) THEN
+            PERFORM refresh_creator_profile(v_creator);
+        ELSE
+            DELETE FROM creator_profiles WHERE creator_address = v_creator;
+        END IF;
+    END LOOP;
+END $$;
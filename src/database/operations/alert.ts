@@ -0,0 +1,84 @@
+import { BaseOperations } from '../base-operations';
+import { AlertDelivery, AlertSeverity, FiredAlert } from '../types';
+
+export type { AlertDelivery, AlertSeverity, FiredAlert };
+
+export class AlertOperations extends BaseOperations {
+  constructor() {
+    super();
+  }
+
+  /**
+   * Persist a fired alert before delivery and return its ID
+   */
+  async recordAlert(alert: FiredAlert): Promise<number> {
+    const result = await this.queryOne<{ id: string }>(
+      `INSERT INTO alerts (
+        rule_id, rule_name, event_type, severity, dedupe_key, token_id, mint_address,
+        symbol, title, message, fields, fired_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING id`,
+      [
+        alert.rule_id,
+        alert.rule_name,
+        alert.event_type,
+        alert.severity,
+        alert.dedupe_key,
+        alert.token_id,
+        alert.mint_address,
+        alert.symbol,
+        alert.title,
+        alert.message,
+        JSON.stringify(alert.fields),
+        alert.fired_at
+      ]
+    );
+    return parseInt(result!.id);
+  }
+
+  async recordDeliveries(id: number, deliveries: AlertDelivery[]): Promise<void> {
+    await this.execute('UPDATE alerts SET deliveries = $2 WHERE id = $1', [id, JSON.stringify(deliveries)]);
+  }
+
+  /**
+   * Count a repeat that was swallowed by the cooldown of an earlier alert
+   */
+  async recordSuppressed(id: number): Promise<void> {
+    await this.execute(
+      'UPDATE alerts SET suppressed_count = suppressed_count + 1, last_suppressed_at = NOW() WHERE id = $1',
+      [id]
+    );
+  }
+
+  /**
+   * The most recent alert for a dedupe key, used to restore cooldowns after a restart
+   */
+  async getLastFired(dedupeKey: string): Promise<{ id: number; fired_at: Date } | null> {
+    const row = await this.queryOne<{ id: string; fired_at: Date }>(
+      'SELECT id, fired_at FROM alerts WHERE dedupe_key = $1 ORDER BY fired_at DESC LIMIT 1',
+      [dedupeKey]
+    );
+    return row ? { id: parseInt(row.id), fired_at: row.fired_at } : null;
+  }
+
+  async getAlerts(filters: {
+    ruleId?: string;
+    mintAddress?: string;
+    severity?: AlertSeverity;
+    limit?: number;
+  } = {}): Promise<FiredAlert[]> {
+    const rows = await this.queryMany<any>(
+      `SELECT * FROM alerts
+      WHERE ($1::text IS NULL OR rule_id = $1)
+        AND ($2::text IS NULL OR mint_address = $2)
+        AND ($3::text IS NULL OR severity = $3)
+      ORDER BY fired_at DESC
+      LIMIT $4`,
+      [filters.ruleId ?? null, filters.mintAddress ?? null, filters.severity ?? null, filters.limit ?? 100]
+    );
+    return rows.map(row => ({ ...row, id: parseInt(row.id) }));
+  }
+}
+
+// Export singleton instance
+export const alertOperations = new AlertOperations();
@@ -0,0 +1,148 @@
+import { BaseOperations } from '../base-operations';
+import { BacktestRun, BacktestTokenResult } from '../types';
+
+export type { BacktestRun, BacktestTokenResult };
+
+const NUMERIC_RUN_FIELDS = ['hit_rate', 'recall', 'base_rate', 'win_rate', 'realized_pnl_sol'] as const;
+
+function toRun(row: any): BacktestRun {
+  const run = { ...row };
+  for (const field of NUMERIC_RUN_FIELDS) {
+    run[field] = row[field] === null ? null : parseFloat(row[field]);
+  }
+  return run as BacktestRun;
+}
+
+export class BacktestOperations extends BaseOperations {
+  constructor() {
+    super();
+  }
+
+  /**
+   * Register a new run and return its ID
+   */
+  async createRun(run: BacktestRun): Promise<number> {
+    const result = await this.queryOne<{ id: number }>(
+      `INSERT INTO backtest_runs (name, status, range_start, range_end, step_minutes, config, scoring_config)
+      VALUES ($1, 'running', $2, $3, $4, $5, $6)
+      RETURNING id`,
+      [
+        run.name,
+        run.range_start,
+        run.range_end,
+        run.step_minutes,
+        JSON.stringify(run.config),
+        JSON.stringify(run.scoring_config)
+      ]
+    );
+    return result!.id;
+  }
+
+  /**
+   * Store per-token results and the run summary in one transaction
+   */
+  async completeRun(id: number, summary: Partial<BacktestRun>, results: BacktestTokenResult[]): Promise<void> {
+    await this.executeInTransaction(async (client) => {
+      for (const result of results) {
+        await client.query(
+          `INSERT INTO backtest_results (
+            run_id, token_id, mint_address, signaled, signal_at, technical_score, holder_score,
+            aggregate_score, progress_at_signal, max_technical_score, graduated, graduated_at,
+            minutes_to_graduation, realized_pnl_sol, exit_reason
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+          ON CONFLICT (run_id, token_id) DO NOTHING`,
+          [
+            id,
+            result.token_id,
+            result.mint_address,
+            result.signaled,
+            result.signal_at,
+            result.technical_score,
+            result.holder_score,
+            result.aggregate_score,
+            result.progress_at_signal,
+            result.max_technical_score,
+            result.graduated,
+            result.graduated_at,
+            result.minutes_to_graduation,
+            result.realized_pnl_sol,
+            result.exit_reason
+          ]
+        );
+      }
+
+      await client.query(
+        `UPDATE backtest_runs
+        SET
+          status = 'completed',
+          tokens_evaluated = $2,
+          tokens_signaled = $3,
+          tokens_graduated = $4,
+          hits = $5,
+          hit_rate = $6,
+          recall = $7,
+          base_rate = $8,
+          trades = $9,
+          win_rate = $10,
+          realized_pnl_sol = $11,
+          completed_at = NOW()
+        WHERE id = $1`,
+        [
+          id,
+          summary.tokens_evaluated ?? 0,
+          summary.tokens_signaled ?? 0,
+          summary.tokens_graduated ?? 0,
+          summary.hits ?? 0,
+          summary.hit_rate ?? null,
+          summary.recall ?? null,
+          summary.base_rate ?? null,
+          summary.trades ?? 0,
+          summary.win_rate ?? null,
+          summary.realized_pnl_sol ?? 0
+        ]
+      );
+    });
+  }
+
+  async failRun(id: number, error: string): Promise<void> {
+    await this.execute(
+      `UPDATE backtest_runs SET status = 'failed', error = $2, completed_at = NOW() WHERE id = $1`,
+      [id, error]
+    );
+  }
+
+  async getRun(id: number): Promise<BacktestRun | null> {
+    const row = await this.queryOne<any>('SELECT * FROM backtest_runs WHERE id = $1', [id]);
+    return row ? toRun(row) : null;
+  }
+
+  async getRuns(ids?: number[], limit: number = 20): Promise<BacktestRun[]> {
+    const rows = ids && ids.length > 0
+      ? await this.queryMany<any>('SELECT * FROM backtest_runs WHERE id = ANY($1::int[]) ORDER BY id', [ids])
+      : await this.queryMany<any>('SELECT * FROM backtest_runs ORDER BY started_at DESC LIMIT $1', [limit]);
+    return rows.map(toRun);
+  }
+
+  async getResults(runId: number, signaledOnly: boolean = false): Promise<BacktestTokenResult[]> {
+    const rows = await this.queryMany<any>(
+      `SELECT * FROM backtest_results
+      WHERE run_id = $1 ${signaledOnly ? 'AND signaled' : ''}
+      ORDER BY signal_at NULLS LAST`,
+      [runId]
+    );
+    const optionalFloat = (value: string | null) => value === null ? null : parseFloat(value);
+    return rows.map(row => ({
+      ...row,
+      technical_score: optionalFloat(row.technical_score),
+      holder_score: optionalFloat(row.holder_score),
+      aggregate_score: optionalFloat(row.aggregate_score),
+      progress_at_signal: optionalFloat(row.progress_at_signal),
+      max_technical_score: optionalFloat(row.max_technical_score),
+      minutes_to_graduation: optionalFloat(row.minutes_to_graduation),
+      realized_pnl_sol: optionalFloat(row.realized_pnl_sol)
+    }));
+  }
+}
+
+// Export singleton instance
+export const backtestOperations = new BacktestOperations();
@@ -0,0 +1,104 @@
+import { BaseOperations } from '../base-operations';
+import { MlModel, MlModelAlgorithm } from '../types';
+
+export type { MlModel, MlModelAlgorithm };
+
+function toModel(row: any): MlModel {
+  return {
+    ...row,
+    positive_rate: row.positive_rate === null ? null : parseFloat(row.positive_rate)
+  };
+}
+
+export class MlModelOperations extends BaseOperations {
+  constructor() {
+    super();
+  }
+
+  /**
+   * Store a trained model as the next version under its name and return it
+   */
+  async registerModel(model: MlModel): Promise<MlModel> {
+    return this.executeInTransaction(async (client) => {
+      // Serialize concurrent registrations of the same name so versions stay unique
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [model.name]);
+
+      const result = await client.query(
+        `INSERT INTO ml_models (
+          name, version, algorithm, feature_version, feature_names, parameters, hyperparameters,
+          training_range_start, training_range_end, train_samples, test_samples, positive_rate, metrics
+        )
+        SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12
+        FROM ml_models WHERE name = $1
+        RETURNING *`,
+        [
+          model.name,
+          model.algorithm,
+          model.feature_version,
+          JSON.stringify(model.feature_names),
+          JSON.stringify(model.parameters),
+          JSON.stringify(model.hyperparameters),
+          model.training_range_start,
+          model.training_range_end,
+          model.train_samples,
+          model.test_samples,
+          model.positive_rate,
+          JSON.stringify(model.metrics)
+        ]
+      );
+      return toModel(result.rows[0]);
+    });
+  }
+
+  /**
+   * Make a model the one used for inference, deactivating others with its name
+   */
+  async activateModel(id: number): Promise<MlModel> {
+    return this.executeInTransaction(async (client) => {
+      const existing = await client.query('SELECT name FROM ml_models WHERE id = $1', [id]);
+      if (existing.rows.length === 0) {
+        throw new Error(`Model ${id} does not exist`);
+      }
+
+      await client.query(
+        'UPDATE ml_models SET is_active = FALSE WHERE name = $1 AND is_active AND id <> $2',
+        [existing.rows[0].name, id]
+      );
+      const result = await client.query(
+        'UPDATE ml_models SET is_active = TRUE, activated_at = NOW() WHERE id = $1 RETURNING *',
+        [id]
+      );
+      return toModel(result.rows[0]);
+    });
+  }
+
+  async getActiveModel(name: string): Promise<MlModel | null> {
+    const row = await this.queryOne<any>('SELECT * FROM ml_models WHERE name = $1 AND is_active', [name]);
+    return row ? toModel(row) : null;
+  }
+
+  async getModel(id: number): Promise<MlModel | null> {
+    const row = await this.queryOne<any>('SELECT * FROM ml_models WHERE id = $1', [id]);
+    return row ? toModel(row) : null;
+  }
+
+  /**
+   * Recent models without their parameters, newest first
+   */
+  async getModels(name?: string, limit: number = 20): Promise<Omit<MlModel, 'parameters'>[]> {
+    const rows = await this.queryMany<any>(
+      `SELECT id, name, version, algorithm, feature_version, feature_names, hyperparameters,
+        training_range_start, training_range_end, train_samples, test_samples, positive_rate,
+        metrics, is_active, trained_at, activated_at
+      FROM ml_models
+      WHERE $1::text IS NULL OR name = $1
+      ORDER BY trained_at DESC
+      LIMIT $2`,
+      [name ?? null, limit]
+    );
+    return rows.map(toModel);
+  }
+}
+
+// Export singleton instance
+export const mlModelOperations = new MlModelOperations();
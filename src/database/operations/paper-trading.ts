@@ -0,0 +1,274 @@
+import { PoolClient } from 'pg';
+import { BaseOperations } from '../base-operations';
+import { PaperPosition, PaperFill, PaperExitReason, PaperPnLReport } from '../types';
+
+export type { PaperPosition, PaperFill, PaperExitReason, PaperPnLReport };
+
+const NUMERIC_POSITION_FIELDS = [
+  'size_sol', 'token_amount', 'entry_price_sol', 'entry_technical_score', 'entry_holder_score',
+  'entry_progress', 'last_price_sol', 'peak_price_sol', 'unrealized_pnl_sol', 'exit_price_sol',
+  'exit_proceeds_sol', 'realized_pnl_sol', 'realized_pnl_pct'
+] as const;
+
+function toPosition(row: any): PaperPosition {
+  const position = { ...row };
+  for (const field of NUMERIC_POSITION_FIELDS) {
+    position[field] = row[field] === null || row[field] === undefined ? null : parseFloat(row[field]);
+  }
+  return position as PaperPosition;
+}
+
+export class PaperTradingOperations extends BaseOperations {
+  constructor() {
+    super();
+  }
+
+  /**
+   * Open a position together with its entry fill and return the stored position
+   */
+  async openPosition(position: PaperPosition, fill: Omit<PaperFill, 'position_id'>): Promise<PaperPosition> {
+    return this.executeInTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO paper_positions (
+          strategy, token_id, pool_id, mint_address, status, opened_at, size_sol, token_amount,
+          entry_price_sol, entry_technical_score, entry_holder_score, entry_progress,
+          last_price_sol, peak_price_sol, unrealized_pnl_sol, metadata
+        ) VALUES ($1, $2, $3, $4, 'open', $5, $6, $7, $8, $9, $10, $11, $8, $8, 0, $12)
+        RETURNING *`,
+        [
+          position.strategy,
+          position.token_id,
+          position.pool_id,
+          position.mint_address,
+          position.opened_at,
+          position.size_sol,
+          position.token_amount,
+          position.entry_price_sol,
+          position.entry_technical_score ?? null,
+          position.entry_holder_score ?? null,
+          position.entry_progress ?? null,
+          position.metadata ? JSON.stringify(position.metadata) : null
+        ]
+      );
+
+      const stored = toPosition(result.rows[0]);
+      await this.insertFill(client, { ...fill, position_id: stored.id! });
+      return stored;
+    });
+  }
+
+  /**
+   * Close an open position with its exit fill; PnL is measured against size_sol
+   */
+  async closePosition(
+    position: PaperPosition,
+    fill: Omit<PaperFill, 'position_id'>,
+    reason: PaperExitReason
+  ): Promise<PaperPosition> {
+    const realizedPnl = fill.sol_amount - position.size_sol;
+    const realizedPct = position.size_sol > 0 ? (realizedPnl / position.size_sol) * 100 : 0;
+
+    return this.executeInTransaction(async (client) => {
+      const result = await client.query(
+        `UPDATE paper_positions
+        SET
+          status = 'closed',
+          closed_at = $2,
+          exit_price_sol = $3,
+          exit_proceeds_sol = $4,
+          realized_pnl_sol = $5,
+          realized_pnl_pct = $6,
+          exit_reason = $7,
+          last_price_sol = $8,
+          unrealized_pnl_sol = 0,
+          updated_at = NOW()
+        WHERE id = $1 AND status = 'open'
+        RETURNING *`,
+        [
+          position.id,
+          fill.filled_at,
+          fill.fill_price_sol,
+          fill.sol_amount,
+          realizedPnl,
+          realizedPct,
+          reason,
+          fill.spot_price_sol
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error(`Paper position ${position.id} is not open`);
+      }
+
+      await this.insertFill(client, { ...fill, position_id: position.id! });
+      return toPosition(result.rows[0]);
+    });
+  }
+
+  /**
+   * Record the latest mark for an open position
+   */
+  async markPosition(id: number, priceSol: number, peakPriceSol: number, unrealizedPnlSol: number): Promise<void> {
+    await this.execute(
+      `UPDATE paper_positions
+      SET last_price_sol = $2, peak_price_sol = $3, unrealized_pnl_sol = $4, updated_at = NOW()
+      WHERE id = $1 AND status = 'open'`,
+      [id, priceSol, peakPriceSol, unrealizedPnlSol]
+    );
+  }
+
+  async getOpenPositions(strategy: string): Promise<PaperPosition[]> {
+    const rows = await this.queryMany<any>(
+      `SELECT * FROM paper_positions WHERE strategy = $1 AND status = 'open' ORDER BY opened_at`,
+      [strategy]
+    );
+    return rows.map(toPosition);
+  }
+
+  /**
+   * Sum of realized PnL for a strategy, used to derive the available balance
+   */
+  async getRealizedPnl(strategy: string): Promise<number> {
+    const row = await this.queryOne<{ total: string | null }>(
+      `SELECT SUM(realized_pnl_sol) AS total FROM paper_positions WHERE strategy = $1 AND status = 'closed'`,
+      [strategy]
+    );
+    return row?.total ? parseFloat(row.total) : 0;
+  }
+
+  async getPositions(options: { strategy?: string; status?: 'open' | 'closed'; limit?: number } = {}): Promise<PaperPosition[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.strategy) {
+      params.push(options.strategy);
+      conditions.push(`strategy = $${params.length}`);
+    }
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    params.push(options.limit || 100);
+
+    const rows = await this.queryMany<any>(
+      `SELECT * FROM paper_positions
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY opened_at DESC
+      LIMIT $${params.length}`,
+      params
+    );
+    return rows.map(toPosition);
+  }
+
+  async getFills(positionId: number): Promise<PaperFill[]> {
+    const rows = await this.queryMany<any>(
+      `SELECT * FROM paper_fills WHERE position_id = $1 ORDER BY filled_at, id`,
+      [positionId]
+    );
+    return rows.map(row => ({
+      ...row,
+      id: parseInt(row.id),
+      sol_amount: parseFloat(row.sol_amount),
+      token_amount: parseFloat(row.token_amount),
+      spot_price_sol: parseFloat(row.spot_price_sol),
+      fill_price_sol: parseFloat(row.fill_price_sol),
+      slippage_pct: parseFloat(row.slippage_pct),
+      fee_sol: parseFloat(row.fee_sol)
+    }));
+  }
+
+  /**
+   * Realized and unrealized PnL for a strategy with a breakdown by exit reason
+   */
+  async getPnLReport(strategy: string): Promise<PaperPnLReport> {
+    const summary = await this.queryOne<any>(
+      `SELECT
+        COUNT(*) FILTER (WHERE status = 'open') AS open_positions,
+        COUNT(*) FILTER (WHERE status = 'closed') AS closed_positions,
+        COUNT(*) FILTER (WHERE status = 'closed' AND realized_pnl_sol > 0) AS wins,
+        COALESCE(SUM(size_sol) FILTER (WHERE status = 'open'), 0) AS open_exposure_sol,
+        COALESCE(SUM(unrealized_pnl_sol) FILTER (WHERE status = 'open'), 0) AS unrealized_pnl_sol,
+        COALESCE(SUM(size_sol) FILTER (WHERE status = 'closed'), 0) AS closed_volume_sol,
+        COALESCE(SUM(realized_pnl_sol) FILTER (WHERE status = 'closed'), 0) AS realized_pnl_sol,
+        AVG(realized_pnl_pct) FILTER (WHERE status = 'closed') AS avg_return_pct,
+        MAX(realized_pnl_pct) FILTER (WHERE status = 'closed') AS best_return_pct,
+        MIN(realized_pnl_pct) FILTER (WHERE status = 'closed') AS worst_return_pct,
+        AVG(EXTRACT(EPOCH FROM (closed_at - opened_at)) / 60) FILTER (WHERE status = 'closed') AS avg_hold_minutes
+      FROM paper_positions
+      WHERE strategy = $1`,
+      [strategy]
+    );
+
+    const fills = await this.queryOne<any>(
+      `SELECT COALESCE(SUM(fee_sol), 0) AS fees_sol, AVG(slippage_pct) AS avg_slippage_pct
+      FROM paper_fills WHERE strategy = $1`,
+      [strategy]
+    );
+
+    const exits = await this.queryMany<any>(
+      `SELECT exit_reason, COUNT(*) AS count, SUM(realized_pnl_sol) AS pnl_sol
+      FROM paper_positions
+      WHERE strategy = $1 AND status = 'closed'
+      GROUP BY exit_reason
+      ORDER BY count DESC`,
+      [strategy]
+    );
+
+    const closed = parseInt(summary.closed_positions);
+    const wins = parseInt(summary.wins);
+    const realized = parseFloat(summary.realized_pnl_sol);
+    const unrealized = parseFloat(summary.unrealized_pnl_sol);
+    const optionalFloat = (value: string | null) => value === null ? null : parseFloat(value);
+
+    return {
+      strategy,
+      open_positions: parseInt(summary.open_positions),
+      closed_positions: closed,
+      wins,
+      losses: closed - wins,
+      win_rate: closed > 0 ? (wins / closed) * 100 : 0,
+      open_exposure_sol: parseFloat(summary.open_exposure_sol),
+      closed_volume_sol: parseFloat(summary.closed_volume_sol),
+      realized_pnl_sol: realized,
+      unrealized_pnl_sol: unrealized,
+      total_pnl_sol: realized + unrealized,
+      avg_return_pct: optionalFloat(summary.avg_return_pct),
+      best_return_pct: optionalFloat(summary.best_return_pct),
+      worst_return_pct: optionalFloat(summary.worst_return_pct),
+      avg_hold_minutes: optionalFloat(summary.avg_hold_minutes),
+      fees_sol: parseFloat(fills.fees_sol),
+      avg_slippage_pct: optionalFloat(fills.avg_slippage_pct),
+      exits: exits.map(row => ({
+        reason: row.exit_reason,
+        count: parseInt(row.count),
+        pnl_sol: parseFloat(row.pnl_sol)
+      }))
+    };
+  }
+
+  private async insertFill(client: PoolClient, fill: PaperFill): Promise<void> {
+    await client.query(
+      `INSERT INTO paper_fills (
+        position_id, strategy, side, filled_at, sol_amount, token_amount,
+        spot_price_sol, fill_price_sol, slippage_pct, fee_sol, price_model, reason
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        fill.position_id,
+        fill.strategy,
+        fill.side,
+        fill.filled_at,
+        fill.sol_amount,
+        fill.token_amount,
+        fill.spot_price_sol,
+        fill.fill_price_sol,
+        fill.slippage_pct,
+        fill.fee_sol,
+        fill.price_model,
+        fill.reason || null
+      ]
+    );
+  }
+}
+
+// Export singleton instance
+export const paperTradingOperations = new PaperTradingOperations();
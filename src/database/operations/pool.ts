@@ -163,6 +163,7 @@ export class PoolOperations extends BaseOperations {
     real_token_reserves?: string;
     bonding_curve_progress?: number;
     latest_price?: string;
+    latest_price_usd?: string;
   }): Promise<void> {
     const updateFields: string[] = [];
     const values: any[] = [];
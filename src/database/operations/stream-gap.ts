@@ -0,0 +1,134 @@
+import { BaseOperations } from '../base-operations';
+import { StreamCheckpoint, StreamGap, StreamGapStatus, StreamGapRecoveryMethod, StreamGapPlatform } from '../types';
+
+export type { StreamCheckpoint, StreamGap, StreamGapStatus, StreamGapRecoveryMethod, StreamGapPlatform };
+
+export class StreamGapOperations extends BaseOperations {
+  constructor() {
+    super();
+  }
+
+  /**
+   * Get the last processed slot for a monitor
+   */
+  async getCheckpoint(monitorId: string): Promise<StreamCheckpoint | null> {
+    const row = await this.queryOne<any>(
+      'SELECT monitor_id, last_slot, last_update_at FROM stream_checkpoints WHERE monitor_id = $1',
+      [monitorId]
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      monitor_id: row.monitor_id,
+      last_slot: parseInt(row.last_slot),
+      last_update_at: new Date(row.last_update_at)
+    };
+  }
+
+  /**
+   * Save the last processed slot, never moving a checkpoint backwards
+   */
+  async saveCheckpoint(checkpoint: StreamCheckpoint): Promise<void> {
+    const query = `
+      INSERT INTO stream_checkpoints (monitor_id, last_slot, last_update_at)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (monitor_id) DO UPDATE SET
+        last_slot = GREATEST(stream_checkpoints.last_slot, EXCLUDED.last_slot),
+        last_update_at = EXCLUDED.last_update_at,
+        updated_at = NOW()
+    `;
+
+    await this.execute(query, [
+      checkpoint.monitor_id,
+      checkpoint.last_slot,
+      checkpoint.last_update_at
+    ]);
+  }
+
+  /**
+   * Record a newly detected gap and return its ID
+   */
+  async createGap(gap: StreamGap): Promise<number> {
+    const query = `
+      INSERT INTO stream_gaps (
+        monitor_id, platform, from_slot, to_slot, gap_start, gap_end, status, recovery_method, error, resolved_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9,
+        CASE WHEN $7 IN ('recovered', 'unrecovered') THEN NOW() ELSE NULL END)
+      RETURNING id
+    `;
+
+    const result = await this.queryOne<{ id: number }>(query, [
+      gap.monitor_id,
+      gap.platform,
+      gap.from_slot,
+      gap.to_slot,
+      gap.gap_start,
+      gap.gap_end,
+      gap.status,
+      gap.recovery_method || null,
+      gap.error || null
+    ]);
+    return result!.id;
+  }
+
+  /**
+   * Update the outcome of a gap recovery, and its method when it changed
+   */
+  async updateGap(
+    id: number,
+    status: StreamGapStatus,
+    transactionsRecovered: number = 0,
+    error?: string,
+    recoveryMethod?: StreamGapRecoveryMethod
+  ): Promise<void> {
+    const query = `
+      UPDATE stream_gaps
+      SET
+        status = $2,
+        transactions_recovered = $3,
+        error = $4,
+        recovery_method = COALESCE($5, recovery_method),
+        resolved_at = CASE WHEN $2 IN ('recovered', 'unrecovered') THEN NOW() ELSE NULL END
+      WHERE id = $1
+    `;
+
+    await this.execute(query, [id, status, transactionsRecovered, error || null, recoveryMethod || null]);
+  }
+
+  /**
+   * Get recent gaps, optionally for one monitor or only those still affecting data
+   */
+  async getGaps(options: { monitorId?: string; unresolvedOnly?: boolean; limit?: number } = {}): Promise<StreamGap[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.monitorId) {
+      params.push(options.monitorId);
+      conditions.push(`monitor_id = $${params.length}`);
+    }
+    if (options.unresolvedOnly) {
+      conditions.push(`status IN ('open', 'recovering', 'unrecovered')`);
+    }
+    params.push(options.limit || 100);
+
+    const query = `
+      SELECT * FROM stream_gaps
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY detected_at DESC
+      LIMIT $${params.length}
+    `;
+
+    const rows = await this.queryMany<any>(query, params);
+    return rows.map(row => ({
+      ...row,
+      from_slot: parseInt(row.from_slot),
+      to_slot: parseInt(row.to_slot)
+    }));
+  }
+}
+
+// Export singleton instance
+export const streamGapOperations = new StreamGapOperations();
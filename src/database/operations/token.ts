@@ -117,7 +117,7 @@ export class TokenOperations extends BaseOperations {
   /**
    * Get tokens by platform
    */
-  async getTokensByPlatform(platform: 'pumpfun' | 'raydium_launchpad', limit: number = 100): Promise<Token[]> {
+  async getTokensByPlatform(platform: 'pumpfun' | 'raydium_launchpad' | 'meteora_dbc', limit: number = 100): Promise<Token[]> {
     const query = `
       SELECT * FROM tokens 
       WHERE platform = $1 
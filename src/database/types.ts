@@ -9,7 +9,7 @@ export interface Token {
   symbol?: string;
   name?: string;
   decimals: number;
-  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap';
+  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap' | 'meteora_dbc';
   creation_signature: string;
   creation_timestamp: Date;
   creator_address: string;
@@ -27,7 +27,7 @@ export interface Pool {
   token_id: string;
   base_mint: string;
   quote_mint: string;
-  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap';
+  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap' | 'meteora_dbc';
   initial_price?: number;
   initial_price_usd?: string;
   initial_base_liquidity?: string;
@@ -66,7 +66,7 @@ export interface PoolData {
   pool_address: string;
   base_mint: string;
   quote_mint: string;
-  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap';
+  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap' | 'meteora_dbc';
   initial_price?: number;
   initial_price_usd?: string;
   initial_base_liquidity?: string;
@@ -159,13 +159,209 @@ export interface VolumeStats {
   unique_traders_24h: number;
 }
 
+// Stream gap types
+export interface StreamCheckpoint {
+  monitor_id: string;
+  last_slot: number;
+  last_update_at: Date;
+}
+
+export type StreamGapStatus = 'open' | 'recovering' | 'recovered' | 'unrecovered';
+export type StreamGapRecoveryMethod = 'from_slot' | 'rpc_backfill';
+export type StreamGapPlatform = 'pumpfun' | 'raydium_launchpad' | 'pumpswap' | 'meteora_dbc';
+
+export interface StreamGap {
+  id?: number;
+  monitor_id: string;
+  platform: StreamGapPlatform;
+  from_slot: number;
+  to_slot: number;
+  gap_start: Date;
+  gap_end: Date;
+  status: StreamGapStatus;
+  recovery_method?: StreamGapRecoveryMethod | null;
+  transactions_recovered?: number;
+  error?: string | null;
+  detected_at?: Date;
+  resolved_at?: Date | null;
+}
+
+// Paper trading types
+export type PaperExitReason =
+  | 'stop_loss'
+  | 'take_profit'
+  | 'trailing_stop'
+  | 'selloff'
+  | 'score_decay'
+  | 'max_hold'
+  | 'graduated'
+  | 'manual';
+
+export interface PaperPosition {
+  id?: number;
+  strategy: string;
+  token_id: string;
+  pool_id: string;
+  mint_address: string;
+  status: 'open' | 'closed';
+  opened_at: Date;
+  size_sol: number;
+  token_amount: number;
+  entry_price_sol: number;
+  entry_technical_score?: number | null;
+  entry_holder_score?: number | null;
+  entry_progress?: number | null;
+  last_price_sol?: number | null;
+  peak_price_sol?: number | null;
+  unrealized_pnl_sol?: number | null;
+  closed_at?: Date | null;
+  exit_price_sol?: number | null;
+  exit_proceeds_sol?: number | null;
+  realized_pnl_sol?: number | null;
+  realized_pnl_pct?: number | null;
+  exit_reason?: PaperExitReason | null;
+  metadata?: any;
+}
+
+export interface PaperFill {
+  id?: number;
+  position_id: number;
+  strategy: string;
+  side: 'buy' | 'sell';
+  filled_at: Date;
+  sol_amount: number;
+  token_amount: number;
+  spot_price_sol: number;
+  fill_price_sol: number;
+  slippage_pct: number;
+  fee_sol: number;
+  price_model: 'bonding_curve' | 'fixed_slippage';
+  reason?: string | null;
+}
+
+export interface PaperPnLReport {
+  strategy: string;
+  open_positions: number;
+  closed_positions: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  open_exposure_sol: number;
+  closed_volume_sol: number;
+  realized_pnl_sol: number;
+  unrealized_pnl_sol: number;
+  total_pnl_sol: number;
+  avg_return_pct: number | null;
+  best_return_pct: number | null;
+  worst_return_pct: number | null;
+  avg_hold_minutes: number | null;
+  fees_sol: number;
+  avg_slippage_pct: number | null;
+  exits: Array<{ reason: PaperExitReason; count: number; pnl_sol: number }>;
+}
+
+// Backtest types
+export interface BacktestRun {
+  id?: number;
+  name: string;
+  status: 'running' | 'completed' | 'failed';
+  range_start: Date;
+  range_end: Date;
+  step_minutes: number;
+  config: any;
+  scoring_config: any;
+  tokens_evaluated?: number | null;
+  tokens_signaled?: number | null;
+  tokens_graduated?: number | null;
+  hits?: number | null;
+  hit_rate?: number | null;
+  recall?: number | null;
+  base_rate?: number | null;
+  trades?: number | null;
+  win_rate?: number | null;
+  realized_pnl_sol?: number | null;
+  error?: string | null;
+  started_at?: Date;
+  completed_at?: Date | null;
+}
+
+export interface BacktestTokenResult {
+  run_id?: number;
+  token_id: string;
+  mint_address: string;
+  signaled: boolean;
+  signal_at: Date | null;
+  technical_score: number | null;
+  holder_score: number | null;
+  aggregate_score: number | null;
+  progress_at_signal: number | null;
+  max_technical_score: number | null;
+  graduated: boolean;
+  graduated_at: Date | null;
+  minutes_to_graduation: number | null;
+  realized_pnl_sol: number | null;
+  exit_reason: PaperExitReason | null;
+}
+
+// Graduation model registry types
+export type MlModelAlgorithm = 'logistic' | 'gbdt';
+
+export interface MlModel {
+  id?: number;
+  name: string;
+  version?: number;
+  algorithm: MlModelAlgorithm;
+  feature_version: number;
+  feature_names: string[];
+  parameters: any;
+  hyperparameters: any;
+  training_range_start: Date;
+  training_range_end: Date;
+  train_samples: number;
+  test_samples: number;
+  positive_rate: number | null;
+  metrics: any;
+  is_active?: boolean;
+  trained_at?: Date;
+  activated_at?: Date | null;
+}
+
+// Alert types
+export type AlertSeverity = 'info' | 'positive' | 'warning' | 'critical';
+
+export interface AlertDelivery {
+  sink: string;
+  ok: boolean;
+  error: string | null;
+  at: Date;
+}
+
+export interface FiredAlert {
+  id?: number;
+  rule_id: string;
+  rule_name: string;
+  event_type: string;
+  severity: AlertSeverity;
+  dedupe_key: string;
+  token_id: string | null;
+  mint_address: string | null;
+  symbol: string | null;
+  title: string;
+  message: string;
+  fields: Record<string, any>;
+  deliveries?: AlertDelivery[];
+  suppressed_count?: number;
+  last_suppressed_at?: Date | null;
+  fired_at: Date;
+}
+
 // Monitor Service types (different from database types)
 export interface TokenData {
   mint_address: string;
   symbol?: string;
   name?: string;
   decimals?: number;
-  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap';
+  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap' | 'meteora_dbc';
   creation_signature: string;
   creation_timestamp: Date;
   creator_address: string;
@@ -176,7 +372,7 @@ export interface TokenData {
 export interface MonitorPoolData {
   pool_address: string;
   token_id: string;
-  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap';
+  platform: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'pumpswap' | 'meteora_dbc';
   creation_signature: string;
   creation_timestamp: Date;
   initial_virtual_sol_reserves?: string;
@@ -209,7 +405,7 @@ export interface TransactionData {
   fee_sol?: string;
   fee_token?: string;
   metadata?: any;
-  platform?: 'pumpfun' | 'raydium' | 'raydium_launchpad';
+  platform?: 'pumpfun' | 'raydium' | 'raydium_launchpad' | 'meteora_dbc';
 }
 
 export interface PriceData {
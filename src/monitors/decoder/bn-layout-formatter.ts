@@ -0,0 +1,44 @@
+import { PublicKey } from "@solana/web3.js";
+import { isObject } from "lodash";
+import BN from "bn.js";
+
+export interface BnLayoutOptions {
+  // Keep BN/BigInt values as decimal strings instead of lossy numbers
+  bigNumbersAsStrings?: boolean;
+  // Convert hex-encoded integers (as emitted by some decoded accounts) to decimal strings
+  decodeHexStrings?: boolean;
+}
+
+export function bnLayoutFormatter(obj: any, options: BnLayoutOptions = {}) {
+  for (const key in obj) {
+    if (obj[key]?.constructor?.name === "PublicKey") {
+      obj[key] = (obj[key] as PublicKey).toBase58();
+    } else if (obj[key]?.constructor?.name === "BN") {
+      obj[key] = options.bigNumbersAsStrings ? obj[key].toString() : Number(obj[key].toString());
+    } else if (obj[key]?.constructor?.name === "BigInt") {
+      obj[key] = options.bigNumbersAsStrings ? obj[key].toString() : Number(obj[key].toString());
+    } else if (obj[key]?.constructor?.name === "Buffer") {
+      obj[key] = (obj[key] as Buffer).toString("base64");
+    } else if (
+      options.decodeHexStrings &&
+      typeof obj[key] === "string" &&
+      /^[0-9a-fA-F]+$/.test(obj[key]) &&
+      obj[key].length % 2 === 0 &&
+      obj[key].length > 2
+    ) {
+      try {
+        obj[key] = new BN(obj[key], 16).toString();
+      } catch (e) {
+        // If conversion fails, keep original value
+      }
+    } else if (isObject(obj[key])) {
+      bnLayoutFormatter(obj[key], options);
+    }
+  }
+}
+
+// Layout used by the Raydium Launchpad monitors
+export const RAYDIUM_LAYOUT_OPTIONS: BnLayoutOptions = {
+  bigNumbersAsStrings: true,
+  decodeHexStrings: true
+};
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+import { deserializeUpdate, serializeUpdate } from '../runtime/event-log';
+
+export const DECODER_FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * What decoding a fixture should produce: instruction and event names,
+ * plus the output of each platform parser under its own key
+ */
+export interface DecoderFixtureExpectation {
+  instructions?: string[];
+  innerInstructions?: string[];
+  events?: string[];
+  slot: number;
+  failed: boolean;
+  [parser: string]: unknown;
+}
+
+/**
+ * One gRPC transaction update, stored the way the event log stores it
+ */
+export interface DecoderFixture {
+  name: string;
+  description: string;
+  expect: DecoderFixtureExpectation;
+  receivedAt: number;
+  update: SubscribeUpdate;
+}
+
+export interface DecoderFixtureFile {
+  description: string;
+  transactions: DecoderFixture[];
+}
+
+// A bare file name refers to the fixtures directory
+function resolveFixtureFile(file: string): string {
+  return path.dirname(file) === '.' ? path.join(DECODER_FIXTURES_DIR, file) : file;
+}
+
+export function loadDecoderFixtures(file: string): DecoderFixtureFile {
+  const location = resolveFixtureFile(file);
+  const raw = JSON.parse(fs.readFileSync(location, 'utf8'));
+
+  return {
+    description: raw.description,
+    transactions: raw.transactions.map((entry: any) => {
+      // Entries keep the event log's { t, u } encoding of the update
+      const { receivedAt, update } = deserializeUpdate(JSON.stringify(entry));
+      return { name: entry.name, description: entry.description, expect: entry.expect, receivedAt, update };
+    })
+  };
+}
+
+/**
+ * Adds or replaces a fixture by name, creating the file if needed
+ */
+export function saveDecoderFixture(file: string, fixture: DecoderFixture, description: string = ''): void {
+  const location = resolveFixtureFile(file);
+  const raw = fs.existsSync(location)
+    ? JSON.parse(fs.readFileSync(location, 'utf8'))
+    : { description, transactions: [] };
+
+  const { t, u } = JSON.parse(serializeUpdate(fixture.receivedAt, fixture.update));
+  const entry = { name: fixture.name, description: fixture.description, expect: fixture.expect, t, u };
+  const index = raw.transactions.findIndex((existing: any) => existing.name === fixture.name);
+  if (index >= 0) {
+    raw.transactions[index] = entry;
+  } else {
+    raw.transactions.push(entry);
+  }
+
+  fs.writeFileSync(location, JSON.stringify(raw, null, 2) + '\n');
+}
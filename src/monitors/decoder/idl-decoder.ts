@@ -0,0 +1,223 @@
+import { Idl, utils } from "@coral-xyz/anchor";
+import { SolanaParser } from "@shyft-to/solana-transaction-parser";
+import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
+import { TransactionFormatter } from "./transaction-formatter";
+import { SolanaEventParser } from "./event-parser";
+import { BnLayoutOptions, bnLayoutFormatter } from "./bn-layout-formatter";
+import { ProgramIdl } from "./idl-registry";
+import { streamNow } from "../runtime/stream-clock";
+
+export interface DecodedAccount {
+  name?: string;
+  pubkey: string;
+  isSigner: boolean;
+  isWritable: boolean;
+}
+
+export interface DecodedInstruction<TArgs = Record<string, any>> {
+  programId: string;
+  name: string;
+  args: TArgs;
+  accounts: DecodedAccount[];
+  parentProgramId?: string;  // Set on inner (CPI) instructions
+}
+
+export interface DecodedEvent<TData = Record<string, any>> {
+  programId: string;
+  name: string;
+  data: TData;
+  source: "log" | "cpi";
+}
+
+export interface DecodedTransaction {
+  signature: string;
+  slot: number;
+  blockTime: number | null | undefined;
+  failed: boolean;
+  instructions: DecodedInstruction[];
+  innerInstructions: DecodedInstruction[];
+  events: DecodedEvent[];
+}
+
+// sha256("anchor:event")[..8], prefixed to instruction data by emit_cpi!
+const ANCHOR_EVENT_IX_TAG = Buffer.from([0xe4, 0x45, 0xa5, 0x2e, 0x51, 0xcb, 0x9a, 0x1d]);
+
+/**
+ * Decodes instructions, inner instructions and events for any set of
+ * Anchor programs from their IDLs. Only instructions and events of
+ * registered programs are returned; emit_cpi! self-invocations show up
+ * in events, not as instructions.
+ */
+export class IdlDecoder {
+  private formatter = new TransactionFormatter();
+  private ixParser = new SolanaParser([]);
+  private eventParser = new SolanaEventParser([], console);
+  private programIds: Set<string> = new Set();
+
+  constructor(programs: ProgramIdl[] = [], private layout: BnLayoutOptions = {}) {
+    programs.forEach(program => this.addProgram(program.idl, program.programId));
+  }
+
+  addProgram(idl: Idl, programId: string = idl.address): void {
+    this.ixParser.addParserFromIdl(programId, idl);
+    this.eventParser.addParserFromIdl(programId, idl);
+    this.programIds.add(programId);
+  }
+
+  hasProgram(programId: string): boolean {
+    return this.programIds.has(programId);
+  }
+
+  /**
+   * Decode a gRPC transaction update. Returns null for non-transaction updates.
+   */
+  decodeUpdate(data: any, time: number = streamNow()): DecodedTransaction | null {
+    if (!data?.transaction) return null;
+    const tx = this.formatter.formTransactionFromJson(data.transaction, time);
+    return this.decodeTransaction(tx);
+  }
+
+  decodeTransaction(tx: VersionedTransactionResponse): DecodedTransaction {
+    const hydrated = hydrateLoadedAddresses(tx);
+    const decoded: DecodedTransaction = {
+      signature: hydrated.transaction.signatures[0],
+      slot: Number(hydrated.slot),
+      blockTime: hydrated.blockTime,
+      failed: !!hydrated.meta?.err,
+      instructions: [],
+      innerInstructions: [],
+      events: []
+    };
+
+    try {
+      decoded.instructions = this.ixParser
+        .parseTransactionData(hydrated.transaction.message, hydrated.meta?.loadedAddresses)
+        .filter(ix => ix.name !== "unknown" && this.programIds.has(ix.programId.toBase58()))
+        .map(ix => this.toDecodedInstruction(ix));
+    } catch (error) {
+      // Unknown instruction layouts are skipped
+    }
+
+    try {
+      decoded.innerInstructions = this.ixParser
+        .parseTransactionWithInnerInstructions(hydrated)
+        .filter(ix => ix.parentProgramId && ix.name !== "unknown" && this.programIds.has(ix.programId.toBase58()))
+        .map(ix => this.toDecodedInstruction(ix));
+    } catch (error) {
+      // Unknown instruction layouts are skipped
+    }
+
+    decoded.events = [...this.decodeLogEvents(hydrated), ...this.decodeCpiEvents(hydrated)];
+    return decoded;
+  }
+
+  private toDecodedInstruction(ix: any): DecodedInstruction {
+    const decoded: DecodedInstruction = {
+      programId: ix.programId.toBase58(),
+      name: ix.name,
+      args: ix.args,
+      accounts: (ix.accounts || []).map((account: any) => ({
+        name: account.name,
+        pubkey: account.pubkey,
+        isSigner: account.isSigner,
+        isWritable: account.isWritable
+      })),
+      parentProgramId: ix.parentProgramId?.toBase58()
+    };
+    bnLayoutFormatter(decoded, this.layout);
+    return decoded;
+  }
+
+  private decodeLogEvents(tx: VersionedTransactionResponse): DecodedEvent[] {
+    const logs = tx.meta?.logMessages || [];
+    const events: DecodedEvent[] = [];
+
+    for (const programId of this.programIds) {
+      if (!logs.some(log => log.includes(programId))) continue;
+
+      for (const event of this.eventParser.parseProgramLogMessages(programId, logs)) {
+        const decoded: DecodedEvent = { programId, name: event.name, data: event.data, source: "log" };
+        bnLayoutFormatter(decoded, this.layout);
+        events.push(decoded);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Events emitted with emit_cpi! are self-invocations whose data is the
+   * event tag, the event discriminator and the Borsh-encoded event
+   */
+  private decodeCpiEvents(tx: VersionedTransactionResponse): DecodedEvent[] {
+    const innerInstructions = tx.meta?.innerInstructions;
+    if (!innerInstructions || innerInstructions.length === 0) return [];
+
+    const accountKeys = tx.transaction.message
+      .getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses })
+      .keySegments()
+      .flat();
+    const events: DecodedEvent[] = [];
+
+    for (const inner of innerInstructions) {
+      for (const ix of inner.instructions) {
+        const programId = accountKeys[ix.programIdIndex]?.toBase58();
+        if (!programId || !this.programIds.has(programId)) continue;
+
+        const data = Buffer.from(utils.bytes.bs58.decode(ix.data));
+        if (data.length <= ANCHOR_EVENT_IX_TAG.length || !data.subarray(0, 8).equals(ANCHOR_EVENT_IX_TAG)) continue;
+
+        const coder = this.eventParser.getEventCoder(programId);
+        const event = coder?.events.decode(data.subarray(8).toString("base64"));
+        if (event) {
+          const decoded: DecodedEvent = { programId, name: event.name, data: event.data, source: "cpi" };
+          bnLayoutFormatter(decoded, this.layout);
+          events.push(decoded);
+        }
+      }
+    }
+
+    return events;
+  }
+}
+
+export function findInstruction<TArgs = Record<string, any>>(
+  decoded: DecodedTransaction,
+  name: string
+): DecodedInstruction<TArgs> | undefined {
+  return (decoded.instructions.find(ix => ix.name === name) ||
+    decoded.innerInstructions.find(ix => ix.name === name)) as DecodedInstruction<TArgs> | undefined;
+}
+
+export function findEvent<TData = Record<string, any>>(
+  decoded: DecodedTransaction,
+  name: string
+): DecodedEvent<TData> | undefined {
+  return decoded.events.find(event => event.name === name) as DecodedEvent<TData> | undefined;
+}
+
+export function findAccount(ix: DecodedInstruction | undefined, name: string): string | undefined {
+  return ix?.accounts.find(account => account.name === name)?.pubkey;
+}
+
+/**
+ * gRPC delivers lookup-table addresses as raw bytes; the parser needs PublicKeys
+ */
+export function hydrateLoadedAddresses(tx: VersionedTransactionResponse): VersionedTransactionResponse {
+  const loaded = tx.meta?.loadedAddresses;
+  if (!loaded) return tx;
+
+  const toPublicKeys = (keys: (Buffer | PublicKey)[]) =>
+    keys.map(key => (key instanceof PublicKey ? key : new PublicKey(key)));
+
+  return {
+    ...tx,
+    meta: {
+      ...tx.meta!,
+      loadedAddresses: {
+        writable: toPublicKeys(loaded.writable),
+        readonly: toPublicKeys(loaded.readonly)
+      }
+    }
+  };
+}
@@ -0,0 +1,30 @@
+import { Idl } from "@coral-xyz/anchor";
+import pumpFunIdl from "../pumpfun/idls/pump_0.1.0.json";
+import pumpAmmIdl from "../pumpswap/idls/pump_amm_0.1.0.json";
+import raydiumLaunchpadIdl from "../raydium-launchpad/idls/raydium_launchpad.json";
+import meteoraDbcIdl from "../meteora-dbc/idls/dynamic_bonding_curve.json";
+
+export interface ProgramIdl {
+  name: string;
+  programId: string;
+  idl: Idl;
+}
+
+function fromIdl(idl: Idl): ProgramIdl {
+  return { name: idl.metadata.name, programId: idl.address, idl };
+}
+
+/**
+ * Programs the monitors decode. Adding a launchpad is an IDL drop-in:
+ * place the Anchor IDL in the platform's idls/ folder and register it here.
+ */
+export const PROGRAM_IDLS: ProgramIdl[] = [
+  fromIdl(pumpFunIdl as Idl),
+  fromIdl(pumpAmmIdl as Idl),
+  fromIdl(raydiumLaunchpadIdl as Idl),
+  fromIdl(meteoraDbcIdl as Idl)
+];
+
+export function getProgramIdl(nameOrProgramId: string): ProgramIdl | undefined {
+  return PROGRAM_IDLS.find(p => p.name === nameOrProgramId || p.programId === nameOrProgramId);
+}
@@ -0,0 +1,8 @@
+export { TransactionFormatter, formatTransaction } from './transaction-formatter';
+export { SolanaEventParser } from './event-parser';
+export { bnLayoutFormatter, RAYDIUM_LAYOUT_OPTIONS } from './bn-layout-formatter';
+export type { BnLayoutOptions } from './bn-layout-formatter';
+export { PROGRAM_IDLS, getProgramIdl } from './idl-registry';
+export type { ProgramIdl } from './idl-registry';
+export { IdlDecoder, findInstruction, findEvent, findAccount, hydrateLoadedAddresses } from './idl-decoder';
+export type { DecodedAccount, DecodedInstruction, DecodedEvent, DecodedTransaction } from './idl-decoder';
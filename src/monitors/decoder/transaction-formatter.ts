@@ -119,7 +119,8 @@ export class TransactionFormatter {
 
   private formMeta(meta: any): ConfirmedTransactionMeta {
     return {
-      err: meta.errorInfo ? { err: meta.errorInfo } : null,
+      // Yellowstone reports failures as err; errorInfo is the older field name
+      err: meta.err ?? (meta.errorInfo ? { err: meta.errorInfo } : null),
       fee: meta.fee,
       preBalances: meta.preBalances,
       postBalances: meta.postBalances,
@@ -5,22 +5,17 @@ import Client, {
   SubscribeRequestFilterTransactions,
   SubscribeRequestFilterAccounts
 } from "@triton-one/yellowstone-grpc";
-import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
+import { VersionedTransactionResponse } from "@solana/web3.js";
 import bs58 from "bs58";
-import * as fs from "fs";
-import * as path from "path";
 // @ts-ignore - Raydium SDK types
 import { LIQUIDITY_STATE_LAYOUT_V4 } from "@raydium-io/raydium-sdk";
 import { struct, bool, u64 } from "@coral-xyz/borsh";
 import { monitorService } from "../../database";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
-import { SolanaEventParser } from "./utils/event-parser";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import { PUMP_FUN_DECODER, PUMP_FUN_PROGRAM_ID, parseMigrationOutput } from "../pumpfun/utils/pump-fun-parsed-transaction";
+import { streamNow } from "../runtime/stream-clock";
 
 // Program IDs
-const PUMP_PROGRAM_ID = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
 const MIGRATION_ACCOUNT = "39azUYFWPz3VHgKCf3VChUwbpURdCHRxjWVowf5jUJjg";
 const RAYDIUM_AMM_V4 = "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8";
 const RAYDIUM_CPMM = "CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C";
@@ -57,12 +52,348 @@ const seenPools = new Set<string>();
 const seenBondingCurves = new Set<string>();
 const POOL_CACHE_DURATION = 60 * 60 * 1000; // 1 hour in milliseconds
 
+const txFormatter = new TransactionFormatter();
+
+// Periodic cleanup of seen pools cache (every 2 hours)
+setInterval(() => {
+  const oldSize = seenPools.size;
+  seenPools.clear();
+  seenBondingCurves.clear();
+  console.log(`\n🧹 Cleared cache (was tracking ${oldSize} pools)\n`);
+}, 2 * 60 * 60 * 1000).unref();
+
+// Pump.fun bonding curves whose complete flag is set
+export const GRADUATION_CURVE_REQUEST: SubscribeRequest = {
+  slots: {},
+  accounts: {
+    pumpfun: {
+      account: [],
+      filters: [
+        {
+          memcmp: {
+            offset: bondingCurveStructure.offsetOf('complete').toString(),
+            bytes: Uint8Array.from([1]) // Filter for complete = true
+          }
+        }
+      ],
+      owner: [PUMP_FUN_PROGRAM_ID]
+    }
+  },
+  transactions: {},
+  blocks: {},
+  blocksMeta: {},
+  accountsDataSlice: [],
+  commitment: CommitmentLevel.PROCESSED,
+  entry: {},
+  transactionsStatus: {}
+};
+
+// Migration transactions that touch the pump.fun migration account
+export const GRADUATION_MIGRATION_REQUEST: SubscribeRequest = {
+  accounts: {},
+  slots: {},
+  transactions: {
+    migration: {
+      vote: false,
+      failed: false,
+      signature: undefined,
+      accountInclude: [MIGRATION_ACCOUNT],
+      accountExclude: [],
+      accountRequired: []
+    }
+  },
+  transactionsStatus: {},
+  entry: {},
+  blocks: {},
+  blocksMeta: {},
+  accountsDataSlice: [],
+  commitment: CommitmentLevel.CONFIRMED
+};
+
+// SOL-quoted Raydium AMM V4 pools
+export const GRADUATION_RAYDIUM_POOL_REQUEST: SubscribeRequest = {
+  slots: {},
+  accounts: {
+    raydium: {
+      account: [],
+      filters: [
+        {
+          memcmp: {
+            offset: LIQUIDITY_STATE_LAYOUT_V4.offsetOf('quoteMint').toString(),
+            base58: "So11111111111111111111111111111111111111112"
+          }
+        },
+        {
+          memcmp: {
+            offset: LIQUIDITY_STATE_LAYOUT_V4.offsetOf('marketProgramId').toString(),
+            base58: "srmqPvymJeFKQ4zGQed1GFppgkRHL9kaELCbyksJtPX"
+          }
+        }
+      ],
+      owner: [RAYDIUM_AMM_V4]
+    }
+  },
+  transactions: {},
+  blocks: {},
+  blocksMeta: {},
+  accountsDataSlice: [],
+  commitment: CommitmentLevel.PROCESSED,
+  entry: {},
+  transactionsStatus: {}
+};
+
+export async function processGraduationCurveUpdate(data: any): Promise<void> {
+  if (!data?.account) return;
+
+  try {
+    const bondingCurveAddress = bs58.encode(data.account.account.pubkey);
+    
+    // Skip if we've already seen this bonding curve
+    if (seenBondingCurves.has(bondingCurveAddress)) {
+      return;
+    }
+    seenBondingCurves.add(bondingCurveAddress);
+
+    // Decode bonding curve data
+    const bondingCurveData = bondingCurveStructure.decode(
+      Buffer.from(data.account.account.data, "base64")
+    );
+
+    if (bondingCurveData.complete) {
+      // Get token mint from bonding curve account
+      // In Pump.fun, the bonding curve PDA is derived from the token mint
+      // We need to extract the mint from the account data or use a reverse lookup
+      
+      // For now, we'll wait for the migration transaction to get the full details
+      console.log("\n" + "✅".repeat(40));
+      console.log("✅ BONDING CURVE COMPLETED!");
+      console.log("─".repeat(80));
+      console.log(`⏰ Time: ${new Date(streamNow()).toLocaleString()}`);
+      console.log(`📊 Bonding Curve: ${bondingCurveAddress}`);
+      console.log(`💧 Final SOL Reserves: ${(Number(bondingCurveData.virtualSolReserves) / 1e9).toFixed(4)} SOL`);
+      console.log(`🪙 Final Token Reserves: ${(Number(bondingCurveData.virtualTokenReserves) / 1e6).toFixed(0)}`);
+      console.log(`✨ Status: READY FOR GRADUATION`);
+      console.log("✅".repeat(40) + "\n");
+
+      // Update database - mark bonding curve as 100% complete
+      try {
+        const pool = await monitorService.getPoolByAddress(bondingCurveAddress);
+        if (pool) {
+          await monitorService.updatePoolProgress(pool.id, 100.00);
+          await monitorService.updatePoolStatus(pool.id, 'graduated');
+          
+          // Mark token as graduated
+          if (pool.token_id) {
+            await monitorService.markTokenAsGraduated(pool.token_id, null);
+          }
+        }
+      } catch (error) {
+        console.error("Error updating database:", error);
+      }
+    }
+  } catch (error) {
+    console.error("Error processing bonding curve account:", error);
+  }
+}
+
+export async function processGraduationMigrationUpdate(data: any): Promise<void> {
+  if (!data?.transaction) return;
+
+  try {
+    const txn = txFormatter.formTransactionFromJson(data.transaction, streamNow());
+    if (txn.meta?.err) return;
+
+    // The migrate instruction names the token mint and bonding curve
+    const decoded = PUMP_FUN_DECODER.decodeTransaction(txn);
+    const migration = parseMigrationOutput(decoded);
+    if (!migration) return;
+
+    const signature = decoded.signature;
+    const tokenMint = migration.mint;
+    const bondingCurve = migration.bondingCurve;
+
+    // Determine target AMM
+    const targetAmm = determineTargetAmm(txn);
+    
+    const event: GraduationEvent = {
+      tokenMint,
+      bondingCurve: bondingCurve || "",
+      bondingCurveComplete: true,
+      graduationTx: signature,
+      targetAmm,
+      timestamp: streamNow()
+    };
+
+    graduationTracker.set(tokenMint, event);
+    if (bondingCurve) {
+      bondingCurveToMint.set(bondingCurve, tokenMint);
+    }
+
+    console.log("\n" + "🎉".repeat(40));
+    console.log("🎓 GRADUATION TRANSACTION DETECTED!");
+    console.log("─".repeat(80));
+    console.log(`⏰ Time: ${new Date(streamNow()).toLocaleString()}`);
+    console.log(`🪙 Token Mint: ${tokenMint}`);
+    console.log(`📊 Bonding Curve: ${bondingCurve || 'N/A'}`);
+    console.log(`📝 Transaction: https://solscan.io/tx/${signature}`);
+    console.log(`🎯 Target AMM: ${targetAmm.toUpperCase()}`);
+    console.log(`🔗 Pump.fun: https://pump.fun/coin/${tokenMint}`);
+    console.log("🎉".repeat(40) + "\n");
+
+    // Update database
+    try {
+      const token = await monitorService.getTokenByMint(tokenMint);
+      if (token) {
+        await monitorService.markTokenAsGraduated(token.id, signature);
+        
+        // Update pool status if we have the bonding curve
+        if (bondingCurve) {
+          const pool = await monitorService.getPoolByAddress(bondingCurve);
+          if (pool) {
+            await monitorService.updatePoolStatus(pool.id, 'graduated');
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Error updating database:", error);
+    }
+  } catch (error) {
+    // Suppress parsing errors
+  }
+}
+
+export async function processGraduationRaydiumPoolUpdate(data: any): Promise<void> {
+  if (!data?.account) return;
+
+  try {
+    const poolInfo = LIQUIDITY_STATE_LAYOUT_V4.decode(
+      Buffer.from(data.account.account.data, "base64")
+    );
+
+    const poolAddress = bs58.encode(data.account.account.pubkey);
+    const baseMint = poolInfo.baseMint.toString();
+    const quoteMint = poolInfo.quoteMint.toString();
+    const openTime = poolInfo.poolOpenTime.toNumber() * 1000;
+    
+    // Skip if we've already seen this pool
+    if (seenPools.has(poolAddress)) {
+      return;
+    }
+
+    // Check if pool is already open (filter out future pools)
+    if (openTime > streamNow()) {
+      return; // Skip future pools silently
+    }
+    
+    // Filter out old pools (only show pools created in the last hour)
+    const poolAge = streamNow() - openTime;
+    if (poolAge > POOL_CACHE_DURATION) {
+      return; // Skip old pools silently
+    }
+
+    // Mark this pool as seen
+    seenPools.add(poolAddress);
+
+    // Check if this is a graduated pump.fun token
+    const event = graduationTracker.get(baseMint);
+    if (event) {
+      event.poolAddress = poolAddress;
+      graduationTracker.set(baseMint, event);
+
+      console.log("\n" + "🏊".repeat(40));
+      console.log("🏊 RAYDIUM POOL CREATED FOR GRADUATED TOKEN!");
+      console.log("─".repeat(80));
+      console.log(`⏰ Time: ${new Date(streamNow()).toLocaleString()}`);
+      console.log(`🪙 Token Mint: ${baseMint}`);
+      console.log(`💧 Pool Address: ${poolAddress}`);
+      console.log(`💱 Pair: ${baseMint} / SOL`);
+      console.log(`📅 Pool Open Time: ${new Date(openTime).toLocaleString()}`);
+      console.log(`🔗 Raydium: https://raydium.io/swap/?inputCurrency=sol&outputCurrency=${baseMint}`);
+      console.log("─".repeat(80));
+      console.log(`✅ GRADUATION COMPLETE!`);
+      console.log(`⏱️  Total Time: ${((streamNow() - event.timestamp) / 1000).toFixed(2)}s`);
+      console.log("🏊".repeat(40) + "\n");
+
+      // Create new pool in database for the graduated token
+      await createGraduatedPool(baseMint, poolAddress, 'raydium', poolInfo);
+    } else {
+      // New pool for non-graduated token
+      const ageMinutes = Math.floor(poolAge / 60000);
+      console.log(`\n🏊 New Raydium Pool Created (${ageMinutes}m ago)`);
+      console.log(`   Token Mint: ${baseMint}`);
+      console.log(`   Pool Address: ${poolAddress}`);
+      console.log(`   Quote: SOL`);
+      console.log(`   Open Time: ${new Date(openTime).toLocaleString()}`);
+    }
+  } catch (error) {
+    // Not a valid Raydium pool account
+  }
+}
+
+async function createGraduatedPool(tokenMint: string, poolAddress: string, platform: string, poolInfo: any) {
+  try {
+    const token = await monitorService.getTokenByMint(tokenMint);
+    if (!token) {
+      console.error(`Token not found for mint: ${tokenMint}`);
+      return;
+    }
+
+    // Create a new pool entry for the graduated token
+    await monitorService.savePool({
+      pool_address: poolAddress,
+      token_id: token.id,
+      platform: platform === 'raydium' ? 'raydium' : 'pumpswap',
+      creation_signature: poolAddress,
+      creation_timestamp: new Date(streamNow()),
+      metadata: {
+        virtual_sol_reserves: poolInfo.lpReserve?.toString() || '0',
+        virtual_token_reserves: poolInfo.pcReserve?.toString() || '0',
+        real_sol_reserves: poolInfo.lpReserve?.toString() || '0',
+        real_token_reserves: poolInfo.pcReserve?.toString() || '0',
+        bonding_curve_progress: null,
+        status: 'active',
+        latest_price: '0',
+        latest_price_usd: '0',
+      }
+    });
+
+    console.log(`✅ Created graduated pool entry for ${tokenMint} on ${platform}`);
+  } catch (error) {
+    console.error("Error creating graduated pool:", error);
+  }
+}
+
+function determineTargetAmm(txn: VersionedTransactionResponse): "raydium" | "pumpswap" | "pumpfun" {
+  // Get account keys based on message version
+  const message = txn.transaction.message;
+  let accountKeys: string[] = [];
+  
+  if ('accountKeys' in message) {
+    // Legacy message
+    accountKeys = (message as any).accountKeys.map((key: any) => key.toString());
+  } else if ('staticAccountKeys' in message) {
+    // Versioned message
+    accountKeys = (message as any).staticAccountKeys.map((key: any) => key.toString());
+  }
+  
+  const accountStrings = accountKeys;
+  
+  if (accountStrings.includes(RAYDIUM_AMM_V4) || accountStrings.includes(RAYDIUM_CPMM)) {
+    return "raydium";
+  } else if (accountStrings.includes(PUMP_SWAP_AMM)) {
+    return "pumpswap";
+  } else {
+    return "pumpfun";
+  }
+}
+
+/**
+ * Standalone runner: opens the three streams on its own client. The
+ * monitor runtime hosts them as the graduation-* plugins instead.
+ */
 class GraduationMonitor {
   private client: Client;
   private streams: Set<any> = new Set();
-  private txFormatter: TransactionFormatter;
-  private pumpParser: SolanaParser;
-  private eventParser: SolanaEventParser;
 
   constructor() {
     this.client = new Client(
@@ -70,24 +401,6 @@ class GraduationMonitor {
       process.env.X_TOKEN,
       undefined
     );
-    
-    this.txFormatter = new TransactionFormatter();
-    
-    // Load IDLs
-    const pumpIdlPath = path.join(__dirname, "idls", "pump_0.1.0.json");
-    if (fs.existsSync(pumpIdlPath)) {
-      const pumpIdl = JSON.parse(fs.readFileSync(pumpIdlPath, "utf8"));
-      this.pumpParser = new SolanaParser([]);
-      this.pumpParser.addParserFromIdl(PUMP_PROGRAM_ID, pumpIdl as Idl);
-      
-      this.eventParser = new SolanaEventParser([], console);
-      this.eventParser.addParserFromIdl(PUMP_PROGRAM_ID, pumpIdl as Idl);
-    } else {
-      // Initialize empty parsers if IDL not found
-      this.pumpParser = new SolanaParser([]);
-      this.eventParser = new SolanaEventParser([], console);
-      console.warn("⚠️  Pump.fun IDL not found, some features may be limited");
-    }
   }
 
   async start() {
@@ -102,112 +415,15 @@ class GraduationMonitor {
     console.log("🏊 Target AMMs: Raydium V4, Raydium CPMM, PumpSwap");
     console.log("=".repeat(80) + "\n");
     
-    // Periodic cleanup of seen pools cache (every 2 hours)
-    setInterval(() => {
-      const oldSize = seenPools.size;
-      seenPools.clear();
-      seenBondingCurves.clear();
-      console.log(`\n🧹 Cleared cache (was tracking ${oldSize} pools)\n`);
-    }, 2 * 60 * 60 * 1000);
-    
     // Start monitoring streams in parallel
     await Promise.all([
-      this.monitorBondingCurveCompletion(),
-      this.monitorMigrationTransactions(),
-      this.monitorRaydiumPools(),
+      this.subscribe(GRADUATION_CURVE_REQUEST, processGraduationCurveUpdate),
+      this.subscribe(GRADUATION_MIGRATION_REQUEST, processGraduationMigrationUpdate),
+      this.subscribe(GRADUATION_RAYDIUM_POOL_REQUEST, processGraduationRaydiumPoolUpdate),
       // Add PumpSwap monitoring when available
     ]);
   }
 
-  private async monitorBondingCurveCompletion() {
-    const req: SubscribeRequest = {
-      slots: {},
-      accounts: {
-        pumpfun: {
-          account: [],
-          filters: [
-            {
-              memcmp: {
-                offset: bondingCurveStructure.offsetOf('complete').toString(),
-                bytes: Uint8Array.from([1]) // Filter for complete = true
-              }
-            }
-          ],
-          owner: [PUMP_PROGRAM_ID]
-        }
-      },
-      transactions: {},
-      blocks: {},
-      blocksMeta: {},
-      accountsDataSlice: [],
-      commitment: CommitmentLevel.PROCESSED,
-      entry: {},
-      transactionsStatus: {}
-    };
-
-    await this.subscribe(req, this.handleBondingCurveCompletion.bind(this));
-  }
-
-  private async monitorMigrationTransactions() {
-    const req: SubscribeRequest = {
-      accounts: {},
-      slots: {},
-      transactions: {
-        migration: {
-          vote: false,
-          failed: false,
-          signature: undefined,
-          accountInclude: [MIGRATION_ACCOUNT],
-          accountExclude: [],
-          accountRequired: []
-        }
-      },
-      transactionsStatus: {},
-      entry: {},
-      blocks: {},
-      blocksMeta: {},
-      accountsDataSlice: [],
-      commitment: CommitmentLevel.CONFIRMED
-    };
-
-    await this.subscribe(req, this.handleMigrationTransaction.bind(this));
-  }
-
-  private async monitorRaydiumPools() {
-    const req: SubscribeRequest = {
-      slots: {},
-      accounts: {
-        raydium: {
-          account: [],
-          filters: [
-            {
-              memcmp: {
-                offset: LIQUIDITY_STATE_LAYOUT_V4.offsetOf('quoteMint').toString(),
-                base58: "So11111111111111111111111111111111111111112"
-              }
-            },
-            {
-              memcmp: {
-                offset: LIQUIDITY_STATE_LAYOUT_V4.offsetOf('marketProgramId').toString(),
-                base58: "srmqPvymJeFKQ4zGQed1GFppgkRHL9kaELCbyksJtPX"
-              }
-            }
-          ],
-          owner: [RAYDIUM_AMM_V4]
-        }
-      },
-      transactions: {},
-      blocks: {},
-      blocksMeta: {},
-      accountsDataSlice: [],
-      commitment: CommitmentLevel.PROCESSED,
-      entry: {},
-      transactionsStatus: {}
-    };
-
-    await this.subscribe(req, this.handleRaydiumPoolCreation.bind(this));
-  }
-
   private async subscribe(req: SubscribeRequest, handler: (data: any) => void) {
     while (true) {
       try {
@@ -255,344 +471,6 @@ class GraduationMonitor {
     this.streams.delete(stream);
   }
 
-  private async handleBondingCurveCompletion(data: any) {
-    if (!data?.account) return;
-
-    try {
-      const bondingCurveAddress = bs58.encode(data.account.account.pubkey);
-      
-      // Skip if we've already seen this bonding curve
-      if (seenBondingCurves.has(bondingCurveAddress)) {
-        return;
-      }
-      seenBondingCurves.add(bondingCurveAddress);
-
-      // Decode bonding curve data
-      const bondingCurveData = bondingCurveStructure.decode(
-        Buffer.from(data.account.account.data, "base64")
-      );
-
-      if (bondingCurveData.complete) {
-        // Get token mint from bonding curve account
-        // In Pump.fun, the bonding curve PDA is derived from the token mint
-        // We need to extract the mint from the account data or use a reverse lookup
-        
-        // For now, we'll wait for the migration transaction to get the full details
-        console.log("\n" + "✅".repeat(40));
-        console.log("✅ BONDING CURVE COMPLETED!");
-        console.log("─".repeat(80));
-        console.log(`⏰ Time: ${new Date().toLocaleString()}`);
-        console.log(`📊 Bonding Curve: ${bondingCurveAddress}`);
-        console.log(`💧 Final SOL Reserves: ${(Number(bondingCurveData.virtualSolReserves) / 1e9).toFixed(4)} SOL`);
-        console.log(`🪙 Final Token Reserves: ${(Number(bondingCurveData.virtualTokenReserves) / 1e6).toFixed(0)}`);
-        console.log(`✨ Status: READY FOR GRADUATION`);
-        console.log("✅".repeat(40) + "\n");
-
-        // Update database - mark bonding curve as 100% complete
-        try {
-          const pool = await monitorService.getPoolByAddress(bondingCurveAddress);
-          if (pool) {
-            await monitorService.updatePoolProgress(pool.id, 100.00);
-            await monitorService.updatePoolStatus(pool.id, 'graduated');
-            
-            // Mark token as graduated
-            if (pool.token_id) {
-              await monitorService.markTokenAsGraduated(pool.token_id, null);
-            }
-          }
-        } catch (error) {
-          console.error("Error updating database:", error);
-        }
-      }
-    } catch (error) {
-      console.error("Error processing bonding curve account:", error);
-    }
-  }
-
-  private async handleMigrationTransaction(data: any) {
-    if (!data?.transaction) return;
-
-    try {
-      const txn = this.txFormatter.formTransactionFromJson(data.transaction, Date.now());
-      const signature = txn.transaction.signatures[0];
-
-      // Parse transaction to look for graduation details
-      const parsedIxs = await this.parseTransaction(txn);
-      if (!parsedIxs || parsedIxs.length === 0) return;
-
-      // Extract token mint and bonding curve from transaction
-      const tokenMint = await this.extractTokenMintFromTx(txn, parsedIxs);
-      const bondingCurve = await this.extractBondingCurveFromTx(txn, parsedIxs);
-      
-      if (!tokenMint) return;
-
-      // Determine target AMM
-      const targetAmm = this.determineTargetAmm(txn);
-      
-      const event: GraduationEvent = {
-        tokenMint,
-        bondingCurve: bondingCurve || "",
-        bondingCurveComplete: true,
-        graduationTx: signature,
-        targetAmm,
-        timestamp: Date.now()
-      };
-
-      graduationTracker.set(tokenMint, event);
-      if (bondingCurve) {
-        bondingCurveToMint.set(bondingCurve, tokenMint);
-      }
-
-      console.log("\n" + "🎉".repeat(40));
-      console.log("🎓 GRADUATION TRANSACTION DETECTED!");
-      console.log("─".repeat(80));
-      console.log(`⏰ Time: ${new Date().toLocaleString()}`);
-      console.log(`🪙 Token Mint: ${tokenMint}`);
-      console.log(`📊 Bonding Curve: ${bondingCurve || 'N/A'}`);
-      console.log(`📝 Transaction: https://solscan.io/tx/${signature}`);
-      console.log(`🎯 Target AMM: ${targetAmm.toUpperCase()}`);
-      console.log(`🔗 Pump.fun: https://pump.fun/coin/${tokenMint}`);
-      console.log("🎉".repeat(40) + "\n");
-
-      // Update database
-      try {
-        const token = await monitorService.getTokenByMint(tokenMint);
-        if (token) {
-          await monitorService.markTokenAsGraduated(token.id, signature);
-          
-          // Update pool status if we have the bonding curve
-          if (bondingCurve) {
-            const pool = await monitorService.getPoolByAddress(bondingCurve);
-            if (pool) {
-              await monitorService.updatePoolStatus(pool.id, 'graduated');
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Error updating database:", error);
-      }
-    } catch (error) {
-      // Suppress parsing errors
-    }
-  }
-
-  private handleRaydiumPoolCreation(data: any) {
-    if (!data?.account) return;
-
-    try {
-      const poolInfo = LIQUIDITY_STATE_LAYOUT_V4.decode(
-        Buffer.from(data.account.account.data, "base64")
-      );
-
-      const poolAddress = bs58.encode(data.account.account.pubkey);
-      const baseMint = poolInfo.baseMint.toString();
-      const quoteMint = poolInfo.quoteMint.toString();
-      const openTime = poolInfo.poolOpenTime.toNumber() * 1000;
-      
-      // Skip if we've already seen this pool
-      if (seenPools.has(poolAddress)) {
-        return;
-      }
-
-      // Check if pool is already open (filter out future pools)
-      if (openTime > Date.now()) {
-        return; // Skip future pools silently
-      }
-      
-      // Filter out old pools (only show pools created in the last hour)
-      const poolAge = Date.now() - openTime;
-      if (poolAge > POOL_CACHE_DURATION) {
-        return; // Skip old pools silently
-      }
-
-      // Mark this pool as seen
-      seenPools.add(poolAddress);
-
-      // Check if this is a graduated pump.fun token
-      const event = graduationTracker.get(baseMint);
-      if (event) {
-        event.poolAddress = poolAddress;
-        graduationTracker.set(baseMint, event);
-
-        console.log("\n" + "🏊".repeat(40));
-        console.log("🏊 RAYDIUM POOL CREATED FOR GRADUATED TOKEN!");
-        console.log("─".repeat(80));
-        console.log(`⏰ Time: ${new Date().toLocaleString()}`);
-        console.log(`🪙 Token Mint: ${baseMint}`);
-        console.log(`💧 Pool Address: ${poolAddress}`);
-        console.log(`💱 Pair: ${baseMint} / SOL`);
-        console.log(`📅 Pool Open Time: ${new Date(openTime).toLocaleString()}`);
-        console.log(`🔗 Raydium: https://raydium.io/swap/?inputCurrency=sol&outputCurrency=${baseMint}`);
-        console.log("─".repeat(80));
-        console.log(`✅ GRADUATION COMPLETE!`);
-        console.log(`⏱️  Total Time: ${((Date.now() - event.timestamp) / 1000).toFixed(2)}s`);
-        console.log("🏊".repeat(40) + "\n");
-
-        // Create new pool in database for the graduated token
-        this.createGraduatedPool(baseMint, poolAddress, 'raydium', poolInfo);
-      } else {
-        // New pool for non-graduated token
-        const ageMinutes = Math.floor(poolAge / 60000);
-        console.log(`\n🏊 New Raydium Pool Created (${ageMinutes}m ago)`);
-        console.log(`   Token Mint: ${baseMint}`);
-        console.log(`   Pool Address: ${poolAddress}`);
-        console.log(`   Quote: SOL`);
-        console.log(`   Open Time: ${new Date(openTime).toLocaleString()}`);
-      }
-    } catch (error) {
-      // Not a valid Raydium pool account
-    }
-  }
-
-  private async createGraduatedPool(tokenMint: string, poolAddress: string, platform: string, poolInfo: any) {
-    try {
-      const token = await monitorService.getTokenByMint(tokenMint);
-      if (!token) {
-        console.error(`Token not found for mint: ${tokenMint}`);
-        return;
-      }
-
-      // Create a new pool entry for the graduated token
-      await monitorService.savePool({
-        pool_address: poolAddress,
-        token_id: token.id,
-        platform: platform === 'raydium' ? 'raydium' : 'pumpswap',
-        creation_signature: poolAddress,
-        creation_timestamp: new Date(),
-        metadata: {
-          virtual_sol_reserves: poolInfo.lpReserve?.toString() || '0',
-          virtual_token_reserves: poolInfo.pcReserve?.toString() || '0',
-          real_sol_reserves: poolInfo.lpReserve?.toString() || '0',
-          real_token_reserves: poolInfo.pcReserve?.toString() || '0',
-          bonding_curve_progress: null,
-          status: 'active',
-          latest_price: '0',
-          latest_price_usd: '0',
-        }
-      });
-
-      console.log(`✅ Created graduated pool entry for ${tokenMint} on ${platform}`);
-    } catch (error) {
-      console.error("Error creating graduated pool:", error);
-    }
-  }
-
-  private async parseTransaction(tx: VersionedTransactionResponse): Promise<any[] | null> {
-    if (tx.meta?.err) return null;
-    
-    try {
-      // Try to parse with our parser
-      const parsedIxs = this.pumpParser.parseTransactionData(
-        tx.transaction.message,
-        tx.meta?.loadedAddresses || undefined
-      );
-
-      return parsedIxs;
-    } catch (err) {
-      // If parsing fails, return empty array
-      return [];
-    }
-  }
-
-  private determineTargetAmm(txn: VersionedTransactionResponse): "raydium" | "pumpswap" | "pumpfun" {
-    // Get account keys based on message version
-    const message = txn.transaction.message;
-    let accountKeys: string[] = [];
-    
-    if ('accountKeys' in message) {
-      // Legacy message
-      accountKeys = (message as any).accountKeys.map((key: any) => key.toString());
-    } else if ('staticAccountKeys' in message) {
-      // Versioned message
-      accountKeys = (message as any).staticAccountKeys.map((key: any) => key.toString());
-    }
-    
-    const accountStrings = accountKeys;
-    
-    if (accountStrings.includes(RAYDIUM_AMM_V4) || accountStrings.includes(RAYDIUM_CPMM)) {
-      return "raydium";
-    } else if (accountStrings.includes(PUMP_SWAP_AMM)) {
-      return "pumpswap";
-    } else {
-      return "pumpfun";
-    }
-  }
-
-  private async extractTokenMintFromTx(txn: VersionedTransactionResponse, parsedIxs: any[]): Promise<string | null> {
-    try {
-      // Look for token mint in parsed instructions
-      for (const ix of parsedIxs) {
-        if (ix.args?.mint) {
-          return ix.args.mint.toString();
-        }
-        // Check accounts for mint
-        const mintAccount = ix.accounts?.find((acc: any) => 
-          acc.name === "mint" || acc.name === "tokenMint" || acc.name === "baseMint"
-        );
-        if (mintAccount?.pubkey) {
-          return mintAccount.pubkey.toString();
-        }
-      }
-
-      // Fallback: check transaction accounts
-      const message = txn.transaction.message;
-      let accounts: any[] = [];
-      
-      if ('accountKeys' in message) {
-        accounts = (message as any).accountKeys;
-      } else if ('staticAccountKeys' in message) {
-        accounts = (message as any).staticAccountKeys;
-      }
-      
-      if (accounts.length > 5) {
-        // Skip common program IDs and look for potential mint
-        for (let i = 0; i < Math.min(10, accounts.length); i++) {
-          const account = accounts[i].toString();
-          if (!this.isSystemProgram(account)) {
-            return account;
-          }
-        }
-      }
-
-      return null;
-    } catch (error) {
-      return null;
-    }
-  }
-
-  private async extractBondingCurveFromTx(txn: VersionedTransactionResponse, parsedIxs: any[]): Promise<string | null> {
-    try {
-      // Look for bonding curve in parsed instructions
-      for (const ix of parsedIxs) {
-        const bondingCurveAccount = ix.accounts?.find((acc: any) => 
-          acc.name === "bondingCurve" || acc.name === "globalAccount"
-        );
-        if (bondingCurveAccount?.pubkey) {
-          return bondingCurveAccount.pubkey.toString();
-        }
-      }
-
-      return null;
-    } catch (error) {
-      return null;
-    }
-  }
-
-  private isSystemProgram(address: string): boolean {
-    const systemPrograms = [
-      "11111111111111111111111111111111",
-      "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
-      "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL",
-      "SysvarRent111111111111111111111111111111111",
-      PUMP_PROGRAM_ID,
-      MIGRATION_ACCOUNT,
-      RAYDIUM_AMM_V4,
-      RAYDIUM_CPMM,
-      PUMP_SWAP_AMM
-    ];
-    return systemPrograms.includes(address);
-  }
-
   async stop() {
     console.log("Stopping Graduation Monitor...");
     for (const stream of this.streams) {
@@ -1,4 +1,4 @@
-import { OptimizedHolderAnalysisService } from '../services/holder-analysis/holder-analysis-service-optimized';
+import { HolderAnalysisPipeline, createHolderAnalysisPipeline } from '../services/holder-analysis/pipeline';
 import { getDbPool } from '../database/connection';
 import chalk from 'chalk';
 
@@ -34,7 +34,7 @@ interface MonitorConfig {
  * - Critical (400+ combined): Every 30 seconds
  */
 export class UltraFastHolderMonitor {
-  private analysisService: OptimizedHolderAnalysisService;
+  private analysisService: HolderAnalysisPipeline;
   private dbPool: any;
   private isRunning = false;
   private config: MonitorConfig;
@@ -58,7 +58,7 @@ export class UltraFastHolderMonitor {
   private lastAnalysisTime = new Map<string, number>();
   
   constructor(config?: Partial<MonitorConfig>) {
-    this.analysisService = new OptimizedHolderAnalysisService();
+    this.analysisService = createHolderAnalysisPipeline('optimized');
     this.dbPool = getDbPool();
     
     this.config = {
@@ -505,7 +505,7 @@ export class UltraFastHolderMonitor {
     const analysisRate = runtime > 0 ? (this.analysisStats.total / runtime * 60).toFixed(1) : '0';
     
     // Get cache stats
-    const cacheStats = await this.analysisService.getCacheStats();
+    const cacheStats = this.analysisService.getCacheStats();
     
     console.log(chalk.cyan('\n📊 REAL-TIME STATS'));
     console.log(chalk.gray('━'.repeat(60)));
@@ -515,7 +515,7 @@ export class UltraFastHolderMonitor {
     console.log(chalk.yellow(`⚡ Critical: ${this.analysisStats.critical} analyzed | ${queueStats.critical} queued`));
     console.log(chalk.cyan(`📈 Standard: ${this.analysisStats.standard} analyzed`));
     console.log(chalk.green(`✅ Total: ${this.analysisStats.total} tokens analyzed`));
-    console.log(chalk.gray(`💾 Cache: ${(cacheStats.hitRate * 100).toFixed(1)}% hit rate | ${cacheStats.sizes.hot + cacheStats.sizes.warm + cacheStats.sizes.cold + cacheStats.sizes.permanent} entries`));
+    console.log(chalk.gray(`💾 Cache: ${(cacheStats.hitRate * 100).toFixed(1)}% hit rate | ${cacheStats.entries} entries`));
     
     // Display top ultra-critical tokens
     if (this.ultraCriticalQueue.length > 0) {
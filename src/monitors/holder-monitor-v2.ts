@@ -1,4 +1,4 @@
-import { HolderAnalysisService, AnalysisResult } from '../services/holder-analysis/holder-analysis-service';
+import { HolderAnalysisPipeline, AnalysisResult, createHolderAnalysisPipeline } from '../services/holder-analysis/pipeline';
 // import { CreditTracker } from '../services/holder-analysis/credit-tracker';
 import { getDbPool } from '../database/connection';
 import chalk from 'chalk';
@@ -22,7 +22,7 @@ interface MonitorConfig {
 }
 
 export class HolderMonitorV2 {
-  private analysisService: HolderAnalysisService;
+  private analysisService: HolderAnalysisPipeline;
   // private creditTracker: CreditTracker;
   private dbPool: any;
   private isRunning = false;
@@ -31,7 +31,7 @@ export class HolderMonitorV2 {
   private startTime: Date;
   
   constructor(config?: Partial<MonitorConfig>) {
-    this.analysisService = new HolderAnalysisService();
+    this.analysisService = createHolderAnalysisPipeline('v2');
     // this.creditTracker = CreditTracker.getInstance(10_000_000);
     this.dbPool = getDbPool();
     this.startTime = new Date();
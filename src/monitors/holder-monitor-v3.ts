@@ -1,4 +1,11 @@
-import { HolderAnalysisServiceV3, AnalysisResult, QuickScoreResult } from '../services/holder-analysis/holder-analysis-service-v3';
+import {
+  HolderAnalysisPipeline,
+  AnalysisResult,
+  QuickScoreResult,
+  QuickScorer,
+  createHolderAnalysisPipeline
+} from '../services/holder-analysis/pipeline';
+import { AnalysisPlan, CreditBudgetPlanner } from '../services/credit-budget';
 import { getDbPool } from '../database/connection';
 import { monitorService } from '../database';
 import chalk from 'chalk';
@@ -15,7 +22,7 @@ interface Token {
 
 interface MonitorConfig {
   intervalMs: number;
-  batchSize: number;
+  batchSize: number;          // most analyses the credit budget may schedule per cycle
   maxConcurrent: number;
   minProgress: number;
   maxProgress: number;
@@ -30,8 +37,14 @@ interface PriorityToken {
   timestamp: number;
 }
 
+// A flagged token the budget has not picked by then is dropped
+const PRIORITY_TTL_MS = 300000;
+
 export class HolderMonitorV3 extends EventEmitter {
-  private analysisService: HolderAnalysisServiceV3;
+  private analysisService: HolderAnalysisPipeline;
+  private quickScorer: QuickScorer;
+  private budgetPlanner: CreditBudgetPlanner;
+  private lastPlan: AnalysisPlan | null = null;
   private dbPool: any;
   private isRunning = false;
   private config: MonitorConfig;
@@ -42,7 +55,8 @@ export class HolderMonitorV3 extends EventEmitter {
   
   constructor(config?: Partial<MonitorConfig>) {
     super();
-    this.analysisService = new HolderAnalysisServiceV3();
+    this.analysisService = createHolderAnalysisPipeline('v3');
+    this.quickScorer = new QuickScorer();
     this.dbPool = getDbPool();
     this.startTime = new Date();
     
@@ -58,6 +72,12 @@ export class HolderMonitorV3 extends EventEmitter {
       ...config
     };
     
+    this.budgetPlanner = new CreditBudgetPlanner({
+      maxAnalysesPerCycle: this.config.batchSize,
+      minProgress: this.config.minProgress,
+      maxProgress: this.config.maxProgress
+    });
+    
     // Subscribe to transaction events
     this.subscribeToEvents();
   }
@@ -184,6 +204,12 @@ export class HolderMonitorV3 extends EventEmitter {
     console.log(chalk.gray(`  • Progress Range: ${this.config.minProgress}-${this.config.maxProgress}%`));
     console.log(chalk.gray(`  • Priority Threshold: ${this.config.priorityThreshold} SOL`));
     console.log(chalk.gray(`  • Technical Threshold: ${this.config.technicalScoreThreshold}`));
+    
+    const budget = await this.budgetPlanner.getBudget();
+    console.log(chalk.gray(
+      `  • Credit Budget: ${Math.round(budget.hourlyAllowance)}/hour, ` +
+      `${Math.round(budget.spendable).toLocaleString()} left this month`
+    ));
     console.log(chalk.gray('━'.repeat(50)));
     
     // Initial stats display
@@ -213,23 +239,50 @@ export class HolderMonitorV3 extends EventEmitter {
   }
   
   private async runAnalysisCycle(): Promise<void> {
-    // Process priority queue first
-    if (this.priorityQueue.size > 0) {
-      await this.processPriorityQueue();
+    // Flagged tokens compete for the same credits, with their gain boosted
+    const boosts = await this.collectPriorityBoosts();
+    
+    const plan = await this.budgetPlanner.plan(boosts);
+    this.lastPlan = plan;
+    
+    for (const candidate of plan.selected) {
+      this.priorityQueue.delete(candidate.mintAddress);
+      this.lastAnalysis.set(candidate.mintAddress, Date.now());
     }
     
-    // Then get regular tokens for analysis
-    const tokens = await this.getTokensForAnalysis();
-    if (tokens.length === 0) {
+    if (plan.selected.length === 0) {
+      if (plan.deferred > 0) {
+        console.log(chalk.gray(`💳 ${plan.deferred} tokens waiting for credits (${Math.round(plan.bank)} available)`));
+      }
       return;
     }
     
-    console.log(chalk.blue(`\n📊 Analyzing ${tokens.length} tokens...`));
+    console.log(chalk.blue(
+      `\n📊 Analyzing ${plan.selected.length} of ${plan.candidates} tokens ` +
+      `(~${plan.plannedCredits} of ${Math.round(plan.bank)} credits available)...`
+    ));
+    
+    const tokens: Token[] = plan.selected.map(c => ({
+      id: c.tokenId,
+      mint_address: c.mintAddress,
+      symbol: c.symbol || '',
+      bonding_curve_progress: c.bondingCurveProgress,
+      last_analyzed: c.lastAnalyzedAt || undefined,
+      priority_score: c.expectedGain
+    }));
     
     // Analyze tokens with concurrency control
     const results = await this.batchAnalyze(tokens, this.config.maxConcurrent);
     
-    // Process results
+    // Process results; an analysis that failed is assumed to have cost its estimate
+    let spentCredits = 0;
+    results.forEach((result, i) => {
+      spentCredits += result.status === 'fulfilled' && result.value
+        ? result.value.apiCreditsUsed
+        : plan.selected[i].estimatedCredits;
+    });
+    await this.budgetPlanner.settle(plan, spentCredits);
+    
     for (const result of results) {
       if (result.status === 'fulfilled' && result.value) {
         await this.processResult(result.value);
@@ -243,85 +296,43 @@ export class HolderMonitorV3 extends EventEmitter {
     }
   }
   
-  private async processPriorityQueue(): Promise<void> {
-    // Sort by priority and take top N
-    const sorted = Array.from(this.priorityQueue.values())
-      .sort((a, b) => b.priority - a.priority)
-      .slice(0, this.config.maxConcurrent);
+  /**
+   * Priorities of queued tokens whose quick score warrants a deep
+   * analysis. The rest leave the queue, as do tokens the budget has not
+   * picked within PRIORITY_TTL_MS.
+   */
+  private async collectPriorityBoosts(): Promise<Map<string, number>> {
+    const boosts = new Map<string, number>();
     
-    console.log(chalk.yellow(`\n⚡ Processing ${sorted.length} priority tokens...`));
-    
-    for (const item of sorted) {
+    for (const item of Array.from(this.priorityQueue.values())) {
+      if (Date.now() - item.timestamp > PRIORITY_TTL_MS) {
+        this.priorityQueue.delete(item.mint);
+        continue;
+      }
+      
       try {
-        // Quick score first
-        const quickScore = await this.analysisService.getQuickScore(item.mint);
+        const quickScore = await this.quickScorer.getQuickScore(item.mint);
         
         if (quickScore) {
           console.log(chalk.cyan(
             `  Quick score for ${item.mint}: ${quickScore.score}/50 ` +
             `(confidence: ${quickScore.confidence})`
           ));
-          
-          // Deep analysis if warranted
-          if (quickScore.shouldDeepAnalyze) {
-            const bondingProgress = await this.getBondingProgress(item.mint);
-            if (bondingProgress) {
-              const result = await this.analysisService.analyzeToken(item.mint, bondingProgress);
-              if (result) {
-                await this.processResult(result);
-              }
-            }
-          }
         }
         
-        // Remove from queue and update last analysis time
-        this.priorityQueue.delete(item.mint);
-        this.lastAnalysis.set(item.mint, Date.now());
+        if (quickScore?.shouldDeepAnalyze) {
+          boosts.set(item.mint, item.priority);
+        } else {
+          this.priorityQueue.delete(item.mint);
+          this.lastAnalysis.set(item.mint, Date.now());
+        }
         
       } catch (error) {
-        console.error(chalk.red(`Error analyzing priority token ${item.mint}:`), error);
+        console.error(chalk.red(`Error scoring priority token ${item.mint}:`), error);
       }
     }
-  }
-  
-  private async getBondingProgress(mint: string): Promise<number | null> {
-    try {
-      const result = await this.dbPool.query(`
-        SELECT p.bonding_curve_progress
-        FROM pools p
-        JOIN tokens t ON p.token_id = t.id
-        WHERE t.mint_address = $1
-        LIMIT 1
-      `, [mint]);
-      
-      return result.rows[0]?.bonding_curve_progress || null;
-    } catch (error) {
-      console.error('Error fetching bonding progress:', error);
-      return null;
-    }
-  }
-  
-  private async getTokensForAnalysis(): Promise<Token[]> {
-    try {
-      // Use the database function to get prioritized tokens
-      const result = await this.dbPool.query(
-        'SELECT * FROM get_tokens_for_holder_analysis($1)',
-        [this.config.batchSize]
-      );
-      
-      return result.rows.map((row: any) => ({
-        id: row.token_id,
-        mint_address: row.mint_address,
-        symbol: row.symbol,
-        bonding_curve_progress: parseFloat(row.bonding_curve_progress),
-        last_analyzed: row.last_analyzed,
-        priority_score: row.priority_score
-      }));
-      
-    } catch (error) {
-      console.error(chalk.red('Error getting tokens for analysis:'), error);
-      return [];
-    }
+    
+    return boosts;
   }
   
   private async batchAnalyze(tokens: Token[], concurrency: number): Promise<PromiseSettledResult<AnalysisResult | null>[]> {
@@ -389,6 +400,11 @@ export class HolderMonitorV3 extends EventEmitter {
     console.log(chalk.cyan('📊 Monitor Statistics:'));
     console.log(chalk.gray(`  • Analyses completed: ${this.analysisCount}`));
     console.log(chalk.gray(`  • Priority queue size: ${this.priorityQueue.size}`));
+    if (this.lastPlan) {
+      const { budget } = this.lastPlan;
+      console.log(chalk.gray(`  • Credits used: ${budget.usedToday.toLocaleString()} today, ${budget.usedThisMonth.toLocaleString()} this month`));
+      console.log(chalk.gray(`  • Credits left today: ${Math.round(budget.todayAllowance).toLocaleString()}`));
+    }
     console.log(chalk.gray(`  • Runtime: ${hours}h ${minutes}m`));
     console.log(chalk.gray('─'.repeat(50) + '\n'));
   }
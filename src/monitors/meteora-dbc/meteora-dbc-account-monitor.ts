@@ -0,0 +1,204 @@
+import "dotenv/config";
+import Client, {
+  CommitmentLevel,
+  SubscribeRequest,
+} from "@triton-one/yellowstone-grpc";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { BorshAccountsCoder, Idl, utils } from "@coral-xyz/anchor";
+import { bnLayoutFormatter } from "../decoder/bn-layout-formatter";
+import meteoraDbcIdl from "./idls/dynamic_bonding_curve.json";
+import { monitorService, PoolOperations } from "../../database";
+import {
+  METEORA_DBC_PROGRAM_ID,
+  WSOL_MINT,
+  calculateCurveProgress,
+  sqrtPriceToPrice
+} from "./utils/meteora-dbc-math";
+
+// Keeps Meteora DBC pools current from VirtualPool account updates:
+// reserves, spot price and progress toward the config's migration
+// quote threshold. PoolConfig accounts are cached as they stream by
+// and fetched over RPC the first time a pool references an unseen one.
+
+interface DbcConfig {
+  quoteMint: string;
+  tokenDecimals: number;
+  migrationQuoteThreshold: string;
+}
+
+const coder = new BorshAccountsCoder(meteoraDbcIdl as Idl);
+const poolOperations = new PoolOperations();
+const configCache = new Map<string, DbcConfig>();
+
+const connection = new Connection(
+  process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+  "confirmed"
+);
+
+function toConfig(decoded: any): DbcConfig {
+  return {
+    quoteMint: decoded.quote_mint,
+    tokenDecimals: Number(decoded.token_decimal),
+    migrationQuoteThreshold: decoded.migration_quote_threshold
+  };
+}
+
+function decodeAccount(name: "VirtualPool" | "PoolConfig", data: Buffer): any | null {
+  if (!data.subarray(0, 8).equals(coder.accountDiscriminator(name))) return null;
+  const decoded = coder.decode(name, data);
+  bnLayoutFormatter(decoded, { bigNumbersAsStrings: true });
+  return decoded;
+}
+
+async function getConfig(address: string): Promise<DbcConfig | null> {
+  const cached = configCache.get(address);
+  if (cached) return cached;
+
+  try {
+    const account = await connection.getAccountInfo(new PublicKey(address));
+    const decoded = account && decodeAccount("PoolConfig", account.data);
+    if (!decoded) return null;
+
+    const config = toConfig(decoded);
+    configCache.set(address, config);
+    return config;
+  } catch (error) {
+    console.error(`❌ Failed to fetch Meteora DBC config ${address}:`, error);
+    return null;
+  }
+}
+
+export async function processMeteoraDbcAccountUpdate(data: any): Promise<void> {
+  const account = data?.account?.account;
+  if (!account?.data) return;
+
+  try {
+    const address = utils.bytes.bs58.encode(account.pubkey);
+    const accountData = Buffer.from(account.data);
+
+    const config = decodeAccount("PoolConfig", accountData);
+    if (config) {
+      configCache.set(address, toConfig(config));
+      return;
+    }
+
+    const pool = decodeAccount("VirtualPool", accountData);
+    if (pool) {
+      await savePoolState(address, pool.pool_state);
+    }
+  } catch (error) {
+    console.error("❌ Error processing Meteora DBC account:", error);
+  }
+}
+
+async function savePoolState(poolAddress: string, state: any) {
+  const config = await getConfig(state.config);
+  if (!config) return;
+
+  const existing = await monitorService.getPoolByAddress(poolAddress);
+  if (!existing) return; // Pools are created by the mint monitor
+
+  const progress = calculateCurveProgress(state.quote_reserve, config.migrationQuoteThreshold);
+  const update: Parameters<PoolOperations["updatePoolReserves"]>[1] = {
+    real_sol_reserves: state.quote_reserve,
+    real_token_reserves: state.base_reserve,
+    bonding_curve_progress: Number(progress.toFixed(2))
+  };
+
+  if (config.quoteMint === WSOL_MINT) {
+    const price = sqrtPriceToPrice(state.sqrt_price, config.tokenDecimals);
+    update.latest_price = price.toFixed(20).replace(/0+$/, "");
+
+    const solPrice = await monitorService.getLatestSolPrice();
+    if (solPrice) {
+      update.latest_price_usd = (price * solPrice).toFixed(20).replace(/0+$/, "");
+    }
+  }
+
+  await poolOperations.updatePoolReserves(poolAddress, update);
+
+  if (Number(state.is_migrated) === 1) {
+    await poolOperations.updatePoolStatus(poolAddress, "graduated");
+  }
+
+  console.log(`💾 Meteora DBC pool ${poolAddress}: ${progress.toFixed(2)}% of migration threshold`);
+}
+
+async function handleStream(client: Client, args: SubscribeRequest) {
+  console.log("Starting Meteora DBC Account Monitor...");
+  const stream = await client.subscribe();
+
+  const streamClosed = new Promise<void>((resolve, reject) => {
+    stream.on("error", (error) => {
+      console.log("ERROR", error);
+      reject(error);
+      stream.end();
+    });
+    stream.on("end", () => {
+      resolve();
+    });
+    stream.on("close", () => {
+      resolve();
+    });
+  });
+
+  stream.on("data", processMeteoraDbcAccountUpdate);
+
+  await new Promise<void>((resolve, reject) => {
+    stream.write(args, (err: any) => {
+      if (err === null || err === undefined) {
+        resolve();
+      } else {
+        reject(err);
+      }
+    });
+  }).catch((reason) => {
+    console.error(reason);
+    throw reason;
+  });
+
+  await streamClosed;
+}
+
+async function subscribeCommand(client: Client, args: SubscribeRequest) {
+  while (true) {
+    try {
+      await handleStream(client, args);
+    } catch (error) {
+      console.error("Stream error, restarting in 1 second...", error);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+}
+
+export const METEORA_DBC_ACCOUNT_REQUEST: SubscribeRequest = {
+  "slots": {},
+  "accounts": {
+    "meteora_dbc": {
+      "account": [],
+      "filters": [],
+      "owner": [METEORA_DBC_PROGRAM_ID]
+    }
+  },
+  "transactions": {},
+  "blocks": {},
+  "blocksMeta": {},
+  "accountsDataSlice": [],
+  "commitment": CommitmentLevel.PROCESSED,
+  entry: {},
+  transactionsStatus: {}
+}
+
+if (require.main === module) {
+  const client = new Client(
+    process.env.GRPC_URL!,
+    process.env.X_TOKEN,
+    undefined,
+  );
+
+  console.log("Meteora DBC Account Monitor");
+  console.log(`Program ID: ${METEORA_DBC_PROGRAM_ID}`);
+  console.log("Monitoring: VirtualPool and PoolConfig accounts\n");
+
+  subscribeCommand(client, METEORA_DBC_ACCOUNT_REQUEST);
+}
@@ -0,0 +1,261 @@
+import "dotenv/config";
+import Client, {
+  CommitmentLevel,
+  SubscribeRequestAccountsDataSlice,
+  SubscribeRequestFilterAccounts,
+  SubscribeRequestFilterBlocks,
+  SubscribeRequestFilterBlocksMeta,
+  SubscribeRequestFilterEntry,
+  SubscribeRequestFilterSlots,
+  SubscribeRequestFilterTransactions,
+} from "@triton-one/yellowstone-grpc";
+import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import { IdlDecoder, DecodedInstruction, findAccount, findEvent } from "../decoder/idl-decoder";
+import { getProgramIdl } from "../decoder/idl-registry";
+import { monitorService } from "../../database";
+import { streamNow } from "../runtime/stream-clock";
+import { METEORA_DBC_PROGRAM_ID, WSOL_MINT, getMintDecimals } from "./utils/meteora-dbc-math";
+
+// Detects new Meteora Dynamic Bonding Curve launches. Name, symbol and
+// URI are instruction arguments, so no on-chain metadata lookup is needed.
+// Reserves and price are kept current by the account monitor.
+
+interface SubscribeRequest {
+  accounts: { [key: string]: SubscribeRequestFilterAccounts };
+  slots: { [key: string]: SubscribeRequestFilterSlots };
+  transactions: { [key: string]: SubscribeRequestFilterTransactions };
+  transactionsStatus: { [key: string]: SubscribeRequestFilterTransactions };
+  blocks: { [key: string]: SubscribeRequestFilterBlocks };
+  blocksMeta: { [key: string]: SubscribeRequestFilterBlocksMeta };
+  entry: { [key: string]: SubscribeRequestFilterEntry };
+  commitment?: CommitmentLevel | undefined;
+  accountsDataSlice: SubscribeRequestAccountsDataSlice[];
+  ping?: SubscribeRequestPing | undefined;
+}
+
+interface TokenMetadata {
+  name?: string;
+  symbol?: string;
+  description?: string;
+  image?: string;
+  twitter?: string;
+  telegram?: string;
+  website?: string;
+  [key: string]: any;
+}
+
+interface InitializePoolArgs {
+  params: { name: string; symbol: string; uri: string };
+}
+
+interface InitializePoolEvent {
+  pool: string;
+  config: string;
+  creator: string;
+  base_mint: string;
+  pool_type: number;
+  activation_point: string;
+}
+
+const INITIALIZE_INSTRUCTIONS = [
+  "initialize_virtual_pool_with_spl_token",
+  "initialize_virtual_pool_with_token2022",
+  "initialize_virtual_pool_with_token2022_transfer_hook"
+];
+
+const TXN_FORMATTER = new TransactionFormatter();
+const METEORA_DBC_DECODER = new IdlDecoder([getProgramIdl(METEORA_DBC_PROGRAM_ID)!], {
+  bigNumbersAsStrings: true
+});
+
+async function fetchTokenMetadata(uri: string): Promise<TokenMetadata | null> {
+  try {
+    let fetchUrl = uri.replace(/\u0000/g, "").trim();
+    if (fetchUrl.startsWith("ipfs://")) {
+      fetchUrl = fetchUrl.replace("ipfs://", "https://gateway.pinata.cloud/ipfs/");
+    }
+
+    console.log(`📡 Fetching metadata from: ${fetchUrl}`);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+    const response = await fetch(fetchUrl, { signal: controller.signal });
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      console.error(`❌ Failed to fetch metadata: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    return await response.json() as TokenMetadata;
+  } catch (error) {
+    console.error(`❌ Error fetching metadata:`, error);
+    return null;
+  }
+}
+
+export async function processMeteoraDbcMintUpdate(data: any): Promise<void> {
+  if (!data?.transaction) return;
+
+  const txn = TXN_FORMATTER.formTransactionFromJson(data.transaction, streamNow());
+  if (txn.meta?.err) return;
+
+  const decoded = METEORA_DBC_DECODER.decodeTransaction(txn);
+  const initIx = decoded.instructions.find(ix => INITIALIZE_INSTRUCTIONS.includes(ix.name)) as
+    DecodedInstruction<InitializePoolArgs> | undefined;
+  if (!initIx) return;
+
+  const initEvent = findEvent<InitializePoolEvent>(decoded, "EvtInitializePool")?.data;
+  const baseMint = findAccount(initIx, "base_mint") || initEvent?.base_mint;
+  const pool = findAccount(initIx, "pool") || initEvent?.pool;
+  if (!baseMint || !pool) {
+    console.log("Warning: base_mint or pool not found in initialize instruction");
+    return;
+  }
+
+  const quoteMint = findAccount(initIx, "quote_mint") || WSOL_MINT;
+  const creator = findAccount(initIx, "creator") || initEvent?.creator || "unknown";
+  const config = findAccount(initIx, "config") || initEvent?.config;
+  const { name, symbol, uri } = initIx.args.params;
+  const timestamp = new Date(streamNow());
+
+  const offChainMetadata = uri ? await fetchTokenMetadata(uri) : null;
+
+  console.log(
+    "[NEW METEORA DBC TOKEN]",
+    timestamp,
+    `\n📊 Token: ${symbol} (${name})`,
+    `\n🏊 Pool: ${pool}`,
+    `\n🔗 https://solscan.io/tx/${decoded.signature}\n`
+  );
+
+  try {
+    const tokenId = await monitorService.saveToken({
+      mint_address: baseMint,
+      symbol: symbol || "UNKNOWN",
+      name: name || "Unknown Token",
+      decimals: getMintDecimals(txn, baseMint) ?? 6,
+      platform: "meteora_dbc",
+      creation_signature: decoded.signature,
+      creation_timestamp: timestamp,
+      creator_address: creator,
+      metadata: {
+        uri,
+        config,
+        pool,
+        quoteMint,
+        poolType: initEvent?.pool_type,
+        activationPoint: initEvent?.activation_point,
+        offChainMetadata,
+        slot: decoded.slot
+      }
+    });
+
+    await monitorService.savePool({
+      pool_address: pool,
+      token_id: tokenId,
+      platform: "meteora_dbc",
+      creation_signature: decoded.signature,
+      creation_timestamp: timestamp,
+      creator_address: creator,
+      is_active: true,
+      metadata: {
+        config,
+        baseMint,
+        quoteMint,
+        baseVault: findAccount(initIx, "base_vault"),
+        quoteVault: findAccount(initIx, "quote_vault")
+      }
+    });
+
+    console.log(`💾 New Meteora DBC token and pool saved to database`);
+  } catch (error) {
+    console.error("Failed to save Meteora DBC token to database:", error);
+  }
+}
+
+async function handleStream(client: Client, args: SubscribeRequest) {
+  console.log("Starting Meteora DBC New Token Monitor...");
+  const stream = await client.subscribe();
+
+  const streamClosed = new Promise<void>((resolve, reject) => {
+    stream.on("error", (error) => {
+      console.log("ERROR", error);
+      reject(error);
+      stream.end();
+    });
+    stream.on("end", () => {
+      resolve();
+    });
+    stream.on("close", () => {
+      resolve();
+    });
+  });
+
+  stream.on("data", processMeteoraDbcMintUpdate);
+
+  await new Promise<void>((resolve, reject) => {
+    stream.write(args, (err: any) => {
+      if (err === null || err === undefined) {
+        resolve();
+      } else {
+        reject(err);
+      }
+    });
+  }).catch((reason) => {
+    console.error(reason);
+    throw reason;
+  });
+
+  await streamClosed;
+}
+
+async function subscribeCommand(client: Client, args: SubscribeRequest) {
+  console.log("Meteora DBC New Token Monitor");
+  console.log("=============================");
+  console.log("Program ID:", METEORA_DBC_PROGRAM_ID);
+  console.log("Monitoring for initialize_virtual_pool instructions...\n");
+
+  while (true) {
+    try {
+      await handleStream(client, args);
+    } catch (error) {
+      console.error("Stream error, restarting in 1 second...", error);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+}
+
+export const METEORA_DBC_MINT_REQUEST: SubscribeRequest = {
+  accounts: {},
+  slots: {},
+  transactions: {
+    meteoraDbc: {
+      vote: false,
+      failed: false,
+      signature: undefined,
+      accountInclude: [METEORA_DBC_PROGRAM_ID],
+      accountExclude: [],
+      accountRequired: [],
+    },
+  },
+  transactionsStatus: {},
+  entry: {},
+  blocks: {},
+  blocksMeta: {},
+  accountsDataSlice: [],
+  ping: undefined,
+  commitment: CommitmentLevel.CONFIRMED,
+};
+
+if (require.main === module) {
+  const client = new Client(
+    process.env.GRPC_URL!,
+    process.env.X_TOKEN!,
+    undefined
+  );
+
+  subscribeCommand(client, METEORA_DBC_MINT_REQUEST);
+}
@@ -0,0 +1,286 @@
+import "dotenv/config";
+import Client, {
+  CommitmentLevel,
+  SubscribeRequestAccountsDataSlice,
+  SubscribeRequestFilterAccounts,
+  SubscribeRequestFilterBlocks,
+  SubscribeRequestFilterBlocksMeta,
+  SubscribeRequestFilterEntry,
+  SubscribeRequestFilterSlots,
+  SubscribeRequestFilterTransactions,
+} from "@triton-one/yellowstone-grpc";
+import { VersionedTransactionResponse } from "@solana/web3.js";
+import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import { DecodedInstruction, DecodedTransaction, findAccount } from "../decoder/idl-decoder";
+import { monitorService } from "../../database";
+import { TransactionData } from "../../database/types";
+import { streamNow } from "../runtime/stream-clock";
+import { holderLedger } from "../../services/holder-ledger/holder-ledger";
+import {
+  METEORA_DBC_PROGRAM_ID,
+  WSOL_MINT,
+  TradeDirection,
+  getMintDecimals,
+  sqrtPriceToPrice
+} from "./utils/meteora-dbc-math";
+import { DbcSwap, METEORA_DBC_DECODER, findSwapInstruction, getSwap } from "./utils/meteora-dbc-swap-parser";
+
+interface SubscribeRequest {
+  accounts: { [key: string]: SubscribeRequestFilterAccounts };
+  slots: { [key: string]: SubscribeRequestFilterSlots };
+  transactions: { [key: string]: SubscribeRequestFilterTransactions };
+  transactionsStatus: { [key: string]: SubscribeRequestFilterTransactions };
+  blocks: { [key: string]: SubscribeRequestFilterBlocks };
+  blocksMeta: { [key: string]: SubscribeRequestFilterBlocksMeta };
+  entry: { [key: string]: SubscribeRequestFilterEntry };
+  commitment?: CommitmentLevel | undefined;
+  accountsDataSlice: SubscribeRequestAccountsDataSlice[];
+  ping?: SubscribeRequestPing | undefined;
+}
+
+const CURVE_COMPLETE_EVENTS = ["EvtCurveComplete", "EvtCurveCompleteWithTransferHook"];
+const MIGRATION_INSTRUCTIONS = ["migration_damm_v2", "migrate_meteora_damm"];
+
+const TXN_FORMATTER = new TransactionFormatter();
+
+// Transaction batching for better performance
+const transactionBatch: TransactionData[] = [];
+const BATCH_SIZE = 50;
+const BATCH_TIMEOUT = 5000; // 5 seconds
+
+let batchTimer: NodeJS.Timeout | null = null;
+
+export async function flushBatch(): Promise<void> {
+  await holderLedger.flushTransfers();
+  if (transactionBatch.length === 0) return;
+
+  const batch = [...transactionBatch];
+  transactionBatch.length = 0;
+
+  if (batchTimer) {
+    clearTimeout(batchTimer);
+    batchTimer = null;
+  }
+
+  try {
+    await monitorService.saveTransactionBatch(batch);
+    console.log(`💾 Batch of ${batch.length} Meteora DBC transactions saved`);
+  } catch (error) {
+    console.error(`❌ Failed to save batch:`, error);
+  }
+}
+
+export async function processMeteoraDbcTransactionUpdate(data: any): Promise<void> {
+  if (!data?.transaction) return;
+
+  try {
+    const txn = TXN_FORMATTER.formTransactionFromJson(data.transaction, streamNow());
+    if (txn.meta?.err) return;
+
+    const decoded = METEORA_DBC_DECODER.decodeTransaction(txn);
+    if (decoded.instructions.length === 0 && decoded.innerInstructions.length === 0) return;
+
+    const swap = getSwap(decoded);
+    if (swap) {
+      await recordSwap(txn, decoded, swap);
+    }
+
+    for (const event of decoded.events.filter(event => CURVE_COMPLETE_EVENTS.includes(event.name))) {
+      await handleCurveComplete(event.data.pool, decoded.signature);
+    }
+
+    const migrationIx = [...decoded.instructions, ...decoded.innerInstructions]
+      .find(ix => MIGRATION_INSTRUCTIONS.includes(ix.name));
+    if (migrationIx) {
+      await handleMigration(migrationIx, decoded.signature);
+    }
+  } catch (error) {
+    console.error("Error processing Meteora DBC transaction:", error);
+  }
+}
+
+async function recordSwap(txn: VersionedTransactionResponse, decoded: DecodedTransaction, swap: DbcSwap) {
+  const swapIx = findSwapInstruction(decoded, swap.pool);
+  const baseMint = findAccount(swapIx, "base_mint");
+  const quoteMint = findAccount(swapIx, "quote_mint") || WSOL_MINT;
+  if (!baseMint) {
+    console.log(`⚠️ No swap instruction found for pool ${swap.pool} in ${decoded.signature}`);
+    return;
+  }
+
+  // sol_amount columns assume SOL; pools quoted in other tokens are not stored
+  if (quoteMint !== WSOL_MINT) return;
+
+  const isBuy = swap.direction === TradeDirection.QUOTE_TO_BASE;
+  const baseDecimals = getMintDecimals(txn, baseMint) ?? 6;
+  const quoteAtoms = isBuy ? swap.inputAmount : swap.outputAmount;
+  const baseAtoms = isBuy ? swap.outputAmount : swap.inputAmount;
+
+  const solAmount = Number(quoteAtoms) / 1e9;
+  const tokenAmount = Number(baseAtoms) / Math.pow(10, baseDecimals);
+  const user = findAccount(swapIx, "payer") || txn.transaction.message.staticAccountKeys[0].toBase58();
+
+  const tx: TransactionData = {
+    signature: decoded.signature,
+    mint_address: baseMint,
+    pool_address: swap.pool,
+    block_time: new Date(decoded.blockTime ?? streamNow()),
+    slot: decoded.slot,
+    type: isBuy ? "buy" : "sell",
+    user_address: user,
+    sol_amount: solAmount.toString(),
+    token_amount: tokenAmount.toString(),
+    price_per_token: tokenAmount > 0 ? solAmount / tokenAmount : 0,
+    platform: "meteora_dbc",
+    metadata: {
+      // Fees are charged in quote or base depending on the config's collect_fee_mode
+      inputAmount: swap.inputAmount,
+      outputAmount: swap.outputAmount,
+      tradingFee: swap.tradingFee,
+      protocolFee: swap.protocolFee,
+      spotPrice: sqrtPriceToPrice(swap.nextSqrtPrice, baseDecimals),
+      quoteReserve: swap.quoteReserve,
+      migrationThreshold: swap.migrationThreshold,
+      transactionFee: txn.meta?.fee,
+      rawData: {
+        program: "meteora_dbc",
+        instructions: decoded.instructions.map(ix => ix.name)
+      }
+    }
+  };
+
+  // Token movements beyond the swap itself, for holder reconstruction;
+  // the pool authority owns the vaults
+  holderLedger.captureTrade({
+    signature: tx.signature,
+    mintAddress: baseMint,
+    trader: user,
+    type: isBuy ? "buy" : "sell",
+    tokenAmount,
+    slot: Number(decoded.slot) || null,
+    blockTime: tx.block_time,
+    excludeOwners: [swap.pool, findAccount(swapIx, "pool_authority")].filter((owner): owner is string => !!owner)
+  }, txn.meta);
+
+  transactionBatch.push(tx);
+  console.log(`${isBuy ? "🟢 BUY" : "🔴 SELL"} ${tokenAmount.toFixed(2)} tokens for ${solAmount.toFixed(4)} SOL (${decoded.signature})`);
+
+  if (transactionBatch.length >= BATCH_SIZE) {
+    await flushBatch();
+  } else if (!batchTimer) {
+    batchTimer = setTimeout(flushBatch, BATCH_TIMEOUT);
+  }
+}
+
+async function handleCurveComplete(poolAddress: string, signature: string) {
+  try {
+    const pool = await monitorService.getPoolByAddress(poolAddress);
+    if (!pool) return;
+
+    await monitorService.updatePoolProgress(pool.id, 100);
+    console.log(`🎓 Meteora DBC curve complete for pool ${poolAddress} (${signature})`);
+  } catch (error) {
+    console.error(`❌ Failed to record curve completion for ${poolAddress}:`, error);
+  }
+}
+
+async function handleMigration(migrationIx: DecodedInstruction, signature: string) {
+  const poolAddress = findAccount(migrationIx, "virtual_pool");
+  if (!poolAddress) return;
+
+  try {
+    const pool = await monitorService.getPoolByAddress(poolAddress);
+    if (!pool) return;
+
+    await monitorService.updatePoolStatus(pool.id, "graduated");
+    await monitorService.markTokenAsGraduated(pool.token_id, signature);
+    console.log(`🎓 Meteora DBC pool ${poolAddress} migrated via ${migrationIx.name} (${signature})`);
+  } catch (error) {
+    console.error(`❌ Failed to record migration for ${poolAddress}:`, error);
+  }
+}
+
+async function handleStream(client: Client, args: SubscribeRequest) {
+  console.log("🚀 Starting Meteora DBC Transaction Monitor...");
+  const stream = await client.subscribe();
+
+  const streamClosed = new Promise<void>((resolve, reject) => {
+    stream.on("error", (error) => {
+      console.log("ERROR", error);
+      reject(error);
+      stream.end();
+    });
+    stream.on("end", () => {
+      resolve();
+    });
+    stream.on("close", () => {
+      resolve();
+    });
+  });
+
+  stream.on("data", processMeteoraDbcTransactionUpdate);
+
+  await new Promise<void>((resolve, reject) => {
+    stream.write(args, (err: any) => {
+      if (err === null || err === undefined) {
+        resolve();
+      } else {
+        reject(err);
+      }
+    });
+  }).catch((reason) => {
+    console.error(reason);
+    throw reason;
+  });
+
+  await streamClosed;
+}
+
+async function subscribeCommand(client: Client, args: SubscribeRequest) {
+  while (true) {
+    try {
+      await handleStream(client, args);
+    } catch (error) {
+      console.error("Stream error, restarting in 1 second...", error);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+}
+
+export const METEORA_DBC_TRANSACTION_REQUEST: SubscribeRequest = {
+  accounts: {},
+  slots: {},
+  transactions: {
+    meteoraDbc: {
+      vote: false,
+      failed: false,
+      signature: undefined,
+      accountInclude: [METEORA_DBC_PROGRAM_ID],
+      accountExclude: [],
+      accountRequired: [],
+    },
+  },
+  transactionsStatus: {},
+  entry: {},
+  blocks: {},
+  blocksMeta: {},
+  accountsDataSlice: [],
+  ping: undefined,
+  commitment: CommitmentLevel.CONFIRMED,
+};
+
+if (require.main === module) {
+  const client = new Client(
+    process.env.GRPC_URL!,
+    process.env.X_TOKEN!,
+    undefined
+  );
+
+  console.log("🔍 Starting Meteora DBC Transaction Monitor");
+  console.log(`📡 Connected to: ${process.env.GRPC_URL}`);
+  console.log(`🎯 Program ID: ${METEORA_DBC_PROGRAM_ID}`);
+  console.log("📊 Monitoring: swaps, curve completion and migrations\n");
+
+  subscribeCommand(client, METEORA_DBC_TRANSACTION_REQUEST);
+}
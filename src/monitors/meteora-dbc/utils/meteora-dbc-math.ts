@@ -0,0 +1,39 @@
+import { VersionedTransactionResponse } from "@solana/web3.js";
+
+export const METEORA_DBC_PROGRAM_ID = "dbcij3LWUppWqq96dh6gJWwBifmcGfLSB5D4DuSMaqN";
+export const WSOL_MINT = "So11111111111111111111111111111111111111112";
+
+// EvtSwap/EvtSwap2 trade_direction
+export enum TradeDirection {
+  BASE_TO_QUOTE = 0,  // sell
+  QUOTE_TO_BASE = 1   // buy
+}
+
+const Q64 = 2 ** 64;
+
+/**
+ * DBC stores price as a Q64.64 square root of quote atoms per base atom.
+ * Returns the quote price of one whole base token.
+ */
+export function sqrtPriceToPrice(sqrtPrice: string, baseDecimals: number, quoteDecimals: number = 9): number {
+  const sqrt = Number(sqrtPrice) / Q64;
+  return sqrt * sqrt * Math.pow(10, baseDecimals - quoteDecimals);
+}
+
+/**
+ * Progress toward migration: quote raised over the config's migration threshold, 0-100
+ */
+export function calculateCurveProgress(quoteReserve: string, migrationThreshold: string): number {
+  const threshold = Number(migrationThreshold);
+  if (!threshold) return 0;
+  const progress = (Number(quoteReserve) / threshold) * 100;
+  return Math.max(0, Math.min(100, progress));
+}
+
+/**
+ * Decimals of a mint as reported in the transaction's token balances
+ */
+export function getMintDecimals(tx: VersionedTransactionResponse, mint: string): number | undefined {
+  const balances = [...(tx.meta?.postTokenBalances || []), ...(tx.meta?.preTokenBalances || [])];
+  return balances.find(balance => balance.mint === mint)?.uiTokenAmount.decimals;
+}
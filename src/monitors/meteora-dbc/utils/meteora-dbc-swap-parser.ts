@@ -0,0 +1,57 @@
+import { IdlDecoder, DecodedInstruction, DecodedTransaction } from "../../decoder/idl-decoder";
+import { getProgramIdl } from "../../decoder/idl-registry";
+import { METEORA_DBC_PROGRAM_ID, TradeDirection } from "./meteora-dbc-math";
+
+export const METEORA_DBC_DECODER = new IdlDecoder([getProgramIdl(METEORA_DBC_PROGRAM_ID)!], {
+  bigNumbersAsStrings: true
+});
+
+// Normalized view of EvtSwap and EvtSwap2
+export interface DbcSwap {
+  pool: string;
+  direction: TradeDirection;
+  inputAmount: string;
+  outputAmount: string;
+  tradingFee: string;
+  protocolFee: string;
+  nextSqrtPrice: string;
+  quoteReserve?: string;
+  migrationThreshold?: string;
+}
+
+// Ordered by preference: EvtSwap2 also carries the quote reserve and migration threshold
+const SWAP_EVENTS = ["EvtSwap2", "EvtSwap2WithTransferHook", "EvtSwap"];
+
+/**
+ * Transactions are keyed by signature, so one swap is stored per transaction
+ */
+export function getSwap(decoded: DecodedTransaction): DbcSwap | null {
+  const event = SWAP_EVENTS
+    .map(name => decoded.events.find(event => event.name === name))
+    .find(event => event !== undefined);
+  if (!event) return null;
+
+  const result = event.data.swap_result;
+  return {
+    pool: event.data.pool,
+    direction: Number(event.data.trade_direction),
+    // EvtSwap reports actual_input_amount, EvtSwap2 the fee-inclusive input
+    inputAmount: result.included_fee_input_amount ?? result.actual_input_amount,
+    outputAmount: result.output_amount,
+    tradingFee: result.trading_fee,
+    protocolFee: result.protocol_fee,
+    nextSqrtPrice: result.next_sqrt_price,
+    quoteReserve: event.data.quote_reserve_amount,
+    migrationThreshold: event.data.migration_threshold
+  };
+}
+
+/**
+ * Swaps can be routed through aggregators, so the matching swap
+ * instruction may be top-level or inner
+ */
+export function findSwapInstruction(decoded: DecodedTransaction, pool: string): DecodedInstruction | undefined {
+  return [...decoded.instructions, ...decoded.innerInstructions].find(ix =>
+    ix.name.startsWith("swap") && ix.accounts.some(account => account.name === "pool" && account.pubkey === pool)
+  );
+}
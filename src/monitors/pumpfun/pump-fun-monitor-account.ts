@@ -1,38 +1,35 @@
 import "dotenv/config";
-import Client, {
-  CommitmentLevel,
-  SubscribeRequestAccountsDataSlice,
-  SubscribeRequestFilterAccounts,
-  SubscribeRequestFilterBlocks,
-  SubscribeRequestFilterBlocksMeta,
-  SubscribeRequestFilterEntry,
-  SubscribeRequestFilterSlots,
-  SubscribeRequestFilterTransactions,
-} from "@triton-one/yellowstone-grpc";
-import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
+import Client, { CommitmentLevel, SubscribeRequest } from "@triton-one/yellowstone-grpc";
 import * as fs from 'fs';
 import { BorshAccountsCoder } from "@coral-xyz/anchor";
 import bs58 from 'bs58';
 
 // Import utility function
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
+import { bnLayoutFormatter } from "../decoder/bn-layout-formatter";
 import { getDbPool, PoolOperations, PoolData } from "../../database";
+import { streamNow } from "../runtime/stream-clock";
 // import { pumpfunIntegration } from "../utils/enhanced-integration"; // Removed during cleanup
 
 const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
 
-interface SubscribeRequest {
-  accounts: { [key: string]: SubscribeRequestFilterAccounts };
-  slots: { [key: string]: SubscribeRequestFilterSlots };
-  transactions: { [key: string]: SubscribeRequestFilterTransactions };
-  transactionsStatus: { [key: string]: SubscribeRequestFilterTransactions };
-  blocks: { [key: string]: SubscribeRequestFilterBlocks };
-  blocksMeta: { [key: string]: SubscribeRequestFilterBlocksMeta };
-  entry: { [key: string]: SubscribeRequestFilterEntry };
-  commitment?: CommitmentLevel | undefined;
-  accountsDataSlice: SubscribeRequestAccountsDataSlice[];
-  ping?: SubscribeRequestPing | undefined;
-}
+// Every account owned by the pump.fun program
+export const PUMP_FUN_ACCOUNT_REQUEST: SubscribeRequest = {
+  slots: {},
+  accounts: {
+    pumpfun: {
+      account: [],
+      filters: [],
+      owner: [PUMP_FUN_PROGRAM_ID]
+    }
+  },
+  transactions: {},
+  blocks: {},
+  blocksMeta: {},
+  accountsDataSlice: [],
+  commitment: CommitmentLevel.PROCESSED, // Fastest updates
+  entry: {},
+  transactionsStatus: {}
+};
 
 interface BondingCurveAccount {
   // Snake case fields (actual field names from Pump.fun)
@@ -70,17 +67,10 @@ interface AccountInfo {
 }
 
 export class PumpFunAccountMonitor {
-  private client: Client;
   private accountCoder: BorshAccountsCoder;
   private poolOperations: PoolOperations;
 
   constructor() {
-    this.client = new Client(
-      process.env.GRPC_URL!,
-      process.env.X_TOKEN!,
-      undefined
-    );
-    
     // Load the Pump.fun IDL
     const idl = JSON.parse(fs.readFileSync(__dirname + '/idls/pump_0.1.0.json', 'utf8'));
     this.accountCoder = new BorshAccountsCoder(idl);
@@ -93,10 +83,16 @@ export class PumpFunAccountMonitor {
   async start() {
     console.log("Starting Pump.fun Account Monitor...");
     console.log(`Monitoring accounts owned by: ${PUMP_FUN_PROGRAM_ID}`);
-    
+
+    const client = new Client(
+      process.env.GRPC_URL!,
+      process.env.X_TOKEN!,
+      undefined
+    );
+
     while (true) {
       try {
-        await this.handleStream();
+        await this.handleStream(client);
       } catch (error) {
         console.error("Stream error, restarting in 1 second...", error);
         await new Promise((resolve) => setTimeout(resolve, 1000));
@@ -104,8 +100,19 @@ export class PumpFunAccountMonitor {
     }
   }
 
-  private async handleStream() {
-    const stream = await this.client.subscribe();
+  /**
+   * Decode a bonding curve account update and store its reserves and progress
+   */
+  async processUpdate(data: any): Promise<void> {
+    if (!data?.account) return;
+    const accountInfo = this.processAccountData(data.account);
+    if (accountInfo) {
+      this.outputAccountUpdate(accountInfo);
+    }
+  }
+
+  private async handleStream(client: Client) {
+    const stream = await client.subscribe();
 
     // Create error/end handler
     const streamClosed = new Promise<void>((resolve, reject) => {
@@ -125,39 +132,15 @@ export class PumpFunAccountMonitor {
     // Handle account updates
     stream.on("data", async (data) => {
       try {
-        if (data?.account) {
-          const accountInfo = this.processAccountData(data.account);
-          if (accountInfo) {
-            this.outputAccountUpdate(accountInfo);
-          }
-        }
+        await this.processUpdate(data);
       } catch (error) {
         console.error("Error processing account data:", error);
       }
     });
 
-    // Subscribe to Pump.fun owned accounts
-    const request: SubscribeRequest = {
-      slots: {},
-      accounts: {
-        pumpfun: {
-          account: [],
-          filters: [],
-          owner: [PUMP_FUN_PROGRAM_ID]
-        }
-      },
-      transactions: {},
-      blocks: {},
-      blocksMeta: {},
-      accountsDataSlice: [],
-      commitment: CommitmentLevel.PROCESSED, // Fastest updates
-      entry: {},
-      transactionsStatus: {}
-    };
-
     // Send subscribe request
     await new Promise<void>((resolve, reject) => {
-      stream.write(request, (err: any) => {
+      stream.write(PUMP_FUN_ACCOUNT_REQUEST, (err: any) => {
         if (err === null || err === undefined) {
           resolve();
         } else {
@@ -253,7 +236,7 @@ export class PumpFunAccountMonitor {
 
 
     console.log("\n========== PUMP.FUN BONDING CURVE ==========");
-    console.log(`Timestamp: ${new Date().toISOString()}`);
+    console.log(`Timestamp: ${new Date(streamNow()).toISOString()}`);
     console.log(`Account: ${accountInfo.pubkey}`);
     console.log(`Status: ${data.complete ? 'COMPLETED ✓' : 'ACTIVE'}`);
     
@@ -435,6 +418,14 @@ export class PumpFunAccountMonitor {
   }
 }
 
+// One decoder and pool writer for the monitor runtime's pumpfun-account plugin
+let hostedMonitor: PumpFunAccountMonitor | undefined;
+
+export async function processPumpFunAccountUpdate(data: any): Promise<void> {
+  hostedMonitor = hostedMonitor || new PumpFunAccountMonitor();
+  await hostedMonitor.processUpdate(data);
+}
+
 // Main execution
 if (require.main === module) {
   const monitor = new PumpFunAccountMonitor();
@@ -9,15 +9,11 @@ import Client, {
   SubscribeRequestFilterSlots,
   SubscribeRequestFilterTransactions,
 } from "@triton-one/yellowstone-grpc";
-import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
 import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
-import { SolanaEventParser } from "./utils/event-parser";
-import pumpFunIdl from "./idls/pump_0.1.0.json";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import { PUMP_FUN_DECODER, PUMP_FUN_PROGRAM_ID, parseCreateTransactionOutput } from "./utils/pump-fun-parsed-transaction";
 import { monitorService } from "../../database";
+import { streamNow } from "../runtime/stream-clock";
 // import { pumpfunIntegration } from "../utils/enhanced-integration"; // Removed during cleanup
 
 interface SubscribeRequest {
@@ -64,19 +60,6 @@ interface CreateTokenData {
 }
 
 const TXN_FORMATTER = new TransactionFormatter();
-const PUMP_FUN_PROGRAM_ID = new PublicKey(
-  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P"
-);
-const PUMP_FUN_IX_PARSER = new SolanaParser([]);
-PUMP_FUN_IX_PARSER.addParserFromIdl(
-  PUMP_FUN_PROGRAM_ID.toBase58(),
-  pumpFunIdl as Idl
-);
-const PUMP_FUN_EVENT_PARSER = new SolanaEventParser([], console);
-PUMP_FUN_EVENT_PARSER.addParserFromIdl(
-  PUMP_FUN_PROGRAM_ID.toBase58(),
-  pumpFunIdl as Idl
-);
 
 // Database operations now handled by monitorService
 
@@ -164,6 +147,134 @@ async function fetchTokenMetadata(uri: string): Promise<TokenMetadata | null> {
   }
 }
 
+export async function processPumpFunMintUpdate(data: any): Promise<void> {
+  if (data?.transaction) {
+    const txn = TXN_FORMATTER.formTransactionFromJson(
+      data.transaction,
+      streamNow()
+    );
+
+    if (txn.meta?.err) return;
+
+    const decoded = PUMP_FUN_DECODER.decodeTransaction(txn);
+    const created = parseCreateTransactionOutput(decoded);
+    if (!created) return;
+    
+    const tokenData: CreateTokenData = {
+      name: created.name || "",
+      symbol: created.symbol || "",
+      uri: created.uri || "",
+      mint: created.mint,
+      mintAuthority: created.mintAuthority || "",
+      bondingCurve: created.bondingCurve,
+      associatedBondingCurve: created.associatedBondingCurve || "",
+      global: created.global || "",
+      mplTokenMetadata: created.mplTokenMetadata || "",
+      metadata: created.metadata || "",
+      user: created.user || "",
+      timestamp: new Date(streamNow()).toISOString(),
+      signature: decoded.signature,
+      slot: decoded.slot,
+    };
+    
+    // Fetch off-chain metadata
+    if (tokenData.uri) {
+      const offChainMetadata = await fetchTokenMetadata(tokenData.uri);
+      if (offChainMetadata) {
+        tokenData.offChainMetadata = offChainMetadata;
+      }
+    }
+    
+    console.log(
+      `[NEW TOKEN CREATED]`,
+      new Date(streamNow()),
+      "\n",
+      JSON.stringify({
+        ...tokenData,
+        pumpFunUrl: `https://pump.fun/coin/${tokenData.mint}`,
+        solscanUrl: `https://solscan.io/tx/${tokenData.signature}`,
+        shyftUrl: `https://translator.shyft.to/tx/${tokenData.signature}`
+      }, null, 2) + "\n"
+    );
+    
+    // Save to database
+    try {
+      const saveData = {
+        Ca: tokenData.mint,
+        mint: tokenData.mint,
+        signature: tokenData.signature,
+        timestamp: tokenData.timestamp,
+        creator: tokenData.user,
+        name: tokenData.name,
+        symbol: tokenData.symbol,
+        metadata: {
+          uri: tokenData.uri,
+          bondingCurve: tokenData.bondingCurve,
+          mintAuthority: tokenData.mintAuthority,
+          associatedBondingCurve: tokenData.associatedBondingCurve,
+          global: tokenData.global,
+          mplTokenMetadata: tokenData.mplTokenMetadata,
+          metadataAccount: tokenData.metadata,
+          slot: tokenData.slot,
+          offChainMetadata: tokenData.offChainMetadata
+        }
+      };
+      
+      // Save token data using new MonitorService
+      // Convert timestamp string to Date
+      const creationDate = new Date(tokenData.timestamp);
+      
+      const tokenId = await monitorService.saveToken({
+        mint_address: tokenData.mint,
+        symbol: tokenData.symbol || 'UNKNOWN',
+        name: tokenData.name || 'Unknown Token',
+        decimals: 6, // Pump.fun tokens have 6 decimals
+        platform: 'pumpfun',
+        creation_signature: tokenData.signature,
+        creation_timestamp: creationDate,
+        creator_address: tokenData.user,
+        initial_supply: '1000000000000000', // 1B tokens with 6 decimals
+        metadata: {
+          uri: tokenData.uri,
+          bondingCurve: tokenData.bondingCurve,
+          mintAuthority: tokenData.mintAuthority,
+          associatedBondingCurve: tokenData.associatedBondingCurve,
+          offChainMetadata: tokenData.offChainMetadata,
+          slot: tokenData.slot,
+          saveData: saveData
+        }
+      });
+      
+      // Save pool data - basic info only, reserves will be updated by account monitor
+      await monitorService.savePool({
+        pool_address: tokenData.bondingCurve,
+        token_id: tokenId,
+        platform: 'pumpfun',
+        creation_signature: tokenData.signature,
+        creation_timestamp: creationDate,
+        creator_address: tokenData.user,
+        is_active: true,
+        metadata: {
+          associatedBondingCurve: tokenData.associatedBondingCurve,
+          mintAuthority: tokenData.mintAuthority
+        }
+      });
+      
+      console.log(`💾 New token and pool saved to database with metadata`);
+      
+      // Technical score calculation removed - scores are calculated on-demand in dashboard
+      // await pumpfunIntegration.onNewTokenCreated(saveData);
+      // console.log(`📊 Technical score calculation scheduled`);
+    } catch (error) {
+      console.error(`❌ Failed to save token:`, error);
+    }
+    
+    console.log(
+      "--------------------------------------------------------------------------------------------------"
+    );
+  }
+}
+
 async function handleStream(client: Client, args: SubscribeRequest) {
   console.log("Starting Pump.fun New Token Mint Monitor V2...")
   console.log("Monitoring for new token creation events with metadata extraction...\n");
@@ -186,167 +297,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
   });
 
   // Handle updates
-  stream.on("data", async (data) => {
-    if (data?.transaction) {
-      const txn = TXN_FORMATTER.formTransactionFromJson(
-        data.transaction,
-        Date.now()
-      );
-
-      const parsedTxn = decodePumpFunTransaction(txn);
-      if (!parsedTxn) return;
-      
-      // Look for create instruction
-      const createInstruction = parsedTxn.instructions.find(
-        (ix: any) => ix.name === "create"
-      );
-      
-      if (!createInstruction) return;
-      
-      // Type guard to ensure we have the right instruction type
-      if (!('args' in createInstruction) || !('accounts' in createInstruction)) return;
-      
-      // Extract all the data from the create instruction
-      const createData = createInstruction.args as any;
-      const accounts = createInstruction.accounts as any[];
-      
-      // Map account names to their public keys
-      const accountMap: { [key: string]: string } = {};
-      
-      // Handle both array format and object format for accounts
-      if (Array.isArray(accounts)) {
-        accounts.forEach((account: any) => {
-          const pubkey = account.pubkey?.toString() || account.address?.toString() || account.publicKey?.toString() || "";
-          accountMap[account.name] = pubkey;
-        });
-      } else if (typeof createInstruction.accounts === 'object') {
-        // If accounts is an object with named properties
-        Object.entries(createInstruction.accounts).forEach(([name, value]: [string, any]) => {
-          if (typeof value === 'string') {
-            accountMap[name] = value;
-          } else if (value && typeof value === 'object' && 'toString' in value) {
-            accountMap[name] = value.toString();
-          }
-        });
-      }
-      
-      // Check for CreateEvent in the events
-      const createEvent = parsedTxn.events?.find((e: any) => e.name === 'CreateEvent');
-      
-      const tokenData: CreateTokenData = {
-        name: createData.name || "",
-        symbol: createData.symbol || "",
-        uri: createData.uri || "",
-        mint: accountMap.mint || createEvent?.data?.mint || "",
-        mintAuthority: accountMap.mintAuthority || accountMap.mint_authority || "",
-        bondingCurve: accountMap.bondingCurve || accountMap.bonding_curve || createEvent?.data?.bonding_curve || "",
-        associatedBondingCurve: accountMap.associatedBondingCurve || accountMap.associated_bonding_curve || "",
-        global: accountMap.global || "",
-        mplTokenMetadata: accountMap.mplTokenMetadata || accountMap.mpl_token_metadata || "",
-        metadata: accountMap.metadata || "",
-        user: accountMap.user || createEvent?.data?.user || "",
-        timestamp: new Date().toISOString(),
-        signature: txn.transaction.signatures[0],
-        slot: data.slot,
-      };
-      
-      // Fetch off-chain metadata
-      if (tokenData.uri) {
-        const offChainMetadata = await fetchTokenMetadata(tokenData.uri);
-        if (offChainMetadata) {
-          tokenData.offChainMetadata = offChainMetadata;
-        }
-      }
-      
-      console.log(
-        `[NEW TOKEN CREATED]`,
-        new Date(),
-        "\n",
-        JSON.stringify({
-          ...tokenData,
-          pumpFunUrl: `https://pump.fun/coin/${tokenData.mint}`,
-          solscanUrl: `https://solscan.io/tx/${tokenData.signature}`,
-          shyftUrl: `https://translator.shyft.to/tx/${tokenData.signature}`
-        }, null, 2) + "\n"
-      );
-      
-      // Save to database
-      try {
-        const saveData = {
-          Ca: tokenData.mint,
-          mint: tokenData.mint,
-          signature: tokenData.signature,
-          timestamp: tokenData.timestamp,
-          creator: tokenData.user,
-          name: tokenData.name,
-          symbol: tokenData.symbol,
-          metadata: {
-            uri: tokenData.uri,
-            bondingCurve: tokenData.bondingCurve,
-            mintAuthority: tokenData.mintAuthority,
-            associatedBondingCurve: tokenData.associatedBondingCurve,
-            global: tokenData.global,
-            mplTokenMetadata: tokenData.mplTokenMetadata,
-            metadataAccount: tokenData.metadata,
-            slot: tokenData.slot,
-            offChainMetadata: tokenData.offChainMetadata
-          }
-        };
-        
-        // Save token data using new MonitorService
-        // Convert timestamp string to Date
-        const creationDate = new Date(tokenData.timestamp);
-        
-        const tokenId = await monitorService.saveToken({
-          mint_address: tokenData.mint,
-          symbol: tokenData.symbol || 'UNKNOWN',
-          name: tokenData.name || 'Unknown Token',
-          decimals: 6, // Pump.fun tokens have 6 decimals
-          platform: 'pumpfun',
-          creation_signature: tokenData.signature,
-          creation_timestamp: creationDate,
-          creator_address: tokenData.user,
-          initial_supply: '1000000000000000', // 1B tokens with 6 decimals
-          metadata: {
-            uri: tokenData.uri,
-            bondingCurve: tokenData.bondingCurve,
-            mintAuthority: tokenData.mintAuthority,
-            associatedBondingCurve: tokenData.associatedBondingCurve,
-            offChainMetadata: tokenData.offChainMetadata,
-            slot: tokenData.slot,
-            saveData: saveData
-          }
-        });
-        
-        // Save pool data - basic info only, reserves will be updated by account monitor
-        await monitorService.savePool({
-          pool_address: tokenData.bondingCurve,
-          token_id: tokenId,
-          platform: 'pumpfun',
-          creation_signature: tokenData.signature,
-          creation_timestamp: creationDate,
-          creator_address: tokenData.user,
-          is_active: true,
-          metadata: {
-            associatedBondingCurve: tokenData.associatedBondingCurve,
-            mintAuthority: tokenData.mintAuthority
-          }
-        });
-        
-        console.log(`💾 New token and pool saved to database with metadata`);
-        
-        // Technical score calculation removed - scores are calculated on-demand in dashboard
-        // await pumpfunIntegration.onNewTokenCreated(saveData);
-        // console.log(`📊 Technical score calculation scheduled`);
-      } catch (error) {
-        console.error(`❌ Failed to save token:`, error);
-      }
-      
-      console.log(
-        "--------------------------------------------------------------------------------------------------"
-      );
-    }
-  });
+  stream.on("data", processPumpFunMintUpdate);
 
   // Send subscribe request
   await new Promise<void>((resolve, reject) => {
@@ -368,7 +319,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
 async function subscribeCommand(client: Client, args: SubscribeRequest) {
   console.log("Pump.fun New Token Mint Monitor V2");
   console.log("===================================");
-  console.log("Program ID:", PUMP_FUN_PROGRAM_ID.toBase58());
+  console.log("Program ID:", PUMP_FUN_PROGRAM_ID);
   console.log("Features: On-chain + Off-chain metadata extraction");
   console.log("");
   
@@ -382,13 +333,7 @@ async function subscribeCommand(client: Client, args: SubscribeRequest) {
   }
 }
 
-const client = new Client(
-  process.env.GRPC_URL!,
-  process.env.X_TOKEN!,
-  undefined
-);
-
-const req: SubscribeRequest = {
+export const PUMP_FUN_MINT_REQUEST: SubscribeRequest = {
   accounts: {},
   slots: {},
   transactions: {
@@ -396,7 +341,7 @@ const req: SubscribeRequest = {
       vote: false,
       failed: false,
       signature: undefined,
-      accountInclude: [PUMP_FUN_PROGRAM_ID.toBase58()],
+      accountInclude: [PUMP_FUN_PROGRAM_ID],
       accountExclude: [],
       accountRequired: [],
     },
@@ -410,53 +355,12 @@ const req: SubscribeRequest = {
   commitment: CommitmentLevel.CONFIRMED,
 };
 
-subscribeCommand(client, req);
+if (require.main === module) {
+  const client = new Client(
+    process.env.GRPC_URL!,
+    process.env.X_TOKEN!,
+    undefined
+  );
 
-function decodePumpFunTransaction(tx: VersionedTransactionResponse) {
-  if (tx.meta?.err) return;
-  
-  try {
-    const parsedIxs = PUMP_FUN_IX_PARSER.parseTransactionData(
-      tx.transaction.message,
-      tx.meta!.loadedAddresses
-    );
-    
-    const pumpFunIxs = parsedIxs.filter((ix) =>
-      ix.programId.equals(PUMP_FUN_PROGRAM_ID)
-    );
-    
-    const hydratedTx = hydrateLoadedAddresses(tx);
-    const parsedInnerIxs = PUMP_FUN_IX_PARSER.parseTransactionWithInnerInstructions(hydratedTx);
-    const pumpfunInnerIxs = parsedInnerIxs.filter((ix) =>
-      ix.programId.equals(PUMP_FUN_PROGRAM_ID)
-    );
-    
-    if (pumpFunIxs.length === 0 && pumpfunInnerIxs.length === 0) return;
-    
-    const events = PUMP_FUN_EVENT_PARSER.parseEvent(tx);
-    const result = { instructions: pumpFunIxs, inner_ixs: pumpfunInnerIxs, events };
-    bnLayoutFormatter(result);
-    
-    return result;
-  } catch (err) {
-    // Silent error handling for unrecognized instructions
-  }
+  subscribeCommand(client, PUMP_FUN_MINT_REQUEST);
 }
-
-function hydrateLoadedAddresses(tx: VersionedTransactionResponse): VersionedTransactionResponse {
-  const loaded = tx.meta?.loadedAddresses;
-  if (!loaded) return tx;
-
-  function ensurePublicKey(arr: (Buffer | PublicKey)[]) {
-    return arr.map(item =>
-      item instanceof PublicKey ? item : new PublicKey(item)
-    );
-  }
-
-  tx.meta!.loadedAddresses = {
-    writable: ensurePublicKey(loaded.writable),
-    readonly: ensurePublicKey(loaded.readonly),
-  };
-
-  return tx;
-}
\ No newline at end of file
@@ -9,17 +9,14 @@ import Client, {
   SubscribeRequestFilterSlots,
   SubscribeRequestFilterTransactions,
 } from "@triton-one/yellowstone-grpc";
-import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
 import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
-import { SolanaEventParser } from "./utils/event-parser";
-import { parseSwapTransactionOutput } from "./utils/pump-fun-parsed-transaction";
-import pumpFunIdl from "./idls/pump_0.1.0.json";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import { PUMP_FUN_DECODER, PUMP_FUN_PROGRAM_ID, parseSwapTransactionOutput } from "./utils/pump-fun-parsed-transaction";
 import { monitorService } from "../../database";
 import { scoreIntegration } from "./utils/score-integration";
+import { streamNow } from "../runtime/stream-clock";
+import { smartMoneySignals } from "../../services/wallet-tracker/smart-money-signals";
+import { holderLedger } from "../../services/holder-ledger/holder-ledger";
 
 interface SubscribeRequest {
   accounts: { [key: string]: SubscribeRequestFilterAccounts };
@@ -46,19 +43,6 @@ interface SwapEvent {
 }
 
 const TXN_FORMATTER = new TransactionFormatter();
-const PUMP_FUN_PROGRAM_ID = new PublicKey(
-  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P"
-);
-const PUMP_FUN_IX_PARSER = new SolanaParser([]);
-PUMP_FUN_IX_PARSER.addParserFromIdl(
-  PUMP_FUN_PROGRAM_ID.toBase58(),
-  pumpFunIdl as Idl
-);
-const PUMP_FUN_EVENT_PARSER = new SolanaEventParser([], console);
-PUMP_FUN_EVENT_PARSER.addParserFromIdl(
-  PUMP_FUN_PROGRAM_ID.toBase58(),
-  pumpFunIdl as Idl
-);
 
 // Transaction batching for better performance
 const transactionBatch: any[] = [];
@@ -83,7 +67,8 @@ async function getMintFromTokenId(tokenId: string): Promise<string | null> {
   }
 }
 
-async function flushBatch() {
+export async function flushBatch(): Promise<void> {
+  await holderLedger.flushTransfers();
   if (transactionBatch.length === 0) return;
   
   const batch = [...transactionBatch];
@@ -103,8 +88,7 @@ async function flushBatch() {
       const solAmount = parseFloat(tx.sol_amount);
       if (solAmount > 1) { // Only calculate for transactions > 1 SOL
         // Get mint address from transaction metadata
-        const mintAddress = tx.metadata?.rawData?.parsedTxn?.mint || 
-                          (await getMintFromTokenId(tx.token_id));
+        const mintAddress = tx.mint_address || (await getMintFromTokenId(tx.token_id));
         if (mintAddress) {
           await scoreIntegration.onTransaction(mintAddress, tx.type as 'buy' | 'sell', solAmount);
         }
@@ -115,6 +99,129 @@ async function flushBatch() {
   }
 }
 
+export async function processPumpFunTransactionUpdate(data: any): Promise<void> {
+  if (data?.transaction) {
+    const txn = TXN_FORMATTER.formTransactionFromJson(
+      data.transaction,
+      streamNow()
+    );
+
+    if (txn.meta?.err) return;
+
+    const decoded = PUMP_FUN_DECODER.decodeTransaction(txn);
+    const swapData = parseSwapTransactionOutput(decoded);
+    if (!swapData) return;
+    
+    // Format the output
+    const solAmountLamports = swapData.type === 'buy' ? swapData.in_amount : swapData.out_amount;
+    const tokenAmountRaw = swapData.type === 'buy' ? swapData.out_amount : swapData.in_amount;
+    
+    // Handle potential undefined/null values
+    const solAmount = solAmountLamports ? Number(solAmountLamports) / 1e9 : 0;
+    const tokenAmount = tokenAmountRaw ? Number(tokenAmountRaw) / 1e6 : 0; // Assuming 6 decimals for pump.fun tokens
+    
+    const output: SwapEvent = {
+      timestamp: new Date(streamNow()).toISOString(),
+      signature: decoded.signature,
+      type: swapData.type,
+      user: swapData.user,
+      mint: swapData.mint,
+      bondingCurve: swapData.bonding_curve,
+      solAmount: solAmount,
+      tokenAmount: tokenAmount,
+    };
+    
+    // Checked before batching so signals don't wait for the batch flush
+    smartMoneySignals.onTrade({
+      tokenMint: output.mint,
+      walletAddress: output.user,
+      type: output.type,
+      solAmount: output.solAmount,
+      tokenAmount: output.tokenAmount,
+      signature: output.signature,
+      blockTime: new Date(output.timestamp)
+    });
+
+    // Token movements beyond the swap itself, for holder reconstruction
+    holderLedger.captureTrade({
+      signature: output.signature,
+      mintAddress: output.mint,
+      trader: output.user,
+      type: output.type,
+      tokenAmount: output.tokenAmount,
+      slot: decoded.slot || null,
+      blockTime: new Date(output.timestamp),
+      excludeOwners: [output.bondingCurve]
+    }, txn.meta);
+
+    console.log(
+      `[${output.type.toUpperCase()}]`,
+      new Date(streamNow()),
+      "\n",
+      JSON.stringify({
+        ...output,
+        solAmount: `${output.solAmount.toFixed(6)} SOL`,
+        tokenAmount: output.tokenAmount.toLocaleString(undefined, { 
+          minimumFractionDigits: 3,
+          maximumFractionDigits: 3 
+        }),
+        pumpFunUrl: `https://pump.fun/coin/${output.mint}`,
+        solscanUrl: `https://solscan.io/tx/${output.signature}`,
+        shyftUrl: `https://translator.shyft.to/tx/${output.signature}`
+      }, null, 2) + "\n"
+    );
+    
+    // Save transaction to database
+    try {
+      const monitorTx = {
+        signature: output.signature,
+        mint_address: output.mint,
+        pool_address: output.bondingCurve,
+        block_time: new Date(output.timestamp),
+        slot: decoded.slot,
+        type: output.type as 'buy' | 'sell',
+        user_address: output.user,
+        sol_amount: output.solAmount.toString(),
+        token_amount: output.tokenAmount.toString(),
+        price_per_token: output.solAmount / output.tokenAmount,
+        metadata: {
+          amountIn: swapData.in_amount?.toString(),
+          amountInDecimals: output.type === 'buy' ? 9 : 6,
+          amountOut: swapData.out_amount?.toString(),
+          amountOutDecimals: output.type === 'buy' ? 6 : 9,
+          transactionFee: txn.meta?.fee,
+          success: !txn.meta?.err,
+          rawData: {
+            program: 'pumpfun',
+            instructionData: swapData,
+            instructions: [...decoded.instructions, ...decoded.innerInstructions].map(ix => ix.name)
+          }
+        }
+      };
+
+      // Add to batch
+      transactionBatch.push(monitorTx);
+      console.log(`📦 ${output.type.toUpperCase()} transaction added to batch (${transactionBatch.length}/${BATCH_SIZE})`);
+      
+      // Flush if batch is full
+      if (transactionBatch.length >= BATCH_SIZE) {
+        await flushBatch();
+      } else {
+        // Set timer for batch timeout
+        if (!batchTimer) {
+          batchTimer = setTimeout(flushBatch, BATCH_TIMEOUT);
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Failed to save transaction:`, error);
+    }
+    
+    console.log(
+      "--------------------------------------------------------------------------------------------------"
+    );
+  }
+}
+
 async function handleStream(client: Client, args: SubscribeRequest) {
   console.log("Starting Pump.fun Transaction Monitor...")
   console.log("Monitoring for buy/sell events...\n");
@@ -137,105 +244,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
   });
 
   // Handle updates
-  stream.on("data", async (data) => {
-    if (data?.transaction) {
-      const txn = TXN_FORMATTER.formTransactionFromJson(
-        data.transaction,
-        Date.now()
-      );
-
-      const parsedTxn = decodePumpFunTransaction(txn);
-      if (!parsedTxn) return;
-      
-      const swapData = parseSwapTransactionOutput(parsedTxn);
-      if (!swapData) return;
-      
-      // Format the output
-      const solAmountLamports = swapData.type === 'buy' ? swapData.in_amount : swapData.out_amount;
-      const tokenAmountRaw = swapData.type === 'buy' ? swapData.out_amount : swapData.in_amount;
-      
-      // Handle potential undefined/null values
-      const solAmount = solAmountLamports ? Number(solAmountLamports) / 1e9 : 0;
-      const tokenAmount = tokenAmountRaw ? Number(tokenAmountRaw) / 1e6 : 0; // Assuming 6 decimals for pump.fun tokens
-      
-      const output: SwapEvent = {
-        timestamp: new Date().toISOString(),
-        signature: txn.transaction.signatures[0],
-        type: swapData.type,
-        user: swapData.user,
-        mint: swapData.mint,
-        bondingCurve: swapData.bonding_curve,
-        solAmount: solAmount,
-        tokenAmount: tokenAmount,
-      };
-      
-      console.log(
-        `[${output.type.toUpperCase()}]`,
-        new Date(),
-        "\n",
-        JSON.stringify({
-          ...output,
-          solAmount: `${output.solAmount.toFixed(6)} SOL`,
-          tokenAmount: output.tokenAmount.toLocaleString(undefined, { 
-            minimumFractionDigits: 3,
-            maximumFractionDigits: 3 
-          }),
-          pumpFunUrl: `https://pump.fun/coin/${output.mint}`,
-          solscanUrl: `https://solscan.io/tx/${output.signature}`,
-          shyftUrl: `https://translator.shyft.to/tx/${output.signature}`
-        }, null, 2) + "\n"
-      );
-      
-      // Save transaction to database
-      try {
-        const monitorTx = {
-          signature: output.signature,
-          mint_address: output.mint,
-          pool_address: output.bondingCurve,
-          block_time: new Date(output.timestamp),
-          slot: data.slot || 0,
-          type: output.type as 'buy' | 'sell',
-          user_address: output.user,
-          sol_amount: output.solAmount.toString(),
-          token_amount: output.tokenAmount.toString(),
-          price_per_token: output.solAmount / output.tokenAmount,
-          metadata: {
-            amountIn: swapData.in_amount?.toString(),
-            amountInDecimals: output.type === 'buy' ? 9 : 6,
-            amountOut: swapData.out_amount?.toString(),
-            amountOutDecimals: output.type === 'buy' ? 6 : 9,
-            transactionFee: data.transaction?.meta?.fee,
-            success: !data.transaction?.meta?.err,
-            rawData: {
-              program: 'pumpfun',
-              instructionData: swapData,
-              parsedTxn: parsedTxn
-            }
-          }
-        };
-
-        // Add to batch
-        transactionBatch.push(monitorTx);
-        console.log(`📦 ${output.type.toUpperCase()} transaction added to batch (${transactionBatch.length}/${BATCH_SIZE})`);
-        
-        // Flush if batch is full
-        if (transactionBatch.length >= BATCH_SIZE) {
-          await flushBatch();
-        } else {
-          // Set timer for batch timeout
-          if (!batchTimer) {
-            batchTimer = setTimeout(flushBatch, BATCH_TIMEOUT);
-          }
-        }
-      } catch (error) {
-        console.error(`❌ Failed to save transaction:`, error);
-      }
-      
-      console.log(
-        "--------------------------------------------------------------------------------------------------"
-      );
-    }
-  });
+  stream.on("data", processPumpFunTransactionUpdate);
 
   // Send subscribe request
   await new Promise<void>((resolve, reject) => {
@@ -257,7 +266,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
 async function subscribeCommand(client: Client, args: SubscribeRequest) {
   console.log("Pump.fun Transaction Monitor");
   console.log("==========================");
-  console.log("Program ID:", PUMP_FUN_PROGRAM_ID.toBase58());
+  console.log("Program ID:", PUMP_FUN_PROGRAM_ID);
   console.log("");
   
   while (true) {
@@ -270,13 +279,7 @@ async function subscribeCommand(client: Client, args: SubscribeRequest) {
   }
 }
 
-const client = new Client(
-  process.env.GRPC_URL!,
-  process.env.X_TOKEN!,
-  undefined
-);
-
-const req: SubscribeRequest = {
+export const PUMP_FUN_TRANSACTION_REQUEST: SubscribeRequest = {
   accounts: {},
   slots: {},
   transactions: {
@@ -284,7 +287,7 @@ const req: SubscribeRequest = {
       vote: false,
       failed: false,
       signature: undefined,
-      accountInclude: [PUMP_FUN_PROGRAM_ID.toBase58()],
+      accountInclude: [PUMP_FUN_PROGRAM_ID],
       accountExclude: [],
       accountRequired: [],
     },
@@ -298,56 +301,12 @@ const req: SubscribeRequest = {
   commitment: CommitmentLevel.CONFIRMED,
 };
 
-subscribeCommand(client, req);
+if (require.main === module) {
+  const client = new Client(
+    process.env.GRPC_URL!,
+    process.env.X_TOKEN!,
+    undefined
+  );
 
-function decodePumpFunTransaction(tx: VersionedTransactionResponse) {
-  if (tx.meta?.err) return;
-  
-  try {
-    const parsedIxs = PUMP_FUN_IX_PARSER.parseTransactionData(
-      tx.transaction.message,
-      tx.meta!.loadedAddresses
-    );
-    
-    const pumpFunIxs = parsedIxs.filter((ix) =>
-      ix.programId.equals(PUMP_FUN_PROGRAM_ID) || 
-      ix.programId.equals(new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"))
-    );
-    
-    const hydratedTx = hydrateLoadedAddresses(tx);
-    const parsedInnerIxs = PUMP_FUN_IX_PARSER.parseTransactionWithInnerInstructions(hydratedTx);
-    const pumpfunInnerIxs = parsedInnerIxs.filter((ix) =>
-      ix.programId.equals(PUMP_FUN_PROGRAM_ID) || 
-      ix.programId.equals(new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA")) ||
-      ix.programId.equals(new PublicKey("11111111111111111111111111111111"))
-    );
-    
-    if (pumpFunIxs.length === 0 && pumpfunInnerIxs.length === 0) return;
-    
-    const events = PUMP_FUN_EVENT_PARSER.parseEvent(tx);
-    const result = { instructions: pumpFunIxs, inner_ixs: pumpfunInnerIxs, events };
-    bnLayoutFormatter(result);
-    
-    return result;
-  } catch (err) {
-    // Silent error handling for unrecognized instructions
-  }
+  subscribeCommand(client, PUMP_FUN_TRANSACTION_REQUEST);
 }
-
-function hydrateLoadedAddresses(tx: VersionedTransactionResponse): VersionedTransactionResponse {
-  const loaded = tx.meta?.loadedAddresses;
-  if (!loaded) return tx;
-
-  function ensurePublicKey(arr: (Buffer | PublicKey)[]) {
-    return arr.map(item =>
-      item instanceof PublicKey ? item : new PublicKey(item)
-    );
-  }
-
-  tx.meta!.loadedAddresses = {
-    writable: ensurePublicKey(loaded.writable),
-    readonly: ensurePublicKey(loaded.readonly),
-  };
-
-  return tx;
-}
\ No newline at end of file
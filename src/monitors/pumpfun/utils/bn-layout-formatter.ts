@@ -1,20 +0,0 @@
-import { PublicKey } from "@solana/web3.js";
-import { isObject } from "lodash";
-
-export function bnLayoutFormatter(obj: any) {
-  for (const key in obj) {
-    if (obj[key]?.constructor?.name === "PublicKey") {
-      obj[key] = (obj[key] as PublicKey).toBase58();
-    } else if (obj[key]?.constructor?.name === "BN") {
-      obj[key] = Number(obj[key].toString());
-    } else if (obj[key]?.constructor?.name === "BigInt") {
-      obj[key] = Number(obj[key].toString());
-    } else if (obj[key]?.constructor?.name === "Buffer") {
-      obj[key] = (obj[key] as Buffer).toString("base64");
-    } else if (isObject(obj[key])) {
-      bnLayoutFormatter(obj[key]);
-    } else {
-      obj[key] = obj[key];
-    }
-  }
-}
\ No newline at end of file
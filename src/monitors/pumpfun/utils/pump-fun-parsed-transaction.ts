@@ -1,101 +1,109 @@
-export function pumpFunParsedTransaction(parsedInstruction: any, txn: any){
-  const instructions = parsedInstruction.instructions.find((x: any)=> x.name === "create");
-   if(!instructions) return;
-  let output = {};
+import { IdlDecoder, DecodedInstruction, DecodedTransaction, findAccount } from "../../decoder/idl-decoder";
+import { getProgramIdl } from "../../decoder/idl-registry";
 
-    output = {
-      ...txn,
-      meta: {
-        ...txn.meta,
-        innerInstructions: parsedInstruction.inner_ixs,
-      },
-      transaction: {
-        ...txn.transaction,
-        message: {
-          ...txn.transaction.message,
-          instructions : parsedInstruction.instructions,
-          compiledInstructions: parsedInstruction.instructions,
-        },
-      }
-    }
-  
+export const PUMP_FUN_PROGRAM_ID = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+export const PUMP_FUN_DECODER = new IdlDecoder([getProgramIdl(PUMP_FUN_PROGRAM_ID)!]);
 
-  return output;
+export interface PumpFunCreate {
+  name: string;
+  symbol: string;
+  uri: string;
+  mint: string;
+  bondingCurve: string;
+  associatedBondingCurve?: string;
+  mintAuthority?: string;
+  global?: string;
+  mplTokenMetadata?: string;
+  metadata?: string;
+  user: string;
 }
 
-export function parseSwapTransactionOutput(parsedInstruction: any) {
-  const innerInstructions = parsedInstruction.inner_ixs ?? [];
+export interface PumpFunSwap {
+  type: 'buy' | 'sell';
+  user: string;
+  mint: string;
+  bonding_curve: string;
+  in_amount: number;   // lamports for buys, token atoms for sells
+  out_amount: number;  // token atoms for buys, lamports for sells
+}
+
+export interface PumpFunMigration {
+  instruction?: string;
+  mint: string;
+  bondingCurve?: string;
+  event?: string;
+}
+
+/**
+ * Swaps routed through aggregators call pump.fun by CPI, so the
+ * instruction may be top-level or inner
+ */
+function findPumpFunInstruction(decoded: DecodedTransaction, names: string[]): DecodedInstruction | undefined {
+  return [...decoded.instructions, ...decoded.innerInstructions].find(ix => names.includes(ix.name));
+}
+
+export function parseCreateTransactionOutput(decoded: DecodedTransaction): PumpFunCreate | undefined {
+  const createIx = findPumpFunInstruction(decoded, ["create"]);
+  if (!createIx) return;
 
-  const swapInstruction = innerInstructions.find(
-    (ix: any) => ix.name === 'buy' || ix.name === 'sell'
-  );
+  const event = decoded.events.find(event => event.name === "CreateEvent")?.data;
+  const mint = findAccount(createIx, "mint") || event?.mint;
+  const bondingCurve = findAccount(createIx, "bonding_curve") || event?.bonding_curve;
+  if (!mint || !bondingCurve) return;
+
+  return {
+    name: createIx.args.name ?? event?.name,
+    symbol: createIx.args.symbol ?? event?.symbol,
+    uri: createIx.args.uri ?? event?.uri,
+    mint,
+    bondingCurve,
+    associatedBondingCurve: findAccount(createIx, "associated_bonding_curve"),
+    mintAuthority: findAccount(createIx, "mint_authority"),
+    global: findAccount(createIx, "global"),
+    mplTokenMetadata: findAccount(createIx, "mpl_token_metadata"),
+    metadata: findAccount(createIx, "metadata"),
+    user: findAccount(createIx, "user") || event?.user
+  };
+}
 
-  if (!swapInstruction) return;
-  const { name: type, accounts = [], args = {} } = swapInstruction;
-  const baseAmountIn = args?.amount;
+/**
+ * The TradeEvent carries the amounts actually moved; the instruction's
+ * args are only the requested amount and slippage bound
+ */
+export function parseSwapTransactionOutput(decoded: DecodedTransaction): PumpFunSwap | undefined {
+  const swapIx = findPumpFunInstruction(decoded, ["buy", "sell"]);
+  if (!swapIx) return;
 
-  const bondingCurve = accounts.find((a: any) => a.name === 'bondingCurve')?.pubkey;
-  const userPubkey = accounts.find((a: any) => a.name === 'user')?.pubkey;
-  const mint = accounts.find((a: any) => a.name === 'mint')?.pubkey;
+  const mint = findAccount(swapIx, "mint");
+  const event = decoded.events.find(event => event.name === "TradeEvent" && event.data.mint === mint)?.data;
+  if (!mint || !event) return;
 
-  const transferInstruction = innerInstructions.find(
-    (ix: any) => ix.name === 'transfer' && ix.args?.amount !== baseAmountIn
-  );
-  
-  // For buy transactions, find all SOL transfers and sum them
-  // For sell transactions, find the SOL transfer to the user
-  const solTransfers = innerInstructions.filter(
-    (ix: any) => {
-      // System program transfers have lamports
-      const isSystemTransfer = ix.programId === '11111111111111111111111111111111' || 
-                              ix.programId?.toString() === '11111111111111111111111111111111';
-      return ix.name === 'transfer' && isSystemTransfer && ix.args?.lamports !== undefined;
-    }
-  );
-  
-  let alternativeAmountOut;
-  
-  if (type === 'buy') {
-    // For buys, we'll handle this differently - see below
-    alternativeAmountOut = 0; // Will be set properly below
-  } else {
-    // For sells, find the SOL transfer (there's usually only one)
-    // If multiple, take the largest one
-    if (solTransfers.length > 0) {
-      const sortedTransfers = solTransfers.sort((a: any, b: any) => 
-        (b.args?.lamports || 0) - (a.args?.lamports || 0)
-      );
-      alternativeAmountOut = sortedTransfers[0]?.args?.lamports;
-    }
-  }
-  // First try to get the amount from the event data (most accurate)
-  const solEventAmount = parsedInstruction?.events?.[0]?.data?.sol_amount || 
-                        parsedInstruction?.events?.[0]?.solAmount || 
-                        parsedInstruction?.events?.[0]?.data?.solAmount;
-  
-  // If no event data, find the main transfer (largest non-fee transfer)
-  if (!solEventAmount && type === 'buy' && solTransfers.length > 0) {
-    // Sort transfers by amount and pick the largest one (main payment)
-    const sortedTransfers = solTransfers.sort((a: any, b: any) => 
-      (b.args?.lamports || 0) - (a.args?.lamports || 0)
-    );
-    alternativeAmountOut = sortedTransfers[0]?.args?.lamports;
-  }
-  
-  
-  const outAmount = solEventAmount ?? alternativeAmountOut;
+  const isBuy = swapIx.name === "buy";
+  return {
+    type: isBuy ? 'buy' : 'sell',
+    user: findAccount(swapIx, "user") || event.user,
+    mint,
+    bonding_curve: findAccount(swapIx, "bonding_curve")!,
+    in_amount: isBuy ? event.sol_amount : event.token_amount,
+    out_amount: isBuy ? event.token_amount : event.sol_amount
+  };
+}
 
+/**
+ * The migrate instruction names the mint and curve; the migration event
+ * covers migrations whose instruction is not in the decoded set
+ */
+export function parseMigrationOutput(decoded: DecodedTransaction): PumpFunMigration | undefined {
+  const migrateIx = findPumpFunInstruction(decoded, ["migrate"]);
+  const event = decoded.events.find(event => event.name === "CompletePumpAmmMigrationEvent");
 
-  const isBuy = type === 'buy';
-  const inAmount = isBuy ? outAmount : baseAmountIn;
-  const finalOutAmount = isBuy ? baseAmountIn : outAmount;
+  const mint = findAccount(migrateIx, "mint") || event?.data.mint;
+  if (!mint) return;
 
   return {
-    type,
-    user: userPubkey,
+    instruction: migrateIx?.name,
     mint,
-    bonding_curve: bondingCurve,
-    in_amount: inAmount,
-    out_amount: finalOutAmount,
+    bondingCurve: findAccount(migrateIx, "bonding_curve") || event?.data.bonding_curve,
+    event: event?.name
   };
-}
\ No newline at end of file
+}
@@ -1,24 +1,35 @@
-export function parseSwapTransactionOutput(parsedInstruction: any) {
-    const parsedEvent = parsedInstruction.instructions.events[0]?.data;
+import { DecodedTransaction, findAccount } from "../../decoder/idl-decoder";
+
+/**
+ * Reserves after the swap, from the TradeEvent pump.fun emits for it.
+ * Swaps routed through aggregators are inner instructions.
+ */
+export function parseSwapTransactionOutput(decoded: DecodedTransaction) {
     const supply = 1_000_000_000_000_000;
 
-    const swapInstruction = parsedInstruction.instructions.pumpFunIxs.find(
-        (instruction: any) => instruction.name === 'buy' || instruction.name === 'sell'
+    const swapInstruction = [...decoded.instructions, ...decoded.innerInstructions].find(
+        (instruction) => instruction.name === 'buy' || instruction.name === 'sell'
     );
 
     if (!swapInstruction) {
         return;
     }
 
-    const bonding_curve = swapInstruction.accounts.find(
-        (account: any) => account.name === 'bonding_curve'
-    )?.pubkey;
+    const mint = findAccount(swapInstruction, 'mint');
+    const parsedEvent = decoded.events.find(
+        (event) => event.name === 'TradeEvent' && event.data.mint === mint
+    )?.data;
+
+    if (!mint || !parsedEvent) {
+        return;
+    }
+
+    const bonding_curve = findAccount(swapInstruction, 'bonding_curve');
 
     const virtual_sol_reserves = parsedEvent.virtual_sol_reserves;
     const virtual_token_reserves = parsedEvent.virtual_token_reserves;
     const real_sol_reserves = parsedEvent.real_sol_reserves;
     const real_token_reserves = parsedEvent.real_token_reserves;
-    const mint = parsedEvent.mint;
     const creator = parsedEvent.creator;
 
     const price = calculatePumpFunPrice(
@@ -30,6 +41,10 @@ export function parseSwapTransactionOutput(parsedInstruction: any) {
     const bondingCurveProgress = calculateBondingCurveProgress(virtual_token_reserves);
 
     const output = {
+        type: swapInstruction.name as 'buy' | 'sell',
+        user: parsedEvent.user as string,
+        sol_amount: parsedEvent.sol_amount,
+        token_amount: parsedEvent.token_amount,
         bonding_curve,
         virtual_sol_reserves,
         virtual_token_reserves,
@@ -3,8 +3,10 @@
  * Calculates and saves technical scores when price/transaction updates occur
  */
 
-import { technicalScoreCalculator } from '../../../scoring/technical-score-calculator';
+import { technicalScoreCalculator, TechnicalScoreResult } from '../../../scoring/technical-score-calculator';
 import { getDbPool } from '../../../database/connection';
+import { graduationPredictor } from '../../../services/graduation-model/graduation-predictor';
+import { alertBus } from '../../../services/alerts/alert-bus';
 
 export class ScoreIntegration {
   private pool = getDbPool();
@@ -32,6 +34,12 @@ export class ScoreIntegration {
       // Calculate the score using the technical score calculator
       const scoreResult = await technicalScoreCalculator.calculateScore(tokenId, poolId);
       
+      // A failed prediction should never block saving the score itself
+      const prediction = await graduationPredictor.predict(tokenId, poolId, scoreResult).catch(error => {
+        console.error(`Error predicting graduation for token ${tokenId}:`, error);
+        return null;
+      });
+      
       // Save to technical_scores table
       const client = await this.pool.connect();
       try {
@@ -54,8 +62,10 @@ export class ScoreIntegration {
             price_drop_15min,
             price_drop_30min,
             selloff_duration_minutes,
+            graduation_probability,
+            graduation_model_id,
             calculated_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW())
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, NOW())
         `, [
           tokenId,
           poolId,
@@ -74,6 +84,8 @@ export class ScoreIntegration {
           scoreResult.priceDrops.min15,
           scoreResult.priceDrops.min30,
           scoreResult.selloffDuration,
+          prediction ? prediction.probability : null,
+          prediction ? prediction.modelId : null,
         ]);
         
         // Update last score time
@@ -92,6 +104,10 @@ export class ScoreIntegration {
           console.log(`   Price drops: 5min=${scoreResult.priceDrops.min5.toFixed(1)}%, 15min=${scoreResult.priceDrops.min15.toFixed(1)}%`);
         }
         
+        if (alertBus.hasRulesFor('technical_score')) {
+          await this.publishScoreEvent(tokenId, scoreResult, prediction ? prediction.probability : null);
+        }
+        
       } finally {
         client.release();
       }
@@ -101,6 +117,55 @@ export class ScoreIntegration {
     }
   }
   
+  /**
+   * Publish the score with the latest holder snapshot so alert rules can
+   * combine technical and holder conditions
+   */
+  private async publishScoreEvent(
+    tokenId: string,
+    scoreResult: TechnicalScoreResult,
+    graduationProbability: number | null
+  ): Promise<void> {
+    const result = await this.pool.query(`
+      SELECT t.mint_address, t.symbol, hs.top_10_percent, hs.gini_coefficient, hs.unique_holders
+      FROM tokens t
+      LEFT JOIN LATERAL (
+        SELECT top_10_percent, gini_coefficient, unique_holders
+        FROM holder_snapshots_v2
+        WHERE token_id = t.id
+        ORDER BY snapshot_time DESC
+        LIMIT 1
+      ) hs ON true
+      WHERE t.id = $1
+    `, [tokenId]);
+    const row = result.rows[0];
+    if (!row) return;
+    
+    const optionalFloat = (value: string | null) => value === null ? null : parseFloat(value);
+    await alertBus.publish({
+      type: 'technical_score',
+      tokenId,
+      mintAddress: row.mint_address,
+      symbol: row.symbol,
+      fields: {
+        technicalScore: scoreResult.totalScore,
+        marketCapScore: scoreResult.marketCapScore,
+        bondingCurveScore: scoreResult.bondingCurveScore,
+        tradingHealthScore: scoreResult.tradingHealthScore,
+        selloffResponseScore: scoreResult.selloffResponseScore,
+        marketCapUsd: scoreResult.marketCapUsd,
+        bondingCurveProgress: scoreResult.bondingCurveProgress,
+        buySellRatio: scoreResult.buySellRatio,
+        isSelloffActive: scoreResult.isSelloffActive,
+        priceDrop15m: scoreResult.priceDrops.min15,
+        graduationProbability,
+        top10Percent: optionalFloat(row.top_10_percent),
+        giniCoefficient: optionalFloat(row.gini_coefficient),
+        uniqueHolders: row.unique_holders
+      }
+    });
+  }
+  
   /**
    * Get token and pool IDs from mint address
    */
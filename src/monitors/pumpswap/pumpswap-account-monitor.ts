@@ -8,6 +8,7 @@ import Client, {
 import { PublicKey } from "@solana/web3.js";
 import { parsedAccountData } from "./utils/accountStateParser";
 import { monitorService } from "../../database";
+import { streamNow } from "../runtime/stream-clock";
 
 const PUMP_SWAP_AMM_PROGRAM_ID = new PublicKey(
   "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA"
@@ -17,6 +18,32 @@ const PUMP_SWAP_AMM_PROGRAM_ID = new PublicKey(
 const processedAccounts = new Map<string, number>();
 const DEBOUNCE_TIME = 5000; // 5 seconds
 
+export async function processPumpSwapAccountUpdate(data: any): Promise<void> {
+  if(data.account) {
+    try {
+      const result = await parsedAccountData(data);
+      
+      // Skip if we've processed this account recently
+      if (result.pubKey) {
+        const lastProcessed = processedAccounts.get(result.pubKey);
+        const now = Date.now();
+        if (lastProcessed && now - lastProcessed < DEBOUNCE_TIME) {
+          return;
+        }
+        processedAccounts.set(result.pubKey, now);
+      }
+      
+      // Process and save the account data
+      await processPoolAccount(result);
+      
+    } catch (error) {
+      if (error) {
+        console.log("Error parsing account:", error);
+      }
+    }
+  }
+}
+
 async function handleStream(client: Client, args: SubscribeRequest) {
   console.log("Stream Starting...");
   console.log("=".repeat(80));
@@ -37,31 +64,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
     });
   });
 
-  stream.on("data", async (data) => {
-    if(data.account) {
-      try {
-        const result = await parsedAccountData(data);
-        
-        // Skip if we've processed this account recently
-        if (result.pubKey) {
-          const lastProcessed = processedAccounts.get(result.pubKey);
-          const now = Date.now();
-          if (lastProcessed && now - lastProcessed < DEBOUNCE_TIME) {
-            return;
-          }
-          processedAccounts.set(result.pubKey, now);
-        }
-        
-        // Process and save the account data
-        await processPoolAccount(result);
-        
-      } catch (error) {
-        if (error) {
-          console.log("Error parsing account:", error);
-        }
-      }
-    }
-  });
+  stream.on("data", processPumpSwapAccountUpdate);
 
   await new Promise<void>((resolve, reject) => {
     stream.write(args, (err: any) => {
@@ -117,7 +120,7 @@ async function processPoolAccount(accountData: any) {
       console.log("\n" + "=".repeat(80));
       console.log("PUMPSWAP POOL ACCOUNT UPDATE");
       console.log("-".repeat(80));
-      console.log(`Time: ${new Date().toLocaleString()}`);
+      console.log(`Time: ${new Date(streamNow()).toLocaleString()}`);
       console.log(`Pool Address: ${poolAddress}`);
       console.log(`Signature: ${signature || 'N/A'}`);
       console.log(`Account Type: ${accountType}`);
@@ -180,7 +183,7 @@ async function savePoolAccountUpdate(
       // Update pool metadata
       const updatedMetadata = {
         ...existingPool.metadata,
-        last_account_update: new Date().toISOString(),
+        last_account_update: new Date(streamNow()).toISOString(),
         lp_mint: lpMint,
         creator: creator,
         pool_base_token_account: poolBaseTokenAccount,
@@ -212,7 +215,7 @@ async function savePoolAccountUpdate(
       await monitorService.updateGraduationStatus(
         baseMint,
         signature || poolAddress,
-        new Date()
+        new Date(streamNow())
       );
       
       // Save new pool for existing token
@@ -221,7 +224,7 @@ async function savePoolAccountUpdate(
         token_id: token.id,
         platform: 'pumpswap',
         creation_signature: signature || poolAddress,
-        creation_timestamp: new Date(),
+        creation_timestamp: new Date(streamNow()),
         is_active: true,
         metadata: {
           base_mint: baseMint,
@@ -269,13 +272,7 @@ setInterval(() => {
 }, 30000); // Clean up every 30 seconds
 
 // Main execution
-const client = new Client(
-  process.env.GRPC_URL!,
-  process.env.X_TOKEN,
-  undefined,
-);
-
-const req: SubscribeRequest = {
+export const PUMP_SWAP_ACCOUNT_REQUEST: SubscribeRequest = {
   "slots": {},
   "accounts": {
     "pumpswap_amm": {
@@ -293,13 +290,21 @@ const req: SubscribeRequest = {
   transactionsStatus: {}
 }
 
-// Start monitoring
-console.log("\n" + "=".repeat(80));
-console.log("PUMPSWAP ACCOUNT MONITOR");
-console.log("=".repeat(80));
-console.log("Monitoring: PumpSwap AMM account updates");
-console.log("Program: " + PUMP_SWAP_AMM_PROGRAM_ID.toBase58());
-console.log("Data Persistence: Enabled");
-console.log("=".repeat(80) + "\n");
+if (require.main === module) {
+  const client = new Client(
+    process.env.GRPC_URL!,
+    process.env.X_TOKEN,
+    undefined,
+  );
+
+  // Start monitoring
+  console.log("\n" + "=".repeat(80));
+  console.log("PUMPSWAP ACCOUNT MONITOR");
+  console.log("=".repeat(80));
+  console.log("Monitoring: PumpSwap AMM account updates");
+  console.log("Program: " + PUMP_SWAP_AMM_PROGRAM_ID.toBase58());
+  console.log("Data Persistence: Enabled");
+  console.log("=".repeat(80) + "\n");
 
-subscribeCommand(client, req);
\ No newline at end of file
+  subscribeCommand(client, PUMP_SWAP_ACCOUNT_REQUEST);
+}
\ No newline at end of file
@@ -4,15 +4,10 @@ import Client, {
   SubscribeRequest,
   SubscribeRequestFilterTransactions
 } from "@triton-one/yellowstone-grpc";
-import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { SolanaEventParser } from "./utils/event-parser";
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
-import pumpAmmIdl from "./idls/pump_amm_0.1.0.json";
-import { pump_amm_formatter } from "./utils/pump-amm-txn-formatter";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import { PUMP_AMM_DECODER, PUMP_AMM_PROGRAM_ID, PumpSwapPool, parseCreatePool } from "./utils/swapTransactionParser";
 import { monitorService } from "../../database";
+import { streamNow } from "../runtime/stream-clock";
 
 // Suppress parser warnings
 const originalConsoleWarn = console.warn;
@@ -50,19 +45,24 @@ console.error = (message?: any, ...optionalParams: any[]) => {
 };
 
 const TXN_FORMATTER = new TransactionFormatter();
-const PUMP_AMM_PROGRAM_ID = new PublicKey(
-  "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA"
-);
-const PUMP_AMM_IX_PARSER = new SolanaParser([]);
-PUMP_AMM_IX_PARSER.addParserFromIdl(
-  PUMP_AMM_PROGRAM_ID.toBase58(),
-  pumpAmmIdl as Idl
-);
-const PUMP_AMM_EVENT_PARSER = new SolanaEventParser([], console);
-PUMP_AMM_EVENT_PARSER.addParserFromIdl(
-  PUMP_AMM_PROGRAM_ID.toBase58(),
-  pumpAmmIdl as Idl
-);
+
+export async function processPumpSwapPoolUpdate(data: any): Promise<void> {
+  if (data?.transaction) {
+    const txn = TXN_FORMATTER.formTransactionFromJson(
+      data.transaction,
+      streamNow()
+    );
+
+    if (txn.meta?.err) return;
+
+    const decoded = PUMP_AMM_DECODER.decodeTransaction(txn);
+    const newPool = parseCreatePool(decoded);
+    if (!newPool) return;
+    
+    // Process and save the new pool
+    await processNewPool(newPool, decoded.signature);
+  }
+}
 
 async function handleStream(client: Client, args: SubscribeRequest) {
   console.log("🔍 Searching for Newly Created Pools on PumpSwap AMM");
@@ -84,23 +84,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
   });
 
   // Handle updates
-  stream.on("data", async (data) => {
-    if (data?.transaction) {
-      const txn = TXN_FORMATTER.formTransactionFromJson(
-        data.transaction,
-        Date.now()
-      );
-
-      const parsedTxn = decodePumpAmmTxn(txn);
-
-      if (!parsedTxn) return;
-      const formattedPAMMTxn = pump_amm_formatter(parsedTxn, txn);
-      if (!formattedPAMMTxn) return;
-      
-      // Process and save the new pool
-      await processNewPool(formattedPAMMTxn, txn);
-    }
-  });
+  stream.on("data", processPumpSwapPoolUpdate);
 
   // Send subscribe request
   await new Promise<void>((resolve, reject) => {
@@ -130,51 +114,11 @@ async function subscribeCommand(client: Client, args: SubscribeRequest) {
   }
 }
 
-function decodePumpAmmTxn(tx: VersionedTransactionResponse) {
-  if (tx.meta?.err) return;
-
-  const parsedIxs = PUMP_AMM_IX_PARSER.parseTransactionData(
-    tx.transaction.message,
-    tx.meta!.loadedAddresses
-  );
-
-  const pumpAmmIxs = parsedIxs.filter((ix) =>
-    ix.programId.equals(PUMP_AMM_PROGRAM_ID)
-  );
-
-  if (pumpAmmIxs.length === 0) return;
-  const events = PUMP_AMM_EVENT_PARSER.parseEvent(tx);
-  const result = { instructions: pumpAmmIxs, events };
-  bnLayoutFormatter(result);
-  return result;
-}
-
-async function processNewPool(formattedTxn: any, originalTxn: VersionedTransactionResponse) {
+async function processNewPool(newPool: PumpSwapPool, signature: string) {
   try {
-    // Extract create_pool instruction
-    const createPoolIx = formattedTxn.transaction.message.compiledInstructions?.find(
-      (ix: any) => ix.name === "create_pool"
-    ) || formattedTxn.transaction.message.instructions?.find(
-      (ix: any) => ix.name === "create_pool"
-    );
-
-    if (!createPoolIx) return;
-
-    // Extract pool account from instruction accounts
-    const poolAccount = createPoolIx.accounts?.find((acc: any) => acc.name === "pool");
-    const baseMintAccount = createPoolIx.accounts?.find((acc: any) => acc.name === "base_mint");
-    const quoteMintAccount = createPoolIx.accounts?.find((acc: any) => acc.name === "quote_mint");
-    const lpMintAccount = createPoolIx.accounts?.find((acc: any) => acc.name === "lp_mint");
-    const creatorAccount = createPoolIx.accounts?.find((acc: any) => acc.name === "creator");
-
-    if (!poolAccount || !baseMintAccount) {
-      console.log("⚠️ Missing required accounts in create_pool instruction");
-      return;
-    }
-
-    const poolAddress = poolAccount.pubkey;
-    let baseMint = baseMintAccount.pubkey;
-    let quoteMint = quoteMintAccount?.pubkey || "So11111111111111111111111111111111111111112";
+    const poolAddress = newPool.pool;
+    let baseMint = newPool.baseMint;
+    let quoteMint = newPool.quoteMint;
     
     // Swap if SOL is in base position (SOL should always be quote)
     if (baseMint === "So11111111111111111111111111111111111111112") {
@@ -183,14 +127,13 @@ async function processNewPool(formattedTxn: any, originalTxn: VersionedTransacti
       quoteMint = temp;
     }
     
-    const lpMint = lpMintAccount?.pubkey;
-    const creator = creatorAccount?.pubkey;
-    const signature = originalTxn.transaction.signatures[0];
+    const lpMint = newPool.lpMint;
+    const creator = newPool.creator;
 
     console.log("\n" + "🆕".repeat(40));
     console.log("🏊 NEW PUMPSWAP POOL DETECTED!");
     console.log("─".repeat(80));
-    console.log(`⏰ Time: ${new Date().toLocaleString()}`);
+    console.log(`⏰ Time: ${new Date(streamNow()).toLocaleString()}`);
     console.log(`📝 Signature: ${signature}`);
     console.log(`💧 Pool Address: ${poolAddress}`);
     console.log(`🪙 Base Mint (Token): ${baseMint}`);
@@ -228,7 +171,7 @@ async function saveGraduatedToken(
       await monitorService.updateGraduationStatus(
         tokenMint,
         signature,
-        new Date()
+        new Date(streamNow())
       );
 
       // Save pool information
@@ -237,7 +180,7 @@ async function saveGraduatedToken(
         token_id: token.id,
         platform: 'pumpswap',
         creation_signature: signature,
-        creation_timestamp: new Date(),
+        creation_timestamp: new Date(streamNow()),
         is_active: true,
         metadata: {
           base_mint: tokenMint,
@@ -263,10 +206,10 @@ async function saveGraduatedToken(
         platform: 'pumpfun', // Use pumpfun as platform since these are graduated tokens
         creator_address: creator || 'Unknown', // Add creator_address field
         creation_signature: signature, // Use pool creation signature as token creation signature
-        creation_timestamp: new Date(),
+        creation_timestamp: new Date(streamNow()),
         metadata: {
           graduated: true,
-          graduation_timestamp: new Date().toISOString(),
+          graduation_timestamp: new Date(streamNow()).toISOString(),
           pumpswap_pool: poolAddress,
           pumpswap_lp_mint: lpMint,
           graduation_signature: signature,
@@ -281,7 +224,7 @@ async function saveGraduatedToken(
         token_id: tokenId,
         platform: 'pumpswap',
         creation_signature: signature,
-        creation_timestamp: new Date(),
+        creation_timestamp: new Date(streamNow()),
         is_active: true,
         metadata: {
           base_mint: tokenMint,
@@ -305,13 +248,7 @@ async function saveGraduatedToken(
 }
 
 // Main execution
-const client = new Client(
-  process.env.GRPC_URL!,
-  process.env.X_TOKEN,
-  undefined
-);
-
-const req: SubscribeRequest = {
+export const PUMP_SWAP_POOL_REQUEST: SubscribeRequest = {
   accounts: {},
   slots: {},
   transactions: {
@@ -319,7 +256,7 @@ const req: SubscribeRequest = {
       vote: false,
       failed: false,
       signature: undefined,
-      accountInclude: [PUMP_AMM_PROGRAM_ID.toBase58()],
+      accountInclude: [PUMP_AMM_PROGRAM_ID],
       accountExclude: [],
       accountRequired: [],
     },
@@ -333,12 +270,20 @@ const req: SubscribeRequest = {
   commitment: CommitmentLevel.CONFIRMED,
 };
 
-// Start monitoring
-console.log("\n" + "=".repeat(80));
-console.log("🏊 PUMPSWAP NEW POOL MONITOR");
-console.log("=".repeat(80));
-console.log("📍 Monitoring: New pool creation for graduated tokens");
-console.log("🎯 Program: " + PUMP_AMM_PROGRAM_ID.toBase58());
-console.log("=".repeat(80) + "\n");
+if (require.main === module) {
+  const client = new Client(
+    process.env.GRPC_URL!,
+    process.env.X_TOKEN,
+    undefined
+  );
+
+  // Start monitoring
+  console.log("\n" + "=".repeat(80));
+  console.log("🏊 PUMPSWAP NEW POOL MONITOR");
+  console.log("=".repeat(80));
+  console.log("📍 Monitoring: New pool creation for graduated tokens");
+  console.log("🎯 Program: " + PUMP_AMM_PROGRAM_ID);
+  console.log("=".repeat(80) + "\n");
 
-subscribeCommand(client, req);
\ No newline at end of file
+  subscribeCommand(client, PUMP_SWAP_POOL_REQUEST);
+}
\ No newline at end of file
@@ -9,16 +9,11 @@ import Client, {
   SubscribeRequestFilterSlots,
   SubscribeRequestFilterTransactions,
 } from "@triton-one/yellowstone-grpc";
-import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
 import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { SolanaEventParser } from "./utils/event-parser";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
 import { monitorService } from "../../database";
-import * as fs from "fs";
-import * as path from "path";
-import { isObject } from "lodash";
+import { PUMP_AMM_DECODER, PUMP_AMM_PROGRAM_ID, parseSwapTransactionOutput } from "./utils/swapTransactionParser";
+import { streamNow } from "../runtime/stream-clock";
 
 interface SubscribeRequest {
   accounts: { [key: string]: SubscribeRequestFilterAccounts };
@@ -34,27 +29,6 @@ interface SubscribeRequest {
 }
 
 const TXN_FORMATTER = new TransactionFormatter();
-const PUMP_AMM_PROGRAM_ID = new PublicKey(
-  "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA"
-);
-const SOL_MINT = "So11111111111111111111111111111111111111112";
-const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
-
-// Load IDL
-const idlPath = path.join(__dirname, "idls", "pump_amm_0.1.0.json");
-const pumpAmmIdl = JSON.parse(fs.readFileSync(idlPath, "utf8"));
-
-const PUMP_AMM_IX_PARSER = new SolanaParser([]);
-PUMP_AMM_IX_PARSER.addParserFromIdl(
-  PUMP_AMM_PROGRAM_ID.toBase58(),
-  pumpAmmIdl as Idl
-);
-
-const PUMP_AMM_EVENT_PARSER = new SolanaEventParser([], console);
-PUMP_AMM_EVENT_PARSER.addParserFromIdl(
-  PUMP_AMM_PROGRAM_ID.toBase58(),
-  pumpAmmIdl as Idl
-);
 
 // Suppress parser warnings
 const originalConsoleWarn = console.warn;
@@ -68,13 +42,42 @@ console.warn = (message?: any, ...optionalParams: any[]) => {
   originalConsoleWarn(message, ...optionalParams);
 };
 
+export async function processPumpSwapPriceUpdate(data: any): Promise<void> {
+  if (data?.transaction) {
+    const txn = TXN_FORMATTER.formTransactionFromJson(
+      data.transaction,
+      streamNow()
+    );
+
+    if (txn.meta?.err) return;
+
+    const decoded = PUMP_AMM_DECODER.decodeTransaction(txn);
+    const formattedSwapTxn = parseSwapTransactionOutput(decoded, txn.meta);
+    if (!formattedSwapTxn) return;
+    
+    // Always log the swap transaction (like Shyft example)
+    console.log(
+      new Date(streamNow()),
+      ":",
+      `New transaction https://translator.shyft.to/tx/${decoded.signature} \n`,
+      JSON.stringify(formattedSwapTxn, null, 2) + "\n",
+    );
+    console.log(
+      "--------------------------------------------------------------------------------------------------"
+    );
+    
+    // Update database for existing tokens only
+    await updateTokenPrice(formattedSwapTxn, decoded.signature);
+  }
+}
+
 async function handleStream(client: Client, args: SubscribeRequest) {
   // Subscribe for events
   console.log("\n" + "=".repeat(80));
   console.log("💹 PUMPSWAP AMM PRICE MONITOR");
   console.log("=".repeat(80));
   console.log("📍 Tracking: Real-time price updates from PumpSwap AMM");
-  console.log("🎯 Program: " + PUMP_AMM_PROGRAM_ID.toBase58());
+  console.log("🎯 Program: " + PUMP_AMM_PROGRAM_ID);
   console.log("=".repeat(80) + "\n");
   
   const stream = await client.subscribe();
@@ -95,34 +98,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
   });
 
   // Handle updates
-  stream.on("data", async (data) => {
-    if (data?.transaction) {
-      const txn = TXN_FORMATTER.formTransactionFromJson(
-        data.transaction,
-        Date.now()
-      );
-
-      const parsedTxn = decodePumpAmmTxn(txn);
-
-      if (!parsedTxn) return;
-      const formattedSwapTxn = await parseSwapTransactionOutput(parsedTxn, txn);
-      if (!formattedSwapTxn) return;
-      
-      // Always log the swap transaction (like Shyft example)
-      console.log(
-        new Date(),
-        ":",
-        `New transaction https://translator.shyft.to/tx/${txn.transaction.signatures[0]} \n`,
-        JSON.stringify(formattedSwapTxn, null, 2) + "\n",
-      );
-      console.log(
-        "--------------------------------------------------------------------------------------------------"
-      );
-      
-      // Update database for existing tokens only
-      await updateTokenPrice(formattedSwapTxn, txn.transaction.signatures[0]);
-    }
-  });
+  stream.on("data", processPumpSwapPriceUpdate);
 
   // Send subscribe request
   await new Promise<void>((resolve, reject) => {
@@ -152,99 +128,6 @@ async function subscribeCommand(client: Client, args: SubscribeRequest) {
   }
 }
 
-function decodePumpAmmTxn(tx: VersionedTransactionResponse) {
-  if (tx.meta?.err) return;
-  try {
-    const parsedIxs = PUMP_AMM_IX_PARSER.parseTransactionData(
-      tx.transaction.message,
-      tx.meta!.loadedAddresses,
-    );
-
-    const pumpAmmIxs = parsedIxs.filter((ix) =>
-      ix.programId.equals(PUMP_AMM_PROGRAM_ID) || ix.programId.equals(TOKEN_PROGRAM_ID),
-    );
-
-    const parsedInnerIxs = PUMP_AMM_IX_PARSER.parseTransactionWithInnerInstructions(tx);
-
-    const pump_amm_inner_ixs = parsedInnerIxs.filter((ix) =>
-      ix.programId.equals(PUMP_AMM_PROGRAM_ID) || ix.programId.equals(TOKEN_PROGRAM_ID),
-    );
-
-    if (pumpAmmIxs.length === 0) return;
-    const events = PUMP_AMM_EVENT_PARSER.parseEvent(tx);
-    const result = { instructions: { pumpAmmIxs, events }, inner_ixs: pump_amm_inner_ixs };
-    bnLayoutFormatter(result);
-    return result;
-  } catch (err) {
-    // Suppress errors
-  }
-}
-
-async function parseSwapTransactionOutput(parsedInstruction: any, txn: any) {
-  let price;
-  const decimal = txn.meta?.preTokenBalances.find(
-    (instruction: any) => instruction.mint != SOL_MINT
-  )?.uiTokenAmount?.decimals;
-  
-  const swapInstruction = parsedInstruction.instructions.pumpAmmIxs.find(
-    (instruction: any) => instruction.name === 'buy' || instruction.name === 'sell'
-  );
-
-  if (!swapInstruction) {
-    return;
-  }
-  
-  const baseMintPubkey = swapInstruction.accounts.find((account: any) => account.name === 'base_mint')?.pubkey;
-  const quoteMintPubkey = swapInstruction.accounts.find((account: any) => account.name === 'quote_mint')?.pubkey;
-  const poolPubkey = swapInstruction.accounts.find((account: any) => account.name === 'pool')?.pubkey;
-
-  const parsedEvent = parsedInstruction.instructions.events[0]?.data;
-  if (!parsedEvent) return;
-  
-  const pool_base_token_reserves = parsedEvent.pool_base_token_reserves;
-  const pool_quote_token_reserves = parsedEvent.pool_quote_token_reserves;
-  
-  if (baseMintPubkey === SOL_MINT) {
-    price = calculatePumpAmmPrice(
-      pool_base_token_reserves,
-      pool_quote_token_reserves,
-      decimal || 6
-    );
-  } else {
-    price = calculatePumpAmmPrice(
-      pool_quote_token_reserves,
-      pool_base_token_reserves,
-      decimal || 6
-    );
-  }
-  
-  const formattedPrice = price.toFixed(20).replace(/0+$/, '');
-  const output = {
-    base_mint: baseMintPubkey,
-    quote_mint: quoteMintPubkey,
-    pool_base_token_reserver: pool_base_token_reserves,
-    pool_quote_token_reserver: pool_quote_token_reserves,
-    price: formattedPrice + " SOL",
-    // Additional fields for database update
-    pool_address: poolPubkey,
-    price_sol: parseFloat(formattedPrice),
-    token_mint: baseMintPubkey === SOL_MINT ? quoteMintPubkey : baseMintPubkey,
-    is_buy: swapInstruction.name === 'buy'
-  };
-  
-  return output;
-}
-
-function calculatePumpAmmPrice(
-  pool_base_reserve: number,
-  pool_quote_reserve: number,
-  decimal: number
-): number {
-  const base = pool_base_reserve / 1_000_000_000;
-  const quote = pool_quote_reserve / Math.pow(10, decimal);
-  return base / quote;
-}
-
 async function updateTokenPrice(swapData: any, signature: string) {
   try {
     // Check if token exists in database
@@ -290,7 +173,7 @@ async function updateTokenPrice(swapData: any, signature: string) {
       price_usd: priceUsd,
       volume_sol: 0, // Volume tracked separately
       volume_usd: 0,
-      timestamp: new Date()
+      timestamp: new Date(streamNow())
     });
 
     // Only log database updates if token exists
@@ -301,33 +184,7 @@ async function updateTokenPrice(swapData: any, signature: string) {
   }
 }
 
-// BN Layout formatter helper
-function bnLayoutFormatter(obj: any) {
-  for (const key in obj) {
-    if (obj[key]?.constructor?.name === "PublicKey") {
-      obj[key] = (obj[key] as PublicKey).toBase58();
-    } else if (obj[key]?.constructor?.name === "BN") {
-      obj[key] = Number(obj[key].toString());
-    } else if (obj[key]?.constructor?.name === "BigInt") {
-      obj[key] = Number(obj[key].toString());
-    } else if (obj[key]?.constructor?.name === "Buffer") {
-      obj[key] = (obj[key] as Buffer).toString("base64");
-    } else if (isObject(obj[key])) {
-      bnLayoutFormatter(obj[key]);
-    } else {
-      obj[key] = obj[key];
-    }
-  }
-}
-
-// Main execution
-const client = new Client(
-  process.env.GRPC_URL!,
-  process.env.X_TOKEN,
-  undefined
-);
-
-const req: SubscribeRequest = {
+export const PUMP_SWAP_PRICE_REQUEST: SubscribeRequest = {
   accounts: {},
   slots: {},
   transactions: {
@@ -335,7 +192,7 @@ const req: SubscribeRequest = {
       vote: false,
       failed: false,
       signature: undefined,
-      accountInclude: [PUMP_AMM_PROGRAM_ID.toBase58()],
+      accountInclude: [PUMP_AMM_PROGRAM_ID],
       accountExclude: [],
       accountRequired: [],
     },
@@ -352,7 +209,12 @@ const req: SubscribeRequest = {
 // Export for use in npm scripts
 export default class PumpSwapPriceMonitor {
   async start() {
-    await subscribeCommand(client, req);
+    const client = new Client(
+      process.env.GRPC_URL!,
+      process.env.X_TOKEN,
+      undefined
+    );
+    await subscribeCommand(client, PUMP_SWAP_PRICE_REQUEST);
   }
 
   async stop() {
@@ -9,16 +9,12 @@ import Client, {
   SubscribeRequestFilterSlots,
   SubscribeRequestFilterTransactions,
 } from "@triton-one/yellowstone-grpc";
-import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
 import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { SolanaEventParser } from "./utils/event-parser";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
 import { monitorService } from "../../database";
-import * as fs from "fs";
-import * as path from "path";
-import { isObject } from "lodash";
+import { PUMP_AMM_DECODER, PUMP_AMM_PROGRAM_ID, PumpSwapTrade, parseSwapTransaction } from "./utils/swapTransactionParser";
+import { streamNow } from "../runtime/stream-clock";
+import { holderLedger } from "../../services/holder-ledger/holder-ledger";
 
 interface SubscribeRequest {
   accounts: { [key: string]: SubscribeRequestFilterAccounts };
@@ -33,39 +29,13 @@ interface SubscribeRequest {
   ping?: SubscribeRequestPing | undefined;
 }
 
-interface TransactionEvent {
-  type: "Buy" | "Sell";
-  user: string;
-  mint: string;
-  in_amount: number;
-  out_amount: number;
-  pool: string;
+interface TransactionEvent extends PumpSwapTrade {
   signature: string;
+  slot: number;
   timestamp: Date;
 }
 
 const TXN_FORMATTER = new TransactionFormatter();
-const PUMP_AMM_PROGRAM_ID = new PublicKey(
-  "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA"
-);
-const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
-const SOL_MINT = "So11111111111111111111111111111111111111112";
-
-// Load IDL
-const idlPath = path.join(__dirname, "idls", "pump_amm_0.1.0.json");
-const pumpAmmIdl = JSON.parse(fs.readFileSync(idlPath, "utf8"));
-
-const PUMP_AMM_IX_PARSER = new SolanaParser([]);
-PUMP_AMM_IX_PARSER.addParserFromIdl(
-  PUMP_AMM_PROGRAM_ID.toBase58(),
-  pumpAmmIdl as Idl
-);
-
-const PUMP_AMM_EVENT_PARSER = new SolanaEventParser([], console);
-PUMP_AMM_EVENT_PARSER.addParserFromIdl(
-  PUMP_AMM_PROGRAM_ID.toBase58(),
-  pumpAmmIdl as Idl
-);
 
 // Suppress parser warnings
 const originalConsoleWarn = console.warn;
@@ -79,12 +49,67 @@ console.warn = (message?: any, ...optionalParams: any[]) => {
   originalConsoleWarn(message, ...optionalParams);
 };
 
+// Swaps are saved as they arrive; only the holder ledger buffers
+export async function flushBatch(): Promise<void> {
+  await holderLedger.flushTransfers();
+}
+
+export async function processPumpSwapTransactionUpdate(data: any): Promise<void> {
+  if (data?.transaction) {
+    const txn = TXN_FORMATTER.formTransactionFromJson(
+      data.transaction,
+      streamNow()
+    );
+
+    if (txn.meta?.err) return;
+
+    const decoded = PUMP_AMM_DECODER.decodeTransaction(txn);
+    const trade = parseSwapTransaction(decoded);
+    if (!trade) return;
+
+    const transactionEvent: TransactionEvent = {
+      ...trade,
+      signature: decoded.signature,
+      slot: decoded.slot,
+      timestamp: new Date(streamNow())
+    };
+
+    // Log the transaction
+    console.log(
+      new Date(streamNow()).toISOString(),
+      ":",
+      `New ${transactionEvent.type} transaction https://translator.shyft.to/tx/${transactionEvent.signature}`
+    );
+    console.log(`  👤 User: ${transactionEvent.user}`);
+    console.log(`  🪙 Token: ${transactionEvent.mint}`);
+    console.log(`  💸 In Amount: ${transactionEvent.in_amount}`);
+    console.log(`  💰 Out Amount: ${transactionEvent.out_amount}`);
+    console.log("─".repeat(100));
+
+    // Token movements beyond the swap itself, for holder reconstruction
+    // after graduation; the pool owns its vaults
+    holderLedger.captureTrade({
+      signature: transactionEvent.signature,
+      mintAddress: transactionEvent.mint,
+      trader: transactionEvent.user,
+      type: transactionEvent.type === "Buy" ? "buy" : "sell",
+      tokenAmount: (transactionEvent.type === "Buy" ? transactionEvent.out_amount : transactionEvent.in_amount) / 1e6,
+      slot: transactionEvent.slot || null,
+      blockTime: transactionEvent.timestamp,
+      excludeOwners: [transactionEvent.pool]
+    }, txn.meta);
+
+    // Save to database
+    await saveTransaction(transactionEvent);
+  }
+}
+
 async function handleStream(client: Client, args: SubscribeRequest) {
   console.log("\n" + "=".repeat(80));
   console.log("📝 PUMPSWAP TRANSACTION MONITOR");
   console.log("=".repeat(80));
   console.log("📍 Tracking: Buy and Sell transactions on PumpSwap AMM");
-  console.log("🎯 Program: " + PUMP_AMM_PROGRAM_ID.toBase58());
+  console.log("🎯 Program: " + PUMP_AMM_PROGRAM_ID);
   console.log("💾 Saving: Transaction history with user details");
   console.log("=".repeat(80) + "\n");
   
@@ -106,35 +131,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
   });
 
   // Handle updates
-  stream.on("data", async (data) => {
-    if (data?.transaction) {
-      const txn = TXN_FORMATTER.formTransactionFromJson(
-        data.transaction,
-        Date.now()
-      );
-
-      const parsedTxn = decodePumpAmmTxn(txn);
-      if (!parsedTxn) return;
-
-      const transactionEvent = parseSwapTransaction(parsedTxn, txn);
-      if (!transactionEvent) return;
-
-      // Log the transaction
-      console.log(
-        new Date().toISOString(),
-        ":",
-        `New ${transactionEvent.type} transaction https://translator.shyft.to/tx/${txn.transaction.signatures[0]}`
-      );
-      console.log(`  👤 User: ${transactionEvent.user}`);
-      console.log(`  🪙 Token: ${transactionEvent.mint}`);
-      console.log(`  💸 In Amount: ${transactionEvent.in_amount}`);
-      console.log(`  💰 Out Amount: ${transactionEvent.out_amount}`);
-      console.log("─".repeat(100));
-
-      // Save to database
-      await saveTransaction(transactionEvent);
-    }
-  });
+  stream.on("data", processPumpSwapTransactionUpdate);
 
   // Send subscribe request
   await new Promise<void>((resolve, reject) => {
@@ -164,113 +161,6 @@ async function subscribeCommand(client: Client, args: SubscribeRequest) {
   }
 }
 
-function decodePumpAmmTxn(tx: VersionedTransactionResponse) {
-  if (tx.meta?.err) return;
-  
-  try {
-    // Parse main instructions
-    const parsedIxs = PUMP_AMM_IX_PARSER.parseTransactionData(
-      tx.transaction.message,
-      tx.meta!.loadedAddresses,
-    );
-
-    // Filter for PumpAMM and Token Program instructions
-    const pumpAmmIxs = parsedIxs.filter((ix) =>
-      ix.programId.equals(PUMP_AMM_PROGRAM_ID) || ix.programId.equals(TOKEN_PROGRAM_ID),
-    );
-
-    // Parse inner instructions - CRITICAL for accurate amount tracking
-    const parsedInnerIxs = PUMP_AMM_IX_PARSER.parseTransactionWithInnerInstructions(tx);
-    
-    const pump_amm_inner_ixs = parsedInnerIxs.filter((ix) =>
-      ix.programId.equals(PUMP_AMM_PROGRAM_ID) || ix.programId.equals(TOKEN_PROGRAM_ID),
-    );
-
-    if (pumpAmmIxs.length === 0) return;
-    
-    // Parse events
-    const events = PUMP_AMM_EVENT_PARSER.parseEvent(tx);
-    
-    const result = { 
-      instructions: { pumpAmmIxs, events }, 
-      inner_ixs: pump_amm_inner_ixs 
-    };
-    
-    bnLayoutFormatter(result);
-    return result;
-  } catch (err) {
-    // Suppress errors
-  }
-}
-
-function parseSwapTransaction(parsedInstruction: any, txn: any): TransactionEvent | null {
-  try {
-    // Find the swap instruction (buy or sell)
-    const swapInstruction = parsedInstruction.instructions.pumpAmmIxs.find(
-      (instruction: any) => instruction.name === 'buy' || instruction.name === 'sell'
-    );
-
-    if (!swapInstruction) {
-      return null;
-    }
-
-    // Extract key accounts
-    const userPubkey = swapInstruction.accounts.find((account: any) => account.name === 'user')?.pubkey;
-    const poolPubkey = swapInstruction.accounts.find((account: any) => account.name === 'pool')?.pubkey;
-    const baseMintPubkey = swapInstruction.accounts.find((account: any) => account.name === 'base_mint')?.pubkey;
-    const quoteMintPubkey = swapInstruction.accounts.find((account: any) => account.name === 'quote_mint')?.pubkey;
-
-    // Determine token mint (non-SOL mint)
-    const tokenMint = baseMintPubkey === SOL_MINT ? quoteMintPubkey : baseMintPubkey;
-
-    // Extract swap amounts from instruction args
-    const swapAmount = swapInstruction.name === 'sell'
-      ? swapInstruction.args?.base_amount_in
-      : swapInstruction.args?.base_amount_out;
-
-    // Find the actual output amount from inner transfer instructions
-    const determineOutAmount = () => {
-      if (!parsedInstruction.inner_ixs || parsedInstruction.inner_ixs.length === 0) {
-        // Fallback to instruction args if no inner instructions
-        return swapInstruction.name === 'sell'
-          ? swapInstruction.args?.min_quote_amount_out
-          : swapInstruction.args?.max_quote_amount_in;
-      }
-      
-      // Find transferChecked instruction with different amount than swap
-      const transferChecked = parsedInstruction.inner_ixs.find(
-        (instruction: any) =>
-          instruction.name === 'transferChecked' && 
-          instruction.args?.amount !== swapAmount
-      );
-      
-      return transferChecked?.args?.amount || 0;
-    };
-
-    const amountIn = swapInstruction.name === 'buy'
-      ? determineOutAmount()  // For buy, user puts in quote token
-      : swapAmount;           // For sell, user puts in base token
-
-    const amountOut = swapInstruction.name === 'sell'
-      ? determineOutAmount()  // For sell, user gets quote token
-      : swapAmount;           // For buy, user gets base token
-
-    return {
-      type: swapInstruction.name === 'buy' ? "Buy" : "Sell",
-      user: userPubkey || "",
-      mint: tokenMint || "",
-      in_amount: Number(amountIn || 0),
-      out_amount: Number(amountOut || 0),
-      pool: poolPubkey || "",
-      signature: txn.transaction.signatures[0],
-      timestamp: new Date()
-    };
-  } catch (error) {
-    console.error("Error parsing swap transaction:", error);
-    return null;
-  }
-}
-
 async function saveTransaction(event: TransactionEvent) {
   try {
     // Check if token exists in database
@@ -309,7 +199,7 @@ async function saveTransaction(event: TransactionEvent) {
       sol_amount: solAmount.toString(),
       price_per_token: tokenAmount > 0 ? solAmount / tokenAmount : 0,
       block_time: event.timestamp,
-      slot: 0  // We don't have slot from the parsed data
+      slot: event.slot
     });
 
     console.log(`💾 Saved ${event.type} transaction for ${event.mint.slice(0, 8)}...`);
@@ -319,33 +209,7 @@ async function saveTransaction(event: TransactionEvent) {
   }
 }
 
-// BN Layout formatter helper
-function bnLayoutFormatter(obj: any) {
-  for (const key in obj) {
-    if (obj[key]?.constructor?.name === "PublicKey") {
-      obj[key] = (obj[key] as PublicKey).toBase58();
-    } else if (obj[key]?.constructor?.name === "BN") {
-      obj[key] = Number(obj[key].toString());
-    } else if (obj[key]?.constructor?.name === "BigInt") {
-      obj[key] = Number(obj[key].toString());
-    } else if (obj[key]?.constructor?.name === "Buffer") {
-      obj[key] = (obj[key] as Buffer).toString("base64");
-    } else if (isObject(obj[key])) {
-      bnLayoutFormatter(obj[key]);
-    } else {
-      obj[key] = obj[key];
-    }
-  }
-}
-
-// Main execution
-const client = new Client(
-  process.env.GRPC_URL!,
-  process.env.X_TOKEN,
-  undefined
-);
-
-const req: SubscribeRequest = {
+export const PUMP_SWAP_TRANSACTION_REQUEST: SubscribeRequest = {
   accounts: {},
   slots: {},
   transactions: {
@@ -353,7 +217,7 @@ const req: SubscribeRequest = {
       vote: false,
       failed: false,
       signature: undefined,
-      accountInclude: [PUMP_AMM_PROGRAM_ID.toBase58()],
+      accountInclude: [PUMP_AMM_PROGRAM_ID],
       accountExclude: [],
       accountRequired: [],
     },
@@ -370,7 +234,12 @@ const req: SubscribeRequest = {
 // Export for use in npm scripts
 export default class PumpSwapTransactionMonitor {
   async start() {
-    await subscribeCommand(client, req);
+    const client = new Client(
+      process.env.GRPC_URL!,
+      process.env.X_TOKEN,
+      undefined
+    );
+    await subscribeCommand(client, PUMP_SWAP_TRANSACTION_REQUEST);
   }
 
   async stop() {
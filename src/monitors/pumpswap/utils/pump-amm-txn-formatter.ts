@@ -1,39 +0,0 @@
-export function pump_amm_formatter(parsedInstruction: any, txn: any){
-    let output = {};
-    const instruction_name = parsedInstruction.instructions.find((x: any)=> x.name === 'create_pool')
-    if(!instruction_name)return;
-    if(txn.version === 0){
-      output = {
-        ...txn,
-        meta: {
-          ...txn.meta,
-          innerInstructions: parsedInstruction.inner_ixs,
-        },
-        transaction: {
-          ...txn.transaction,
-          message: {
-            ...txn.transaction.message,
-            compiledInstructions: parsedInstruction.instructions,
-          },
-        }
-      }
-    }
-    else {
-      output = {
-        ...txn,
-        meta: {
-          ...txn.meta,
-          innerInstructions: parsedInstruction.inner_ixs,
-        },
-        transaction: {
-          ...txn.transaction,
-          message: {
-            ...txn.transaction.message,
-            instructions: parsedInstruction.instructions,
-          },
-        }
-      }
-    }
-  
-    return output;
-  }
\ No newline at end of file
@@ -1,54 +1,141 @@
-export function parseSwapTransactionOutput(parsedInstruction: any, txn: any) {
-    let price;
-    const SOL_MINT = 'So11111111111111111111111111111111111111112';
-    const decimal = txn.meta?.preTokenBalances.find(
-        (instruction: any) => instruction.mint != SOL_MINT     
-    ).uiTokenAmount?.decimals;
-    const swapInstruction = parsedInstruction.instructions.pumpFunIxs.find(
-        (instruction: any) => instruction.name === 'buy' || instruction.name === 'sell'
+import { ConfirmedTransactionMeta } from "@solana/web3.js";
+import { IdlDecoder, DecodedInstruction, DecodedTransaction, findAccount } from "../../decoder/idl-decoder";
+import { getProgramIdl } from "../../decoder/idl-registry";
+
+export const PUMP_AMM_PROGRAM_ID = "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA";
+export const PUMP_AMM_DECODER = new IdlDecoder([getProgramIdl(PUMP_AMM_PROGRAM_ID)!]);
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+export interface PumpSwapTrade {
+    type: "Buy" | "Sell";
+    user: string;
+    mint: string;
+    pool: string;
+    in_amount: number;   // lamports for buys, token atoms for sells
+    out_amount: number;  // token atoms for buys, lamports for sells
+}
+
+export interface PumpSwapPool {
+    pool: string;
+    baseMint: string;
+    quoteMint: string;
+    lpMint?: string;
+    creator?: string;
+}
+
+/**
+ * Swaps routed through aggregators call the AMM by CPI, so the
+ * instruction may be top-level or inner
+ */
+function findSwapInstruction(decoded: DecodedTransaction): DecodedInstruction | undefined {
+    return [...decoded.instructions, ...decoded.innerInstructions].find(
+        (instruction) => instruction.name === 'buy' || instruction.name === 'sell'
     );
+}
+
+function findSwapEvent(decoded: DecodedTransaction, swapInstruction: DecodedInstruction) {
+    const pool = findAccount(swapInstruction, 'pool');
+    const name = swapInstruction.name === 'buy' ? 'BuyEvent' : 'SellEvent';
+    return decoded.events.find((event) => event.name === name && event.data.pool === pool)?.data;
+}
+
+/**
+ * Amounts the user actually paid and received, fees included, from the
+ * BuyEvent or SellEvent
+ */
+export function parseSwapTransaction(decoded: DecodedTransaction): PumpSwapTrade | undefined {
+    const swapInstruction = findSwapInstruction(decoded);
+    if (!swapInstruction) return;
+
+    const event = findSwapEvent(decoded, swapInstruction);
+    if (!event) return;
+
+    const baseMint = findAccount(swapInstruction, 'base_mint');
+    const quoteMint = findAccount(swapInstruction, 'quote_mint');
+    const isBuy = swapInstruction.name === 'buy';
+
+    return {
+        type: isBuy ? "Buy" : "Sell",
+        user: findAccount(swapInstruction, 'user') || event.user,
+        mint: (baseMint === SOL_MINT ? quoteMint : baseMint) || "",
+        pool: event.pool,
+        in_amount: Number(isBuy ? event.user_quote_amount_in : event.base_amount_in),
+        out_amount: Number(isBuy ? event.base_amount_out : event.user_quote_amount_out)
+    };
+}
 
+/**
+ * Pool price after the swap, from the reserves in its event. The token's
+ * decimals come from the transaction's token balances.
+ */
+export function parseSwapTransactionOutput(decoded: DecodedTransaction, meta: ConfirmedTransactionMeta | null | undefined) {
+    const swapInstruction = findSwapInstruction(decoded);
     if (!swapInstruction) {
         return;
     }
-    const baseMintPubkey = swapInstruction.accounts.find((account: any) => account.name === 'base_mint')?.pubkey;
-    const quoteMintPubkey = swapInstruction.accounts.find((account: any) => account.name === 'quote_mint')?.pubkey;
 
-    const parsedEvent = parsedInstruction.instructions.events[0]?.data;
+    const parsedEvent = findSwapEvent(decoded, swapInstruction);
+    if (!parsedEvent) {
+        return;
+    }
+
+    const baseMintPubkey = findAccount(swapInstruction, 'base_mint');
+    const quoteMintPubkey = findAccount(swapInstruction, 'quote_mint');
+    const tokenMint = baseMintPubkey === SOL_MINT ? quoteMintPubkey : baseMintPubkey;
+    const decimal = meta?.preTokenBalances?.find(
+        (balance) => balance.mint === tokenMint
+    )?.uiTokenAmount?.decimals;
+
     const pool_base_token_reserves = parsedEvent.pool_base_token_reserves;
     const pool_quote_token_reserves = parsedEvent.pool_quote_token_reserves;
-    if(baseMintPubkey === SOL_MINT){
-        price = calculatePumpAmmPrice(
-            pool_base_token_reserves,
-            pool_quote_token_reserves,
-            decimal
-        );
-    }else {
-        price = calculatePumpAmmPrice(
-            pool_quote_token_reserves,
-            pool_base_token_reserves,
-            decimal
-        );
-    }
-    const formattedPrice = price.toFixed(20).replace(/0+$/, ''); 
-    const output = {
-        base_mint : baseMintPubkey,
+
+    const price = baseMintPubkey === SOL_MINT
+        ? calculatePumpAmmPrice(pool_base_token_reserves, pool_quote_token_reserves, decimal ?? 6)
+        : calculatePumpAmmPrice(pool_quote_token_reserves, pool_base_token_reserves, decimal ?? 6);
+
+    const formattedPrice = price.toFixed(20).replace(/0+$/, '');
+    return {
+        base_mint: baseMintPubkey,
         quote_mint: quoteMintPubkey,
-        pool_base_token_reserver: pool_base_token_reserves,
-        pool_quote_token_reserver: pool_quote_token_reserves,
+        pool_base_token_reserves,
+        pool_quote_token_reserves,
         price: formattedPrice + " SOL",
-    }
-    return output;
-
+        // Additional fields for database update
+        pool_address: findAccount(swapInstruction, 'pool'),
+        price_sol: parseFloat(formattedPrice),
+        token_mint: tokenMint,
+        is_buy: swapInstruction.name === 'buy'
+    };
 }
 
+/**
+ * pump.fun's migrate creates the pool by CPI, so create_pool is usually inner
+ */
+export function parseCreatePool(decoded: DecodedTransaction): PumpSwapPool | undefined {
+    const createPoolIx = [...decoded.instructions, ...decoded.innerInstructions].find(
+        (instruction) => instruction.name === 'create_pool'
+    );
+    const pool = findAccount(createPoolIx, 'pool');
+    const baseMint = findAccount(createPoolIx, 'base_mint');
+    const quoteMint = findAccount(createPoolIx, 'quote_mint');
+    if (!pool || !baseMint || !quoteMint) return;
+
+    return {
+        pool,
+        baseMint,
+        quoteMint,
+        lpMint: findAccount(createPoolIx, 'lp_mint'),
+        creator: findAccount(createPoolIx, 'creator')
+    };
+}
 
 function calculatePumpAmmPrice(
     pool_base_reserve: number,
     pool_quote_reserve: number,
     decimal : number
 ): number {
-    const base = pool_base_reserve/ 1_000_000_000;;
-    const quote = pool_quote_reserve/ Math.pow(10, decimal);
+    const base = pool_base_reserve / 1_000_000_000;
+    const quote = pool_quote_reserve / Math.pow(10, decimal);
     return base / quote;
-}
\ No newline at end of file
+}
@@ -12,7 +12,7 @@ import Client, {
 import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
 import base58 from "bs58";
 import { BorshAccountsCoder, Idl } from "@coral-xyz/anchor";
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
+import { bnLayoutFormatter, RAYDIUM_LAYOUT_OPTIONS } from "../decoder/bn-layout-formatter";
 import raydiumLaunchpadIdl from "./idls/raydium_launchpad.json";
 import { getDbPool } from "../../database";
 
@@ -52,7 +52,7 @@ async function decodeRaydiumLaunchpadAccountData(data: any) {
   let parsedAccount;
   try {
     parsedAccount = coder.decodeAny(accountData?.data);
-    bnLayoutFormatter(parsedAccount);
+    bnLayoutFormatter(parsedAccount, RAYDIUM_LAYOUT_OPTIONS);
   } catch (error) {
     console.error("Failed to decode pool state:", error);
     return null;
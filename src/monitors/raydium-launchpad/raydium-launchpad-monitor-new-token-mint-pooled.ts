@@ -9,13 +9,16 @@ import Client, {
   SubscribeRequestFilterSlots,
   SubscribeRequestFilterTransactions,
 } from "@triton-one/yellowstone-grpc";
-import { PublicKey, VersionedTransactionResponse, Connection } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
+import { PublicKey, Connection } from "@solana/web3.js";
 import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
-import raydiumLaunchpadIdl from "./idls/raydium_launchpad.json";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import {
+  RAYDIUM_LAUNCHPAD_DECODER,
+  RAYDIUM_LAUNCHPAD_PROGRAM_ID,
+  TransactionType,
+  determineTransactionType,
+  extractTransactionData
+} from "./utils/rl-transaction-formatter";
 import { monitorService } from "../../database";
 import { grpcPool } from '../../grpc';  // ADDED: Import pool
 
@@ -47,15 +50,6 @@ interface TokenMetadata {
 }
 
 const TXN_FORMATTER = new TransactionFormatter();
-const RAYDIUM_LAUNCHPAD_PROGRAM_ID = new PublicKey(
-  "LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj"
-);
-
-const RAYDIUM_LAUNCHPAD_IX_PARSER = new SolanaParser([]);
-RAYDIUM_LAUNCHPAD_IX_PARSER.addParserFromIdl(
-  RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58(),
-  raydiumLaunchpadIdl as Idl
-);
 
 // Metaplex Token Metadata Program
 const TOKEN_METADATA_PROGRAM_ID = new PublicKey(
@@ -316,24 +310,17 @@ async function handleStream(client: Client, args: SubscribeRequest, monitorId: s
         Date.now()
       );
 
-      const parsedTxn = decodeRaydiumLaunchpad(txn);
-      if (!parsedTxn) return;
-      
-      // Filter for initialize instructions only
-      const initializeInstruction = parsedTxn.instructions?.find((ix: any) => ix.name === "initialize");
-      if (!initializeInstruction) return;
-      
-      // Debug: Log the full instruction to understand structure
-      console.log("Initialize instruction accounts:", initializeInstruction.accounts?.map((acc: any) => ({
-        name: acc.name,
-        pubkey: acc.pubkey
-      })));
-      
+      if (txn.meta?.err) return;
+
+      const decoded = RAYDIUM_LAUNCHPAD_DECODER.decodeTransaction(txn);
+      if (determineTransactionType(decoded) !== TransactionType.POOL_CREATION) return;
+
       // Extract token information from the initialize instruction
-      const poolState = initializeInstruction.accounts?.find((acc: any) => acc.name === "pool_state")?.pubkey;
-      const baseTokenMint = initializeInstruction.accounts?.find((acc: any) => acc.name === "base_mint")?.pubkey;
-      const quoteTokenMint = initializeInstruction.accounts?.find((acc: any) => acc.name === "quote_mint")?.pubkey;
-      const creator = initializeInstruction.accounts?.find((acc: any) => acc.name === "creator")?.pubkey;
+      const pool = extractTransactionData(TransactionType.POOL_CREATION, decoded);
+      const poolState: string | undefined = pool.poolId;
+      const baseTokenMint: string | undefined = pool.baseMint;
+      const quoteTokenMint: string | undefined = pool.quoteMint;
+      const creator: string | undefined = pool.creator;
       
       // Skip if we don't have the required token mint
       if (!baseTokenMint) {
@@ -354,14 +341,14 @@ async function handleStream(client: Client, args: SubscribeRequest, monitorId: s
       
       const output = {
         timestamp: new Date().toISOString(),
-        signature: txn.transaction.signatures[0],
+        signature: decoded.signature,
         poolState: poolState?.toString(),
         baseTokenMint: baseTokenMint?.toString(),
         quoteTokenMint: quoteTokenMint?.toString() === 'So11111111111111111111111111111111111111112' ? 'SOL' : quoteTokenMint?.toString(),
         creator: creator?.toString() || 'unknown',
         tokenMetadata: tokenMetadata,
-        solscanUrl: `https://solscan.io/tx/${txn.transaction.signatures[0]}`,
-        shyftUrl: `https://translator.shyft.to/tx/${txn.transaction.signatures[0]}`
+        solscanUrl: `https://solscan.io/tx/${decoded.signature}`,
+        shyftUrl: `https://translator.shyft.to/tx/${decoded.signature}`
       };
       
       console.log(
@@ -444,7 +431,7 @@ async function handleStream(client: Client, args: SubscribeRequest, monitorId: s
 async function subscribeCommand(client: Client, args: SubscribeRequest, monitorId: string) {
   console.log("Raydium Launchpad New Token Monitor (Pooled V3)");  // CHANGED: Added "Pooled V3"
   console.log("====================================================");
-  console.log("Program ID:", RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58());
+  console.log("Program ID:", RAYDIUM_LAUNCHPAD_PROGRAM_ID);
   console.log("Features: On-chain + Off-chain metadata extraction");
   console.log("Using gRPC Connection Pool with proper stream cleanup");  // ADDED: New line
   console.log("Monitoring for initialize instructions...\n");
@@ -490,7 +477,7 @@ async function main() {
         vote: false,
         failed: false,
         signature: undefined,
-        accountInclude: [RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58()],
+        accountInclude: [RAYDIUM_LAUNCHPAD_PROGRAM_ID],
         accountExclude: [],
         accountRequired: [],
       },
@@ -516,30 +503,3 @@ main().catch(error => {
   console.error('Monitor failed:', error);
   process.exit(1);
 });
-
-
-function decodeRaydiumLaunchpad(tx: VersionedTransactionResponse) {
-  if (tx.meta?.err) return;
-
-  try {
-    const parsedIxs = RAYDIUM_LAUNCHPAD_IX_PARSER.parseTransactionData(
-      tx.transaction.message,
-      tx.meta!.loadedAddresses
-    );
-
-    const raydiumLaunchpadIxs = parsedIxs.filter((ix) =>
-      ix.programId.equals(RAYDIUM_LAUNCHPAD_PROGRAM_ID)
-    );
-
-    if (raydiumLaunchpadIxs.length === 0) return;
-
-    const cleanedInstructions = raydiumLaunchpadIxs.filter((ix: any) => ix.name !== "unknown");
-
-    const result = { instructions: cleanedInstructions };
-    bnLayoutFormatter(result);
-
-    return result;
-  } catch (err) {
-    // Silent error handling
-  }
-}
\ No newline at end of file
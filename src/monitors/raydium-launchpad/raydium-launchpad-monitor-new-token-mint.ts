@@ -9,14 +9,18 @@ import Client, {
   SubscribeRequestFilterSlots,
   SubscribeRequestFilterTransactions,
 } from "@triton-one/yellowstone-grpc";
-import { PublicKey, VersionedTransactionResponse, Connection } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
+import { PublicKey, Connection } from "@solana/web3.js";
 import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
-import raydiumLaunchpadIdl from "./idls/raydium_launchpad.json";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import {
+  RAYDIUM_LAUNCHPAD_DECODER,
+  RAYDIUM_LAUNCHPAD_PROGRAM_ID,
+  TransactionType,
+  determineTransactionType,
+  extractTransactionData
+} from "./utils/rl-transaction-formatter";
 import { monitorService } from "../../database";
+import { streamNow } from "../runtime/stream-clock";
 
 // This monitor focuses on detecting new token launches on Raydium Launchpad
 // It captures the initial token metadata and pool creation details
@@ -46,15 +50,6 @@ interface TokenMetadata {
 }
 
 const TXN_FORMATTER = new TransactionFormatter();
-const RAYDIUM_LAUNCHPAD_PROGRAM_ID = new PublicKey(
-  "LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj"
-);
-
-const RAYDIUM_LAUNCHPAD_IX_PARSER = new SolanaParser([]);
-RAYDIUM_LAUNCHPAD_IX_PARSER.addParserFromIdl(
-  RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58(),
-  raydiumLaunchpadIdl as Idl
-);
 
 // Metaplex Token Metadata Program
 const TOKEN_METADATA_PROGRAM_ID = new PublicKey(
@@ -280,6 +275,114 @@ async function fetchTokenMetadata(mintAddress: string): Promise<TokenMetadata |
 }
 
 
+export async function processRaydiumLaunchpadMintUpdate(data: any): Promise<void> {
+  if (data?.transaction) {
+    const txn = TXN_FORMATTER.formTransactionFromJson(
+      data.transaction,
+      streamNow()
+    );
+
+    if (txn.meta?.err) return;
+
+    const decoded = RAYDIUM_LAUNCHPAD_DECODER.decodeTransaction(txn);
+    if (determineTransactionType(decoded) !== TransactionType.POOL_CREATION) return;
+
+    // Extract token information from the initialize instruction
+    const pool = extractTransactionData(TransactionType.POOL_CREATION, decoded);
+    const poolState: string | undefined = pool.poolId;
+    const baseTokenMint: string | undefined = pool.baseMint;
+    const quoteTokenMint: string | undefined = pool.quoteMint;
+    const creator: string | undefined = pool.creator;
+    
+    // Skip if we don't have the required token mint
+    if (!baseTokenMint) {
+      console.log("Warning: baseTokenMint not found in instruction accounts");
+      return;
+    }
+    
+    // Fetch token metadata
+    let tokenMetadata: TokenMetadata | null = null;
+    if (baseTokenMint) {
+      tokenMetadata = await fetchTokenMetadata(baseTokenMint.toString());
+    }
+    
+    // Clean the tokenMetadata to ensure no null characters
+    if (tokenMetadata && tokenMetadata.metadataUri) {
+      tokenMetadata.metadataUri = tokenMetadata.metadataUri.replace(/\u0000/g, '').trim();
+    }
+    
+    const output = {
+      timestamp: new Date(streamNow()).toISOString(),
+      signature: decoded.signature,
+      poolState: poolState?.toString(),
+      baseTokenMint: baseTokenMint?.toString(),
+      quoteTokenMint: quoteTokenMint?.toString() === 'So11111111111111111111111111111111111111112' ? 'SOL' : quoteTokenMint?.toString(),
+      creator: creator?.toString() || 'unknown',
+      tokenMetadata: tokenMetadata,
+      solscanUrl: `https://solscan.io/tx/${decoded.signature}`,
+      shyftUrl: `https://translator.shyft.to/tx/${decoded.signature}`
+    };
+    
+    console.log(
+      "[NEW TOKEN CREATED]",
+      new Date(streamNow()),
+      `\n📊 Token: ${tokenMetadata?.symbol || 'Unknown'} (${tokenMetadata?.name || 'Unknown'})`,
+      `\n🏊 Pool: ${poolState?.toString() || 'Unknown'}`,
+      `\n${JSON.stringify(output, null, 2)}\n`
+    );
+    
+    // Save to database with initial values (0, 0, N/A)
+    // Price will be set by the account monitor
+    // Save token data using new MonitorService
+    try {
+      const tokenId = await monitorService.saveToken({
+        mint_address: output.baseTokenMint,
+        symbol: output.tokenMetadata?.symbol || 'UNKNOWN',
+        name: output.tokenMetadata?.name || 'Unknown Token',
+        decimals: 9, // Raydium typically uses 9 decimals
+        platform: 'raydium',
+        creation_signature: output.signature,
+        creation_timestamp: new Date(output.timestamp),
+        creator_address: output.creator,
+        initial_supply: '1000000000000000000', // Default 1B tokens with 9 decimals
+        metadata: {
+          ...output.tokenMetadata,
+          poolState: output.poolState,
+          quoteTokenMint: output.quoteTokenMint,
+          solscanUrl: output.solscanUrl,
+          shyftUrl: output.shyftUrl
+        }
+      });
+      
+      // Save pool data if we have pool state
+      if (output.poolState) {
+        await monitorService.savePool({
+          pool_address: output.poolState,
+          token_id: tokenId,
+          platform: 'raydium',
+          creation_signature: output.signature,
+          creation_timestamp: new Date(output.timestamp),
+          creator_address: output.creator,
+          is_active: true,
+          metadata: {
+            baseTokenMint: output.baseTokenMint,
+            quoteTokenMint: output.quoteTokenMint,
+            tokenMetadata: output.tokenMetadata
+          }
+        });
+      }
+      
+      console.log(`💾 New Raydium token and pool saved to database`);
+    } catch (error) {
+      console.error("Failed to save token to database:", error);
+    }
+    
+    console.log(
+      "--------------------------------------------------------------------------------------------------"
+    );
+  }
+}
+
 async function handleStream(client: Client, args: SubscribeRequest) {
   console.log("Starting Stream...")
   const stream = await client.subscribe();
@@ -300,120 +403,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
   });
 
   // Handle updates
-  stream.on("data", async (data) => {
-    if (data?.transaction) {
-      const txn = TXN_FORMATTER.formTransactionFromJson(
-        data.transaction,
-        Date.now()
-      );
-
-      const parsedTxn = decodeRaydiumLaunchpad(txn);
-      if (!parsedTxn) return;
-      
-      // Filter for initialize instructions only
-      const initializeInstruction = parsedTxn.instructions?.find((ix: any) => ix.name === "initialize");
-      if (!initializeInstruction) return;
-      
-      // Debug: Log the full instruction to understand structure
-      console.log("Initialize instruction accounts:", initializeInstruction.accounts?.map((acc: any) => ({
-        name: acc.name,
-        pubkey: acc.pubkey
-      })));
-      
-      // Extract token information from the initialize instruction
-      const poolState = initializeInstruction.accounts?.find((acc: any) => acc.name === "pool_state")?.pubkey;
-      const baseTokenMint = initializeInstruction.accounts?.find((acc: any) => acc.name === "base_mint")?.pubkey;
-      const quoteTokenMint = initializeInstruction.accounts?.find((acc: any) => acc.name === "quote_mint")?.pubkey;
-      const creator = initializeInstruction.accounts?.find((acc: any) => acc.name === "creator")?.pubkey;
-      
-      // Skip if we don't have the required token mint
-      if (!baseTokenMint) {
-        console.log("Warning: baseTokenMint not found in instruction accounts");
-        return;
-      }
-      
-      // Fetch token metadata
-      let tokenMetadata: TokenMetadata | null = null;
-      if (baseTokenMint) {
-        tokenMetadata = await fetchTokenMetadata(baseTokenMint.toString());
-      }
-      
-      // Clean the tokenMetadata to ensure no null characters
-      if (tokenMetadata && tokenMetadata.metadataUri) {
-        tokenMetadata.metadataUri = tokenMetadata.metadataUri.replace(/\u0000/g, '').trim();
-      }
-      
-      const output = {
-        timestamp: new Date().toISOString(),
-        signature: txn.transaction.signatures[0],
-        poolState: poolState?.toString(),
-        baseTokenMint: baseTokenMint?.toString(),
-        quoteTokenMint: quoteTokenMint?.toString() === 'So11111111111111111111111111111111111111112' ? 'SOL' : quoteTokenMint?.toString(),
-        creator: creator?.toString() || 'unknown',
-        tokenMetadata: tokenMetadata,
-        solscanUrl: `https://solscan.io/tx/${txn.transaction.signatures[0]}`,
-        shyftUrl: `https://translator.shyft.to/tx/${txn.transaction.signatures[0]}`
-      };
-      
-      console.log(
-        "[NEW TOKEN CREATED]",
-        new Date(),
-        `\n📊 Token: ${tokenMetadata?.symbol || 'Unknown'} (${tokenMetadata?.name || 'Unknown'})`,
-        `\n🏊 Pool: ${poolState?.toString() || 'Unknown'}`,
-        `\n${JSON.stringify(output, null, 2)}\n`
-      );
-      
-      // Save to database with initial values (0, 0, N/A)
-      // Price will be set by the account monitor
-      // Save token data using new MonitorService
-      try {
-        const tokenId = await monitorService.saveToken({
-          mint_address: output.baseTokenMint,
-          symbol: output.tokenMetadata?.symbol || 'UNKNOWN',
-          name: output.tokenMetadata?.name || 'Unknown Token',
-          decimals: 9, // Raydium typically uses 9 decimals
-          platform: 'raydium',
-          creation_signature: output.signature,
-          creation_timestamp: new Date(output.timestamp),
-          creator_address: output.creator,
-          initial_supply: '1000000000000000000', // Default 1B tokens with 9 decimals
-          metadata: {
-            ...output.tokenMetadata,
-            poolState: output.poolState,
-            quoteTokenMint: output.quoteTokenMint,
-            solscanUrl: output.solscanUrl,
-            shyftUrl: output.shyftUrl
-          }
-        });
-        
-        // Save pool data if we have pool state
-        if (output.poolState) {
-          await monitorService.savePool({
-            pool_address: output.poolState,
-            token_id: tokenId,
-            platform: 'raydium',
-            creation_signature: output.signature,
-            creation_timestamp: new Date(output.timestamp),
-            creator_address: output.creator,
-            is_active: true,
-            metadata: {
-              baseTokenMint: output.baseTokenMint,
-              quoteTokenMint: output.quoteTokenMint,
-              tokenMetadata: output.tokenMetadata
-            }
-          });
-        }
-        
-        console.log(`💾 New Raydium token and pool saved to database`);
-      } catch (error) {
-        console.error("Failed to save token to database:", error);
-      }
-      
-      console.log(
-        "--------------------------------------------------------------------------------------------------"
-      );
-    }
-  });
+  stream.on("data", processRaydiumLaunchpadMintUpdate);
 
   // Send subscribe request
   await new Promise<void>((resolve, reject) => {
@@ -435,7 +425,7 @@ async function handleStream(client: Client, args: SubscribeRequest) {
 async function subscribeCommand(client: Client, args: SubscribeRequest) {
   console.log("Raydium Launchpad New Token Monitor (with Metadata)");
   console.log("====================================================");
-  console.log("Program ID:", RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58());
+  console.log("Program ID:", RAYDIUM_LAUNCHPAD_PROGRAM_ID);
   console.log("Features: On-chain + Off-chain metadata extraction");
   console.log("Monitoring for initialize instructions...\n");
   
@@ -449,13 +439,7 @@ async function subscribeCommand(client: Client, args: SubscribeRequest) {
   }
 }
 
-const client = new Client(
-  process.env.GRPC_URL!,
-  process.env.X_TOKEN!,
-  undefined
-);
-
-const req: SubscribeRequest = {
+export const RAYDIUM_LAUNCHPAD_MINT_REQUEST: SubscribeRequest = {
   accounts: {},
   slots: {},
   transactions: {
@@ -463,7 +447,7 @@ const req: SubscribeRequest = {
       vote: false,
       failed: false,
       signature: undefined,
-      accountInclude: [RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58()],
+      accountInclude: [RAYDIUM_LAUNCHPAD_PROGRAM_ID],
       accountExclude: [],
       accountRequired: [],
     },
@@ -477,31 +461,12 @@ const req: SubscribeRequest = {
   commitment: CommitmentLevel.CONFIRMED,
 };
 
-subscribeCommand(client, req);
-
-
-function decodeRaydiumLaunchpad(tx: VersionedTransactionResponse) {
-  if (tx.meta?.err) return;
-
-  try {
-    const parsedIxs = RAYDIUM_LAUNCHPAD_IX_PARSER.parseTransactionData(
-      tx.transaction.message,
-      tx.meta!.loadedAddresses
-    );
-
-    const raydiumLaunchpadIxs = parsedIxs.filter((ix) =>
-      ix.programId.equals(RAYDIUM_LAUNCHPAD_PROGRAM_ID)
-    );
-
-    if (raydiumLaunchpadIxs.length === 0) return;
-
-    const cleanedInstructions = raydiumLaunchpadIxs.filter((ix: any) => ix.name !== "unknown");
-
-    const result = { instructions: cleanedInstructions };
-    bnLayoutFormatter(result);
+if (require.main === module) {
+  const client = new Client(
+    process.env.GRPC_URL!,
+    process.env.X_TOKEN!,
+    undefined
+  );
 
-    return result;
-  } catch (err) {
-    // Silent error handling
-  }
-}
\ No newline at end of file
+  subscribeCommand(client, RAYDIUM_LAUNCHPAD_MINT_REQUEST);
+}
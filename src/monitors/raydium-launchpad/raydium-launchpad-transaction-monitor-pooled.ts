@@ -10,14 +10,19 @@ import Client, {
   SubscribeRequestFilterTransactions,
 } from "@triton-one/yellowstone-grpc";
 import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
-import { Idl } from "@coral-xyz/anchor";
-import { SolanaParser } from "@shyft-to/solana-transaction-parser";
 import { SubscribeRequestPing } from "@triton-one/yellowstone-grpc/dist/types/grpc/geyser";
-import { TransactionFormatter } from "./utils/transaction-formatter";
-import { SolanaEventParser } from "./utils/event-parser";
-import { bnLayoutFormatter } from "./utils/bn-layout-formatter";
-import raydiumLaunchpadIdl from "./idls/raydium_launchpad.json";
+import { TransactionFormatter } from "../decoder/transaction-formatter";
+import { DecodedEvent, DecodedInstruction } from "../decoder/idl-decoder";
+import {
+  RAYDIUM_LAUNCHPAD_DECODER,
+  RAYDIUM_LAUNCHPAD_PROGRAM_ID,
+  TransactionType,
+  determineTransactionType,
+  extractTransactionData
+} from "./utils/rl-transaction-formatter";
 import { monitorService } from "../../database";
+import { smartMoneySignals } from "../../services/wallet-tracker/smart-money-signals";
+import { holderLedger } from "../../services/holder-ledger/holder-ledger";
 import { PoolData } from "../../database/types";
 import { grpcPool } from '../../grpc';  // ADDED: Import pool
 
@@ -34,16 +39,6 @@ interface SubscribeRequest {
   ping?: SubscribeRequestPing | undefined;
 }
 
-// Transaction types we want to track
-enum TransactionType {
-  POOL_CREATION = "POOL_CREATION",
-  BUY = "BUY",
-  SELL = "SELL",
-  ADD_LIQUIDITY = "ADD_LIQUIDITY",
-  REMOVE_LIQUIDITY = "REMOVE_LIQUIDITY",
-  UNKNOWN = "UNKNOWN"
-}
-
 interface ParsedTransaction {
   signature: string;
   slot: number;
@@ -51,36 +46,19 @@ interface ParsedTransaction {
   type: TransactionType;
   user: string;
   data: any;
-  instructions: any[];
-  innerInstructions: any[];
-  events: any[];
+  instructions: DecodedInstruction[];
+  innerInstructions: DecodedInstruction[];
+  events: DecodedEvent[];
   success: boolean;
   fee: number;
+  meta: VersionedTransactionResponse["meta"];
 }
 
 const TXN_FORMATTER = new TransactionFormatter();
-const RAYDIUM_LAUNCHPAD_PROGRAM_ID = new PublicKey(
-  "LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj"
-);
-const TOKEN_PROGRAM_ID = new PublicKey(
-  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
-);
 
 const SOL_MINT = new PublicKey("So11111111111111111111111111111111111111112");
 const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
 
-const RAYDIUM_LAUNCHPAD_IX_PARSER = new SolanaParser([]);
-RAYDIUM_LAUNCHPAD_IX_PARSER.addParserFromIdl(
-  RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58(),
-  raydiumLaunchpadIdl as Idl
-);
-
-const RAYDIUM_LAUNCHPAD_EVENT_PARSER = new SolanaEventParser([], console);
-RAYDIUM_LAUNCHPAD_EVENT_PARSER.addParserFromIdl(
-  RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58(),
-  raydiumLaunchpadIdl as Idl
-);
-
 // Transaction batching for better performance
 const transactionBatch: any[] = [];
 const BATCH_SIZE = 50;
@@ -89,6 +67,7 @@ const BATCH_TIMEOUT = 5000; // 5 seconds
 let batchTimer: NodeJS.Timeout | null = null;
 
 async function flushBatch() {
+  await holderLedger.flushTransfers();
   if (transactionBatch.length === 0) return;
   
   const batch = [...transactionBatch];
@@ -173,91 +152,25 @@ async function handleStream(client: Client, args: SubscribeRequest, monitorId: s
 async function parseRaydiumLaunchpadTransaction(tx: VersionedTransactionResponse): Promise<ParsedTransaction | null> {
   if (tx.meta?.err) return null;
 
-  try {
-    // Parse instructions
-    const parsedIxs = RAYDIUM_LAUNCHPAD_IX_PARSER.parseTransactionData(
-      tx.transaction.message,
-      tx.meta!.loadedAddresses
-    );
-
-    // Filter for Raydium Launchpad and Token Program instructions
-    const raydiumLaunchpadIxs = parsedIxs.filter((ix) =>
-      ix.programId.equals(RAYDIUM_LAUNCHPAD_PROGRAM_ID) ||
-      ix.programId.equals(TOKEN_PROGRAM_ID)
-    );
-
-    // Parse inner instructions separately with error handling
-    let raydiumLaunchpadInnerIxs: any[] = [];
-    try {
-      const parsedInnerIxs = RAYDIUM_LAUNCHPAD_IX_PARSER.parseTransactionWithInnerInstructions(tx);
-      raydiumLaunchpadInnerIxs = parsedInnerIxs.filter((ix) =>
-        ix.programId.equals(RAYDIUM_LAUNCHPAD_PROGRAM_ID) ||
-        ix.programId.equals(TOKEN_PROGRAM_ID)
-      );
-    } catch (innerError) {
-      // If inner instruction parsing fails, continue without them
-      console.debug("Inner instruction parsing failed, continuing without them");
-    }
-
-    if (raydiumLaunchpadIxs.length === 0 && raydiumLaunchpadInnerIxs.length === 0) return null;
-
-    // Parse events
-    const events = RAYDIUM_LAUNCHPAD_EVENT_PARSER.parseEvent(tx);
-
-    // Determine transaction type
-    const transactionType = determineTransactionType(raydiumLaunchpadIxs);
-    
-    // Get the signer (user)
-    const signer = getSigner(tx);
-
-    // Extract specific data based on transaction type
-    const transactionData = extractTransactionData(transactionType, raydiumLaunchpadIxs, raydiumLaunchpadInnerIxs, events);
-
-    // Clean and format the data
-    const cleanedInstructions = cleanInstructions(raydiumLaunchpadIxs);
-    const cleanedInnerInstructions = cleanInstructions(raydiumLaunchpadInnerIxs);
-
-    bnLayoutFormatter(cleanedInstructions);
-    bnLayoutFormatter(cleanedInnerInstructions);
-    bnLayoutFormatter(transactionData);
-    bnLayoutFormatter(events);
-
-    return {
-      signature: tx.transaction.signatures[0],
-      slot: tx.slot,
-      blockTime: tx.blockTime || Date.now(),
-      type: transactionType,
-      user: signer,
-      data: transactionData,
-      instructions: cleanedInstructions,
-      innerInstructions: cleanedInnerInstructions,
-      events: events,
-      success: !tx.meta?.err,
-      fee: tx.meta?.fee || 0
-    };
-  } catch (err) {
-    console.error("Error parsing transaction:", err);
-    return null;
-  }
-}
-
-function determineTransactionType(instructions: any[]): TransactionType {
-  // Check instruction names to determine transaction type
-  const instructionNames = instructions.map(ix => ix.name).filter(name => name !== "unknown");
-
-  if (instructionNames.includes("initialize")) {
-    return TransactionType.POOL_CREATION;
-  } else if (instructionNames.some(name => name.includes("buy"))) {
-    return TransactionType.BUY;
-  } else if (instructionNames.some(name => name.includes("sell"))) {
-    return TransactionType.SELL;
-  } else if (instructionNames.includes("add_liquidity")) {
-    return TransactionType.ADD_LIQUIDITY;
-  } else if (instructionNames.includes("remove_liquidity")) {
-    return TransactionType.REMOVE_LIQUIDITY;
-  }
-
-  return TransactionType.UNKNOWN;
+  const decoded = RAYDIUM_LAUNCHPAD_DECODER.decodeTransaction(tx);
+  if (decoded.instructions.length === 0 && decoded.innerInstructions.length === 0) return null;
+
+  const transactionType = determineTransactionType(decoded);
+
+  return {
+    signature: decoded.signature,
+    slot: decoded.slot,
+    blockTime: tx.blockTime || Date.now(),
+    type: transactionType,
+    user: getSigner(tx),
+    data: extractTransactionData(transactionType, decoded),
+    instructions: decoded.instructions,
+    innerInstructions: decoded.innerInstructions,
+    events: decoded.events,
+    success: !tx.meta?.err,
+    fee: tx.meta?.fee || 0,
+    meta: tx.meta
+  };
 }
 
 function getSigner(tx: VersionedTransactionResponse): string {
@@ -269,111 +182,6 @@ function getSigner(tx: VersionedTransactionResponse): string {
   return accountKeys[0].toBase58();
 }
 
-function extractTransactionData(type: TransactionType, instructions: any[], innerInstructions: any[], events: any[]): any {
-  const data: any = {};
-
-  switch (type) {
-    case TransactionType.POOL_CREATION:
-      const initIx = instructions.find(ix => ix.name === "initialize");
-      if (initIx) {
-        data.poolId = initIx.accounts.find((acc: any) => acc.name === "pool_state")?.pubkey;
-        data.baseMint = initIx.accounts.find((acc: any) => acc.name === "base_token_mint")?.pubkey;
-        data.quoteMint = initIx.accounts.find((acc: any) => acc.name === "quote_token_mint")?.pubkey;
-        data.baseVault = initIx.accounts.find((acc: any) => acc.name === "base_vault")?.pubkey;
-        data.quoteVault = initIx.accounts.find((acc: any) => acc.name === "quote_vault")?.pubkey;
-        data.lpMint = initIx.accounts.find((acc: any) => acc.name === "lp_mint")?.pubkey;
-        
-        // Look for mint initialization in inner instructions
-        const mintInit = innerInstructions.find(ix => ix.name === "initializeMint2");
-        if (mintInit) {
-          data.decimals = mintInit.args?.decimals;
-          data.mintAuthority = mintInit.args?.mintAuthority;
-        }
-      }
-      break;
-
-    case TransactionType.BUY:
-    case TransactionType.SELL:
-      const swapIx = instructions.find(ix => 
-        ix.name.includes("buy") || ix.name.includes("sell")
-      );
-      if (swapIx) {
-        // Following the Shyft example pattern - just pass through the raw values
-        data.poolId = swapIx.accounts.find((acc: any) => acc.name === "pool_state")?.pubkey;
-        data.payer = swapIx.accounts.find((acc: any) => acc.name === "payer")?.pubkey;
-        data.baseMint = swapIx.accounts.find((acc: any) => acc.name === "base_token_mint")?.pubkey;
-        data.quoteMint = swapIx.accounts.find((acc: any) => acc.name === "quote_token_mint")?.pubkey;
-        
-        // Get swap amounts from instruction args
-        data.amountIn = swapIx.args?.amount_in?.toString() || swapIx.args?.amount_in;
-        data.minimumAmountOut = swapIx.args?.minimum_amount_out?.toString() || swapIx.args?.minimum_amount_out;
-        data.maximumAmountIn = swapIx.args?.maximum_amount_in?.toString() || swapIx.args?.maximum_amount_in;
-        
-        // Get actual amountOut from events if available
-        if (events && events.length > 0) {
-          // Look for TradeEvent which contains amount_out
-          const tradeEvent = events.find((event: any) => 
-            event.name === 'TradeEvent' || 
-            event.data?.amount_out !== undefined ||
-            event.data?.amountOut !== undefined
-          );
-          
-          if (tradeEvent && tradeEvent.data) {
-            // Use amount_out (snake_case) as that's what's in the IDL
-            data.amountOut = tradeEvent.data.amount_out?.toString() || tradeEvent.data.amount_out;
-            // Also extract other useful event data
-            data.protocolFee = tradeEvent.data.protocol_fee?.toString() || tradeEvent.data.protocol_fee;
-            data.platformFee = tradeEvent.data.platform_fee?.toString() || tradeEvent.data.platform_fee;
-            data.shareFee = tradeEvent.data.share_fee?.toString() || tradeEvent.data.share_fee;
-            data.tradeDirection = tradeEvent.data.trade_direction;
-            
-            // Add more event data for comprehensive output
-            data.amountIn = tradeEvent.data.amount_in?.toString() || data.amountIn;
-            data.totalBaseSell = tradeEvent.data.total_base_sell?.toString();
-            data.virtualBase = tradeEvent.data.virtual_base?.toString();
-            data.virtualQuote = tradeEvent.data.virtual_quote?.toString();
-          }
-        }
-        
-        // IMPORTANT: If we don't have amountOut from events, use minimumAmountOut as approximation
-        // This is better than having 0 values in the database
-        if (!data.amountOut && data.minimumAmountOut) {
-          data.amountOut = data.minimumAmountOut;
-          console.log(`⚠️ Using minimumAmountOut as approximation for amountOut: ${data.amountOut}`);
-        }
-        
-      }
-      break;
-
-    case TransactionType.ADD_LIQUIDITY:
-    case TransactionType.REMOVE_LIQUIDITY:
-      const liquidityIx = instructions.find(ix => 
-        ix.name.includes("liquidity")
-      );
-      if (liquidityIx) {
-        data.poolId = liquidityIx.accounts.find((acc: any) => acc.name === "pool_state")?.pubkey;
-        data.lpAmount = liquidityIx.args?.lp_amount;
-        data.baseAmount = liquidityIx.args?.base_amount;
-        data.quoteAmount = liquidityIx.args?.quote_amount;
-      }
-      break;
-  }
-
-  return data;
-}
-
-function cleanInstructions(instructions: any[]): any[] {
-  return instructions
-    .filter((ix: any) => ix.name !== "unknown")
-    .map((ix: any) => {
-      // Remove any unknown fields
-      if (ix.args?.unknown) {
-        delete ix.args.unknown;
-      }
-      return ix;
-    });
-}
-
 async function displayParsedTransaction(parsedTx: ParsedTransaction) {
   const typeEmoji = {
     [TransactionType.POOL_CREATION]: "🌟",
@@ -439,7 +247,6 @@ ${parsedTx.events.map(evt => `  - ${evt.name || 'Event'}`).join('\n')}` : ''}
         base_mint: parsedTx.data.baseMint,
         quote_mint: parsedTx.data.quoteMint || 'So11111111111111111111111111111111111111112', // Default to WSOL
         platform: 'raydium_launchpad',
-        lp_mint: parsedTx.data.lpMint,
         base_vault: parsedTx.data.baseVault,
         quote_vault: parsedTx.data.quoteVault,
         // Initial liquidity will be populated from first transaction or account update
@@ -533,6 +340,29 @@ ${parsedTx.events.map(evt => `  - ${evt.name || 'Event'}`).join('\n')}` : ''}
         }
       };
 
+      smartMoneySignals.onTrade({
+        tokenMint: monitorTx.mint_address,
+        walletAddress: monitorTx.user_address,
+        type: monitorTx.type,
+        solAmount,
+        tokenAmount,
+        signature: monitorTx.signature,
+        blockTime: monitorTx.block_time
+      });
+
+      // Token movements beyond the swap itself, for holder reconstruction;
+      // the vault authority owns the pool's token accounts
+      holderLedger.captureTrade({
+        signature: monitorTx.signature,
+        mintAddress: monitorTx.mint_address,
+        trader: monitorTx.user_address,
+        type: monitorTx.type,
+        tokenAmount,
+        slot: Number(parsedTx.slot) || null,
+        blockTime: monitorTx.block_time,
+        excludeOwners: [parsedTx.data.poolId, parsedTx.data.vaultAuthority].filter(Boolean)
+      }, parsedTx.meta);
+
       // Add to batch
       transactionBatch.push(monitorTx);
       console.log(`📦 ${parsedTx.type} transaction added to batch (${transactionBatch.length}/${BATCH_SIZE})`);
@@ -555,7 +385,7 @@ ${parsedTx.events.map(evt => `  - ${evt.name || 'Event'}`).join('\n')}` : ''}
 async function subscribeCommand(client: Client, args: SubscribeRequest, monitorId: string) {
   console.log("Raydium Launchpad Transaction Monitor (Pooled)")
   console.log("====================================================");
-  console.log("Program ID:", RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58());
+  console.log("Program ID:", RAYDIUM_LAUNCHPAD_PROGRAM_ID);
   console.log("Features: All transaction types (buys, sells, liquidity)");
   console.log("Using gRPC Connection Pool with proper stream cleanup");
   console.log("Monitoring all transactions...\n");
@@ -603,7 +433,7 @@ async function main() {
         vote: false,
         failed: false,
         signature: undefined,
-        accountInclude: [RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58()],
+        accountInclude: [RAYDIUM_LAUNCHPAD_PROGRAM_ID],
         accountExclude: [],
         accountRequired: [],
       },
@@ -627,7 +457,7 @@ async function main() {
 // Start monitoring
 console.log("🔍 Starting Raydium Launchpad Transaction Monitor (Pooled)");
 console.log(`📡 Connected via gRPC Pool`);
-console.log(`🎯 Program ID: ${RAYDIUM_LAUNCHPAD_PROGRAM_ID.toBase58()}`);
+console.log(`🎯 Program ID: ${RAYDIUM_LAUNCHPAD_PROGRAM_ID}`);
 console.log("📊 Monitoring: ALL transaction types\n");
 
 // CHANGED: Call main() instead of subscribeCommand directly
@@ -1,6 +1,6 @@
 import { BorshAccountsCoder, utils } from "@coral-xyz/anchor";
 import * as fs from 'fs';
-import { bnLayoutFormatter } from "./bn-layout-formatter";
+import { bnLayoutFormatter, RAYDIUM_LAYOUT_OPTIONS } from "../../decoder/bn-layout-formatter";
 
 const program_idl = JSON.parse(fs.readFileSync('./src/monitors/raydium-launchpad/idls/raydium_launchpad.json', "utf8"));
 
@@ -50,7 +50,7 @@ export async function decodeRaydiumLaunchpadAccountData(data: any) {
       // Add the type to the parsed account for easier identification
       parsedAccount.accountType = accountType;
       
-      bnLayoutFormatter(parsedAccount);
+      bnLayoutFormatter(parsedAccount, RAYDIUM_LAYOUT_OPTIONS);
     }
   } catch (error) {
     console.error("Failed to decode account:", error);
@@ -1,6 +1,6 @@
 import base58 from "bs58";
 import { BorshAccountsCoder, Idl } from "@coral-xyz/anchor";
-import { bnLayoutFormatter } from "./bn-layout-formatter";
+import { bnLayoutFormatter, RAYDIUM_LAYOUT_OPTIONS } from "../../decoder/bn-layout-formatter";
 import raydiumLaunchpadIdl from "../idls/raydium_launchpad.json";
 
 const coder = new BorshAccountsCoder(raydiumLaunchpadIdl as Idl);
@@ -17,7 +17,7 @@ export async function decodeRaydiumLaunchpadTxnData(data: any) {
   let parsedAccount;
   try {
     parsedAccount = coder.decodeAny(dataTx?.data);
-    bnLayoutFormatter(parsedAccount);
+    bnLayoutFormatter(parsedAccount, RAYDIUM_LAYOUT_OPTIONS);
   } catch (error) {
     console.error("Failed to decode pool state:", error);
   }
@@ -1,39 +1,125 @@
-export function rl_formatter(parsedInstruction: any, txn: any) {
-  let output = {};
-  const instructions = parsedInstruction.instructions.find((x: any) => x.name === "initialize");
-   if(!instructions) return;
-  if(txn.version === 0){
-    output = {
-      ...txn,
-      meta: {
-        ...txn.meta,
-        innerInstructions: parsedInstruction.inner_ixs,
-      },
-      transaction: {
-        ...txn.transaction,
-        message: {
-          ...txn.transaction.message,
-          compiledInstructions: parsedInstruction.instructions,
-        },
-      }
-    }
+import { IdlDecoder, DecodedInstruction, DecodedTransaction, findAccount } from "../../decoder/idl-decoder";
+import { getProgramIdl } from "../../decoder/idl-registry";
+import { RAYDIUM_LAYOUT_OPTIONS } from "../../decoder/bn-layout-formatter";
+
+export const RAYDIUM_LAUNCHPAD_PROGRAM_ID = "LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj";
+export const RAYDIUM_LAUNCHPAD_DECODER = new IdlDecoder(
+  [getProgramIdl(RAYDIUM_LAUNCHPAD_PROGRAM_ID)!],
+  RAYDIUM_LAYOUT_OPTIONS
+);
+
+// Transaction types we want to track
+export enum TransactionType {
+  POOL_CREATION = "POOL_CREATION",
+  BUY = "BUY",
+  SELL = "SELL",
+  ADD_LIQUIDITY = "ADD_LIQUIDITY",
+  REMOVE_LIQUIDITY = "REMOVE_LIQUIDITY",
+  UNKNOWN = "UNKNOWN"
+}
+
+/**
+ * Swaps routed through aggregators call the launchpad by CPI, so its
+ * instructions may be top-level or inner
+ */
+function allInstructions(decoded: DecodedTransaction): DecodedInstruction[] {
+  return [...decoded.instructions, ...decoded.innerInstructions];
+}
+
+export function determineTransactionType(decoded: DecodedTransaction): TransactionType {
+  const instructionNames = allInstructions(decoded).map(ix => ix.name);
+
+  if (instructionNames.includes("initialize")) {
+    return TransactionType.POOL_CREATION;
+  } else if (instructionNames.some(name => name.includes("buy"))) {
+    return TransactionType.BUY;
+  } else if (instructionNames.some(name => name.includes("sell"))) {
+    return TransactionType.SELL;
+  } else if (instructionNames.includes("add_liquidity")) {
+    return TransactionType.ADD_LIQUIDITY;
+  } else if (instructionNames.includes("remove_liquidity")) {
+    return TransactionType.REMOVE_LIQUIDITY;
   }
-  else {
-    output = {
-      ...txn,
-      meta: {
-        ...txn.meta,
-        innerInstructions: parsedInstruction.inner_ixs,
-      },
-      transaction: {
-        ...txn.transaction,
-        message: {
-          ...txn.transaction.message,
-          instructions: parsedInstruction.instructions,
-        },
+
+  return TransactionType.UNKNOWN;
+}
+
+export function extractTransactionData(type: TransactionType, decoded: DecodedTransaction): any {
+  const data: any = {};
+  const instructions = allInstructions(decoded);
+
+  switch (type) {
+    case TransactionType.POOL_CREATION:
+      const initIx = instructions.find(ix => ix.name === "initialize");
+      if (initIx) {
+        data.poolId = findAccount(initIx, "pool_state");
+        data.baseMint = findAccount(initIx, "base_mint");
+        data.quoteMint = findAccount(initIx, "quote_mint");
+        data.baseVault = findAccount(initIx, "base_vault");
+        data.quoteVault = findAccount(initIx, "quote_vault");
+        data.creator = findAccount(initIx, "creator");
+        data.decimals = initIx.args.base_mint_param?.decimals;
+        data.name = initIx.args.base_mint_param?.name;
+        data.symbol = initIx.args.base_mint_param?.symbol;
+        data.uri = initIx.args.base_mint_param?.uri;
+      }
+      break;
+
+    case TransactionType.BUY:
+    case TransactionType.SELL:
+      const swapIx = instructions.find(ix =>
+        ix.name.includes("buy") || ix.name.includes("sell")
+      );
+      if (swapIx) {
+        data.poolId = findAccount(swapIx, "pool_state");
+        data.vaultAuthority = findAccount(swapIx, "authority");
+        data.payer = findAccount(swapIx, "payer");
+        data.baseMint = findAccount(swapIx, "base_token_mint");
+        data.quoteMint = findAccount(swapIx, "quote_token_mint");
+
+        // Requested amounts from the instruction args
+        data.amountIn = swapIx.args.amount_in;
+        data.minimumAmountOut = swapIx.args.minimum_amount_out;
+        data.maximumAmountIn = swapIx.args.maximum_amount_in;
+
+        // The TradeEvent carries the amounts actually swapped
+        const tradeEvent = decoded.events.find(event =>
+          event.name === "TradeEvent" && event.data.pool_state === data.poolId
+        );
+        if (tradeEvent) {
+          data.amountIn = tradeEvent.data.amount_in;
+          data.amountOut = tradeEvent.data.amount_out;
+          data.protocolFee = tradeEvent.data.protocol_fee;
+          data.platformFee = tradeEvent.data.platform_fee;
+          data.shareFee = tradeEvent.data.share_fee;
+          data.tradeDirection = tradeEvent.data.trade_direction;
+          data.totalBaseSell = tradeEvent.data.total_base_sell;
+          data.virtualBase = tradeEvent.data.virtual_base;
+          data.virtualQuote = tradeEvent.data.virtual_quote;
+        }
+
+        // IMPORTANT: If we don't have amountOut from events, use minimumAmountOut as approximation
+        // This is better than having 0 values in the database
+        if (!data.amountOut && data.minimumAmountOut) {
+          data.amountOut = data.minimumAmountOut;
+          console.log(`⚠️ Using minimumAmountOut as approximation for amountOut: ${data.amountOut}`);
+        }
+      }
+      break;
+
+    case TransactionType.ADD_LIQUIDITY:
+    case TransactionType.REMOVE_LIQUIDITY:
+      const liquidityIx = instructions.find(ix =>
+        ix.name.includes("liquidity")
+      );
+      if (liquidityIx) {
+        data.poolId = findAccount(liquidityIx, "pool_state");
+        data.lpAmount = liquidityIx.args.lp_amount;
+        data.baseAmount = liquidityIx.args.base_amount;
+        data.quoteAmount = liquidityIx.args.quote_amount;
       }
-    }
+      break;
   }
 
-  return output;
-}
\ No newline at end of file
+  return data;
+}
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+
+/**
+ * Segmented on-disk log of raw gRPC updates.
+ *
+ * Layout: <directory>/<monitorId>/<openedAtMs>-<sequence>.jsonl
+ * Each line holds one update and the time it was received. Binary fields
+ * (signatures, account keys, instruction data) are stored as base64 and
+ * restored to Buffers on read, so replayed updates look like live ones.
+ */
+
+export interface EventLogConfig {
+  directory: string;
+  maxSegmentBytes: number;  // Default: 64 MB
+  maxSegmentAge: number;    // Default: 1 hour in ms
+}
+
+export interface LoggedUpdate {
+  receivedAt: number;
+  update: SubscribeUpdate;
+}
+
+export interface ReadOptions {
+  from?: Date;
+  to?: Date;
+}
+
+export function loadEventLogConfig(): EventLogConfig {
+  return {
+    directory: process.env.EVENT_LOG_DIR || path.join('logs', 'events'),
+    maxSegmentBytes: parseInt(process.env.EVENT_LOG_SEGMENT_MB || '64') * 1024 * 1024,
+    maxSegmentAge: parseInt(process.env.EVENT_LOG_SEGMENT_AGE || '3600000')
+  };
+}
+
+export function serializeUpdate(receivedAt: number, update: SubscribeUpdate): string {
+  return JSON.stringify({ t: receivedAt, u: update }, function (this: any, key: string, value: any) {
+    // Inspect the raw value: Buffer and Date define toJSON, which runs before the replacer
+    const raw = this[key];
+    if (raw instanceof Uint8Array) {
+      return { $b: Buffer.from(raw).toString('base64') };
+    }
+    if (raw instanceof Date) {
+      return { $d: raw.toISOString() };
+    }
+    return value;
+  });
+}
+
+export function deserializeUpdate(line: string): LoggedUpdate {
+  const parsed = JSON.parse(line, (key: string, value: any) => {
+    if (value && typeof value === 'object') {
+      if (typeof value.$b === 'string') return Buffer.from(value.$b, 'base64');
+      if (typeof value.$d === 'string') return new Date(value.$d);
+    }
+    return value;
+  });
+  return { receivedAt: parsed.t, update: parsed.u };
+}
+
+export class EventLogWriter {
+  private config: EventLogConfig;
+  private monitorDir: string;
+  private stream?: fs.WriteStream;
+  private segmentBytes: number = 0;
+  private segmentOpenedAt: number = 0;
+  private sequence: number = 0;
+  private writtenCount: number = 0;
+
+  constructor(private monitorId: string, config: Partial<EventLogConfig> = {}) {
+    this.config = { ...loadEventLogConfig(), ...config };
+    this.monitorDir = path.join(this.config.directory, monitorId);
+    fs.mkdirSync(this.monitorDir, { recursive: true });
+  }
+
+  append(update: SubscribeUpdate, receivedAt: number = Date.now()): void {
+    // Keep-alive traffic carries nothing worth replaying
+    if (update.ping || update.pong) return;
+
+    const line = serializeUpdate(receivedAt, update) + '\n';
+    const lineBytes = Buffer.byteLength(line);
+
+    if (!this.stream || this.shouldRotate(lineBytes, receivedAt)) {
+      this.openSegment(receivedAt);
+    }
+
+    this.stream!.write(line);
+    this.segmentBytes += lineBytes;
+    this.writtenCount++;
+  }
+
+  getWrittenCount(): number {
+    return this.writtenCount;
+  }
+
+  async close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = undefined;
+    if (stream) {
+      await new Promise<void>(resolve => stream.end(() => resolve()));
+    }
+  }
+
+  private shouldRotate(nextBytes: number, now: number): boolean {
+    return (
+      this.segmentBytes + nextBytes > this.config.maxSegmentBytes ||
+      now - this.segmentOpenedAt > this.config.maxSegmentAge
+    );
+  }
+
+  private openSegment(now: number): void {
+    if (this.stream) {
+      this.stream.end();
+    }
+
+    const name = `${String(now).padStart(13, '0')}-${String(this.sequence++).padStart(6, '0')}.jsonl`;
+    const segmentPath = path.join(this.monitorDir, name);
+    this.stream = fs.createWriteStream(segmentPath, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      console.error(`[EventLog] Write error for ${this.monitorId}:`, error);
+    });
+    this.segmentBytes = 0;
+    this.segmentOpenedAt = now;
+    console.log(`[EventLog] ${this.monitorId} writing segment ${name}`);
+  }
+}
+
+export class EventLogReader {
+  private monitorDir: string;
+
+  constructor(monitorId: string, directory: string = loadEventLogConfig().directory) {
+    this.monitorDir = path.join(directory, monitorId);
+  }
+
+  listSegments(): string[] {
+    if (!fs.existsSync(this.monitorDir)) return [];
+    return fs.readdirSync(this.monitorDir)
+      .filter(name => name.endsWith('.jsonl'))
+      .sort()
+      .map(name => path.join(this.monitorDir, name));
+  }
+
+  async *read(options: ReadOptions = {}): AsyncGenerator<LoggedUpdate> {
+    const from = options.from?.getTime();
+    const to = options.to?.getTime();
+
+    for (const segment of this.listSegments()) {
+      // Segments are named by the time they were opened
+      const openedAt = parseInt(path.basename(segment).split('-')[0]);
+      if (to !== undefined && openedAt > to) return;
+
+      const lines = readline.createInterface({
+        input: fs.createReadStream(segment),
+        crlfDelay: Infinity
+      });
+
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+
+        let entry: LoggedUpdate;
+        try {
+          entry = deserializeUpdate(line);
+        } catch (error) {
+          // A crash can leave a partial last line behind
+          console.warn(`[EventLog] Skipping malformed line in ${segment}`);
+          continue;
+        }
+
+        if (from !== undefined && entry.receivedAt < from) continue;
+        if (to !== undefined && entry.receivedAt > to) return;
+        yield entry;
+      }
+    }
+  }
+}
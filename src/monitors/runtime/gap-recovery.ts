@@ -0,0 +1,220 @@
+import { SubscribeRequest, SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+import { StreamGapOperations, streamGapOperations } from '../../database/operations/stream-gap';
+import { StreamGapPlatform, StreamGapRecoveryMethod } from '../../database/types';
+import { SignatureHistoryFetcher } from './signature-history-fetcher';
+
+export interface GapRecoveryConfig {
+  useFromSlot: boolean;        // Resubscribe with fromSlot (provider must support it)
+  replayTimeout: number;       // Default: 30 seconds in ms to see a fromSlot replay before backfilling
+  maxBackfillSlots: number;    // Default: 9000 (~1 hour)
+  checkpointInterval: number;  // Default: 10 seconds in ms
+}
+
+export interface DetectedGap {
+  id?: number;
+  fromSlot: number;
+  toSlot: number;
+  gapStart: Date;
+  gapEnd: Date;
+}
+
+export const defaultGapRecoveryConfig: GapRecoveryConfig = {
+  useFromSlot: false,
+  replayTimeout: 30000,
+  maxBackfillSlots: 9000,
+  checkpointInterval: 10000
+};
+
+export function loadGapRecoveryConfig(): Partial<GapRecoveryConfig> {
+  return {
+    useFromSlot: process.env.GRPC_FROM_SLOT === 'true',
+    replayTimeout: parseInt(process.env.GAP_REPLAY_TIMEOUT || '30000'),
+    maxBackfillSlots: parseInt(process.env.GAP_MAX_BACKFILL_SLOTS || '9000'),
+    checkpointInterval: parseInt(process.env.GAP_CHECKPOINT_INTERVAL || '10000')
+  };
+}
+
+/**
+ * Slot carried by any update type, or null for pings
+ */
+export function getUpdateSlot(data: SubscribeUpdate): number | null {
+  const slot =
+    data.transaction?.slot ??
+    data.account?.slot ??
+    data.slot?.slot ??
+    data.blockMeta?.slot ??
+    data.entry?.slot;
+  return slot !== undefined ? Number(slot) : null;
+}
+
+/**
+ * Program and account addresses a transaction subscription filters on,
+ * used to query signature history for the same data
+ */
+export function getTransactionAddresses(request: SubscribeRequest): string[] {
+  const addresses = new Set<string>();
+  for (const filter of Object.values(request.transactions || {})) {
+    filter.accountInclude.forEach(address => addresses.add(address));
+    filter.accountRequired.forEach(address => addresses.add(address));
+  }
+  return Array.from(addresses);
+}
+
+/**
+ * Account subscriptions stream state, not history: the next update of each
+ * account replaces whatever was missed, so their gaps lose nothing
+ */
+export function isAccountSubscription(request: SubscribeRequest): boolean {
+  return Object.keys(request.transactions || {}).length === 0
+    && Object.keys(request.accounts || {}).length > 0;
+}
+
+/**
+ * Tracks the last processed slot of one monitor and detects the slot
+ * range it missed while its stream was down. Checkpoints are stored in
+ * stream_checkpoints so a gap is also found after a process restart.
+ */
+export class GapRecovery {
+  private config: GapRecoveryConfig;
+  private lastSlot: number | null = null;
+  private lastUpdateAt: Date | null = null;
+  private resumeFrom: { slot: number; at: Date } | null = null;
+  private lastCheckpointAt: number = 0;
+  private checkpointLoaded: boolean = false;
+  private gapsDetected: number = 0;
+
+  constructor(
+    private monitorId: string,
+    private platform: StreamGapPlatform,
+    readonly fetcher?: SignatureHistoryFetcher,
+    config: Partial<GapRecoveryConfig> = {},
+    private store: StreamGapOperations = streamGapOperations
+  ) {
+    this.config = { ...defaultGapRecoveryConfig, ...config };
+  }
+
+  /**
+   * Called before each (re)subscribe. Returns the slot to resume from
+   * when fromSlot is enabled and a previous slot is known.
+   */
+  async prepare(): Promise<number | null> {
+    if (!this.checkpointLoaded) {
+      this.checkpointLoaded = true;
+      try {
+        const checkpoint = await this.store.getCheckpoint(this.monitorId);
+        if (checkpoint && this.lastSlot === null) {
+          this.lastSlot = checkpoint.last_slot;
+          this.lastUpdateAt = checkpoint.last_update_at;
+        }
+      } catch (error) {
+        console.error(`[${this.monitorId}] Failed to load slot checkpoint:`, error);
+      }
+    }
+
+    if (this.lastSlot === null) {
+      this.resumeFrom = null;
+      return null;
+    }
+
+    this.resumeFrom = { slot: this.lastSlot, at: this.lastUpdateAt || new Date() };
+    return this.config.useFromSlot ? this.lastSlot + 1 : null;
+  }
+
+  get resumesWithFromSlot(): boolean {
+    return this.config.useFromSlot;
+  }
+
+  get replayTimeout(): number {
+    return this.config.replayTimeout;
+  }
+
+  /**
+   * Record a processed slot. Returns the missed range when this is the
+   * first update after a reconnect and slots were skipped.
+   */
+  observe(slot: number, receivedAt: Date): DetectedGap | null {
+    let gap: DetectedGap | null = null;
+
+    if (this.resumeFrom) {
+      if (slot > this.resumeFrom.slot + 1) {
+        gap = {
+          fromSlot: this.resumeFrom.slot + 1,
+          toSlot: slot - 1,
+          gapStart: this.resumeFrom.at,
+          gapEnd: receivedAt
+        };
+        this.gapsDetected++;
+      }
+      this.resumeFrom = null;
+    }
+
+    if (this.lastSlot === null || slot > this.lastSlot) {
+      this.lastSlot = slot;
+    }
+    this.lastUpdateAt = receivedAt;
+
+    if (receivedAt.getTime() - this.lastCheckpointAt >= this.config.checkpointInterval) {
+      this.lastCheckpointAt = receivedAt.getTime();
+      this.saveCheckpoint().catch(error => {
+        console.error(`[${this.monitorId}] Failed to save slot checkpoint:`, error);
+      });
+    }
+
+    return gap;
+  }
+
+  canBackfill(gap: DetectedGap): boolean {
+    return gap.toSlot - gap.fromSlot + 1 <= this.config.maxBackfillSlots;
+  }
+
+  /**
+   * Store a gap, or move an already stored one to a new status and method
+   */
+  async recordGap(gap: DetectedGap, status: 'recovering' | 'recovered' | 'unrecovered', method?: StreamGapRecoveryMethod, error?: string): Promise<void> {
+    try {
+      if (gap.id !== undefined) {
+        await this.store.updateGap(gap.id, status, 0, error, method);
+        return;
+      }
+      gap.id = await this.store.createGap({
+        monitor_id: this.monitorId,
+        platform: this.platform,
+        from_slot: gap.fromSlot,
+        to_slot: gap.toSlot,
+        gap_start: gap.gapStart,
+        gap_end: gap.gapEnd,
+        status,
+        recovery_method: method,
+        error
+      });
+    } catch (dbError) {
+      console.error(`[${this.monitorId}] Failed to record slot gap ${gap.fromSlot}-${gap.toSlot}:`, dbError);
+    }
+  }
+
+  async resolveGap(gap: DetectedGap, recovered: boolean, transactions: number, error?: string): Promise<void> {
+    if (gap.id === undefined) return;
+    try {
+      await this.store.updateGap(gap.id, recovered ? 'recovered' : 'unrecovered', transactions, error);
+    } catch (dbError) {
+      console.error(`[${this.monitorId}] Failed to update slot gap ${gap.id}:`, dbError);
+    }
+  }
+
+  async saveCheckpoint(): Promise<void> {
+    if (this.lastSlot === null || !this.lastUpdateAt) return;
+    await this.store.saveCheckpoint({
+      monitor_id: this.monitorId,
+      last_slot: this.lastSlot,
+      last_update_at: this.lastUpdateAt
+    });
+  }
+
+  getLastSlot(): number | null {
+    return this.lastSlot;
+  }
+
+  getGapsDetected(): number {
+    return this.gapsDetected;
+  }
+}
@@ -0,0 +1,161 @@
+import { EventEmitter } from 'events';
+import { StreamMonitor, StreamStats } from './stream-monitor';
+
+export type MonitorState = 'idle' | 'running' | 'backoff' | 'stopped' | 'failed';
+
+export interface SupervisorConfig {
+  baseRestartDelay: number;        // Default: 1 second
+  maxRestartDelay: number;         // Default: 60 seconds
+  maxConsecutiveFailures: number;  // 0 = restart forever
+  stableRunTime: number;           // Run time after which the failure count resets
+}
+
+export interface MonitorStatus extends StreamStats {
+  id: string;
+  state: MonitorState;
+  restarts: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  nextRestartAt: Date | null;
+}
+
+interface SupervisedMonitor {
+  monitor: StreamMonitor;
+  state: MonitorState;
+  restarts: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  nextRestartAt: Date | null;
+}
+
+export const defaultSupervisorConfig: SupervisorConfig = {
+  baseRestartDelay: 1000,
+  maxRestartDelay: 60000,
+  maxConsecutiveFailures: 0,
+  stableRunTime: 60000
+};
+
+/**
+ * Runs StreamMonitors side by side in one process and restarts
+ * any monitor whose stream closes or fails, with exponential backoff.
+ *
+ * Events: 'started' (id), 'exited' (id, error | null), 'failed' (id)
+ */
+export class MonitorSupervisor extends EventEmitter {
+  private monitors: Map<string, SupervisedMonitor> = new Map();
+  private config: SupervisorConfig;
+  private shuttingDown: boolean = false;
+
+  constructor(config: Partial<SupervisorConfig> = {}) {
+    super();
+    this.config = { ...defaultSupervisorConfig, ...config };
+  }
+
+  register(monitor: StreamMonitor): void {
+    if (this.monitors.has(monitor.id)) {
+      throw new Error(`Monitor ${monitor.id} is already registered`);
+    }
+
+    this.monitors.set(monitor.id, {
+      monitor,
+      state: 'idle',
+      restarts: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+      nextRestartAt: null
+    });
+  }
+
+  startAll(): void {
+    this.shuttingDown = false;
+    for (const entry of this.monitors.values()) {
+      if (entry.state === 'idle' || entry.state === 'stopped') {
+        this.supervise(entry);
+      }
+    }
+  }
+
+  async stopAll(): Promise<void> {
+    this.shuttingDown = true;
+    await Promise.all(
+      Array.from(this.monitors.values()).map(async entry => {
+        try {
+          await entry.monitor.stop();
+        } catch (error) {
+          console.error(`[Supervisor] Error stopping ${entry.monitor.id}:`, error);
+        }
+        entry.state = 'stopped';
+        entry.nextRestartAt = null;
+      })
+    );
+  }
+
+  getStatus(): MonitorStatus[] {
+    return Array.from(this.monitors.values()).map(entry => ({
+      id: entry.monitor.id,
+      state: entry.state,
+      restarts: entry.restarts,
+      consecutiveFailures: entry.consecutiveFailures,
+      lastError: entry.lastError,
+      nextRestartAt: entry.nextRestartAt,
+      ...entry.monitor.getStats()
+    }));
+  }
+
+  getMonitorStatus(id: string): MonitorStatus | undefined {
+    return this.getStatus().find(status => status.id === id);
+  }
+
+  private async supervise(entry: SupervisedMonitor): Promise<void> {
+    const id = entry.monitor.id;
+
+    while (!this.shuttingDown) {
+      entry.state = 'running';
+      entry.nextRestartAt = null;
+      this.emit('started', id);
+
+      const runStartedAt = Date.now();
+      let exitError: Error | null = null;
+
+      try {
+        await entry.monitor.start();
+      } catch (error) {
+        exitError = error instanceof Error ? error : new Error(String(error));
+      }
+
+      if (this.shuttingDown) break;
+
+      entry.lastError = exitError ? exitError.message : 'Stream closed';
+      this.emit('exited', id, exitError);
+
+      // A long healthy run means this is a fresh failure, not a crash loop
+      if (Date.now() - runStartedAt >= this.config.stableRunTime) {
+        entry.consecutiveFailures = 0;
+      }
+      entry.consecutiveFailures++;
+
+      if (
+        this.config.maxConsecutiveFailures > 0 &&
+        entry.consecutiveFailures >= this.config.maxConsecutiveFailures
+      ) {
+        console.error(`[Supervisor] ${id} failed ${entry.consecutiveFailures} times in a row, giving up`);
+        entry.state = 'failed';
+        this.emit('failed', id);
+        return;
+      }
+
+      const delay = Math.min(
+        this.config.baseRestartDelay * Math.pow(2, entry.consecutiveFailures - 1),
+        this.config.maxRestartDelay
+      );
+      entry.state = 'backoff';
+      entry.nextRestartAt = new Date(Date.now() + delay);
+      console.warn(`[Supervisor] ${id} exited (${entry.lastError}), restarting in ${delay}ms`);
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+      entry.restarts++;
+    }
+
+    entry.state = 'stopped';
+  }
+}
@@ -0,0 +1,220 @@
+import { SubscribeRequest, SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+import { ConnectionPool } from '../../grpc/connection-pool';
+import { StreamGapPlatform } from '../../database/types';
+import { StreamMonitor } from './stream-monitor';
+
+export interface MonitorPluginModule {
+  request: SubscribeRequest;
+  processUpdate: (data: any) => Promise<void>;
+  flush?: () => Promise<void>;
+}
+
+export interface MonitorPlugin {
+  id: string;
+  // Platform whose data the monitor writes, so stream gaps flag the right tokens
+  platform: StreamGapPlatform;
+  description: string;
+  // Modules are required lazily so unselected monitors never build their parsers
+  load: () => MonitorPluginModule;
+}
+
+export const MONITOR_PLUGINS: MonitorPlugin[] = [
+  {
+    id: 'pumpfun-mint',
+    platform: 'pumpfun',
+    description: 'Pump.fun new token mints with off-chain metadata',
+    load: () => {
+      const m: typeof import('../pumpfun/pumpfun-monitor-new-token-mint') = require('../pumpfun/pumpfun-monitor-new-token-mint');
+      return { request: m.PUMP_FUN_MINT_REQUEST, processUpdate: m.processPumpFunMintUpdate };
+    }
+  },
+  {
+    id: 'pumpfun-transaction',
+    platform: 'pumpfun',
+    description: 'Pump.fun bonding curve buys and sells',
+    load: () => {
+      const m: typeof import('../pumpfun/pumpfun-monitor-transaction') = require('../pumpfun/pumpfun-monitor-transaction');
+      return {
+        request: m.PUMP_FUN_TRANSACTION_REQUEST,
+        processUpdate: m.processPumpFunTransactionUpdate,
+        flush: m.flushBatch
+      };
+    }
+  },
+  {
+    id: 'pumpfun-price',
+    platform: 'pumpfun',
+    description: 'Pump.fun bonding curve price updates',
+    load: () => {
+      const m: typeof import('../pumpfun/pumpfun-monitor-token-price') = require('../pumpfun/pumpfun-monitor-token-price');
+      return { request: m.PUMP_FUN_PRICE_REQUEST, processUpdate: m.processPumpFunPriceUpdate };
+    }
+  },
+  {
+    id: 'pumpfun-account',
+    platform: 'pumpfun',
+    description: 'Pump.fun bonding curve reserves, price and progress',
+    load: () => {
+      const m: typeof import('../pumpfun/pump-fun-monitor-account') = require('../pumpfun/pump-fun-monitor-account');
+      return { request: m.PUMP_FUN_ACCOUNT_REQUEST, processUpdate: m.processPumpFunAccountUpdate };
+    }
+  },
+  {
+    id: 'raydium-launchpad-mint',
+    platform: 'raydium_launchpad',
+    description: 'Raydium Launchpad new token mints',
+    load: () => {
+      const m: typeof import('../raydium-launchpad/raydium-launchpad-monitor-new-token-mint') = require('../raydium-launchpad/raydium-launchpad-monitor-new-token-mint');
+      return { request: m.RAYDIUM_LAUNCHPAD_MINT_REQUEST, processUpdate: m.processRaydiumLaunchpadMintUpdate };
+    }
+  },
+  {
+    id: 'raydium-launchpad-transaction',
+    platform: 'raydium_launchpad',
+    description: 'Raydium Launchpad pool creations, buys, sells and liquidity',
+    load: () => {
+      const m: typeof import('../raydium-launchpad/raydium-launchpad-transaction-monitor') = require('../raydium-launchpad/raydium-launchpad-transaction-monitor');
+      return {
+        request: m.RAYDIUM_LAUNCHPAD_TRANSACTION_REQUEST,
+        processUpdate: m.processRaydiumLaunchpadTransactionUpdate,
+        flush: m.flushBatch
+      };
+    }
+  },
+  {
+    id: 'meteora-dbc-mint',
+    platform: 'meteora_dbc',
+    description: 'Meteora Dynamic Bonding Curve new token launches',
+    load: () => {
+      const m: typeof import('../meteora-dbc/meteora-dbc-monitor-new-token-mint') = require('../meteora-dbc/meteora-dbc-monitor-new-token-mint');
+      return { request: m.METEORA_DBC_MINT_REQUEST, processUpdate: m.processMeteoraDbcMintUpdate };
+    }
+  },
+  {
+    id: 'meteora-dbc-transaction',
+    platform: 'meteora_dbc',
+    description: 'Meteora Dynamic Bonding Curve swaps, curve completion and migrations',
+    load: () => {
+      const m: typeof import('../meteora-dbc/meteora-dbc-transaction-monitor') = require('../meteora-dbc/meteora-dbc-transaction-monitor');
+      return {
+        request: m.METEORA_DBC_TRANSACTION_REQUEST,
+        processUpdate: m.processMeteoraDbcTransactionUpdate,
+        flush: m.flushBatch
+      };
+    }
+  },
+  {
+    id: 'meteora-dbc-account',
+    platform: 'meteora_dbc',
+    description: 'Meteora Dynamic Bonding Curve pool reserves, price and progress',
+    load: () => {
+      const m: typeof import('../meteora-dbc/meteora-dbc-account-monitor') = require('../meteora-dbc/meteora-dbc-account-monitor');
+      return { request: m.METEORA_DBC_ACCOUNT_REQUEST, processUpdate: m.processMeteoraDbcAccountUpdate };
+    }
+  },
+  {
+    id: 'pumpswap-pool',
+    platform: 'pumpswap',
+    description: 'PumpSwap pool creation for graduated tokens',
+    load: () => {
+      const m: typeof import('../pumpswap/pumpswap-new-pool-monitor') = require('../pumpswap/pumpswap-new-pool-monitor');
+      return { request: m.PUMP_SWAP_POOL_REQUEST, processUpdate: m.processPumpSwapPoolUpdate };
+    }
+  },
+  {
+    id: 'pumpswap-transaction',
+    platform: 'pumpswap',
+    description: 'PumpSwap AMM swaps',
+    load: () => {
+      const m: typeof import('../pumpswap/pumpswap-transaction-monitor') = require('../pumpswap/pumpswap-transaction-monitor');
+      return {
+        request: m.PUMP_SWAP_TRANSACTION_REQUEST,
+        processUpdate: m.processPumpSwapTransactionUpdate,
+        flush: m.flushBatch
+      };
+    }
+  },
+  {
+    id: 'pumpswap-price',
+    platform: 'pumpswap',
+    description: 'PumpSwap AMM price updates',
+    load: () => {
+      const m: typeof import('../pumpswap/pumpswap-price-monitor') = require('../pumpswap/pumpswap-price-monitor');
+      return { request: m.PUMP_SWAP_PRICE_REQUEST, processUpdate: m.processPumpSwapPriceUpdate };
+    }
+  },
+  {
+    id: 'pumpswap-account',
+    platform: 'pumpswap',
+    description: 'PumpSwap AMM pool account state',
+    load: () => {
+      const m: typeof import('../pumpswap/pumpswap-account-monitor') = require('../pumpswap/pumpswap-account-monitor');
+      return { request: m.PUMP_SWAP_ACCOUNT_REQUEST, processUpdate: m.processPumpSwapAccountUpdate };
+    }
+  },
+  // The graduation monitor's three streams share its module, so the
+  // migration stream's graduations reach the Raydium pool stream
+  {
+    id: 'graduation-curve',
+    platform: 'pumpfun',
+    description: 'Pump.fun bonding curves reaching completion',
+    load: () => {
+      const m: typeof import('../graduation/graduation-monitor') = require('../graduation/graduation-monitor');
+      return { request: m.GRADUATION_CURVE_REQUEST, processUpdate: m.processGraduationCurveUpdate };
+    }
+  },
+  {
+    id: 'graduation-migration',
+    platform: 'pumpfun',
+    description: 'Pump.fun migration transactions marking tokens graduated',
+    load: () => {
+      const m: typeof import('../graduation/graduation-monitor') = require('../graduation/graduation-monitor');
+      return { request: m.GRADUATION_MIGRATION_REQUEST, processUpdate: m.processGraduationMigrationUpdate };
+    }
+  },
+  {
+    id: 'graduation-raydium-pool',
+    platform: 'pumpfun',
+    description: 'Raydium AMM V4 pools opened for graduated tokens',
+    load: () => {
+      const m: typeof import('../graduation/graduation-monitor') = require('../graduation/graduation-monitor');
+      return { request: m.GRADUATION_RAYDIUM_POOL_REQUEST, processUpdate: m.processGraduationRaydiumPoolUpdate };
+    }
+  }
+];
+
+export function getPlugin(id: string): MonitorPlugin | undefined {
+  return MONITOR_PLUGINS.find(plugin => plugin.id === id);
+}
+
+/**
+ * StreamMonitor backed by a plugin definition
+ */
+export class PluginMonitor extends StreamMonitor {
+  private module?: MonitorPluginModule;
+
+  constructor(pool: ConnectionPool, private plugin: MonitorPlugin) {
+    super(pool, plugin.id);
+  }
+
+  protected buildRequest(): SubscribeRequest {
+    return this.getModule().request;
+  }
+
+  protected processUpdate(data: SubscribeUpdate): Promise<void> {
+    return this.getModule().processUpdate(data);
+  }
+
+  protected async flush(): Promise<void> {
+    if (this.module?.flush) {
+      await this.module.flush();
+    }
+  }
+
+  private getModule(): MonitorPluginModule {
+    if (!this.module) {
+      this.module = this.plugin.load();
+    }
+    return this.module;
+  }
+}
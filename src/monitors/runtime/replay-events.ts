@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { EventLogReader, loadEventLogConfig } from './event-log';
+import { MONITOR_PLUGINS, MonitorPlugin, getPlugin } from './plugins';
+import { withStreamTime } from './stream-clock';
+
+/**
+ * Replay recorded gRPC updates through a monitor's normal processing path
+ *
+ * Usage:
+ *   npm run monitors:replay -- pumpfun-transaction
+ *   npm run monitors:replay -- pumpfun-transaction --speed 10
+ *   npm run monitors:replay -- pumpfun-transaction --from 2025-08-09T12:00:00Z --to 2025-08-09T13:00:00Z
+ *
+ * --speed max (default) replays as fast as the handlers allow, --speed 1 keeps the
+ * original pacing. --dir overrides EVENT_LOG_DIR.
+ */
+
+export interface ReplayOptions {
+  directory?: string;
+  speed?: number;     // 0 = as fast as possible
+  from?: Date;
+  to?: Date;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  failed: number;
+  firstReceivedAt: Date | null;
+  lastReceivedAt: Date | null;
+}
+
+export async function replayEvents(plugin: MonitorPlugin, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const reader = new EventLogReader(plugin.id, options.directory);
+  const handlers = plugin.load();
+  const speed = options.speed || 0;
+
+  const result: ReplayResult = {
+    replayed: 0,
+    failed: 0,
+    firstReceivedAt: null,
+    lastReceivedAt: null
+  };
+
+  let replayStartedAt = 0;
+  let firstReceivedAt = 0;
+
+  for await (const entry of reader.read({ from: options.from, to: options.to })) {
+    if (result.firstReceivedAt === null) {
+      result.firstReceivedAt = new Date(entry.receivedAt);
+      firstReceivedAt = entry.receivedAt;
+      replayStartedAt = Date.now();
+    }
+
+    if (speed > 0) {
+      const due = replayStartedAt + (entry.receivedAt - firstReceivedAt) / speed;
+      const wait = due - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    }
+
+    // Handlers timestamp their rows with streamNow(), which reports the original receive time while this update is handled
+    try {
+      await withStreamTime(entry.receivedAt, () => handlers.processUpdate(entry.update));
+      result.replayed++;
+    } catch (error) {
+      result.failed++;
+      console.error(`[Replay] Error processing update received at ${new Date(entry.receivedAt).toISOString()}:`, error);
+    }
+    result.lastReceivedAt = new Date(entry.receivedAt);
+
+    if ((result.replayed + result.failed) % 1000 === 0) {
+      console.log(`[Replay] ${plugin.id}: ${result.replayed + result.failed} updates replayed (at ${result.lastReceivedAt.toISOString()})`);
+    }
+  }
+
+  if (handlers.flush) {
+    await handlers.flush();
+  }
+
+  return result;
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return date;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const optionValues = ['--dir', '--speed', '--from', '--to']
+    .map(name => getOption(args, name))
+    .filter(value => value !== undefined);
+  const id = args.find(arg => !arg.startsWith('--') && !optionValues.includes(arg));
+
+  const plugin = id ? getPlugin(id) : undefined;
+  if (!plugin) {
+    console.error(id ? `Unknown monitor: ${id}` : 'Usage: npm run monitors:replay -- <monitor-id> [--speed N|max] [--from ISO] [--to ISO] [--dir path]');
+    console.error(`Available monitors: ${MONITOR_PLUGINS.map(p => p.id).join(', ')}`);
+    process.exit(1);
+  }
+
+  const speedArg = getOption(args, '--speed') || 'max';
+  const speed = speedArg === 'max' ? 0 : parseFloat(speedArg);
+  if (isNaN(speed) || speed < 0) {
+    throw new Error(`Invalid speed: ${speedArg}`);
+  }
+
+  const options: ReplayOptions = {
+    directory: getOption(args, '--dir') || loadEventLogConfig().directory,
+    speed,
+    from: parseDate(getOption(args, '--from'), '--from'),
+    to: parseDate(getOption(args, '--to'), '--to')
+  };
+
+  console.log(`⏪ Replaying ${plugin.id} from ${options.directory} (speed: ${speedArg})`);
+  const started = Date.now();
+  const result = await replayEvents(plugin, options);
+
+  console.log('\n========== Replay Complete ==========');
+  console.log(`Monitor: ${plugin.id}`);
+  console.log(`Updates replayed: ${result.replayed}`);
+  console.log(`Failed: ${result.failed}`);
+  console.log(`Range: ${result.firstReceivedAt?.toISOString() || '-'} → ${result.lastReceivedAt?.toISOString() || '-'}`);
+  console.log(`Took: ${((Date.now() - started) / 1000).toFixed(1)}s`);
+  console.log('=====================================\n');
+
+  await closeDbPool();
+  // Some monitor modules keep cleanup intervals alive
+  process.exit(0);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Replay failed:', error);
+    process.exit(1);
+  });
+}
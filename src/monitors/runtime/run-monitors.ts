@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import express from 'express';
+import { MonitorSupervisor, MonitorStatus } from './monitor-supervisor';
+import { MONITOR_PLUGINS, PluginMonitor, getPlugin } from './plugins';
+import { EventLogWriter, loadEventLogConfig } from './event-log';
+import { GapRecovery, loadGapRecoveryConfig } from './gap-recovery';
+import { RpcSignatureHistoryFetcher } from './signature-history-fetcher';
+
+/**
+ * Unified monitor runtime
+ *
+ * Usage:
+ *   npm run monitors:start -- pumpfun-mint pumpfun-transaction
+ *   npm run monitors:start -- --all
+ *   npm run monitors:start -- --list
+ *   npm run monitors:start -- --all --record
+ *
+ * Monitors can also be selected with MONITORS=pumpfun-mint,pumpswap-pool
+ * --record (or EVENT_LOG_ENABLED=true) writes raw updates to EVENT_LOG_DIR for replay
+ * Slot gap recovery is on by default, GAP_RECOVERY_ENABLED=false turns it off
+ */
+
+function printPlugins(): void {
+  console.log('\nAvailable monitors:');
+  for (const plugin of MONITOR_PLUGINS) {
+    console.log(`  ${plugin.id.padEnd(32)} ${plugin.description}`);
+  }
+  console.log('');
+}
+
+function resolveMonitorIds(args: string[]): string[] {
+  if (args.includes('--all')) {
+    return MONITOR_PLUGINS.map(plugin => plugin.id);
+  }
+
+  const ids = args.filter(arg => !arg.startsWith('--'));
+  if (ids.length > 0) return ids;
+
+  return (process.env.MONITORS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id.length > 0);
+}
+
+function formatStatusLine(status: MonitorStatus): string {
+  const lastUpdate = status.lastUpdateAt
+    ? `${Math.round((Date.now() - status.lastUpdateAt.getTime()) / 1000)}s ago`
+    : 'never';
+  const error = status.lastError ? ` | last error: ${status.lastError}` : '';
+  const slot = status.lastSlot !== null ? ` slot=${status.lastSlot} gaps=${status.gapsDetected}` : '';
+  return `  ${status.id.padEnd(32)} ${status.state.padEnd(8)} updates=${status.updatesReceived} errors=${status.processingErrors} restarts=${status.restarts}${slot} last update ${lastUpdate}${error}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--list')) {
+    printPlugins();
+    return;
+  }
+
+  const ids = resolveMonitorIds(args);
+  if (ids.length === 0) {
+    console.error('No monitors selected. Pass monitor ids, --all, or set MONITORS.');
+    printPlugins();
+    process.exit(1);
+  }
+
+  const unknown = ids.filter(id => !getPlugin(id));
+  if (unknown.length > 0) {
+    console.error(`Unknown monitor(s): ${unknown.join(', ')}`);
+    printPlugins();
+    process.exit(1);
+  }
+
+  // Required here so --list works without gRPC credentials
+  const { grpcPool, getPoolStats } = require('../../grpc') as typeof import('../../grpc');
+
+  const supervisor = new MonitorSupervisor({
+    maxConsecutiveFailures: parseInt(process.env.MONITOR_MAX_CONSECUTIVE_FAILURES || '0'),
+    maxRestartDelay: parseInt(process.env.MONITOR_MAX_RESTART_DELAY || '60000')
+  });
+
+  const record = args.includes('--record') || process.env.EVENT_LOG_ENABLED === 'true';
+  const gapRecoveryEnabled = process.env.GAP_RECOVERY_ENABLED !== 'false';
+  const gapRecoveryConfig = loadGapRecoveryConfig();
+  const fetcher = process.env.GAP_BACKFILL_ENABLED !== 'false' ? new RpcSignatureHistoryFetcher() : undefined;
+
+  for (const id of ids) {
+    const plugin = getPlugin(id)!;
+    const monitor = new PluginMonitor(grpcPool, plugin);
+    if (record) {
+      monitor.enableEventLog(new EventLogWriter(id));
+    }
+    if (gapRecoveryEnabled) {
+      monitor.enableGapRecovery(new GapRecovery(id, plugin.platform, fetcher, gapRecoveryConfig));
+    }
+    supervisor.register(monitor);
+  }
+
+  supervisor.on('failed', (id: string) => {
+    console.error(`❌ Monitor ${id} has been stopped after repeated failures`);
+  });
+
+  // Status endpoint
+  const app = express();
+  app.get('/status', (req, res) => {
+    const stats = getPoolStats();
+    res.json({
+      success: true,
+      monitors: supervisor.getStatus(),
+      pool: {
+        total: stats.total,
+        healthy: stats.healthy,
+        unhealthy: stats.unhealthy,
+        rateLimitRemaining: stats.rateLimitRemaining
+      },
+      timestamp: new Date()
+    });
+  });
+  app.get('/status/:id', (req, res) => {
+    const status = supervisor.getMonitorStatus(req.params.id);
+    if (!status) {
+      res.status(404).json({ success: false, error: 'Monitor not found' });
+      return;
+    }
+    res.json({ success: true, monitor: status, timestamp: new Date() });
+  });
+
+  const statusPort = parseInt(process.env.MONITOR_STATUS_PORT || '3010');
+  const server = app.listen(statusPort, () => {
+    console.log(`📊 Monitor status available at http://localhost:${statusPort}/status`);
+  });
+
+  // Periodic status report
+  const logInterval = parseInt(process.env.MONITOR_STATUS_LOG_INTERVAL || '60000');
+  const statusTimer = setInterval(() => {
+    console.log('\n========== Monitor Runtime Status ==========');
+    supervisor.getStatus().forEach(status => console.log(formatStatusLine(status)));
+    console.log('============================================\n');
+  }, logInterval);
+
+  async function handleShutdown() {
+    console.log('\n[Runtime] Shutting down monitors...');
+    clearInterval(statusTimer);
+    server.close();
+    await supervisor.stopAll();
+    process.exit(0);
+  }
+
+  process.on('SIGINT', handleShutdown);
+  process.on('SIGTERM', handleShutdown);
+
+  console.log(`🚀 Starting ${ids.length} monitor(s): ${ids.join(', ')}`);
+  if (record) {
+    console.log(`📼 Recording raw updates to ${loadEventLogConfig().directory}`);
+  }
+  supervisor.startAll();
+}
+
+main().catch(error => {
+  console.error('Monitor runtime failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+import { Connection, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+import { utils } from '@coral-xyz/anchor';
+
+/**
+ * Source of historical transactions used to fill slot gaps.
+ * Implementations return updates shaped like live gRPC transaction
+ * updates so monitors can process them with their normal handler.
+ */
+export interface SignatureHistoryFetcher {
+  /**
+   * Fetch successful transactions touching any of the addresses
+   * within [fromSlot, toSlot], oldest first
+   */
+  fetchTransactions(addresses: string[], fromSlot: number, toSlot: number): Promise<SubscribeUpdate[]>;
+}
+
+/**
+ * Fetcher backed by getSignaturesForAddress / getTransaction
+ */
+export class RpcSignatureHistoryFetcher implements SignatureHistoryFetcher {
+  private connection: Connection;
+  private readonly PAGE_SIZE = 1000;
+
+  constructor(
+    rpcUrl: string = process.env.GAP_BACKFILL_RPC_URL || process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+    private maxTransactions: number = 5000
+  ) {
+    this.connection = new Connection(rpcUrl, 'confirmed');
+  }
+
+  async fetchTransactions(addresses: string[], fromSlot: number, toSlot: number): Promise<SubscribeUpdate[]> {
+    const signatures = new Map<string, number>();
+
+    for (const address of addresses) {
+      await this.collectSignatures(new PublicKey(address), fromSlot, toSlot, signatures);
+    }
+
+    const ordered = Array.from(signatures.entries()).sort((a, b) => a[1] - b[1]);
+    const updates: SubscribeUpdate[] = [];
+
+    for (const [signature] of ordered) {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      if (tx && tx.meta) {
+        updates.push(toSubscribeUpdate(tx));
+      }
+    }
+
+    return updates;
+  }
+
+  private async collectSignatures(
+    address: PublicKey,
+    fromSlot: number,
+    toSlot: number,
+    signatures: Map<string, number>
+  ): Promise<void> {
+    let before: string | undefined;
+
+    while (true) {
+      const page = await this.connection.getSignaturesForAddress(address, { before, limit: this.PAGE_SIZE });
+      if (page.length === 0) return;
+
+      for (const info of page) {
+        // Pages are newest first, so anything below the gap ends the walk
+        if (info.slot < fromSlot) return;
+        if (info.slot > toSlot || info.err) continue;
+
+        signatures.set(info.signature, info.slot);
+        if (signatures.size > this.maxTransactions) {
+          throw new Error(`Gap ${fromSlot}-${toSlot} exceeds ${this.maxTransactions} transactions`);
+        }
+      }
+
+      if (page.length < this.PAGE_SIZE) return;
+      before = page[page.length - 1].signature;
+    }
+  }
+}
+
+/**
+ * Convert an RPC transaction into the gRPC transaction update layout
+ * (raw bytes instead of base58 strings) expected by the monitors' formatters
+ */
+export function toSubscribeUpdate(tx: VersionedTransactionResponse): SubscribeUpdate {
+  const bs58 = utils.bytes.bs58;
+  const message = tx.transaction.message;
+  const meta = tx.meta!;
+  const signatures = tx.transaction.signatures.map(s => Buffer.from(bs58.decode(s)));
+
+  return {
+    filters: [],
+    transaction: {
+      slot: String(tx.slot),
+      transaction: {
+        signature: signatures[0],
+        isVote: false,
+        index: '0',
+        transaction: {
+          signatures,
+          message: {
+            versioned: message.version !== 'legacy',
+            header: message.header,
+            recentBlockhash: Buffer.from(bs58.decode(message.recentBlockhash)),
+            accountKeys: message.staticAccountKeys.map(key => key.toBuffer()),
+            instructions: message.compiledInstructions.map(ix => ({
+              programIdIndex: ix.programIdIndex,
+              accounts: Buffer.from(ix.accountKeyIndexes),
+              data: Buffer.from(ix.data)
+            })),
+            addressTableLookups: message.addressTableLookups.map(lookup => ({
+              accountKey: lookup.accountKey.toBuffer(),
+              writableIndexes: Buffer.from(lookup.writableIndexes),
+              readonlyIndexes: Buffer.from(lookup.readonlyIndexes)
+            }))
+          }
+        },
+        meta: {
+          err: undefined,
+          fee: String(meta.fee),
+          preBalances: meta.preBalances.map(String),
+          postBalances: meta.postBalances.map(String),
+          innerInstructions: (meta.innerInstructions || []).map(inner => ({
+            index: inner.index,
+            instructions: inner.instructions.map(ix => ({
+              programIdIndex: ix.programIdIndex,
+              accounts: Buffer.from(ix.accounts),
+              data: Buffer.from(bs58.decode(ix.data))
+            }))
+          })),
+          innerInstructionsNone: !meta.innerInstructions,
+          logMessages: meta.logMessages || [],
+          logMessagesNone: !meta.logMessages,
+          preTokenBalances: (meta.preTokenBalances || []) as any,
+          postTokenBalances: (meta.postTokenBalances || []) as any,
+          rewards: [],
+          loadedWritableAddresses: (meta.loadedAddresses?.writable || []).map(key => key.toBuffer()),
+          loadedReadonlyAddresses: (meta.loadedAddresses?.readonly || []).map(key => key.toBuffer()),
+          returnData: undefined,
+          returnDataNone: true,
+          computeUnitsConsumed: meta.computeUnitsConsumed !== undefined ? String(meta.computeUnitsConsumed) : undefined
+        }
+      }
+    },
+    createdAt: tx.blockTime ? new Date(tx.blockTime * 1000) : undefined
+  } as SubscribeUpdate;
+}
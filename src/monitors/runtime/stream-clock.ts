@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Clock used by monitors when they timestamp stream data.
+ * Live monitors read wall-clock time. A replayed or backfilled update is
+ * handled inside withStreamTime(), which pins the clock to the time the
+ * update was originally received for that update's handling only, so other
+ * monitors running in the same process keep reading wall-clock time.
+ */
+
+const replayTime = new AsyncLocalStorage<number>();
+
+export function streamNow(): number {
+  return replayTime.getStore() ?? Date.now();
+}
+
+export function withStreamTime<T>(timestamp: number, handle: () => Promise<T>): Promise<T> {
+  return replayTime.run(timestamp, handle);
+}
@@ -0,0 +1,316 @@
+import { SubscribeRequest, SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+import { MonitorAdapter } from '../../grpc/monitor-adapter';
+import { ConnectionPool } from '../../grpc/connection-pool';
+import { EventLogWriter } from './event-log';
+import { DetectedGap, GapRecovery, getTransactionAddresses, getUpdateSlot, isAccountSubscription } from './gap-recovery';
+import { withStreamTime } from './stream-clock';
+
+export interface StreamStats {
+  startedAt: Date | null;
+  lastUpdateAt: Date | null;
+  updatesReceived: number;
+  processingErrors: number;
+  lastProcessingError: string | null;
+  lastSlot: number | null;
+  gapsDetected: number;
+}
+
+/**
+ * Base class for monitors hosted by the MonitorSupervisor.
+ * Owns the subscribe/stream lifecycle so plugins only describe
+ * what to subscribe to and how to process each update.
+ */
+export abstract class StreamMonitor extends MonitorAdapter {
+  private stream?: any;
+  private stopping: boolean = false;
+  private eventLog?: EventLogWriter;
+  private gapRecovery?: GapRecovery;
+  // Live updates held back while a gap is being backfilled
+  private heldUpdates: SubscribeUpdate[] | null = null;
+  // Gap a fromSlot resubscribe should replay, until an update from its start arrives
+  private pendingReplay: { gap: DetectedGap; timer: NodeJS.Timeout } | null = null;
+  protected stats: StreamStats = {
+    startedAt: null,
+    lastUpdateAt: null,
+    updatesReceived: 0,
+    processingErrors: 0,
+    lastProcessingError: null,
+    lastSlot: null,
+    gapsDetected: 0
+  };
+
+  constructor(pool: ConnectionPool, monitorId: string) {
+    super(pool, monitorId);
+  }
+
+  get id(): string {
+    return this.monitorId;
+  }
+
+  protected abstract buildRequest(): SubscribeRequest;
+  protected abstract processUpdate(data: SubscribeUpdate): Promise<void>;
+
+  // Record every raw update so it can be replayed offline
+  enableEventLog(writer: EventLogWriter): void {
+    this.eventLog = writer;
+  }
+
+  // Track slots and recover what was missed across reconnects
+  enableGapRecovery(recovery: GapRecovery): void {
+    this.gapRecovery = recovery;
+  }
+
+  // Persist anything buffered (e.g. transaction batches) before stopping
+  protected async flush(): Promise<void> {}
+
+  /**
+   * Subscribe and process updates until the stream closes.
+   * Resolves when the stream ends, rejects on stream errors.
+   */
+  async start(): Promise<void> {
+    this.stopping = false;
+    if (this.pendingReplay) {
+      // The new stream resumes after the last slot seen, so the old replay will never come
+      await this.fallBackToBackfill();
+    }
+    const fromSlot = this.gapRecovery ? await this.gapRecovery.prepare() : null;
+    const request = fromSlot !== null
+      ? { ...this.buildRequest(), fromSlot: String(fromSlot) }
+      : this.buildRequest();
+
+    const client = await this.getClient();
+    const stream = await client.subscribe();
+    this.stream = stream;
+    this.pool.setStream(this.monitorId, stream);
+
+    const streamClosed = new Promise<void>((resolve, reject) => {
+      stream.on('error', (error: any) => {
+        if (this.stopping || error.code === 1 || error.message?.includes('Cancelled')) {
+          resolve();
+        } else {
+          reject(error);
+        }
+      });
+      stream.on('end', () => resolve());
+      stream.on('close', () => resolve());
+    });
+
+    stream.on('data', (data: SubscribeUpdate) => this.handleUpdate(data));
+
+    await new Promise<void>((resolve, reject) => {
+      stream.write(request, (err: any) => {
+        if (err === null || err === undefined) {
+          resolve();
+        } else {
+          reject(err);
+        }
+      });
+    });
+
+    this.stats.startedAt = new Date();
+    console.log(`[${this.monitorId}] Subscription established${fromSlot !== null ? ` from slot ${fromSlot}` : ''}`);
+
+    try {
+      await streamClosed;
+    } catch (error) {
+      this.handleConnectionError(error as Error);
+      throw error;
+    } finally {
+      this.stream = undefined;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.pendingReplay) {
+      const { gap, timer } = this.pendingReplay;
+      clearTimeout(timer);
+      this.pendingReplay = null;
+      await this.gapRecovery!.resolveGap(gap, false, 0, 'Stopped before the fromSlot replay arrived');
+    }
+    try {
+      await this.flush();
+    } catch (error) {
+      console.error(`[${this.monitorId}] Flush failed during stop:`, error);
+    }
+    await this.eventLog?.close();
+    try {
+      await this.gapRecovery?.saveCheckpoint();
+    } catch (error) {
+      console.error(`[${this.monitorId}] Failed to save slot checkpoint:`, error);
+    }
+    await super.stop();
+  }
+
+  getStats(): StreamStats {
+    return { ...this.stats };
+  }
+
+  private async handleUpdate(data: SubscribeUpdate): Promise<void> {
+    this.stats.updatesReceived++;
+    this.stats.lastUpdateAt = new Date();
+
+    if (this.eventLog) {
+      try {
+        this.eventLog.append(data, this.stats.lastUpdateAt.getTime());
+      } catch (error) {
+        console.error(`[${this.monitorId}] Failed to record update:`, error);
+      }
+    }
+
+    if (this.heldUpdates) {
+      this.heldUpdates.push(data);
+      return;
+    }
+
+    const slot = this.gapRecovery ? getUpdateSlot(data) : null;
+    if (slot !== null) {
+      const gap = this.gapRecovery!.observe(slot, this.stats.lastUpdateAt);
+      this.stats.lastSlot = this.gapRecovery!.getLastSlot();
+      this.stats.gapsDetected = this.gapRecovery!.getGapsDetected();
+
+      await this.checkReplay(slot);
+
+      if (gap) {
+        this.heldUpdates = [data];
+        await this.recoverGap(gap);
+        return;
+      }
+    }
+
+    await this.processSafely(data);
+  }
+
+  private async processSafely(data: SubscribeUpdate): Promise<void> {
+    try {
+      await this.processUpdate(data);
+    } catch (error) {
+      this.stats.processingErrors++;
+      this.stats.lastProcessingError = error instanceof Error ? error.message : String(error);
+      console.error(`[${this.monitorId}] Error processing update:`, error);
+    }
+  }
+
+  /**
+   * Fill a missed slot range, then release the live updates received meanwhile
+   */
+  private async recoverGap(gap: DetectedGap): Promise<void> {
+    const recovery = this.gapRecovery!;
+    const range = `${gap.fromSlot}-${gap.toSlot}`;
+
+    try {
+      if (isAccountSubscription(this.buildRequest())) {
+        // Not history loss: each account's next update carries its current state
+        console.log(`[${this.monitorId}] Slot gap ${range} on an account subscription, state refreshes with the next updates`);
+        return;
+      }
+
+      if (recovery.resumesWithFromSlot) {
+        // The provider should replay the range on the new stream, but may have
+        // rejected fromSlot or pruned the range, so wait to see the replay
+        console.log(`[${this.monitorId}] Slot gap ${range} after fromSlot resubscribe, waiting for the replay`);
+        await recovery.recordGap(gap, 'recovering', 'from_slot');
+        this.awaitReplay(gap);
+        return;
+      }
+
+      await this.backfillGap(gap);
+    } finally {
+      await this.releaseHeldUpdates();
+    }
+  }
+
+  /**
+   * Fetch a missed slot range through RPC signature history
+   */
+  private async backfillGap(gap: DetectedGap): Promise<void> {
+    const recovery = this.gapRecovery!;
+    const range = `${gap.fromSlot}-${gap.toSlot}`;
+
+    const addresses = getTransactionAddresses(this.buildRequest());
+    if (!recovery.fetcher || addresses.length === 0) {
+      console.warn(`[${this.monitorId}] Slot gap ${range} detected, no backfill available`);
+      await recovery.recordGap(gap, 'unrecovered', undefined, 'No backfill source for this subscription');
+      return;
+    }
+
+    if (!recovery.canBackfill(gap)) {
+      console.warn(`[${this.monitorId}] Slot gap ${range} too large to backfill`);
+      await recovery.recordGap(gap, 'unrecovered', 'rpc_backfill', 'Gap exceeds GAP_MAX_BACKFILL_SLOTS');
+      return;
+    }
+
+    console.log(`[${this.monitorId}] Backfilling slot gap ${range} via RPC`);
+    await recovery.recordGap(gap, 'recovering', 'rpc_backfill');
+
+    let recovered = 0;
+    try {
+      const updates = await recovery.fetcher.fetchTransactions(addresses, gap.fromSlot, gap.toSlot);
+      for (const update of updates) {
+        // Backfilled rows are stamped with their block time, not the time of recovery
+        const blockTime = update.createdAt ? update.createdAt.getTime() : gap.gapEnd.getTime();
+        await withStreamTime(blockTime, () => this.processSafely(update));
+        recovered++;
+      }
+      console.log(`[${this.monitorId}] Backfilled ${recovered} transactions for slot gap ${range}`);
+      await recovery.resolveGap(gap, true, recovered);
+    } catch (error) {
+      console.error(`[${this.monitorId}] Backfill failed for slot gap ${range}:`, error);
+      await recovery.resolveGap(gap, false, recovered, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private awaitReplay(gap: DetectedGap): void {
+    const timer = setTimeout(() => {
+      this.fallBackToBackfill().catch(error => {
+        console.error(`[${this.monitorId}] Fallback backfill failed:`, error);
+      });
+    }, this.gapRecovery!.replayTimeout);
+    timer.unref();
+    this.pendingReplay = { gap, timer };
+  }
+
+  /**
+   * A replayed update from the start of the pending gap shows the provider
+   * honoured fromSlot and is sending the missed range
+   */
+  private async checkReplay(slot: number): Promise<void> {
+    if (!this.pendingReplay || slot > this.pendingReplay.gap.fromSlot + 1) return;
+    const { gap, timer } = this.pendingReplay;
+    clearTimeout(timer);
+    this.pendingReplay = null;
+    console.log(`[${this.monitorId}] Slot gap ${gap.fromSlot}-${gap.toSlot} replayed by fromSlot resubscribe`);
+    await this.gapRecovery!.resolveGap(gap, true, 0);
+  }
+
+  /**
+   * No replayed update arrived, so fetch the range like any other gap
+   */
+  private async fallBackToBackfill(): Promise<void> {
+    if (!this.pendingReplay) return;
+    const { gap, timer } = this.pendingReplay;
+    clearTimeout(timer);
+    this.pendingReplay = null;
+    console.warn(`[${this.monitorId}] Slot gap ${gap.fromSlot}-${gap.toSlot} was not replayed after fromSlot resubscribe, falling back to RPC backfill`);
+
+    this.heldUpdates = this.heldUpdates || [];
+    try {
+      await this.backfillGap(gap);
+    } finally {
+      await this.releaseHeldUpdates();
+    }
+  }
+
+  private async releaseHeldUpdates(): Promise<void> {
+    while (this.heldUpdates && this.heldUpdates.length > 0) {
+      const data = this.heldUpdates.shift()!;
+      const slot = getUpdateSlot(data);
+      if (slot !== null) {
+        this.gapRecovery!.observe(slot, new Date());
+        await this.checkReplay(slot);
+      }
+      await this.processSafely(data);
+    }
+    this.heldUpdates = null;
+  }
+}
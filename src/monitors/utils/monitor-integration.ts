@@ -1,15 +1,9 @@
 import { technicalScoreCalculator } from '../../scoring/technical-score-calculator';
 import { monitorService } from '../../database';
 import { getDbPool } from '../../database/connection';
-
-interface PriceUpdate {
-  poolId: string;
-  tokenId: string;
-  price: number;
-  timestamp: Date;
-  type: 'buy' | 'sell';
-  volume: number;
-}
+import { graduationPredictor } from '../../services/graduation-model/graduation-predictor';
+import { sellPressureDetector } from '../../services/sell-pressure/sell-pressure-detector';
+import { PriceUpdate, RecoveryAnalysis, SellPressureEvent } from '../../services/sell-pressure/types';
 
 interface SellPressureAlert {
   tokenId: string;
@@ -21,30 +15,20 @@ interface SellPressureAlert {
 }
 
 export class MonitorIntegration {
-  private priceHistory: Map<string, PriceUpdate[]> = new Map();
   private alertCallbacks: ((alert: SellPressureAlert) => void)[] = [];
-  private readonly PRICE_HISTORY_LIMIT = 100; // Keep last 100 price updates per token
+  
+  constructor() {
+    sellPressureDetector.on('episode', (event: SellPressureEvent) => this.handleSellPressure(event));
+  }
   
   /**
-   * Process price update from monitors and detect sell pressure
+   * Process price update from monitors and detect sell pressure.
+   * Don't combine with `npm run sell-pressure:start`, which already reads
+   * every trade from the database.
    */
   async processPriceUpdate(update: PriceUpdate): Promise<void> {
-    // Update price history
-    const key = update.poolId;
-    if (!this.priceHistory.has(key)) {
-      this.priceHistory.set(key, []);
-    }
-    
-    const history = this.priceHistory.get(key)!;
-    history.push(update);
-    
-    // Limit history size
-    if (history.length > this.PRICE_HISTORY_LIMIT) {
-      history.shift();
-    }
-    
-    // Detect patterns
-    await this.detectSellPressure(update);
+    // Price history, episodes and alert bus events live in the detector
+    await sellPressureDetector.processTrade(update);
     
     // Calculate and save technical score with no cache for critical updates
     if (update.type === 'sell' && update.volume > 1) { // Large sell
@@ -59,10 +43,21 @@ export class MonitorIntegration {
         const pool = getDbPool();
         const client = await pool.connect();
         try {
-          await client.query(
-            'SELECT save_technical_score($1::uuid, $2::uuid)',
+          const saved = await client.query(
+            'SELECT save_technical_score($1::uuid, $2::uuid) AS id',
             [update.tokenId, update.poolId]
           );
+          
+          const prediction = await graduationPredictor.predict(update.tokenId, update.poolId, score).catch(error => {
+            console.error(`Error predicting graduation for token ${update.tokenId}:`, error);
+            return null;
+          });
+          if (prediction) {
+            await client.query(
+              'UPDATE technical_scores SET graduation_probability = $2, graduation_model_id = $3 WHERE id = $1',
+              [saved.rows[0].id, prediction.probability, prediction.modelId]
+            );
+          }
         } finally {
           client.release();
         }
@@ -70,70 +65,6 @@ export class MonitorIntegration {
     }
   }
   
-  /**
-   * Detect sell pressure patterns
-   */
-  private async detectSellPressure(update: PriceUpdate): Promise<void> {
-    const history = this.priceHistory.get(update.poolId);
-    if (!history || history.length < 5) return;
-    
-    const recentHistory = history.slice(-20); // Last 20 transactions
-    const fiveMinAgo = new Date(Date.now() - 5 * 60 * 1000);
-    
-    // Calculate metrics
-    const recentSells = recentHistory.filter(h => h.type === 'sell' && h.timestamp > fiveMinAgo);
-    const recentBuys = recentHistory.filter(h => h.type === 'buy' && h.timestamp > fiveMinAgo);
-    
-    if (recentSells.length === 0) return;
-    
-    const totalSellVolume = recentSells.reduce((sum, s) => sum + s.volume, 0);
-    const totalBuyVolume = recentBuys.reduce((sum, b) => sum + b.volume, 0);
-    
-    // Price drop calculation
-    const oldestPrice = history[0].price;
-    const currentPrice = update.price;
-    const priceDropPercent = ((oldestPrice - currentPrice) / oldestPrice) * 100;
-    
-    // Determine severity
-    let severity: SellPressureAlert['severity'] = 'low';
-    if (priceDropPercent > 30 || totalSellVolume > 10) {
-      severity = 'critical';
-    } else if (priceDropPercent > 20 || totalSellVolume > 5) {
-      severity = 'high';
-    } else if (priceDropPercent > 10 || totalSellVolume > 2) {
-      severity = 'medium';
-    }
-    
-    // Check for whale dump (single large sell)
-    const whaleDump = recentSells.find(s => s.volume > 5); // > 5 SOL
-    if (whaleDump) {
-      severity = 'critical';
-    }
-    
-    // Check for coordinated selling (multiple sells in short time)
-    const sellsLastMinute = recentSells.filter(
-      s => s.timestamp > new Date(Date.now() - 60 * 1000)
-    );
-    if (sellsLastMinute.length > 5) {
-      severity = severity === 'low' ? 'medium' : severity;
-    }
-    
-    // Fire alert if significant
-    if (severity !== 'low' && priceDropPercent > 5) {
-      const tokenInfo = await this.getTokenInfo(update.tokenId);
-      const alert: SellPressureAlert = {
-        tokenId: update.tokenId,
-        symbol: tokenInfo?.symbol || 'UNKNOWN',
-        severity,
-        priceDropPercent,
-        duration: Math.floor((Date.now() - recentSells[0].timestamp.getTime()) / 1000 / 60), // minutes
-        volumeSold: totalSellVolume
-      };
-      
-      this.fireAlert(alert);
-    }
-  }
-  
   /**
    * Register alert callback
    */
@@ -155,76 +86,26 @@ export class MonitorIntegration {
   }
   
   /**
-   * Get token info from database
+   * Turn opened and escalated episodes into callback alerts
    */
-  private async getTokenInfo(tokenId: string): Promise<any> {
-    try {
-      const pool = getDbPool();
-      const client = await pool.connect();
-      try {
-        const result = await client.query(
-          'SELECT * FROM tokens WHERE id = $1::uuid',
-          [tokenId]
-        );
-        return result.rows[0] || null;
-      } finally {
-        client.release();
-      }
-    } catch (error) {
-      console.error('Error fetching token info:', error);
-      return null;
-    }
+  private handleSellPressure(event: SellPressureEvent): void {
+    if (event.type !== 'opened' && event.type !== 'escalated') return;
+    const { episode } = event;
+    this.fireAlert({
+      tokenId: episode.tokenId || '',
+      symbol: event.symbol || 'UNKNOWN',
+      severity: episode.severity,
+      priceDropPercent: episode.maxDropPercent,
+      duration: Math.floor((episode.lastTradeAt.getTime() - episode.startTime.getTime()) / 1000 / 60), // minutes
+      volumeSold: episode.sellVolume
+    });
   }
   
   /**
    * Analyze sell pressure recovery
    */
-  async analyzeRecovery(poolId: string): Promise<{
-    isRecovering: boolean;
-    recoveryStrength: number;
-    timeToRecover: number | null;
-  }> {
-    const history = this.priceHistory.get(poolId);
-    if (!history || history.length < 10) {
-      return { isRecovering: false, recoveryStrength: 0, timeToRecover: null };
-    }
-    
-    // Find the lowest point in recent history
-    let lowestPrice = history[0].price;
-    let lowestIndex = 0;
-    
-    for (let i = 1; i < history.length; i++) {
-      if (history[i].price < lowestPrice) {
-        lowestPrice = history[i].price;
-        lowestIndex = i;
-      }
-    }
-    
-    // Check if we're past the lowest point
-    if (lowestIndex === history.length - 1) {
-      return { isRecovering: false, recoveryStrength: 0, timeToRecover: null };
-    }
-    
-    // Calculate recovery metrics
-    const currentPrice = history[history.length - 1].price;
-    const recoveryPercent = ((currentPrice - lowestPrice) / lowestPrice) * 100;
-    
-    // Count buy vs sell since lowest point
-    const recoverySells = history.slice(lowestIndex).filter(h => h.type === 'sell').length;
-    const recoveryBuys = history.slice(lowestIndex).filter(h => h.type === 'buy').length;
-    const recoveryRatio = recoveryBuys / Math.max(recoverySells, 1);
-    
-    // Estimate time to full recovery
-    const preDropPrice = history[0].price;
-    const recoveryRate = recoveryPercent / (history.length - lowestIndex); // % per transaction
-    const remainingRecovery = ((preDropPrice - currentPrice) / currentPrice) * 100;
-    const estimatedTransactionsToRecover = remainingRecovery / Math.max(recoveryRate, 0.1);
-    
-    return {
-      isRecovering: recoveryPercent > 5 && recoveryRatio > 1,
-      recoveryStrength: recoveryRatio,
-      timeToRecover: estimatedTransactionsToRecover * 30 // Assume 30 seconds per transaction
-    };
+  async analyzeRecovery(poolId: string): Promise<RecoveryAnalysis> {
+    return sellPressureDetector.analyzeRecovery(poolId);
   }
   
   /**
@@ -235,7 +116,7 @@ export class MonitorIntegration {
     confidence: number;
     signals: string[];
   }> {
-    const history = this.priceHistory.get(poolId);
+    const history = sellPressureDetector.getHistory(poolId);
     const score = await technicalScoreCalculator.calculateScore(tokenId, poolId);
     const recovery = await this.analyzeRecovery(poolId);
     
@@ -282,7 +163,7 @@ export class MonitorIntegration {
     }
     
     // Volume analysis
-    if (history && history.length > 10) {
+    if (history.length > 10) {
       const recentVolume = history.slice(-5).reduce((sum, h) => sum + h.volume, 0);
       const olderVolume = history.slice(-10, -5).reduce((sum, h) => sum + h.volume, 0);
       
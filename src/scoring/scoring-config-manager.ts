@@ -48,6 +48,13 @@ export interface ScoringConfig {
     whaleDumpSol: number;
     maxPositivePoints: number;
     maxNegativePoints: number;
+    mediumVolumeSol: number;
+    highVolumeSol: number;
+    criticalVolumeSol: number;
+    windowMinutes: number;
+    coordinatedSellsPerMinute: number;
+    recoveryRetracePercent: number;
+    maxEpisodeMinutes: number;
   };
   consistency: {
     basePoints: number;
@@ -115,7 +122,14 @@ export class ScoringConfigManager {
           severeDropThreshold: 30,
           whaleDumpSol: 5,
           maxPositivePoints: 75,
-          maxNegativePoints: -60
+          maxNegativePoints: -60,
+          mediumVolumeSol: 2,
+          highVolumeSol: 5,
+          criticalVolumeSol: 10,
+          windowMinutes: 5,
+          coordinatedSellsPerMinute: 5,
+          recoveryRetracePercent: 75,
+          maxEpisodeMinutes: 60
         },
         consistency: {
           basePoints: 12.5
@@ -147,12 +147,12 @@ export class TechnicalScoreCalculator {
     setInterval(async () => {
       const client = await this.pool.connect();
       try {
-        // Get all active pump.fun tokens
+        // Get all active bonding curve tokens
         const tokensResult = await client.query(`
           SELECT DISTINCT t.id as token_id, p.id as pool_id, t.symbol
           FROM tokens t
           JOIN pools p ON t.id = p.token_id
-          WHERE t.platform = 'pumpfun'
+          WHERE t.platform IN ('pumpfun', 'raydium_launchpad', 'meteora_dbc')
           AND p.status = 'active'
           AND p.bonding_curve_progress < 100
           AND (
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import chalk from 'chalk';
+import path from 'path';
+import { utils } from '@coral-xyz/anchor';
+import { Connection } from '@solana/web3.js';
+import { SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+import { IdlDecoder, PROGRAM_IDLS } from '../monitors/decoder';
+import { DecoderFixture, saveDecoderFixture } from '../monitors/decoder/decoder-fixtures';
+import { EventLogReader } from '../monitors/runtime/event-log';
+import { toSubscribeUpdate } from '../monitors/runtime/signature-history-fetcher';
+import { FIXTURE_FILES } from './verify-idl-decoder';
+
+/**
+ * Copy one transaction from a monitor's event log, or fetch it from RPC
+ * with --rpc, into a decoder fixture file, with its expectations filled in
+ * from how it decodes today. Review the expectations, add parser outputs
+ * under their keys, then run npm run monitor:decoder:verify.
+ *
+ * --rpc reads SOLANA_RPC_URL and converts the transaction the way gap
+ * backfill does, so it needs no recorded stream.
+ *
+ * Usage:
+ *   npm run monitor:decoder:capture -- <monitorId|--rpc> <signature> <file> <name> [description]
+ *   npm run monitor:decoder:capture -- pumpfun-transaction 5Kx...9aQ pumpfun.json big-buy "Buy of 10 SOL"
+ *   npm run monitor:decoder:capture -- --rpc 3Fz...7bR meteora-dbc.json swap2-buy "swap2 buy"
+ */
+
+interface CapturedUpdate {
+  receivedAt: number;
+  update: SubscribeUpdate;
+}
+
+async function findInEventLog(monitorId: string, signature: string): Promise<CapturedUpdate> {
+  const bs58 = utils.bytes.bs58;
+  const reader = new EventLogReader(monitorId);
+
+  for await (const { receivedAt, update } of reader.read()) {
+    const raw = update.transaction?.transaction?.signature;
+    if (raw && bs58.encode(raw) === signature) return { receivedAt, update };
+  }
+
+  throw new Error(`${signature} is not in the ${monitorId} event log`);
+}
+
+async function fetchFromRpc(signature: string): Promise<CapturedUpdate> {
+  const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com', 'confirmed');
+  const tx = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+  if (!tx || !tx.meta) throw new Error(`${signature} was not found over RPC`);
+
+  const update = toSubscribeUpdate(tx);
+  // Backfill only fetches successful transactions, so the conversion drops
+  // the error; the decoder only needs to know there was one
+  if (tx.meta.err) {
+    update.transaction!.transaction!.meta!.err = { err: Buffer.from(JSON.stringify(tx.meta.err)) };
+  }
+  return { receivedAt: tx.blockTime ? tx.blockTime * 1000 : Date.now(), update };
+}
+
+async function capture(source: string, signature: string, file: string, name: string, description: string): Promise<void> {
+  const { receivedAt, update } = source === '--rpc'
+    ? await fetchFromRpc(signature)
+    : await findInEventLog(source, signature);
+
+  // Decode as the verify script will, so the expectations line up
+  const decoder = FIXTURE_FILES[path.basename(file)]?.decoder || new IdlDecoder(PROGRAM_IDLS);
+  const decoded = decoder.decodeUpdate(update, receivedAt)!;
+
+  const fixture: DecoderFixture = {
+    name,
+    description,
+    expect: {
+      instructions: decoded.instructions.map(ix => ix.name),
+      innerInstructions: decoded.innerInstructions.map(ix => ix.name),
+      events: decoded.events.map(event => event.name),
+      slot: decoded.slot,
+      failed: decoded.failed
+    },
+    receivedAt,
+    update
+  };
+  saveDecoderFixture(file, fixture);
+
+  console.log(chalk.green(`📼 Captured ${signature} as ${name} in ${file}`));
+  console.log(`   instructions: ${fixture.expect.instructions!.join(', ') || '-'}`);
+  console.log(`   inner:        ${fixture.expect.innerInstructions!.join(', ') || '-'}`);
+  console.log(`   events:       ${fixture.expect.events!.join(', ') || '-'}`);
+}
+
+async function main() {
+  const [source, signature, file, name, description = ''] = process.argv.slice(2);
+  if (!source || !signature || !file || !name) {
+    console.log('Usage: capture-decoder-fixture <monitorId|--rpc> <signature> <file> <name> [description]');
+    process.exit(1);
+  }
+
+  await capture(source, signature, file, name, description);
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,171 @@
+/**
+ * Decodes the transaction fixtures in src/monitors/decoder/fixtures with
+ * the decoders and parsers the pump.fun, PumpSwap, Raydium Launchpad,
+ * Meteora DBC and graduation monitors use, and compares instruction and event names, slot,
+ * failure and parser output with each fixture's expectations. Needs no
+ * gRPC stream or database. Exits non-zero when a check fails, for CI.
+ *
+ *   npx tsx src/scripts/verify-idl-decoder.ts
+ */
+import chalk from 'chalk';
+import { DecodedTransaction, IdlDecoder, TransactionFormatter } from '../monitors/decoder';
+import { DecoderFixture, loadDecoderFixtures } from '../monitors/decoder/decoder-fixtures';
+import {
+  PUMP_FUN_DECODER,
+  parseCreateTransactionOutput,
+  parseMigrationOutput,
+  parseSwapTransactionOutput as parsePumpFunSwap
+} from '../monitors/pumpfun/utils/pump-fun-parsed-transaction';
+import { parseSwapTransactionOutput as parsePumpFunPrice } from '../monitors/pumpfun/utils/pumpfun_formatted_txn';
+import {
+  PUMP_AMM_DECODER,
+  parseCreatePool,
+  parseSwapTransaction,
+  parseSwapTransactionOutput as parsePumpSwapPrice
+} from '../monitors/pumpswap/utils/swapTransactionParser';
+import {
+  RAYDIUM_LAUNCHPAD_DECODER,
+  determineTransactionType,
+  extractTransactionData
+} from '../monitors/raydium-launchpad/utils/rl-transaction-formatter';
+import { METEORA_DBC_DECODER, getSwap as parseMeteoraDbcSwap } from '../monitors/meteora-dbc/utils/meteora-dbc-swap-parser';
+
+type FixtureParser = (decoded: DecodedTransaction, fixture: DecoderFixture) => unknown;
+
+export interface FixtureFileChecks {
+  decoder: IdlDecoder;
+  parsers: Record<string, FixtureParser>;
+}
+
+const formatter = new TransactionFormatter();
+
+/**
+ * The decoder each fixture file is decoded with, and the parsers whose
+ * output its fixtures may set expectations for, keyed as in `expect`
+ */
+export const FIXTURE_FILES: Record<string, FixtureFileChecks> = {
+  'pumpfun.json': {
+    decoder: PUMP_FUN_DECODER,
+    parsers: {
+      create: decoded => parseCreateTransactionOutput(decoded),
+      swap: decoded => parsePumpFunSwap(decoded),
+      price: decoded => parsePumpFunPrice(decoded)
+    }
+  },
+  'pumpswap.json': {
+    decoder: PUMP_AMM_DECODER,
+    parsers: {
+      pool: decoded => parseCreatePool(decoded),
+      swap: decoded => parseSwapTransaction(decoded),
+      price: (decoded, fixture) => parsePumpSwapPrice(
+        decoded,
+        formatter.formTransactionFromJson(fixture.update.transaction, fixture.receivedAt).meta
+      ),
+      // The graduation monitor decodes the same transaction as pump.fun
+      migration: (_, fixture) => {
+        const decoded = PUMP_FUN_DECODER.decodeUpdate(fixture.update, fixture.receivedAt);
+        return decoded && parseMigrationOutput(decoded);
+      }
+    }
+  },
+  'raydium-launchpad.json': {
+    decoder: RAYDIUM_LAUNCHPAD_DECODER,
+    parsers: {
+      type: decoded => determineTransactionType(decoded),
+      data: decoded => extractTransactionData(determineTransactionType(decoded), decoded)
+    }
+  },
+  'meteora-dbc.json': {
+    decoder: METEORA_DBC_DECODER,
+    parsers: {
+      swap: decoded => parseMeteoraDbcSwap(decoded)
+    }
+  }
+};
+
+let failures = 0;
+
+function check(name: string, mismatch: string | null): void {
+  if (mismatch === null) {
+    console.log(chalk.green(`  ✅ ${name}`));
+  } else {
+    failures++;
+    console.log(chalk.red(`  ❌ ${name}: ${mismatch}`));
+  }
+}
+
+function expectNames(actual: { name: string }[], expected: string[] | undefined, what: string): string | null {
+  if (expected === undefined) return null;
+  const names = actual.map(item => item.name);
+  return JSON.stringify(names) === JSON.stringify(expected)
+    ? null
+    : `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(names)}`;
+}
+
+/**
+ * Every field in `expected` must match; fields it leaves out are not
+ * checked. Prices are floats, so numbers match within a relative 1e-9.
+ */
+function expectSubset(actual: any, expected: unknown, what: string): string | null {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    const tolerance = Math.abs(expected) * 1e-9;
+    return Math.abs(actual - expected) <= tolerance ? null : `${what}: expected ${expected}, got ${actual}`;
+  }
+  if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (!actual || typeof actual !== 'object') return `${what}: expected an object, got ${JSON.stringify(actual)}`;
+    for (const [key, value] of Object.entries(expected)) {
+      const mismatch = expectSubset(actual[key], value, `${what}.${key}`);
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  return JSON.stringify(actual) === JSON.stringify(expected)
+    ? null
+    : `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`;
+}
+
+function checkFixture(file: string, checks: FixtureFileChecks, fixture: DecoderFixture): void {
+  const name = `${file} ${fixture.name}`;
+  const decoded = checks.decoder.decodeUpdate(fixture.update, fixture.receivedAt);
+  if (!decoded) {
+    check(name, 'not a transaction update');
+    return;
+  }
+
+  const { instructions, innerInstructions, events, slot, failed, ...outputs } = fixture.expect;
+  check(`${name} decodes`,
+    expectNames(decoded.instructions, instructions, 'instructions') ??
+    expectNames(decoded.innerInstructions, innerInstructions, 'innerInstructions') ??
+    expectNames(decoded.events, events, 'events') ??
+    expectSubset(decoded.slot, slot, 'slot') ??
+    expectSubset(decoded.failed, failed, 'failed'));
+
+  for (const [key, expected] of Object.entries(outputs)) {
+    const parser = checks.parsers[key];
+    check(`${name} ${key}`, parser
+      ? expectSubset(parser(decoded, fixture), expected, key)
+      : `no parser for ${key} in ${file}`);
+  }
+}
+
+function main(): number {
+  console.log(chalk.cyan('🧪 IDL decoder fixtures'));
+  console.log(chalk.gray('━'.repeat(50)));
+
+  for (const [file, checks] of Object.entries(FIXTURE_FILES)) {
+    const { transactions } = loadDecoderFixtures(file);
+    transactions.forEach(fixture => checkFixture(file, checks, fixture));
+  }
+
+  console.log(chalk.gray('\n' + '━'.repeat(50)));
+  if (failures > 0) {
+    console.log(chalk.red(`❌ ${failures} decoder check(s) failed`));
+  } else {
+    console.log(chalk.green('✅ Decoded transactions match the fixtures'));
+  }
+  return failures;
+}
+
+if (require.main === module) {
+  process.exit(main() > 0 ? 1 : 0);
+}
@@ -0,0 +1,145 @@
+/**
+ * Runs the holder and wallet services against the mock Helius server and
+ * the sample fixture, so the base URL injection and the mock's responses
+ * are checked without a network, database or API key. Exits non-zero when
+ * a check fails, for CI.
+ *
+ *   npx tsx src/scripts/verify-mock-helius.ts
+ */
+import axios from 'axios';
+import chalk from 'chalk';
+import { PublicKey } from '@solana/web3.js';
+import { HeliusEndpoints, createHeliusClient, createHeliusConnection } from '../config/helius';
+import { HolderAnalysisService } from '../services/holder-analysis/holder-analysis-service';
+import { HeliusHolderSource, RpcEnrichmentProvider } from '../services/holder-analysis/pipeline';
+import { FixtureStore, MockHeliusServer, SAMPLE_FIXTURES_DIR } from '../services/mock-helius';
+import { GraduatedTokenFetcher } from '../services/wallet-tracker/graduated-token-fetcher';
+import { TransactionFetcher } from '../services/wallet-tracker/transaction-fetcher';
+import sample from '../services/mock-helius/fixtures/sample.json';
+
+const MINT = Object.keys(sample.tokenAccounts)[0];
+const HOLDERS = (sample.tokenAccounts as Record<string, { owner: string; amount: number }[]>)[MINT];
+const MINT_SIGNATURES = (sample.signatures as Record<string, { signature: string }[]>)[MINT];
+
+// No bonding curve on record, so nothing is filtered as the curve
+const noPool = { query: async () => ({ rows: [] }) };
+
+let failures = 0;
+
+function check(name: string, mismatch: string | null): void {
+  if (mismatch === null) {
+    console.log(chalk.green(`  ✅ ${name}`));
+  } else {
+    failures++;
+    console.log(chalk.red(`  ❌ ${name}: ${mismatch}`));
+  }
+}
+
+function expect(actual: unknown, expected: unknown, what: string): string | null {
+  return actual === expected ? null : `${what}: expected ${expected}, got ${actual}`;
+}
+
+async function checkHolders(server: MockHeliusServer, endpoints: HeliusEndpoints): Promise<void> {
+  const source = new HeliusHolderSource(createHeliusClient('mock', endpoints), noPool, { pageDelayMs: 0 });
+  const list = await source.fetchHolders(MINT, Infinity);
+  check('pipeline holder source reads getTokenAccounts',
+    expect(list.holders.length, HOLDERS.length, 'holders') ??
+    expect(list.holders[0].balance, HOLDERS[0].amount / 1e6, 'largest balance') ??
+    expect(server.getCalls().getTokenAccounts, 1, 'getTokenAccounts calls'));
+
+  const legacy = new HolderAnalysisService(endpoints);
+  const legacyHolders = await (legacy as any).fetchHoldersList(MINT, null);
+  check('legacy holder service reads getTokenAccounts',
+    expect(legacyHolders.length, HOLDERS.length, 'holders'));
+}
+
+async function checkEnrichment(endpoints: HeliusEndpoints): Promise<void> {
+  const provider = new RpcEnrichmentProvider(createHeliusConnection('mock', endpoints), { staggerMs: 0, batchPauseMs: 0 });
+  const wallets = await provider.enrich(HOLDERS.map(h => h.owner));
+  const largest = wallets.find(w => w.address === HOLDERS[0].owner);
+  const unknown = wallets.find(w => w.address === HOLDERS[HOLDERS.length - 1].owner);
+
+  check('enrichment reads signatures and balances',
+    expect(wallets.length, HOLDERS.length, 'wallets') ??
+    expect(largest?.solBalance, 45, 'largest holder SOL') ??
+    expect(largest?.transactionCount, 3, 'largest holder signatures') ??
+    expect(unknown?.transactionCount, 0, 'unrecorded wallet signatures'));
+}
+
+async function checkRpc(endpoints: HeliusEndpoints): Promise<void> {
+  const connection = createHeliusConnection('mock', endpoints);
+  const mint = new PublicKey(MINT);
+
+  const page = await connection.getSignaturesForAddress(mint, { limit: 2, before: MINT_SIGNATURES[0].signature });
+  check('getSignaturesForAddress pages with before and limit',
+    expect(page.length, 2, 'signatures') ??
+    expect(page[0]?.signature, MINT_SIGNATURES[1].signature, 'first signature'));
+
+  const signature = MINT_SIGNATURES[0].signature;
+  const parsed = await connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  const instruction: any = parsed?.transaction.message.instructions[0];
+  check('getParsedTransaction returns the jsonParsed recording',
+    expect(instruction?.parsed?.type, 'transfer', 'instruction'));
+
+  const raw = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  check('getTransaction returns the json recording',
+    expect(raw?.transaction.signatures[0], signature, 'signature'));
+
+  const missing = await connection.getParsedTransaction(MINT_SIGNATURES[4].signature, { maxSupportedTransactionVersion: 0 });
+  check('unrecorded transactions are null', expect(missing, null, 'transaction'));
+}
+
+async function checkEnhanced(server: MockHeliusServer, endpoints: HeliusEndpoints): Promise<void> {
+  const all = await axios.get(`${endpoints.apiUrl}/v0/addresses/${MINT}/transactions`);
+  const older = await axios.get(`${endpoints.apiUrl}/v0/addresses/${MINT}/transactions`, {
+    params: { before: MINT_SIGNATURES[0].signature }
+  });
+  check('enhanced transactions page with before',
+    expect(all.data.length, 3, 'transactions') ??
+    expect(older.data.length, 2, 'transactions before the newest'));
+
+  server.resetCalls();
+  await new TransactionFetcher(endpoints).fetchTransactionsFromHelius(MINT);
+  await new GraduatedTokenFetcher(endpoints).fetchGraduatedTokensFromHelius();
+  const calls = server.getCalls();
+  check('wallet tracker fetchers call the injected API URL',
+    expect(calls['POST /v0/addresses/:address/transactions'], 1, 'transaction fetcher calls') ??
+    expect(calls['POST /v0/addresses/transactions'], 1, 'graduated token fetcher calls'));
+}
+
+async function main() {
+  console.log(chalk.cyan('🧪 Mock Helius server'));
+  console.log(chalk.gray('━'.repeat(50)));
+
+  // The services refuse to start without a key; the mock ignores it
+  process.env.HELIUS_API_KEY = process.env.HELIUS_API_KEY || 'mock';
+
+  const server = new MockHeliusServer(FixtureStore.load(SAMPLE_FIXTURES_DIR));
+  const endpoints = await server.start();
+
+  try {
+    await checkHolders(server, endpoints);
+    await checkEnrichment(endpoints);
+    await checkRpc(endpoints);
+    await checkEnhanced(server, endpoints);
+  } finally {
+    await server.stop();
+  }
+
+  console.log(chalk.gray('\n' + '━'.repeat(50)));
+  if (failures > 0) {
+    console.log(chalk.red(`❌ ${failures} check(s) failed against the mock`));
+  } else {
+    console.log(chalk.green('✅ Services run offline against the mock'));
+  }
+  return failures;
+}
+
+if (require.main === module) {
+  main()
+    .then(failed => process.exit(failed > 0 ? 1 : 0))
+    .catch(error => {
+      console.error('Mock Helius check failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,234 @@
+/**
+ * Checks the trader score against fixture wallets whose component points
+ * were worked out by hand from docs/wallet-tracker/WALLET_TRACKER.md
+ * section 3, and the inactivity decay at each step boundary. The score is
+ * pure, so this needs no database. Exits non-zero when a check fails, for CI.
+ *
+ *   npx tsx src/scripts/verify-trader-score.ts
+ */
+import chalk from 'chalk';
+import { calculateDecayFactor, computeTraderScore } from '../services/wallet-tracker/trader-score';
+import { ScoredPosition, TraderScoreInput } from '../services/wallet-tracker/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-01-31T00:00:00Z');
+
+let failures = 0;
+
+function check(name: string, mismatch: string | null): void {
+  if (mismatch === null) {
+    console.log(chalk.green(`  ✅ ${name}`));
+  } else {
+    failures++;
+    console.log(chalk.red(`  ❌ ${name}: ${mismatch}`));
+  }
+}
+
+// Points are rounded to cents, so anything within a cent matches
+function near(actual: number, expected: number, what: string): string | null {
+  return Math.abs(actual - expected) <= 0.011 ? null : `${what}: expected ${expected}, got ${actual}`;
+}
+
+function daysBefore(days: number): Date {
+  return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+/**
+ * Ten closed positions of 1 SOL, each sold at 1.5x for +0.5 SOL ($75),
+ * a quarter below the peak, spread over three months; the first three
+ * tokens graduated and were bought ten minutes after launch
+ */
+function steadyPositions(overrides: Partial<ScoredPosition> = {}): ScoredPosition[] {
+  const months = ['2025-11-15', '2025-11-15', '2025-11-15', '2025-11-15', '2025-12-15', '2025-12-15', '2025-12-15',
+    '2026-01-15', '2026-01-15', '2026-01-15'];
+  return months.map((day, i) => ({
+    token_mint: `Mint${i}`,
+    cost_sol: 1,
+    pnl_sol: 0.5,
+    pnl_usd: 75,
+    avg_buy_price: 0.000001,
+    avg_sell_price: 0.0000015,
+    peak_price: 0.000002,
+    is_closed: true,
+    is_graduated: i < 3,
+    first_buy_at: new Date(`${day}T00:00:00Z`),
+    last_sell_at: new Date(`${day}T12:00:00Z`),
+    entry_delay_seconds: 600,
+    clustered: false,
+    market_win_rate: 0.5,
+    ...overrides
+  }));
+}
+
+function steadyWallet(overrides: Partial<TraderScoreInput['wallet']> = {}): TraderScoreInput['wallet'] {
+  return {
+    wallet_address: 'SteadyWallet',
+    wallet_type: 'normal',
+    reputation_score: 50,
+    suspicious_activity_count: 0,
+    first_seen_at: daysBefore(90),
+    last_activity_at: NOW,
+    total_pnl_usd: 0,
+    ...overrides
+  };
+}
+
+function steadyInput(overrides: Partial<TraderScoreInput> = {}): TraderScoreInput {
+  return {
+    wallet: steadyWallet(),
+    positions: steadyPositions(),
+    weeklyVolumeSol: Array(8).fill(2.5),
+    lastTradeAt: NOW,
+    ...overrides
+  };
+}
+
+function checkSteadyWallet(): void {
+  const result = computeTraderScore(steadyInput(), NOW);
+  const { profitability, consistency, timing, activity, adjustments } = result.components;
+
+  // 200·log10(6)/3, 150·log10(751)/5, 50·(1.5-1)/4, all organic, 3 of 3 months, 50·log10(1.5)/2
+  check('profitability components',
+    near(profitability.total_pnl, 51.88, 'total_pnl') ??
+    near(profitability.total_pnl_usd, 86.27, 'total_pnl_usd') ??
+    near(profitability.avg_return, 6.25, 'avg_return') ??
+    near(profitability.organic_profit, 100, 'organic_profit') ??
+    near(profitability.sustained_profit, 50, 'sustained_profit') ??
+    near(profitability.best_trade, 4.4, 'best_trade') ??
+    near(profitability.score, 298.8, 'profitability'));
+
+  // 10 of 10 wins, no spread in returns, 30% graduated, normal wallet
+  check('consistency components',
+    near(consistency.win_rate, 50, 'win_rate') ??
+    near(consistency.profit_consistency, 50, 'profit_consistency') ??
+    near(consistency.graduation_hit_rate, 50, 'graduation_hit_rate') ??
+    near(consistency.behavior_legitimacy, 50, 'behavior_legitimacy') ??
+    near(consistency.score, 200, 'consistency'));
+
+  // Human entries, exits at 75% of the peak, every trade won on a 50% day
+  check('timing components',
+    near(timing.early_entry, 50, 'early_entry') ??
+    near(timing.exit_efficiency, 37.5, 'exit_efficiency') ??
+    near(timing.market_timing, 50, 'market_timing') ??
+    near(timing.score, 137.5, 'timing'));
+
+  // Eight even weeks, ten even positions of the twenty for full marks, 90 days seen
+  check('activity components',
+    near(activity.volume, 20, 'volume') ??
+    near(activity.diversification, 10, 'diversification') ??
+    near(activity.longevity, 10, 'longevity') ??
+    near(activity.score, 40, 'activity'));
+
+  check('active wallet total',
+    near(adjustments.decay_factor, 1, 'decay_factor') ??
+    near(adjustments.raw_score, 676.3, 'raw_score') ??
+    near(result.trader_score, 676.3, 'trader_score') ??
+    near(result.win_rate, 100, 'win_rate') ??
+    near(result.avg_return_multiple, 1.5, 'avg_return_multiple') ??
+    near(result.closed_positions, 10, 'closed_positions') ??
+    near(result.graduated_positions, 3, 'graduated_positions'));
+}
+
+function checkClusteredBot(): void {
+  const result = computeTraderScore(steadyInput({
+    wallet: steadyWallet({
+      wallet_address: 'ClusteredBot',
+      wallet_type: 'bot',
+      cluster_id: 'cluster-1',
+      cluster_confidence: 0.9,
+      reputation_score: 0,
+      suspicious_activity_count: 2
+    }),
+    positions: steadyPositions({ clustered: true })
+  }), NOW);
+  const { profitability, consistency, adjustments } = result.components;
+
+  // Penalty floors at 0.3; reputation 0 halves; nothing organic
+  check('cluster penalty and reputation',
+    near(adjustments.cluster_penalty, 0.3, 'cluster_penalty') ??
+    near(adjustments.reputation_multiplier, 0.5, 'reputation_multiplier') ??
+    near(profitability.organic_profit, 0, 'organic_profit') ??
+    near(profitability.best_trade, 0, 'best_trade') ??
+    near(profitability.score, 29.16, 'profitability'));
+
+  check('bots get no legitimacy points',
+    near(consistency.behavior_legitimacy, 0, 'behavior_legitimacy') ??
+    near(consistency.score, 150, 'consistency'));
+}
+
+function checkSniper(): void {
+  const result = computeTraderScore(steadyInput({
+    positions: steadyPositions({ entry_delay_seconds: 2 })
+  }), NOW);
+
+  check('entries within seconds of launch score as sniping',
+    near(result.components.timing.early_entry, 10, 'early_entry') ??
+    near(result.components.timing.score, 97.5, 'timing'));
+}
+
+function checkDecay(): void {
+  const steps: [number, number][] = [
+    [0, 1], [7, 1], [8, 0.95], [14, 0.95], [15, 0.85], [30, 0.85],
+    [31, 0.7], [60, 0.7], [61, 0.5], [90, 0.5], [91, 0.3], [365, 0.3]
+  ];
+  const wrong = steps.find(([days, factor]) => calculateDecayFactor(days) !== factor);
+  check('decay factor steps',
+    wrong ? `${wrong[0]} days: expected ${wrong[1]}, got ${calculateDecayFactor(wrong[0])}` : null);
+
+  // 45 days idle: longevity drops to 45 of 90 days, then the total takes 0.70
+  const idle = computeTraderScore(steadyInput({ lastTradeAt: daysBefore(45) }), NOW);
+  check('inactive wallet decays',
+    near(idle.components.adjustments.days_inactive, 45, 'days_inactive') ??
+    near(idle.components.adjustments.decay_factor, 0.7, 'decay_factor') ??
+    near(idle.components.activity.longevity, 5, 'longevity') ??
+    near(idle.components.adjustments.raw_score, 671.3, 'raw_score') ??
+    near(idle.trader_score, 469.91, 'trader_score'));
+
+  // Without a trade on record the wallet's last activity is used
+  const fallback = computeTraderScore(steadyInput({
+    lastTradeAt: null,
+    wallet: steadyWallet({ last_activity_at: daysBefore(100) })
+  }), NOW);
+  check('last activity stands in for the last trade',
+    near(fallback.components.adjustments.days_inactive, 100, 'days_inactive') ??
+    near(fallback.components.adjustments.decay_factor, 0.3, 'decay_factor'));
+}
+
+function checkEmptyWallet(): void {
+  const result = computeTraderScore({
+    wallet: steadyWallet({ wallet_address: 'EmptyWallet', first_seen_at: NOW }),
+    positions: [],
+    weeklyVolumeSol: [],
+    lastTradeAt: null
+  }, NOW);
+
+  check('a wallet without positions only gets legitimacy',
+    near(result.components.profitability.score, 0, 'profitability') ??
+    near(result.components.consistency.score, 50, 'consistency') ??
+    near(result.components.timing.score, 0, 'timing') ??
+    near(result.components.activity.score, 0, 'activity') ??
+    near(result.trader_score, 50, 'trader_score'));
+}
+
+function main(): number {
+  console.log(chalk.cyan('🧪 Trader score'));
+  console.log(chalk.gray('━'.repeat(50)));
+
+  checkSteadyWallet();
+  checkClusteredBot();
+  checkSniper();
+  checkDecay();
+  checkEmptyWallet();
+
+  console.log(chalk.gray('\n' + '━'.repeat(50)));
+  if (failures > 0) {
+    console.log(chalk.red(`❌ ${failures} trader score check(s) failed`));
+  } else {
+    console.log(chalk.green('✅ Trader scores match the fixture wallets'));
+  }
+  return failures;
+}
+
+if (require.main === module) {
+  process.exit(main() > 0 ? 1 : 0);
+}
@@ -0,0 +1,213 @@
+import { alertOperations } from '../../database/operations/alert';
+import { AlertDelivery, FiredAlert } from '../../database/types';
+import { loadConfig } from './config';
+import { matchesRule, renderMessage } from './rule-evaluator';
+import { createSink, meetsSeverity } from './sinks';
+import {
+  AlertEvent,
+  AlertEventType,
+  AlertingConfig,
+  AlertMessage,
+  AlertRule,
+  AlertSink,
+  AlertStore
+} from './types';
+
+interface CooldownEntry {
+  alertId: number | null;
+  firedAt: number;
+}
+
+/**
+ * Central alert bus. Producers publish events; every matching rule fires
+ * once per token per cooldown, is persisted and then delivered to its
+ * sinks. Publishing never throws, so producers can fire and forget.
+ */
+export class AlertBus {
+  private readonly sinks: Map<string, AlertSink>;
+  private readonly eventTypes: Set<AlertEventType>;
+  private readonly cooldowns = new Map<string, CooldownEntry>();
+  private readonly inFlight = new Map<string, Promise<void>>();
+  private readonly maxCooldownMs: number;
+
+  constructor(
+    private readonly config: AlertingConfig,
+    private readonly store: AlertStore | null = alertOperations
+  ) {
+    this.sinks = new Map(config.sinks.map(sink => [sink.name, createSink(sink)]));
+    this.eventTypes = new Set(config.rules.filter(rule => rule.enabled !== false).map(rule => rule.event));
+    this.maxCooldownMs = Math.max(
+      config.defaultCooldownMinutes,
+      ...config.rules.map(rule => rule.cooldownMinutes ?? 0)
+    ) * 60_000;
+  }
+
+  /**
+   * Whether any enabled rule listens for the event type, so producers can
+   * skip building expensive events nobody will match
+   */
+  hasRulesFor(type: AlertEventType): boolean {
+    return this.config.enabled && this.eventTypes.has(type);
+  }
+
+  async publish(event: AlertEvent): Promise<AlertMessage[]> {
+    if (!this.hasRulesFor(event.type)) return [];
+
+    const fired: AlertMessage[] = [];
+    for (const rule of this.config.rules) {
+      if (!matchesRule(rule, event)) continue;
+
+      try {
+        const alert = await this.fire(rule, event);
+        if (alert) fired.push(alert);
+      } catch (error) {
+        console.error(`Error firing alert rule ${rule.id}:`, error);
+      }
+    }
+    return fired;
+  }
+
+  private async fire(rule: AlertRule, event: AlertEvent): Promise<AlertMessage | null> {
+    const dedupeKey = `${rule.id}:${event.mintAddress || event.tokenId || 'global'}`;
+
+    // Events for the same key are handled one at a time so a burst fires once
+    while (this.inFlight.has(dedupeKey)) {
+      await this.inFlight.get(dedupeKey);
+    }
+    let release!: () => void;
+    this.inFlight.set(dedupeKey, new Promise<void>(resolve => { release = resolve; }));
+
+    try {
+      const now = event.occurredAt || new Date();
+      const cooldownMs = (rule.cooldownMinutes ?? this.config.defaultCooldownMinutes) * 60_000;
+      const last = await this.getLastFired(dedupeKey);
+
+      if (last && now.getTime() - last.firedAt < cooldownMs) {
+        if (last.alertId !== null && this.store) {
+          await this.store.recordSuppressed(last.alertId);
+        }
+        return null;
+      }
+
+      const alert: AlertMessage = {
+        id: null,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        eventType: event.type,
+        severity: rule.severity,
+        title: rule.name,
+        message: renderMessage(rule, event),
+        tokenId: event.tokenId ?? null,
+        mintAddress: event.mintAddress ?? null,
+        symbol: event.symbol ?? null,
+        fields: event.fields,
+        firedAt: now
+      };
+
+      if (this.store) {
+        alert.id = await this.store.recordAlert(this.toRecord(alert, dedupeKey));
+      }
+      this.cooldowns.set(dedupeKey, { alertId: alert.id, firedAt: now.getTime() });
+      this.pruneCooldowns(now.getTime());
+
+      const deliveries = await this.deliver(rule, alert);
+      if (this.store && alert.id !== null && deliveries.length > 0) {
+        await this.store.recordDeliveries(alert.id, deliveries);
+      }
+      return alert;
+    } finally {
+      this.inFlight.delete(dedupeKey);
+      release();
+    }
+  }
+
+  /**
+   * In-memory cooldown, falling back to the store so restarts don't re-alert
+   */
+  private async getLastFired(dedupeKey: string): Promise<CooldownEntry | null> {
+    const cached = this.cooldowns.get(dedupeKey);
+    if (cached || !this.store) return cached || null;
+
+    const stored = await this.store.getLastFired(dedupeKey);
+    if (!stored) return null;
+
+    const entry = { alertId: stored.id, firedAt: new Date(stored.fired_at).getTime() };
+    this.cooldowns.set(dedupeKey, entry);
+    return entry;
+  }
+
+  /**
+   * Drop entries past the longest cooldown once the map grows large
+   */
+  private pruneCooldowns(now: number): void {
+    if (this.cooldowns.size < 10_000) return;
+    for (const [key, entry] of this.cooldowns) {
+      if (now - entry.firedAt >= this.maxCooldownMs) this.cooldowns.delete(key);
+    }
+  }
+
+  private async deliver(rule: AlertRule, alert: AlertMessage): Promise<AlertDelivery[]> {
+    const sinks = (rule.sinks || Array.from(this.sinks.keys()))
+      .map(name => this.sinks.get(name))
+      .filter((sink): sink is AlertSink => sink !== undefined && meetsSeverity(alert.severity, sink.minSeverity));
+
+    return Promise.all(sinks.map(async (sink): Promise<AlertDelivery> => {
+      try {
+        await sink.send(alert);
+        return { sink: sink.name, ok: true, error: null, at: new Date() };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Alert ${rule.id} not delivered to ${sink.name}: ${message}`);
+        return { sink: sink.name, ok: false, error: message, at: new Date() };
+      }
+    }));
+  }
+
+  /**
+   * Send a synthetic alert straight to sinks, bypassing rules and cooldowns
+   */
+  async sendTest(sinkNames?: string[]): Promise<AlertDelivery[]> {
+    const rule: AlertRule = {
+      id: 'test',
+      name: 'Test alert',
+      event: 'technical_score',
+      conditions: [],
+      severity: 'critical',
+      sinks: sinkNames
+    };
+    return this.deliver(rule, {
+      id: null,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      eventType: rule.event,
+      severity: 'critical',
+      title: rule.name,
+      message: 'Alert sinks are configured correctly',
+      tokenId: null,
+      mintAddress: null,
+      symbol: null,
+      fields: {},
+      firedAt: new Date()
+    });
+  }
+
+  private toRecord(alert: AlertMessage, dedupeKey: string): FiredAlert {
+    return {
+      rule_id: alert.ruleId,
+      rule_name: alert.ruleName,
+      event_type: alert.eventType,
+      severity: alert.severity,
+      dedupe_key: dedupeKey,
+      token_id: alert.tokenId,
+      mint_address: alert.mintAddress,
+      symbol: alert.symbol,
+      title: alert.title,
+      message: alert.message,
+      fields: alert.fields,
+      fired_at: alert.firedAt
+    };
+  }
+}
+
+// Export singleton instance
+export const alertBus = new AlertBus(loadConfig());
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import { AlertingConfig, AlertRule, SinkConfig } from './types';
+
+// The thresholds the holder analysis, sell-pressure detector and credit
+// tracker used to log, plus the examples from the alerting design
+const defaultRules: AlertRule[] = [
+  {
+    id: 'strong-technical-low-concentration',
+    name: 'Strong technical score with spread-out holders',
+    event: 'technical_score',
+    conditions: [
+      { field: 'technicalScore', op: '>', value: 250 },
+      { field: 'top10Percent', op: '<', value: 30 }
+    ],
+    severity: 'positive',
+    cooldownMinutes: 60,
+    message: '{symbol} technical {technicalScore}/333, top 10 hold {top10Percent}%'
+  },
+  {
+    id: 'selloff-detected',
+    name: 'Sell-off detected',
+    event: 'technical_score',
+    conditions: [{ field: 'isSelloffActive', op: '==', value: true }],
+    severity: 'warning',
+    cooldownMinutes: 30,
+    message: '{symbol} is in a sell-off ({priceDrop15m}% over 15m)'
+  },
+  {
+    id: 'sell-pressure',
+    name: 'Sell pressure',
+    event: 'sell_pressure',
+    conditions: [{ field: 'severity', op: 'in', value: ['high', 'critical'] }],
+    severity: 'warning',
+    cooldownMinutes: 15,
+    message: '{symbol} down {priceDropPercent}% with {volumeSold} SOL sold ({severity})'
+  },
+  {
+    id: 'holder-concentration',
+    name: 'Extreme holder concentration',
+    event: 'holder_analysis',
+    conditions: [{ field: 'giniCoefficient', op: '>', value: 0.9 }],
+    severity: 'critical',
+    cooldownMinutes: 120,
+    message: '{symbol} Gini {giniCoefficient}'
+  },
+  {
+    id: 'holder-bot-swarm',
+    name: 'Bot swarm',
+    event: 'holder_analysis',
+    conditions: [{ field: 'botRatio', op: '>', value: 0.5 }],
+    severity: 'critical',
+    cooldownMinutes: 120,
+    message: '{symbol} has {botRatio} of holders flagged as bots'
+  },
+  {
+    id: 'holder-high-risk',
+    name: 'High holder risk',
+    event: 'holder_analysis',
+    conditions: [{ field: 'riskScore', op: '>', value: 80 }],
+    severity: 'critical',
+    cooldownMinutes: 120,
+    message: '{symbol} holder risk {riskScore}/100'
+  },
+  {
+    id: 'smart-wallets-bought',
+    name: 'Smart wallets bought',
+    event: 'smart_money',
+    conditions: [{ field: 'smartWallets', op: '>=', value: 3 }],
+    severity: 'positive',
+    cooldownMinutes: 60,
+    message: '{smartWallets} smart wallets in {symbol} (avg score {avgTraderScore})'
+  },
+  {
+    id: 'credit-usage-warning',
+    name: 'Helius credit usage',
+    event: 'credit_usage',
+    conditions: [{ field: 'percentageUsed', op: '>=', value: 75 }],
+    severity: 'warning',
+    cooldownMinutes: 24 * 60,
+    message: 'API usage at {percentageUsed}% of the monthly limit'
+  },
+  {
+    id: 'credit-usage-critical',
+    name: 'Helius credits nearly exhausted',
+    event: 'credit_usage',
+    conditions: [{ field: 'percentageUsed', op: '>=', value: 85 }],
+    severity: 'critical',
+    cooldownMinutes: 6 * 60,
+    message: 'API usage at {percentageUsed}% - requests stop at 85%'
+  }
+];
+
+export const defaultConfig: AlertingConfig = {
+  enabled: true,
+  defaultCooldownMinutes: 30,
+  rules: defaultRules,
+  sinks: [{ name: 'console', type: 'console' }]
+};
+
+/**
+ * Sinks configured purely through the environment
+ */
+function sinksFromEnv(): SinkConfig[] {
+  const sinks: SinkConfig[] = [];
+
+  if (process.env.ALERT_WEBHOOK_URL) {
+    sinks.push({ name: 'webhook', type: 'webhook', url: process.env.ALERT_WEBHOOK_URL });
+  }
+  if (process.env.TELEGRAM_BOT_TOKEN && process.env.TELEGRAM_CHAT_ID) {
+    sinks.push({
+      name: 'telegram',
+      type: 'telegram',
+      botToken: process.env.TELEGRAM_BOT_TOKEN,
+      chatId: process.env.TELEGRAM_CHAT_ID,
+      apiBaseUrl: process.env.TELEGRAM_API_BASE_URL
+    });
+  }
+  if (process.env.DISCORD_WEBHOOK_URL) {
+    sinks.push({ name: 'discord', type: 'discord', webhookUrl: process.env.DISCORD_WEBHOOK_URL });
+  }
+
+  return sinks;
+}
+
+/**
+ * Defaults overlaid with a JSON file from ALERTS_CONFIG. A file that lists
+ * rules replaces the default rules; sinks from the file and from the
+ * environment are combined, with the file winning on name clashes.
+ */
+export function loadConfig(configPath: string | undefined = process.env.ALERTS_CONFIG): AlertingConfig {
+  const file: Partial<AlertingConfig> = configPath ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {};
+
+  const sinks = new Map<string, SinkConfig>();
+  for (const sink of [...defaultConfig.sinks, ...sinksFromEnv(), ...(file.sinks || [])]) {
+    sinks.set(sink.name, sink);
+  }
+
+  const rules = file.rules || defaultConfig.rules;
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(`Duplicate alert rule id "${rule.id}"`);
+    }
+    ids.add(rule.id);
+    for (const name of rule.sinks || []) {
+      if (!sinks.has(name)) {
+        throw new Error(`Alert rule "${rule.id}" uses unknown sink "${name}"`);
+      }
+    }
+  }
+
+  return {
+    enabled: process.env.ALERTS_ENABLED === 'false' ? false : file.enabled ?? defaultConfig.enabled,
+    defaultCooldownMinutes: file.defaultCooldownMinutes ?? defaultConfig.defaultCooldownMinutes,
+    rules,
+    sinks: Array.from(sinks.values())
+  };
+}
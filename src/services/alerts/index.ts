@@ -0,0 +1,8 @@
+// Alerts - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { matchesRule, renderMessage } from './rule-evaluator';
+export { createSink, BaseAlertSink, ConsoleSink, DiscordSink, TelegramSink, WebhookSink } from './sinks';
+export { AlertBus, alertBus } from './alert-bus';
+export { startMockSinkServer } from './mock-sink-server';
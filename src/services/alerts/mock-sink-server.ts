@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+import express from 'express';
+import { Server } from 'http';
+
+/**
+ * Local stand-in for webhook, Telegram and Discord endpoints so sinks can
+ * be exercised without real credentials. Point the sinks at it with:
+ *
+ *   ALERT_WEBHOOK_URL=http://localhost:8787/webhook
+ *   TELEGRAM_API_BASE_URL=http://localhost:8787 TELEGRAM_BOT_TOKEN=test TELEGRAM_CHAT_ID=1
+ *   DISCORD_WEBHOOK_URL=http://localhost:8787/discord
+ *
+ * Usage:
+ *   npm run alerts:mock-server -- --port 8787
+ *   npm run alerts:mock-server -- --status 500    # every request fails, to test retries
+ */
+
+export interface ReceivedRequest {
+  path: string;
+  body: any;
+  receivedAt: Date;
+}
+
+export function startMockSinkServer(port: number, failWithStatus: number | null = null): {
+  server: Server;
+  received: ReceivedRequest[];
+} {
+  const app = express();
+  const received: ReceivedRequest[] = [];
+  app.use(express.json());
+
+  app.get('/received', (req, res) => {
+    res.json(received);
+  });
+
+  app.post(/.*/, (req, res) => {
+    received.push({ path: req.path, body: req.body, receivedAt: new Date() });
+    console.log(`📨 POST ${req.path}\n${JSON.stringify(req.body, null, 2)}`);
+
+    if (failWithStatus !== null) {
+      res.status(failWithStatus).json({ ok: false, error: 'mock failure' });
+    } else if (/^\/bot[^/]+\/sendMessage$/.test(req.path)) {
+      res.json({ ok: true, result: { message_id: received.length, chat: { id: req.body.chat_id }, text: req.body.text } });
+    } else if (req.path.startsWith('/discord')) {
+      res.status(204).end();
+    } else {
+      res.json({ received: true });
+    }
+  });
+
+  const server = app.listen(port, () => {
+    console.log(`🧪 Mock alert sink server listening on http://localhost:${port}`);
+  });
+  return { server, received };
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const status = getOption(args, '--status');
+  const { server } = startMockSinkServer(
+    parseInt(getOption(args, '--port') || '8787'),
+    status ? parseInt(status) : null
+  );
+
+  process.on('SIGINT', () => {
+    server.close(() => process.exit(0));
+  });
+}
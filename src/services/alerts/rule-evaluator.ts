@@ -0,0 +1,60 @@
+import { AlertCondition, AlertEvent, AlertFieldValue, AlertRule } from './types';
+
+function compare(actual: AlertFieldValue | undefined, condition: AlertCondition): boolean {
+  if (actual === undefined || actual === null) return false;
+  const { op, value } = condition;
+
+  if (op === 'in') {
+    return Array.isArray(value) && value.includes(actual);
+  }
+  if (op === '==') return actual === value;
+  if (op === '!=') return actual !== value;
+
+  if (typeof actual !== 'number' || typeof value !== 'number') return false;
+  switch (op) {
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+  }
+}
+
+/**
+ * A rule matches when it is enabled, listens for the event type, covers
+ * the token (if it has a watchlist) and every condition holds. Missing
+ * fields never satisfy a condition.
+ */
+export function matchesRule(rule: AlertRule, event: AlertEvent): boolean {
+  if (rule.enabled === false || rule.event !== event.type) return false;
+  if (rule.watchlist && rule.watchlist.length > 0 &&
+      (!event.mintAddress || !rule.watchlist.includes(event.mintAddress))) {
+    return false;
+  }
+  return rule.conditions.every(condition => compare(event.fields[condition.field], condition));
+}
+
+function formatValue(value: AlertFieldValue | undefined): string {
+  if (value === undefined || value === null) return 'n/a';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) < 1 ? 3 : 1);
+  }
+  return String(value);
+}
+
+/**
+ * Fill {field}, {symbol} and {mint} placeholders; rules without a template
+ * list the fields their conditions test
+ */
+export function renderMessage(rule: AlertRule, event: AlertEvent): string {
+  const symbol = event.symbol || event.mintAddress?.slice(0, 8) || '';
+  if (!rule.message) {
+    const tested = rule.conditions.map(c => `${c.field}=${formatValue(event.fields[c.field])}`).join(', ');
+    return symbol ? `${symbol}: ${tested}` : tested;
+  }
+
+  return rule.message.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (name === 'symbol') return symbol;
+    if (name === 'mint') return event.mintAddress || '';
+    return formatValue(event.fields[name]);
+  });
+}
@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { AlertBus } from './alert-bus';
+import { loadConfig } from './config';
+import { AlertEventType } from './types';
+
+/**
+ * Check sink configuration and rules without waiting for live events
+ *
+ * Usage:
+ *   npm run alerts:test                                  # test alert to every sink
+ *   npm run alerts:test -- --sink discord --sink telegram
+ *   npm run alerts:test -- --event technical_score --field technicalScore=260 --field top10Percent=25
+ *   npm run alerts:test -- --event sell_pressure --field severity=critical --no-save
+ *   npm run alerts:test -- --list                        # configured rules and sinks
+ */
+
+function getOptions(args: string[], name: string): string[] {
+  return args.flatMap((arg, index) => arg === name && args[index + 1] !== undefined ? [args[index + 1]] : []);
+}
+
+function parseField(raw: string): [string, number | string | boolean] {
+  const [name, ...rest] = raw.split('=');
+  const value = rest.join('=');
+  if (value === 'true' || value === 'false') return [name, value === 'true'];
+  return [name, value !== '' && !isNaN(Number(value)) ? Number(value) : value];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const config = loadConfig(getOptions(args, '--config')[0]);
+
+  if (args.includes('--list')) {
+    console.log('\nSinks:');
+    for (const sink of config.sinks) {
+      console.log(`  ${sink.name.padEnd(12)} ${sink.type}${sink.minSeverity ? ` (>= ${sink.minSeverity})` : ''}`);
+    }
+    console.log('\nRules:');
+    for (const rule of config.rules) {
+      const conditions = rule.conditions.map(c => `${c.field} ${c.op} ${JSON.stringify(c.value)}`).join(' and ');
+      console.log(`  ${rule.enabled === false ? '(off) ' : ''}${rule.id} [${rule.event}, ${rule.severity}]: ${conditions}`);
+    }
+    return;
+  }
+
+  const event = getOptions(args, '--event')[0] as AlertEventType | undefined;
+  const saving = !args.includes('--no-save');
+  const bus = new AlertBus(config, saving ? undefined : null);
+
+  if (event) {
+    const fired = await bus.publish({
+      type: event,
+      mintAddress: getOptions(args, '--mint')[0] || null,
+      symbol: getOptions(args, '--symbol')[0] || 'TEST',
+      fields: Object.fromEntries(getOptions(args, '--field').map(parseField))
+    });
+    console.log(fired.length > 0
+      ? `\n✅ ${fired.length} rule(s) fired: ${fired.map(alert => alert.ruleId).join(', ')}`
+      : '\nNo rules fired (no match or still cooling down)');
+    return;
+  }
+
+  const sinks = getOptions(args, '--sink');
+  const deliveries = await bus.sendTest(sinks.length > 0 ? sinks : undefined);
+  for (const delivery of deliveries) {
+    console.log(`${delivery.ok ? '✅' : '❌'} ${delivery.sink}${delivery.error ? `: ${delivery.error}` : ''}`);
+  }
+  if (deliveries.some(delivery => !delivery.ok)) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(process.exitCode ?? 0);
+    })
+    .catch(async (error) => {
+      console.error('Alert test failed:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
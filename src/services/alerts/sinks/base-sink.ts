@@ -0,0 +1,63 @@
+import { AlertMessage, AlertSeverity, AlertSink } from '../types';
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  info: 0,
+  positive: 1,
+  warning: 2,
+  critical: 3
+};
+
+export function meetsSeverity(severity: AlertSeverity, minimum: AlertSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minimum];
+}
+
+export const SEVERITY_EMOJI: Record<AlertSeverity, string> = {
+  info: 'ℹ️',
+  positive: '🟢',
+  warning: '⚠️',
+  critical: '🚨'
+};
+
+/**
+ * Shared JSON POST with a timeout and exponential-backoff retries for the
+ * HTTP sinks. Only network errors, 429 and 5xx responses are retried.
+ */
+export abstract class BaseAlertSink implements AlertSink {
+  constructor(
+    public readonly name: string,
+    public readonly minSeverity: AlertSeverity = 'info',
+    protected readonly timeoutMs: number = 5000,
+    protected readonly retryCount: number = 2
+  ) {}
+
+  abstract send(alert: AlertMessage): Promise<void>;
+
+  protected async postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.retryCount; attempt++) {
+      let retryable = true;
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify(body),
+          signal: AbortSignal.timeout(this.timeoutMs)
+        });
+        if (response.ok) return;
+
+        retryable = response.status === 429 || response.status >= 500;
+        lastError = new Error(`${this.name} responded ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      } catch (error) {
+        lastError = error as Error;
+      }
+
+      if (!retryable) break;
+      if (attempt < this.retryCount) {
+        await new Promise(resolve => setTimeout(resolve, 500 * Math.pow(2, attempt)));
+      }
+    }
+
+    throw lastError || new Error(`${this.name} delivery failed`);
+  }
+}
@@ -0,0 +1,19 @@
+import { AlertMessage, ConsoleSinkConfig } from '../types';
+import { BaseAlertSink, SEVERITY_EMOJI } from './base-sink';
+
+export class ConsoleSink extends BaseAlertSink {
+  constructor(config: ConsoleSinkConfig) {
+    super(config.name, config.minSeverity);
+  }
+
+  async send(alert: AlertMessage): Promise<void> {
+    const line = `${SEVERITY_EMOJI[alert.severity]} [${alert.severity.toUpperCase()}] ${alert.title}: ${alert.message}`;
+    if (alert.severity === 'critical') {
+      console.error(line);
+    } else if (alert.severity === 'warning') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
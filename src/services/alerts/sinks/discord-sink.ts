@@ -0,0 +1,30 @@
+import { AlertMessage, AlertSeverity, DiscordSinkConfig } from '../types';
+import { BaseAlertSink } from './base-sink';
+
+const EMBED_COLORS: Record<AlertSeverity, number> = {
+  info: 0x95a5a6,
+  positive: 0x2ecc71,
+  warning: 0xf1c40f,
+  critical: 0xe74c3c
+};
+
+/**
+ * Discord incoming webhook with one embed per alert
+ */
+export class DiscordSink extends BaseAlertSink {
+  constructor(private readonly config: DiscordSinkConfig) {
+    super(config.name, config.minSeverity, config.timeoutMs, config.retryCount);
+  }
+
+  async send(alert: AlertMessage): Promise<void> {
+    await this.postJson(this.config.webhookUrl, {
+      embeds: [{
+        title: alert.title,
+        description: alert.message,
+        color: EMBED_COLORS[alert.severity],
+        timestamp: alert.firedAt.toISOString(),
+        footer: { text: alert.mintAddress ? `${alert.ruleId} · ${alert.mintAddress}` : alert.ruleId }
+      }]
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import { AlertSink, SinkConfig } from '../types';
+import { ConsoleSink } from './console-sink';
+import { DiscordSink } from './discord-sink';
+import { TelegramSink } from './telegram-sink';
+import { WebhookSink } from './webhook-sink';
+
+export { BaseAlertSink, meetsSeverity } from './base-sink';
+export { ConsoleSink, DiscordSink, TelegramSink, WebhookSink };
+
+export function createSink(config: SinkConfig): AlertSink {
+  switch (config.type) {
+    case 'webhook':
+      return new WebhookSink(config);
+    case 'telegram':
+      return new TelegramSink(config);
+    case 'discord':
+      return new DiscordSink(config);
+    case 'console':
+      return new ConsoleSink(config);
+    default:
+      throw new Error(`Unknown alert sink type: ${(config as SinkConfig).type}`);
+  }
+}
@@ -0,0 +1,27 @@
+import { AlertMessage, TelegramSinkConfig } from '../types';
+import { BaseAlertSink, SEVERITY_EMOJI } from './base-sink';
+
+const TELEGRAM_API = 'https://api.telegram.org';
+
+/**
+ * Bot API sendMessage; apiBaseUrl can point at a local mock server
+ */
+export class TelegramSink extends BaseAlertSink {
+  constructor(private readonly config: TelegramSinkConfig) {
+    super(config.name, config.minSeverity, config.timeoutMs, config.retryCount);
+  }
+
+  async send(alert: AlertMessage): Promise<void> {
+    const baseUrl = (this.config.apiBaseUrl || TELEGRAM_API).replace(/\/$/, '');
+    const lines = [`${SEVERITY_EMOJI[alert.severity]} ${alert.title}`, alert.message];
+    if (alert.mintAddress) {
+      lines.push(alert.mintAddress);
+    }
+
+    await this.postJson(`${baseUrl}/bot${this.config.botToken}/sendMessage`, {
+      chat_id: this.config.chatId,
+      text: lines.join('\n'),
+      disable_web_page_preview: true
+    });
+  }
+}
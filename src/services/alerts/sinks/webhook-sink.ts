@@ -0,0 +1,15 @@
+import { AlertMessage, WebhookSinkConfig } from '../types';
+import { BaseAlertSink } from './base-sink';
+
+/**
+ * POSTs the alert as JSON, unchanged, to any URL
+ */
+export class WebhookSink extends BaseAlertSink {
+  constructor(private readonly config: WebhookSinkConfig) {
+    super(config.name, config.minSeverity, config.timeoutMs, config.retryCount);
+  }
+
+  async send(alert: AlertMessage): Promise<void> {
+    await this.postJson(this.config.url, alert, this.config.headers);
+  }
+}
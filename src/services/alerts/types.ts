@@ -0,0 +1,118 @@
+import { AlertDelivery, AlertSeverity, FiredAlert } from '../../database/types';
+
+export type { AlertSeverity };
+
+export type AlertEventType =
+  | 'technical_score'
+  | 'holder_analysis'
+  | 'sell_pressure'
+  | 'smart_money'
+  | 'credit_usage';
+
+export type AlertFieldValue = number | string | boolean | null;
+
+/**
+ * Something a producer observed. Rules match on `type` and `fields`;
+ * token events also carry the subject used for watchlists and dedup.
+ */
+export interface AlertEvent {
+  type: AlertEventType;
+  tokenId?: string | null;
+  mintAddress?: string | null;
+  symbol?: string | null;
+  fields: Record<string, AlertFieldValue>;
+  occurredAt?: Date;
+}
+
+export type ConditionOperator = '>' | '>=' | '<' | '<=' | '==' | '!=' | 'in';
+
+export interface AlertCondition {
+  field: string;
+  op: ConditionOperator;
+  value: AlertFieldValue | AlertFieldValue[];
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  event: AlertEventType;
+  conditions: AlertCondition[];       // all must hold
+  severity: AlertSeverity;
+  cooldownMinutes?: number;           // per rule and token; defaults to the config value
+  watchlist?: string[];               // mint addresses; empty or missing matches every token
+  sinks?: string[];                   // sink names; missing sends to every sink
+  message?: string;                   // template with {field}, {symbol} and {mint} placeholders
+  enabled?: boolean;
+}
+
+interface BaseSinkConfig {
+  name: string;
+  timeoutMs?: number;
+  retryCount?: number;
+  minSeverity?: AlertSeverity;
+}
+
+export interface WebhookSinkConfig extends BaseSinkConfig {
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface TelegramSinkConfig extends BaseSinkConfig {
+  type: 'telegram';
+  botToken: string;
+  chatId: string;
+  apiBaseUrl?: string;                // https://api.telegram.org unless pointed at a mock
+}
+
+export interface DiscordSinkConfig extends BaseSinkConfig {
+  type: 'discord';
+  webhookUrl: string;
+}
+
+export interface ConsoleSinkConfig extends BaseSinkConfig {
+  type: 'console';
+}
+
+export type SinkConfig = WebhookSinkConfig | TelegramSinkConfig | DiscordSinkConfig | ConsoleSinkConfig;
+
+export interface AlertingConfig {
+  enabled: boolean;
+  defaultCooldownMinutes: number;
+  rules: AlertRule[];
+  sinks: SinkConfig[];
+}
+
+/**
+ * What a sink receives for one fired alert
+ */
+export interface AlertMessage {
+  id: number | null;
+  ruleId: string;
+  ruleName: string;
+  eventType: AlertEventType;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  tokenId: string | null;
+  mintAddress: string | null;
+  symbol: string | null;
+  fields: Record<string, AlertFieldValue>;
+  firedAt: Date;
+}
+
+export interface AlertSink {
+  readonly name: string;
+  readonly minSeverity: AlertSeverity;
+  send(alert: AlertMessage): Promise<void>;
+}
+
+/**
+ * Persistence the bus needs; the database implementation is alertOperations
+ */
+export interface AlertStore {
+  recordAlert(alert: FiredAlert): Promise<number>;
+  recordDeliveries(id: number, deliveries: AlertDelivery[]): Promise<void>;
+  recordSuppressed(id: number): Promise<void>;
+  getLastFired(dedupeKey: string): Promise<{ id: number; fired_at: Date } | null>;
+}
@@ -0,0 +1,217 @@
+import { backtestOperations } from '../../database/operations/backtest';
+import { BacktestTokenResult } from '../../database/types';
+import { scoringConfigManager } from '../../scoring/scoring-config-manager';
+import { PaperTradingEngine } from '../paper-trading/paper-trading-engine';
+import { MarketSnapshot } from '../paper-trading/types';
+import { applyScoringOverrides } from './config';
+import { loadSolUsdPrices, loadTokenHistories } from './historical-data';
+import { InMemoryPaperTradingStore } from './memory-store';
+import { PointInTimeScorer } from './point-in-time-scorer';
+import { BacktestConfig, BacktestSummary, TokenHistory } from './types';
+
+export interface BacktestResult {
+  summary: BacktestSummary;
+  results: BacktestTokenResult[];
+}
+
+/**
+ * Step a clock through the range, score every recently active token as of
+ * each step and feed the snapshots to the paper-trading engine. The first
+ * entry per token is its signal; signals are graded against graduations.
+ */
+export async function runBacktest(config: BacktestConfig, options: { save?: boolean } = {}): Promise<BacktestResult> {
+  const save = options.save !== false;
+  const scoring = applyScoringOverrides(await scoringConfigManager.getConfig(true), config.scoring);
+
+  const runId = save
+    ? await backtestOperations.createRun({
+        name: config.name,
+        status: 'running',
+        range_start: config.from,
+        range_end: config.to,
+        step_minutes: config.stepMinutes,
+        config: {
+          strategy: config.strategy,
+          maxTokens: config.maxTokens,
+          activeWithinMinutes: config.activeWithinMinutes
+        },
+        scoring_config: scoring
+      })
+    : null;
+
+  try {
+    const histories = await loadTokenHistories(config.from, config.to, config.maxTokens);
+    const solPrices = await loadSolUsdPrices(config.from, config.to);
+    console.log(`📚 Loaded ${histories.length} tokens and ${solPrices.length} SOL/USD prices`);
+
+    const scorer = new PointInTimeScorer(scoring);
+    const store = new InMemoryPaperTradingStore();
+    const engine = new PaperTradingEngine(config.strategy, store);
+    const results = new Map<string, BacktestTokenResult>();
+    const lastSnapshots = new Map<string, MarketSnapshot>();
+
+    // Trades and SOL prices are consumed in time order, so cursors only move forward
+    const tradeCursors = new Map<string, number>();
+    let solCursor = 0;
+
+    const step = config.stepMinutes * 60_000;
+    const end = config.to.getTime();
+    let steps = 0;
+
+    for (let at = config.from.getTime(); at <= end; at += step) {
+      while (solCursor + 1 < solPrices.length && solPrices[solCursor + 1].time <= at) solCursor++;
+      const solUsd = solPrices.length > 0 && solPrices[solCursor].time <= at
+        ? solPrices[solCursor].price
+        : config.fallbackSolUsd;
+
+      const heldPools = new Set((await store.getOpenPositions(config.strategy.strategy)).map(p => p.pool_id));
+      const snapshots: MarketSnapshot[] = [];
+
+      for (const history of histories) {
+        if (history.createdAt > at) break; // Sorted by creation
+
+        let cursor = tradeCursors.get(history.tokenId) || 0;
+        while (cursor < history.trades.length && history.trades[cursor].time <= at) cursor++;
+        tradeCursors.set(history.tokenId, cursor);
+
+        const lastTrade = cursor > 0 ? history.trades[cursor - 1].time : null;
+        const active = lastTrade !== null && lastTrade > at - config.activeWithinMinutes * 60_000;
+        if (!active && !heldPools.has(history.poolId)) continue;
+
+        const score = scorer.score(history, at, solUsd);
+        if (!score) continue;
+
+        const result = getResult(results, history);
+        result.max_technical_score = Math.max(result.max_technical_score ?? 0, score.technicalScore);
+
+        const snapshot: MarketSnapshot = {
+          tokenId: history.tokenId,
+          poolId: history.poolId,
+          mintAddress: history.mintAddress,
+          symbol: history.symbol,
+          platform: 'pumpfun',
+          poolStatus: history.graduatedAt !== null && history.graduatedAt <= at ? 'graduated' : 'active',
+          observedAt: new Date(at),
+          priceSol: score.priceSol,
+          progress: score.progress,
+          velocityPerHour: score.velocityPerHour,
+          virtualSolReserves: score.virtualSolReserves,
+          virtualTokenReserves: score.virtualTokenReserves,
+          technicalScore: score.technicalScore,
+          holderScore: score.holderScore,
+          isSelloffActive: score.isSelloffActive
+        };
+        snapshots.push(snapshot);
+        lastSnapshots.set(history.poolId, snapshot);
+      }
+
+      const events = await engine.evaluate(snapshots, new Date(at));
+      for (const event of events) {
+        const result = results.get(event.snapshot.tokenId)!;
+        if (event.type === 'open' && !result.signaled) {
+          result.signaled = true;
+          result.signal_at = new Date(at);
+          result.technical_score = event.snapshot.technicalScore;
+          result.holder_score = event.snapshot.holderScore;
+          result.aggregate_score = event.snapshot.technicalScore + (event.snapshot.holderScore ?? 0);
+          result.progress_at_signal = event.snapshot.progress;
+        } else if (event.type === 'close') {
+          result.realized_pnl_sol = (result.realized_pnl_sol ?? 0) + (event.position.realized_pnl_sol ?? 0);
+          result.exit_reason = event.reason;
+        }
+      }
+
+      if (++steps % 60 === 0) {
+        console.log(`⏱️  ${new Date(at).toISOString()}: ${snapshots.length} tokens scored, ${heldPools.size} positions open`);
+      }
+    }
+
+    // Positions still open when the range ends are closed at their last snapshot
+    for (const event of await engine.closeOpenPositions(Array.from(lastSnapshots.values()), config.to)) {
+      if (event.type !== 'close') continue;
+      const result = results.get(event.snapshot.tokenId)!;
+      result.realized_pnl_sol = (result.realized_pnl_sol ?? 0) + (event.position.realized_pnl_sol ?? 0);
+      result.exit_reason = event.reason;
+    }
+
+    const tokenResults = Array.from(results.values()).map(result => ({
+      ...result,
+      minutes_to_graduation: result.signal_at && result.graduated_at
+        ? (result.graduated_at.getTime() - result.signal_at.getTime()) / 60_000
+        : null
+    }));
+    const summary = summarize(runId, tokenResults, store);
+
+    if (runId !== null) {
+      await backtestOperations.completeRun(runId, {
+        tokens_evaluated: summary.tokensEvaluated,
+        tokens_signaled: summary.tokensSignaled,
+        tokens_graduated: summary.tokensGraduated,
+        hits: summary.hits,
+        hit_rate: summary.hitRate,
+        recall: summary.recall,
+        base_rate: summary.baseRate,
+        trades: summary.trades,
+        win_rate: summary.winRate,
+        realized_pnl_sol: summary.realizedPnlSol
+      }, tokenResults);
+    }
+
+    return { summary, results: tokenResults };
+  } catch (error) {
+    if (runId !== null) {
+      await backtestOperations.failRun(runId, error instanceof Error ? error.message : String(error));
+    }
+    throw error;
+  }
+}
+
+function getResult(results: Map<string, BacktestTokenResult>, history: TokenHistory): BacktestTokenResult {
+  let result = results.get(history.tokenId);
+  if (!result) {
+    result = {
+      token_id: history.tokenId,
+      mint_address: history.mintAddress,
+      signaled: false,
+      signal_at: null,
+      technical_score: null,
+      holder_score: null,
+      aggregate_score: null,
+      progress_at_signal: null,
+      max_technical_score: null,
+      graduated: history.graduatedAt !== null,
+      graduated_at: history.graduatedAt !== null ? new Date(history.graduatedAt) : null,
+      minutes_to_graduation: null,
+      realized_pnl_sol: null,
+      exit_reason: null
+    };
+    results.set(history.tokenId, result);
+  }
+  return result;
+}
+
+function summarize(
+  runId: number | null,
+  results: BacktestTokenResult[],
+  store: InMemoryPaperTradingStore
+): BacktestSummary {
+  const signaled = results.filter(result => result.signaled);
+  const graduated = results.filter(result => result.graduated);
+  const hits = signaled.filter(result => result.graduated).length;
+  const closed = store.getPositions().filter(position => position.status === 'closed');
+  const wins = closed.filter(position => (position.realized_pnl_sol ?? 0) > 0).length;
+
+  return {
+    runId,
+    tokensEvaluated: results.length,
+    tokensSignaled: signaled.length,
+    tokensGraduated: graduated.length,
+    hits,
+    hitRate: signaled.length > 0 ? (hits / signaled.length) * 100 : null,
+    recall: graduated.length > 0 ? (hits / graduated.length) * 100 : null,
+    baseRate: results.length > 0 ? (graduated.length / results.length) * 100 : null,
+    trades: closed.length,
+    winRate: closed.length > 0 ? (wins / closed.length) * 100 : null,
+    realizedPnlSol: closed.reduce((sum, position) => sum + (position.realized_pnl_sol ?? 0), 0)
+  };
+}
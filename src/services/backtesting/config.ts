@@ -0,0 +1,64 @@
+import fs from 'fs';
+import { mergeConfig } from '../paper-trading/config';
+import { ScoringConfig } from '../../scoring/scoring-config-manager';
+import { BacktestConfig, BacktestConfigFile, ScoringConfigOverrides } from './types';
+
+export const defaultConfig: Omit<BacktestConfig, 'from' | 'to' | 'strategy'> = {
+  name: 'backtest',
+  stepMinutes: 1,
+  maxTokens: 500,
+  activeWithinMinutes: 10, // Same activity window as the live paper trader
+  fallbackSolUsd: 200,
+  scoring: {}
+};
+
+/**
+ * Build a run config from an optional JSON file; dates are required either
+ * in the file or as arguments
+ */
+export function loadConfig(
+  configPath: string | undefined,
+  overrides: { name?: string; from?: Date; to?: Date; stepMinutes?: number; maxTokens?: number } = {}
+): BacktestConfig {
+  const file: BacktestConfigFile = configPath ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {};
+
+  const from = overrides.from || (file.from ? new Date(file.from) : undefined);
+  const to = overrides.to || (file.to ? new Date(file.to) : undefined);
+  if (!from || !to || isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new Error('A backtest needs a valid --from and --to range');
+  }
+  if (from >= to) {
+    throw new Error('--from must be before --to');
+  }
+
+  const strategy = mergeConfig(file.strategy || {});
+  const name = overrides.name || file.name || defaultConfig.name;
+  if (!file.strategy?.strategy) {
+    strategy.strategy = name;
+  }
+
+  return {
+    name,
+    from,
+    to,
+    stepMinutes: overrides.stepMinutes || file.stepMinutes || defaultConfig.stepMinutes,
+    maxTokens: overrides.maxTokens || file.maxTokens || defaultConfig.maxTokens,
+    activeWithinMinutes: file.activeWithinMinutes || defaultConfig.activeWithinMinutes,
+    fallbackSolUsd: file.fallbackSolUsd || defaultConfig.fallbackSolUsd,
+    strategy,
+    scoring: file.scoring || {}
+  };
+}
+
+/**
+ * Apply a run's scoring overrides to the live scoring_config values
+ */
+export function applyScoringOverrides(base: ScoringConfig, overrides: ScoringConfigOverrides): ScoringConfig {
+  return {
+    bondingCurve: { ...base.bondingCurve, ...overrides.bondingCurve },
+    marketCap: { ...base.marketCap, ...overrides.marketCap },
+    tradingHealth: { ...base.tradingHealth, ...overrides.tradingHealth },
+    selloff: { ...base.selloff, ...overrides.selloff },
+    consistency: { ...base.consistency, ...overrides.consistency }
+  };
+}
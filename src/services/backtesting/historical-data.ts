@@ -0,0 +1,126 @@
+import { getDbPool } from '../../database/connection';
+import { TokenHistory } from './types';
+
+const CHUNK_SIZE = 50;
+
+/**
+ * Load pump.fun tokens launched in the range with their trades, candles and
+ * holder scores up to the end of the range. Graduation outcomes come from
+ * graduated_tokens and are only used to grade the run, never as a feature.
+ */
+export async function loadTokenHistories(from: Date, to: Date, maxTokens: number): Promise<TokenHistory[]> {
+  const pool = getDbPool();
+
+  const tokens = await pool.query(
+    `SELECT
+      t.id AS token_id,
+      p.id AS pool_id,
+      t.mint_address,
+      t.symbol,
+      t.creation_timestamp,
+      g.graduation_timestamp
+    FROM tokens t
+    JOIN pools p ON p.token_id = t.id AND p.platform = 'pumpfun'
+    LEFT JOIN graduated_tokens g ON g.token_mint = t.mint_address
+    WHERE t.platform = 'pumpfun'
+      AND t.creation_timestamp BETWEEN $1 AND $2
+    ORDER BY t.creation_timestamp
+    LIMIT $3`,
+    [from, to, maxTokens]
+  );
+
+  const histories = new Map<string, TokenHistory>();
+  const byPool = new Map<string, TokenHistory>();
+  for (const row of tokens.rows) {
+    const history: TokenHistory = {
+      tokenId: row.token_id,
+      poolId: row.pool_id,
+      mintAddress: row.mint_address,
+      symbol: row.symbol,
+      createdAt: new Date(row.creation_timestamp).getTime(),
+      graduatedAt: row.graduation_timestamp ? new Date(row.graduation_timestamp).getTime() : null,
+      trades: [],
+      candles: [],
+      holderScores: []
+    };
+    histories.set(history.tokenId, history);
+    byPool.set(history.poolId, history);
+  }
+
+  const all = Array.from(histories.values());
+  for (let i = 0; i < all.length; i += CHUNK_SIZE) {
+    const chunk = all.slice(i, i + CHUNK_SIZE);
+    const poolIds = chunk.map(history => history.poolId);
+    const tokenIds = chunk.map(history => history.tokenId);
+
+    const trades = await pool.query(
+      `SELECT pool_id, block_time, type, sol_amount, token_amount, price_per_token, user_address
+      FROM transactions
+      WHERE pool_id = ANY($1::uuid[])
+        AND block_time <= $2
+        AND type IN ('buy', 'sell')
+        AND price_per_token > 0
+      ORDER BY block_time`,
+      [poolIds, to]
+    );
+    for (const row of trades.rows) {
+      byPool.get(row.pool_id)!.trades.push({
+        time: new Date(row.block_time).getTime(),
+        type: row.type,
+        solAmount: parseFloat(row.sol_amount),
+        tokenAmount: parseFloat(row.token_amount),
+        price: parseFloat(row.price_per_token),
+        user: row.user_address
+      });
+    }
+
+    const candles = await pool.query(
+      `SELECT token_id, bucket, open, close
+      FROM price_candles_1m
+      WHERE token_id = ANY($1::uuid[]) AND bucket <= $2
+      ORDER BY bucket`,
+      [tokenIds, to]
+    );
+    for (const row of candles.rows) {
+      histories.get(row.token_id)!.candles.push({
+        bucket: new Date(row.bucket).getTime(),
+        open: parseFloat(row.open),
+        close: parseFloat(row.close)
+      });
+    }
+
+    const holderScores = await pool.query(
+      `SELECT token_id, score_time, total_score
+      FROM holder_scores_v2
+      WHERE token_id = ANY($1::uuid[]) AND score_time <= $2
+      ORDER BY score_time`,
+      [tokenIds, to]
+    );
+    for (const row of holderScores.rows) {
+      histories.get(row.token_id)!.holderScores.push({
+        time: new Date(row.score_time).getTime(),
+        score: parseFloat(row.total_score)
+      });
+    }
+  }
+
+  return all.filter(history => history.trades.length > 0);
+}
+
+/**
+ * SOL/USD prices covering the range, including the last one before it
+ */
+export async function loadSolUsdPrices(from: Date, to: Date): Promise<Array<{ time: number; price: number }>> {
+  const pool = getDbPool();
+  const result = await pool.query(
+    `(SELECT price_time, price_usd FROM sol_usd_prices WHERE price_time < $1 ORDER BY price_time DESC LIMIT 1)
+    UNION ALL
+    (SELECT price_time, price_usd FROM sol_usd_prices WHERE price_time BETWEEN $1 AND $2)
+    ORDER BY price_time`,
+    [from, to]
+  );
+  return result.rows.map(row => ({
+    time: new Date(row.price_time).getTime(),
+    price: parseFloat(row.price_usd)
+  }));
+}
@@ -0,0 +1,8 @@
+// Backtesting - Main Export File
+
+export * from './types';
+export { loadConfig, applyScoringOverrides } from './config';
+export { loadTokenHistories, loadSolUsdPrices } from './historical-data';
+export { PointInTimeScorer, pumpfunCurveState } from './point-in-time-scorer';
+export { InMemoryPaperTradingStore } from './memory-store';
+export { runBacktest } from './backtest-runner';
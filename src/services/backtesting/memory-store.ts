@@ -0,0 +1,78 @@
+import { PaperExitReason, PaperFill, PaperPosition, PaperTradingStore } from '../paper-trading/types';
+
+/**
+ * Keeps a backtest's simulated positions in memory so replays never touch
+ * the live paper_positions table
+ */
+export class InMemoryPaperTradingStore implements PaperTradingStore {
+  private positions: PaperPosition[] = [];
+  private fills: PaperFill[] = [];
+  private nextId = 1;
+
+  async getOpenPositions(strategy: string): Promise<PaperPosition[]> {
+    return this.positions.filter(position => position.strategy === strategy && position.status === 'open');
+  }
+
+  async getRealizedPnl(strategy: string): Promise<number> {
+    return this.positions
+      .filter(position => position.strategy === strategy && position.status === 'closed')
+      .reduce((sum, position) => sum + (position.realized_pnl_sol ?? 0), 0);
+  }
+
+  async openPosition(position: PaperPosition, fill: Omit<PaperFill, 'position_id'>): Promise<PaperPosition> {
+    const stored: PaperPosition = {
+      ...position,
+      id: this.nextId++,
+      status: 'open',
+      last_price_sol: position.entry_price_sol,
+      peak_price_sol: position.entry_price_sol,
+      unrealized_pnl_sol: 0
+    };
+    this.positions.push(stored);
+    this.fills.push({ ...fill, position_id: stored.id! });
+    return { ...stored };
+  }
+
+  async closePosition(
+    position: PaperPosition,
+    fill: Omit<PaperFill, 'position_id'>,
+    reason: PaperExitReason
+  ): Promise<PaperPosition> {
+    const stored = this.positions.find(p => p.id === position.id && p.status === 'open');
+    if (!stored) {
+      throw new Error(`Paper position ${position.id} is not open`);
+    }
+
+    const realizedPnl = fill.sol_amount - stored.size_sol;
+    Object.assign(stored, {
+      status: 'closed',
+      closed_at: fill.filled_at,
+      exit_price_sol: fill.fill_price_sol,
+      exit_proceeds_sol: fill.sol_amount,
+      realized_pnl_sol: realizedPnl,
+      realized_pnl_pct: stored.size_sol > 0 ? (realizedPnl / stored.size_sol) * 100 : 0,
+      exit_reason: reason,
+      last_price_sol: fill.spot_price_sol,
+      unrealized_pnl_sol: 0
+    });
+    this.fills.push({ ...fill, position_id: stored.id! });
+    return { ...stored };
+  }
+
+  async markPosition(id: number, priceSol: number, peakPriceSol: number, unrealizedPnlSol: number): Promise<void> {
+    const stored = this.positions.find(p => p.id === id && p.status === 'open');
+    if (stored) {
+      stored.last_price_sol = priceSol;
+      stored.peak_price_sol = peakPriceSol;
+      stored.unrealized_pnl_sol = unrealizedPnlSol;
+    }
+  }
+
+  getPositions(): PaperPosition[] {
+    return this.positions.map(position => ({ ...position }));
+  }
+
+  getFills(): PaperFill[] {
+    return [...this.fills];
+  }
+}
@@ -0,0 +1,248 @@
+import { ScoringConfig, scoringConfigManager } from '../../scoring/scoring-config-manager';
+import { HistoricalCandle, HistoricalTrade, PointInTimeScore, TokenHistory } from './types';
+
+// Recomputes the technical score as calculate_technical_score() would have
+// returned it at a past moment, using only trades and candles that had
+// closed by then. Component thresholds mirror migration 015; market cap and
+// bonding curve points come from the configurable scoring functions.
+
+const MINUTE = 60_000;
+
+// pump.fun curve: vSol * vToken = k with 30 SOL / 1.073B tokens at launch,
+// so the last traded price fixes the virtual reserves and the progress
+const PUMPFUN_INITIAL_VIRTUAL_SOL = 30;
+const PUMPFUN_INITIAL_VIRTUAL_TOKENS = 1_073_000_000;
+const PUMPFUN_SELLABLE_TOKENS = 793_100_000;
+const PUMPFUN_TOTAL_SUPPLY = 1_000_000_000;
+
+export function pumpfunCurveState(priceSol: number): { virtualSol: number; virtualTokens: number; progress: number } {
+  const k = PUMPFUN_INITIAL_VIRTUAL_SOL * PUMPFUN_INITIAL_VIRTUAL_TOKENS;
+  const virtualTokens = Math.sqrt(k / priceSol);
+  const tokensSold = PUMPFUN_INITIAL_VIRTUAL_TOKENS - virtualTokens;
+  return {
+    virtualSol: k / virtualTokens,
+    virtualTokens,
+    progress: Math.max(0, Math.min(100, (tokensSold / PUMPFUN_SELLABLE_TOKENS) * 100))
+  };
+}
+
+/**
+ * Index of the first element with time > at (elements must be sorted by time)
+ */
+function upperBound<T>(items: T[], at: number, time: (item: T) => number): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (time(items[mid]) <= at) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Trades with from < time <= to
+ */
+export function tradesBetween(trades: HistoricalTrade[], from: number, to: number): HistoricalTrade[] {
+  return trades.slice(upperBound(trades, from, t => t.time), upperBound(trades, to, t => t.time));
+}
+
+export function priceAt(trades: HistoricalTrade[], at: number): number | null {
+  const index = upperBound(trades, at, t => t.time) - 1;
+  return index >= 0 ? trades[index].price : null;
+}
+
+function weightedBuySellRatio(trades: HistoricalTrade[], weight: (trade: HistoricalTrade) => number): number {
+  let buys = 0;
+  let sells = 0;
+  for (const trade of trades) {
+    if (trade.type === 'buy') {
+      buys += trade.solAmount * weight(trade);
+    } else {
+      sells += trade.solAmount * weight(trade);
+    }
+  }
+  return sells > 0 ? buys / sells : 1.0;
+}
+
+export class PointInTimeScorer {
+  constructor(private readonly config: ScoringConfig) {}
+
+  /**
+   * Score a token as of `at`, or null when it had not traded by then
+   */
+  score(history: TokenHistory, at: number, solUsd: number): PointInTimeScore | null {
+    const priceSol = priceAt(history.trades, at);
+    if (priceSol === null || priceSol <= 0) return null;
+
+    const curve = pumpfunCurveState(priceSol);
+    const marketCapUsd = priceSol * PUMPFUN_TOTAL_SUPPLY * solUsd;
+    const velocityPerHour = this.progressVelocity(history, at, curve.progress);
+    const buySellRatio = this.buySellRatio(history.trades, at);
+    const selloff = this.selloffResponse(history, at);
+
+    const marketCapScore = scoringConfigManager.calculateMarketCapScore(marketCapUsd, this.config)
+      + this.marketCapVelocityPoints(history.trades, at);
+    const bondingCurveScore = scoringConfigManager.calculateBondingCurveScore(curve.progress, velocityPerHour, this.config);
+    const tradingHealthScore = this.tradingHealth(history.trades, at, buySellRatio);
+
+    const holderIndex = upperBound(history.holderScores, at, s => s.time) - 1;
+
+    return {
+      technicalScore: marketCapScore + bondingCurveScore + tradingHealthScore + selloff.score,
+      marketCapScore,
+      bondingCurveScore,
+      tradingHealthScore,
+      selloffResponseScore: selloff.score,
+      holderScore: holderIndex >= 0 ? history.holderScores[holderIndex].score : null,
+      priceSol,
+      progress: curve.progress,
+      velocityPerHour,
+      marketCapUsd,
+      buySellRatio,
+      isSelloffActive: selloff.isActive,
+      virtualSolReserves: curve.virtualSol,
+      virtualTokenReserves: curve.virtualTokens
+    };
+  }
+
+  /**
+   * Progress change per hour over the last 30 minutes, or since launch for younger tokens
+   */
+  private progressVelocity(history: TokenHistory, at: number, progress: number): number {
+    const since = Math.max(at - 30 * MINUTE, history.createdAt);
+    const hours = (at - since) / 3_600_000;
+    if (hours <= 0) return 0;
+
+    const earlierPrice = priceAt(history.trades, since);
+    const earlierProgress = earlierPrice ? pumpfunCurveState(earlierPrice).progress : 0;
+    return Math.abs(progress - earlierProgress) / hours;
+  }
+
+  private marketCapVelocityPoints(trades: HistoricalTrade[], at: number): number {
+    const prices = tradesBetween(trades, at - 10 * MINUTE, at).map(trade => trade.price);
+    if (prices.length < 2) return 0;
+
+    const min = Math.min(...prices);
+    const velocity = min > 0 ? ((Math.max(...prices) - min) / min) * 100 / 10 : 0;
+
+    if (velocity >= 0.5 && velocity <= 2) return 40;
+    if (velocity >= 0.2 && velocity < 0.5) return 25;
+    if (velocity > 2 && velocity <= 3) return 25;
+    if (velocity > 0) return 10;
+    return 0;
+  }
+
+  private buySellRatio(trades: HistoricalTrade[], at: number): number {
+    return weightedBuySellRatio(tradesBetween(trades, at - 60 * MINUTE, at), trade => {
+      const age = at - trade.time;
+      if (age < 5 * MINUTE) return 1.0;
+      if (age < 15 * MINUTE) return 0.7;
+      if (age < 30 * MINUTE) return 0.4;
+      return 0.2;
+    });
+  }
+
+  private tradingHealth(trades: HistoricalTrade[], at: number, buySellRatio: number): number {
+    const lastHour = tradesBetween(trades, at - 60 * MINUTE, at);
+
+    let volume5 = 0;
+    let volume30 = 0;
+    const walletVolumes = new Map<string, number>();
+    let totalVolume = 0;
+    for (const trade of lastHour) {
+      const age = at - trade.time;
+      if (age < 5 * MINUTE) volume5 += trade.solAmount;
+      if (age < 30 * MINUTE) volume30 += trade.solAmount;
+      walletVolumes.set(trade.user, (walletVolumes.get(trade.user) || 0) + trade.solAmount);
+      totalVolume += trade.solAmount;
+    }
+
+    const volumeTrend = volume30 > 0 ? ((volume5 * 6) - volume30) / volume30 * 100 : 0;
+    const whaleConcentration = totalVolume > 0 ? Math.max(...walletVolumes.values()) / totalVolume : 0;
+
+    let ratioScore = 0;
+    if (buySellRatio > 2.0) ratioScore = 30;
+    else if (buySellRatio >= 1.5) ratioScore = 20;
+    else if (buySellRatio >= 1.0) ratioScore = 10;
+
+    let volumeScore = 0;
+    if (volumeTrend > 50) volumeScore = 25;
+    else if (volumeTrend > 20) volumeScore = 20;
+    else if (volumeTrend > 0) volumeScore = 10;
+
+    let distributionScore = 0;
+    if (whaleConcentration < 0.1) distributionScore = 20;
+    else if (whaleConcentration < 0.2) distributionScore = 15;
+    else if (whaleConcentration < 0.3) distributionScore = 10;
+    else if (whaleConcentration < 0.4) distributionScore = 5;
+
+    return ratioScore + volumeScore + distributionScore;
+  }
+
+  private selloffResponse(history: TokenHistory, at: number): { score: number; isActive: boolean } {
+    const lastPrice = priceAt(history.trades, at)!;
+    const drop = (minutes: number) => {
+      const window = tradesBetween(history.trades, at - minutes * MINUTE, at);
+      const first = window.length > 0 ? window[0].price : 0;
+      return first > 0 && lastPrice > 0 ? ((first - lastPrice) / first) * 100 : 0;
+    };
+    const drop5 = drop(5);
+    const drop15 = drop(15);
+    const drop30 = drop(30);
+    const consecutiveRed = this.consecutiveRedCandles(history.candles, at);
+
+    const isActive = drop5 > 10 || drop15 > 15 || drop30 > 20 || consecutiveRed >= 3;
+
+    const recoveryStrength = weightedBuySellRatio(tradesBetween(history.trades, at - 30 * MINUTE, at), trade => {
+      const age = at - trade.time;
+      if (age < 5 * MINUTE) return 1.5;
+      if (age < 15 * MINUTE) return 1.0;
+      return 0.5;
+    });
+
+    let sellPressure: number;
+    if (drop5 <= 0 && drop15 <= 0) sellPressure = 40;
+    else if (drop5 < 5 && drop15 < 10) sellPressure = 30;
+    else if (drop5 < 10 && drop15 < 15) sellPressure = 15;
+    else if (drop5 < 20) sellPressure = Math.max(-20, 10 - drop5 * 2);
+    else if (drop5 < 30 || drop15 > 25) sellPressure = -30;
+    else sellPressure = -40;
+
+    let recovery: number;
+    if (!isActive || recoveryStrength > 3.0) recovery = 35;
+    else if (recoveryStrength > 2.0) recovery = 30;
+    else if (recoveryStrength > 1.5) recovery = 20;
+    else if (recoveryStrength > 1.2) recovery = 15;
+    else if (recoveryStrength > 1.0) recovery = 10;
+    else if (recoveryStrength > 0.8) recovery = 5;
+    else if (recoveryStrength > 0.5) recovery = 2;
+    else recovery = 0;
+
+    if (consecutiveRed === 0 && isActive) {
+      recovery += 5;
+    }
+
+    const { maxNegativePoints, maxPositivePoints } = this.config.selloff;
+    return {
+      score: Math.max(maxNegativePoints, Math.min(maxPositivePoints, sellPressure + recovery)),
+      isActive
+    };
+  }
+
+  /**
+   * Red 1-minute candles in a row, newest first, among candles closed by `at` in the last 30 minutes
+   */
+  private consecutiveRedCandles(candles: HistoricalCandle[], at: number): number {
+    const end = upperBound(candles, at - MINUTE, c => c.bucket);
+    let count = 0;
+    for (let i = end - 1; i >= 0 && candles[i].bucket > at - 30 * MINUTE; i--) {
+      if (candles[i].close >= candles[i].open) break;
+      count++;
+    }
+    return count;
+  }
+}
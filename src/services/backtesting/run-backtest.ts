@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { backtestOperations } from '../../database/operations/backtest';
+import { BacktestRun } from '../../database/types';
+import { loadConfig } from './config';
+import { runBacktest } from './backtest-runner';
+import { BacktestSummary } from './types';
+
+/**
+ * Replay stored trades through the scoring pipeline and a paper-trading strategy
+ *
+ * Usage:
+ *   npm run backtest -- --from 2025-08-01 --to 2025-08-03
+ *   npm run backtest -- --config backtests/tight-stops.json --name tight-stops --step 5
+ *   npm run backtest -- --from 2025-08-01 --to 2025-08-02 --no-save
+ *   npm run backtest:compare -- 3 4 5     # compare stored runs
+ *   npm run backtest:compare              # list recent runs
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatPct(value: number | null | undefined): string {
+  return value === null || value === undefined ? 'n/a' : `${value.toFixed(1)}%`;
+}
+
+function printSummary(summary: BacktestSummary) {
+  console.log(`\n📊 Backtest${summary.runId !== null ? ` #${summary.runId}` : ''} results`);
+  console.log('='.repeat(50));
+  console.log(`Tokens evaluated:  ${summary.tokensEvaluated}`);
+  console.log(`Graduated:         ${summary.tokensGraduated} (base rate ${formatPct(summary.baseRate)})`);
+  console.log(`Signaled:          ${summary.tokensSignaled}`);
+  console.log(`Hit rate:          ${formatPct(summary.hitRate)} (${summary.hits} signaled tokens graduated)`);
+  console.log(`Recall:            ${formatPct(summary.recall)} of graduations were signaled`);
+  console.log(`Trades:            ${summary.trades}, win rate ${formatPct(summary.winRate)}`);
+  console.log(`Realized PnL:      ${summary.realizedPnlSol.toFixed(4)} SOL`);
+}
+
+function printRuns(runs: BacktestRun[]) {
+  console.log('\nRun  | Name                 | Range                   | Status    | Signals | Hit rate | Recall | Base  | PnL SOL');
+  console.log('-----|----------------------|-------------------------|-----------|---------|----------|--------|-------|--------');
+  for (const run of runs) {
+    const range = `${run.range_start.toISOString().slice(0, 10)} → ${run.range_end.toISOString().slice(0, 10)}`;
+    console.log(
+      `${String(run.id).padEnd(4)} | ` +
+      `${run.name.slice(0, 20).padEnd(20)} | ` +
+      `${range.padEnd(23)} | ` +
+      `${run.status.padEnd(9)} | ` +
+      `${String(run.tokens_signaled ?? '-').padStart(7)} | ` +
+      `${formatPct(run.hit_rate).padStart(8)} | ` +
+      `${formatPct(run.recall).padStart(6)} | ` +
+      `${formatPct(run.base_rate).padStart(5)} | ` +
+      `${run.realized_pnl_sol !== null && run.realized_pnl_sol !== undefined ? run.realized_pnl_sol.toFixed(3) : '-'}`
+    );
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--compare')) {
+    const ids = args.filter(arg => /^\d+$/.test(arg)).map(Number);
+    printRuns(await backtestOperations.getRuns(ids));
+    return;
+  }
+
+  const from = getOption(args, '--from');
+  const to = getOption(args, '--to');
+  const step = getOption(args, '--step');
+  const maxTokens = getOption(args, '--max-tokens');
+
+  const config = loadConfig(getOption(args, '--config'), {
+    name: getOption(args, '--name'),
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined,
+    stepMinutes: step ? parseInt(step) : undefined,
+    maxTokens: maxTokens ? parseInt(maxTokens) : undefined
+  });
+
+  console.log(`🔁 Backtest "${config.name}": ${config.from.toISOString()} → ${config.to.toISOString()} every ${config.stepMinutes}m`);
+
+  const { summary } = await runBacktest(config, { save: !args.includes('--no-save') });
+  printSummary(summary);
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Backtest failed:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
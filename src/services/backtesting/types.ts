@@ -0,0 +1,92 @@
+import { ScoringConfig } from '../../scoring/scoring-config-manager';
+import { PaperTradingConfig, PaperTradingConfigOverrides } from '../paper-trading/types';
+
+export type ScoringConfigOverrides = {
+  [Section in keyof ScoringConfig]?: Partial<ScoringConfig[Section]>;
+};
+
+export interface BacktestConfig {
+  name: string;
+  from: Date;
+  to: Date;
+  stepMinutes: number;
+  maxTokens: number;
+  activeWithinMinutes: number;  // tokens without a trade in this window are not scored
+  fallbackSolUsd: number;       // used when sol_usd_prices has no row before a step
+  strategy: PaperTradingConfig;
+  scoring: ScoringConfigOverrides;
+}
+
+/**
+ * Shape of a backtest config file; dates may also be given on the command line
+ */
+export interface BacktestConfigFile {
+  name?: string;
+  from?: string;
+  to?: string;
+  stepMinutes?: number;
+  maxTokens?: number;
+  activeWithinMinutes?: number;
+  fallbackSolUsd?: number;
+  strategy?: PaperTradingConfigOverrides;
+  scoring?: ScoringConfigOverrides;
+}
+
+// Times are epoch milliseconds so lookups can binary search without Date allocations
+export interface HistoricalTrade {
+  time: number;
+  type: 'buy' | 'sell';
+  solAmount: number;
+  tokenAmount: number;
+  price: number;
+  user: string;
+}
+
+export interface HistoricalCandle {
+  bucket: number;
+  open: number;
+  close: number;
+}
+
+export interface TokenHistory {
+  tokenId: string;
+  poolId: string;
+  mintAddress: string;
+  symbol: string | null;
+  createdAt: number;
+  graduatedAt: number | null;
+  trades: HistoricalTrade[];
+  candles: HistoricalCandle[];
+  holderScores: Array<{ time: number; score: number }>;
+}
+
+export interface PointInTimeScore {
+  technicalScore: number;
+  marketCapScore: number;
+  bondingCurveScore: number;
+  tradingHealthScore: number;
+  selloffResponseScore: number;
+  holderScore: number | null;
+  priceSol: number;
+  progress: number;
+  velocityPerHour: number;
+  marketCapUsd: number;
+  buySellRatio: number;
+  isSelloffActive: boolean;
+  virtualSolReserves: number;
+  virtualTokenReserves: number;
+}
+
+export interface BacktestSummary {
+  runId: number | null;
+  tokensEvaluated: number;
+  tokensSignaled: number;
+  tokensGraduated: number;
+  hits: number;
+  hitRate: number | null;     // graduated / signaled
+  recall: number | null;      // signaled / graduated
+  baseRate: number | null;    // graduated / evaluated
+  trades: number;
+  winRate: number | null;
+  realizedPnlSol: number;
+}
@@ -0,0 +1,18 @@
+import { CreatorProfileConfig } from './types';
+
+export const defaultConfig: CreatorProfileConfig = {
+  trackHours: 72,
+  rugDropPercent: 90,
+  maxLaunchesPerRun: 5000,
+  batchSize: 100,
+  defaultSupply: 1_000_000_000
+};
+
+export function loadConfig(): CreatorProfileConfig {
+  return {
+    ...defaultConfig,
+    trackHours: parseInt(process.env.CREATOR_PROFILE_TRACK_HOURS || '') || defaultConfig.trackHours,
+    rugDropPercent: parseFloat(process.env.CREATOR_PROFILE_RUG_DROP_PERCENT || '') || defaultConfig.rugDropPercent,
+    maxLaunchesPerRun: parseInt(process.env.CREATOR_PROFILE_MAX_LAUNCHES || '') || defaultConfig.maxLaunchesPerRun
+  };
+}
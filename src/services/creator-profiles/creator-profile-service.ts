@@ -0,0 +1,311 @@
+import { Pool } from 'pg';
+import { getDbPool } from '../../database/connection';
+import { loadConfig } from './config';
+import {
+  CreatorFeatures,
+  CreatorLaunch,
+  CreatorProfile,
+  CreatorProfileConfig,
+  CreatorProfileRefreshResult,
+  CreatorProfileSort
+} from './types';
+
+const SORT_COLUMNS: Record<CreatorProfileSort, string> = {
+  launches: 'launch_count DESC',
+  graduation_rate: 'graduation_rate DESC, graduated_count DESC',
+  rug_rate: 'rug_rate DESC, rugged_count DESC',
+  peak_market_cap: 'avg_peak_market_cap_usd DESC NULLS LAST',
+  recent: 'last_launch_at DESC'
+};
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : parseFloat(value);
+}
+
+function toDate(value: any): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function toProfile(row: any): CreatorProfile {
+  return {
+    creatorAddress: row.creator_address,
+    launchCount: row.launch_count,
+    graduatedCount: row.graduated_count,
+    graduationRate: parseFloat(row.graduation_rate),
+    ruggedCount: row.rugged_count,
+    rugRate: parseFloat(row.rug_rate),
+    avgPeakMarketCapUsd: toNumber(row.avg_peak_market_cap_usd),
+    maxPeakMarketCapUsd: toNumber(row.max_peak_market_cap_usd),
+    avgTimeToRugMinutes: toNumber(row.avg_time_to_rug_minutes),
+    avgTimeToGraduationMinutes: toNumber(row.avg_time_to_graduation_minutes),
+    firstLaunchAt: toDate(row.first_launch_at),
+    lastLaunchAt: toDate(row.last_launch_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+function toLaunch(row: any): CreatorLaunch {
+  return {
+    tokenId: row.token_id,
+    mintAddress: row.mint_address,
+    platform: row.platform,
+    launchedAt: new Date(row.launched_at),
+    graduatedAt: toDate(row.graduated_at),
+    peakMarketCapUsd: toNumber(row.peak_market_cap_usd),
+    peakAt: toDate(row.peak_at),
+    ruggedAt: toDate(row.rugged_at),
+    rugReason: row.rug_reason,
+    tradeCount: row.trade_count,
+    isSettled: row.is_settled
+  };
+}
+
+/**
+ * The creator's record at `at` for a token launched at `launchedAt`: its
+ * earlier launches, and how many of them had graduated or rugged by then
+ */
+export function creatorFeaturesAt(launches: CreatorLaunch[], launchedAt: number, at: number): CreatorFeatures {
+  const features: CreatorFeatures = { priorLaunches: 0, priorGraduated: 0, priorRugged: 0 };
+  for (const launch of launches) {
+    if (launch.launchedAt.getTime() >= launchedAt) continue;
+    features.priorLaunches++;
+    if (launch.graduatedAt && launch.graduatedAt.getTime() <= at) features.priorGraduated++;
+    if (launch.ruggedAt && launch.ruggedAt.getTime() <= at) features.priorRugged++;
+  }
+  return features;
+}
+
+/**
+ * Creator reputation from launch history. Launches and graduations reach
+ * `creator_launches` through triggers as the monitors write tokens; this
+ * service follows each launch for `trackHours` to record its peak market
+ * cap and whether (and when) it rugged. `creator_profiles` is recomputed
+ * by trigger whenever a launch outcome changes.
+ */
+export class CreatorProfileService {
+  private pool: Pool;
+  private config: CreatorProfileConfig;
+
+  constructor(config: Partial<CreatorProfileConfig> = {}) {
+    this.pool = getDbPool();
+    this.config = { ...loadConfig(), ...config };
+  }
+
+  // ============ Launch Tracking ============
+
+  /**
+   * Update peak and rug for launches still being followed, least recently
+   * checked first, and settle those that graduated, rugged or aged out
+   */
+  async refresh(): Promise<CreatorProfileRefreshResult> {
+    const result: CreatorProfileRefreshResult = { launchesChecked: 0, settled: 0, rugged: 0, errors: 0 };
+
+    const pending = await this.pool.query(
+      `SELECT token_id FROM creator_launches
+       WHERE NOT is_settled
+       ORDER BY checked_at NULLS FIRST, launched_at
+       LIMIT $1`,
+      [this.config.maxLaunchesPerRun]
+    );
+    const tokenIds: string[] = pending.rows.map(row => row.token_id);
+
+    for (let i = 0; i < tokenIds.length; i += this.config.batchSize) {
+      const batch = tokenIds.slice(i, i + this.config.batchSize);
+      try {
+        const updated = await this.updateLaunches(batch);
+        result.launchesChecked += updated.length;
+        result.settled += updated.filter(row => row.is_settled).length;
+        result.rugged += updated.filter(row => row.rugged_at !== null).length;
+      } catch (error) {
+        result.errors += batch.length;
+        console.error(`Creator launch update failed for ${batch.length} tokens:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Peak price and market cap, the first collapse below the running peak
+   * and any creator dump flagged by the creator risk detector, per launch
+   */
+  private async updateLaunches(tokenIds: string[]): Promise<Array<{ is_settled: boolean; rugged_at: Date | null }>> {
+    const result = await this.pool.query(
+      `WITH batch AS (
+        SELECT
+          cl.token_id,
+          cl.launched_at,
+          COALESCE(NULLIF(t.initial_supply, 0) / POWER(10, t.decimals), $2) AS supply
+        FROM creator_launches cl
+        JOIN tokens t ON t.id = cl.token_id
+        WHERE cl.token_id = ANY($1::uuid[])
+      ),
+      trades AS (
+        SELECT
+          tx.token_id,
+          tx.block_time,
+          tx.price_per_token,
+          MAX(tx.price_per_token) OVER (PARTITION BY tx.token_id ORDER BY tx.block_time) AS running_peak
+        FROM transactions tx
+        JOIN batch b ON b.token_id = tx.token_id
+        WHERE tx.type IN ('buy', 'sell')
+          AND tx.price_per_token > 0
+          AND tx.block_time >= b.launched_at
+      ),
+      stats AS (
+        SELECT
+          token_id,
+          COUNT(*) AS trade_count,
+          MAX(price_per_token) AS peak_price,
+          (ARRAY_AGG(block_time ORDER BY price_per_token DESC, block_time))[1] AS peak_at,
+          MIN(block_time) FILTER (WHERE price_per_token <= running_peak * $3) AS collapsed_at
+        FROM trades
+        GROUP BY token_id
+      ),
+      dumps AS (
+        SELECT token_id, first_creator_sell_at AS dumped_at
+        FROM creator_risk
+        WHERE token_id = ANY($1::uuid[])
+          AND 'creator_dump' = ANY(flags)
+      ),
+      outcomes AS (
+        SELECT
+          b.token_id,
+          b.supply,
+          s.trade_count,
+          s.peak_price,
+          s.peak_at,
+          LEAST(s.collapsed_at, d.dumped_at) AS rugged_at,
+          CASE
+            WHEN d.dumped_at IS NOT NULL AND (s.collapsed_at IS NULL OR d.dumped_at <= s.collapsed_at) THEN 'creator_dump'
+            WHEN s.collapsed_at IS NOT NULL THEN 'price_collapse'
+          END AS rug_reason
+        FROM batch b
+        LEFT JOIN stats s ON s.token_id = b.token_id
+        LEFT JOIN dumps d ON d.token_id = b.token_id
+      )
+      UPDATE creator_launches cl
+      SET
+        peak_price_sol = o.peak_price,
+        peak_market_cap_usd = o.peak_price * get_sol_usd_price(o.peak_at) * o.supply,
+        peak_at = o.peak_at,
+        trade_count = COALESCE(o.trade_count, 0),
+        rugged_at = CASE WHEN cl.graduated_at IS NULL THEN o.rugged_at END,
+        rug_reason = CASE WHEN cl.graduated_at IS NULL THEN o.rug_reason END,
+        is_settled = cl.graduated_at IS NOT NULL
+          OR o.rugged_at IS NOT NULL
+          OR cl.launched_at < NOW() - make_interval(hours => $4),
+        checked_at = NOW()
+      FROM outcomes o
+      WHERE cl.token_id = o.token_id
+      RETURNING cl.is_settled, cl.rugged_at`,
+      [tokenIds, this.config.defaultSupply, 1 - this.config.rugDropPercent / 100, this.config.trackHours]
+    );
+    return result.rows;
+  }
+
+  // ============ Queries ============
+
+  async getProfile(creatorAddress: string): Promise<CreatorProfile | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM creator_profiles WHERE creator_address = $1',
+      [creatorAddress]
+    );
+    return result.rows[0] ? toProfile(result.rows[0]) : null;
+  }
+
+  /**
+   * The profile of the creator of a token, by id or mint
+   */
+  async getProfileForToken(tokenIdOrMint: string): Promise<CreatorProfile | null> {
+    const result = await this.pool.query(
+      `SELECT cp.*
+       FROM tokens t
+       JOIN creator_profiles cp ON cp.creator_address = t.creator_address
+       WHERE t.mint_address = $1 OR t.id::text = $1`,
+      [tokenIdOrMint]
+    );
+    return result.rows[0] ? toProfile(result.rows[0]) : null;
+  }
+
+  async getLaunches(creatorAddress: string, limit: number = 100): Promise<CreatorLaunch[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM creator_launches
+       WHERE creator_address = $1
+       ORDER BY launched_at DESC
+       LIMIT $2`,
+      [creatorAddress, limit]
+    );
+    return result.rows.map(toLaunch);
+  }
+
+  async getTopCreators(options: {
+    sort?: CreatorProfileSort;
+    minLaunches?: number;
+    limit?: number;
+  } = {}): Promise<CreatorProfile[]> {
+    const orderBy = SORT_COLUMNS[options.sort || 'launches'] || SORT_COLUMNS.launches;
+    const result = await this.pool.query(
+      `SELECT * FROM creator_profiles
+       WHERE launch_count >= $1
+       ORDER BY ${orderBy}, creator_address
+       LIMIT $2`,
+      [options.minLaunches ?? 1, options.limit ?? 50]
+    );
+    return result.rows.map(toProfile);
+  }
+
+  // ============ Scoring Features ============
+
+  /**
+   * The creator's record for a token at `at`, as `creatorFeaturesAt`
+   * computes it in training
+   */
+  async getFeatures(tokenId: string, at: Date = new Date()): Promise<CreatorFeatures> {
+    const result = await this.pool.query(
+      `SELECT
+        COUNT(prior.token_id) AS launches,
+        COUNT(prior.token_id) FILTER (WHERE prior.graduated_at <= $2) AS graduated,
+        COUNT(prior.token_id) FILTER (WHERE prior.rugged_at <= $2) AS rugged
+       FROM creator_launches self
+       JOIN creator_launches prior
+         ON prior.creator_address = self.creator_address
+        AND prior.launched_at < self.launched_at
+       WHERE self.token_id = $1::uuid`,
+      [tokenId, at]
+    );
+    const row = result.rows[0];
+    return {
+      priorLaunches: parseInt(row?.launches) || 0,
+      priorGraduated: parseInt(row?.graduated) || 0,
+      priorRugged: parseInt(row?.rugged) || 0
+    };
+  }
+
+  /**
+   * Every launch by the creators of the given tokens, keyed by token id,
+   * for point-in-time features over many observations
+   */
+  async loadCreatorHistories(tokenIds: string[]): Promise<Map<string, CreatorLaunch[]>> {
+    const histories = new Map<string, CreatorLaunch[]>();
+    if (tokenIds.length === 0) return histories;
+
+    const result = await this.pool.query(
+      `SELECT self.token_id AS for_token_id, prior.*
+       FROM creator_launches self
+       JOIN creator_launches prior
+         ON prior.creator_address = self.creator_address
+        AND prior.launched_at < self.launched_at
+       WHERE self.token_id = ANY($1::uuid[])`,
+      [tokenIds]
+    );
+    for (const row of result.rows) {
+      if (!histories.has(row.for_token_id)) histories.set(row.for_token_id, []);
+      histories.get(row.for_token_id)!.push(toLaunch(row));
+    }
+    return histories;
+  }
+}
+
+// Export singleton instance
+export const creatorProfileService = new CreatorProfileService();
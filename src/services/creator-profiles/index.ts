@@ -0,0 +1,5 @@
+// Creator Profiles - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { CreatorProfileService, creatorProfileService, creatorFeaturesAt } from './creator-profile-service';
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { creatorProfileService } from './creator-profile-service';
+
+/**
+ * Follow recent launches for peak market cap and rugs, which keeps
+ * creator_profiles current
+ *
+ * Usage:
+ *   npm run creator-profiles
+ *   npm run creator-profiles -- --interval 5          # again every 5 minutes
+ *   npm run creator-profiles -- --creator <address>   # print one profile and its launches
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runOnce(): Promise<void> {
+  const startedAt = Date.now();
+  const result = await creatorProfileService.refresh();
+  console.log(
+    `👤 Creator launches: ${result.launchesChecked} checked, ${result.settled} settled, ${result.rugged} rugged` +
+    `${result.errors > 0 ? `, ${result.errors} failed` : ''} (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const creator = getOption(args, '--creator');
+  const interval = getOption(args, '--interval');
+
+  if (creator) {
+    const profile = await creatorProfileService.getProfile(creator);
+    if (!profile) {
+      throw new Error(`No launches recorded for creator ${creator}`);
+    }
+    const launches = await creatorProfileService.getLaunches(creator, 20);
+    console.log(JSON.stringify({ profile, launches }, null, 2));
+    return;
+  }
+
+  await runOnce();
+  if (!interval) return;
+
+  const intervalMs = parseFloat(interval) * 60 * 1000;
+  console.log(`🔁 Next run in ${interval} minutes`);
+  await new Promise<void>(() => {
+    const schedule = () => setTimeout(async () => {
+      try {
+        await runOnce();
+      } catch (error) {
+        console.error('Creator profile refresh failed:', error);
+      }
+      schedule();
+    }, intervalMs);
+    schedule();
+  });
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
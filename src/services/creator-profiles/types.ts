@@ -0,0 +1,64 @@
+export type RugReason = 'price_collapse' | 'creator_dump';
+
+/**
+ * One launch from `creator_launches`
+ */
+export interface CreatorLaunch {
+  tokenId: string;
+  mintAddress: string;
+  platform: string;
+  launchedAt: Date;
+  graduatedAt: Date | null;
+  peakMarketCapUsd: number | null;
+  peakAt: Date | null;
+  ruggedAt: Date | null;
+  rugReason: RugReason | null;
+  tradeCount: number;
+  isSettled: boolean;
+}
+
+/**
+ * One row of `creator_profiles`, kept current by triggers on launches
+ */
+export interface CreatorProfile {
+  creatorAddress: string;
+  launchCount: number;
+  graduatedCount: number;
+  graduationRate: number;
+  ruggedCount: number;
+  rugRate: number;
+  avgPeakMarketCapUsd: number | null;
+  maxPeakMarketCapUsd: number | null;
+  avgTimeToRugMinutes: number | null;
+  avgTimeToGraduationMinutes: number | null;
+  firstLaunchAt: Date | null;
+  lastLaunchAt: Date | null;
+  updatedAt: Date;
+}
+
+export type CreatorProfileSort = 'launches' | 'graduation_rate' | 'rug_rate' | 'peak_market_cap' | 'recent';
+
+/**
+ * A creator's track record as it was known at some moment, built only from
+ * launches before the token being scored
+ */
+export interface CreatorFeatures {
+  priorLaunches: number;
+  priorGraduated: number;
+  priorRugged: number;
+}
+
+export interface CreatorProfileConfig {
+  trackHours: number;             // launches are followed for peak and rug this long
+  rugDropPercent: number;         // fall from the running peak that counts as a rug
+  maxLaunchesPerRun: number;
+  batchSize: number;
+  defaultSupply: number;          // used when tokens.initial_supply is missing
+}
+
+export interface CreatorProfileRefreshResult {
+  launchesChecked: number;
+  settled: number;
+  rugged: number;
+  errors: number;
+}
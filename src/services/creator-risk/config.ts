@@ -0,0 +1,36 @@
+import { CreatorRiskConfig } from './types';
+
+export const defaultConfig: CreatorRiskConfig = {
+  lookbackHours: 24,
+  maxTokensPerRun: 500,
+  fundingWindowHours: 24,
+  transferRecheckMinutes: 30,
+  maxTransferLookups: 20,
+  creatorDumpPercent: 90,
+  freshTransferSupplyPercent: 1,
+  serialLookbackDays: 7,
+  serialLaunchThreshold: 3,
+  defaultSupply: 1_000_000_000,
+  weights: {
+    creator_sell: 20,
+    creator_dump: 55,
+    funded_wallet_buy: 10,
+    funded_wallet_sell: 25,
+    supply_to_fresh_wallet: 20,
+    fresh_wallet_sell: 25,
+    serial_launcher: 15
+  },
+  levels: { medium: 25, high: 50, critical: 75 },
+  penalties: { low: 0, medium: 50, high: 150, critical: 300 }
+};
+
+export function loadConfig(): CreatorRiskConfig {
+  return {
+    ...defaultConfig,
+    lookbackHours: parseInt(process.env.CREATOR_RISK_LOOKBACK_HOURS || '') || defaultConfig.lookbackHours,
+    maxTransferLookups: process.env.CREATOR_RISK_MAX_LOOKUPS !== undefined
+      ? parseInt(process.env.CREATOR_RISK_MAX_LOOKUPS) || 0
+      : defaultConfig.maxTransferLookups,
+    serialLaunchThreshold: parseInt(process.env.CREATOR_RISK_SERIAL_LAUNCHES || '') || defaultConfig.serialLaunchThreshold
+  };
+}
@@ -0,0 +1,483 @@
+import { Pool } from 'pg';
+import { getDbPool } from '../../database/connection';
+import { EnhancedTransferClient } from '../wallet-tracker/enhanced-transfers';
+import { loadConfig } from './config';
+import {
+  CreatorRiskAssessment,
+  CreatorRiskConfig,
+  CreatorRiskFlag,
+  CreatorRiskLevel,
+  CreatorRiskRunResult,
+  CreatorTransfers,
+  FundedWallet,
+  SupplyTransfer,
+  WalletActivity
+} from './types';
+
+interface TokenRow {
+  id: string;
+  mint_address: string;
+  creator_address: string;
+  creation_timestamp: Date;
+  decimals: number;
+  initial_supply: string | null;
+  unattributed: boolean;
+}
+
+/**
+ * Tokens first seen at PumpSwap pool creation are saved with a placeholder
+ * creator or the pool creator, so their creator is not the wallet that
+ * launched them. `t` is the tokens alias.
+ */
+const UNATTRIBUTED_CREATOR = `COALESCE(t.creator_address = 'Unknown' OR t.metadata->>'detected_via' = 'pumpswap_pool_creation', false)`;
+
+function emptyActivity(): WalletActivity {
+  return { boughtTokens: 0, soldTokens: 0, sellSol: 0, sellCount: 0, firstSellAt: null };
+}
+
+function percentOf(part: number, whole: number): number {
+  return whole > 0 ? Math.min(100, (part / whole) * 100) : 0;
+}
+
+/**
+ * Follows token creators after launch: their own sells, what the wallets
+ * they funded do with the token, supply they move to fresh wallets and how
+ * many other tokens they launched. Each token gets one `creator_risk` row;
+ * its penalty is taken off the aggregate score by migration 037's trigger.
+ *
+ * Trades come from `transactions`. Funding and token transfers need the
+ * creator's transfer history from Helius, which is looked up for a limited
+ * number of tokens per run and reused until it goes stale.
+ */
+export class CreatorRiskDetector {
+  private pool: Pool;
+  private config: CreatorRiskConfig;
+  private transfers: EnhancedTransferClient;
+  private lastRunAt: Date | null = null;
+
+  constructor(config: Partial<CreatorRiskConfig> = {}) {
+    this.pool = getDbPool();
+    this.config = { ...loadConfig(), ...config };
+    this.transfers = new EnhancedTransferClient();
+  }
+
+  /**
+   * Assess tokens that launched or saw creator-related trades since the
+   * previous run (or within the lookback on the first run)
+   */
+  async run(): Promise<CreatorRiskRunResult> {
+    const startedAt = new Date();
+    const since = this.lastRunAt || new Date(startedAt.getTime() - this.config.lookbackHours * 60 * 60 * 1000);
+    const tokenIds = await this.findCandidates(since);
+
+    const result: CreatorRiskRunResult = {
+      tokensChecked: 0,
+      transferLookups: 0,
+      byLevel: { low: 0, medium: 0, high: 0, critical: 0 },
+      errors: 0
+    };
+
+    for (const tokenId of tokenIds) {
+      try {
+        const lookupAllowed = result.transferLookups < this.config.maxTransferLookups;
+        const assessment = await this.assessToken(tokenId, { allowLookup: lookupAllowed });
+        if (!assessment) continue;
+
+        result.tokensChecked++;
+        result.byLevel[assessment.riskLevel]++;
+        if (lookupAllowed && assessment.transfers && new Date(assessment.transfers.checkedAt) >= startedAt) {
+          result.transferLookups++;
+        }
+      } catch (error) {
+        result.errors++;
+        console.error(`Creator risk failed for token ${tokenId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    this.lastRunAt = startedAt;
+    return result;
+  }
+
+  /**
+   * Tokens launched since `since`, tokens whose creator traded since then,
+   * and tokens where a wallet the creator funded traded since then
+   */
+  private async findCandidates(since: Date): Promise<string[]> {
+    const lookbackStart = new Date(Date.now() - this.config.lookbackHours * 60 * 60 * 1000);
+    const result = await this.pool.query(`
+      SELECT token_id FROM (
+        SELECT t.id AS token_id, t.creation_timestamp AS activity_at
+        FROM tokens t
+        WHERE t.creation_timestamp > $1
+
+        UNION ALL
+
+        SELECT tx.token_id, MAX(tx.block_time)
+        FROM transactions tx
+        JOIN tokens t ON t.id = tx.token_id
+        WHERE tx.block_time > $1
+          AND tx.user_address = t.creator_address
+          AND t.creation_timestamp > $2
+          AND NOT ${UNATTRIBUTED_CREATOR}
+        GROUP BY tx.token_id
+
+        UNION ALL
+
+        SELECT cr.token_id, MAX(tx.block_time)
+        FROM creator_risk cr
+        JOIN transactions tx ON tx.token_id = cr.token_id
+        WHERE tx.block_time > $1
+          AND cardinality(cr.funded_wallets) > 0
+          AND tx.user_address = ANY(cr.funded_wallets)
+        GROUP BY cr.token_id
+      ) candidates
+      GROUP BY token_id
+      ORDER BY MAX(activity_at) DESC
+      LIMIT $3`,
+      [since, lookbackStart, this.config.maxTokensPerRun]
+    );
+    return result.rows.map(row => row.token_id);
+  }
+
+  // ============ Assessment ============
+
+  /**
+   * Recompute and store the creator risk of one token. Returns null for
+   * unknown tokens. Tokens without a real creator get no creator-based
+   * flags, which also clears any they were given before.
+   */
+  async assessToken(
+    tokenId: string,
+    options: { allowLookup?: boolean } = {}
+  ): Promise<CreatorRiskAssessment | null> {
+    const tokenResult = await this.pool.query(
+      `SELECT id, mint_address, creator_address, creation_timestamp, decimals, initial_supply,
+              ${UNATTRIBUTED_CREATOR} AS unattributed
+       FROM tokens t WHERE id = $1::uuid`,
+      [tokenId]
+    );
+    const token: TokenRow | undefined = tokenResult.rows[0];
+    if (!token) return null;
+
+    const supply = this.getSupply(token);
+    const creator = token.unattributed
+      ? emptyActivity()
+      : (await this.getActivity(token.id, [token.creator_address])).get(token.creator_address) || emptyActivity();
+    const serialLaunches = token.unattributed ? 0 : await this.countSerialLaunches(token);
+    const transfers = token.unattributed ? null : await this.getTransfers(token, options.allowLookup !== false);
+
+    const fundedWallets = (transfers?.fundedWallets || []).map(wallet => wallet.address);
+    const freshTransfers = (transfers?.supplyTransfers || []).filter(transfer => transfer.isFresh);
+    const freshRecipients = Array.from(new Set(freshTransfers.map(transfer => transfer.recipient)));
+    const activity = await this.getActivity(token.id, [...fundedWallets, ...freshRecipients]);
+
+    const fundedWalletActivity = this.sumActivity(fundedWallets, activity);
+    const freshWalletActivity = this.sumActivity(freshRecipients, activity);
+    const transferredTokens = freshTransfers.reduce((sum, transfer) => sum + transfer.amount, 0);
+
+    // A creator selling without a recorded buy got its tokens some other way
+    const soldPercent = creator.boughtTokens > 0
+      ? percentOf(creator.soldTokens, creator.boughtTokens)
+      : creator.soldTokens > 0 ? 100 : 0;
+
+    const flags: CreatorRiskFlag[] = [];
+    if (creator.sellCount > 0) {
+      flags.push(soldPercent >= this.config.creatorDumpPercent ? 'creator_dump' : 'creator_sell');
+    }
+    if (fundedWalletActivity.boughtTokens > 0) flags.push('funded_wallet_buy');
+    if (fundedWalletActivity.sellCount > 0) flags.push('funded_wallet_sell');
+    if (percentOf(transferredTokens, supply) >= this.config.freshTransferSupplyPercent) flags.push('supply_to_fresh_wallet');
+    if (freshWalletActivity.sellCount > 0) flags.push('fresh_wallet_sell');
+    if (serialLaunches >= this.config.serialLaunchThreshold) flags.push('serial_launcher');
+
+    const riskScore = Math.min(100, flags.reduce((sum, flag) => sum + this.config.weights[flag], 0));
+    const riskLevel = this.getLevel(riskScore);
+
+    const assessment: CreatorRiskAssessment = {
+      tokenId: token.id,
+      mintAddress: token.mint_address,
+      creatorAddress: token.creator_address,
+      riskScore,
+      riskLevel,
+      scorePenalty: this.config.penalties[riskLevel],
+      flags,
+      creator: { ...creator, soldPercent },
+      fundedWallets,
+      fundedWalletActivity,
+      freshWalletTransfers: freshTransfers.length,
+      transferredTokens,
+      transferredSupplyPercent: percentOf(transferredTokens, supply),
+      freshWalletActivity,
+      serialLaunches,
+      transfers,
+      checkedAt: new Date()
+    };
+
+    await this.save(assessment);
+    return assessment;
+  }
+
+  private getLevel(score: number): CreatorRiskLevel {
+    if (score >= this.config.levels.critical) return 'critical';
+    if (score >= this.config.levels.high) return 'high';
+    if (score >= this.config.levels.medium) return 'medium';
+    return 'low';
+  }
+
+  private getSupply(token: TokenRow): number {
+    const raw = token.initial_supply ? Number(token.initial_supply) : 0;
+    return raw > 0 ? raw / 10 ** (token.decimals ?? 6) : this.config.defaultSupply;
+  }
+
+  /**
+   * Buys and sells of the token per wallet
+   */
+  private async getActivity(tokenId: string, wallets: string[]): Promise<Map<string, WalletActivity>> {
+    const activity = new Map<string, WalletActivity>();
+    if (wallets.length === 0) return activity;
+
+    const result = await this.pool.query(
+      `SELECT
+         user_address,
+         COALESCE(SUM(token_amount) FILTER (WHERE type = 'buy'), 0) AS bought_tokens,
+         COALESCE(SUM(token_amount) FILTER (WHERE type = 'sell'), 0) AS sold_tokens,
+         COALESCE(SUM(sol_amount) FILTER (WHERE type = 'sell'), 0) AS sell_sol,
+         COUNT(*) FILTER (WHERE type = 'sell') AS sell_count,
+         MIN(block_time) FILTER (WHERE type = 'sell') AS first_sell_at
+       FROM transactions
+       WHERE token_id = $1::uuid
+         AND user_address = ANY($2)
+         AND type IN ('buy', 'sell')
+       GROUP BY user_address`,
+      [tokenId, Array.from(new Set(wallets))]
+    );
+
+    for (const row of result.rows) {
+      activity.set(row.user_address, {
+        boughtTokens: parseFloat(row.bought_tokens) || 0,
+        soldTokens: parseFloat(row.sold_tokens) || 0,
+        sellSol: parseFloat(row.sell_sol) || 0,
+        sellCount: parseInt(row.sell_count) || 0,
+        firstSellAt: row.first_sell_at ? new Date(row.first_sell_at) : null
+      });
+    }
+    return activity;
+  }
+
+  private sumActivity(wallets: string[], activity: Map<string, WalletActivity>): WalletActivity {
+    const total = emptyActivity();
+    for (const wallet of new Set(wallets)) {
+      const entry = activity.get(wallet);
+      if (!entry) continue;
+      total.boughtTokens += entry.boughtTokens;
+      total.soldTokens += entry.soldTokens;
+      total.sellSol += entry.sellSol;
+      total.sellCount += entry.sellCount;
+      if (entry.firstSellAt && (!total.firstSellAt || entry.firstSellAt < total.firstSellAt)) {
+        total.firstSellAt = entry.firstSellAt;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Other tokens the creator launched in the lookback, leaving out ones
+   * whose creator was only inferred from a pool creation
+   */
+  private async countSerialLaunches(token: TokenRow): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS launches
+       FROM tokens t
+       WHERE t.creator_address = $1
+         AND t.id <> $2::uuid
+         AND NOT ${UNATTRIBUTED_CREATOR}
+         AND t.creation_timestamp BETWEEN $3::timestamptz - make_interval(days => $4) AND $3::timestamptz`,
+      [token.creator_address, token.id, token.creation_timestamp, this.config.serialLookbackDays]
+    );
+    return parseInt(result.rows[0].launches) || 0;
+  }
+
+  // ============ Creator Transfers ============
+
+  /**
+   * The stored transfer lookup, refreshed from Helius when it is missing
+   * or stale and a lookup is allowed
+   */
+  private async getTransfers(token: TokenRow, allowLookup: boolean): Promise<CreatorTransfers | null> {
+    const stored = await this.pool.query(
+      `SELECT details->'transfers' AS transfers FROM creator_risk WHERE token_id = $1::uuid`,
+      [token.id]
+    );
+    const previous: CreatorTransfers | null = stored.rows[0]?.transfers || null;
+
+    const staleBefore = Date.now() - this.config.transferRecheckMinutes * 60 * 1000;
+    const upToDate = previous && new Date(previous.checkedAt).getTime() >= staleBefore;
+    if (upToDate || !allowLookup || !this.transfers.enabled || this.config.maxTransferLookups <= 0) {
+      return previous;
+    }
+
+    try {
+      return await this.fetchTransfers(token);
+    } catch (error) {
+      console.warn(`   ⚠️  Transfer lookup failed for creator ${token.creator_address}:`, error instanceof Error ? error.message : error);
+      return previous;
+    }
+  }
+
+  /**
+   * SOL the creator sent out from shortly before launch on, and tokens of
+   * this mint it sent to other wallets, from its latest 100 transfers
+   */
+  private async fetchTransfers(token: TokenRow): Promise<CreatorTransfers> {
+    const creator = token.creator_address;
+    const transactions = await this.transfers.fetchTransfers(creator);
+    const fundingStart = new Date(token.creation_timestamp).getTime() / 1000 - this.config.fundingWindowHours * 60 * 60;
+    const funded = new Map<string, FundedWallet>();
+    const supplyTransfers: Omit<SupplyTransfer, 'isFresh'>[] = [];
+
+    for (const tx of transactions) {
+      if (typeof tx.timestamp !== 'number' || tx.timestamp < fundingStart) continue;
+      const at = new Date(tx.timestamp * 1000).toISOString();
+
+      for (const transfer of tx.nativeTransfers || []) {
+        const recipient = transfer.toUserAccount;
+        if (transfer.fromUserAccount !== creator || !recipient || recipient === creator || !(transfer.amount > 0)) continue;
+
+        const existing = funded.get(recipient);
+        if (existing) {
+          existing.amountSol += transfer.amount / 1e9;
+          if (at < existing.fundedAt) existing.fundedAt = at;
+        } else {
+          funded.set(recipient, { address: recipient, amountSol: transfer.amount / 1e9, fundedAt: at });
+        }
+      }
+
+      for (const transfer of tx.tokenTransfers || []) {
+        const recipient = transfer.toUserAccount;
+        if (transfer.mint !== token.mint_address || transfer.fromUserAccount !== creator) continue;
+        if (!recipient || recipient === creator || !(transfer.tokenAmount > 0)) continue;
+        supplyTransfers.push({ recipient, amount: transfer.tokenAmount, signature: tx.signature, at });
+      }
+    }
+
+    const firstTrades = await this.getFirstTrades(supplyTransfers.map(transfer => transfer.recipient));
+    return {
+      fundedWallets: Array.from(funded.values()),
+      supplyTransfers: supplyTransfers.map(transfer => {
+        const firstTrade = firstTrades.get(transfer.recipient);
+        return {
+          ...transfer,
+          isFresh: funded.has(transfer.recipient) || !firstTrade || firstTrade >= new Date(transfer.at)
+        };
+      }),
+      checkedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Earliest trade per wallet on any token
+   */
+  private async getFirstTrades(wallets: string[]): Promise<Map<string, Date>> {
+    const firstTrades = new Map<string, Date>();
+    if (wallets.length === 0) return firstTrades;
+
+    const result = await this.pool.query(
+      `SELECT user_address, MIN(block_time) AS first_trade
+       FROM transactions
+       WHERE user_address = ANY($1)
+       GROUP BY user_address`,
+      [Array.from(new Set(wallets))]
+    );
+    for (const row of result.rows) {
+      firstTrades.set(row.user_address, new Date(row.first_trade));
+    }
+    return firstTrades;
+  }
+
+  // ============ Persistence ============
+
+  private async save(assessment: CreatorRiskAssessment): Promise<void> {
+    const details = {
+      transfers: assessment.transfers,
+      freshWalletActivity: assessment.freshWalletActivity,
+      creatorFirstSellAt: assessment.creator.firstSellAt
+    };
+
+    await this.pool.query(
+      `INSERT INTO creator_risk (
+        token_id, mint_address, creator_address,
+        risk_score, risk_level, score_penalty, flags,
+        creator_bought_tokens, creator_sold_tokens, creator_sold_percent,
+        creator_sell_sol, creator_sell_count, first_creator_sell_at,
+        funded_wallets, funded_wallet_bought_tokens, funded_wallet_sold_tokens, funded_wallet_sell_sol,
+        fresh_wallet_transfers, transferred_tokens, transferred_supply_percent,
+        serial_launches, details, transfers_checked_at, checked_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+        $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24
+      )
+      ON CONFLICT (token_id) DO UPDATE SET
+        risk_score = EXCLUDED.risk_score,
+        risk_level = EXCLUDED.risk_level,
+        score_penalty = EXCLUDED.score_penalty,
+        flags = EXCLUDED.flags,
+        creator_bought_tokens = EXCLUDED.creator_bought_tokens,
+        creator_sold_tokens = EXCLUDED.creator_sold_tokens,
+        creator_sold_percent = EXCLUDED.creator_sold_percent,
+        creator_sell_sol = EXCLUDED.creator_sell_sol,
+        creator_sell_count = EXCLUDED.creator_sell_count,
+        first_creator_sell_at = EXCLUDED.first_creator_sell_at,
+        funded_wallets = EXCLUDED.funded_wallets,
+        funded_wallet_bought_tokens = EXCLUDED.funded_wallet_bought_tokens,
+        funded_wallet_sold_tokens = EXCLUDED.funded_wallet_sold_tokens,
+        funded_wallet_sell_sol = EXCLUDED.funded_wallet_sell_sol,
+        fresh_wallet_transfers = EXCLUDED.fresh_wallet_transfers,
+        transferred_tokens = EXCLUDED.transferred_tokens,
+        transferred_supply_percent = EXCLUDED.transferred_supply_percent,
+        serial_launches = EXCLUDED.serial_launches,
+        details = EXCLUDED.details,
+        transfers_checked_at = EXCLUDED.transfers_checked_at,
+        checked_at = EXCLUDED.checked_at`,
+      [
+        assessment.tokenId,
+        assessment.mintAddress,
+        assessment.creatorAddress,
+        assessment.riskScore,
+        assessment.riskLevel,
+        assessment.scorePenalty,
+        assessment.flags,
+        assessment.creator.boughtTokens,
+        assessment.creator.soldTokens,
+        assessment.creator.soldPercent,
+        assessment.creator.sellSol,
+        assessment.creator.sellCount,
+        assessment.creator.firstSellAt,
+        assessment.fundedWallets,
+        assessment.fundedWalletActivity.boughtTokens,
+        assessment.fundedWalletActivity.soldTokens,
+        assessment.fundedWalletActivity.sellSol,
+        assessment.freshWalletTransfers,
+        assessment.transferredTokens,
+        assessment.transferredSupplyPercent,
+        assessment.serialLaunches,
+        JSON.stringify(details),
+        assessment.transfers ? new Date(assessment.transfers.checkedAt) : null,
+        assessment.checkedAt
+      ]
+    );
+  }
+
+  /**
+   * Stored risk for a token, by id or mint
+   */
+  async getRisk(tokenIdOrMint: string): Promise<any | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM creator_risk WHERE mint_address = $1 OR token_id::text = $1`,
+      [tokenIdOrMint]
+    );
+    return result.rows[0] || null;
+  }
+}
+
+// Export singleton instance
+export const creatorRiskDetector = new CreatorRiskDetector();
@@ -0,0 +1,5 @@
+// Creator Risk - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { CreatorRiskDetector, creatorRiskDetector } from './creator-risk-detector';
@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool, getDbPool } from '../../database/connection';
+import { creatorRiskDetector } from './creator-risk-detector';
+
+/**
+ * Rug-pull and dev-dump detection from creator wallet behavior
+ *
+ * Usage:
+ *   npm run creator-risk
+ *   npm run creator-risk -- --token <mint>     # one token, with its details
+ *   npm run creator-risk -- --interval 2       # again every 2 minutes
+ *
+ * Transfer lookups need HELIUS_API_KEY; CREATOR_RISK_MAX_LOOKUPS caps them
+ * per run (100 credits each).
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runOnce(): Promise<void> {
+  const startedAt = Date.now();
+  const result = await creatorRiskDetector.run();
+  const { low, medium, high, critical } = result.byLevel;
+  console.log(
+    `🕵️  Creator risk: ${result.tokensChecked} tokens, ${result.transferLookups} transfer lookups, ` +
+    `${critical} critical / ${high} high / ${medium} medium / ${low} low` +
+    `${result.errors > 0 ? `, ${result.errors} errors` : ''} (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const mint = getOption(args, '--token');
+  const interval = getOption(args, '--interval');
+
+  if (mint) {
+    const token = await getDbPool().query('SELECT id FROM tokens WHERE mint_address = $1', [mint]);
+    if (!token.rows[0]) {
+      throw new Error(`Unknown token ${mint}`);
+    }
+    const assessment = await creatorRiskDetector.assessToken(token.rows[0].id);
+    console.log(JSON.stringify(assessment, null, 2));
+    return;
+  }
+
+  await runOnce();
+  if (!interval) return;
+
+  const intervalMs = parseFloat(interval) * 60 * 1000;
+  console.log(`🔁 Next run in ${interval} minutes`);
+  await new Promise<void>(() => {
+    const schedule = () => setTimeout(async () => {
+      try {
+        await runOnce();
+      } catch (error) {
+        console.error('Creator risk run failed:', error);
+      }
+      schedule();
+    }, intervalMs);
+    schedule();
+  });
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
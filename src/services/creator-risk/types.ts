@@ -0,0 +1,91 @@
+export type CreatorRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export type CreatorRiskFlag =
+  | 'creator_sell'            // the creator sold some of its tokens
+  | 'creator_dump'            // the creator sold (nearly) all of them
+  | 'funded_wallet_buy'       // wallets the creator sent SOL to bought the token
+  | 'funded_wallet_sell'      // ... and sold it
+  | 'supply_to_fresh_wallet'  // the creator moved tokens to wallets with no earlier trades
+  | 'fresh_wallet_sell'       // ... which then sold them
+  | 'serial_launcher';        // the creator launched many other tokens recently
+
+/**
+ * A wallet the creator sent SOL to around launch
+ */
+export interface FundedWallet {
+  address: string;
+  amountSol: number;
+  fundedAt: string;
+}
+
+/**
+ * Tokens of this mint the creator sent to another wallet
+ */
+export interface SupplyTransfer {
+  recipient: string;
+  amount: number;
+  signature: string;
+  at: string;
+  isFresh: boolean;           // recipient had not traded before the transfer
+}
+
+/**
+ * Result of the creator's transfer history lookup, kept in
+ * `creator_risk.details` between lookups
+ */
+export interface CreatorTransfers {
+  fundedWallets: FundedWallet[];
+  supplyTransfers: SupplyTransfer[];
+  checkedAt: string;
+}
+
+export interface WalletActivity {
+  boughtTokens: number;
+  soldTokens: number;
+  sellSol: number;
+  sellCount: number;
+  firstSellAt: Date | null;
+}
+
+export interface CreatorRiskAssessment {
+  tokenId: string;
+  mintAddress: string;
+  creatorAddress: string;
+  riskScore: number;
+  riskLevel: CreatorRiskLevel;
+  scorePenalty: number;
+  flags: CreatorRiskFlag[];
+  creator: WalletActivity & { soldPercent: number };
+  fundedWallets: string[];
+  fundedWalletActivity: WalletActivity;
+  freshWalletTransfers: number;
+  transferredTokens: number;
+  transferredSupplyPercent: number;
+  freshWalletActivity: WalletActivity;
+  serialLaunches: number;
+  transfers: CreatorTransfers | null;
+  checkedAt: Date;
+}
+
+export interface CreatorRiskConfig {
+  lookbackHours: number;                      // tokens launched this recently are followed
+  maxTokensPerRun: number;
+  fundingWindowHours: number;                 // SOL sent this long before launch counts as funding
+  transferRecheckMinutes: number;
+  maxTransferLookups: number;                 // Helius lookups per run (100 credits each)
+  creatorDumpPercent: number;                 // share of the creator's tokens sold that counts as a dump
+  freshTransferSupplyPercent: number;         // share of supply moved to fresh wallets that is flagged
+  serialLookbackDays: number;
+  serialLaunchThreshold: number;              // other launches within the lookback
+  defaultSupply: number;                      // used when tokens.initial_supply is missing
+  weights: Record<CreatorRiskFlag, number>;   // risk points per flag, capped at 100 in total
+  levels: { medium: number; high: number; critical: number };
+  penalties: Record<CreatorRiskLevel, number>; // points taken off the 999-point aggregate
+}
+
+export interface CreatorRiskRunResult {
+  tokensChecked: number;
+  transferLookups: number;
+  byLevel: Record<CreatorRiskLevel, number>;
+  errors: number;
+}
@@ -0,0 +1,59 @@
+import { BudgetWindow, CreditUsage } from './types';
+
+/**
+ * Weight of each hour of the day (0-23), averaging 1. Hours with more
+ * trades get a larger share of the day's credits; `blend` mixes that with
+ * an even spread so quiet hours are never starved.
+ */
+export function hourWeights(tradesByHour: Map<number, number>, blend: number): number[] {
+  const total = Array.from(tradesByHour.values()).reduce((sum, trades) => sum + trades, 0);
+  const weights: number[] = [];
+
+  for (let hour = 0; hour < 24; hour++) {
+    const activity = total > 0 ? (tradesByHour.get(hour) || 0) / total * 24 : 1;
+    weights.push(blend * activity + (1 - blend));
+  }
+
+  return weights;
+}
+
+/**
+ * Weighted hours left today, counting only the unused part of the current
+ * hour
+ */
+export function weightedHoursLeftToday(weights: number[], hour: number, hourElapsed: number): number {
+  let remaining = (1 - hourElapsed) * weights[hour];
+  for (let h = hour + 1; h < 24; h++) {
+    remaining += weights[h];
+  }
+  return remaining;
+}
+
+/**
+ * Spread what is left of the month's target over the weighted hours left
+ * in it. Every call starts from actual usage, so credits not spent earlier
+ * raise the allowance of every hour that follows, and overspending lowers
+ * it, until the target is met on the last day.
+ */
+export function computeBudgetWindow(
+  usage: CreditUsage,
+  weights: number[],
+  monthlyCredits: number,
+  targetUsage: number
+): BudgetWindow {
+  const spendable = Math.max(0, monthlyCredits * targetUsage - usage.usedThisMonth);
+  const leftToday = weightedHoursLeftToday(weights, usage.hour, usage.hourElapsed);
+  const weightedHoursLeft = leftToday + usage.daysAfterToday * 24;
+  const perWeightedHour = weightedHoursLeft > 0 ? spendable / weightedHoursLeft : 0;
+
+  return {
+    monthlyCredits,
+    spendable,
+    usedThisMonth: usage.usedThisMonth,
+    usedToday: usage.usedToday,
+    hourWeight: weights[usage.hour],
+    weightedHoursLeft,
+    hourlyAllowance: perWeightedHour * weights[usage.hour],
+    todayAllowance: perWeightedHour * leftToday
+  };
+}
@@ -0,0 +1,110 @@
+import { AnalysisCandidate, CreditBudgetConfig, RankedCandidate } from './types';
+
+const MAX_TECHNICAL_SCORE = 333;
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Holder analysis matters most between 10% and 50% of the bonding curve,
+ * the same bands get_tokens_for_holder_analysis prioritizes
+ */
+export function progressFit(progress: number): number {
+  if (progress >= 10 && progress <= 50) return 1;
+  if ((progress >= 5 && progress < 10) || (progress > 50 && progress <= 70)) return 0.6;
+  return 0.3;
+}
+
+/**
+ * What an up to date analysis of the token is worth, from its technical
+ * score, bonding curve progress and trading in the last hour
+ */
+export function candidateValue(candidate: AnalysisCandidate, config: CreditBudgetConfig): number {
+  const { weights } = config;
+  const technical = candidate.technicalScore !== null
+    ? clamp01(candidate.technicalScore / MAX_TECHNICAL_SCORE)
+    : 0;
+  const volume = clamp01(Math.log10(1 + candidate.volumeSol1h) / Math.log10(1 + config.volumeSaturationSol));
+  const totalWeight = weights.technical + weights.progress + weights.volume;
+
+  return totalWeight > 0
+    ? (weights.technical * technical + weights.progress * progressFit(candidate.bondingCurveProgress) + weights.volume * volume) / totalWeight
+    : 0;
+}
+
+/**
+ * Share of the token's value a new analysis would add. A token never
+ * analyzed has everything to add; otherwise the last analysis goes stale
+ * with time and with trading since, whichever is further along.
+ */
+export function freshness(candidate: AnalysisCandidate, config: CreditBudgetConfig, now: number = Date.now()): number {
+  if (!candidate.lastAnalyzedAt) return 1;
+
+  const minutesSince = (now - candidate.lastAnalyzedAt.getTime()) / 60000;
+  if (minutesSince < config.minReanalysisMinutes) return 0;
+
+  const byTime = 1 - Math.exp(-minutesSince / 60 / config.stalenessHours);
+  const byTrades = candidate.tradesSinceAnalysis / (candidate.tradesSinceAnalysis + config.refreshTrades);
+  return Math.max(byTime, byTrades);
+}
+
+/**
+ * Candidates by expected gain per credit, best first. `boosts` maps a mint
+ * to a priority (0-100) from outside the planner, e.g. a large trade, that
+ * raises its gain by up to 2x.
+ */
+export function rankCandidates(
+  candidates: AnalysisCandidate[],
+  config: CreditBudgetConfig,
+  boosts: Map<string, number> = new Map(),
+  now: number = Date.now()
+): RankedCandidate[] {
+  return candidates
+    .map(candidate => {
+      const value = candidateValue(candidate, config);
+      const fresh = freshness(candidate, config, now);
+      const boost = 1 + clamp01((boosts.get(candidate.mintAddress) || 0) / 100);
+      const expectedGain = value * fresh * boost;
+
+      return {
+        ...candidate,
+        value,
+        freshness: fresh,
+        boost,
+        expectedGain,
+        gainPerCredit: expectedGain / Math.max(1, candidate.estimatedCredits)
+      };
+    })
+    .filter(candidate => candidate.expectedGain > 0)
+    .sort((a, b) => b.gainPerCredit - a.gainPerCredit);
+}
+
+/**
+ * Take ranked candidates while they fit the budget. One that does not fit
+ * is passed over rather than ending the selection, so cheaper candidates
+ * further down can still use what is left.
+ */
+export function selectWithinBudget(
+  ranked: RankedCandidate[],
+  budget: number,
+  maxCount: number
+): { selected: RankedCandidate[]; plannedCredits: number; deferred: number } {
+  const selected: RankedCandidate[] = [];
+  let plannedCredits = 0;
+  let deferred = 0;
+
+  for (const candidate of ranked) {
+    if (selected.length >= maxCount) break;
+
+    if (plannedCredits + candidate.estimatedCredits > budget) {
+      deferred++;
+      continue;
+    }
+
+    selected.push(candidate);
+    plannedCredits += candidate.estimatedCredits;
+  }
+
+  return { selected, plannedCredits, deferred };
+}
@@ -0,0 +1,34 @@
+import { CreditBudgetConfig } from './types';
+
+export const defaultConfig: CreditBudgetConfig = {
+  monthlyCredits: 10_000_000,
+  targetUsage: 0.85,
+  activityBlend: 0.5,
+  activityLookbackDays: 7,
+  startupMinutes: 5,
+  maxBankMinutes: 60,
+  maxAnalysesPerCycle: 10,
+  maxCandidates: 200,
+  minProgress: 5,
+  maxProgress: 70,
+  defaultHolders: 100,
+  defaultCacheHitRate: 0.7,
+  minReanalysisMinutes: 5,
+  stalenessHours: 1,
+  refreshTrades: 50,
+  volumeSaturationSol: 100,
+  weights: {
+    technical: 0.4,
+    progress: 0.3,
+    volume: 0.3
+  }
+};
+
+export function loadConfig(): CreditBudgetConfig {
+  return {
+    ...defaultConfig,
+    monthlyCredits: parseInt(process.env.HELIUS_MONTHLY_CREDITS || '') || defaultConfig.monthlyCredits,
+    targetUsage: parseFloat(process.env.CREDIT_BUDGET_TARGET_USAGE || '') || defaultConfig.targetUsage,
+    maxAnalysesPerCycle: parseInt(process.env.CREDIT_BUDGET_MAX_ANALYSES || '') || defaultConfig.maxAnalysesPerCycle
+  };
+}
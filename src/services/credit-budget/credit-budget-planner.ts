@@ -0,0 +1,312 @@
+import { Pool } from 'pg';
+import { getDbPool } from '../../database/connection';
+import { loadConfig as loadLedgerConfig } from '../holder-ledger/config';
+import { computeBudgetWindow, hourWeights } from './budget-math';
+import { rankCandidates, selectWithinBudget } from './candidate-ranker';
+import { loadConfig } from './config';
+import { AnalysisCandidate, AnalysisPlan, BudgetWindow, CreditBudgetConfig, CreditUsage } from './types';
+
+// Trading per hour of day barely moves within an hour
+const WEIGHTS_TTL_MS = 60 * 60 * 1000;
+
+function toCandidate(row: any): AnalysisCandidate {
+  return {
+    tokenId: row.token_id,
+    mintAddress: row.mint_address,
+    symbol: row.symbol,
+    bondingCurveProgress: parseFloat(row.bonding_curve_progress),
+    technicalScore: row.technical_score !== null ? parseFloat(row.technical_score) : null,
+    volumeSol1h: parseFloat(row.volume_sol) || 0,
+    trades1h: parseInt(row.trades) || 0,
+    lastAnalyzedAt: row.last_analyzed_at ? new Date(row.last_analyzed_at) : null,
+    tradesSinceAnalysis: parseInt(row.trades_since) || 0,
+    holders: row.holders,
+    ledgerTrusted: row.ledger_trusted,
+    estimatedCredits: Math.max(0, parseInt(row.estimated_credits) || 0)
+  };
+}
+
+/**
+ * Schedules holder analysis against the Helius plan. The credits left this
+ * month are spread over the hours left in it, weighted by when tokens
+ * trade; each cycle spends what has accrued since the last one on the
+ * candidates with the most expected gain per credit.
+ */
+export class CreditBudgetPlanner {
+  private pool: Pool;
+  private config: CreditBudgetConfig;
+  private bank = 0;
+  private lastAccrual: number | null = null;
+  private weights: number[] | null = null;
+  private weightsLoadedAt = 0;
+
+  constructor(config: Partial<CreditBudgetConfig> = {}) {
+    this.pool = getDbPool();
+    this.config = { ...loadConfig(), ...config };
+  }
+
+  // ============ Budget ============
+
+  async getBudget(): Promise<BudgetWindow> {
+    const [usage, weights] = await Promise.all([this.getUsage(), this.getHourWeights()]);
+    return computeBudgetWindow(usage, weights, this.config.monthlyCredits, this.config.targetUsage);
+  }
+
+  /**
+   * Credits used this month and today. Dates and hours follow the database
+   * clock, the same one helius_api_usage rows are dated by.
+   */
+  private async getUsage(): Promise<CreditUsage> {
+    const result = await this.pool.query(
+      `SELECT
+         COALESCE(SUM(credits_used), 0) AS used_this_month,
+         COALESCE(SUM(credits_used) FILTER (WHERE date = CURRENT_DATE), 0) AS used_today,
+         EXTRACT(HOUR FROM LOCALTIME) AS hour,
+         EXTRACT(MINUTE FROM LOCALTIME) * 60 + EXTRACT(SECOND FROM LOCALTIME) AS seconds_into_hour,
+         (DATE_TRUNC('month', CURRENT_DATE) + INTERVAL '1 month')::date - CURRENT_DATE - 1 AS days_after_today
+       FROM helius_api_usage
+       WHERE date >= DATE_TRUNC('month', CURRENT_DATE)`
+    );
+
+    const row = result.rows[0];
+    return {
+      usedThisMonth: parseInt(row.used_this_month),
+      usedToday: parseInt(row.used_today),
+      hour: parseInt(row.hour),
+      hourElapsed: Math.min(1, parseFloat(row.seconds_into_hour) / 3600),
+      daysAfterToday: parseInt(row.days_after_today)
+    };
+  }
+
+  private async getHourWeights(): Promise<number[]> {
+    if (this.weights && Date.now() - this.weightsLoadedAt < WEIGHTS_TTL_MS) {
+      return this.weights;
+    }
+
+    const result = await this.pool.query(
+      `SELECT EXTRACT(HOUR FROM bucket) AS hour, SUM(trade_count) AS trades
+       FROM price_candles_1m_cagg
+       WHERE bucket > NOW() - make_interval(days => $1)
+       GROUP BY 1`,
+      [this.config.activityLookbackDays]
+    );
+
+    const tradesByHour = new Map<number, number>(
+      result.rows.map((row: any) => [parseInt(row.hour), parseInt(row.trades)])
+    );
+    this.weights = hourWeights(tradesByHour, this.config.activityBlend);
+    this.weightsLoadedAt = Date.now();
+    return this.weights;
+  }
+
+  /**
+   * Add the allowance for the time since the last cycle. What is not spent
+   * stays in the bank so an expensive token can be afforded a few cycles
+   * later, up to `maxBankMinutes` of allowance and never more than is
+   * left for today.
+   */
+  private accrue(budget: BudgetWindow): void {
+    const now = Date.now();
+    const minutes = this.lastAccrual !== null
+      ? (now - this.lastAccrual) / 60000
+      : this.config.startupMinutes;
+    this.lastAccrual = now;
+
+    const perMinute = budget.hourlyAllowance / 60;
+    const cap = Math.min(perMinute * this.config.maxBankMinutes, budget.todayAllowance);
+    this.bank = Math.min(this.bank + perMinute * minutes, cap);
+  }
+
+  // ============ Candidates ============
+
+  /**
+   * Tokens on the curve that traded in the last hour, plus any boosted
+   * mints on the curve outside the top by volume, with the credits an
+   * analysis would cost according to estimate_analysis_credits. Holder
+   * fetching is free for mints the ledger is trusted for.
+   */
+  async getCandidates(boostedMints: string[] = []): Promise<AnalysisCandidate[]> {
+    const cacheHitRate = await this.getCacheHitRate();
+    const useLedger = process.env.HOLDER_LEDGER_ENABLED !== 'false';
+
+    const result = await this.pool.query(
+      `WITH volume AS (
+         SELECT c.token_id, SUM(c.volume_sol) AS volume_sol, SUM(c.trade_count) AS trades
+         FROM price_candles_1m_cagg c
+         JOIN pools p ON p.token_id = c.token_id
+         WHERE c.bucket > NOW() - INTERVAL '1 hour'
+           AND p.status = 'active'
+           AND p.bonding_curve_progress BETWEEN $1 AND $2
+         GROUP BY c.token_id
+       ),
+       active AS (
+         (SELECT * FROM volume ORDER BY volume_sol DESC LIMIT $3)
+         UNION
+         SELECT t.id, COALESCE(v.volume_sol, 0), COALESCE(v.trades, 0)
+         FROM tokens t
+         JOIN pools p ON p.token_id = t.id
+         LEFT JOIN volume v ON v.token_id = t.id
+         WHERE t.mint_address = ANY($8::text[])
+           AND p.status = 'active'
+           AND p.bonding_curve_progress BETWEEN $1 AND $2
+       ),
+       candidates AS (
+         SELECT
+           t.id AS token_id,
+           t.mint_address,
+           t.symbol,
+           p.bonding_curve_progress,
+           a.volume_sol,
+           a.trades,
+           ts.total_score AS technical_score,
+           snap.snapshot_time AS last_analyzed_at,
+           (
+             SELECT SUM(c.trade_count) FROM price_candles_1m_cagg c
+             WHERE c.token_id = t.id
+               AND c.bucket >= GREATEST(snap.snapshot_time, NOW() - INTERVAL '1 day')
+           ) AS trades_since,
+           COALESCE(snap.unique_holders, ls.holder_count, $6) AS holders,
+           $7::boolean AND COALESCE(ls.trusted, false)
+             AND COALESCE(ls.last_reconciled_at > NOW() - make_interval(mins => $4), false) AS ledger_trusted
+         FROM active a
+         JOIN tokens t ON t.id = a.token_id
+         JOIN pools p ON p.token_id = t.id
+         LEFT JOIN holder_ledger_state ls ON ls.token_id = t.id
+         LEFT JOIN LATERAL (
+           SELECT total_score FROM technical_scores
+           WHERE token_id = t.id
+           ORDER BY calculated_at DESC
+           LIMIT 1
+         ) ts ON true
+         LEFT JOIN LATERAL (
+           SELECT snapshot_time, unique_holders FROM holder_snapshots_v2
+           WHERE token_id = t.id
+           ORDER BY snapshot_time DESC
+           LIMIT 1
+         ) snap ON true
+       )
+       SELECT *,
+         estimate_analysis_credits(holders, $5)
+           - CASE WHEN ledger_trusted THEN CEIL(holders::DECIMAL / 1000)::INT ELSE 0 END AS estimated_credits
+       FROM candidates`,
+      [
+        this.config.minProgress,
+        this.config.maxProgress,
+        this.config.maxCandidates,
+        loadLedgerConfig().reconcileMinutes,
+        cacheHitRate,
+        this.config.defaultHolders,
+        useLedger,
+        boostedMints
+      ]
+    );
+
+    return result.rows.map(toCandidate);
+  }
+
+  /**
+   * Wallet cache hit rate of recent analyses, which decides how many
+   * holders need enriching
+   */
+  private async getCacheHitRate(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT AVG(cache_hit_rate) AS rate
+       FROM holder_snapshots_v2
+       WHERE snapshot_time > NOW() - INTERVAL '24 hours'
+         AND cache_hit_rate IS NOT NULL`
+    );
+    const rate = parseFloat(result.rows[0]?.rate);
+    return isNaN(rate) ? this.config.defaultCacheHitRate : rate;
+  }
+
+  // ============ Planning ============
+
+  /**
+   * Pick this cycle's analyses. `boosts` raises the gain of mints flagged
+   * elsewhere (priority 0-100). The planned credits leave the bank right
+   * away; settle() corrects it once the real cost is known. A dry run
+   * plans against `bank` (default: the current bank), leaves the planner's
+   * bank alone and records nothing.
+   */
+  async plan(
+    boosts: Map<string, number> = new Map(),
+    options: { dryRun?: boolean; bank?: number } = {}
+  ): Promise<AnalysisPlan> {
+    const [budget, candidates] = await Promise.all([this.getBudget(), this.getCandidates(Array.from(boosts.keys()))]);
+
+    if (!options.dryRun) {
+      this.accrue(budget);
+    }
+    const bank = options.dryRun ? (options.bank ?? this.bank) : this.bank;
+
+    const ranked = rankCandidates(candidates, this.config, boosts);
+    const { selected, plannedCredits, deferred } = selectWithinBudget(ranked, bank, this.config.maxAnalysesPerCycle);
+
+    const plan: AnalysisPlan = {
+      cycleId: null,
+      budget,
+      bank,
+      candidates: candidates.length,
+      ranked,
+      selected,
+      plannedCredits,
+      deferred
+    };
+
+    if (!options.dryRun) {
+      this.bank -= plannedCredits;
+      plan.cycleId = await this.recordCycle(plan);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Credit back what a cycle's analyses cost less than planned, or take
+   * what they went over out of the next cycles
+   */
+  async settle(plan: AnalysisPlan, spentCredits: number): Promise<void> {
+    this.bank += plan.plannedCredits - spentCredits;
+    if (plan.cycleId === null) return;
+
+    try {
+      await this.pool.query(
+        'UPDATE credit_budget_cycles SET spent_credits = $2 WHERE id = $1',
+        [plan.cycleId, spentCredits]
+      );
+    } catch (error) {
+      console.error('Error recording credit budget spend:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async recordCycle(plan: AnalysisPlan): Promise<number | null> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO credit_budget_cycles (
+           spendable, used_this_month, used_today, hourly_allowance, today_allowance,
+           bank, candidates, selected, planned_credits, selected_mints
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING id`,
+        [
+          Math.round(plan.budget.spendable),
+          plan.budget.usedThisMonth,
+          plan.budget.usedToday,
+          plan.budget.hourlyAllowance,
+          plan.budget.todayAllowance,
+          plan.bank,
+          plan.candidates,
+          plan.selected.length,
+          plan.plannedCredits,
+          plan.selected.map(c => c.mintAddress)
+        ]
+      );
+      return parseInt(result.rows[0].id);
+    } catch (error) {
+      console.error('Error recording credit budget cycle:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const creditBudgetPlanner = new CreditBudgetPlanner();
@@ -0,0 +1,7 @@
+// Credit Budget - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { CreditBudgetPlanner, creditBudgetPlanner } from './credit-budget-planner';
+export { computeBudgetWindow, hourWeights, weightedHoursLeftToday } from './budget-math';
+export { candidateValue, freshness, progressFit, rankCandidates, selectWithinBudget } from './candidate-ranker';
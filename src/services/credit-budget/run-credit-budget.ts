@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { creditBudgetPlanner } from './credit-budget-planner';
+
+/**
+ * Print the current credit budget and how the planner ranks holder
+ * analysis candidates. Nothing is recorded or analyzed.
+ *
+ * Usage:
+ *   npm run credit-budget
+ *   npm run credit-budget -- --limit 50           # show up to 50 ranked candidates
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function credits(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const limit = parseInt(getOption(args, '--limit') || '') || 20;
+
+  // Plan against a full hour of allowance to show what the hour would buy
+  const budget = await creditBudgetPlanner.getBudget();
+  const plan = await creditBudgetPlanner.plan(new Map(), { dryRun: true, bank: budget.hourlyAllowance });
+
+  console.log('💳 Credit budget');
+  console.log(`  Used this month:  ${credits(budget.usedThisMonth)} / ${credits(budget.monthlyCredits)}`);
+  console.log(`  Used today:       ${credits(budget.usedToday)}`);
+  console.log(`  Spendable:        ${credits(budget.spendable)} over ${budget.weightedHoursLeft.toFixed(1)} weighted hours`);
+  console.log(`  Left for today:   ${credits(budget.todayAllowance)}`);
+  console.log(`  This hour:        ${credits(budget.hourlyAllowance)} (weight ${budget.hourWeight.toFixed(2)})`);
+
+  console.log(
+    `\n📋 ${plan.ranked.length} of ${plan.candidates} candidates worth analyzing, ` +
+    `${plan.selected.length} fit this hour for ${credits(plan.plannedCredits)} credits`
+  );
+
+  const selected = new Set(plan.selected.map(c => c.mintAddress));
+  for (const c of plan.ranked.slice(0, limit)) {
+    console.log(
+      `  ${selected.has(c.mintAddress) ? '✅' : '  '} ${(c.symbol || c.mintAddress.slice(0, 8)).padEnd(12)} ` +
+      `gain ${c.expectedGain.toFixed(3)}  ~${c.estimatedCredits} credits  ` +
+      `(value ${c.value.toFixed(2)}, fresh ${c.freshness.toFixed(2)}, ${c.bondingCurveProgress.toFixed(1)}%` +
+      `${c.ledgerTrusted ? ', ledger' : ''})`
+    );
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,87 @@
+/**
+ * Helius credits used so far, read from helius_api_usage, and where the
+ * database clock is within the day and month
+ */
+export interface CreditUsage {
+  usedThisMonth: number;
+  usedToday: number;
+  hour: number;                 // 0-23
+  hourElapsed: number;          // 0-1, share of the current hour already gone
+  daysAfterToday: number;       // whole days left in the month after today
+}
+
+/**
+ * How many credits may be spent, now and for the rest of today
+ */
+export interface BudgetWindow {
+  monthlyCredits: number;
+  spendable: number;            // left this month under the target usage
+  usedThisMonth: number;
+  usedToday: number;
+  hourWeight: number;           // share of a day's allowance per hour now, 1 = flat
+  weightedHoursLeft: number;    // rest of the month in weighted hours
+  hourlyAllowance: number;      // credits per hour at the current weight
+  todayAllowance: number;       // credits left for the rest of today
+}
+
+/**
+ * A token that could be analyzed this cycle, with what the analysis is
+ * expected to cost
+ */
+export interface AnalysisCandidate {
+  tokenId: string;
+  mintAddress: string;
+  symbol: string | null;
+  bondingCurveProgress: number;
+  technicalScore: number | null;
+  volumeSol1h: number;
+  trades1h: number;
+  lastAnalyzedAt: Date | null;
+  tradesSinceAnalysis: number;
+  holders: number;              // last known holder count, or the configured default
+  ledgerTrusted: boolean;       // holders come from the ledger for free
+  estimatedCredits: number;
+}
+
+export interface RankedCandidate extends AnalysisCandidate {
+  value: number;                // 0-1, how much an analysis of the token is worth
+  freshness: number;            // 0-1, how much of that value is not already known
+  boost: number;                // multiplier from an external priority, 1 = none
+  expectedGain: number;
+  gainPerCredit: number;
+}
+
+export interface AnalysisPlan {
+  cycleId: number | null;
+  budget: BudgetWindow;
+  bank: number;                 // allowance available to this cycle
+  candidates: number;
+  ranked: RankedCandidate[];    // every candidate worth analyzing, best first
+  selected: RankedCandidate[];
+  plannedCredits: number;
+  deferred: number;             // worth analyzing but over this cycle's allowance
+}
+
+export interface CreditBudgetConfig {
+  monthlyCredits: number;
+  targetUsage: number;          // share of the monthly credits the planner aims to spend
+  activityBlend: number;        // 0 = spread evenly over the day, 1 = follow trades per hour
+  activityLookbackDays: number;
+  startupMinutes: number;       // allowance granted to the first cycle after start
+  maxBankMinutes: number;       // unspent allowance kept, in minutes of allowance
+  maxAnalysesPerCycle: number;
+  maxCandidates: number;
+  minProgress: number;
+  maxProgress: number;
+  defaultHolders: number;       // assumed for tokens never analyzed
+  defaultCacheHitRate: number;
+  minReanalysisMinutes: number;
+  stalenessHours: number;       // time for ~63% of a token's value to be worth re-analyzing
+  refreshTrades: number;        // trades since the last analysis that make half of it stale
+  volumeSaturationSol: number;  // hourly volume that earns the full volume value
+  weights: {
+    technical: number;
+    progress: number;
+    volume: number;
+  };
+}
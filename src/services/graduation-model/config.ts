@@ -0,0 +1,66 @@
+import fs from 'fs';
+import { MlModelAlgorithm } from '../../database/types';
+import { GraduationModelConfig, GraduationModelConfigFile } from './types';
+
+export const defaultConfig: Omit<GraduationModelConfig, 'from' | 'to'> = {
+  name: process.env.GRADUATION_MODEL_NAME || 'graduation',
+  algorithm: 'gbdt',
+  maxTokens: 1000,
+  sampleEveryMinutes: 15,
+  maxSamplesPerToken: 24,
+  activeWithinMinutes: 30,
+  labelHorizonHours: 24,
+  testFraction: 0.2,
+  threshold: 0.5,
+  fallbackSolUsd: 200,
+  logistic: {
+    epochs: 500,
+    learningRate: 0.1,
+    l2: 0.001
+  },
+  gbdt: {
+    trees: 150,
+    maxDepth: 3,
+    learningRate: 0.1,
+    l2: 1,
+    minSamplesLeaf: 20,
+    bins: 32
+  }
+};
+
+/**
+ * Build a training config from an optional JSON file; the date range is
+ * required either in the file or as arguments
+ */
+export function loadConfig(
+  configPath: string | undefined,
+  overrides: { name?: string; algorithm?: MlModelAlgorithm; from?: Date; to?: Date; maxTokens?: number } = {}
+): GraduationModelConfig {
+  const file: GraduationModelConfigFile = configPath ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {};
+
+  const from = overrides.from || (file.from ? new Date(file.from) : undefined);
+  const to = overrides.to || (file.to ? new Date(file.to) : undefined);
+  if (!from || !to || isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new Error('Training needs a valid --from and --to range');
+  }
+  if (from >= to) {
+    throw new Error('--from must be before --to');
+  }
+
+  const algorithm = overrides.algorithm || file.algorithm || defaultConfig.algorithm;
+  if (algorithm !== 'logistic' && algorithm !== 'gbdt') {
+    throw new Error(`Unknown algorithm "${algorithm}", expected logistic or gbdt`);
+  }
+
+  return {
+    ...defaultConfig,
+    ...file,
+    name: overrides.name || file.name || defaultConfig.name,
+    algorithm,
+    from,
+    to,
+    maxTokens: overrides.maxTokens || file.maxTokens || defaultConfig.maxTokens,
+    logistic: { ...defaultConfig.logistic, ...file.logistic },
+    gbdt: { ...defaultConfig.gbdt, ...file.gbdt }
+  };
+}
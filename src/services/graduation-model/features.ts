@@ -0,0 +1,116 @@
+import { priceAt, pumpfunCurveState, tradesBetween } from '../backtesting/point-in-time-scorer';
+import { FeatureInput } from './types';
+
+const MINUTE = 60_000;
+
+// Bump when features are added, removed or reordered; models only score
+// vectors built with the version they were trained on
+export const FEATURE_VERSION = 2;
+
+export const FEATURE_NAMES = [
+  'age_minutes_log',
+  'progress',
+  'progress_velocity_per_hour',
+  'technical_score',
+  'market_cap_score',
+  'bonding_curve_score',
+  'trading_health_score',
+  'selloff_response_score',
+  'buy_sell_ratio_log',
+  'selloff_active',
+  'trades_15m_log',
+  'trades_60m_log',
+  'buy_volume_60m_log',
+  'sell_volume_60m_log',
+  'net_flow_60m_sol',
+  'unique_traders_60m_log',
+  'buyer_share_60m',
+  'largest_buy_share_60m',
+  'price_change_15m_pct',
+  'price_change_60m_pct',
+  'has_holder_snapshot',
+  'unique_holders_log',
+  'gini_coefficient',
+  'top_10_percent',
+  'bot_ratio',
+  'smart_money_ratio',
+  'creator_prior_launches_log',
+  'creator_graduation_rate',
+  'creator_rug_rate'
+];
+
+function priceChangePct(input: FeatureInput, price: number, minutes: number): number {
+  const earlier = priceAt(input.trades, input.at - minutes * MINUTE);
+  return earlier && earlier > 0 ? (price / earlier - 1) * 100 : 0;
+}
+
+/**
+ * Build the feature vector for a pump.fun token at `input.at`, in
+ * FEATURE_NAMES order, or null when it had not traded yet. Progress comes
+ * from the last traded price on the bonding curve, as in the backtester.
+ */
+export function extractFeatures(input: FeatureInput): number[] | null {
+  const price = priceAt(input.trades, input.at);
+  if (price === null || price <= 0) return null;
+
+  const progress = pumpfunCurveState(price).progress;
+  const velocitySince = Math.max(input.at - 30 * MINUTE, input.createdAt);
+  const velocityHours = (input.at - velocitySince) / 3_600_000;
+  const earlierPrice = priceAt(input.trades, velocitySince);
+  const earlierProgress = earlierPrice ? pumpfunCurveState(earlierPrice).progress : 0;
+  const velocity = velocityHours > 0 ? (progress - earlierProgress) / velocityHours : 0;
+
+  const lastHour = tradesBetween(input.trades, input.at - 60 * MINUTE, input.at);
+  const last15 = tradesBetween(input.trades, input.at - 15 * MINUTE, input.at);
+
+  let buyVolume = 0;
+  let sellVolume = 0;
+  let largestBuy = 0;
+  const traders = new Set<string>();
+  const buyers = new Set<string>();
+  for (const trade of lastHour) {
+    traders.add(trade.user);
+    if (trade.type === 'buy') {
+      buyVolume += trade.solAmount;
+      largestBuy = Math.max(largestBuy, trade.solAmount);
+      buyers.add(trade.user);
+    } else {
+      sellVolume += trade.solAmount;
+    }
+  }
+
+  const { technical, holders, creator } = input;
+  const ageMinutes = Math.max(0, (input.at - input.createdAt) / MINUTE);
+
+  return [
+    Math.log1p(ageMinutes),
+    progress,
+    velocity,
+    technical.totalScore,
+    technical.marketCapScore,
+    technical.bondingCurveScore,
+    technical.tradingHealthScore,
+    technical.selloffResponseScore,
+    Math.log(Math.min(Math.max(technical.buySellRatio ?? 1, 0.01), 100)),
+    technical.isSelloffActive ? 1 : 0,
+    Math.log1p(last15.length),
+    Math.log1p(lastHour.length),
+    Math.log1p(buyVolume),
+    Math.log1p(sellVolume),
+    buyVolume - sellVolume,
+    Math.log1p(traders.size),
+    traders.size > 0 ? buyers.size / traders.size : 0,
+    buyVolume > 0 ? largestBuy / buyVolume : 0,
+    priceChangePct(input, price, 15),
+    priceChangePct(input, price, 60),
+    holders ? 1 : 0,
+    holders ? Math.log1p(holders.uniqueHolders) : 0,
+    holders ? holders.giniCoefficient : 0,
+    holders ? holders.top10Percent : 0,
+    holders ? holders.botRatio : 0,
+    holders ? holders.smartMoneyRatio : 0,
+    Math.log1p(creator.priorLaunches),
+    creator.priorLaunches > 0 ? creator.priorGraduated / creator.priorLaunches : 0,
+    creator.priorLaunches > 0 ? creator.priorRugged / creator.priorLaunches : 0
+  ];
+}
@@ -0,0 +1,185 @@
+import { sigmoid } from './logistic';
+import { BoostedTreesHyperparameters, BoostedTreesParameters, TreeNode } from './types';
+
+/**
+ * Candidate thresholds per feature at evenly spaced quantiles
+ */
+function buildThresholds(features: number[][], bins: number): number[][] {
+  const dims = features[0].length;
+  const thresholds: number[][] = [];
+  for (let j = 0; j < dims; j++) {
+    const values = features.map(row => row[j]).sort((a, b) => a - b);
+    const cuts = new Set<number>();
+    for (let b = 1; b < bins; b++) {
+      cuts.add(values[Math.floor((b / bins) * (values.length - 1))]);
+    }
+    // The largest value would send everything left, so it is never a split
+    cuts.delete(values[values.length - 1]);
+    thresholds.push(Array.from(cuts).sort((a, b) => a - b));
+  }
+  return thresholds;
+}
+
+/**
+ * Bin index per sample and feature: the first threshold the value does not exceed
+ */
+function binFeatures(features: number[][], thresholds: number[][]): Uint8Array[] {
+  return features.map(row => {
+    const binned = new Uint8Array(row.length);
+    for (let j = 0; j < row.length; j++) {
+      const cuts = thresholds[j];
+      let bin = 0;
+      while (bin < cuts.length && row[j] > cuts[bin]) bin++;
+      binned[j] = bin;
+    }
+    return binned;
+  });
+}
+
+interface TreeContext {
+  binned: Uint8Array[];
+  thresholds: number[][];
+  gradients: Float64Array;
+  hessians: Float64Array;
+  hyperparameters: BoostedTreesHyperparameters;
+  nodes: TreeNode[];
+}
+
+/**
+ * Grow one node and its subtree, returning the node's index. Splits
+ * maximize the second-order loss reduction used by XGBoost.
+ */
+function growNode(context: TreeContext, samples: number[], depth: number): number {
+  const { binned, thresholds, gradients, hessians, hyperparameters, nodes } = context;
+  const { l2, minSamplesLeaf } = hyperparameters;
+
+  let gradientSum = 0;
+  let hessianSum = 0;
+  for (const i of samples) {
+    gradientSum += gradients[i];
+    hessianSum += hessians[i];
+  }
+
+  const index = nodes.length;
+  nodes.push({ value: -gradientSum / (hessianSum + l2) });
+  if (depth >= hyperparameters.maxDepth || samples.length < 2 * minSamplesLeaf) {
+    return index;
+  }
+
+  const parentScore = (gradientSum * gradientSum) / (hessianSum + l2);
+  let best = { gain: 1e-9, feature: -1, bin: -1 };
+
+  for (let j = 0; j < thresholds.length; j++) {
+    const bins = thresholds[j].length + 1;
+    const binGradients = new Float64Array(bins);
+    const binHessians = new Float64Array(bins);
+    const binCounts = new Int32Array(bins);
+    for (const i of samples) {
+      const bin = binned[i][j];
+      binGradients[bin] += gradients[i];
+      binHessians[bin] += hessians[i];
+      binCounts[bin]++;
+    }
+
+    let leftGradient = 0;
+    let leftHessian = 0;
+    let leftCount = 0;
+    for (let bin = 0; bin < bins - 1; bin++) {
+      leftGradient += binGradients[bin];
+      leftHessian += binHessians[bin];
+      leftCount += binCounts[bin];
+      const rightCount = samples.length - leftCount;
+      if (leftCount < minSamplesLeaf) continue;
+      if (rightCount < minSamplesLeaf) break;
+
+      const rightGradient = gradientSum - leftGradient;
+      const rightHessian = hessianSum - leftHessian;
+      const gain = (leftGradient * leftGradient) / (leftHessian + l2)
+        + (rightGradient * rightGradient) / (rightHessian + l2)
+        - parentScore;
+      if (gain > best.gain) {
+        best = { gain, feature: j, bin };
+      }
+    }
+  }
+
+  if (best.feature < 0) return index;
+
+  const left: number[] = [];
+  const right: number[] = [];
+  for (const i of samples) {
+    (binned[i][best.feature] <= best.bin ? left : right).push(i);
+  }
+
+  const leftIndex = growNode(context, left, depth + 1);
+  const rightIndex = growNode(context, right, depth + 1);
+  nodes[index] = {
+    feature: best.feature,
+    threshold: thresholds[best.feature][best.bin],
+    left: leftIndex,
+    right: rightIndex
+  };
+  return index;
+}
+
+function treeValue(nodes: TreeNode[], features: number[]): number {
+  let node = nodes[0];
+  while (!('value' in node)) {
+    node = nodes[features[node.feature] <= node.threshold ? node.left : node.right];
+  }
+  return node.value;
+}
+
+/**
+ * Gradient-boosted regression trees on log loss. Features are bucketed
+ * into quantile bins once, so each split search is a histogram scan.
+ */
+export function trainBoostedTrees(
+  features: number[][],
+  labels: number[],
+  hyperparameters: BoostedTreesHyperparameters
+): BoostedTreesParameters {
+  const n = features.length;
+  if (n === 0) {
+    throw new Error('Cannot train on an empty sample set');
+  }
+
+  const thresholds = buildThresholds(features, Math.min(hyperparameters.bins, 255));
+  const binned = binFeatures(features, thresholds);
+
+  // Start from the log-odds of the base rate, clamped away from 0 and 1
+  const positiveRate = Math.min(Math.max(labels.reduce((sum, y) => sum + y, 0) / n, 1e-4), 1 - 1e-4);
+  const baseScore = Math.log(positiveRate / (1 - positiveRate));
+
+  const logits = new Float64Array(n).fill(baseScore);
+  const gradients = new Float64Array(n);
+  const hessians = new Float64Array(n);
+  const allSamples = Array.from({ length: n }, (_, i) => i);
+  const trees: TreeNode[][] = [];
+
+  for (let t = 0; t < hyperparameters.trees; t++) {
+    for (let i = 0; i < n; i++) {
+      const p = sigmoid(logits[i]);
+      gradients[i] = p - labels[i];
+      hessians[i] = Math.max(p * (1 - p), 1e-6);
+    }
+
+    const nodes: TreeNode[] = [];
+    growNode({ binned, thresholds, gradients, hessians, hyperparameters, nodes }, allSamples, 0);
+    trees.push(nodes);
+
+    for (let i = 0; i < n; i++) {
+      logits[i] += hyperparameters.learningRate * treeValue(nodes, features[i]);
+    }
+  }
+
+  return { baseScore, learningRate: hyperparameters.learningRate, trees };
+}
+
+export function predictBoostedTrees(parameters: BoostedTreesParameters, features: number[]): number {
+  let logit = parameters.baseScore;
+  for (const nodes of parameters.trees) {
+    logit += parameters.learningRate * treeValue(nodes, features);
+  }
+  return sigmoid(logit);
+}
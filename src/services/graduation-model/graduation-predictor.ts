@@ -0,0 +1,117 @@
+import { getDbPool } from '../../database/connection';
+import { mlModelOperations } from '../../database/operations/ml-model';
+import { MlModel } from '../../database/types';
+import { TechnicalScoreResult } from '../../scoring/technical-score-calculator';
+import { HistoricalTrade } from '../backtesting/types';
+import { creatorProfileService } from '../creator-profiles/creator-profile-service';
+import { defaultConfig } from './config';
+import { extractFeatures, FEATURE_VERSION } from './features';
+import { predictProbability } from './model';
+import { toHolderFeatures } from './training-data';
+import { GraduationPrediction } from './types';
+
+const MODEL_REFRESH_MS = 5 * 60_000;
+
+/**
+ * Scores live pump.fun tokens with the active registry model. The model is
+ * reloaded every few minutes so activating a new version needs no restart.
+ */
+export class GraduationPredictor {
+  private model: MlModel | null = null;
+  private loadedAt = 0;
+
+  constructor(private readonly modelName: string = defaultConfig.name) {}
+
+  private async getModel(): Promise<MlModel | null> {
+    if (Date.now() - this.loadedAt > MODEL_REFRESH_MS) {
+      const model = await mlModelOperations.getActiveModel(this.modelName);
+      if (model && model.feature_version !== FEATURE_VERSION) {
+        console.warn(`⚠️ Graduation model ${model.id} uses feature version ${model.feature_version}, expected ${FEATURE_VERSION}; retrain it`);
+        this.model = null;
+      } else {
+        this.model = model;
+      }
+      this.loadedAt = Date.now();
+    }
+    return this.model;
+  }
+
+  /**
+   * Graduation probability for a token given the technical score just
+   * calculated for it, or null without an active model or pump.fun trades
+   */
+  async predict(tokenId: string, poolId: string, technical: TechnicalScoreResult): Promise<GraduationPrediction | null> {
+    const model = await this.getModel();
+    if (!model) return null;
+
+    const pool = getDbPool();
+    const now = Date.now();
+
+    const token = await pool.query(
+      `SELECT t.creation_timestamp, t.created_at
+      FROM tokens t
+      JOIN pools p ON p.token_id = t.id
+      WHERE t.id = $1 AND p.id = $2 AND p.platform = 'pumpfun'`,
+      [tokenId, poolId]
+    );
+    if (token.rows.length === 0) return null;
+
+    // The last hour of trades plus the one before it, so price changes have a baseline
+    const trades = await pool.query(
+      `(SELECT block_time, type, sol_amount, token_amount, price_per_token, user_address
+        FROM transactions
+        WHERE pool_id = $1 AND type IN ('buy', 'sell') AND price_per_token > 0
+          AND block_time <= NOW() - INTERVAL '60 minutes'
+        ORDER BY block_time DESC
+        LIMIT 1)
+      UNION ALL
+      (SELECT block_time, type, sol_amount, token_amount, price_per_token, user_address
+        FROM transactions
+        WHERE pool_id = $1 AND type IN ('buy', 'sell') AND price_per_token > 0
+          AND block_time > NOW() - INTERVAL '60 minutes')
+      ORDER BY block_time`,
+      [poolId]
+    );
+
+    const holders = await pool.query(
+      `SELECT snapshot_time, unique_holders, gini_coefficient, top_10_percent, bot_ratio, smart_money_ratio
+      FROM holder_snapshots_v2
+      WHERE token_id = $1
+      ORDER BY snapshot_time DESC
+      LIMIT 1`,
+      [tokenId]
+    );
+
+    const creator = await creatorProfileService.getFeatures(tokenId, new Date(now));
+
+    const features = extractFeatures({
+      at: now,
+      createdAt: new Date(token.rows[0].creation_timestamp || token.rows[0].created_at).getTime(),
+      trades: trades.rows.map((row): HistoricalTrade => ({
+        time: new Date(row.block_time).getTime(),
+        type: row.type,
+        solAmount: parseFloat(row.sol_amount),
+        tokenAmount: parseFloat(row.token_amount),
+        price: parseFloat(row.price_per_token),
+        user: row.user_address
+      })),
+      technical: {
+        totalScore: technical.totalScore,
+        marketCapScore: technical.marketCapScore,
+        bondingCurveScore: technical.bondingCurveScore,
+        tradingHealthScore: technical.tradingHealthScore,
+        selloffResponseScore: technical.selloffResponseScore,
+        buySellRatio: technical.buySellRatio,
+        isSelloffActive: technical.isSelloffActive
+      },
+      holders: holders.rows.length > 0 ? toHolderFeatures(holders.rows[0]) : null,
+      creator
+    });
+    if (!features) return null;
+
+    return { probability: predictProbability(model, features), modelId: model.id! };
+  }
+}
+
+// Export singleton instance
+export const graduationPredictor = new GraduationPredictor();
@@ -0,0 +1,12 @@
+// Graduation Model - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { FEATURE_NAMES, FEATURE_VERSION, extractFeatures } from './features';
+export { loadTrainingSamples } from './training-data';
+export { trainLogistic, predictLogistic } from './logistic';
+export { trainBoostedTrees, predictBoostedTrees } from './gradient-boosting';
+export { rocAuc, evaluate } from './metrics';
+export { predictProbability } from './model';
+export { trainGraduationModel } from './trainer';
+export { GraduationPredictor, graduationPredictor } from './graduation-predictor';
@@ -0,0 +1,66 @@
+import { LogisticHyperparameters, LogisticParameters } from './types';
+
+export function sigmoid(logit: number): number {
+  return 1 / (1 + Math.exp(-logit));
+}
+
+/**
+ * L2-regularized logistic regression fitted by full-batch gradient descent
+ * on standardized features. Constant features get a unit scale so they
+ * contribute nothing rather than dividing by zero.
+ */
+export function trainLogistic(
+  features: number[][],
+  labels: number[],
+  hyperparameters: LogisticHyperparameters
+): LogisticParameters {
+  const n = features.length;
+  const dims = features[0]?.length ?? 0;
+  if (n === 0) {
+    throw new Error('Cannot train on an empty sample set');
+  }
+
+  const means = new Array(dims).fill(0);
+  const stds = new Array(dims).fill(0);
+  for (const row of features) {
+    for (let j = 0; j < dims; j++) means[j] += row[j] / n;
+  }
+  for (const row of features) {
+    for (let j = 0; j < dims; j++) stds[j] += (row[j] - means[j]) ** 2 / n;
+  }
+  for (let j = 0; j < dims; j++) {
+    stds[j] = Math.sqrt(stds[j]) || 1;
+  }
+
+  const scaled = features.map(row => row.map((value, j) => (value - means[j]) / stds[j]));
+  const weights = new Array(dims).fill(0);
+  let bias = 0;
+
+  for (let epoch = 0; epoch < hyperparameters.epochs; epoch++) {
+    const gradient = new Array(dims).fill(0);
+    let biasGradient = 0;
+
+    for (let i = 0; i < n; i++) {
+      let logit = bias;
+      for (let j = 0; j < dims; j++) logit += weights[j] * scaled[i][j];
+      const error = sigmoid(logit) - labels[i];
+      for (let j = 0; j < dims; j++) gradient[j] += error * scaled[i][j];
+      biasGradient += error;
+    }
+
+    for (let j = 0; j < dims; j++) {
+      weights[j] -= hyperparameters.learningRate * (gradient[j] / n + hyperparameters.l2 * weights[j]);
+    }
+    bias -= hyperparameters.learningRate * biasGradient / n;
+  }
+
+  return { means, stds, weights, bias };
+}
+
+export function predictLogistic(parameters: LogisticParameters, features: number[]): number {
+  let logit = parameters.bias;
+  for (let j = 0; j < parameters.weights.length; j++) {
+    logit += parameters.weights[j] * (features[j] - parameters.means[j]) / parameters.stds[j];
+  }
+  return sigmoid(logit);
+}
@@ -0,0 +1,62 @@
+import { ModelMetrics } from './types';
+
+const EPSILON = 1e-12;
+
+/**
+ * Area under the ROC curve from the rank-sum statistic, with tied
+ * predictions sharing their average rank; null without both classes
+ */
+export function rocAuc(predictions: number[], labels: number[]): number | null {
+  const order = predictions.map((p, i) => i).sort((a, b) => predictions[a] - predictions[b]);
+  const positives = labels.reduce((sum, y) => sum + y, 0);
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  let positiveRankSum = 0;
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && predictions[order[end + 1]] === predictions[order[start]]) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) {
+      if (labels[order[k]] === 1) positiveRankSum += averageRank;
+    }
+    start = end + 1;
+  }
+
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function evaluate(predictions: number[], labels: number[], threshold: number): ModelMetrics {
+  let logLoss = 0;
+  let brier = 0;
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let correct = 0;
+
+  for (let i = 0; i < predictions.length; i++) {
+    const p = Math.min(Math.max(predictions[i], EPSILON), 1 - EPSILON);
+    const y = labels[i];
+    logLoss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+    brier += (p - y) ** 2;
+
+    const predicted = p >= threshold ? 1 : 0;
+    if (predicted === y) correct++;
+    if (predicted === 1 && y === 1) truePositives++;
+    if (predicted === 1 && y === 0) falsePositives++;
+    if (predicted === 0 && y === 1) falseNegatives++;
+  }
+
+  const n = Math.max(predictions.length, 1);
+  return {
+    samples: predictions.length,
+    positives: labels.reduce((sum, y) => sum + y, 0),
+    auc: rocAuc(predictions, labels),
+    logLoss: logLoss / n,
+    brier: brier / n,
+    accuracy: correct / n,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : null,
+    recall: truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : null,
+    threshold
+  };
+}
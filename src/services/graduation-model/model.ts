@@ -0,0 +1,18 @@
+import { MlModel } from '../../database/types';
+import { predictBoostedTrees } from './gradient-boosting';
+import { predictLogistic } from './logistic';
+
+/**
+ * Probability of graduation from a registry entry and a feature vector
+ * built with the model's feature version
+ */
+export function predictProbability(model: Pick<MlModel, 'algorithm' | 'parameters'>, features: number[]): number {
+  switch (model.algorithm) {
+    case 'logistic':
+      return predictLogistic(model.parameters, features);
+    case 'gbdt':
+      return predictBoostedTrees(model.parameters, features);
+    default:
+      throw new Error(`Unknown model algorithm: ${model.algorithm}`);
+  }
+}
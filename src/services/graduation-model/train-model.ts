@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { mlModelOperations } from '../../database/operations/ml-model';
+import { MlModel, MlModelAlgorithm } from '../../database/types';
+import { loadConfig } from './config';
+import { FEATURE_NAMES } from './features';
+import { trainGraduationModel } from './trainer';
+import { ModelMetrics } from './types';
+
+/**
+ * Train a graduation-probability model offline and manage the model registry
+ *
+ * Usage:
+ *   npm run model:train -- --from 2025-08-01 --to 2025-08-15
+ *   npm run model:train -- --from 2025-08-01 --to 2025-08-15 --algorithm logistic --activate
+ *   npm run model:train -- --config models/deep-trees.json --no-save
+ *   npm run model:list                   # registered models
+ *   npm run model:list -- --activate 4   # switch the model used for inference
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatOptional(value: number | null | undefined, digits: number = 3): string {
+  return value === null || value === undefined ? 'n/a' : value.toFixed(digits);
+}
+
+function printMetrics(label: string, metrics: ModelMetrics) {
+  console.log(
+    `${label.padEnd(6)} | ${String(metrics.samples).padStart(7)} | ${String(metrics.positives).padStart(9)} | ` +
+    `${formatOptional(metrics.auc).padStart(5)} | ${metrics.logLoss.toFixed(4).padStart(8)} | ` +
+    `${metrics.brier.toFixed(4).padStart(6)} | ${(metrics.accuracy * 100).toFixed(1).padStart(7)}% | ` +
+    `${formatOptional(metrics.precision).padStart(9)} | ${formatOptional(metrics.recall).padStart(6)}`
+  );
+}
+
+function printModels(models: Omit<MlModel, 'parameters'>[]) {
+  console.log('\nID   | Name             | Ver | Algorithm | Trained             | Test AUC | Log loss | Active');
+  console.log('-----|------------------|-----|-----------|---------------------|----------|----------|-------');
+  for (const model of models) {
+    const test: ModelMetrics | undefined = model.metrics?.test;
+    console.log(
+      `${String(model.id).padEnd(4)} | ` +
+      `${model.name.slice(0, 16).padEnd(16)} | ` +
+      `${String(model.version).padStart(3)} | ` +
+      `${model.algorithm.padEnd(9)} | ` +
+      `${model.trained_at!.toISOString().slice(0, 19).replace('T', ' ')} | ` +
+      `${formatOptional(test?.auc).padStart(8)} | ` +
+      `${formatOptional(test?.logLoss, 4).padStart(8)} | ` +
+      `${model.is_active ? 'yes' : ''}`
+    );
+  }
+}
+
+/**
+ * Largest standardized logistic weights, as a rough feature importance
+ */
+function printTopWeights(model: MlModel) {
+  if (model.algorithm !== 'logistic') return;
+  const weights: number[] = model.parameters.weights;
+  const ranked = weights
+    .map((weight, index) => ({ name: FEATURE_NAMES[index], weight }))
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+    .slice(0, 10);
+
+  console.log('\nTop weights (standardized):');
+  for (const { name, weight } of ranked) {
+    console.log(`  ${name.padEnd(28)} ${weight >= 0 ? '+' : ''}${weight.toFixed(3)}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const modelName = getOption(args, '--name');
+
+  if (args.includes('--list')) {
+    const activateId = getOption(args, '--activate');
+    if (activateId) {
+      const model = await mlModelOperations.activateModel(parseInt(activateId));
+      console.log(`✅ Activated ${model.name} v${model.version} (#${model.id})`);
+    }
+    printModels(await mlModelOperations.getModels(modelName));
+    return;
+  }
+
+  const from = getOption(args, '--from');
+  const to = getOption(args, '--to');
+  const maxTokens = getOption(args, '--max-tokens');
+
+  const config = loadConfig(getOption(args, '--config'), {
+    name: modelName,
+    algorithm: getOption(args, '--algorithm') as MlModelAlgorithm | undefined,
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined,
+    maxTokens: maxTokens ? parseInt(maxTokens) : undefined
+  });
+
+  console.log(`🧠 Training ${config.algorithm} model "${config.name}" on ${config.from.toISOString()} → ${config.to.toISOString()}`);
+
+  const started = Date.now();
+  const { model, trainMetrics, testMetrics } = await trainGraduationModel(config, {
+    save: !args.includes('--no-save'),
+    activate: args.includes('--activate')
+  });
+
+  console.log(`\n📊 ${model.id ? `Model #${model.id} (${model.name} v${model.version})` : 'Model (not saved)'} ` +
+    `trained in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+  console.log('Set    | Samples | Positives |   AUC | Log loss |  Brier | Accuracy | Precision | Recall');
+  console.log('-------|---------|-----------|-------|----------|--------|----------|-----------|-------');
+  printMetrics('train', trainMetrics);
+  printMetrics('test', testMetrics);
+  printTopWeights(model);
+
+  if (model.is_active) {
+    console.log(`\n✅ Model #${model.id} is now active`);
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Model training failed:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,92 @@
+import { mlModelOperations } from '../../database/operations/ml-model';
+import { MlModel } from '../../database/types';
+import { FEATURE_NAMES, FEATURE_VERSION } from './features';
+import { trainBoostedTrees } from './gradient-boosting';
+import { trainLogistic } from './logistic';
+import { evaluate } from './metrics';
+import { predictProbability } from './model';
+import { loadTrainingSamples } from './training-data';
+import { GraduationModelConfig, ModelMetrics, TrainingSample } from './types';
+
+export interface TrainingResult {
+  model: MlModel;
+  trainMetrics: ModelMetrics;
+  testMetrics: ModelMetrics;
+}
+
+/**
+ * Hold out the newest tokens. Splitting by token rather than by sample
+ * keeps a token's later observations out of training when its earlier
+ * ones are tested, and the reverse.
+ */
+function splitByToken(samples: TrainingSample[], testFraction: number): { train: TrainingSample[]; test: TrainingSample[] } {
+  const tokens = Array.from(new Set(samples.map(sample => sample.tokenId)));
+  const testTokens = new Set(tokens.slice(Math.floor(tokens.length * (1 - testFraction))));
+  return {
+    train: samples.filter(sample => !testTokens.has(sample.tokenId)),
+    test: samples.filter(sample => testTokens.has(sample.tokenId))
+  };
+}
+
+/**
+ * Build samples for the range, fit the configured algorithm on the older
+ * tokens, evaluate on the newest ones and optionally register the model
+ */
+export async function trainGraduationModel(
+  config: GraduationModelConfig,
+  options: { save?: boolean; activate?: boolean } = {}
+): Promise<TrainingResult> {
+  const samples = await loadTrainingSamples(config);
+  const { train, test } = splitByToken(samples, config.testFraction);
+  if (train.length === 0 || test.length === 0) {
+    throw new Error(`Not enough samples to train and evaluate (${train.length} train, ${test.length} test)`);
+  }
+
+  const positives = train.filter(sample => sample.label === 1).length;
+  console.log(`📚 ${samples.length} samples from ${new Set(samples.map(s => s.tokenId)).size} tokens ` +
+    `(${train.length} train with ${positives} positive, ${test.length} test)`);
+
+  const features = train.map(sample => sample.features);
+  const labels = train.map(sample => sample.label);
+  const hyperparameters = config.algorithm === 'logistic' ? config.logistic : config.gbdt;
+  const parameters = config.algorithm === 'logistic'
+    ? trainLogistic(features, labels, config.logistic)
+    : trainBoostedTrees(features, labels, config.gbdt);
+
+  const score = (set: TrainingSample[]) => evaluate(
+    set.map(sample => predictProbability({ algorithm: config.algorithm, parameters }, sample.features)),
+    set.map(sample => sample.label),
+    config.threshold
+  );
+  const trainMetrics = score(train);
+  const testMetrics = score(test);
+
+  let model: MlModel = {
+    name: config.name,
+    algorithm: config.algorithm,
+    feature_version: FEATURE_VERSION,
+    feature_names: FEATURE_NAMES,
+    parameters,
+    hyperparameters: {
+      ...hyperparameters,
+      sampleEveryMinutes: config.sampleEveryMinutes,
+      maxSamplesPerToken: config.maxSamplesPerToken,
+      labelHorizonHours: config.labelHorizonHours
+    },
+    training_range_start: config.from,
+    training_range_end: config.to,
+    train_samples: train.length,
+    test_samples: test.length,
+    positive_rate: (positives / train.length) * 100,
+    metrics: { train: trainMetrics, test: testMetrics }
+  };
+
+  if (options.save !== false) {
+    model = await mlModelOperations.registerModel(model);
+    if (options.activate) {
+      model = await mlModelOperations.activateModel(model.id!);
+    }
+  }
+
+  return { model, trainMetrics, testMetrics };
+}
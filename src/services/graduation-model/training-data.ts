@@ -0,0 +1,197 @@
+import { getDbPool } from '../../database/connection';
+import { scoringConfigManager } from '../../scoring/scoring-config-manager';
+import { loadSolUsdPrices, loadTokenHistories } from '../backtesting/historical-data';
+import { PointInTimeScorer } from '../backtesting/point-in-time-scorer';
+import { TokenHistory } from '../backtesting/types';
+import { creatorFeaturesAt, creatorProfileService } from '../creator-profiles/creator-profile-service';
+import { extractFeatures } from './features';
+import { GraduationModelConfig, HolderFeatures, TechnicalFeatures, TrainingSample } from './types';
+
+const CHUNK_SIZE = 50;
+const MINUTE = 60_000;
+
+// A stored technical score this close to an observation is used as-is
+const STORED_SCORE_MAX_AGE_MS = 5 * MINUTE;
+
+interface TimedTechnical extends TechnicalFeatures {
+  time: number;
+}
+
+/**
+ * Index of the last element with time <= at, or -1
+ */
+function lastAtOrBefore<T extends { time: number }>(items: T[], at: number): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (items[mid].time <= at) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low - 1;
+}
+
+/**
+ * Stored technical_scores and holder_snapshots_v2 rows up to `to`, keyed by token
+ */
+async function loadStoredScores(
+  histories: TokenHistory[],
+  to: Date
+): Promise<{ technical: Map<string, TimedTechnical[]>; holders: Map<string, HolderFeatures[]> }> {
+  const pool = getDbPool();
+  const technical = new Map<string, TimedTechnical[]>();
+  const holders = new Map<string, HolderFeatures[]>();
+
+  for (let i = 0; i < histories.length; i += CHUNK_SIZE) {
+    const tokenIds = histories.slice(i, i + CHUNK_SIZE).map(history => history.tokenId);
+
+    const scores = await pool.query(
+      `SELECT token_id, calculated_at, total_score, market_cap_score, bonding_curve_score,
+        trading_health_score, selloff_response_score, buy_sell_ratio, is_selloff_active
+      FROM technical_scores
+      WHERE token_id = ANY($1::uuid[]) AND calculated_at <= $2
+      ORDER BY calculated_at`,
+      [tokenIds, to]
+    );
+    for (const row of scores.rows) {
+      if (!technical.has(row.token_id)) technical.set(row.token_id, []);
+      technical.get(row.token_id)!.push({
+        time: new Date(row.calculated_at).getTime(),
+        totalScore: parseFloat(row.total_score),
+        marketCapScore: parseFloat(row.market_cap_score),
+        bondingCurveScore: parseFloat(row.bonding_curve_score),
+        tradingHealthScore: parseFloat(row.trading_health_score),
+        selloffResponseScore: parseFloat(row.selloff_response_score),
+        buySellRatio: row.buy_sell_ratio === null ? null : parseFloat(row.buy_sell_ratio),
+        isSelloffActive: row.is_selloff_active === true
+      });
+    }
+
+    const snapshots = await pool.query(
+      `SELECT token_id, snapshot_time, unique_holders, gini_coefficient, top_10_percent,
+        bot_ratio, smart_money_ratio
+      FROM holder_snapshots_v2
+      WHERE token_id = ANY($1::uuid[]) AND snapshot_time <= $2
+      ORDER BY snapshot_time`,
+      [tokenIds, to]
+    );
+    for (const row of snapshots.rows) {
+      if (!holders.has(row.token_id)) holders.set(row.token_id, []);
+      holders.get(row.token_id)!.push(toHolderFeatures(row));
+    }
+  }
+
+  return { technical, holders };
+}
+
+export function toHolderFeatures(row: any): HolderFeatures {
+  return {
+    time: new Date(row.snapshot_time).getTime(),
+    uniqueHolders: Number(row.unique_holders) || 0,
+    giniCoefficient: parseFloat(row.gini_coefficient) || 0,
+    top10Percent: parseFloat(row.top_10_percent) || 0,
+    botRatio: parseFloat(row.bot_ratio) || 0,
+    smartMoneyRatio: parseFloat(row.smart_money_ratio) || 0
+  };
+}
+
+/**
+ * Observation times for a token: every sampleEveryMinutes while it is
+ * trading and not yet graduated, thinned evenly to maxSamplesPerToken
+ */
+function observationTimes(history: TokenHistory, config: GraduationModelConfig, labelCutoff: number): number[] {
+  const step = config.sampleEveryMinutes * MINUTE;
+  const end = Math.min(config.to.getTime(), labelCutoff, history.graduatedAt ?? Infinity);
+  const times: number[] = [];
+
+  for (let at = history.createdAt + step; at < end; at += step) {
+    const index = lastAtOrBefore(history.trades, at);
+    if (index >= 0 && history.trades[index].time > at - config.activeWithinMinutes * MINUTE) {
+      times.push(at);
+    }
+  }
+
+  if (times.length <= config.maxSamplesPerToken) return times;
+  const stride = times.length / config.maxSamplesPerToken;
+  return Array.from({ length: config.maxSamplesPerToken }, (_, k) => times[Math.floor(k * stride)]);
+}
+
+/**
+ * Point-in-time training samples for pump.fun tokens created in the range,
+ * in token creation order so the newest tokens can be held out. A sample
+ * is positive when the token graduated within labelHorizonHours of it;
+ * observations whose horizon has not fully elapsed are skipped.
+ */
+export async function loadTrainingSamples(config: GraduationModelConfig): Promise<TrainingSample[]> {
+  const histories = await loadTokenHistories(config.from, config.to, config.maxTokens);
+  const solPrices = await loadSolUsdPrices(config.from, config.to);
+  const stored = await loadStoredScores(histories, config.to);
+  const creatorLaunches = await creatorProfileService.loadCreatorHistories(histories.map(history => history.tokenId));
+  const scorer = new PointInTimeScorer(await scoringConfigManager.getConfig(true));
+
+  const horizon = config.labelHorizonHours * 3_600_000;
+  const labelCutoff = Date.now() - horizon;
+  const samples: TrainingSample[] = [];
+
+  for (const history of histories) {
+    const technicalRows = stored.technical.get(history.tokenId) || [];
+    const holderRows = stored.holders.get(history.tokenId) || [];
+    const launches = creatorLaunches.get(history.tokenId) || [];
+
+    for (const at of observationTimes(history, config, labelCutoff)) {
+      const technical = technicalAt(technicalRows, history, at, scorer, solPrices, config.fallbackSolUsd);
+      if (!technical) continue;
+
+      const holderIndex = lastAtOrBefore(holderRows, at);
+      const features = extractFeatures({
+        at,
+        createdAt: history.createdAt,
+        trades: history.trades,
+        technical,
+        holders: holderIndex >= 0 ? holderRows[holderIndex] : null,
+        creator: creatorFeaturesAt(launches, history.createdAt, at)
+      });
+      if (!features) continue;
+
+      const graduated = history.graduatedAt !== null && history.graduatedAt - at <= horizon;
+      samples.push({ tokenId: history.tokenId, at, features, label: graduated ? 1 : 0 });
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * The stored score nearest before `at`, or a recomputed one when
+ * technical_scores has nothing recent (rows are pruned after a day)
+ */
+function technicalAt(
+  rows: TimedTechnical[],
+  history: TokenHistory,
+  at: number,
+  scorer: PointInTimeScorer,
+  solPrices: Array<{ time: number; price: number }>,
+  fallbackSolUsd: number
+): TechnicalFeatures | null {
+  const index = lastAtOrBefore(rows, at);
+  if (index >= 0 && at - rows[index].time <= STORED_SCORE_MAX_AGE_MS) {
+    return rows[index];
+  }
+
+  const solIndex = lastAtOrBefore(solPrices, at);
+  const score = scorer.score(history, at, solIndex >= 0 ? solPrices[solIndex].price : fallbackSolUsd);
+  if (!score) return null;
+
+  return {
+    totalScore: score.technicalScore,
+    marketCapScore: score.marketCapScore,
+    bondingCurveScore: score.bondingCurveScore,
+    tradingHealthScore: score.tradingHealthScore,
+    selloffResponseScore: score.selloffResponseScore,
+    buySellRatio: score.buySellRatio,
+    isSelloffActive: score.isSelloffActive
+  };
+}
@@ -0,0 +1,128 @@
+import { MlModelAlgorithm } from '../../database/types';
+import { HistoricalTrade } from '../backtesting/types';
+import { CreatorFeatures } from '../creator-profiles/types';
+
+export interface LogisticHyperparameters {
+  epochs: number;
+  learningRate: number;
+  l2: number;
+}
+
+export interface BoostedTreesHyperparameters {
+  trees: number;
+  maxDepth: number;
+  learningRate: number;
+  l2: number;              // leaf weight regularization
+  minSamplesLeaf: number;
+  bins: number;            // candidate split points per feature
+}
+
+export interface GraduationModelConfig {
+  name: string;
+  algorithm: MlModelAlgorithm;
+  from: Date;
+  to: Date;
+  maxTokens: number;
+  sampleEveryMinutes: number;     // one observation per token per interval
+  maxSamplesPerToken: number;
+  activeWithinMinutes: number;    // observations are only taken while the token is trading
+  labelHorizonHours: number;      // positive when the token graduates within this long of the observation
+  testFraction: number;           // newest tokens held out for evaluation
+  threshold: number;              // decision threshold for accuracy, precision and recall
+  fallbackSolUsd: number;
+  logistic: LogisticHyperparameters;
+  gbdt: BoostedTreesHyperparameters;
+}
+
+export interface GraduationModelConfigFile {
+  name?: string;
+  algorithm?: MlModelAlgorithm;
+  from?: string;
+  to?: string;
+  maxTokens?: number;
+  sampleEveryMinutes?: number;
+  maxSamplesPerToken?: number;
+  activeWithinMinutes?: number;
+  labelHorizonHours?: number;
+  testFraction?: number;
+  threshold?: number;
+  fallbackSolUsd?: number;
+  logistic?: Partial<LogisticHyperparameters>;
+  gbdt?: Partial<BoostedTreesHyperparameters>;
+}
+
+// Technical score components, from a stored technical_scores row or recomputed
+export interface TechnicalFeatures {
+  totalScore: number;
+  marketCapScore: number;
+  bondingCurveScore: number;
+  tradingHealthScore: number;
+  selloffResponseScore: number;
+  buySellRatio: number | null;
+  isSelloffActive: boolean;
+}
+
+// The holder_snapshots_v2 columns the model uses
+export interface HolderFeatures {
+  time: number;
+  uniqueHolders: number;
+  giniCoefficient: number;
+  top10Percent: number;
+  botRatio: number;
+  smartMoneyRatio: number;
+}
+
+/**
+ * Everything known about a token at one moment. Trades must be sorted by
+ * time, end at `at` and cover at least the hour before it.
+ */
+export interface FeatureInput {
+  at: number;
+  createdAt: number;
+  trades: HistoricalTrade[];
+  technical: TechnicalFeatures;
+  holders: HolderFeatures | null;
+  creator: CreatorFeatures;
+}
+
+export interface TrainingSample {
+  tokenId: string;
+  at: number;
+  features: number[];
+  label: 0 | 1;
+}
+
+export interface LogisticParameters {
+  means: number[];
+  stds: number[];
+  weights: number[];
+  bias: number;
+}
+
+// Internal nodes split on feature <= threshold; leaves carry a logit contribution
+export type TreeNode =
+  | { feature: number; threshold: number; left: number; right: number }
+  | { value: number };
+
+export interface BoostedTreesParameters {
+  baseScore: number;
+  learningRate: number;
+  trees: TreeNode[][];
+}
+
+export interface ModelMetrics {
+  samples: number;
+  positives: number;
+  auc: number | null;
+  logLoss: number;
+  brier: number;
+  accuracy: number;
+  precision: number | null;
+  recall: number | null;
+  threshold: number;
+}
+
+export interface GraduationPrediction {
+  probability: number;
+  modelId: number;
+}
@@ -1,4 +1,5 @@
 import { getDbPool } from '../../database/connection';
+import { alertBus } from '../alerts/alert-bus';
 
 interface CreditUsage {
   endpoint: string;
@@ -138,6 +139,15 @@ export class CreditTracker {
     } else if (percentage >= 50) {
       console.log(`📊 API usage at ${percentage.toFixed(1)}% - On target`);
     }
+    
+    alertBus.publish({
+      type: 'credit_usage',
+      fields: {
+        percentageUsed: percentage,
+        currentMonthUsage: this.currentMonthUsage,
+        monthlyLimit: this.monthlyLimit
+      }
+    });
   }
   
   getProjectedMonthlyUsage(): number {
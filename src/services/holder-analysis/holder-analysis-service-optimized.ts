@@ -5,6 +5,8 @@ import { MetricsCalculator } from './metrics-calculator';
 import { PatternDetector } from './pattern-detector';
 import { CreditTracker } from './credit-tracker';
 import { RateLimiter } from './rate-limiter';
+import { launchAnalyzer } from '../launch-analysis/launch-analyzer';
+import { HeliusEndpoints, createHeliusClient, createHeliusConnection } from '../../config/helius';
 
 interface Holder {
   address: string;
@@ -344,6 +346,9 @@ class TieredHolderCache {
   }
 }
 
+/**
+ * @deprecated Use createHolderAnalysisPipeline('optimized') from ./pipeline
+ */
 export class OptimizedHolderAnalysisService {
   private helius: Helius;
   private connection: Connection;
@@ -367,14 +372,14 @@ export class OptimizedHolderAnalysisService {
     'Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr7XxXp9F1',
   ]);
 
-  constructor() {
+  constructor(endpoints: HeliusEndpoints = {}) {
     const apiKey = process.env.HELIUS_API_KEY;
     if (!apiKey) {
       throw new Error('HELIUS_API_KEY environment variable is required');
     }
 
-    this.helius = new Helius(apiKey);
-    this.connection = new Connection(`https://mainnet.helius-rpc.com/?api-key=${apiKey}`);
+    this.helius = createHeliusClient(apiKey, endpoints);
+    this.connection = createHeliusConnection(apiKey, endpoints);
     this.dbPool = getDbPool();
     this.cache = new TieredHolderCache(this.dbPool);
     this.creditTracker = CreditTracker.getInstance(10_000_000);
@@ -759,7 +764,8 @@ export class OptimizedHolderAnalysisService {
     const distribution = this.metricsCalculator.calculateDistributionMetrics(holders);
     const quality = this.metricsCalculator.calculateQualityMetrics(holders);
     const activity = this.metricsCalculator.calculateActivityMetrics(holders);
-    const risk = this.metricsCalculator.calculateRiskMetrics(holders, distribution);
+    const launch = await launchAnalyzer.getRiskSummary(mint);
+    const risk = this.metricsCalculator.calculateRiskMetrics(holders, distribution, launch);
 
     return {
       distribution,
@@ -929,8 +935,8 @@ export class OptimizedHolderAnalysisService {
           smart_money_count, smart_money_ratio, avg_wallet_age_days,
           active_holders_24h, new_holders_24h, velocity_score,
           organic_growth_score, overall_risk, api_credits_used,
-          cache_hit_rate, processing_time_ms
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+          cache_hit_rate, processing_time_ms, launch_snipe_risk
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
       `, [
         tokenId,
         metrics.distribution.uniqueHolders,
@@ -951,15 +957,16 @@ export class OptimizedHolderAnalysisService {
         metrics.risk.overall,
         creditsUsed,
         this.cache.getStats().hitRate,
-        0 // Will be updated by caller
+        0, // Will be updated by caller
+        metrics.risk.launchSnipeRisk
       ]);
 
       await this.dbPool.query(`
         INSERT INTO holder_scores_v2 (
           token_id, total_score, distribution_score, quality_score,
           activity_score, unique_holders, gini_coefficient,
-          bot_ratio, smart_money_ratio, overall_risk
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          bot_ratio, smart_money_ratio, overall_risk, launch_snipe_risk
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       `, [
         tokenId,
         score.total,
@@ -970,7 +977,8 @@ export class OptimizedHolderAnalysisService {
         metrics.distribution.giniCoefficient,
         metrics.quality.botRatio,
         metrics.quality.smartMoneyRatio,
-        metrics.risk.overall
+        metrics.risk.overall,
+        metrics.risk.launchSnipeRisk
       ]);
 
     } catch (error) {
@@ -4,6 +4,9 @@ import { getDbPool } from '../../database/connection';
 import { MetricsCalculator } from './metrics-calculator';
 import { PatternDetector } from './pattern-detector';
 import { ScoringConfigLoader, HolderScoringConfig, getEnvironmentOverrides } from '../../config/holder-scoring-config';
+import { alertBus } from '../alerts/alert-bus';
+import { launchAnalyzer } from '../launch-analysis/launch-analyzer';
+import { HeliusEndpoints, createHeliusClient, createHeliusConnection } from '../../config/helius';
 
 interface Holder {
   address: string;
@@ -119,6 +122,9 @@ class HolderCache {
   }
 }
 
+/**
+ * @deprecated Use createHolderAnalysisPipeline('v3') and QuickScorer from ./pipeline
+ */
 export class HolderAnalysisServiceV3 {
   private helius: Helius;
   private connection: Connection;
@@ -138,14 +144,14 @@ export class HolderAnalysisServiceV3 {
     'Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr7XxXp9F1', // Pump.fun migration vault
   ]);
 
-  constructor() {
+  constructor(endpoints: HeliusEndpoints = {}) {
     const apiKey = process.env.HELIUS_API_KEY;
     if (!apiKey) {
       throw new Error('HELIUS_API_KEY environment variable is required');
     }
 
-    this.helius = new Helius(apiKey);
-    this.connection = new Connection(`https://mainnet.helius-rpc.com/?api-key=${apiKey}`);
+    this.helius = createHeliusClient(apiKey, endpoints);
+    this.connection = createHeliusConnection(apiKey, endpoints);
     this.cache = new HolderCache(300000); // 5 minute TTL
     this.metricsCalculator = new MetricsCalculator();
     this.patternDetector = new PatternDetector();
@@ -218,6 +224,27 @@ export class HolderAnalysisServiceV3 {
       // Stage 7: Save to database
       await this.saveSnapshot(mint, metrics, score, totalCredits);
 
+      // Stage 8: Let alert rules see the fresh metrics
+      alertBus.publish({
+        type: 'holder_analysis',
+        mintAddress: mint,
+        fields: {
+          holderScore: score.total,
+          distributionScore: score.distribution,
+          qualityScore: score.quality,
+          activityScore: score.activity,
+          uniqueHolders: metrics.distribution.uniqueHolders,
+          giniCoefficient: metrics.distribution.giniCoefficient,
+          top1Percent: metrics.distribution.top1Percent,
+          top10Percent: metrics.distribution.top10Percent,
+          botRatio: metrics.quality.botRatio,
+          smartMoneyRatio: metrics.quality.smartMoneyRatio,
+          averageWalletAge: metrics.quality.averageWalletAge,
+          riskScore: metrics.risk.overall,
+          bondingCurveProgress
+        }
+      });
+
       const processingTime = Date.now() - startTime;
       console.log(`✅ Analysis complete in ${processingTime}ms using ${totalCredits} credits`);
 
@@ -533,7 +560,8 @@ export class HolderAnalysisServiceV3 {
     const distribution = this.metricsCalculator.calculateDistributionMetrics(holders);
     const quality = this.metricsCalculator.calculateQualityMetrics(holders);
     const activity = this.metricsCalculator.calculateActivityMetrics(holders);
-    const risk = this.metricsCalculator.calculateRiskMetrics(holders, distribution);
+    const launch = await launchAnalyzer.getRiskSummary(mint);
+    const risk = this.metricsCalculator.calculateRiskMetrics(holders, distribution, launch);
 
     return {
       distribution,
@@ -726,8 +754,8 @@ export class HolderAnalysisServiceV3 {
           top_1_percent, top_10_percent, top_100_holders, bot_count, bot_ratio,
           smart_money_count, smart_money_ratio, avg_wallet_age_days,
           active_holders_24h, new_holders_24h, velocity_score,
-          organic_growth_score, overall_risk, api_credits_used
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+          organic_growth_score, overall_risk, api_credits_used, launch_snipe_risk
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
       `, [
         tokenId,
         metrics.distribution.uniqueHolders,
@@ -746,15 +774,16 @@ export class HolderAnalysisServiceV3 {
         metrics.activity.velocityScore,
         metrics.activity.organicGrowthScore,
         metrics.risk.overall,
-        creditsUsed
+        creditsUsed,
+        metrics.risk.launchSnipeRisk
       ]);
 
       await this.dbPool.query(`
         INSERT INTO holder_scores_v2 (
           token_id, total_score, distribution_score, quality_score,
           activity_score, unique_holders, gini_coefficient,
-          bot_ratio, smart_money_ratio, overall_risk
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          bot_ratio, smart_money_ratio, overall_risk, launch_snipe_risk
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       `, [
         tokenId,
         score.total,
@@ -765,7 +794,8 @@ export class HolderAnalysisServiceV3 {
         metrics.distribution.giniCoefficient,
         metrics.quality.botRatio,
         metrics.quality.smartMoneyRatio,
-        metrics.risk.overall
+        metrics.risk.overall,
+        metrics.risk.launchSnipeRisk
       ]);
 
     } catch (error) {
@@ -4,6 +4,8 @@ import { getDbPool } from '../../database/connection';
 import { MetricsCalculator } from './metrics-calculator';
 import { PatternDetector } from './pattern-detector';
 import { CreditTracker } from './credit-tracker';
+import { launchAnalyzer } from '../launch-analysis/launch-analyzer';
+import { HeliusEndpoints, createHeliusClient, createHeliusConnection } from '../../config/helius';
 
 interface Holder {
   address: string;
@@ -106,6 +108,9 @@ class HolderCache {
   }
 }
 
+/**
+ * @deprecated Use createHolderAnalysisPipeline('v2') from ./pipeline
+ */
 export class HolderAnalysisService {
   private helius: Helius;
   private connection: Connection;
@@ -124,14 +129,14 @@ export class HolderAnalysisService {
     'Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr7XxXp9F1', // Pump.fun migration vault
   ]);
 
-  constructor() {
+  constructor(endpoints: HeliusEndpoints = {}) {
     const apiKey = process.env.HELIUS_API_KEY;
     if (!apiKey) {
       throw new Error('HELIUS_API_KEY environment variable is required');
     }
 
-    this.helius = new Helius(apiKey);
-    this.connection = new Connection(`https://mainnet.helius-rpc.com/?api-key=${apiKey}`);
+    this.helius = createHeliusClient(apiKey, endpoints);
+    this.connection = createHeliusConnection(apiKey, endpoints);
     this.cache = new HolderCache(300000); // 5 minute TTL
     this.creditTracker = CreditTracker.getInstance(10_000_000); // 10M monthly limit
     this.metricsCalculator = new MetricsCalculator();
@@ -449,7 +454,8 @@ export class HolderAnalysisService {
     const distribution = this.metricsCalculator.calculateDistributionMetrics(holders);
     const quality = this.metricsCalculator.calculateQualityMetrics(holders);
     const activity = this.metricsCalculator.calculateActivityMetrics(holders);
-    const risk = this.metricsCalculator.calculateRiskMetrics(holders, distribution);
+    const launch = await launchAnalyzer.getRiskSummary(mint);
+    const risk = this.metricsCalculator.calculateRiskMetrics(holders, distribution, launch);
 
     return {
       distribution,
@@ -599,8 +605,8 @@ export class HolderAnalysisService {
           top_1_percent, top_10_percent, top_100_holders, bot_count, bot_ratio,
           smart_money_count, smart_money_ratio, avg_wallet_age_days,
           active_holders_24h, new_holders_24h, velocity_score,
-          organic_growth_score, overall_risk, api_credits_used
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+          organic_growth_score, overall_risk, api_credits_used, launch_snipe_risk
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
       `, [
         tokenId,
         metrics.distribution.uniqueHolders,
@@ -619,7 +625,8 @@ export class HolderAnalysisService {
         metrics.activity.velocityScore,
         metrics.activity.organicGrowthScore,
         metrics.risk.overall,
-        creditsUsed
+        creditsUsed,
+        metrics.risk.launchSnipeRisk
       ]);
 
       // Save holder score
@@ -627,8 +634,8 @@ export class HolderAnalysisService {
         INSERT INTO holder_scores_v2 (
           token_id, total_score, distribution_score, quality_score,
           activity_score, unique_holders, gini_coefficient,
-          bot_ratio, smart_money_ratio, overall_risk
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          bot_ratio, smart_money_ratio, overall_risk, launch_snipe_risk
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       `, [
         tokenId,
         score.total,
@@ -639,7 +646,8 @@ export class HolderAnalysisService {
         metrics.distribution.giniCoefficient,
         metrics.quality.botRatio,
         metrics.quality.smartMoneyRatio,
-        metrics.risk.overall
+        metrics.risk.overall,
+        metrics.risk.launchSnipeRisk
       ]);
 
     } catch (error) {
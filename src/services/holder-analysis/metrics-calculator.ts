@@ -1,4 +1,5 @@
-import { EnrichedHolder } from './holder-analysis-service';
+import { EnrichedHolder } from './pipeline/types';
+import { LaunchRiskSummary } from '../launch-analysis/types';
 
 export interface DistributionMetrics {
   uniqueHolders: number;
@@ -50,6 +51,7 @@ export interface RiskMetrics {
   washTradingRisk: number;
   liquidityRisk: number;
   volatilityRisk: number;
+  launchSnipeRisk: number | null;   // from token_launch_analysis, null when the launch was not analyzed
   overall: number;
 }
 
@@ -323,7 +325,11 @@ export class MetricsCalculator {
     return (buyIntensity + sellIntensity) / 2;
   }
 
-  calculateRiskMetrics(holders: EnrichedHolder[], distribution: DistributionMetrics): RiskMetrics {
+  calculateRiskMetrics(
+    holders: EnrichedHolder[],
+    distribution: DistributionMetrics,
+    launch: LaunchRiskSummary | null = null
+  ): RiskMetrics {
     // Concentration risk (0-100)
     let concentrationRisk = 0;
     if (distribution.giniCoefficient > 0.9) concentrationRisk = 100;
@@ -359,15 +365,26 @@ export class MetricsCalculator {
     // Volatility risk based on trading patterns
     const volatilityRisk = this.calculateVolatilityRisk(holders);
     
-    // Overall risk is weighted average
-    const overall = (
-      concentrationRisk * 0.25 +
-      botRisk * 0.20 +
-      rugRisk * 0.25 +
-      washTradingRisk * 0.10 +
-      liquidityRisk * 0.10 +
-      volatilityRisk * 0.10
-    );
+    // Overall risk is weighted average; sniper and bundle holdings take
+    // their share from concentration, bot and rug risk when known
+    const overall = launch
+      ? (
+        concentrationRisk * 0.20 +
+        botRisk * 0.15 +
+        rugRisk * 0.20 +
+        washTradingRisk * 0.10 +
+        liquidityRisk * 0.10 +
+        volatilityRisk * 0.10 +
+        launch.riskScore * 0.15
+      )
+      : (
+        concentrationRisk * 0.25 +
+        botRisk * 0.20 +
+        rugRisk * 0.25 +
+        washTradingRisk * 0.10 +
+        liquidityRisk * 0.10 +
+        volatilityRisk * 0.10
+      );
 
     return {
       concentrationRisk,
@@ -376,6 +393,7 @@ export class MetricsCalculator {
       washTradingRisk,
       liquidityRisk,
       volatilityRisk,
+      launchSnipeRisk: launch ? launch.riskScore : null,
       overall: Math.min(100, overall)
     };
   }
@@ -0,0 +1,180 @@
+import { ConfirmedSignatureInfo, Connection, PublicKey } from '@solana/web3.js';
+import { PatternDetector } from '../pattern-detector';
+import { RateLimiter } from '../rate-limiter';
+import { EnrichmentProvider, WalletData } from './types';
+
+export interface RpcEnrichmentOptions {
+  // 'full' counts buys/sells and runs the smart money detector;
+  // 'light' fetches fewer signatures and only checks age and balance
+  mode: 'full' | 'light';
+  signatureLimit: number;
+  batchSize: number;
+  staggerMs: number;              // delay between requests within a batch
+  batchPauseMs: number;
+  rateLimiter: RateLimiter | null;
+}
+
+/**
+ * Enriches wallets from their recent signatures and SOL balance
+ * (2 RPC calls per wallet). Failed lookups fall back to neutral data.
+ */
+export class RpcEnrichmentProvider implements EnrichmentProvider {
+  private options: RpcEnrichmentOptions;
+  private patternDetector = new PatternDetector();
+
+  constructor(private connection: Connection, options: Partial<RpcEnrichmentOptions> = {}) {
+    this.options = {
+      mode: 'full',
+      signatureLimit: 100,
+      batchSize: 25,
+      staggerMs: 20,
+      batchPauseMs: 100,
+      rateLimiter: null,
+      ...options
+    };
+  }
+
+  async enrich(addresses: string[]): Promise<WalletData[]> {
+    const { batchSize, staggerMs, batchPauseMs } = this.options;
+    const enriched: WalletData[] = [];
+
+    for (let i = 0; i < addresses.length; i += batchSize) {
+      const batch = addresses.slice(i, i + batchSize);
+
+      const batchResults = await Promise.allSettled(
+        batch.map((address, index) => this.enrichWallet(address, index * staggerMs))
+      );
+
+      enriched.push(...batchResults
+        .filter(r => r.status === 'fulfilled')
+        .map(r => (r as PromiseFulfilledResult<WalletData>).value)
+      );
+
+      if (i + batchSize < addresses.length) {
+        await this.sleep(batchPauseMs);
+      }
+    }
+
+    return enriched;
+  }
+
+  private async enrichWallet(address: string, delay: number): Promise<WalletData> {
+    if (delay > 0) {
+      await this.sleep(delay);
+    }
+
+    try {
+      const pubkey = new PublicKey(address);
+      const [signatures, balance] = await this.fetchHistory(pubkey);
+
+      if (!signatures || signatures.length === 0) {
+        return defaultWalletData(address);
+      }
+
+      const oldestTx = signatures[signatures.length - 1];
+      const newestTx = signatures[0];
+
+      const createdAt = oldestTx.blockTime ? new Date(oldestTx.blockTime * 1000) : new Date();
+      const lastActive = newestTx.blockTime ? new Date(newestTx.blockTime * 1000) : new Date();
+      const walletAge = Math.floor((Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24));
+      const solBalance = balance / 1e9;
+      const full = this.options.mode === 'full';
+
+      const buyCount = full
+        ? signatures.filter((s: any) =>
+            s.memo?.toLowerCase().includes('buy') ||
+            s.confirmationStatus === 'finalized'
+          ).length
+        : 0;
+
+      const sellCount = full
+        ? signatures.filter((s: any) => s.memo?.toLowerCase().includes('sell')).length
+        : 0;
+
+      const isBot = this.patternDetector.detectBot({
+        address,
+        createdAt,
+        lastActive,
+        transactionCount: signatures.length,
+        buyCount,
+        sellCount,
+        solBalance,
+        walletAge,
+        signatures
+      });
+
+      const isSmartMoney = full
+        ? this.patternDetector.detectSmartMoney({
+            address,
+            walletAge,
+            transactionCount: signatures.length,
+            solBalance,
+            signatures
+          })
+        : walletAge > 90 && balance > 10e9;
+
+      const riskScore = this.patternDetector.calculateWalletRisk({
+        address,
+        walletAge,
+        isBot,
+        solBalance,
+        transactionCount: signatures.length
+      });
+
+      return {
+        address,
+        createdAt,
+        lastActive,
+        transactionCount: signatures.length,
+        buyCount,
+        sellCount,
+        solBalance,
+        walletAge,
+        isBot,
+        isSmartMoney,
+        riskScore
+      };
+
+    } catch (error) {
+      console.error(`Error enriching wallet ${address}:`, error);
+      return defaultWalletData(address);
+    }
+  }
+
+  private async fetchHistory(pubkey: PublicKey): Promise<[ConfirmedSignatureInfo[], number]> {
+    const { signatureLimit, rateLimiter } = this.options;
+    const signatures = () => this.connection.getSignaturesForAddress(pubkey, { limit: signatureLimit });
+    const balance = () => this.connection.getBalance(pubkey);
+
+    if (rateLimiter) {
+      return Promise.all([rateLimiter.execute(signatures), rateLimiter.execute(balance)]);
+    }
+
+    // Without a limiter the calls go one after the other
+    const sigs = await signatures();
+    if (!sigs || sigs.length === 0) {
+      return [sigs, 0];
+    }
+    return [sigs, await balance()];
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export function defaultWalletData(address: string): WalletData {
+  return {
+    address,
+    createdAt: new Date(),
+    lastActive: new Date(),
+    transactionCount: 0,
+    buyCount: 0,
+    sellCount: 0,
+    solBalance: 0,
+    walletAge: 0,
+    isBot: false,
+    isSmartMoney: false,
+    riskScore: 50
+  };
+}
@@ -0,0 +1,214 @@
+import { MetricsCalculator } from '../metrics-calculator';
+import { CreditTracker } from '../credit-tracker';
+import { launchAnalyzer } from '../../launch-analysis/launch-analyzer';
+import {
+  AnalysisPriority,
+  AnalysisResult,
+  EnrichedHolder,
+  Holder,
+  HolderAnalysisStages,
+  HolderMetrics,
+  HolderPipelineOptions,
+  WalletCacheStats
+} from './types';
+
+const UNLIMITED = { maxHolders: Infinity, sampleSize: Infinity, minHolders: 5 };
+
+export const defaultPipelineOptions: HolderPipelineOptions = {
+  progressRange: null,
+  depth: { high: UNLIMITED, medium: UNLIMITED, low: UNLIMITED },
+  resolveSymbol: false,
+  cacheCleanupMs: null
+};
+
+/**
+ * Holder analysis as a fixed sequence of swappable stages:
+ * source -> sample -> cache -> enrichment -> metrics (+ trend) -> scorer -> persisters.
+ * Presets reproduce the former v2, v3 and optimized services.
+ */
+export class HolderAnalysisPipeline {
+  private stages: HolderAnalysisStages;
+  private options: HolderPipelineOptions;
+  private metricsCalculator = new MetricsCalculator();
+  private dbPool: any;
+
+  constructor(stages: HolderAnalysisStages, dbPool: any, options: Partial<HolderPipelineOptions> = {}) {
+    this.stages = stages;
+    this.dbPool = dbPool;
+    this.options = { ...defaultPipelineOptions, ...options };
+
+    if (this.options.cacheCleanupMs) {
+      setInterval(() => this.stages.cache.cleanup(), this.options.cacheCleanupMs).unref();
+    }
+  }
+
+  async analyzeToken(
+    mint: string,
+    bondingCurveProgress: number,
+    priority: AnalysisPriority = 'medium'
+  ): Promise<AnalysisResult | null> {
+    const startTime = Date.now();
+    let totalCredits = 0;
+
+    try {
+      const range = this.options.progressRange;
+      if (range && (bondingCurveProgress < range.min || bondingCurveProgress > range.max)) {
+        return null;
+      }
+
+      const depth = this.options.depth[priority];
+
+      // Stage 1: Get holder list (Helius: 1 credit per 1000 holders; ledger: free)
+      console.log(`📊 Fetching holders for ${mint} (${priority} priority)...`);
+      const { holders, creditsUsed, source } = await this.stages.source.fetchHolders(mint, depth.maxHolders);
+      totalCredits += creditsUsed;
+
+      if (holders.length < depth.minHolders) {
+        console.log(`Insufficient holders (${holders.length}), skipping analysis`);
+        return null;
+      }
+
+      // Stage 2: Smart sampling for large holder lists
+      const sampled = smartSample(holders, depth.sampleSize);
+
+      // Stage 3: Check cache for existing wallet data
+      const { cached, uncached } = await this.stages.cache.partition(sampled);
+      const cacheHitRate = cached.length / sampled.length;
+      console.log(`✅ Cache hit: ${cached.length}/${sampled.length} wallets (${(cacheHitRate * 100).toFixed(1)}%)`);
+
+      // Stage 4: Enrich uncached wallets (2 credits each)
+      let enriched: EnrichedHolder[] = [];
+      if (uncached.length > 0) {
+        console.log(`🔄 Enriching ${uncached.length} new wallets...`);
+        enriched = await this.enrich(uncached, sampled);
+        totalCredits += uncached.length * 2;
+      }
+
+      // Stage 5: Metrics, score and alerts
+      const metrics = await this.calculateAllMetrics([...cached, ...enriched], mint);
+      if (this.stages.trends) {
+        metrics.trend = await this.stages.trends.getTrend(mint).catch(error => {
+          console.warn(`Holder trend unavailable for ${mint}:`, error instanceof Error ? error.message : error);
+          return null;
+        });
+      }
+      const score = this.stages.scorer.score(metrics);
+      const alerts = this.stages.scorer.alerts(metrics, score);
+
+      const result: AnalysisResult = {
+        token: {
+          mint,
+          symbol: this.options.resolveSymbol ? await this.getTokenSymbol(mint) : undefined,
+          bondingCurveProgress
+        },
+        metrics,
+        score,
+        alerts,
+        timestamp: new Date(),
+        apiCreditsUsed: totalCredits,
+        holderSource: source,
+        cacheHitRate,
+        processingTimeMs: Date.now() - startTime
+      };
+
+      // Stage 6: Persist
+      for (const persister of this.stages.persisters) {
+        await persister.persist(result);
+      }
+
+      console.log(`✅ Analysis complete in ${Date.now() - startTime}ms using ${totalCredits} credits`);
+      return result;
+
+    } catch (error) {
+      console.error(`Error analyzing token ${mint}:`, error);
+      return null;
+    } finally {
+      // Spent even when the analysis stops early; the credit budget
+      // planner paces itself on helius_api_usage
+      if (totalCredits > 0) {
+        await CreditTracker.getInstance().increment(totalCredits, 'holder-analysis');
+      }
+    }
+  }
+
+  getCacheStats(): WalletCacheStats {
+    return this.stages.cache.getStats();
+  }
+
+  private async enrich(addresses: string[], holders: Holder[]): Promise<EnrichedHolder[]> {
+    const byAddress = new Map(holders.map(h => [h.address, h]));
+    const walletData = await this.stages.enrichment.enrich(addresses);
+    const enriched: EnrichedHolder[] = [];
+
+    for (const wallet of walletData) {
+      this.stages.cache.set(wallet.address, wallet);
+
+      const holder = byAddress.get(wallet.address);
+      if (holder) {
+        enriched.push({
+          ...wallet,
+          ...holder,
+          tokenBalance: holder.balance
+        });
+      }
+    }
+
+    return enriched;
+  }
+
+  private async calculateAllMetrics(holders: EnrichedHolder[], mint: string): Promise<HolderMetrics> {
+    const distribution = this.metricsCalculator.calculateDistributionMetrics(holders);
+    const quality = this.metricsCalculator.calculateQualityMetrics(holders);
+    const activity = this.metricsCalculator.calculateActivityMetrics(holders);
+    const launch = await launchAnalyzer.getRiskSummary(mint);
+    const risk = this.metricsCalculator.calculateRiskMetrics(holders, distribution, launch);
+
+    return {
+      distribution,
+      quality,
+      activity,
+      risk
+    };
+  }
+
+  private async getTokenSymbol(mint: string): Promise<string> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT symbol FROM tokens WHERE mint_address = $1',
+        [mint]
+      );
+      return result.rows[0]?.symbol || mint.slice(0, 8);
+    } catch (error) {
+      return mint.slice(0, 8);
+    }
+  }
+}
+
+/**
+ * Keeps the largest 40% of the target, the smallest 10% and a random draw
+ * from the middle, so large tokens are enriched at a bounded cost
+ */
+export function smartSample(holders: Holder[], targetSize: number): Holder[] {
+  if (holders.length <= targetSize) {
+    return holders;
+  }
+
+  const sorted = [...holders].sort((a, b) => b.balance - a.balance);
+  const sampled: Holder[] = [];
+
+  const topCount = Math.floor(targetSize * 0.4);
+  sampled.push(...sorted.slice(0, topCount));
+
+  const bottomCount = Math.floor(targetSize * 0.1);
+  sampled.push(...sorted.slice(-bottomCount));
+
+  const middleCount = targetSize - topCount - bottomCount;
+  const middleHolders = sorted.slice(topCount, sorted.length - bottomCount);
+
+  for (let i = 0; i < middleCount && i < middleHolders.length; i++) {
+    const randomIndex = Math.floor(Math.random() * middleHolders.length);
+    sampled.push(middleHolders[randomIndex]);
+  }
+
+  return sampled;
+}
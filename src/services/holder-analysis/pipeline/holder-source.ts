@@ -0,0 +1,132 @@
+import { Helius } from 'helius-sdk';
+import { RateLimiter } from '../rate-limiter';
+import { Holder, HolderList, HolderSource } from './types';
+
+// Known system addresses to exclude from holder analysis
+export const SYSTEM_ADDRESSES = new Set([
+  '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1', // Pump.fun bonding curve
+  '4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf', // Pump.fun fee account
+  'CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM', // Pump.fun program
+  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P', // Pump.fun program ID
+  'Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr7XxXp9F1', // Pump.fun migration vault
+]);
+
+export interface HeliusHolderSourceOptions {
+  pageDelayMs: number;
+  rateLimiter: RateLimiter | null;
+  logFiltered: boolean;           // print the pool and system balances that were dropped
+}
+
+/**
+ * Pages through Helius getTokenAccounts (1 credit per 1000 accounts),
+ * dropping the token's bonding curve and the pump.fun system accounts
+ */
+export class HeliusHolderSource implements HolderSource {
+  private options: HeliusHolderSourceOptions;
+
+  constructor(
+    private helius: Helius,
+    private dbPool: any,
+    options: Partial<HeliusHolderSourceOptions> = {}
+  ) {
+    this.options = {
+      pageDelayMs: 50,
+      rateLimiter: null,
+      logFiltered: false,
+      ...options
+    };
+  }
+
+  async fetchHolders(mint: string, maxHolders: number): Promise<HolderList> {
+    const bondingCurveAddress = await this.getBondingCurveAddress(mint);
+    const holders: Holder[] = [];
+    let page = 1;
+    const limit = 1000;
+
+    while (holders.length < maxHolders) {
+      try {
+        const response: any = await this.call(() =>
+          this.helius.rpc.getTokenAccounts({
+            mint,
+            limit,
+            page
+          })
+        );
+
+        if (!response?.token_accounts || response.token_accounts.length === 0) {
+          break;
+        }
+
+        response.token_accounts.forEach((account: any) => {
+          const balance = parseInt(account.amount) / 1e6;
+          if (balance <= 0) return;
+
+          if (bondingCurveAddress && account.owner === bondingCurveAddress) {
+            this.logFiltered('Bonding Curve', balance, true);
+          } else if (SYSTEM_ADDRESSES.has(account.owner)) {
+            this.logFiltered(this.systemName(account.owner), balance, false);
+          } else {
+            holders.push({
+              address: account.owner,
+              balance,
+              tokenAccount: account.address
+            });
+          }
+        });
+
+        if (response.token_accounts.length < limit) {
+          break;
+        }
+
+        page++;
+        await this.sleep(this.options.pageDelayMs);
+
+      } catch (error) {
+        console.error(`Error fetching holders page ${page}:`, error);
+        break;
+      }
+    }
+
+    return { holders, creditsUsed: Math.ceil(holders.length / 1000), source: 'helius' };
+  }
+
+  private async getBondingCurveAddress(mint: string): Promise<string | null> {
+    try {
+      const result = await this.dbPool.query(`
+        SELECT p.bonding_curve_address
+        FROM pools p
+        JOIN tokens t ON p.token_id = t.id
+        WHERE t.mint_address = $1
+        LIMIT 1
+      `, [mint]);
+
+      return result.rows[0]?.bonding_curve_address || null;
+    } catch (error) {
+      console.error('Error fetching bonding curve address:', error);
+      return null;
+    }
+  }
+
+  private call<T>(fn: () => Promise<T>): Promise<T> {
+    return this.options.rateLimiter ? this.options.rateLimiter.execute(fn) : fn();
+  }
+
+  private logFiltered(name: string, balance: number, showShare: boolean): void {
+    if (!this.options.logFiltered) return;
+
+    const share = showShare
+      ? ` (${(balance * 100 / 1e9).toFixed(1)}%)` // Assuming 1B total supply
+      : '';
+    console.log(`  🔄 Filtered ${name}: ${(balance / 1e6).toFixed(2)}M tokens${share}`);
+  }
+
+  private systemName(owner: string): string {
+    if (owner === '4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf') return 'Fee Account';
+    if (owner === 'Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr7XxXp9F1') return 'Migration Vault';
+    return 'System Account';
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
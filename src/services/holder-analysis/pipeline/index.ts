@@ -0,0 +1,13 @@
+// Holder Analysis Pipeline - Main Export File
+
+export * from './types';
+export { HolderAnalysisPipeline, smartSample, defaultPipelineOptions } from './holder-analysis-pipeline';
+export { HeliusHolderSource, SYSTEM_ADDRESSES } from './holder-source';
+export { LedgerHolderSource } from './ledger-holder-source';
+export { RpcEnrichmentProvider, defaultWalletData } from './enrichment-provider';
+export { MemoryWalletCache, TieredWalletCache } from './wallet-cache';
+export { ThresholdScorer, loadedScoringConfig } from './scorer';
+export { SnapshotPersister, TokenScorePersister, AlertBusPersister } from './persister';
+export { QuickScorer } from './quick-scorer';
+export { createHolderAnalysisPipeline } from './presets';
+export type { PipelineOverrides } from './presets';
@@ -0,0 +1,47 @@
+import { HolderLedger, holderLedger } from '../../holder-ledger/holder-ledger';
+import { HolderList, HolderSource } from './types';
+
+/**
+ * Serves holders from the holder ledger, which costs no credits, once a
+ * reconciliation against the fallback (Helius) has passed for the mint.
+ * Until then, and whenever the last reconciliation is older than
+ * `reconcileMinutes`, the fallback answers and the ledger is checked
+ * against its answer.
+ */
+export class LedgerHolderSource implements HolderSource {
+  constructor(
+    private fallback: HolderSource,
+    private ledger: HolderLedger = holderLedger
+  ) {}
+
+  async fetchHolders(mint: string, maxHolders: number): Promise<HolderList> {
+    try {
+      const state = await this.ledger.refresh(mint);
+      if (this.ledger.isTrusted(state)) {
+        const holders = await this.ledger.getHolders(mint, { refresh: false, limit: maxHolders });
+        return { holders, creditsUsed: 0, source: 'ledger' };
+      }
+    } catch (error) {
+      console.error(`Holder ledger unavailable for ${mint}, using Helius:`, error instanceof Error ? error.message : error);
+      return this.fallback.fetchHolders(mint, maxHolders);
+    }
+
+    const fetched = await this.fallback.fetchHolders(mint, maxHolders);
+
+    // A list cut off at maxHolders would read as missing holders
+    if (fetched.holders.length < maxHolders) {
+      try {
+        const reconciliation = await this.ledger.reconcile(mint, fetched.holders);
+        console.log(
+          `📒 Ledger ${reconciliation.passed ? 'matches' : 'differs from'} Helius for ${mint}: ` +
+          `${reconciliation.ledgerHolders}/${reconciliation.heliusHolders} holders, ` +
+          `${(reconciliation.balanceDrift * 100).toFixed(2)}% of supply misallocated`
+        );
+      } catch (error) {
+        console.error(`Holder ledger reconciliation failed for ${mint}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return fetched;
+  }
+}
@@ -0,0 +1,151 @@
+import { alertBus } from '../../alerts/alert-bus';
+import { AnalysisResult, Persister } from './types';
+
+/**
+ * Writes holder_snapshots_v2 and holder_scores_v2. With recordRunStats the
+ * snapshot also carries the run's cache hit rate and processing time.
+ */
+export class SnapshotPersister implements Persister {
+  constructor(private dbPool: any, private options: { recordRunStats: boolean } = { recordRunStats: false }) {}
+
+  async persist(result: AnalysisResult): Promise<void> {
+    const { metrics, score } = result;
+
+    try {
+      const tokenResult = await this.dbPool.query(
+        'SELECT id FROM tokens WHERE mint_address = $1',
+        [result.token.mint]
+      );
+
+      if (tokenResult.rows.length === 0) {
+        console.warn(`Token ${result.token.mint} not found in database`);
+        return;
+      }
+
+      const tokenId = tokenResult.rows[0].id;
+
+      const columns = [
+        'token_id', 'unique_holders', 'gini_coefficient', 'herfindahl_index',
+        'top_1_percent', 'top_10_percent', 'top_100_holders', 'bot_count', 'bot_ratio',
+        'smart_money_count', 'smart_money_ratio', 'avg_wallet_age_days',
+        'active_holders_24h', 'new_holders_24h', 'velocity_score',
+        'organic_growth_score', 'overall_risk', 'api_credits_used'
+      ];
+      const values: any[] = [
+        tokenId,
+        metrics.distribution.uniqueHolders,
+        metrics.distribution.giniCoefficient,
+        metrics.distribution.herfindahlIndex,
+        metrics.distribution.top1Percent,
+        metrics.distribution.top10Percent,
+        100.0, // top_100_holders - all holders for small tokens
+        metrics.quality.botCount || 0,
+        metrics.quality.botRatio,
+        metrics.quality.smartMoneyCount || 0,
+        metrics.quality.smartMoneyRatio,
+        metrics.quality.averageWalletAge,
+        metrics.activity.activeHolders24h,
+        metrics.activity.newHolders24h,
+        metrics.activity.velocityScore,
+        metrics.activity.organicGrowthScore,
+        metrics.risk.overall,
+        result.apiCreditsUsed
+      ];
+
+      if (this.options.recordRunStats) {
+        columns.push('cache_hit_rate', 'processing_time_ms');
+        values.push(result.cacheHitRate, result.processingTimeMs);
+      }
+
+      columns.push('launch_snipe_risk');
+      values.push(metrics.risk.launchSnipeRisk);
+
+      await this.dbPool.query(`
+        INSERT INTO holder_snapshots_v2 (${columns.join(', ')})
+        VALUES (${values.map((_, i) => `$${i + 1}`).join(', ')})
+      `, values);
+
+      const scoreColumns = [
+        'token_id', 'total_score', 'distribution_score', 'quality_score',
+        'activity_score', 'unique_holders', 'gini_coefficient',
+        'bot_ratio', 'smart_money_ratio', 'overall_risk', 'launch_snipe_risk'
+      ];
+      const scoreValues: any[] = [
+        tokenId,
+        score.total,
+        score.distribution,
+        score.quality,
+        score.activity,
+        metrics.distribution.uniqueHolders,
+        metrics.distribution.giniCoefficient,
+        metrics.quality.botRatio,
+        metrics.quality.smartMoneyRatio,
+        metrics.risk.overall,
+        metrics.risk.launchSnipeRisk
+      ];
+
+      if (score.trend !== undefined) {
+        scoreColumns.push('trend_score');
+        scoreValues.push(score.trend);
+      }
+
+      await this.dbPool.query(`
+        INSERT INTO holder_scores_v2 (${scoreColumns.join(', ')})
+        VALUES (${scoreValues.map((_, i) => `$${i + 1}`).join(', ')})
+      `, scoreValues);
+
+    } catch (error) {
+      console.error('Error saving snapshot:', error);
+    }
+  }
+}
+
+/**
+ * Calls update_token_after_holder_analysis so tokens carries the latest score
+ */
+export class TokenScorePersister implements Persister {
+  constructor(private dbPool: any) {}
+
+  async persist(result: AnalysisResult): Promise<void> {
+    try {
+      await this.dbPool.query(
+        'SELECT update_token_after_holder_analysis((SELECT id FROM tokens WHERE mint_address = $1), $2)',
+        [result.token.mint, result.score.total]
+      );
+    } catch (error) {
+      console.error('Error updating token after analysis:', error);
+    }
+  }
+}
+
+/**
+ * Lets alert rules see the fresh metrics. Not awaited: the bus never throws
+ * and slow sinks should not hold up the next analysis.
+ */
+export class AlertBusPersister implements Persister {
+  async persist(result: AnalysisResult): Promise<void> {
+    const { metrics, score } = result;
+
+    alertBus.publish({
+      type: 'holder_analysis',
+      mintAddress: result.token.mint,
+      fields: {
+        holderScore: score.total,
+        distributionScore: score.distribution,
+        qualityScore: score.quality,
+        activityScore: score.activity,
+        trendScore: score.trend ?? null,
+        uniqueHolders: metrics.distribution.uniqueHolders,
+        giniCoefficient: metrics.distribution.giniCoefficient,
+        top1Percent: metrics.distribution.top1Percent,
+        top10Percent: metrics.distribution.top10Percent,
+        botRatio: metrics.quality.botRatio,
+        smartMoneyRatio: metrics.quality.smartMoneyRatio,
+        averageWalletAge: metrics.quality.averageWalletAge,
+        riskScore: metrics.risk.overall,
+        holderGrowthPerHour: metrics.trend?.holderGrowthPerHour ?? null,
+        bondingCurveProgress: result.token.bondingCurveProgress
+      }
+    });
+  }
+}
@@ -0,0 +1,109 @@
+import { getDbPool } from '../../../database/connection';
+import { HeliusEndpoints, createHeliusClient, createHeliusConnection } from '../../../config/helius';
+import { RateLimiter } from '../rate-limiter';
+import { HolderAnalysisPipeline } from './holder-analysis-pipeline';
+import { HeliusHolderSource } from './holder-source';
+import { LedgerHolderSource } from './ledger-holder-source';
+import { holderTrendService } from '../../holder-trends/holder-trend-service';
+import { RpcEnrichmentProvider } from './enrichment-provider';
+import { MemoryWalletCache, TieredWalletCache } from './wallet-cache';
+import { ThresholdScorer, loadedScoringConfig } from './scorer';
+import { AlertBusPersister, SnapshotPersister, TokenScorePersister } from './persister';
+import { HolderAnalysisPreset, HolderAnalysisStages, HolderPipelineOptions } from './types';
+
+export interface PipelineOverrides {
+  stages?: Partial<HolderAnalysisStages>;
+  options?: Partial<HolderPipelineOptions>;
+  endpoints?: HeliusEndpoints;
+}
+
+/**
+ * Builds the pipeline a monitor used to get from its own service:
+ *
+ * - v2: every holder, 5 minute memory cache, full enrichment, fixed thresholds
+ * - v3: as v2, scored from holder-scoring-config.json, publishes to the alert bus
+ * - optimized: priority-based sampling, tiered cache, rate-limited light
+ *   enrichment, low-holder penalty, records run stats and updates tokens
+ *
+ * Every preset reads holders from the holder ledger once Helius has
+ * confirmed it for the mint; HOLDER_LEDGER_ENABLED=false goes back to
+ * Helius only. Every preset also scores the holder trend from earlier
+ * snapshots unless HOLDER_TRENDS_ENABLED=false. Any stage or option can be
+ * replaced through overrides, and `endpoints` points Helius elsewhere.
+ */
+export function createHolderAnalysisPipeline(
+  preset: HolderAnalysisPreset,
+  overrides: PipelineOverrides = {}
+): HolderAnalysisPipeline {
+  const apiKey = process.env.HELIUS_API_KEY;
+  if (!apiKey) {
+    throw new Error('HELIUS_API_KEY environment variable is required');
+  }
+
+  const helius = createHeliusClient(apiKey, overrides.endpoints);
+  const connection = createHeliusConnection(apiKey, overrides.endpoints);
+  const dbPool = getDbPool();
+  const useLedger = process.env.HOLDER_LEDGER_ENABLED !== 'false';
+  const holderSource = (helius: HeliusHolderSource) => useLedger ? new LedgerHolderSource(helius) : helius;
+  const trends = process.env.HOLDER_TRENDS_ENABLED !== 'false' ? holderTrendService : undefined;
+
+  let stages: HolderAnalysisStages;
+  let options: Partial<HolderPipelineOptions>;
+
+  switch (preset) {
+    case 'v2':
+    case 'v3':
+      stages = {
+        source: overrides.stages?.source ?? holderSource(new HeliusHolderSource(helius, dbPool, { logFiltered: preset === 'v2' })),
+        enrichment: overrides.stages?.enrichment ?? new RpcEnrichmentProvider(connection),
+        cache: overrides.stages?.cache ?? new MemoryWalletCache(300000),
+        scorer: overrides.stages?.scorer ?? (preset === 'v3'
+          ? new ThresholdScorer(loadedScoringConfig())
+          : new ThresholdScorer()),
+        persisters: overrides.stages?.persisters ?? (preset === 'v3'
+          ? [new SnapshotPersister(dbPool), new AlertBusPersister()]
+          : [new SnapshotPersister(dbPool)]),
+        trends: overrides.stages?.trends ?? trends
+      };
+      options = { progressRange: { min: 10, max: 50 } };
+      break;
+
+    case 'optimized': {
+      // 10 per second for DAS/Enhanced APIs (Helius Developer plan)
+      const rateLimiter = new RateLimiter(600, 10);
+      stages = {
+        source: overrides.stages?.source ?? holderSource(new HeliusHolderSource(helius, dbPool, { pageDelayMs: 20, rateLimiter })),
+        enrichment: overrides.stages?.enrichment ?? new RpcEnrichmentProvider(connection, {
+          mode: 'light',
+          signatureLimit: 50,
+          batchSize: 20,
+          staggerMs: 100,
+          batchPauseMs: 50,
+          rateLimiter
+        }),
+        cache: overrides.stages?.cache ?? new TieredWalletCache(dbPool),
+        scorer: overrides.stages?.scorer ?? new ThresholdScorer(undefined, { lowHolderThreshold: 10 }),
+        persisters: overrides.stages?.persisters ?? [
+          new SnapshotPersister(dbPool, { recordRunStats: true }),
+          new TokenScorePersister(dbPool)
+        ],
+        trends: overrides.stages?.trends ?? trends
+      };
+      options = {
+        depth: {
+          high: { maxHolders: 10000, sampleSize: 500, minHolders: 3 },
+          medium: { maxHolders: 5000, sampleSize: 250, minHolders: 5 },
+          low: { maxHolders: 2000, sampleSize: 100, minHolders: 5 }
+        },
+        resolveSymbol: true,
+        cacheCleanupMs: 600000
+      };
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown holder analysis preset: ${preset}`);
+  }
+
+  return new HolderAnalysisPipeline(stages, dbPool, { ...options, ...overrides.options });
+}
@@ -0,0 +1,94 @@
+import { getDbPool } from '../../../database/connection';
+import { HolderScoringConfig } from '../../../config/holder-scoring-config';
+import { loadedScoringConfig } from './scorer';
+import { QuickScoreResult } from './types';
+
+/**
+ * Score of 0-50 from the last hour of our own transactions (no API calls),
+ * used to decide whether a token is worth a full holder analysis
+ */
+export class QuickScorer {
+  constructor(
+    private configSource: () => HolderScoringConfig = loadedScoringConfig(),
+    private dbPool: any = getDbPool()
+  ) {}
+
+  async getQuickScore(mint: string): Promise<QuickScoreResult | null> {
+    const startTime = Date.now();
+    const config = this.configSource().quickScore;
+
+    try {
+      // Try to get from recent cache first
+      const cached = await this.dbPool.query(`
+        SELECT hs.total_score, hs.score_time as snapshot_time
+        FROM holder_scores_v2 hs
+        WHERE hs.token_id = (SELECT id FROM tokens WHERE mint_address = $1)
+        AND hs.score_time > NOW() - INTERVAL '5 minutes'
+        ORDER BY hs.score_time DESC
+        LIMIT 1
+      `, [mint]);
+
+      if (cached.rows.length > 0) {
+        return {
+          token: mint,
+          score: cached.rows[0].total_score,
+          confidence: 'HIGH',
+          shouldDeepAnalyze: false,
+          metrics: { uniqueBuyers: 0, largestBuy: 0, buyRatio: 0 },
+          processingTime: Date.now() - startTime
+        };
+      }
+
+      // Get basic metrics from database (no API)
+      const metrics = await this.dbPool.query(`
+        SELECT
+          COUNT(DISTINCT tx.user_address) FILTER (WHERE tx.type = 'buy') as unique_buyers,
+          MAX(tx.sol_amount) FILTER (WHERE tx.type = 'buy') as largest_buy,
+          COUNT(*) FILTER (WHERE tx.type = 'buy') as buy_count,
+          COUNT(*) FILTER (WHERE tx.type = 'sell') as sell_count
+        FROM transactions tx
+        JOIN tokens t ON tx.token_id = t.id
+        WHERE t.mint_address = $1
+        AND tx.block_time > NOW() - INTERVAL '1 hour'
+      `, [mint]);
+
+      const row = metrics.rows[0];
+      if (!row) {
+        return null;
+      }
+
+      const ratio = row.buy_count / (row.sell_count || 1);
+      const score =
+        this.band(row.unique_buyers, config.uniqueBuyers) +
+        this.band(row.largest_buy, config.largestBuy) +
+        this.band(ratio, config.buyRatio);
+
+      return {
+        token: mint,
+        score,
+        confidence: row.unique_buyers > 5 ? 'MEDIUM' : 'LOW',
+        shouldDeepAnalyze: score > 35 || row.largest_buy > 3,
+        metrics: {
+          uniqueBuyers: row.unique_buyers,
+          largestBuy: row.largest_buy,
+          buyRatio: ratio
+        },
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      console.error('Quick score error:', error);
+      return null;
+    }
+  }
+
+  // Higher is better: points for the first threshold the value reaches
+  private band(
+    value: number,
+    thresholds: HolderScoringConfig['quickScore']['uniqueBuyers']
+  ): number {
+    if (value >= thresholds.high) return thresholds.points.high;
+    if (value >= thresholds.medium) return thresholds.points.medium;
+    if (value >= thresholds.low) return thresholds.points.low;
+    return 0;
+  }
+}
@@ -0,0 +1,222 @@
+import {
+  HolderScoringConfig,
+  ScoringConfigLoader,
+  ScoringThresholds,
+  defaultHolderScoringConfig,
+  getEnvironmentOverrides
+} from '../../../config/holder-scoring-config';
+import type { HolderTrend } from '../../holder-trends/types';
+import { HolderAlert, HolderMetrics, HolderScore, Scorer } from './types';
+
+export interface ThresholdScorerOptions {
+  // Below this many holders the distribution points are scaled down by
+  // holders / threshold (at least 0.3) and holder count earns 2 points each
+  lowHolderThreshold: number | null;
+}
+
+/**
+ * Config loader with the NODE_ENV overrides applied, re-read on every call
+ * so edits to holder-scoring-config.json take effect without a restart
+ */
+export function loadedScoringConfig(): () => HolderScoringConfig {
+  const loader = ScoringConfigLoader.getInstance();
+  loader.override(getEnvironmentOverrides());
+  return () => loader.getConfig();
+}
+
+/**
+ * The 333-point holder score (111 each for distribution, quality and
+ * activity) and its alerts, from the thresholds in HolderScoringConfig
+ */
+export class ThresholdScorer implements Scorer {
+  private options: ThresholdScorerOptions;
+  private config: HolderScoringConfig;
+
+  constructor(
+    private configSource: () => HolderScoringConfig = () => defaultHolderScoringConfig,
+    options: Partial<ThresholdScorerOptions> = {}
+  ) {
+    this.options = { lowHolderThreshold: null, ...options };
+    this.config = configSource();
+  }
+
+  score(metrics: HolderMetrics): HolderScore {
+    this.config = this.configSource();
+    const config = this.config;
+
+    const distribution = this.distributionScore(metrics);
+
+    // Quality score (111 points)
+    let quality = this.band(metrics.quality.botRatio, config.quality.botRatio);
+    quality += Math.min(
+      config.quality.smartMoney.maxPoints,
+      metrics.quality.smartMoneyRatio * config.quality.smartMoney.multiplier
+    );
+
+    const avgAge = metrics.quality.averageWalletAge;
+    const age = config.quality.walletAge;
+    if (avgAge > age.excellent) quality += age.points.excellent;
+    else if (avgAge > age.good) quality += age.points.good;
+    else if (avgAge > age.fair) quality += age.points.fair;
+    else if (avgAge > age.acceptable) quality += age.points.acceptable;
+    else if (avgAge > age.poor) quality += age.points.poor;
+
+    // Activity score (111 points)
+    const activeRatio = metrics.activity.activeHolders24h / metrics.distribution.uniqueHolders;
+    let activity = Math.min(
+      config.activity.activeHolders.maxPoints,
+      activeRatio * config.activity.activeHolders.multiplier
+    );
+    activity += Math.min(
+      config.activity.organicGrowth.maxPoints,
+      metrics.activity.organicGrowthScore * config.activity.organicGrowth.multiplier
+    );
+    activity += Math.min(
+      config.activity.velocity.maxPoints,
+      metrics.activity.velocityScore * config.activity.velocity.multiplier
+    );
+
+    const total = distribution + quality + activity;
+    if (!metrics.trend) {
+      return { total, distribution, quality, activity };
+    }
+
+    const trend = this.trendScore(metrics.trend);
+    return {
+      total: Math.max(0, Math.min(333, total + trend)),
+      distribution,
+      quality,
+      activity,
+      trend
+    };
+  }
+
+  alerts(metrics: HolderMetrics, score: HolderScore): HolderAlert[] {
+    const alerts: HolderAlert[] = [];
+    const config = this.config.alerts;
+
+    // Critical alerts
+    if (metrics.distribution.giniCoefficient > config.critical.giniThreshold) {
+      alerts.push({
+        type: 'CRITICAL',
+        message: `Extreme concentration: Gini ${metrics.distribution.giniCoefficient.toFixed(3)}`
+      });
+    }
+
+    if (metrics.quality.botRatio > config.critical.botRatioThreshold) {
+      alerts.push({
+        type: 'CRITICAL',
+        message: `Bot swarm detected: ${(metrics.quality.botRatio * 100).toFixed(1)}% bots`
+      });
+    }
+
+    if (metrics.risk.overall > config.critical.riskScoreThreshold) {
+      alerts.push({
+        type: 'CRITICAL',
+        message: `High risk score: ${metrics.risk.overall}/100`
+      });
+    }
+
+    // Warning alerts
+    if (metrics.distribution.top1Percent > config.warning.topHolderThreshold) {
+      alerts.push({
+        type: 'WARNING',
+        message: `Top holder owns ${metrics.distribution.top1Percent.toFixed(1)}%`
+      });
+    }
+
+    if (metrics.quality.averageWalletAge < config.warning.walletAgeThreshold) {
+      alerts.push({
+        type: 'WARNING',
+        message: `New wallets: avg age ${metrics.quality.averageWalletAge.toFixed(1)} days`
+      });
+    }
+
+    const trend = metrics.trend;
+    const trendConfig = this.trendConfig();
+    if (trend && trend.snapshots >= trendConfig.minSnapshots &&
+        trend.holderGrowthPerHour <= trendConfig.holderGrowth.decline) {
+      alerts.push({
+        type: 'WARNING',
+        message: `Holders declining: ${trend.holderGrowthPerHour.toFixed(1)}%/h`
+      });
+    }
+
+    // Positive alerts
+    if (metrics.quality.smartMoneyRatio > config.positive.smartMoneyThreshold) {
+      alerts.push({
+        type: 'POSITIVE',
+        message: `Smart money present: ${(metrics.quality.smartMoneyRatio * 100).toFixed(1)}%`
+      });
+    }
+
+    if (score.total > config.positive.totalScoreThreshold) {
+      alerts.push({
+        type: 'POSITIVE',
+        message: `Strong holder base: ${score.total}/333`
+      });
+    }
+
+    return alerts;
+  }
+
+  // Distribution score (111 points)
+  private distributionScore(metrics: HolderMetrics): number {
+    const config = this.config.distribution;
+    const holders = metrics.distribution.uniqueHolders;
+    const threshold = this.options.lowHolderThreshold;
+
+    if (threshold !== null && holders < threshold) {
+      const holderPenalty = Math.max(0.3, holders / threshold);
+      return this.band(metrics.distribution.giniCoefficient, config.gini) * holderPenalty +
+        this.band(metrics.distribution.top1Percent, config.top1Percent) * holderPenalty +
+        Math.min(config.holderCount.maxPoints, Math.floor(holders * 2)) * holderPenalty;
+    }
+
+    return this.band(metrics.distribution.giniCoefficient, config.gini) +
+      this.band(metrics.distribution.top1Percent, config.top1Percent) +
+      Math.min(config.holderCount.maxPoints, Math.floor(holders / config.holderCount.divisor));
+  }
+
+  // Trend points (±maxPoints): holder growth, concentration drift and holder flow
+  private trendScore(trend: HolderTrend): number {
+    const config = this.trendConfig();
+    if (trend.snapshots < config.minSnapshots) return 0;
+
+    let points = 0;
+    const growth = config.holderGrowth;
+    if (trend.holderGrowthPerHour >= growth.strong) points += growth.points.strong;
+    else if (trend.holderGrowthPerHour >= growth.positive) points += growth.points.positive;
+    else if (trend.holderGrowthPerHour <= growth.decline) points += growth.points.decline;
+
+    // Concentrating is bad, spreading out is good
+    if (trend.giniDrift >= config.giniDrift.threshold) points -= config.giniDrift.points;
+    else if (trend.giniDrift <= -config.giniDrift.threshold) points += config.giniDrift.points;
+
+    if (trend.top10Change >= config.top10Change.threshold) points -= config.top10Change.points;
+    else if (trend.top10Change <= -config.top10Change.threshold) points += config.top10Change.points;
+
+    const moves = trend.holdersEntered + trend.holdersExited;
+    if (trend.flowKnown && moves >= config.holderFlow.minMoves) {
+      const inflow = trend.holdersEntered / moves;
+      if (inflow >= config.holderFlow.inflowShare) points += config.holderFlow.points;
+      else if (inflow <= config.holderFlow.outflowShare) points -= config.holderFlow.points;
+    }
+
+    return Math.max(-config.maxPoints, Math.min(config.maxPoints, points));
+  }
+
+  // Configs written before trend scoring have no trend section
+  private trendConfig(): HolderScoringConfig['trend'] {
+    return this.config.trend ?? defaultHolderScoringConfig.trend;
+  }
+
+  // Lower is better: points for the first threshold the value is under
+  private band(value: number, thresholds: ScoringThresholds): number {
+    if (value < thresholds.excellent) return thresholds.points.excellent;
+    if (value < thresholds.good) return thresholds.points.good;
+    if (value < thresholds.fair) return thresholds.points.fair;
+    if (value < thresholds.poor) return thresholds.points.poor;
+    return 0;
+  }
+}
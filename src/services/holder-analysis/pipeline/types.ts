@@ -0,0 +1,179 @@
+import {
+  DistributionMetrics,
+  QualityMetrics,
+  ActivityMetrics,
+  RiskMetrics
+} from '../metrics-calculator';
+import type { HolderTrend } from '../../holder-trends/types';
+
+export interface Holder {
+  address: string;
+  balance: number;
+  tokenAccount: string;
+}
+
+export interface WalletData {
+  address: string;
+  createdAt: Date;
+  lastActive: Date;
+  transactionCount: number;
+  buyCount: number;
+  sellCount: number;
+  solBalance: number;
+  walletAge: number;
+  isBot: boolean;
+  isSmartMoney: boolean;
+  isMevBot?: boolean;
+  riskScore: number;
+  uniqueTokensTraded?: number;
+  totalVolumeUSD?: number;
+  totalPnL?: number;
+  winRate?: number;
+  graduatedTokens?: number;
+}
+
+export interface EnrichedHolder extends Holder, WalletData {
+  tokenBalance: number;
+  firstTransaction?: Date;
+  isVerified?: boolean;
+  connectedWallets?: string[];
+}
+
+export interface HolderMetrics {
+  distribution: DistributionMetrics;
+  quality: QualityMetrics;
+  activity: ActivityMetrics;
+  risk: RiskMetrics;
+  trend?: HolderTrend | null;     // from earlier snapshots, when a trend stage is configured
+}
+
+export interface HolderScore {
+  total: number;
+  distribution: number;
+  quality: number;
+  activity: number;
+  trend?: number;                 // included in total; absent when the metrics had no trend
+}
+
+export interface HolderAlert {
+  type: 'CRITICAL' | 'WARNING' | 'INFO' | 'POSITIVE';
+  message: string;
+}
+
+export interface AnalysisResult {
+  token: {
+    mint: string;
+    symbol?: string;
+    bondingCurveProgress: number;
+  };
+  metrics: HolderMetrics;
+  score: HolderScore;
+  alerts: HolderAlert[];
+  timestamp: Date;
+  apiCreditsUsed: number;
+  holderSource: HolderList['source'];
+  cacheHitRate: number;
+  processingTimeMs: number;
+}
+
+export type AnalysisPriority = 'high' | 'medium' | 'low';
+
+/**
+ * How much of a token's holder list one analysis looks at
+ */
+export interface AnalysisDepth {
+  maxHolders: number;         // stop paging the holder source after this many
+  sampleSize: number;         // enrich at most this many (top, bottom and a random middle)
+  minHolders: number;         // skip tokens with fewer holders
+}
+
+// ============ Stages ============
+
+export interface HolderList {
+  holders: Holder[];
+  creditsUsed: number;
+  source: 'helius' | 'ledger';
+}
+
+/**
+ * Lists a token's holders, without pools and program accounts
+ */
+export interface HolderSource {
+  fetchHolders(mint: string, maxHolders: number): Promise<HolderList>;
+}
+
+/**
+ * Looks up wallet history for addresses the cache could not answer
+ */
+export interface EnrichmentProvider {
+  enrich(addresses: string[]): Promise<WalletData[]>;
+}
+
+export interface WalletCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  tiers?: Record<string, number>;
+}
+
+/**
+ * Wallet data kept between analyses, so shared holders are enriched once
+ */
+export interface WalletCache {
+  partition(holders: Holder[]): Promise<{ cached: EnrichedHolder[]; uncached: string[] }>;
+  set(address: string, data: WalletData): void;
+  getStats(): WalletCacheStats;
+  cleanup(): void;
+}
+
+/**
+ * How the token's holder distribution has been moving, from its earlier
+ * snapshots
+ */
+export interface TrendProvider {
+  getTrend(mint: string): Promise<HolderTrend | null>;
+}
+
+export interface Scorer {
+  score(metrics: HolderMetrics): HolderScore;
+  alerts(metrics: HolderMetrics, score: HolderScore): HolderAlert[];
+}
+
+/**
+ * Receives every finished analysis, in the order the persisters are listed
+ */
+export interface Persister {
+  persist(result: AnalysisResult): Promise<void>;
+}
+
+export interface HolderAnalysisStages {
+  source: HolderSource;
+  enrichment: EnrichmentProvider;
+  cache: WalletCache;
+  scorer: Scorer;
+  persisters: Persister[];
+  trends?: TrendProvider;
+}
+
+export interface HolderPipelineOptions {
+  progressRange: { min: number; max: number } | null;   // skip tokens outside this bonding curve range
+  depth: Record<AnalysisPriority, AnalysisDepth>;
+  resolveSymbol: boolean;                                // look up tokens.symbol for the result
+  cacheCleanupMs: number | null;                         // evict expired cache entries this often
+}
+
+export type HolderAnalysisPreset = 'v2' | 'v3' | 'optimized';
+
+export interface QuickScoreResult {
+  token: string;
+  score: number;
+  confidence: 'HIGH' | 'MEDIUM' | 'LOW';
+  shouldDeepAnalyze: boolean;
+  metrics: {
+    uniqueBuyers: number;
+    largestBuy: number;
+    buyRatio: number;
+  };
+  processingTime: number;
+}
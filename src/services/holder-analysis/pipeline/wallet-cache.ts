@@ -0,0 +1,344 @@
+import { EnrichedHolder, Holder, WalletCache, WalletCacheStats, WalletData } from './types';
+
+interface CacheEntry {
+  data: WalletData;
+  timestamp: number;
+}
+
+/**
+ * Single in-process map with one TTL
+ */
+export class MemoryWalletCache implements WalletCache {
+  private cache = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private ttl: number = 300000) {}
+
+  async partition(holders: Holder[]): Promise<{ cached: EnrichedHolder[]; uncached: string[] }> {
+    const now = Date.now();
+    const cached: EnrichedHolder[] = [];
+    const uncached: string[] = [];
+
+    for (const holder of holders) {
+      const cacheEntry = this.cache.get(holder.address);
+
+      if (cacheEntry && (now - cacheEntry.timestamp) < this.ttl) {
+        this.hits++;
+        cached.push({
+          ...holder,
+          ...cacheEntry.data,
+          tokenBalance: holder.balance
+        });
+      } else {
+        this.misses++;
+        uncached.push(holder.address);
+      }
+    }
+
+    return { cached, uncached };
+  }
+
+  set(address: string, data: WalletData): void {
+    this.cache.set(address, {
+      data,
+      timestamp: Date.now()
+    });
+  }
+
+  getStats(): WalletCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+      entries: this.cache.size
+    };
+  }
+
+  cleanup(): void {
+    const now = Date.now();
+    for (const [address, entry] of this.cache.entries()) {
+      if (now - entry.timestamp >= this.ttl) {
+        this.cache.delete(address);
+      }
+    }
+  }
+}
+
+type Tier = 'hot' | 'warm' | 'cold' | 'permanent';
+
+/**
+ * Tiered cache with different TTLs based on wallet type, backed by
+ * wallet_analysis_v2 so enrichment survives restarts
+ */
+export class TieredWalletCache implements WalletCache {
+  private tiers: Record<Tier, Map<string, CacheEntry>> = {
+    hot: new Map(),       // 5 min TTL - frequently changing wallets
+    warm: new Map(),      // 30 min TTL - stable wallets
+    cold: new Map(),      // 2 hour TTL - inactive wallets
+    permanent: new Map()  // 24 hour TTL - known bots/smart money
+  };
+
+  private ttls: Record<Tier, number> = {
+    hot: 300000,        // 5 minutes
+    warm: 1800000,      // 30 minutes
+    cold: 7200000,      // 2 hours
+    permanent: 86400000 // 24 hours
+  };
+
+  private cacheStats = {
+    hits: 0,
+    misses: 0,
+    dbLoads: 0
+  };
+
+  constructor(private dbPool: any, options: { preload?: boolean } = {}) {
+    if (options.preload !== false) {
+      this.loadPermanentCache();
+    }
+  }
+
+  async loadPermanentCache() {
+    try {
+      // Load known bots and smart money wallets from DB
+      const result = await this.dbPool.query(`
+        SELECT * FROM wallet_analysis_v2
+        WHERE (is_bot = true OR is_smart_money = true)
+          AND last_analyzed > NOW() - INTERVAL '24 hours'
+        LIMIT 10000
+      `);
+
+      for (const row of result.rows) {
+        this.tiers.permanent.set(row.wallet_address, {
+          data: this.rowToWalletData(row),
+          timestamp: Date.now()
+        });
+      }
+
+      console.log(`📦 Loaded ${result.rows.length} permanent cache entries`);
+    } catch (error) {
+      console.error('Error loading permanent cache:', error);
+    }
+  }
+
+  private rowToWalletData(row: any): WalletData {
+    return {
+      address: row.wallet_address,
+      createdAt: row.created_at,
+      lastActive: row.last_active,
+      transactionCount: row.transaction_count,
+      buyCount: row.buy_count,
+      sellCount: row.sell_count,
+      solBalance: parseFloat(row.sol_balance),
+      walletAge: row.wallet_age_days,
+      isBot: row.is_bot,
+      isSmartMoney: row.is_smart_money,
+      isMevBot: row.is_mev_bot,
+      riskScore: row.risk_score,
+      uniqueTokensTraded: row.unique_tokens_traded,
+      totalVolumeUSD: parseFloat(row.total_volume_usd),
+      totalPnL: parseFloat(row.total_pnl_usd),
+      winRate: parseFloat(row.win_rate),
+      graduatedTokens: row.graduated_tokens
+    };
+  }
+
+  async get(address: string): Promise<WalletData | null> {
+    const now = Date.now();
+
+    // Check each tier in order
+    for (const tierName of Object.keys(this.tiers) as Tier[]) {
+      const entry = this.tiers[tierName].get(address);
+      if (entry && (now - entry.timestamp) < this.ttls[tierName]) {
+        this.cacheStats.hits++;
+
+        // Promote to hotter tier if accessed frequently
+        if (tierName !== 'hot' && tierName !== 'permanent') {
+          this.promote(address, entry.data);
+        }
+
+        return entry.data;
+      }
+    }
+
+    // Try to load from database
+    const dbData = await this.loadFromDatabase(address);
+    if (dbData) {
+      this.cacheStats.dbLoads++;
+      this.set(address, dbData);
+      return dbData;
+    }
+
+    this.cacheStats.misses++;
+    return null;
+  }
+
+  async loadFromDatabase(address: string): Promise<WalletData | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM wallet_analysis_v2 WHERE wallet_address = $1',
+        [address]
+      );
+
+      if (result.rows.length > 0) {
+        return this.rowToWalletData(result.rows[0]);
+      }
+    } catch (error) {
+      console.error(`Error loading wallet ${address} from DB:`, error);
+    }
+
+    return null;
+  }
+
+  set(address: string, data: WalletData): void {
+    const now = Date.now();
+    const tier = this.tierFor(data, now);
+
+    this.tiers[tier].set(address, { data, timestamp: now });
+
+    // Evict from other tiers
+    for (const tierName of Object.keys(this.tiers) as Tier[]) {
+      if (tierName !== tier) {
+        this.tiers[tierName].delete(address);
+      }
+    }
+
+    // Save to database for persistence
+    this.saveToDatabase(address, data);
+  }
+
+  tierFor(data: WalletData, now: number = Date.now()): Tier {
+    if (data.isBot || data.isSmartMoney) {
+      return 'permanent';
+    } else if (data.lastActive.getTime() > now - 3600000) { // Active in last hour
+      return 'hot';
+    } else if (data.lastActive.getTime() > now - 86400000) { // Active in last day
+      return 'warm';
+    }
+    return 'cold';
+  }
+
+  private promote(address: string, data: WalletData): void {
+    // Move to hot tier for frequently accessed items
+    this.tiers.hot.set(address, { data, timestamp: Date.now() });
+
+    // Remove from other non-permanent tiers
+    this.tiers.warm.delete(address);
+    this.tiers.cold.delete(address);
+  }
+
+  private async saveToDatabase(address: string, data: WalletData): Promise<void> {
+    try {
+      await this.dbPool.query(`
+        INSERT INTO wallet_analysis_v2 (
+          wallet_address, created_at, last_active, transaction_count,
+          buy_count, sell_count, unique_tokens_traded, total_volume_usd,
+          total_pnl_usd, win_rate, graduated_tokens, sol_balance,
+          wallet_age_days, is_bot, is_smart_money, is_mev_bot,
+          risk_score, last_analyzed
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW())
+        ON CONFLICT (wallet_address) DO UPDATE SET
+          last_active = EXCLUDED.last_active,
+          transaction_count = EXCLUDED.transaction_count,
+          buy_count = EXCLUDED.buy_count,
+          sell_count = EXCLUDED.sell_count,
+          unique_tokens_traded = EXCLUDED.unique_tokens_traded,
+          total_volume_usd = EXCLUDED.total_volume_usd,
+          total_pnl_usd = EXCLUDED.total_pnl_usd,
+          win_rate = EXCLUDED.win_rate,
+          graduated_tokens = EXCLUDED.graduated_tokens,
+          sol_balance = EXCLUDED.sol_balance,
+          wallet_age_days = EXCLUDED.wallet_age_days,
+          is_bot = EXCLUDED.is_bot,
+          is_smart_money = EXCLUDED.is_smart_money,
+          is_mev_bot = EXCLUDED.is_mev_bot,
+          risk_score = EXCLUDED.risk_score,
+          last_analyzed = NOW(),
+          analysis_count = wallet_analysis_v2.analysis_count + 1
+      `, [
+        address,
+        data.createdAt,
+        data.lastActive,
+        data.transactionCount,
+        data.buyCount,
+        data.sellCount,
+        data.uniqueTokensTraded || 0,
+        data.totalVolumeUSD || 0,
+        data.totalPnL || 0,
+        data.winRate || 0,
+        data.graduatedTokens || 0,
+        data.solBalance,
+        data.walletAge,
+        data.isBot,
+        data.isSmartMoney,
+        data.isMevBot || false,
+        data.riskScore
+      ]);
+    } catch (error) {
+      console.error(`Error saving wallet ${address} to DB:`, error);
+    }
+  }
+
+  async partition(holders: Holder[]): Promise<{ cached: EnrichedHolder[]; uncached: string[] }> {
+    const cached: EnrichedHolder[] = [];
+    const uncached: string[] = [];
+
+    const results = await Promise.all(holders.map(async holder => ({
+      holder,
+      data: await this.get(holder.address)
+    })));
+
+    for (const { holder, data } of results) {
+      if (data) {
+        cached.push({
+          ...holder,
+          ...data,
+          tokenBalance: holder.balance
+        });
+      } else {
+        uncached.push(holder.address);
+      }
+    }
+
+    return { cached, uncached };
+  }
+
+  getStats(): WalletCacheStats & { dbLoads: number } {
+    const total = this.cacheStats.hits + this.cacheStats.misses;
+    const tiers = {
+      hot: this.tiers.hot.size,
+      warm: this.tiers.warm.size,
+      cold: this.tiers.cold.size,
+      permanent: this.tiers.permanent.size
+    };
+
+    return {
+      ...this.cacheStats,
+      hitRate: total > 0 ? this.cacheStats.hits / total : 0,
+      entries: tiers.hot + tiers.warm + tiers.cold + tiers.permanent,
+      tiers
+    };
+  }
+
+  // Periodic cleanup of expired entries
+  cleanup(): void {
+    const now = Date.now();
+    let evicted = 0;
+
+    for (const tierName of Object.keys(this.tiers) as Tier[]) {
+      const ttl = this.ttls[tierName];
+
+      for (const [address, entry] of this.tiers[tierName].entries()) {
+        if (now - entry.timestamp > ttl) {
+          this.tiers[tierName].delete(address);
+          evicted++;
+        }
+      }
+    }
+
+    if (evicted > 0) {
+      console.log(`🧹 Evicted ${evicted} expired cache entries`);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { HolderLedgerConfig } from './types';
+
+export const defaultConfig: HolderLedgerConfig = {
+  dustBalance: 0.000001,
+  maxBalanceDrift: 0.02,
+  maxCountDrift: 0.05,
+  reconcileMinutes: 60,
+  lookbackHours: 24,
+  maxMintsPerRun: 500,
+  captureBatchSize: 100,
+  captureFlushMs: 5000
+};
+
+export function loadConfig(): HolderLedgerConfig {
+  return {
+    ...defaultConfig,
+    maxBalanceDrift: parseFloat(process.env.HOLDER_LEDGER_MAX_DRIFT || '') || defaultConfig.maxBalanceDrift,
+    reconcileMinutes: parseInt(process.env.HOLDER_LEDGER_RECONCILE_MINUTES || '') || defaultConfig.reconcileMinutes,
+    lookbackHours: parseInt(process.env.HOLDER_LEDGER_LOOKBACK_HOURS || '') || defaultConfig.lookbackHours
+  };
+}
@@ -0,0 +1,519 @@
+import { Pool } from 'pg';
+import { getDbPool } from '../../database/connection';
+import type { Holder } from '../holder-analysis/pipeline/types';
+import { loadConfig } from './config';
+import { extractTransfers, TokenBalanceMeta } from './transfer-capture';
+import {
+  CapturedTrade,
+  HolderBalance,
+  HolderLedgerConfig,
+  HolderLedgerRunResult,
+  LedgerState,
+  LedgerTransfer,
+  Reconciliation
+} from './types';
+
+// Rows committed by a transaction that started just before a rebuild can
+// carry a created_at earlier than rebuilt_at without being in the rebuild,
+// so a mint stays dirty for this long after its last activity
+const STALE_MARGIN_SECONDS = 30;
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : parseFloat(value);
+}
+
+function toState(row: any): LedgerState {
+  return {
+    mintAddress: row.mint_address,
+    tokenId: row.token_id,
+    holderCount: row.holder_count,
+    negativeBalances: row.negative_balances,
+    totalHeld: parseFloat(row.total_held),
+    tradeCount: row.trade_count,
+    transferCount: row.transfer_count,
+    rebuiltAt: new Date(row.rebuilt_at),
+    trusted: row.trusted,
+    lastReconciledAt: row.last_reconciled_at ? new Date(row.last_reconciled_at) : null,
+    lastBalanceDrift: toNumber(row.last_balance_drift),
+    lastCountDrift: toNumber(row.last_count_drift)
+  };
+}
+
+function toBalance(row: any): HolderBalance {
+  return {
+    owner: row.owner,
+    balance: parseFloat(row.balance),
+    bought: parseFloat(row.bought),
+    sold: parseFloat(row.sold),
+    transferredIn: parseFloat(row.transferred_in),
+    transferredOut: parseFloat(row.transferred_out),
+    tradeCount: row.trade_count,
+    firstActivity: row.first_activity ? new Date(row.first_activity) : null,
+    lastActivity: row.last_activity ? new Date(row.last_activity) : null
+  };
+}
+
+function topOwners(balances: Map<string, number>, count: number): string[] {
+  return [...balances.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([owner]) => owner);
+}
+
+/**
+ * Holder balances reconstructed from our own data: every buy and sell in
+ * `transactions`, plus the token transfers the monitors see alongside
+ * trades and those the wallet tracker records for tracked wallets. A mint
+ * is rebuilt in full from those rows rather than updated incrementally,
+ * so late and backfilled rows land without any bookkeeping.
+ *
+ * Transfers between wallets that never trade through a monitored program
+ * are invisible here, which is why the ledger is only trusted for a mint
+ * after a Helius reconciliation agrees with it.
+ */
+export class HolderLedger {
+  private pool: Pool;
+  private config: HolderLedgerConfig;
+  private pending: LedgerTransfer[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: Partial<HolderLedgerConfig> = {}) {
+    this.pool = getDbPool();
+    this.config = { ...loadConfig(), ...config };
+  }
+
+  // ============ Transfer Capture ============
+
+  /**
+   * Record the non-trade balance changes of a monitored transaction.
+   * Buffered and written in batches; never throws into the monitor.
+   */
+  captureTrade(trade: CapturedTrade, meta: TokenBalanceMeta | null | undefined): void {
+    try {
+      const transfers = extractTransfers(meta, trade);
+      if (transfers.length === 0) return;
+
+      this.pending.push(...transfers);
+      if (this.pending.length >= this.config.captureBatchSize) {
+        void this.flushTransfers();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => void this.flushTransfers(), this.config.captureFlushMs);
+      }
+    } catch (error) {
+      console.error('Holder ledger capture failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  async flushTransfers(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.length === 0) return;
+
+    const batch = this.pending;
+    this.pending = [];
+
+    try {
+      await this.pool.query(
+        `INSERT INTO holder_ledger_transfers (signature, mint_address, owner, delta, slot, block_time, source)
+         SELECT * FROM UNNEST($1::text[], $2::text[], $3::text[], $4::numeric[], $5::bigint[], $6::timestamptz[], $7::text[])
+         ON CONFLICT (signature, mint_address, owner) DO NOTHING`,
+        [
+          batch.map(t => t.signature),
+          batch.map(t => t.mintAddress),
+          batch.map(t => t.owner),
+          batch.map(t => t.delta),
+          batch.map(t => t.slot),
+          batch.map(t => t.blockTime),
+          batch.map(t => t.source)
+        ]
+      );
+    } catch (error) {
+      console.error(`Failed to save ${batch.length} holder ledger transfers:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // ============ Rebuild ============
+
+  /**
+   * Rebuild mints traded within `lookbackHours` whose ledger is missing
+   * or older than their newest trade or transfer, oldest ledger first
+   */
+  async run(): Promise<HolderLedgerRunResult> {
+    const result: HolderLedgerRunResult = { mintsRebuilt: 0, holders: 0, negativeBalances: 0, errors: 0 };
+
+    const stale = await this.pool.query(
+      `WITH activity AS (
+        SELECT token_id, MAX(created_at) AS last_seen
+        FROM transactions
+        WHERE block_time > NOW() - make_interval(hours => $1)
+        GROUP BY token_id
+        UNION ALL
+        SELECT t.id, MAX(lt.created_at)
+        FROM holder_ledger_transfers lt
+        JOIN tokens t ON t.mint_address = lt.mint_address
+        WHERE lt.created_at > NOW() - make_interval(hours => $1)
+        GROUP BY t.id
+      )
+      SELECT t.id, t.mint_address
+      FROM activity a
+      JOIN tokens t ON t.id = a.token_id
+      LEFT JOIN holder_ledger_state s ON s.mint_address = t.mint_address
+      GROUP BY t.id, t.mint_address, s.rebuilt_at
+      HAVING s.rebuilt_at IS NULL OR MAX(a.last_seen) > s.rebuilt_at - make_interval(secs => $3)
+      ORDER BY s.rebuilt_at NULLS FIRST
+      LIMIT $2`,
+      [this.config.lookbackHours, this.config.maxMintsPerRun, STALE_MARGIN_SECONDS]
+    );
+
+    for (const row of stale.rows) {
+      try {
+        const state = await this.rebuild(row.mint_address, row.id);
+        result.mintsRebuilt++;
+        result.holders += state.holderCount;
+        result.negativeBalances += state.negativeBalances;
+      } catch (error) {
+        result.errors++;
+        console.error(`Holder ledger rebuild failed for ${row.mint_address}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Recompute every balance of a mint: bought - sold from `transactions`,
+   * plus the net of its captured and tracked-wallet transfers. A negative
+   * balance means a transfer in was missed, so it revokes trust.
+   */
+  async rebuild(mintAddress: string, tokenId?: string): Promise<LedgerState> {
+    const id = tokenId ?? await this.getTokenId(mintAddress);
+    if (!id) {
+      throw new Error(`Token ${mintAddress} not found`);
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `INSERT INTO holder_ledger_transfers (signature, mint_address, owner, delta, slot, block_time, source)
+         SELECT
+           transaction_hash,
+           token_mint,
+           wallet_address,
+           SUM(CASE WHEN direction = 'in' THEN amount ELSE -amount END),
+           NULL,
+           MIN(block_time),
+           'wallet_tracker'
+         FROM wallet_token_transfers
+         WHERE token_mint = $1
+         GROUP BY transaction_hash, token_mint, wallet_address
+         HAVING SUM(CASE WHEN direction = 'in' THEN amount ELSE -amount END) <> 0
+         ON CONFLICT (signature, mint_address, owner) DO NOTHING`,
+        [mintAddress]
+      );
+
+      await client.query('DELETE FROM holder_balances WHERE mint_address = $1', [mintAddress]);
+
+      await client.query(
+        `INSERT INTO holder_balances (
+          mint_address, owner, token_id, balance, bought, sold,
+          transferred_in, transferred_out, trade_count, first_activity, last_activity
+        )
+        SELECT
+          $1,
+          owner,
+          $2::uuid,
+          COALESCE(tr.bought, 0) - COALESCE(tr.sold, 0) + COALESCE(tf.received, 0) - COALESCE(tf.sent, 0),
+          COALESCE(tr.bought, 0),
+          COALESCE(tr.sold, 0),
+          COALESCE(tf.received, 0),
+          COALESCE(tf.sent, 0),
+          COALESCE(tr.trades, 0),
+          LEAST(tr.first_at, tf.first_at),
+          GREATEST(tr.last_at, tf.last_at)
+        FROM (
+          SELECT
+            user_address AS owner,
+            SUM(token_amount) FILTER (WHERE type = 'buy') AS bought,
+            SUM(token_amount) FILTER (WHERE type = 'sell') AS sold,
+            COUNT(*) AS trades,
+            MIN(block_time) AS first_at,
+            MAX(block_time) AS last_at
+          FROM transactions
+          WHERE token_id = $2::uuid
+            AND type IN ('buy', 'sell')
+            AND success IS NOT FALSE
+          GROUP BY user_address
+        ) tr
+        FULL OUTER JOIN (
+          SELECT
+            owner,
+            SUM(delta) FILTER (WHERE delta > 0) AS received,
+            -SUM(delta) FILTER (WHERE delta < 0) AS sent,
+            MIN(block_time) AS first_at,
+            MAX(block_time) AS last_at
+          FROM holder_ledger_transfers
+          WHERE mint_address = $1
+          GROUP BY owner
+        ) tf USING (owner)`,
+        [mintAddress, id]
+      );
+
+      const state = await client.query(
+        `INSERT INTO holder_ledger_state (
+          mint_address, token_id, holder_count, negative_balances, total_held,
+          trade_count, transfer_count, rebuilt_at, trusted
+        )
+        SELECT
+          $1,
+          $2::uuid,
+          COUNT(*) FILTER (WHERE balance > $3::numeric),
+          COUNT(*) FILTER (WHERE balance < -$3::numeric),
+          COALESCE(SUM(balance) FILTER (WHERE balance > $3::numeric), 0),
+          COALESCE(SUM(trade_count), 0),
+          (SELECT COUNT(*) FROM holder_ledger_transfers WHERE mint_address = $1),
+          NOW(),
+          FALSE
+        FROM holder_balances
+        WHERE mint_address = $1
+        ON CONFLICT (mint_address) DO UPDATE SET
+          holder_count = EXCLUDED.holder_count,
+          negative_balances = EXCLUDED.negative_balances,
+          total_held = EXCLUDED.total_held,
+          trade_count = EXCLUDED.trade_count,
+          transfer_count = EXCLUDED.transfer_count,
+          rebuilt_at = EXCLUDED.rebuilt_at,
+          trusted = holder_ledger_state.trusted AND EXCLUDED.negative_balances = 0
+        RETURNING *`,
+        [mintAddress, id, this.config.dustBalance]
+      );
+
+      await client.query('COMMIT');
+      return toState(state.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * The ledger state, rebuilt first if a trade or transfer arrived since
+   * the last rebuild. Null for a mint we have never seen.
+   */
+  async refresh(mintAddress: string): Promise<LedgerState | null> {
+    const result = await this.pool.query(
+      `SELECT
+        t.id,
+        s.rebuilt_at,
+        s.rebuilt_at IS NULL
+          OR (SELECT MAX(created_at) FROM transactions WHERE token_id = t.id) > s.rebuilt_at - make_interval(secs => $2)
+          OR (SELECT MAX(created_at) FROM holder_ledger_transfers WHERE mint_address = t.mint_address) > s.rebuilt_at - make_interval(secs => $2)
+          AS stale
+       FROM tokens t
+       LEFT JOIN holder_ledger_state s ON s.mint_address = t.mint_address
+       WHERE t.mint_address = $1`,
+      [mintAddress, STALE_MARGIN_SECONDS]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return row.stale ? this.rebuild(mintAddress, row.id) : this.getState(mintAddress);
+  }
+
+  // ============ Queries ============
+
+  async getState(mintAddress: string): Promise<LedgerState | null> {
+    const result = await this.pool.query('SELECT * FROM holder_ledger_state WHERE mint_address = $1', [mintAddress]);
+    return result.rows[0] ? toState(result.rows[0]) : null;
+  }
+
+  /**
+   * Current holders, largest first, in the shape holder analysis expects.
+   * The ledger tracks owners rather than token accounts, so `tokenAccount`
+   * is empty.
+   */
+  async getHolders(mintAddress: string, options: { refresh?: boolean; limit?: number } = {}): Promise<Holder[]> {
+    const balances = await this.getBalances(mintAddress, options);
+    return balances.map(balance => ({
+      address: balance.owner,
+      balance: balance.balance,
+      tokenAccount: ''
+    }));
+  }
+
+  async getBalances(mintAddress: string, options: { refresh?: boolean; limit?: number } = {}): Promise<HolderBalance[]> {
+    if (options.refresh !== false) {
+      await this.refresh(mintAddress);
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM holder_balances
+       WHERE mint_address = $1 AND balance > $2
+       ORDER BY balance DESC, owner
+       LIMIT $3`,
+      [mintAddress, this.config.dustBalance, options.limit ?? null]
+    );
+    return result.rows.map(toBalance);
+  }
+
+  async getReconciliations(mintAddress: string, limit: number = 20): Promise<Array<Reconciliation & { reconciledAt: Date }>> {
+    const result = await this.pool.query(
+      `SELECT * FROM holder_ledger_reconciliations
+       WHERE mint_address = $1
+       ORDER BY reconciled_at DESC
+       LIMIT $2`,
+      [mintAddress, limit]
+    );
+    return result.rows.map(row => ({
+      mintAddress: row.mint_address,
+      ledgerHolders: row.ledger_holders,
+      heliusHolders: row.helius_holders,
+      matchedHolders: row.matched_holders,
+      countDrift: parseFloat(row.count_drift),
+      balanceDrift: parseFloat(row.balance_drift),
+      top10Overlap: row.top10_overlap,
+      passed: row.passed,
+      largestDifferences: row.details?.largestDifferences || [],
+      reconciledAt: new Date(row.reconciled_at)
+    }));
+  }
+
+  // ============ Reconciliation ============
+
+  /**
+   * Whether a mint's ledger can be served without asking Helius
+   */
+  isTrusted(state: LedgerState | null): boolean {
+    if (!state?.trusted || !state.lastReconciledAt) return false;
+    return Date.now() - state.lastReconciledAt.getTime() < this.config.reconcileMinutes * 60 * 1000;
+  }
+
+  /**
+   * Compare the ledger with holders fetched from Helius and record the
+   * result. Helius lists token accounts, so balances are summed per owner
+   * and the token's pool accounts dropped before comparing. The ledger is
+   * trusted until the next reconciliation if both the holder count and the
+   * allocation of the held supply are within the configured drift.
+   */
+  async reconcile(mintAddress: string, heliusHolders: Holder[]): Promise<Reconciliation> {
+    const state = await this.refresh(mintAddress);
+    if (!state) {
+      throw new Error(`Token ${mintAddress} not found`);
+    }
+
+    const pools = await this.pool.query(
+      'SELECT pool_address, bonding_curve_address FROM pools WHERE token_id = $1',
+      [state.tokenId]
+    );
+    const poolOwners = new Set<string>(
+      pools.rows.flatMap(row => [row.pool_address, row.bonding_curve_address]).filter(Boolean)
+    );
+
+    const helius = new Map<string, number>();
+    for (const holder of heliusHolders) {
+      if (poolOwners.has(holder.address)) continue;
+      helius.set(holder.address, (helius.get(holder.address) || 0) + holder.balance);
+    }
+    for (const [owner, balance] of helius) {
+      if (balance <= this.config.dustBalance) helius.delete(owner);
+    }
+
+    const ledger = new Map<string, number>(
+      (await this.getHolders(mintAddress, { refresh: false })).map(holder => [holder.address, holder.balance])
+    );
+
+    let difference = 0;
+    let matched = 0;
+    const differences: Reconciliation['largestDifferences'] = [];
+    for (const owner of new Set([...ledger.keys(), ...helius.keys()])) {
+      const ledgerBalance = ledger.get(owner) || 0;
+      const heliusBalance = helius.get(owner) || 0;
+      const gap = Math.abs(ledgerBalance - heliusBalance);
+      difference += gap;
+      if (ledger.has(owner) && helius.has(owner) && gap <= Math.max(this.config.dustBalance, heliusBalance * 0.001)) {
+        matched++;
+      } else {
+        differences.push({ owner, ledger: ledgerBalance, helius: heliusBalance });
+      }
+    }
+
+    const heldSupply = Math.max(
+      [...helius.values()].reduce((sum, balance) => sum + balance, 0),
+      [...ledger.values()].reduce((sum, balance) => sum + balance, 0)
+    );
+    const heliusTop = new Set(topOwners(helius, 10));
+
+    const reconciliation: Reconciliation = {
+      mintAddress,
+      ledgerHolders: ledger.size,
+      heliusHolders: helius.size,
+      matchedHolders: matched,
+      countDrift: Math.abs(ledger.size - helius.size) / Math.max(helius.size, 1),
+      // Each misallocated token is counted once on each side
+      balanceDrift: heldSupply > 0 ? difference / (2 * heldSupply) : 0,
+      top10Overlap: topOwners(ledger, 10).filter(owner => heliusTop.has(owner)).length,
+      passed: false,
+      largestDifferences: differences
+        .sort((a, b) => Math.abs(b.ledger - b.helius) - Math.abs(a.ledger - a.helius))
+        .slice(0, 10)
+    };
+    reconciliation.passed = state.negativeBalances === 0
+      && reconciliation.balanceDrift <= this.config.maxBalanceDrift
+      && reconciliation.countDrift <= this.config.maxCountDrift;
+
+    await this.saveReconciliation(state.tokenId, reconciliation);
+    return reconciliation;
+  }
+
+  private async saveReconciliation(tokenId: string, reconciliation: Reconciliation): Promise<void> {
+    // Drift columns hold up to 999.9999
+    const driftColumn = (drift: number) => Math.min(drift, 999);
+
+    await this.pool.query(
+      `INSERT INTO holder_ledger_reconciliations (
+        mint_address, token_id, ledger_holders, helius_holders, matched_holders,
+        count_drift, balance_drift, top10_overlap, passed, details
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        reconciliation.mintAddress,
+        tokenId,
+        reconciliation.ledgerHolders,
+        reconciliation.heliusHolders,
+        reconciliation.matchedHolders,
+        driftColumn(reconciliation.countDrift),
+        driftColumn(reconciliation.balanceDrift),
+        reconciliation.top10Overlap,
+        reconciliation.passed,
+        JSON.stringify({ largestDifferences: reconciliation.largestDifferences })
+      ]
+    );
+
+    await this.pool.query(
+      `UPDATE holder_ledger_state
+       SET trusted = $2,
+           last_reconciled_at = NOW(),
+           last_balance_drift = $3,
+           last_count_drift = $4
+       WHERE mint_address = $1`,
+      [
+        reconciliation.mintAddress,
+        reconciliation.passed,
+        driftColumn(reconciliation.balanceDrift),
+        driftColumn(reconciliation.countDrift)
+      ]
+    );
+  }
+
+  private async getTokenId(mintAddress: string): Promise<string | null> {
+    const result = await this.pool.query('SELECT id FROM tokens WHERE mint_address = $1', [mintAddress]);
+    return result.rows[0]?.id ?? null;
+  }
+}
+
+// Export singleton instance
+export const holderLedger = new HolderLedger();
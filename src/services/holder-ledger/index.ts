@@ -0,0 +1,7 @@
+// Holder Ledger - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { HolderLedger, holderLedger } from './holder-ledger';
+export { extractTransfers, ownerDeltas } from './transfer-capture';
+export type { TokenBalanceMeta } from './transfer-capture';
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { holderLedger } from './holder-ledger';
+
+/**
+ * Rebuild holder balances for recently traded mints from transactions and
+ * captured transfers
+ *
+ * Usage:
+ *   npm run holder-ledger
+ *   npm run holder-ledger -- --interval 2          # again every 2 minutes
+ *   npm run holder-ledger -- --token <mint>        # rebuild one mint and print its top holders
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runOnce(): Promise<void> {
+  const startedAt = Date.now();
+  const result = await holderLedger.run();
+  console.log(
+    `📒 Holder ledger: ${result.mintsRebuilt} mints rebuilt, ${result.holders} holders` +
+    `${result.negativeBalances > 0 ? `, ${result.negativeBalances} negative balances` : ''}` +
+    `${result.errors > 0 ? `, ${result.errors} failed` : ''} (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const token = getOption(args, '--token');
+  const interval = getOption(args, '--interval');
+
+  if (token) {
+    const state = await holderLedger.rebuild(token);
+    const holders = await holderLedger.getBalances(token, { refresh: false, limit: 20 });
+    const reconciliations = await holderLedger.getReconciliations(token, 1);
+    console.log(JSON.stringify({ state, holders, lastReconciliation: reconciliations[0] ?? null }, null, 2));
+    return;
+  }
+
+  await runOnce();
+  if (!interval) return;
+
+  const intervalMs = parseFloat(interval) * 60 * 1000;
+  console.log(`🔁 Next run in ${interval} minutes`);
+  await new Promise<void>(() => {
+    const schedule = () => setTimeout(async () => {
+      try {
+        await runOnce();
+      } catch (error) {
+        console.error('Holder ledger run failed:', error);
+      }
+      schedule();
+    }, intervalMs);
+    schedule();
+  });
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
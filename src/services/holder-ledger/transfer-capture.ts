@@ -0,0 +1,75 @@
+import { TokenBalance } from '@solana/web3.js';
+import { CapturedTrade, LedgerTransfer } from './types';
+
+// Balance changes smaller than the ledger's precision are rounding, not transfers
+const EPSILON = 0.000001;
+
+export interface TokenBalanceMeta {
+  preTokenBalances?: TokenBalance[] | null;
+  postTokenBalances?: TokenBalance[] | null;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+function uiAmount(balance: TokenBalance): number {
+  const { amount, decimals } = balance.uiTokenAmount;
+  return Number(amount) / Math.pow(10, decimals);
+}
+
+/**
+ * Net token balance change per owner for one mint, from a transaction's
+ * pre and post token balances. An account missing on one side was opened
+ * or closed in the transaction and counts as zero there.
+ */
+export function ownerDeltas(meta: TokenBalanceMeta, mintAddress: string): Map<string, number> {
+  const deltas = new Map<string, number>();
+  const add = (balances: TokenBalance[] | null | undefined, sign: number) => {
+    for (const balance of balances || []) {
+      if (balance.mint !== mintAddress || !balance.owner) continue;
+      deltas.set(balance.owner, (deltas.get(balance.owner) || 0) + sign * uiAmount(balance));
+    }
+  };
+
+  add(meta.preTokenBalances, -1);
+  add(meta.postTokenBalances, 1);
+  return deltas;
+}
+
+/**
+ * The balance changes in a traded transaction that the trade itself does
+ * not explain. `transactions` already records the trader's side of the
+ * trade, so only the trader's residual is kept; any other owner whose
+ * balance moved (a transfer or airdrop bundled into the same transaction)
+ * is kept in full. Pool and bonding curve accounts are left out: they are
+ * not holders.
+ */
+export function extractTransfers(meta: TokenBalanceMeta | null | undefined, trade: CapturedTrade): LedgerTransfer[] {
+  if (!meta) return [];
+
+  const excluded = new Set(trade.excludeOwners);
+  const transfers: LedgerTransfer[] = [];
+
+  for (const [owner, delta] of ownerDeltas(meta, trade.mintAddress)) {
+    if (excluded.has(owner)) continue;
+
+    const traded = owner === trade.trader
+      ? (trade.type === 'buy' ? trade.tokenAmount : -trade.tokenAmount)
+      : 0;
+    const residual = round(delta - traded);
+    if (Math.abs(residual) < EPSILON) continue;
+
+    transfers.push({
+      signature: trade.signature,
+      mintAddress: trade.mintAddress,
+      owner,
+      delta: residual,
+      slot: trade.slot,
+      blockTime: trade.blockTime,
+      source: 'monitor'
+    });
+  }
+
+  return transfers;
+}
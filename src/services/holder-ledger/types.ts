@@ -0,0 +1,84 @@
+/**
+ * A change in one owner's token balance that was not a trade
+ */
+export interface LedgerTransfer {
+  signature: string;
+  mintAddress: string;
+  owner: string;
+  delta: number;              // tokens, positive when received
+  slot: number | null;
+  blockTime: Date;
+  source: 'monitor' | 'wallet_tracker';
+}
+
+/**
+ * The trade a monitored transaction was decoded as. Balance changes beyond
+ * it in the same transaction are transfers.
+ */
+export interface CapturedTrade {
+  signature: string;
+  mintAddress: string;
+  trader: string;
+  type: 'buy' | 'sell';
+  tokenAmount: number;
+  slot: number | null;
+  blockTime: Date;
+  excludeOwners: string[];    // pool and bonding curve accounts
+}
+
+export interface HolderBalance {
+  owner: string;
+  balance: number;
+  bought: number;
+  sold: number;
+  transferredIn: number;
+  transferredOut: number;
+  tradeCount: number;
+  firstActivity: Date | null;
+  lastActivity: Date | null;
+}
+
+export interface LedgerState {
+  mintAddress: string;
+  tokenId: string;
+  holderCount: number;
+  negativeBalances: number;
+  totalHeld: number;
+  tradeCount: number;
+  transferCount: number;
+  rebuiltAt: Date;
+  trusted: boolean;
+  lastReconciledAt: Date | null;
+  lastBalanceDrift: number | null;
+  lastCountDrift: number | null;
+}
+
+export interface Reconciliation {
+  mintAddress: string;
+  ledgerHolders: number;
+  heliusHolders: number;
+  matchedHolders: number;
+  countDrift: number;         // |ledger - helius| / helius holders
+  balanceDrift: number;       // share of held supply assigned to different owners
+  top10Overlap: number;
+  passed: boolean;
+  largestDifferences: Array<{ owner: string; ledger: number; helius: number }>;
+}
+
+export interface HolderLedgerConfig {
+  dustBalance: number;        // balances at or below this are not holders
+  maxBalanceDrift: number;    // reconciliation fails above this
+  maxCountDrift: number;
+  reconcileMinutes: number;   // trusted mints are re-checked against Helius this often
+  lookbackHours: number;      // mints traded this recently are rebuilt by the runner
+  maxMintsPerRun: number;
+  captureBatchSize: number;   // captured transfers are written in batches this large
+  captureFlushMs: number;
+}
+
+export interface HolderLedgerRunResult {
+  mintsRebuilt: number;
+  holders: number;
+  negativeBalances: number;
+  errors: number;
+}
@@ -0,0 +1,16 @@
+import { HolderTrendConfig } from './types';
+
+export const defaultConfig: HolderTrendConfig = {
+  windowHours: 6,
+  flowLookbackHours: 24,
+  maxTokensPerRun: 200,
+  sparklinePoints: 24
+};
+
+export function loadConfig(): HolderTrendConfig {
+  return {
+    ...defaultConfig,
+    windowHours: parseFloat(process.env.HOLDER_TREND_WINDOW_HOURS || '') || defaultConfig.windowHours,
+    flowLookbackHours: parseInt(process.env.HOLDER_TREND_FLOW_LOOKBACK_HOURS || '') || defaultConfig.flowLookbackHours
+  };
+}
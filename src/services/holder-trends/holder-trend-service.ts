@@ -0,0 +1,165 @@
+import { Pool } from 'pg';
+import { getDbPool } from '../../database/connection';
+import { holderLedger } from '../holder-ledger/holder-ledger';
+import { defaultConfig as ledgerConfig } from '../holder-ledger/config';
+import { loadConfig } from './config';
+import { computeTrend } from './trend-calculator';
+import { HolderTrend, HolderTrendBucket, HolderTrendConfig, HolderTrendRunResult } from './types';
+
+function toBucket(row: any): HolderTrendBucket {
+  return {
+    bucket: new Date(row.bucket),
+    snapshots: parseInt(row.snapshot_count),
+    firstSnapshotAt: new Date(row.first_snapshot_at),
+    lastSnapshotAt: new Date(row.last_snapshot_at),
+    firstHolders: row.first_holders,
+    lastHolders: row.last_holders,
+    firstGini: parseFloat(row.first_gini),
+    lastGini: parseFloat(row.last_gini),
+    firstHhi: parseFloat(row.first_hhi),
+    lastHhi: parseFloat(row.last_hhi),
+    firstTop10: parseFloat(row.first_top_10),
+    lastTop10: parseFloat(row.last_top_10),
+    holdersEntered: parseInt(row.holders_entered) || 0,
+    holdersExited: parseInt(row.holders_exited) || 0,
+    flowSnapshots: parseInt(row.flow_snapshots) || 0
+  };
+}
+
+/**
+ * Holder distribution over time. Snapshots are bucketed by the
+ * holder_trends_15m continuous aggregate; this service fills in each
+ * snapshot's holder flow from the holder ledger and turns the buckets
+ * into trends for scoring and the dashboard.
+ */
+export class HolderTrendService {
+  private pool: Pool;
+  private config: HolderTrendConfig;
+
+  constructor(config: Partial<HolderTrendConfig> = {}) {
+    this.pool = getDbPool();
+    this.config = { ...loadConfig(), ...config };
+  }
+
+  // ============ Holder Flow ============
+
+  /**
+   * Record holders entered and exited for recent snapshots that have no
+   * flow yet. Each token's ledger is brought up to date first, so every
+   * trade before the snapshot is counted.
+   */
+  async recordFlows(): Promise<HolderTrendRunResult> {
+    const result: HolderTrendRunResult = { tokensChecked: 0, snapshotsUpdated: 0, errors: 0 };
+
+    const pending = await this.pool.query(
+      `SELECT t.id, t.mint_address
+       FROM tokens t
+       WHERE t.id IN (
+         SELECT DISTINCT token_id FROM holder_snapshots_v2
+         WHERE holders_entered IS NULL
+           AND snapshot_time > NOW() - make_interval(hours => $1)
+       )
+       LIMIT $2`,
+      [this.config.flowLookbackHours, this.config.maxTokensPerRun]
+    );
+
+    for (const row of pending.rows) {
+      try {
+        await holderLedger.refresh(row.mint_address);
+        result.snapshotsUpdated += await this.recordTokenFlows(row.id, row.mint_address);
+        result.tokensChecked++;
+      } catch (error) {
+        result.errors++;
+        console.error(`Holder flow failed for ${row.mint_address}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Entered: first activity between the previous snapshot and this one.
+   * Exited: balance now zero and last activity in the same interval. An
+   * owner who left and came back later counts as neither.
+   */
+  private async recordTokenFlows(tokenId: string, mintAddress: string): Promise<number> {
+    const result = await this.pool.query(
+      `WITH pending AS (
+        SELECT
+          s.id,
+          s.snapshot_time,
+          COALESCE(
+            (SELECT MAX(p.snapshot_time) FROM holder_snapshots_v2 p
+             WHERE p.token_id = s.token_id AND p.snapshot_time < s.snapshot_time),
+            '-infinity'::timestamptz
+          ) AS previous_time
+        FROM holder_snapshots_v2 s
+        WHERE s.token_id = $1
+          AND s.holders_entered IS NULL
+          AND s.snapshot_time > NOW() - make_interval(hours => $3)
+      ),
+      flows AS (
+        SELECT
+          p.id,
+          p.snapshot_time,
+          COUNT(b.owner) FILTER (
+            WHERE b.first_activity > p.previous_time AND b.first_activity <= p.snapshot_time
+          ) AS entered,
+          COUNT(b.owner) FILTER (
+            WHERE b.balance <= $4 AND b.last_activity > p.previous_time AND b.last_activity <= p.snapshot_time
+          ) AS exited
+        FROM pending p
+        LEFT JOIN holder_balances b ON b.mint_address = $2
+        GROUP BY p.id, p.snapshot_time
+      )
+      UPDATE holder_snapshots_v2 s
+      SET holders_entered = f.entered,
+          holders_exited = f.exited
+      FROM flows f
+      WHERE s.id = f.id AND s.snapshot_time = f.snapshot_time`,
+      [tokenId, mintAddress, this.config.flowLookbackHours, ledgerConfig.dustBalance]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  // ============ Trends ============
+
+  async getTrend(mintAddress: string): Promise<HolderTrend | null> {
+    const token = await this.pool.query('SELECT id FROM tokens WHERE mint_address = $1', [mintAddress]);
+    if (token.rows.length === 0) return null;
+
+    const trends = await this.getTrends([token.rows[0].id]);
+    return trends.get(token.rows[0].id) ?? null;
+  }
+
+  /**
+   * Trends for many tokens in one query, keyed by token id. Tokens without
+   * snapshots in the window are left out.
+   */
+  async getTrends(tokenIds: string[]): Promise<Map<string, HolderTrend>> {
+    const trends = new Map<string, HolderTrend>();
+    if (tokenIds.length === 0) return trends;
+
+    const result = await this.pool.query(
+      `SELECT * FROM holder_trends_15m
+       WHERE token_id = ANY($1::uuid[])
+         AND bucket > NOW() - make_interval(mins => $2)
+       ORDER BY token_id, bucket`,
+      [tokenIds, Math.round(this.config.windowHours * 60)]
+    );
+
+    const buckets = new Map<string, HolderTrendBucket[]>();
+    for (const row of result.rows) {
+      if (!buckets.has(row.token_id)) buckets.set(row.token_id, []);
+      buckets.get(row.token_id)!.push(toBucket(row));
+    }
+    for (const [tokenId, tokenBuckets] of buckets) {
+      const trend = computeTrend(tokenId, tokenBuckets, this.config.sparklinePoints);
+      if (trend) trends.set(tokenId, trend);
+    }
+    return trends;
+  }
+}
+
+// Export singleton instance
+export const holderTrendService = new HolderTrendService();
@@ -0,0 +1,6 @@
+// Holder Trends - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { HolderTrendService, holderTrendService } from './holder-trend-service';
+export { computeTrend } from './trend-calculator';
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { holderTrendService } from './holder-trend-service';
+
+/**
+ * Record holder flow (entered/exited) for recent holder snapshots, which
+ * feeds the holder_trends_15m aggregate
+ *
+ * Usage:
+ *   npm run holder-trends
+ *   npm run holder-trends -- --interval 5          # again every 5 minutes
+ *   npm run holder-trends -- --token <mint>        # print the token's current trend
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runOnce(): Promise<void> {
+  const startedAt = Date.now();
+  const result = await holderTrendService.recordFlows();
+  console.log(
+    `📈 Holder flows: ${result.snapshotsUpdated} snapshots across ${result.tokensChecked} tokens` +
+    `${result.errors > 0 ? `, ${result.errors} failed` : ''} (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const token = getOption(args, '--token');
+  const interval = getOption(args, '--interval');
+
+  if (token) {
+    const trend = await holderTrendService.getTrend(token);
+    if (!trend) {
+      throw new Error(`No holder snapshots in the trend window for ${token}`);
+    }
+    console.log(JSON.stringify(trend, null, 2));
+    return;
+  }
+
+  await runOnce();
+  if (!interval) return;
+
+  const intervalMs = parseFloat(interval) * 60 * 1000;
+  console.log(`🔁 Next run in ${interval} minutes`);
+  await new Promise<void>(() => {
+    const schedule = () => setTimeout(async () => {
+      try {
+        await runOnce();
+      } catch (error) {
+        console.error('Holder flow run failed:', error);
+      }
+      schedule();
+    }, intervalMs);
+    schedule();
+  });
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
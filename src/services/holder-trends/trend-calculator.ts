@@ -0,0 +1,38 @@
+import { HolderTrend, HolderTrendBucket } from './types';
+
+/**
+ * Growth, drift and flow across a token's buckets (oldest first), from
+ * the first snapshot of the first bucket to the last of the last
+ */
+export function computeTrend(
+  tokenId: string,
+  buckets: HolderTrendBucket[],
+  sparklinePoints: number
+): HolderTrend | null {
+  if (buckets.length === 0) return null;
+
+  const first = buckets[0];
+  const last = buckets[buckets.length - 1];
+  const hours = (last.lastSnapshotAt.getTime() - first.firstSnapshotAt.getTime()) / 3600000;
+  const holdersEntered = buckets.reduce((sum, b) => sum + b.holdersEntered, 0);
+  const holdersExited = buckets.reduce((sum, b) => sum + b.holdersExited, 0);
+
+  return {
+    tokenId,
+    from: first.firstSnapshotAt,
+    to: last.lastSnapshotAt,
+    snapshots: buckets.reduce((sum, b) => sum + b.snapshots, 0),
+    holders: last.lastHolders,
+    holderGrowthPerHour: hours > 0 && first.firstHolders > 0
+      ? ((last.lastHolders - first.firstHolders) / first.firstHolders * 100) / hours
+      : 0,
+    giniDrift: last.lastGini - first.firstGini,
+    hhiDrift: last.lastHhi - first.firstHhi,
+    top10Change: last.lastTop10 - first.firstTop10,
+    holdersEntered,
+    holdersExited,
+    netFlow: holdersEntered - holdersExited,
+    flowKnown: buckets.some(b => b.flowSnapshots > 0),
+    sparkline: buckets.slice(-sparklinePoints).map(b => b.lastHolders)
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * One row of holder_trends_15m: the first and last snapshot of a token in
+ * a 15 minute bucket
+ */
+export interface HolderTrendBucket {
+  bucket: Date;
+  snapshots: number;
+  firstSnapshotAt: Date;
+  lastSnapshotAt: Date;
+  firstHolders: number;
+  lastHolders: number;
+  firstGini: number;
+  lastGini: number;
+  firstHhi: number;
+  lastHhi: number;
+  firstTop10: number;
+  lastTop10: number;
+  holdersEntered: number;
+  holdersExited: number;
+  flowSnapshots: number;        // snapshots whose flow has been recorded
+}
+
+/**
+ * How a token's holder distribution moved over the trend window
+ */
+export interface HolderTrend {
+  tokenId: string;
+  from: Date;
+  to: Date;
+  snapshots: number;
+  holders: number;
+  holderGrowthPerHour: number;  // % of the holder count at the start of the window
+  giniDrift: number;            // change in Gini (0-1), positive = more concentrated
+  hhiDrift: number;             // change in HHI (0-10000)
+  top10Change: number;          // percentage points held by the top 10
+  holdersEntered: number;
+  holdersExited: number;
+  netFlow: number;
+  flowKnown: boolean;           // false until the runner has recorded flows for the window
+  sparkline: number[];          // holder count at the end of each bucket, oldest first
+}
+
+export interface HolderTrendConfig {
+  windowHours: number;          // trends look back this far
+  flowLookbackHours: number;    // snapshots this recent get their flows recorded
+  maxTokensPerRun: number;
+  sparklinePoints: number;
+}
+
+export interface HolderTrendRunResult {
+  tokensChecked: number;
+  snapshotsUpdated: number;
+  errors: number;
+}
@@ -0,0 +1,32 @@
+import { LaunchAnalysisConfig } from './types';
+
+export const defaultConfig: LaunchAnalysisConfig = {
+  sniperSlots: 2,
+  bundleWindowSlots: 10,
+  minBundleWallets: 2,
+  lookbackHours: 6,
+  recheckMinutes: 10,
+  minAgeMinutes: 2,
+  maxTokensPerRun: 500,
+  maxFundingLookups: 20,
+  defaultSupply: 1_000_000_000,
+  weights: {
+    heldPercent: 2,
+    capturedPercent: 0.5,
+    bundle: 10,
+    creatorBundle: 20
+  }
+};
+
+export function loadConfig(): LaunchAnalysisConfig {
+  return {
+    ...defaultConfig,
+    sniperSlots: process.env.LAUNCH_SNIPER_SLOTS !== undefined
+      ? parseInt(process.env.LAUNCH_SNIPER_SLOTS) || 0
+      : defaultConfig.sniperSlots,
+    lookbackHours: parseInt(process.env.LAUNCH_ANALYSIS_LOOKBACK_HOURS || '') || defaultConfig.lookbackHours,
+    maxFundingLookups: process.env.LAUNCH_ANALYSIS_MAX_LOOKUPS !== undefined
+      ? parseInt(process.env.LAUNCH_ANALYSIS_MAX_LOOKUPS) || 0
+      : defaultConfig.maxFundingLookups
+  };
+}
@@ -0,0 +1,5 @@
+// Launch Analysis - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { LaunchAnalyzer, launchAnalyzer } from './launch-analyzer';
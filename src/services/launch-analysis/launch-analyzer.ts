@@ -0,0 +1,432 @@
+import { Pool } from 'pg';
+import { getDbPool } from '../../database/connection';
+import { EnhancedTransferClient } from '../wallet-tracker/enhanced-transfers';
+import { loadConfig } from './config';
+import {
+  EarlyBuy,
+  LaunchAnalysis,
+  LaunchAnalysisConfig,
+  LaunchAnalysisRunResult,
+  LaunchBundle,
+  LaunchRiskSummary
+} from './types';
+
+interface TokenRow {
+  id: string;
+  mint_address: string;
+  creator_address: string;
+  creation_timestamp: Date;
+  decimals: number;
+  initial_supply: string | null;
+}
+
+function percentOf(part: number, whole: number): number {
+  return whole > 0 ? Math.min(100, (part / whole) * 100) : 0;
+}
+
+function sumTokens(buys: EarlyBuy[], wallets: Set<string>): number {
+  return buys.reduce((sum, buy) => sum + (wallets.has(buy.wallet) ? buy.tokenAmount : 0), 0);
+}
+
+/**
+ * Looks at the first slots of each launch in `transactions`: wallets that
+ * bought in the launch slot or right after it (snipers), and groups of
+ * wallets buying in the same slot with a common funder (bundles, the way
+ * Jito bundles land). Funding comes from the creator risk detector, the
+ * Sybil detector's lookups in `wallet_traders`, and a limited number of
+ * Helius lookups for same-slot buyers nobody has looked up yet.
+ */
+export class LaunchAnalyzer {
+  private pool: Pool;
+  private config: LaunchAnalysisConfig;
+  private ignoredFunders: Set<string>;
+  private transfers: EnhancedTransferClient;
+
+  constructor(config: Partial<LaunchAnalysisConfig> = {}) {
+    this.pool = getDbPool();
+    this.config = { ...loadConfig(), ...config };
+    this.ignoredFunders = new Set(
+      (process.env.SYBIL_IGNORED_FUNDERS || '').split(',').map(a => a.trim()).filter(Boolean)
+    );
+    this.transfers = new EnhancedTransferClient();
+  }
+
+  /**
+   * Analyze recent launches that have no analysis yet or whose held
+   * shares are due for a refresh
+   */
+  async run(): Promise<LaunchAnalysisRunResult> {
+    const candidates = await this.pool.query(
+      `SELECT t.id
+       FROM tokens t
+       LEFT JOIN token_launch_analysis la ON la.token_id = t.id
+       WHERE t.creation_timestamp > NOW() - make_interval(hours => $1)
+         AND t.creation_timestamp < NOW() - make_interval(mins => $2)
+         AND (la.token_id IS NULL OR la.analyzed_at < NOW() - make_interval(mins => $3))
+         AND NOT EXISTS (
+           SELECT 1 FROM transactions tx
+           WHERE tx.token_id = t.id
+             AND tx.slot = 0
+             AND tx.block_time BETWEEN t.creation_timestamp - INTERVAL '1 minute' AND t.creation_timestamp + INTERVAL '10 minutes'
+         )
+       ORDER BY la.analyzed_at NULLS FIRST, t.creation_timestamp DESC
+       LIMIT $4`,
+      [this.config.lookbackHours, this.config.minAgeMinutes, this.config.recheckMinutes, this.config.maxTokensPerRun]
+    );
+
+    const result: LaunchAnalysisRunResult = { tokensAnalyzed: 0, withBundles: 0, fundingLookups: 0, errors: 0 };
+    for (const row of candidates.rows) {
+      try {
+        const analysis = await this.analyzeToken(row.id, this.config.maxFundingLookups - result.fundingLookups);
+        if (!analysis) continue;
+        result.tokensAnalyzed++;
+        result.fundingLookups += analysis.fundingLookups;
+        if (analysis.bundles.length > 0) result.withBundles++;
+      } catch (error) {
+        result.errors++;
+        console.error(`Launch analysis failed for token ${row.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Analyze and store one launch. Returns null for unknown tokens and for
+   * launches traded without slots (stored as 0), which would all read as
+   * one slot.
+   */
+  async analyzeToken(tokenId: string, lookupBudget: number = this.config.maxFundingLookups): Promise<LaunchAnalysis | null> {
+    const tokenResult = await this.pool.query(
+      `SELECT id, mint_address, creator_address, creation_timestamp, decimals, initial_supply
+       FROM tokens WHERE id = $1::uuid`,
+      [tokenId]
+    );
+    const token: TokenRow | undefined = tokenResult.rows[0];
+    if (!token) return null;
+
+    const supply = this.getSupply(token);
+    const early = await this.getEarlyBuys(token);
+    if (!early.slotsKnown) {
+      console.warn(`Launch of ${token.mint_address} has trades without a slot, skipping launch analysis`);
+      return null;
+    }
+    const { launchSlot, launchTime, buys } = early;
+
+    const sniperWindow = buys.filter(buy => buy.slotOffset <= this.config.sniperSlots && buy.wallet !== token.creator_address);
+    const snipers = new Set(sniperWindow.map(buy => buy.wallet));
+    const sameSlotBuyers = new Set(sniperWindow.filter(buy => buy.slotOffset === 0).map(buy => buy.wallet));
+
+    const { funders, lookups } = await this.getFunders(token, buys, lookupBudget);
+    const bundles = this.findBundles(token, buys, funders);
+    const bundled = new Set(bundles.flatMap(bundle => bundle.wallets));
+    const captured = new Set([...snipers, ...bundled]);
+
+    const held = await this.getHeldTokens(token, Array.from(captured));
+    const heldBy = (wallets: Set<string>) =>
+      Array.from(wallets).reduce((sum, wallet) => sum + (held.get(wallet) || 0), 0);
+
+    const sniperBought = sumTokens(buys, snipers);
+    const bundledBought = sumTokens(buys, bundled);
+    const capturedPercent = percentOf(sumTokens(buys, captured), supply);
+    const heldPercent = percentOf(heldBy(captured), supply);
+    const creatorInBundle = bundled.has(token.creator_address);
+
+    const { weights } = this.config;
+    const riskScore = Math.min(100,
+      heldPercent * weights.heldPercent +
+      capturedPercent * weights.capturedPercent +
+      bundles.length * weights.bundle +
+      (creatorInBundle ? weights.creatorBundle : 0)
+    );
+
+    const analysis: LaunchAnalysis = {
+      tokenId: token.id,
+      mintAddress: token.mint_address,
+      launchSlot,
+      launchTime,
+      earlyBuyCount: buys.length,
+      sameSlotBuyers: sameSlotBuyers.size,
+      sniperWallets: Array.from(snipers),
+      sniperBoughtTokens: sniperBought,
+      sniperSupplyPercent: percentOf(sniperBought, supply),
+      sniperHeldPercent: percentOf(heldBy(snipers), supply),
+      bundles,
+      bundledWallets: Array.from(bundled),
+      bundledBoughtTokens: bundledBought,
+      bundledSupplyPercent: percentOf(bundledBought, supply),
+      bundledHeldPercent: percentOf(heldBy(bundled), supply),
+      creatorInBundle,
+      capturedSupplyPercent: capturedPercent,
+      heldSupplyPercent: heldPercent,
+      riskScore: Math.round(riskScore * 10) / 10,
+      fundingLookups: lookups,
+      analyzedAt: new Date()
+    };
+
+    await this.save(analysis, buys, funders);
+    return analysis;
+  }
+
+  /**
+   * The stored analysis in the shape the holder risk metrics take
+   */
+  async getRiskSummary(mintAddress: string): Promise<LaunchRiskSummary | null> {
+    const result = await this.pool.query(
+      `SELECT risk_score, captured_supply_percent, held_supply_percent, bundle_count, analyzed_at
+       FROM token_launch_analysis
+       WHERE mint_address = $1`,
+      [mintAddress]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      riskScore: parseFloat(row.risk_score),
+      capturedSupplyPercent: parseFloat(row.captured_supply_percent),
+      heldSupplyPercent: parseFloat(row.held_supply_percent),
+      bundleCount: row.bundle_count,
+      analyzedAt: new Date(row.analyzed_at)
+    };
+  }
+
+  // ============ Early Buys ============
+
+  private getSupply(token: TokenRow): number {
+    const raw = token.initial_supply ? Number(token.initial_supply) : 0;
+    return raw > 0 ? raw / 10 ** (token.decimals ?? 6) : this.config.defaultSupply;
+  }
+
+  /**
+   * Buys up to bundleWindowSlots after the first slot the token traded in.
+   * `slotsKnown` is false when any launch trade was stored without its slot.
+   */
+  private async getEarlyBuys(token: TokenRow): Promise<{
+    launchSlot: number | null;
+    launchTime: Date | null;
+    buys: EarlyBuy[];
+    slotsKnown: boolean;
+  }> {
+    // The time bounds keep the hypertable scan to the launch chunk
+    const result = await this.pool.query(
+      `SELECT signature, slot, block_time, type, user_address, sol_amount, token_amount
+       FROM transactions
+       WHERE token_id = $1::uuid
+         AND type IN ('buy', 'sell')
+         AND block_time BETWEEN $2::timestamptz - INTERVAL '1 minute' AND $2::timestamptz + INTERVAL '10 minutes'
+       ORDER BY slot, block_time
+       LIMIT 2000`,
+      [token.id, token.creation_timestamp]
+    );
+    if (result.rows.length === 0) {
+      return { launchSlot: null, launchTime: null, buys: [], slotsKnown: true };
+    }
+    if (result.rows.some(row => !Number(row.slot))) {
+      return { launchSlot: null, launchTime: null, buys: [], slotsKnown: false };
+    }
+
+    const launchSlot = Number(result.rows[0].slot);
+    const buys: EarlyBuy[] = [];
+    for (const row of result.rows) {
+      const slotOffset = Number(row.slot) - launchSlot;
+      if (slotOffset > this.config.bundleWindowSlots) break;
+      if (row.type !== 'buy') continue;
+      buys.push({
+        signature: row.signature,
+        slot: Number(row.slot),
+        slotOffset,
+        wallet: row.user_address,
+        solAmount: parseFloat(row.sol_amount) || 0,
+        tokenAmount: parseFloat(row.token_amount) || 0
+      });
+    }
+    return { launchSlot, launchTime: new Date(result.rows[0].block_time), buys, slotsKnown: true };
+  }
+
+  /**
+   * Tokens each wallet still holds, from all its trades on the token
+   */
+  private async getHeldTokens(token: TokenRow, wallets: string[]): Promise<Map<string, number>> {
+    const held = new Map<string, number>();
+    if (wallets.length === 0) return held;
+
+    const result = await this.pool.query(
+      `SELECT user_address,
+         SUM(CASE WHEN type = 'buy' THEN token_amount ELSE -token_amount END) AS net_tokens
+       FROM transactions
+       WHERE token_id = $1::uuid
+         AND user_address = ANY($2)
+         AND type IN ('buy', 'sell')
+         AND block_time >= $3::timestamptz - INTERVAL '1 minute'
+       GROUP BY user_address`,
+      [token.id, wallets, token.creation_timestamp]
+    );
+    for (const row of result.rows) {
+      held.set(row.user_address, Math.max(0, parseFloat(row.net_tokens) || 0));
+    }
+    return held;
+  }
+
+  // ============ Bundles ============
+
+  /**
+   * Group each slot's buyers by funder. Wallets the creator funded are
+   * grouped with the creator's own buy in that slot.
+   */
+  private findBundles(token: TokenRow, buys: EarlyBuy[], funders: Map<string, string>): LaunchBundle[] {
+    const groups = new Map<string, { slot: number; slotOffset: number; funder: string; buys: EarlyBuy[] }>();
+    for (const buy of buys) {
+      const funder = buy.wallet === token.creator_address ? token.creator_address : funders.get(buy.wallet);
+      if (!funder || this.ignoredFunders.has(funder)) continue;
+
+      const key = `${buy.slot}|${funder}`;
+      if (!groups.has(key)) groups.set(key, { slot: buy.slot, slotOffset: buy.slotOffset, funder, buys: [] });
+      groups.get(key)!.buys.push(buy);
+    }
+
+    const bundles: LaunchBundle[] = [];
+    for (const group of groups.values()) {
+      const wallets = Array.from(new Set(group.buys.map(buy => buy.wallet)));
+      if (wallets.length < this.config.minBundleWallets) continue;
+      bundles.push({
+        slot: group.slot,
+        slotOffset: group.slotOffset,
+        funder: group.funder,
+        fundedByCreator: group.funder === token.creator_address,
+        wallets,
+        solAmount: group.buys.reduce((sum, buy) => sum + buy.solAmount, 0),
+        tokenAmount: group.buys.reduce((sum, buy) => sum + buy.tokenAmount, 0)
+      });
+    }
+    return bundles.sort((a, b) => a.slot - b.slot);
+  }
+
+  /**
+   * Known funders of the early buyers. Buyers sharing a slot with another
+   * buyer and no known funder are looked up on Helius, within the budget.
+   */
+  private async getFunders(
+    token: TokenRow,
+    buys: EarlyBuy[],
+    lookupBudget: number
+  ): Promise<{ funders: Map<string, string>; lookups: number }> {
+    const funders = new Map<string, string>();
+    const wallets = Array.from(new Set(buys.map(buy => buy.wallet).filter(wallet => wallet !== token.creator_address)));
+    if (wallets.length === 0) return { funders, lookups: 0 };
+
+    const known = await this.pool.query(
+      `SELECT
+         (SELECT funded_wallets FROM creator_risk WHERE token_id = $1::uuid) AS creator_funded,
+         (SELECT details->'funders' FROM token_launch_analysis WHERE token_id = $1::uuid) AS previous,
+         (SELECT jsonb_object_agg(wallet_address, metadata->'funding'->>'funder')
+          FROM wallet_traders
+          WHERE wallet_address = ANY($2) AND metadata->'funding'->>'funder' IS NOT NULL) AS tracked`,
+      [token.id, wallets]
+    );
+    const row = known.rows[0] || {};
+    for (const [wallet, funder] of Object.entries<string>(row.previous || {})) funders.set(wallet, funder);
+    for (const [wallet, funder] of Object.entries<string>(row.tracked || {})) funders.set(wallet, funder);
+    for (const wallet of row.creator_funded || []) funders.set(wallet, token.creator_address);
+
+    const buyersPerSlot = new Map<number, Set<string>>();
+    for (const buy of buys) {
+      if (!buyersPerSlot.has(buy.slot)) buyersPerSlot.set(buy.slot, new Set());
+      buyersPerSlot.get(buy.slot)!.add(buy.wallet);
+    }
+    const crowded = new Set(
+      Array.from(buyersPerSlot.values())
+        .filter(slotWallets => slotWallets.size >= this.config.minBundleWallets)
+        .flatMap(slotWallets => Array.from(slotWallets))
+    );
+    const toLookUp = wallets.filter(wallet => crowded.has(wallet) && !funders.has(wallet));
+    if (!this.transfers.enabled || lookupBudget <= 0 || toLookUp.length === 0) {
+      return { funders, lookups: 0 };
+    }
+
+    let lookups = 0;
+    for (const wallet of toLookUp.slice(0, lookupBudget)) {
+      try {
+        const funding = await this.transfers.fetchFunding(wallet);
+        lookups++;
+        if (funding.funder) funders.set(wallet, funding.funder);
+
+        // Shared with the Sybil detector for wallets it tracks
+        await this.pool.query(
+          `UPDATE wallet_traders SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('funding', $2::jsonb)
+           WHERE wallet_address = $1`,
+          [wallet, JSON.stringify(funding)]
+        );
+      } catch (error) {
+        console.warn(`   ⚠️  Funding lookup failed for ${wallet}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return { funders, lookups };
+  }
+
+  // ============ Persistence ============
+
+  /**
+   * Upsert the analysis. Funders of early buyers are kept in `details` so
+   * later refreshes don't look them up again.
+   */
+  private async save(analysis: LaunchAnalysis, buys: EarlyBuy[], funders: Map<string, string>): Promise<void> {
+    const buyers = new Set(buys.map(buy => buy.wallet));
+    const details = {
+      bundles: analysis.bundles,
+      funders: Object.fromEntries(Array.from(funders).filter(([wallet]) => buyers.has(wallet)))
+    };
+
+    await this.pool.query(
+      `INSERT INTO token_launch_analysis (
+        token_id, mint_address, launch_slot, launch_time, early_buy_count,
+        same_slot_buyers, sniper_wallets, sniper_bought_tokens, sniper_supply_percent, sniper_held_percent,
+        bundle_count, bundled_wallets, bundled_bought_tokens, bundled_supply_percent, bundled_held_percent,
+        creator_in_bundle, captured_supply_percent, held_supply_percent, risk_score, details, analyzed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+      ON CONFLICT (token_id) DO UPDATE SET
+        launch_slot = EXCLUDED.launch_slot,
+        launch_time = EXCLUDED.launch_time,
+        early_buy_count = EXCLUDED.early_buy_count,
+        same_slot_buyers = EXCLUDED.same_slot_buyers,
+        sniper_wallets = EXCLUDED.sniper_wallets,
+        sniper_bought_tokens = EXCLUDED.sniper_bought_tokens,
+        sniper_supply_percent = EXCLUDED.sniper_supply_percent,
+        sniper_held_percent = EXCLUDED.sniper_held_percent,
+        bundle_count = EXCLUDED.bundle_count,
+        bundled_wallets = EXCLUDED.bundled_wallets,
+        bundled_bought_tokens = EXCLUDED.bundled_bought_tokens,
+        bundled_supply_percent = EXCLUDED.bundled_supply_percent,
+        bundled_held_percent = EXCLUDED.bundled_held_percent,
+        creator_in_bundle = EXCLUDED.creator_in_bundle,
+        captured_supply_percent = EXCLUDED.captured_supply_percent,
+        held_supply_percent = EXCLUDED.held_supply_percent,
+        risk_score = EXCLUDED.risk_score,
+        details = EXCLUDED.details,
+        analyzed_at = EXCLUDED.analyzed_at`,
+      [
+        analysis.tokenId,
+        analysis.mintAddress,
+        analysis.launchSlot,
+        analysis.launchTime,
+        analysis.earlyBuyCount,
+        analysis.sameSlotBuyers,
+        analysis.sniperWallets,
+        analysis.sniperBoughtTokens,
+        analysis.sniperSupplyPercent,
+        analysis.sniperHeldPercent,
+        analysis.bundles.length,
+        analysis.bundledWallets,
+        analysis.bundledBoughtTokens,
+        analysis.bundledSupplyPercent,
+        analysis.bundledHeldPercent,
+        analysis.creatorInBundle,
+        analysis.capturedSupplyPercent,
+        analysis.heldSupplyPercent,
+        analysis.riskScore,
+        JSON.stringify(details),
+        analysis.analyzedAt
+      ]
+    );
+  }
+}
+
+// Export singleton instance
+export const launchAnalyzer = new LaunchAnalyzer();
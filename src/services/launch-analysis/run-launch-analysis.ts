@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool, getDbPool } from '../../database/connection';
+import { launchAnalyzer } from './launch-analyzer';
+
+/**
+ * Sniper and bundle detection for recent launches
+ *
+ * Usage:
+ *   npm run launch-analysis
+ *   npm run launch-analysis -- --token <mint>     # one token, with its bundles
+ *   npm run launch-analysis -- --interval 2       # again every 2 minutes
+ *
+ * Funding lookups for same-slot buyers need HELIUS_API_KEY;
+ * LAUNCH_ANALYSIS_MAX_LOOKUPS caps them per run (100 credits each).
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runOnce(): Promise<void> {
+  const startedAt = Date.now();
+  const result = await launchAnalyzer.run();
+  console.log(
+    `🎯 Launch analysis: ${result.tokensAnalyzed} tokens, ${result.withBundles} with bundles, ` +
+    `${result.fundingLookups} funding lookups` +
+    `${result.errors > 0 ? `, ${result.errors} errors` : ''} (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const mint = getOption(args, '--token');
+  const interval = getOption(args, '--interval');
+
+  if (mint) {
+    const token = await getDbPool().query('SELECT id FROM tokens WHERE mint_address = $1', [mint]);
+    if (!token.rows[0]) {
+      throw new Error(`Unknown token ${mint}`);
+    }
+    const analysis = await launchAnalyzer.analyzeToken(token.rows[0].id);
+    console.log(JSON.stringify(analysis, null, 2));
+    return;
+  }
+
+  await runOnce();
+  if (!interval) return;
+
+  const intervalMs = parseFloat(interval) * 60 * 1000;
+  console.log(`🔁 Next run in ${interval} minutes`);
+  await new Promise<void>(() => {
+    const schedule = () => setTimeout(async () => {
+      try {
+        await runOnce();
+      } catch (error) {
+        console.error('Launch analysis run failed:', error);
+      }
+      schedule();
+    }, intervalMs);
+    schedule();
+  });
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
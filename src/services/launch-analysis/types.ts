@@ -0,0 +1,84 @@
+/**
+ * A buy in the first slots after launch
+ */
+export interface EarlyBuy {
+  signature: string;
+  slot: number;
+  slotOffset: number;         // slots after the launch slot
+  wallet: string;
+  solAmount: number;
+  tokenAmount: number;
+}
+
+/**
+ * Buys landing in one slot from wallets with a common funder
+ */
+export interface LaunchBundle {
+  slot: number;
+  slotOffset: number;
+  funder: string;
+  fundedByCreator: boolean;
+  wallets: string[];
+  solAmount: number;
+  tokenAmount: number;
+}
+
+export interface LaunchAnalysis {
+  tokenId: string;
+  mintAddress: string;
+  launchSlot: number | null;
+  launchTime: Date | null;
+  earlyBuyCount: number;
+  sameSlotBuyers: number;
+  sniperWallets: string[];
+  sniperBoughtTokens: number;
+  sniperSupplyPercent: number;
+  sniperHeldPercent: number;
+  bundles: LaunchBundle[];
+  bundledWallets: string[];
+  bundledBoughtTokens: number;
+  bundledSupplyPercent: number;
+  bundledHeldPercent: number;
+  creatorInBundle: boolean;
+  capturedSupplyPercent: number;
+  heldSupplyPercent: number;
+  riskScore: number;
+  fundingLookups: number;
+  analyzedAt: Date;
+}
+
+/**
+ * The part of a stored analysis the holder risk metrics use
+ */
+export interface LaunchRiskSummary {
+  riskScore: number;
+  capturedSupplyPercent: number;
+  heldSupplyPercent: number;
+  bundleCount: number;
+  analyzedAt: Date;
+}
+
+export interface LaunchAnalysisConfig {
+  sniperSlots: number;              // buys this many slots after the launch slot (inclusive) are snipes
+  bundleWindowSlots: number;        // same-slot funded groups are looked for this far in
+  minBundleWallets: number;
+  lookbackHours: number;            // tokens launched this recently are (re)analyzed
+  recheckMinutes: number;           // held shares are refreshed this often
+  minAgeMinutes: number;            // wait for the early window to be ingested
+  maxTokensPerRun: number;
+  maxFundingLookups: number;        // Helius lookups per run (100 credits each)
+  defaultSupply: number;            // used when tokens.initial_supply is missing
+  weights: {
+    heldPercent: number;            // risk points per % of supply snipers and bundles still hold
+    capturedPercent: number;        // ... per % they bought at launch
+    bundle: number;                 // ... per bundle
+    creatorBundle: number;          // extra when the creator is in a bundle
+  };
+}
+
+export interface LaunchAnalysisRunResult {
+  tokensAnalyzed: number;
+  withBundles: number;
+  fundingLookups: number;
+  errors: number;
+}
@@ -0,0 +1,19 @@
+import { LiveFeedConfig } from './types';
+
+export const defaultConfig: LiveFeedConfig = {
+  channel: 'dashboard_feed',
+  heartbeatMs: 15_000,
+  reconnectDelayMs: 5_000,
+  maxClients: 200,
+  maxMintsPerClient: 500
+};
+
+export function loadConfig(): LiveFeedConfig {
+  return {
+    channel: process.env.LIVE_FEED_CHANNEL || defaultConfig.channel,
+    heartbeatMs: parseInt(process.env.LIVE_FEED_HEARTBEAT_MS || '') || defaultConfig.heartbeatMs,
+    reconnectDelayMs: defaultConfig.reconnectDelayMs,
+    maxClients: parseInt(process.env.LIVE_FEED_MAX_CLIENTS || '') || defaultConfig.maxClients,
+    maxMintsPerClient: defaultConfig.maxMintsPerClient
+  };
+}
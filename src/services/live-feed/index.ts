@@ -0,0 +1,5 @@
+// Live Feed - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig } from './config';
+export { LiveFeed, liveFeed, parseSubscription } from './live-feed';
@@ -0,0 +1,225 @@
+import { Response } from 'express';
+import { PoolClient } from 'pg';
+import { getDbPool } from '../../database/connection';
+import { loadConfig } from './config';
+import { FEED_EVENT_TYPES, FeedEvent, FeedEventType, FeedSubscription, LiveFeedConfig, LiveFeedStatus } from './types';
+
+interface FeedClient {
+  id: string;
+  res: Response;
+  subscription: FeedSubscription;
+}
+
+/**
+ * Fans database change notifications out to dashboard clients over
+ * Server-Sent Events. One pooled connection LISTENs on the feed channel;
+ * it is opened when the first client connects and re-established after
+ * connection loss, at which point clients are told to resync.
+ */
+export class LiveFeed {
+  private readonly clients = new Map<string, FeedClient>();
+  private listener: PoolClient | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private hasListened = false;
+  private nextClientId = 1;
+  private sequence = 0;
+  private eventsReceived = 0;
+  private eventsDelivered = 0;
+  private lastEventAt: Date | null = null;
+
+  constructor(private readonly config: LiveFeedConfig = loadConfig()) {}
+
+  /**
+   * Register an SSE response. Returns the client id, or null when the
+   * server is at its client limit (the response is then answered with 503).
+   */
+  addClient(res: Response, subscription: FeedSubscription): string | null {
+    if (this.clients.size >= this.config.maxClients) {
+      res.status(503).json({ success: false, error: 'Too many live feed clients' });
+      return null;
+    }
+
+    const id = `c${this.nextClientId++}`;
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    this.clients.set(id, { id, res, subscription: this.limit(subscription) });
+    res.on('close', () => this.clients.delete(id));
+
+    this.write(res, 'ready', { clientId: id, listening: this.listener !== null });
+    this.start();
+    return id;
+  }
+
+  /**
+   * Replace a client's subscription. Returns false for unknown clients.
+   */
+  updateSubscription(clientId: string, subscription: FeedSubscription): boolean {
+    const client = this.clients.get(clientId);
+    if (!client) return false;
+    client.subscription = this.limit(subscription);
+    return true;
+  }
+
+  /**
+   * Deliver an event to every matching client. Used for notifications from
+   * the database and by anything running inside the API process.
+   */
+  publish(event: FeedEvent): void {
+    this.eventsReceived++;
+    this.lastEventAt = new Date();
+    const id = ++this.sequence;
+
+    for (const client of this.clients.values()) {
+      if (!this.matches(client.subscription, event)) continue;
+      this.write(client.res, event.event, event, id);
+      this.eventsDelivered++;
+    }
+  }
+
+  getStatus(): LiveFeedStatus {
+    return {
+      listening: this.listener !== null,
+      clients: this.clients.size,
+      eventsReceived: this.eventsReceived,
+      eventsDelivered: this.eventsDelivered,
+      lastEventAt: this.lastEventAt
+    };
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.reconnectTimer = null;
+    this.heartbeatTimer = null;
+
+    for (const client of this.clients.values()) {
+      client.res.end();
+    }
+    this.clients.clear();
+
+    const listener = this.listener;
+    this.listener = null;
+    if (listener) {
+      await listener.query(`UNLISTEN ${this.config.channel}`).catch(() => undefined);
+      listener.release();
+    }
+  }
+
+  private start(): void {
+    this.stopped = false;
+    if (!this.heartbeatTimer) {
+      // Comment lines keep proxies from closing idle streams
+      this.heartbeatTimer = setInterval(() => {
+        for (const client of this.clients.values()) {
+          client.res.write(': ping\n\n');
+        }
+      }, this.config.heartbeatMs);
+      this.heartbeatTimer.unref();
+    }
+    if (!this.listener && !this.connecting && !this.reconnectTimer) {
+      this.connecting = this.listen().finally(() => { this.connecting = null; });
+    }
+  }
+
+  private async listen(): Promise<void> {
+    let client: PoolClient | null = null;
+    try {
+      const connection = client = await getDbPool().connect();
+      connection.on('notification', message => this.handleNotification(message.payload));
+      connection.on('error', error => {
+        if (this.listener === connection) this.handleDisconnect(error);
+      });
+      await client.query(`LISTEN ${this.config.channel}`);
+
+      this.listener = client;
+      console.log(`📡 Live feed listening on "${this.config.channel}"`);
+
+      if (this.hasListened) {
+        // Notifications sent while we were disconnected are gone
+        for (const feedClient of this.clients.values()) {
+          this.write(feedClient.res, 'resync', { reason: 'reconnected' });
+        }
+      }
+      this.hasListened = true;
+    } catch (error) {
+      client?.release(true);
+      this.handleDisconnect(error);
+    }
+  }
+
+  private handleNotification(payload: string | undefined): void {
+    if (!payload) return;
+    try {
+      this.publish(JSON.parse(payload) as FeedEvent);
+    } catch (error) {
+      console.error('Invalid live feed notification:', error);
+    }
+  }
+
+  private handleDisconnect(error: unknown): void {
+    console.error('Live feed connection lost:', error instanceof Error ? error.message : error);
+    if (this.listener) {
+      this.listener.release(true);
+      this.listener = null;
+    }
+    if (this.stopped || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.start();
+    }, this.config.reconnectDelayMs);
+    this.reconnectTimer.unref();
+  }
+
+  private matches(subscription: FeedSubscription, event: FeedEvent): boolean {
+    if (!subscription.events.has(event.event)) return false;
+    if (subscription.mints === null || event.event === 'new_token') return true;
+    return event.mint !== null && subscription.mints.has(event.mint);
+  }
+
+  private limit(subscription: FeedSubscription): FeedSubscription {
+    if (!subscription.mints || subscription.mints.size <= this.config.maxMintsPerClient) {
+      return subscription;
+    }
+    return {
+      ...subscription,
+      mints: new Set(Array.from(subscription.mints).slice(0, this.config.maxMintsPerClient))
+    };
+  }
+
+  private write(res: Response, event: string, data: unknown, id?: number): void {
+    res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
+
+/**
+ * Parse `mints` and `events` from a query string or JSON body. Missing or
+ * empty mints mean every token; missing events mean every event type.
+ */
+export function parseSubscription(mints: unknown, events: unknown): FeedSubscription {
+  const toList = (value: unknown): string[] => {
+    const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    return raw.map(item => String(item).trim()).filter(item => item.length > 0);
+  };
+
+  const mintList = toList(mints);
+  const eventList = toList(events).filter((event): event is FeedEventType =>
+    (FEED_EVENT_TYPES as string[]).includes(event)
+  );
+
+  return {
+    mints: mintList.length > 0 ? new Set(mintList) : null,
+    events: new Set(eventList.length > 0 ? eventList : FEED_EVENT_TYPES)
+  };
+}
+
+// Export singleton instance
+export const liveFeed = new LiveFeed();
@@ -0,0 +1,41 @@
+export type FeedEventType = 'new_token' | 'trade' | 'score' | 'graduation' | 'selloff';
+
+export const FEED_EVENT_TYPES: FeedEventType[] = ['new_token', 'trade', 'score', 'graduation', 'selloff'];
+
+/**
+ * One change pushed to dashboard clients. `data` is the row-level payload
+ * built by the NOTIFY triggers in migration 032.
+ */
+export interface FeedEvent {
+  event: FeedEventType;
+  tokenId: string | null;
+  mint: string | null;
+  data: Record<string, any>;
+  at: string;
+}
+
+/**
+ * What a client wants to receive. `mints: null` means every token;
+ * `new_token` events always pass the mint filter since a client cannot
+ * know a mint before it exists.
+ */
+export interface FeedSubscription {
+  mints: Set<string> | null;
+  events: Set<FeedEventType>;
+}
+
+export interface LiveFeedConfig {
+  channel: string;
+  heartbeatMs: number;
+  reconnectDelayMs: number;
+  maxClients: number;
+  maxMintsPerClient: number;
+}
+
+export interface LiveFeedStatus {
+  listening: boolean;
+  clients: number;
+  eventsReceived: number;
+  eventsDelivered: number;
+  lastEventAt: Date | null;
+}
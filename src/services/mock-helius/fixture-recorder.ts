@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { HeliusEndpoints, heliusApiUrl, heliusRpcUrl } from '../../config/helius';
+import { HeliusFixture, SignatureFixture, TokenAccountFixture } from './types';
+
+export interface RecordOptions {
+  maxHolders: number;           // token accounts to page through
+  signatureLimit: number;       // signatures recorded per address
+  transactionLimit: number;     // newest mint transactions recorded in full
+  walletLimit: number;          // largest holders recorded for enrichment
+}
+
+export const defaultRecordOptions: RecordOptions = {
+  maxHolders: 1000,
+  signatureLimit: 100,
+  transactionLimit: 20,
+  walletLimit: 20
+};
+
+/**
+ * Records what the holder and wallet services ask Helius about a mint:
+ * its token accounts, signatures and transactions, the history and
+ * balance of its largest holders, and its enhanced transactions. Results
+ * are stored as they came over the wire, so the mock server replays them
+ * byte for byte. Costs live credits.
+ */
+export class FixtureRecorder {
+  private rpcUrl: string;
+  private apiUrl: string;
+  private requests = 0;
+
+  constructor(private apiKey: string, endpoints: HeliusEndpoints = {}) {
+    this.rpcUrl = heliusRpcUrl(apiKey, endpoints);
+    this.apiUrl = heliusApiUrl(endpoints);
+  }
+
+  get requestCount(): number {
+    return this.requests;
+  }
+
+  async record(mint: string, options: Partial<RecordOptions> = {}): Promise<HeliusFixture> {
+    const opts = { ...defaultRecordOptions, ...options };
+    const fixture: HeliusFixture = {
+      description: `Recorded for ${mint}`,
+      recordedAt: new Date().toISOString(),
+      tokenAccounts: { [mint]: await this.recordTokenAccounts(mint, opts.maxHolders) },
+      signatures: {},
+      transactions: {},
+      rawTransactions: {},
+      balances: {},
+      enhancedTransactions: {}
+    };
+
+    const mintSignatures = await this.rpc<SignatureFixture[]>('getSignaturesForAddress', [mint, { limit: opts.signatureLimit }]);
+    fixture.signatures![mint] = mintSignatures;
+
+    for (const { signature } of mintSignatures.slice(0, opts.transactionLimit)) {
+      fixture.transactions![signature] = await this.rpc('getTransaction', [signature, { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 }]);
+      fixture.rawTransactions![signature] = await this.rpc('getTransaction', [signature, { encoding: 'json', maxSupportedTransactionVersion: 0 }]);
+    }
+
+    const largest = [...fixture.tokenAccounts![mint]]
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, opts.walletLimit);
+    for (const { owner } of largest) {
+      fixture.signatures![owner] = await this.rpc<SignatureFixture[]>('getSignaturesForAddress', [owner, { limit: opts.signatureLimit }]);
+      fixture.balances![owner] = (await this.rpc<{ value: number }>('getBalance', [owner])).value;
+    }
+
+    this.requests++;
+    const enhanced = await axios.get(`${this.apiUrl}/v0/addresses/${mint}/transactions`, {
+      params: { 'api-key': this.apiKey, limit: 100 }
+    });
+    fixture.enhancedTransactions![mint] = enhanced.data;
+
+    return fixture;
+  }
+
+  private async recordTokenAccounts(mint: string, maxHolders: number): Promise<TokenAccountFixture[]> {
+    const accounts: TokenAccountFixture[] = [];
+    const limit = 1000;
+
+    for (let page = 1; accounts.length < maxHolders; page++) {
+      const result = await this.rpc<{ token_accounts?: TokenAccountFixture[] }>('getTokenAccounts', { mint, limit, page });
+      const pageAccounts = result?.token_accounts || [];
+      accounts.push(...pageAccounts);
+      if (pageAccounts.length < limit) break;
+    }
+
+    return accounts.slice(0, maxHolders);
+  }
+
+  private async rpc<T = unknown>(method: string, params: unknown): Promise<T> {
+    this.requests++;
+    const response = await axios.post(this.rpcUrl, { jsonrpc: '2.0', id: this.requests, method, params });
+    if (response.data.error) {
+      throw new Error(`${method} failed: ${response.data.error.message}`);
+    }
+    return response.data.result;
+  }
+}
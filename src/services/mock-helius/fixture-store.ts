@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { EnhancedTransactionFixture, HeliusFixture, SignatureFixture, TokenAccountFixture } from './types';
+
+export const SAMPLE_FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * Recorded responses, merged from any number of fixture files. A later
+ * fixture replaces an earlier one's entry for the same key.
+ */
+export class FixtureStore {
+  private fixture: Required<Omit<HeliusFixture, 'description' | 'recordedAt'>> = {
+    tokenAccounts: {},
+    signatures: {},
+    transactions: {},
+    rawTransactions: {},
+    balances: {},
+    enhancedTransactions: {}
+  };
+
+  constructor(fixtures: HeliusFixture[] = []) {
+    fixtures.forEach(fixture => this.add(fixture));
+  }
+
+  /**
+   * Every *.json file in a directory, in name order, or a single file
+   */
+  static load(location: string = SAMPLE_FIXTURES_DIR): FixtureStore {
+    const files = fs.statSync(location).isDirectory()
+      ? fs.readdirSync(location).filter(f => f.endsWith('.json')).sort().map(f => path.join(location, f))
+      : [location];
+
+    return new FixtureStore(files.map(file => JSON.parse(fs.readFileSync(file, 'utf8'))));
+  }
+
+  add(fixture: HeliusFixture): void {
+    for (const key of Object.keys(this.fixture) as (keyof FixtureStore['fixture'])[]) {
+      Object.assign(this.fixture[key], fixture[key] || {});
+    }
+  }
+
+  // ============ DAS ============
+
+  /**
+   * Token accounts of a mint, of an owner, or of an owner for one mint
+   */
+  tokenAccounts(filter: { mint?: string; owner?: string }): TokenAccountFixture[] {
+    const accounts = filter.mint
+      ? this.fixture.tokenAccounts[filter.mint] || []
+      : Object.values(this.fixture.tokenAccounts).flat();
+
+    return filter.owner ? accounts.filter(a => a.owner === filter.owner) : accounts;
+  }
+
+  // ============ RPC ============
+
+  /**
+   * Signatures newest first, starting after `before` and stopping at
+   * `until`, like getSignaturesForAddress
+   */
+  signatures(address: string, options: { before?: string; until?: string; limit?: number } = {}): SignatureFixture[] {
+    let list = this.fixture.signatures[address] || [];
+
+    if (options.before) {
+      const index = list.findIndex(s => s.signature === options.before);
+      list = index >= 0 ? list.slice(index + 1) : [];
+    }
+    if (options.until) {
+      const index = list.findIndex(s => s.signature === options.until);
+      if (index >= 0) list = list.slice(0, index);
+    }
+
+    return list.slice(0, options.limit ?? 1000);
+  }
+
+  transaction(signature: string, encoding: string = 'json'): unknown | null {
+    const source = encoding === 'jsonParsed' ? this.fixture.transactions : this.fixture.rawTransactions;
+    return source[signature] ?? null;
+  }
+
+  /**
+   * Lamports; an address that was not recorded holds nothing
+   */
+  balance(address: string): number {
+    return this.fixture.balances[address] ?? 0;
+  }
+
+  // ============ Enhanced Transactions ============
+
+  enhancedTransactions(
+    address: string,
+    options: { before?: string; type?: string; limit?: number } = {}
+  ): EnhancedTransactionFixture[] {
+    let list = this.fixture.enhancedTransactions[address] || [];
+
+    if (options.before) {
+      const index = list.findIndex(tx => tx.signature === options.before);
+      list = index >= 0 ? list.slice(index + 1) : [];
+    }
+    if (options.type) {
+      list = list.filter(tx => tx.type === options.type);
+    }
+
+    return list.slice(0, options.limit ?? 100);
+  }
+
+  enhancedBySignature(signatures: string[]): EnhancedTransactionFixture[] {
+    const bySignature = new Map<string, EnhancedTransactionFixture>();
+    for (const list of Object.values(this.fixture.enhancedTransactions)) {
+      list.forEach(tx => bySignature.set(tx.signature, tx));
+    }
+    return signatures
+      .map(signature => bySignature.get(signature))
+      .filter((tx): tx is EnhancedTransactionFixture => tx !== undefined);
+  }
+}
@@ -0,0 +1,7 @@
+// Mock Helius - Main Export File
+
+export * from './types';
+export { FixtureStore, SAMPLE_FIXTURES_DIR } from './fixture-store';
+export { MockHeliusServer } from './mock-helius-server';
+export { FixtureRecorder, defaultRecordOptions } from './fixture-recorder';
+export type { RecordOptions } from './fixture-recorder';
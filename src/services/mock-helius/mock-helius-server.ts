@@ -0,0 +1,171 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { HeliusEndpoints } from '../../config/helius';
+import { FixtureStore } from './fixture-store';
+import { MockHeliusOptions } from './types';
+
+interface JsonRpcRequest {
+  jsonrpc: string;
+  id: string | number | null;
+  method: string;
+  params?: any;
+}
+
+const defaultOptions: MockHeliusOptions = {
+  port: 0,
+  host: '127.0.0.1',
+  slot: 300000000,
+  log: false
+};
+
+/**
+ * A local stand-in for Helius and Solana RPC that answers from recorded
+ * fixtures. It serves JSON-RPC on `/` (DAS getTokenAccounts,
+ * getSignaturesForAddress, getTransaction, getBalance, getSlot) and the
+ * enhanced transactions REST endpoints under `/v0`. Every call is counted
+ * so a test can check what a service asked for.
+ */
+export class MockHeliusServer {
+  private app = express();
+  private server: Server | null = null;
+  private options: MockHeliusOptions;
+  private calls = new Map<string, number>();
+
+  constructor(private store: FixtureStore, options: Partial<MockHeliusOptions> = {}) {
+    this.options = { ...defaultOptions, ...options };
+    this.app.use(express.json({ limit: '10mb' }));
+    this.registerRoutes();
+  }
+
+  // ============ Lifecycle ============
+
+  async start(): Promise<HeliusEndpoints> {
+    await new Promise<void>((resolve, reject) => {
+      this.server = this.app.listen(this.options.port, this.options.host, () => resolve());
+      this.server.once('error', reject);
+    });
+    return this.endpoints;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Mock Helius server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Endpoints to hand to a service, or to export as HELIUS_RPC_URL and
+   * HELIUS_API_URL
+   */
+  get endpoints(): HeliusEndpoints {
+    return { rpcUrl: `${this.url}/`, apiUrl: this.url };
+  }
+
+  // ============ Call Counts ============
+
+  /**
+   * Calls so far, by JSON-RPC method or by REST route
+   */
+  getCalls(): Record<string, number> {
+    return Object.fromEntries(this.calls);
+  }
+
+  resetCalls(): void {
+    this.calls.clear();
+  }
+
+  private count(name: string): void {
+    this.calls.set(name, (this.calls.get(name) || 0) + 1);
+    if (this.options.log) {
+      console.log(`🧪 ${name}`);
+    }
+  }
+
+  // ============ Routes ============
+
+  private registerRoutes(): void {
+    this.app.post('/', (req: Request, res: Response) => {
+      const body = req.body;
+      res.json(Array.isArray(body) ? body.map(call => this.rpc(call)) : this.rpc(body));
+    });
+
+    const addressTransactions = (req: Request, res: Response) => {
+      this.count(`${req.method} /v0/addresses/:address/transactions`);
+      const query = { ...req.query, ...(req.body || {}) } as Record<string, any>;
+      res.json(this.store.enhancedTransactions(String(req.params.address), {
+        before: query.before,
+        type: query.type,
+        limit: query.limit ? parseInt(query.limit) : undefined
+      }));
+    };
+    this.app.get('/v0/addresses/:address/transactions', addressTransactions);
+    this.app.post('/v0/addresses/:address/transactions', addressTransactions);
+
+    this.app.post('/v0/addresses/transactions', (req: Request, res: Response) => {
+      this.count('POST /v0/addresses/transactions');
+      const addresses: string[] = req.body?.addresses || [];
+      res.json(addresses.flatMap(address => this.store.enhancedTransactions(address, { type: req.body?.type })));
+    });
+
+    this.app.post('/v0/transactions', (req: Request, res: Response) => {
+      this.count('POST /v0/transactions');
+      res.json(this.store.enhancedBySignature(req.body?.transactions || []));
+    });
+
+    this.app.get('/__mock/calls', (_req: Request, res: Response) => {
+      res.json(this.getCalls());
+    });
+
+    this.app.use((req: Request, res: Response) => {
+      res.status(404).json({ error: `No mock for ${req.method} ${req.path}` });
+    });
+  }
+
+  private rpc(call: JsonRpcRequest): object {
+    const method = call?.method;
+    this.count(method);
+
+    const result = (value: unknown) => ({ jsonrpc: '2.0', id: call?.id ?? null, result: value });
+    const withContext = (value: unknown) => result({ context: { slot: this.options.slot }, value });
+    const params = call.params;
+
+    switch (method) {
+      case 'getTokenAccounts': {
+        const { mint, owner, page = 1, limit = 1000 } = params || {};
+        const accounts = this.store.tokenAccounts({ mint, owner });
+        const start = (page - 1) * limit;
+        const pageAccounts = accounts.slice(start, start + limit);
+        return result({ total: pageAccounts.length, limit, page, token_accounts: pageAccounts });
+      }
+
+      case 'getSignaturesForAddress':
+        return result(this.store.signatures(params[0], params[1] || {}));
+
+      case 'getTransaction':
+        return result(this.store.transaction(params[0], params[1]?.encoding));
+
+      case 'getBalance':
+        return withContext(this.store.balance(params[0]));
+
+      case 'getSlot':
+        return result(this.options.slot);
+
+      default:
+        return {
+          jsonrpc: '2.0',
+          id: call?.id ?? null,
+          error: { code: -32601, message: `Method not found in mock Helius fixtures: ${method}` }
+        };
+    }
+  }
+}
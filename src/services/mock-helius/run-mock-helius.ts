@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import fs from 'fs';
+import path from 'path';
+import { FixtureRecorder } from './fixture-recorder';
+import { FixtureStore, SAMPLE_FIXTURES_DIR } from './fixture-store';
+import { MockHeliusServer } from './mock-helius-server';
+
+/**
+ * Serve recorded Helius fixtures on a local port, or record new ones
+ *
+ * Usage:
+ *   npm run mock-helius                                  # serve the fixtures directory on port 8899
+ *   npm run mock-helius -- --port 9000 --fixtures <dir|file>
+ *   npm run mock-helius -- --record <mint>               # record a mint into the fixtures directory (live credits)
+ *   npm run mock-helius -- --record <mint> --out <file>
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function record(mint: string, out: string): Promise<void> {
+  const apiKey = process.env.HELIUS_API_KEY;
+  if (!apiKey) {
+    throw new Error('HELIUS_API_KEY environment variable is required to record fixtures');
+  }
+
+  const recorder = new FixtureRecorder(apiKey);
+  const fixture = await recorder.record(mint);
+  fs.writeFileSync(out, JSON.stringify(fixture, null, 2) + '\n');
+
+  const holders = fixture.tokenAccounts?.[mint]?.length || 0;
+  const transactions = Object.keys(fixture.transactions || {}).length;
+  console.log(`📼 Recorded ${holders} token accounts and ${transactions} transactions for ${mint} in ${recorder.requestCount} requests`);
+  console.log(`   ${out}`);
+}
+
+async function serve(port: number, fixtures: string): Promise<void> {
+  const server = new MockHeliusServer(FixtureStore.load(fixtures), { port, log: true });
+  const endpoints = await server.start();
+
+  console.log(`🧪 Mock Helius serving ${fixtures} on ${server.url}`);
+  console.log('   Point services at it with:');
+  console.log(`   export HELIUS_RPC_URL=${endpoints.rpcUrl}`);
+  console.log(`   export HELIUS_API_URL=${endpoints.apiUrl}`);
+  console.log(`   export RPC_ENDPOINT=${endpoints.rpcUrl}`);
+
+  await new Promise<void>(resolve => process.once('SIGINT', resolve));
+  console.log('\nCalls served:', server.getCalls());
+  await server.stop();
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const mint = getOption(args, '--record');
+
+  if (mint) {
+    await record(mint, getOption(args, '--out') || path.join(SAMPLE_FIXTURES_DIR, `${mint}.json`));
+    return;
+  }
+
+  await serve(parseInt(getOption(args, '--port') || '') || 8899, getOption(args, '--fixtures') || SAMPLE_FIXTURES_DIR);
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,57 @@
+/**
+ * One DAS token account, as getTokenAccounts returns it
+ */
+export interface TokenAccountFixture {
+  address: string;
+  mint: string;
+  owner: string;
+  amount: number;               // raw units
+  delegated_amount?: number;
+  frozen?: boolean;
+}
+
+/**
+ * One getSignaturesForAddress entry
+ */
+export interface SignatureFixture {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  err: unknown | null;
+  memo: string | null;
+  confirmationStatus?: 'processed' | 'confirmed' | 'finalized';
+}
+
+/**
+ * One enhanced transaction from /v0/addresses/{address}/transactions.
+ * Only the fields the server filters and pages on are typed; the rest is
+ * served as recorded.
+ */
+export interface EnhancedTransactionFixture {
+  signature: string;
+  timestamp: number;
+  type?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Recorded Helius and Solana RPC responses, keyed the way they are asked
+ * for. Lists are newest first, like the live endpoints.
+ */
+export interface HeliusFixture {
+  description?: string;
+  recordedAt?: string;
+  tokenAccounts?: Record<string, TokenAccountFixture[]>;               // by mint
+  signatures?: Record<string, SignatureFixture[]>;                     // by address
+  transactions?: Record<string, unknown>;                              // getTransaction, jsonParsed, by signature
+  rawTransactions?: Record<string, unknown>;                           // getTransaction, json, by signature
+  balances?: Record<string, number>;                                   // lamports, by address
+  enhancedTransactions?: Record<string, EnhancedTransactionFixture[]>; // by address
+}
+
+export interface MockHeliusOptions {
+  port: number;                 // 0 picks a free port
+  host: string;
+  slot: number;                 // reported as the context slot
+  log: boolean;
+}
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import { PaperTradingConfig, PaperTradingConfigOverrides } from './types';
+
+export const defaultConfig: PaperTradingConfig = {
+  strategy: 'default',
+  entry: {
+    minTechnicalScore: 200,
+    minHolderScore: 150,
+    progressMin: 40, // Thesis entry window
+    progressMax: 80,
+    requireOptimalZone: false,
+    skipDuringSelloff: true,
+    platforms: ['pumpfun', 'raydium_launchpad', 'meteora_dbc']
+  },
+  sizing: {
+    startingBalanceSol: 10,
+    positionSizeSol: 0.5,
+    maxOpenPositions: 10,
+    scaleByCurveMultiplier: true,
+    minPositionSol: 0.05
+  },
+  exit: {
+    stopLossPct: 25,
+    takeProfitPct: 100,
+    trailingStopPct: null,
+    exitOnSelloff: true,
+    minTechnicalScore: 120,
+    maxHoldMinutes: 240,
+    exitOnGraduation: true
+  },
+  execution: {
+    feeBps: 100, // pump.fun's 1% trade fee
+    fallbackSlippageBps: 200,
+    maxEntrySlippagePct: 5
+  }
+};
+
+/**
+ * Overlay a partial config, section by section, on the defaults
+ */
+export function mergeConfig(overrides: PaperTradingConfigOverrides): PaperTradingConfig {
+  return {
+    strategy: overrides.strategy || defaultConfig.strategy,
+    entry: { ...defaultConfig.entry, ...overrides.entry },
+    sizing: { ...defaultConfig.sizing, ...overrides.sizing },
+    exit: { ...defaultConfig.exit, ...overrides.exit },
+    execution: { ...defaultConfig.execution, ...overrides.execution }
+  };
+}
+
+/**
+ * Defaults, overlaid with a JSON file from PAPER_TRADING_CONFIG (any
+ * subset of the config) and then individual environment overrides
+ */
+export function loadConfig(configPath: string | undefined = process.env.PAPER_TRADING_CONFIG): PaperTradingConfig {
+  const config = mergeConfig(configPath ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {});
+
+  if (process.env.PAPER_STRATEGY) {
+    config.strategy = process.env.PAPER_STRATEGY;
+  }
+  if (process.env.PAPER_POSITION_SIZE_SOL) {
+    config.sizing.positionSizeSol = parseFloat(process.env.PAPER_POSITION_SIZE_SOL);
+  }
+  if (process.env.PAPER_STOP_LOSS_PCT) {
+    config.exit.stopLossPct = parseFloat(process.env.PAPER_STOP_LOSS_PCT);
+  }
+  if (process.env.PAPER_TAKE_PROFIT_PCT) {
+    config.exit.takeProfitPct = parseFloat(process.env.PAPER_TAKE_PROFIT_PCT);
+  }
+
+  return config;
+}
@@ -0,0 +1,74 @@
+import { ExecutionModel, MarketSnapshot, SimulatedFill } from './types';
+
+// Fills are walked along the pool's constant-product curve (x * y = k on
+// the virtual reserves), the same invariant pump.fun prices trades with.
+// The fee is taken on the SOL side before a buy and after a sell.
+
+function hasReserves(snapshot: MarketSnapshot): boolean {
+  return (snapshot.virtualSolReserves ?? 0) > 0 && (snapshot.virtualTokenReserves ?? 0) > 0;
+}
+
+function spotPrice(snapshot: MarketSnapshot): number {
+  return hasReserves(snapshot)
+    ? snapshot.virtualSolReserves! / snapshot.virtualTokenReserves!
+    : snapshot.priceSol;
+}
+
+export function simulateBuy(snapshot: MarketSnapshot, solIn: number, execution: ExecutionModel): SimulatedFill {
+  const feeSol = solIn * execution.feeBps / 10_000;
+  const netSol = solIn - feeSol;
+  const spot = spotPrice(snapshot);
+
+  let tokenAmount: number;
+  let priceModel: SimulatedFill['priceModel'];
+  if (hasReserves(snapshot)) {
+    const solReserves = snapshot.virtualSolReserves!;
+    const tokenReserves = snapshot.virtualTokenReserves!;
+    tokenAmount = tokenReserves - (solReserves * tokenReserves) / (solReserves + netSol);
+    priceModel = 'bonding_curve';
+  } else {
+    tokenAmount = netSol / (spot * (1 + execution.fallbackSlippageBps / 10_000));
+    priceModel = 'fixed_slippage';
+  }
+
+  return {
+    side: 'buy',
+    solAmount: solIn,
+    tokenAmount,
+    spotPriceSol: spot,
+    fillPriceSol: tokenAmount > 0 ? solIn / tokenAmount : spot,
+    slippagePct: tokenAmount > 0 ? ((netSol / tokenAmount) / spot - 1) * 100 : 0,
+    feeSol,
+    priceModel
+  };
+}
+
+export function simulateSell(snapshot: MarketSnapshot, tokensIn: number, execution: ExecutionModel): SimulatedFill {
+  const spot = spotPrice(snapshot);
+
+  let grossSol: number;
+  let priceModel: SimulatedFill['priceModel'];
+  if (hasReserves(snapshot)) {
+    const solReserves = snapshot.virtualSolReserves!;
+    const tokenReserves = snapshot.virtualTokenReserves!;
+    grossSol = solReserves - (solReserves * tokenReserves) / (tokenReserves + tokensIn);
+    priceModel = 'bonding_curve';
+  } else {
+    grossSol = tokensIn * spot * (1 - execution.fallbackSlippageBps / 10_000);
+    priceModel = 'fixed_slippage';
+  }
+
+  const feeSol = grossSol * execution.feeBps / 10_000;
+  const solAmount = grossSol - feeSol;
+
+  return {
+    side: 'sell',
+    solAmount,
+    tokenAmount: tokensIn,
+    spotPriceSol: spot,
+    fillPriceSol: tokensIn > 0 ? solAmount / tokensIn : spot,
+    slippagePct: tokensIn > 0 && spot > 0 ? (1 - (grossSol / tokensIn) / spot) * 100 : 0,
+    feeSol,
+    priceModel
+  };
+}
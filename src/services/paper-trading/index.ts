@@ -0,0 +1,7 @@
+// Paper Trading - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig, mergeConfig } from './config';
+export { simulateBuy, simulateSell } from './fill-simulator';
+export { loadMarketSnapshots } from './market-snapshots';
+export { PaperTradingEngine } from './paper-trading-engine';
@@ -0,0 +1,94 @@
+import { getDbPool } from '../../database/connection';
+import { technicalScoreCalculator } from '../../scoring/technical-score-calculator';
+import { MarketSnapshot } from './types';
+
+/**
+ * Build snapshots for pools with recent trading activity plus any pool the
+ * strategy still holds, joined with the latest holder score and a fresh
+ * technical score.
+ *
+ * Only pump.fun's virtual reserves define its price directly, so reserves
+ * are passed through for pumpfun pools and other platforms are filled at
+ * the configured fixed slippage.
+ */
+export async function loadMarketSnapshots(
+  platforms: string[],
+  heldPoolIds: string[] = [],
+  activeWithinMinutes: number = 10,
+  limit: number = 200
+): Promise<MarketSnapshot[]> {
+  const pool = getDbPool();
+  const result = await pool.query(
+    `SELECT
+      t.id AS token_id,
+      p.id AS pool_id,
+      t.mint_address,
+      t.symbol,
+      t.decimals,
+      p.platform,
+      p.status,
+      p.created_at,
+      p.latest_price,
+      p.bonding_curve_progress,
+      p.virtual_sol_reserves,
+      p.virtual_token_reserves,
+      hs.total_score AS holder_score
+    FROM pools p
+    JOIN tokens t ON t.id = p.token_id
+    LEFT JOIN LATERAL (
+      SELECT total_score FROM holder_scores_v2
+      WHERE token_id = t.id
+      ORDER BY score_time DESC
+      LIMIT 1
+    ) hs ON TRUE
+    WHERE p.id = ANY($2::uuid[])
+      OR (
+        p.platform = ANY($1::text[])
+        AND p.status = 'active'
+        AND p.latest_price IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM transactions tx
+          WHERE tx.pool_id = p.id
+          AND tx.block_time > NOW() - ($3 || ' minutes')::interval
+        )
+      )
+    ORDER BY p.bonding_curve_progress DESC NULLS LAST
+    LIMIT $4`,
+    [platforms, heldPoolIds, activeWithinMinutes, limit]
+  );
+
+  const now = new Date();
+  const snapshots: MarketSnapshot[] = [];
+
+  for (const row of result.rows) {
+    try {
+      const technical = await technicalScoreCalculator.calculateScore(row.token_id, row.pool_id);
+      const progress = row.bonding_curve_progress !== null ? parseFloat(row.bonding_curve_progress) : null;
+      const ageHours = Math.max((now.getTime() - new Date(row.created_at).getTime()) / 3_600_000, 1 / 60);
+      const useReserves = row.platform === 'pumpfun' && row.status === 'active' &&
+        row.virtual_sol_reserves && row.virtual_token_reserves;
+
+      snapshots.push({
+        tokenId: row.token_id,
+        poolId: row.pool_id,
+        mintAddress: row.mint_address,
+        symbol: row.symbol,
+        platform: row.platform,
+        poolStatus: row.status,
+        observedAt: now,
+        priceSol: row.latest_price ? parseFloat(row.latest_price) : 0,
+        progress,
+        velocityPerHour: progress !== null ? progress / ageHours : 0,
+        virtualSolReserves: useReserves ? Number(row.virtual_sol_reserves) / 1e9 : null,
+        virtualTokenReserves: useReserves ? Number(row.virtual_token_reserves) / Math.pow(10, row.decimals ?? 6) : null,
+        technicalScore: technical.totalScore,
+        holderScore: row.holder_score !== null ? parseFloat(row.holder_score) : null,
+        isSelloffActive: technical.isSelloffActive
+      });
+    } catch (error) {
+      console.error(`Failed to score pool ${row.pool_id}:`, error);
+    }
+  }
+
+  return snapshots;
+}
@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { paperTradingOperations } from '../../database/operations/paper-trading';
+import { PaperPnLReport } from '../../database/types';
+import { loadConfig } from './config';
+import { loadMarketSnapshots } from './market-snapshots';
+import { PaperTradingEngine } from './paper-trading-engine';
+import { PaperTradeEvent, PaperTradingConfig } from './types';
+
+/**
+ * Live paper trading against the scores the monitors keep current
+ *
+ * Usage:
+ *   npm run paper:trade
+ *   npm run paper:trade -- --config strategies/aggressive.json --interval 15
+ *   npm run paper:report -- --strategy aggressive
+ *
+ * The strategy name and rules come from PAPER_TRADING_CONFIG / --config,
+ * see src/services/paper-trading/config.ts for defaults.
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function logEvent(event: PaperTradeEvent) {
+  const symbol = event.snapshot.symbol || event.snapshot.mintAddress;
+  if (event.type === 'open') {
+    console.log(
+      `🟢 OPEN ${symbol}: ${event.position.size_sol.toFixed(4)} SOL at ${event.fill.fillPriceSol.toExponential(4)}`,
+      `(tech ${event.snapshot.technicalScore.toFixed(0)}, holder ${event.snapshot.holderScore?.toFixed(0) ?? 'n/a'},`,
+      `progress ${event.snapshot.progress?.toFixed(1)}%, slippage ${event.fill.slippagePct.toFixed(2)}% ${event.fill.priceModel})`
+    );
+  } else {
+    const pnl = event.position.realized_pnl_sol ?? 0;
+    console.log(
+      `${pnl >= 0 ? '💰' : '🔻'} CLOSE ${symbol} [${event.reason}]: ${pnl >= 0 ? '+' : ''}${pnl.toFixed(4)} SOL`,
+      `(${event.position.realized_pnl_pct?.toFixed(1)}%)`
+    );
+  }
+}
+
+export function printReport(report: PaperPnLReport) {
+  const format = (value: number | null, digits = 2) => value === null ? 'n/a' : value.toFixed(digits);
+
+  console.log(`\n📊 Paper trading report: ${report.strategy}`);
+  console.log('='.repeat(50));
+  console.log(`Positions:      ${report.open_positions} open, ${report.closed_positions} closed`);
+  console.log(`Win rate:       ${report.win_rate.toFixed(1)}% (${report.wins}W / ${report.losses}L)`);
+  console.log(`Realized PnL:   ${report.realized_pnl_sol.toFixed(4)} SOL on ${report.closed_volume_sol.toFixed(4)} SOL traded`);
+  console.log(`Unrealized PnL: ${report.unrealized_pnl_sol.toFixed(4)} SOL on ${report.open_exposure_sol.toFixed(4)} SOL open`);
+  console.log(`Total PnL:      ${report.total_pnl_sol.toFixed(4)} SOL`);
+  console.log(`Avg return:     ${format(report.avg_return_pct)}% (best ${format(report.best_return_pct)}%, worst ${format(report.worst_return_pct)}%)`);
+  console.log(`Avg hold:       ${format(report.avg_hold_minutes, 1)} min`);
+  console.log(`Fees:           ${report.fees_sol.toFixed(4)} SOL, avg slippage ${format(report.avg_slippage_pct)}%`);
+
+  if (report.exits.length > 0) {
+    console.log('\nExits:');
+    for (const exit of report.exits) {
+      console.log(`  ${exit.reason.padEnd(14)} ${String(exit.count).padStart(5)}  ${exit.pnl_sol.toFixed(4)} SOL`);
+    }
+  }
+}
+
+async function runOnce(engine: PaperTradingEngine, config: PaperTradingConfig): Promise<void> {
+  const held = await paperTradingOperations.getOpenPositions(config.strategy);
+  const snapshots = await loadMarketSnapshots(config.entry.platforms, held.map(position => position.pool_id));
+  const events = await engine.evaluate(snapshots);
+  events.forEach(logEvent);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const config = loadConfig(getOption(args, '--config'));
+  const strategy = getOption(args, '--strategy');
+  if (strategy) {
+    config.strategy = strategy;
+  }
+
+  if (args.includes('--report')) {
+    printReport(await paperTradingOperations.getPnLReport(config.strategy));
+    await closeDbPool();
+    process.exit(0);
+  }
+
+  const intervalSeconds = parseFloat(getOption(args, '--interval') || '30');
+  const engine = new PaperTradingEngine(config);
+
+  console.log(`📝 Paper trading strategy "${config.strategy}" every ${intervalSeconds}s`);
+  console.log(`   Entry: tech >= ${config.entry.minTechnicalScore}, holder >= ${config.entry.minHolderScore}, progress ${config.entry.progressMin}-${config.entry.progressMax}%`);
+  console.log(`   Exit: SL ${config.exit.stopLossPct}%, TP ${config.exit.takeProfitPct}%, sell-off ${config.exit.exitOnSelloff ? 'on' : 'off'}\n`);
+
+  let stopping = false;
+  const shutdown = async () => {
+    stopping = true;
+    printReport(await paperTradingOperations.getPnLReport(config.strategy));
+    await closeDbPool();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  while (!stopping) {
+    try {
+      await runOnce(engine, config);
+    } catch (error) {
+      console.error('❌ Paper trading cycle failed:', error);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000));
+  }
+}
+
+if (require.main === module) {
+  main().catch(async (error) => {
+    console.error('Paper trader failed:', error);
+    await closeDbPool();
+    process.exit(1);
+  });
+}
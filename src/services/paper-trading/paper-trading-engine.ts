@@ -0,0 +1,216 @@
+import { bondingCurveOptimizer } from '../../scoring/bonding-curve-optimizer';
+import { paperTradingOperations } from '../../database/operations/paper-trading';
+import { simulateBuy, simulateSell } from './fill-simulator';
+import {
+  MarketSnapshot,
+  PaperExitReason,
+  PaperFill,
+  PaperPosition,
+  PaperTradeEvent,
+  PaperTradingConfig,
+  PaperTradingStore,
+  SimulatedFill
+} from './types';
+
+/**
+ * Applies a strategy's entry and exit rules to a batch of market snapshots.
+ * Each call marks open positions to market, closes those that hit an exit
+ * rule and then opens new positions from the best-scoring candidates.
+ * The engine has no clock of its own, so live trading and backtests differ
+ * only in where snapshots come from and which store is used.
+ */
+export class PaperTradingEngine {
+  constructor(
+    private readonly config: PaperTradingConfig,
+    private readonly store: PaperTradingStore = paperTradingOperations
+  ) {}
+
+  get strategy(): string {
+    return this.config.strategy;
+  }
+
+  async evaluate(snapshots: MarketSnapshot[], now: Date = new Date()): Promise<PaperTradeEvent[]> {
+    const events: PaperTradeEvent[] = [];
+    const snapshotsByPool = new Map(snapshots.map(snapshot => [snapshot.poolId, snapshot]));
+
+    const openPositions = await this.store.getOpenPositions(this.config.strategy);
+    const heldPools = new Set(openPositions.map(position => position.pool_id));
+    const remaining: PaperPosition[] = [];
+
+    for (const position of openPositions) {
+      const snapshot = snapshotsByPool.get(position.pool_id);
+      if (!snapshot || snapshot.priceSol <= 0) {
+        remaining.push(position);
+        continue;
+      }
+
+      const peak = Math.max(position.peak_price_sol ?? position.entry_price_sol, snapshot.priceSol);
+      const reason = this.getExitReason(position, snapshot, peak, now);
+
+      if (reason) {
+        const fill = simulateSell(snapshot, position.token_amount, this.config.execution);
+        const closed = await this.store.closePosition(position, this.toFill(fill, now, reason), reason);
+        events.push({ type: 'close', position: closed, fill, reason, snapshot });
+      } else {
+        const unrealized = position.token_amount * snapshot.priceSol - position.size_sol;
+        await this.store.markPosition(position.id!, snapshot.priceSol, peak, unrealized);
+        remaining.push(position);
+      }
+    }
+
+    const realizedPnl = await this.store.getRealizedPnl(this.config.strategy);
+    let availableSol = this.config.sizing.startingBalanceSol + realizedPnl
+      - remaining.reduce((sum, position) => sum + position.size_sol, 0);
+    let openCount = remaining.length;
+
+    // Pools exited this round are not re-entered until the next evaluation
+    const candidates = snapshots
+      .filter(snapshot => !heldPools.has(snapshot.poolId) && this.passesEntryRules(snapshot))
+      .sort((a, b) => (b.technicalScore + (b.holderScore ?? 0)) - (a.technicalScore + (a.holderScore ?? 0)));
+
+    for (const snapshot of candidates) {
+      if (openCount >= this.config.sizing.maxOpenPositions) break;
+
+      const size = Math.min(this.getPositionSize(snapshot), availableSol);
+      if (size < this.config.sizing.minPositionSol) continue;
+
+      const fill = simulateBuy(snapshot, size, this.config.execution);
+      if (fill.tokenAmount <= 0 || fill.slippagePct > this.config.execution.maxEntrySlippagePct) continue;
+
+      const position = await this.store.openPosition(
+        {
+          strategy: this.config.strategy,
+          token_id: snapshot.tokenId,
+          pool_id: snapshot.poolId,
+          mint_address: snapshot.mintAddress,
+          status: 'open',
+          opened_at: now,
+          size_sol: size,
+          token_amount: fill.tokenAmount,
+          entry_price_sol: fill.fillPriceSol,
+          entry_technical_score: snapshot.technicalScore,
+          entry_holder_score: snapshot.holderScore,
+          entry_progress: snapshot.progress,
+          metadata: {
+            symbol: snapshot.symbol,
+            platform: snapshot.platform,
+            velocityPerHour: snapshot.velocityPerHour
+          }
+        },
+        this.toFill(fill, now, 'entry')
+      );
+
+      availableSol -= size;
+      openCount++;
+      events.push({ type: 'open', position, fill, snapshot });
+    }
+
+    return events;
+  }
+
+  /**
+   * Close every open position that has a snapshot, regardless of the exit rules
+   */
+  async closeOpenPositions(
+    snapshots: MarketSnapshot[],
+    now: Date = new Date(),
+    reason: PaperExitReason = 'manual'
+  ): Promise<PaperTradeEvent[]> {
+    const events: PaperTradeEvent[] = [];
+    const snapshotsByPool = new Map(snapshots.map(snapshot => [snapshot.poolId, snapshot]));
+
+    for (const position of await this.store.getOpenPositions(this.config.strategy)) {
+      const snapshot = snapshotsByPool.get(position.pool_id);
+      if (!snapshot) continue;
+
+      const fill = simulateSell(snapshot, position.token_amount, this.config.execution);
+      const closed = await this.store.closePosition(position, this.toFill(fill, now, reason), reason);
+      events.push({ type: 'close', position: closed, fill, reason, snapshot });
+    }
+
+    return events;
+  }
+
+  /**
+   * Exit rules in priority order. Price moves are measured from the
+   * all-in entry price, so fees and entry slippage count against the trade.
+   */
+  private getExitReason(
+    position: PaperPosition,
+    snapshot: MarketSnapshot,
+    peakPrice: number,
+    now: Date
+  ): PaperExitReason | null {
+    const { exit } = this.config;
+    const changePct = (snapshot.priceSol / position.entry_price_sol - 1) * 100;
+
+    if (exit.exitOnGraduation && (snapshot.poolStatus === 'graduated' || (snapshot.progress ?? 0) >= 100)) {
+      return 'graduated';
+    }
+    if (exit.exitOnSelloff && snapshot.isSelloffActive) {
+      return 'selloff';
+    }
+    if (changePct <= -exit.stopLossPct) {
+      return 'stop_loss';
+    }
+    if (exit.trailingStopPct !== null && snapshot.priceSol <= peakPrice * (1 - exit.trailingStopPct / 100)) {
+      return 'trailing_stop';
+    }
+    if (changePct >= exit.takeProfitPct) {
+      return 'take_profit';
+    }
+    if (exit.minTechnicalScore !== null && snapshot.technicalScore < exit.minTechnicalScore) {
+      return 'score_decay';
+    }
+    if (exit.maxHoldMinutes !== null &&
+        now.getTime() - new Date(position.opened_at).getTime() >= exit.maxHoldMinutes * 60_000) {
+      return 'max_hold';
+    }
+    return null;
+  }
+
+  private passesEntryRules(snapshot: MarketSnapshot): boolean {
+    const { entry } = this.config;
+
+    if (!entry.platforms.includes(snapshot.platform)) return false;
+    if (snapshot.poolStatus !== 'active' || snapshot.priceSol <= 0) return false;
+    if (snapshot.progress === null || snapshot.progress < entry.progressMin || snapshot.progress > entry.progressMax) {
+      return false;
+    }
+    if (snapshot.technicalScore < entry.minTechnicalScore) return false;
+    if (entry.minHolderScore > 0 && (snapshot.holderScore === null || snapshot.holderScore < entry.minHolderScore)) {
+      return false;
+    }
+    if (entry.skipDuringSelloff && snapshot.isSelloffActive) return false;
+    if (entry.requireOptimalZone &&
+        !bondingCurveOptimizer.calculateScore(snapshot.progress, snapshot.velocityPerHour).isOptimalEntry) {
+      return false;
+    }
+    return true;
+  }
+
+  private getPositionSize(snapshot: MarketSnapshot): number {
+    const { sizing } = this.config;
+    if (!sizing.scaleByCurveMultiplier || snapshot.progress === null) {
+      return sizing.positionSizeSol;
+    }
+    return sizing.positionSizeSol *
+      bondingCurveOptimizer.getPositionSizeMultiplier(snapshot.progress, snapshot.velocityPerHour);
+  }
+
+  private toFill(fill: SimulatedFill, filledAt: Date, reason: string): Omit<PaperFill, 'position_id'> {
+    return {
+      strategy: this.config.strategy,
+      side: fill.side,
+      filled_at: filledAt,
+      sol_amount: fill.solAmount,
+      token_amount: fill.tokenAmount,
+      spot_price_sol: fill.spotPriceSol,
+      fill_price_sol: fill.fillPriceSol,
+      slippage_pct: fill.slippagePct,
+      fee_sol: fill.feeSol,
+      price_model: fill.priceModel,
+      reason
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { PaperExitReason, PaperFill, PaperPosition } from '../../database/types';
+
+export type { PaperExitReason, PaperFill, PaperPosition };
+
+export interface EntryRules {
+  minTechnicalScore: number;        // 0-333
+  minHolderScore: number;           // 0-333; tokens without a holder score are skipped when > 0
+  progressMin: number;              // bonding curve % window
+  progressMax: number;
+  requireOptimalZone: boolean;      // defer to bondingCurveOptimizer.isOptimalEntry
+  skipDuringSelloff: boolean;
+  platforms: string[];
+}
+
+export interface SizingRules {
+  startingBalanceSol: number;
+  positionSizeSol: number;
+  maxOpenPositions: number;
+  scaleByCurveMultiplier: boolean;  // size * bondingCurveOptimizer.getPositionSizeMultiplier
+  minPositionSol: number;
+}
+
+export interface ExitRules {
+  stopLossPct: number;
+  takeProfitPct: number;
+  trailingStopPct: number | null;   // from peak, null disables
+  exitOnSelloff: boolean;
+  minTechnicalScore: number | null; // score decay exit, null disables
+  maxHoldMinutes: number | null;
+  exitOnGraduation: boolean;
+}
+
+export interface ExecutionModel {
+  feeBps: number;                   // venue fee charged on the SOL side
+  fallbackSlippageBps: number;      // used when reserves are unavailable
+  maxEntrySlippagePct: number;      // skip entries with more modelled price impact
+}
+
+export interface PaperTradingConfig {
+  strategy: string;
+  entry: EntryRules;
+  sizing: SizingRules;
+  exit: ExitRules;
+  execution: ExecutionModel;
+}
+
+export interface PaperTradingConfigOverrides {
+  strategy?: string;
+  entry?: Partial<EntryRules>;
+  sizing?: Partial<SizingRules>;
+  exit?: Partial<ExitRules>;
+  execution?: Partial<ExecutionModel>;
+}
+
+/**
+ * Point-in-time view of a pool as the engine sees it. Reserves are in
+ * whole SOL and whole tokens; when both are present fills are simulated
+ * along the constant-product curve, otherwise at a fixed slippage.
+ */
+export interface MarketSnapshot {
+  tokenId: string;
+  poolId: string;
+  mintAddress: string;
+  symbol: string | null;
+  platform: string;
+  poolStatus: string;
+  observedAt: Date;
+  priceSol: number;
+  progress: number | null;
+  velocityPerHour: number;
+  virtualSolReserves: number | null;
+  virtualTokenReserves: number | null;
+  technicalScore: number;
+  holderScore: number | null;
+  isSelloffActive: boolean;
+}
+
+export interface SimulatedFill {
+  side: 'buy' | 'sell';
+  solAmount: number;      // SOL spent on a buy (fee included), SOL received on a sell (fee deducted)
+  tokenAmount: number;
+  spotPriceSol: number;
+  fillPriceSol: number;   // all-in SOL per token
+  slippagePct: number;    // price impact against spot, fees excluded
+  feeSol: number;
+  priceModel: 'bonding_curve' | 'fixed_slippage';
+}
+
+/**
+ * Persistence used by the engine. PaperTradingOperations implements it
+ * against Postgres; backtests can supply an in-memory implementation.
+ */
+export interface PaperTradingStore {
+  getOpenPositions(strategy: string): Promise<PaperPosition[]>;
+  getRealizedPnl(strategy: string): Promise<number>;
+  openPosition(position: PaperPosition, fill: Omit<PaperFill, 'position_id'>): Promise<PaperPosition>;
+  closePosition(
+    position: PaperPosition,
+    fill: Omit<PaperFill, 'position_id'>,
+    reason: PaperExitReason
+  ): Promise<PaperPosition>;
+  markPosition(id: number, priceSol: number, peakPriceSol: number, unrealizedPnlSol: number): Promise<void>;
+}
+
+export type PaperTradeEvent =
+  | { type: 'open'; position: PaperPosition; fill: SimulatedFill; snapshot: MarketSnapshot }
+  | { type: 'close'; position: PaperPosition; fill: SimulatedFill; reason: PaperExitReason; snapshot: MarketSnapshot };
@@ -0,0 +1,42 @@
+import { ScoringConfig } from '../../scoring/scoring-config-manager';
+import { SellPressureDetectorConfig, SellPressureThresholds } from './types';
+
+export const defaultConfig: SellPressureDetectorConfig = {
+  historyLimit: 100,
+  rebuildMinutes: 60,
+  pollIntervalMs: 5_000,
+  pollBatchSize: 1000,
+  settleSeconds: 5
+};
+
+export function loadConfig(): SellPressureDetectorConfig {
+  return {
+    historyLimit: parseInt(process.env.SELL_PRESSURE_HISTORY_LIMIT || '') || defaultConfig.historyLimit,
+    rebuildMinutes: parseInt(process.env.SELL_PRESSURE_REBUILD_MINUTES || '') || defaultConfig.rebuildMinutes,
+    pollIntervalMs: parseInt(process.env.SELL_PRESSURE_POLL_MS || '') || defaultConfig.pollIntervalMs,
+    pollBatchSize: defaultConfig.pollBatchSize,
+    settleSeconds: defaultConfig.settleSeconds
+  };
+}
+
+/**
+ * Map the `selloff` scoring config onto detector thresholds. The minor drop
+ * both opens an episode and marks it medium; moderate and severe drops mark
+ * it high and critical.
+ */
+export function thresholdsFromScoringConfig(selloff: ScoringConfig['selloff']): SellPressureThresholds {
+  return {
+    minDropPercent: selloff.minorDropThreshold,
+    mediumDropPercent: selloff.minorDropThreshold,
+    highDropPercent: selloff.moderateDropThreshold,
+    criticalDropPercent: selloff.severeDropThreshold,
+    mediumVolumeSol: selloff.mediumVolumeSol,
+    highVolumeSol: selloff.highVolumeSol,
+    criticalVolumeSol: selloff.criticalVolumeSol,
+    whaleDumpSol: selloff.whaleDumpSol,
+    windowMinutes: selloff.windowMinutes,
+    coordinatedSellsPerMinute: selloff.coordinatedSellsPerMinute,
+    recoveryRetracePercent: selloff.recoveryRetracePercent,
+    maxEpisodeMinutes: selloff.maxEpisodeMinutes
+  };
+}
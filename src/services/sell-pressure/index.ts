@@ -0,0 +1,5 @@
+// Sell Pressure - Main Export File
+
+export * from './types';
+export { defaultConfig, loadConfig, thresholdsFromScoringConfig } from './config';
+export { SellPressureDetector, sellPressureDetector } from './sell-pressure-detector';
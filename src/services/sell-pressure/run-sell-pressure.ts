@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { closeDbPool } from '../../database/connection';
+import { sellPressureDetector } from './sell-pressure-detector';
+import { SellPressureEvent } from './types';
+
+/**
+ * Standalone sell pressure detector
+ *
+ * Usage:
+ *   npm run sell-pressure:start
+ *   npm run sell-pressure:start -- --status    # rebuild, print active episodes and exit
+ *
+ * Thresholds come from the `selloff` rows of scoring_config (migration 036);
+ * SELL_PRESSURE_POLL_MS and SELL_PRESSURE_REBUILD_MINUTES tune the runner.
+ */
+
+function logEvent(event: SellPressureEvent) {
+  const { episode } = event;
+  const symbol = event.symbol || event.mintAddress || episode.tokenId;
+  const drop = episode.maxDropPercent.toFixed(1);
+
+  if (event.type === 'opened' || event.type === 'escalated') {
+    console.log(`⚠️  ${symbol}: sell-off ${event.type} [${episode.severity.toUpperCase()}] -${drop}%, ${episode.sellVolume.toFixed(2)} SOL sold`);
+  } else {
+    const strength = event.recovery ? `, recovery ${event.recovery.recoveryStrength.toFixed(1)}x` : '';
+    console.log(`✅ ${symbol}: sell-off ${event.type} after -${drop}%${strength}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--status')) {
+    await sellPressureDetector.load();
+    const episodes = sellPressureDetector.getActiveEpisodes();
+    console.log(`\n${episodes.length} active sell-off episodes`);
+    for (const episode of episodes) {
+      console.log(`  ${episode.poolId}  ${episode.severity.padEnd(8)} -${episode.maxDropPercent.toFixed(1)}%  since ${episode.startTime.toISOString()}`);
+    }
+    await closeDbPool();
+    process.exit(0);
+  }
+
+  sellPressureDetector.on('episode', logEvent);
+  await sellPressureDetector.start();
+  console.log('📉 Sell pressure detector running');
+
+  const shutdown = async () => {
+    sellPressureDetector.stop();
+    const status = sellPressureDetector.getStatus();
+    console.log(`\nProcessed ${status.tradesProcessed} trades, opened ${status.episodesOpened} and closed ${status.episodesClosed} episodes`);
+    await closeDbPool();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main().catch(async (error) => {
+    console.error('Sell pressure detector failed:', error);
+    await closeDbPool();
+    process.exit(1);
+  });
+}
@@ -0,0 +1,711 @@
+import { EventEmitter } from 'events';
+import { Pool } from 'pg';
+import { getDbPool } from '../../database/connection';
+import { scoringConfigManager } from '../../scoring/scoring-config-manager';
+import { alertBus } from '../alerts/alert-bus';
+import { loadConfig, thresholdsFromScoringConfig } from './config';
+import {
+  PriceUpdate,
+  RecoveryAnalysis,
+  SEVERITY_ORDER,
+  SellPressureDetectorConfig,
+  SellPressureEpisode,
+  SellPressureEvent,
+  SellPressureEventType,
+  SellPressureSeverity,
+  SellPressureStatus,
+  SellPressureThresholds
+} from './types';
+
+const MIN_HISTORY = 5;
+
+interface WindowMetrics {
+  highPrice: number;
+  highAt: Date;
+  sellVolume: number;
+  buyVolume: number;
+  sellCount: number;
+  buyCount: number;
+  largestSell: number;
+  sellsLastMinute: number;
+}
+
+interface TokenInfo {
+  symbol: string | null;
+  mintAddress: string | null;
+}
+
+/**
+ * Trades inside the detection window ending at `at`
+ */
+function windowMetrics(history: PriceUpdate[], at: Date, thresholds: SellPressureThresholds): WindowMetrics | null {
+  const windowStart = at.getTime() - thresholds.windowMinutes * 60_000;
+  const minuteStart = at.getTime() - 60_000;
+  const recent = history.filter(h => h.timestamp.getTime() >= windowStart);
+  if (recent.length === 0) return null;
+
+  const metrics: WindowMetrics = {
+    highPrice: recent[0].price,
+    highAt: recent[0].timestamp,
+    sellVolume: 0,
+    buyVolume: 0,
+    sellCount: 0,
+    buyCount: 0,
+    largestSell: 0,
+    sellsLastMinute: 0
+  };
+  for (const trade of recent) {
+    if (trade.price > metrics.highPrice) {
+      metrics.highPrice = trade.price;
+      metrics.highAt = trade.timestamp;
+    }
+    if (trade.type === 'sell') {
+      metrics.sellVolume += trade.volume;
+      metrics.sellCount++;
+      metrics.largestSell = Math.max(metrics.largestSell, trade.volume);
+      if (trade.timestamp.getTime() >= minuteStart) metrics.sellsLastMinute++;
+    } else {
+      metrics.buyVolume += trade.volume;
+      metrics.buyCount++;
+    }
+  }
+  return metrics;
+}
+
+function classifySeverity(
+  dropPercent: number,
+  metrics: WindowMetrics,
+  thresholds: SellPressureThresholds
+): SellPressureSeverity {
+  let severity: SellPressureSeverity = 'low';
+  if (dropPercent >= thresholds.criticalDropPercent || metrics.sellVolume >= thresholds.criticalVolumeSol) {
+    severity = 'critical';
+  } else if (dropPercent >= thresholds.highDropPercent || metrics.sellVolume >= thresholds.highVolumeSol) {
+    severity = 'high';
+  } else if (dropPercent >= thresholds.mediumDropPercent || metrics.sellVolume >= thresholds.mediumVolumeSol) {
+    severity = 'medium';
+  }
+
+  if (metrics.largestSell >= thresholds.whaleDumpSol) {
+    severity = 'critical';
+  }
+  if (severity === 'low' && metrics.sellsLastMinute > thresholds.coordinatedSellsPerMinute) {
+    severity = 'medium';
+  }
+  return severity;
+}
+
+function rank(severity: SellPressureSeverity): number {
+  return SEVERITY_ORDER.indexOf(severity);
+}
+
+/**
+ * Detects sell-offs per pool and keeps each one as an episode in
+ * `selloff_events` until the price recovers or the episode expires.
+ *
+ * State is rebuilt from `transactions` when the detector starts, so a
+ * restart neither loses active episodes nor opens duplicates. Run
+ * standalone it polls `transactions`; monitors can also hand trades over
+ * directly with processTrade(). Changes are emitted as 'episode' events
+ * and opened or escalated episodes are published to the alert bus.
+ */
+export class SellPressureDetector extends EventEmitter {
+  private pool: Pool;
+  private readonly histories = new Map<string, PriceUpdate[]>();
+  private readonly episodes = new Map<string, SellPressureEpisode>();
+  private readonly queues = new Map<string, Promise<void>>();
+  private readonly tokens = new Map<string, TokenInfo>();
+  private ready: Promise<void> | null = null;
+  private cursor: { at: Date; signature: string } | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private tradesProcessed = 0;
+  private episodesOpened = 0;
+  private episodesClosed = 0;
+
+  constructor(private readonly config: SellPressureDetectorConfig = loadConfig()) {
+    super();
+    this.pool = getDbPool();
+  }
+
+  // ============ Lifecycle ============
+
+  /**
+   * Rebuild state, then poll `transactions` for new trades
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    await this.load();
+    this.running = true;
+    this.schedulePoll();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  getStatus(): SellPressureStatus {
+    return {
+      running: this.running,
+      pools: this.histories.size,
+      activeEpisodes: this.episodes.size,
+      tradesProcessed: this.tradesProcessed,
+      episodesOpened: this.episodesOpened,
+      episodesClosed: this.episodesClosed,
+      cursor: this.cursor
+    };
+  }
+
+  /**
+   * Rebuild state once; later calls wait for the same rebuild
+   */
+  load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.rebuild().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Load active episodes and the latest trades per pool. Trades after an
+   * episode's last recorded trade are replayed into it, so episodes that
+   * recovered while the detector was down are closed.
+   */
+  private async rebuild(): Promise<void> {
+    const active = await this.pool.query(`
+      SELECT DISTINCT ON (se.pool_id)
+        se.*,
+        COALESCE(se.token_id, p.token_id) AS resolved_token_id
+      FROM selloff_events se
+      JOIN pools p ON p.id = se.pool_id
+      WHERE se.is_active = TRUE
+      ORDER BY se.pool_id, se.start_time DESC`);
+
+    for (const row of active.rows) {
+      const episode = this.toEpisode(row);
+      this.episodes.set(episode.poolId, episode);
+    }
+
+    const trades = await this.pool.query(`
+      SELECT pool_id, token_id, signature, block_time, type, sol_amount, price_per_token
+      FROM (
+        SELECT pool_id, token_id, signature, block_time, type, sol_amount, price_per_token,
+          ROW_NUMBER() OVER (PARTITION BY pool_id ORDER BY block_time DESC, signature DESC) AS rn
+        FROM transactions
+        WHERE block_time > NOW() - make_interval(mins => $1)
+          AND block_time <= NOW() - make_interval(secs => $2)
+          AND type IN ('buy', 'sell')
+          AND price_per_token > 0
+      ) recent
+      WHERE rn <= $3
+      ORDER BY block_time ASC, signature ASC`,
+      [this.config.rebuildMinutes, this.config.settleSeconds, this.config.historyLimit]
+    );
+
+    const thresholds = await this.getThresholds();
+    for (const row of trades.rows) {
+      const update = this.toUpdate(row);
+      this.remember(update);
+
+      const episode = this.episodes.get(update.poolId);
+      if (episode && update.timestamp > episode.lastTradeAt) {
+        await this.updateEpisode(episode, update, thresholds);
+      }
+    }
+
+    const last = trades.rows[trades.rows.length - 1];
+    this.cursor = last
+      ? { at: new Date(last.block_time), signature: last.signature }
+      : { at: new Date(Date.now() - this.config.settleSeconds * 1000), signature: '' };
+
+    console.log(`📉 Sell pressure state rebuilt: ${this.histories.size} pools, ${this.episodes.size} active episodes`);
+  }
+
+  // ============ Trade Processing ============
+
+  /**
+   * Feed one trade. Trades for the same pool are handled in order; errors
+   * are logged, never thrown.
+   */
+  async processTrade(update: PriceUpdate): Promise<void> {
+    const previous = this.queues.get(update.poolId) || Promise.resolve();
+    const next = previous
+      .then(() => this.load())
+      .then(() => this.handleTrade(update))
+      .catch(error => console.error(`Error processing sell pressure for pool ${update.poolId}:`, error));
+
+    this.queues.set(update.poolId, next);
+    await next;
+    if (this.queues.get(update.poolId) === next) {
+      this.queues.delete(update.poolId);
+    }
+  }
+
+  private async handleTrade(update: PriceUpdate): Promise<void> {
+    const history = this.remember(update);
+    this.tradesProcessed++;
+
+    const thresholds = await this.getThresholds();
+    const episode = this.episodes.get(update.poolId);
+    if (episode) {
+      await this.updateEpisode(episode, update, thresholds);
+    } else {
+      await this.detect(update, history, thresholds);
+    }
+  }
+
+  private remember(update: PriceUpdate): PriceUpdate[] {
+    let history = this.histories.get(update.poolId);
+    if (!history) {
+      history = [];
+      this.histories.set(update.poolId, history);
+    }
+    history.push(update);
+    if (history.length > this.config.historyLimit) {
+      history.shift();
+    }
+    return history;
+  }
+
+  private async detect(
+    update: PriceUpdate,
+    history: PriceUpdate[],
+    thresholds: SellPressureThresholds
+  ): Promise<void> {
+    if (history.length < MIN_HISTORY) return;
+
+    const metrics = windowMetrics(history, update.timestamp, thresholds);
+    if (!metrics || metrics.sellCount === 0 || metrics.highPrice <= 0) return;
+
+    const dropPercent = ((metrics.highPrice - update.price) / metrics.highPrice) * 100;
+    const severity = classifySeverity(dropPercent, metrics, thresholds);
+    if (severity === 'low' || dropPercent <= thresholds.minDropPercent) return;
+
+    const episode: SellPressureEpisode = {
+      id: '',
+      poolId: update.poolId,
+      tokenId: update.tokenId,
+      startTime: metrics.highAt,
+      endTime: null,
+      startPrice: metrics.highPrice,
+      lowestPrice: update.price,
+      lastPrice: update.price,
+      lastTradeAt: update.timestamp,
+      recoveryPrice: null,
+      maxDropPercent: dropPercent,
+      severity,
+      sellVolume: metrics.sellVolume,
+      buyVolume: metrics.buyVolume,
+      sellCount: metrics.sellCount,
+      buyCount: metrics.buyCount,
+      largestSellVolume: metrics.largestSell,
+      recoveryStrength: null,
+      isActive: true,
+      endReason: null
+    };
+
+    episode.id = await this.insertEpisode(episode);
+    this.episodes.set(episode.poolId, episode);
+    this.episodesOpened++;
+    await this.publish('opened', episode, null);
+  }
+
+  private async updateEpisode(
+    episode: SellPressureEpisode,
+    update: PriceUpdate,
+    thresholds: SellPressureThresholds
+  ): Promise<void> {
+    episode.lastPrice = update.price;
+    episode.lastTradeAt = update.timestamp;
+    episode.lowestPrice = Math.min(episode.lowestPrice, update.price);
+    if (update.type === 'sell') {
+      episode.sellVolume += update.volume;
+      episode.sellCount++;
+      episode.largestSellVolume = Math.max(episode.largestSellVolume, update.volume);
+    } else {
+      episode.buyVolume += update.volume;
+      episode.buyCount++;
+    }
+
+    const dropPercent = ((episode.startPrice - update.price) / episode.startPrice) * 100;
+    episode.maxDropPercent = Math.max(episode.maxDropPercent, dropPercent);
+
+    const metrics = windowMetrics(this.histories.get(update.poolId) || [], update.timestamp, thresholds);
+    const severity = metrics ? classifySeverity(episode.maxDropPercent, metrics, thresholds) : episode.severity;
+    const escalated = rank(severity) > rank(episode.severity);
+    if (escalated) {
+      episode.severity = severity;
+    }
+
+    const recoveryPrice = episode.lowestPrice + (episode.startPrice - episode.lowestPrice) * thresholds.recoveryRetracePercent / 100;
+    const ageMinutes = (update.timestamp.getTime() - episode.startTime.getTime()) / 60_000;
+
+    if (update.price > episode.lowestPrice && update.price >= recoveryPrice) {
+      await this.closeEpisode(episode, 'recovered', update.timestamp);
+    } else if (ageMinutes > thresholds.maxEpisodeMinutes) {
+      await this.closeEpisode(episode, 'expired', update.timestamp);
+    } else if (await this.saveEpisode(episode) && escalated) {
+      await this.publish('escalated', episode, null);
+    }
+  }
+
+  private async closeEpisode(
+    episode: SellPressureEpisode,
+    reason: 'recovered' | 'expired',
+    at: Date
+  ): Promise<void> {
+    const recovery = this.analyzeRecovery(episode.poolId);
+    episode.isActive = false;
+    episode.endTime = at;
+    episode.endReason = reason;
+    episode.recoveryPrice = reason === 'recovered' ? episode.lastPrice : null;
+    episode.recoveryStrength = recovery.recoveryStrength;
+
+    this.episodes.delete(episode.poolId);
+    if (await this.saveEpisode(episode)) {
+      this.episodesClosed++;
+      await this.publish(reason, episode, recovery);
+    }
+  }
+
+  // ============ Polling ============
+
+  private schedulePoll(): void {
+    if (!this.running) return;
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error('Sell pressure poll failed:', error);
+      }
+      this.schedulePoll();
+    }, this.config.pollIntervalMs);
+  }
+
+  /**
+   * Process trades written since the cursor, then expire idle episodes
+   */
+  async poll(): Promise<number> {
+    await this.load();
+    let processed = 0;
+
+    while (this.cursor) {
+      const result = await this.pool.query(`
+        SELECT pool_id, token_id, signature, block_time, type, sol_amount, price_per_token
+        FROM transactions
+        WHERE block_time >= $1
+          AND (block_time, signature) > ($1, $2)
+          AND block_time <= NOW() - make_interval(secs => $3)
+          AND type IN ('buy', 'sell')
+          AND price_per_token > 0
+        ORDER BY block_time ASC, signature ASC
+        LIMIT $4`,
+        [this.cursor.at, this.cursor.signature, this.config.settleSeconds, this.config.pollBatchSize]
+      );
+
+      for (const row of result.rows) {
+        await this.processTrade(this.toUpdate(row));
+        this.cursor = { at: new Date(row.block_time), signature: row.signature };
+      }
+      processed += result.rows.length;
+      if (result.rows.length < this.config.pollBatchSize) break;
+    }
+
+    await this.expireIdle(new Date());
+    return processed;
+  }
+
+  /**
+   * Episodes on pools that stopped trading never see the trade that would
+   * expire them
+   */
+  private async expireIdle(now: Date): Promise<void> {
+    const thresholds = await this.getThresholds();
+    for (const episode of Array.from(this.episodes.values())) {
+      const ageMinutes = (now.getTime() - episode.startTime.getTime()) / 60_000;
+      if (ageMinutes > thresholds.maxEpisodeMinutes) {
+        await this.closeEpisode(episode, 'expired', now);
+      }
+    }
+  }
+
+  // ============ Recovery ============
+
+  /**
+   * How strongly the pool is bouncing off its recent low. Measured against
+   * the active episode's start price when there is one.
+   */
+  analyzeRecovery(poolId: string): RecoveryAnalysis {
+    const history = this.histories.get(poolId);
+    if (!history || history.length < 10) {
+      return { isRecovering: false, recoveryStrength: 0, timeToRecover: null };
+    }
+
+    let lowestPrice = history[0].price;
+    let lowestIndex = 0;
+    for (let i = 1; i < history.length; i++) {
+      if (history[i].price < lowestPrice) {
+        lowestPrice = history[i].price;
+        lowestIndex = i;
+      }
+    }
+
+    if (lowestIndex === history.length - 1) {
+      return { isRecovering: false, recoveryStrength: 0, timeToRecover: null };
+    }
+
+    const currentPrice = history[history.length - 1].price;
+    const recoveryPercent = ((currentPrice - lowestPrice) / lowestPrice) * 100;
+
+    const sinceLow = history.slice(lowestIndex);
+    const recoverySells = sinceLow.filter(h => h.type === 'sell').length;
+    const recoveryBuys = sinceLow.filter(h => h.type === 'buy').length;
+    const recoveryRatio = recoveryBuys / Math.max(recoverySells, 1);
+
+    // Extrapolate the rate since the low to the pre-drop price
+    const preDropPrice = this.episodes.get(poolId)?.startPrice ?? history[0].price;
+    const elapsedSeconds = (history[history.length - 1].timestamp.getTime() - history[lowestIndex].timestamp.getTime()) / 1000;
+    const recoveryRate = recoveryPercent / Math.max(elapsedSeconds, 1); // % per second
+    const remainingRecovery = Math.max(0, ((preDropPrice - currentPrice) / currentPrice) * 100);
+
+    return {
+      isRecovering: recoveryPercent > 5 && recoveryRatio > 1,
+      recoveryStrength: recoveryRatio,
+      timeToRecover: recoveryRate > 0 ? Math.round(remainingRecovery / recoveryRate) : null
+    };
+  }
+
+  getActiveEpisode(poolId: string): SellPressureEpisode | null {
+    return this.episodes.get(poolId) || null;
+  }
+
+  getActiveEpisodes(): SellPressureEpisode[] {
+    return Array.from(this.episodes.values());
+  }
+
+  getHistory(poolId: string): PriceUpdate[] {
+    return this.histories.get(poolId) || [];
+  }
+
+  // ============ Persistence ============
+
+  /**
+   * Insert a new episode, or take over the pool's active row when
+   * detect_selloff_event() already opened one
+   */
+  private async insertEpisode(episode: SellPressureEpisode): Promise<string> {
+    const existing = await this.pool.query(
+      `SELECT id FROM selloff_events
+       WHERE pool_id = $1 AND is_active = TRUE
+       ORDER BY start_time DESC
+       LIMIT 1`,
+      [episode.poolId]
+    );
+    if (existing.rows[0]) {
+      episode.id = existing.rows[0].id;
+      await this.saveEpisode(episode);
+      return episode.id;
+    }
+
+    const result = await this.pool.query(
+      `INSERT INTO selloff_events (
+        pool_id, token_id, start_time, start_price, lowest_price, last_price, last_trade_at,
+        max_drop_percent, severity, total_sell_volume, total_buy_volume,
+        sell_count, buy_count, largest_sell_volume, is_active
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, TRUE)
+      RETURNING id`,
+      [
+        episode.poolId,
+        episode.tokenId,
+        episode.startTime,
+        episode.startPrice,
+        episode.lowestPrice,
+        episode.lastPrice,
+        episode.lastTradeAt,
+        Math.min(episode.maxDropPercent, 100),
+        episode.severity,
+        episode.sellVolume,
+        episode.buyVolume,
+        episode.sellCount,
+        episode.buyCount,
+        episode.largestSellVolume
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Write the episode back. Returns false when the row was already closed
+   * elsewhere (the technical score cleanup ends stale events), in which
+   * case the detector forgets it.
+   */
+  private async saveEpisode(episode: SellPressureEpisode): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE selloff_events SET
+        token_id = COALESCE(token_id, $2),
+        start_time = $3,
+        start_price = $4,
+        lowest_price = $5,
+        last_price = $6,
+        last_trade_at = $7,
+        max_drop_percent = $8,
+        severity = $9,
+        total_sell_volume = $10,
+        total_buy_volume = $11,
+        sell_count = $12,
+        buy_count = $13,
+        largest_sell_volume = $14,
+        is_active = $15,
+        end_time = $16,
+        end_reason = $17,
+        recovery_price = $18,
+        recovery_strength = $19
+      WHERE id = $1 AND is_active = TRUE`,
+      [
+        episode.id,
+        episode.tokenId,
+        episode.startTime,
+        episode.startPrice,
+        episode.lowestPrice,
+        episode.lastPrice,
+        episode.lastTradeAt,
+        Math.min(episode.maxDropPercent, 100),
+        episode.severity,
+        episode.sellVolume,
+        episode.buyVolume,
+        episode.sellCount,
+        episode.buyCount,
+        episode.largestSellVolume,
+        episode.isActive,
+        episode.endTime,
+        episode.endReason,
+        episode.recoveryPrice,
+        episode.recoveryStrength
+      ]
+    );
+
+    if (result.rowCount === 0) {
+      this.episodes.delete(episode.poolId);
+      return false;
+    }
+    return true;
+  }
+
+  // ============ Events ============
+
+  private async publish(
+    type: SellPressureEventType,
+    episode: SellPressureEpisode,
+    recovery: RecoveryAnalysis | null
+  ): Promise<void> {
+    const token = await this.getTokenInfo(episode.tokenId);
+    const event: SellPressureEvent = {
+      type,
+      episode: { ...episode },
+      symbol: token.symbol,
+      mintAddress: token.mintAddress,
+      recovery
+    };
+
+    try {
+      this.emit('episode', event);
+    } catch (error) {
+      console.error('Error in sell pressure listener:', error);
+    }
+
+    if (type === 'opened' || type === 'escalated') {
+      const end = episode.endTime || episode.lastTradeAt;
+      alertBus.publish({
+        type: 'sell_pressure',
+        tokenId: episode.tokenId,
+        mintAddress: token.mintAddress,
+        symbol: token.symbol || 'UNKNOWN',
+        fields: {
+          status: type,
+          severity: episode.severity,
+          priceDropPercent: Number(episode.maxDropPercent.toFixed(2)),
+          durationMinutes: Math.floor((end.getTime() - episode.startTime.getTime()) / 60_000),
+          volumeSold: Number(episode.sellVolume.toFixed(4))
+        },
+        occurredAt: episode.lastTradeAt
+      });
+    }
+  }
+
+  private async getTokenInfo(tokenId: string | null): Promise<TokenInfo> {
+    if (!tokenId) return { symbol: null, mintAddress: null };
+
+    const cached = this.tokens.get(tokenId);
+    if (cached) return cached;
+
+    try {
+      const result = await this.pool.query(
+        'SELECT symbol, mint_address FROM tokens WHERE id = $1::uuid',
+        [tokenId]
+      );
+      const info: TokenInfo = {
+        symbol: result.rows[0]?.symbol || null,
+        mintAddress: result.rows[0]?.mint_address || null
+      };
+      this.tokens.set(tokenId, info);
+      return info;
+    } catch (error) {
+      console.error('Error fetching token info:', error);
+      return { symbol: null, mintAddress: null };
+    }
+  }
+
+  // ============ Helpers ============
+
+  private async getThresholds(): Promise<SellPressureThresholds> {
+    const config = await scoringConfigManager.getConfig();
+    return thresholdsFromScoringConfig(config.selloff);
+  }
+
+  private toUpdate(row: any): PriceUpdate {
+    return {
+      poolId: row.pool_id,
+      tokenId: row.token_id,
+      price: parseFloat(row.price_per_token),
+      timestamp: new Date(row.block_time),
+      type: row.type,
+      volume: parseFloat(row.sol_amount) || 0,
+      signature: row.signature
+    };
+  }
+
+  private toEpisode(row: any): SellPressureEpisode {
+    const startPrice = parseFloat(row.start_price);
+    const lowestPrice = row.lowest_price !== null ? parseFloat(row.lowest_price) : startPrice;
+    return {
+      id: row.id,
+      poolId: row.pool_id,
+      tokenId: row.resolved_token_id || null,
+      startTime: new Date(row.start_time),
+      endTime: null,
+      startPrice,
+      lowestPrice,
+      lastPrice: row.last_price !== null ? parseFloat(row.last_price) : lowestPrice,
+      lastTradeAt: new Date(row.last_trade_at || row.start_time),
+      recoveryPrice: null,
+      maxDropPercent: parseFloat(row.max_drop_percent) || 0,
+      severity: row.severity || 'low',
+      sellVolume: parseFloat(row.total_sell_volume) || 0,
+      buyVolume: parseFloat(row.total_buy_volume) || 0,
+      sellCount: row.sell_count || 0,
+      buyCount: row.buy_count || 0,
+      largestSellVolume: parseFloat(row.largest_sell_volume) || 0,
+      recoveryStrength: null,
+      isActive: true,
+      endReason: null
+    };
+  }
+}
+
+// Export singleton instance
+export const sellPressureDetector = new SellPressureDetector();
@@ -0,0 +1,101 @@
+export type SellPressureSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export const SEVERITY_ORDER: SellPressureSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * One buy or sell, either replayed from `transactions` or handed over by a
+ * monitor. `volume` is the SOL amount.
+ */
+export interface PriceUpdate {
+  poolId: string;
+  tokenId: string;
+  price: number;
+  timestamp: Date;
+  type: 'buy' | 'sell';
+  volume: number;
+  signature?: string;
+}
+
+/**
+ * Detection thresholds, read from the `selloff` rows of `scoring_config`
+ */
+export interface SellPressureThresholds {
+  minDropPercent: number;             // nothing opens below this drop
+  mediumDropPercent: number;
+  highDropPercent: number;
+  criticalDropPercent: number;
+  mediumVolumeSol: number;
+  highVolumeSol: number;
+  criticalVolumeSol: number;
+  whaleDumpSol: number;               // a single sell this large is critical
+  windowMinutes: number;
+  coordinatedSellsPerMinute: number;
+  recoveryRetracePercent: number;     // % of the drawdown regained that ends an episode
+  maxEpisodeMinutes: number;
+}
+
+export type EpisodeEndReason = 'recovered' | 'expired';
+
+/**
+ * A sell-off from the first drop until recovery or expiry. Mirrors one row
+ * of `selloff_events`.
+ */
+export interface SellPressureEpisode {
+  id: string;
+  poolId: string;
+  tokenId: string | null;
+  startTime: Date;
+  endTime: Date | null;
+  startPrice: number;
+  lowestPrice: number;
+  lastPrice: number;
+  lastTradeAt: Date;
+  recoveryPrice: number | null;
+  maxDropPercent: number;
+  severity: SellPressureSeverity;
+  sellVolume: number;
+  buyVolume: number;
+  sellCount: number;
+  buyCount: number;
+  largestSellVolume: number;
+  recoveryStrength: number | null;
+  isActive: boolean;
+  endReason: EpisodeEndReason | null;
+}
+
+export interface RecoveryAnalysis {
+  isRecovering: boolean;
+  recoveryStrength: number;           // buys per sell since the low
+  timeToRecover: number | null;       // seconds, estimated
+}
+
+export type SellPressureEventType = 'opened' | 'escalated' | 'recovered' | 'expired';
+
+/**
+ * Emitted as 'episode' by the detector for every state change
+ */
+export interface SellPressureEvent {
+  type: SellPressureEventType;
+  episode: SellPressureEpisode;
+  symbol: string | null;
+  mintAddress: string | null;
+  recovery: RecoveryAnalysis | null;
+}
+
+export interface SellPressureDetectorConfig {
+  historyLimit: number;               // trades kept per pool
+  rebuildMinutes: number;             // trades replayed on startup
+  pollIntervalMs: number;
+  pollBatchSize: number;
+  settleSeconds: number;              // newest trades left for the next poll
+}
+
+export interface SellPressureStatus {
+  running: boolean;
+  pools: number;
+  activeEpisodes: number;
+  tradesProcessed: number;
+  episodesOpened: number;
+  episodesClosed: number;
+  cursor: { at: Date; signature: string } | null;
+}
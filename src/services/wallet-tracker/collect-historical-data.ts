@@ -3,11 +3,14 @@
 import * as dotenv from 'dotenv';
 dotenv.config();
 
+import { closeDbPool } from '../../database/connection';
 import { graduatedTokenFetcher } from './graduated-token-fetcher';
 import { transactionFetcher } from './transaction-fetcher';
 import { walletProfileExtractor } from './wallet-profile-extractor';
 import { walletTrackerService } from './wallet-tracker-service';
 import { dataValidator } from './data-validator';
+import { positionAccountant } from './position-accountant';
+import { incrementalCollector } from './incremental-collector';
 import { 
   GraduatedTokenData, 
   TransactionData, 
@@ -252,6 +255,8 @@ class HistoricalDataCollector {
       await Promise.all(
         batch.map(async (walletAddress) => {
           try {
+            // Metrics are read from wallet_positions, so rebuild those from the new trades first
+            await positionAccountant.reconcileWallet(walletAddress);
             await walletTrackerService.updateWalletMetrics(walletAddress);
           } catch (error) {
             console.warn(`  ⚠️  Failed to update metrics for ${walletAddress}:`, error);
@@ -294,19 +299,75 @@ class HistoricalDataCollector {
   }
 }
 
-// Main execution
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runIncremental(): Promise<void> {
+  const startedAt = Date.now();
+  const result = await incrementalCollector.run();
+  if (result.skipped) return;
+
+  console.log('\n===========================================');
+  console.log('   INCREMENTAL INGESTION REPORT');
+  console.log('===========================================');
+  console.log(`📊 Graduated tokens: ${result.graduatedTokens}, new wallets: ${result.newWallets}`);
+  console.log(`📊 Trades ingested: ${result.trades}`);
+  console.log(`📊 Token transfers: ${result.transfers} from ${result.transferLookups} wallet lookups`);
+  console.log(`📊 Wallets updated: ${result.walletsUpdated}${result.walletsPending > 0 ? `, ${result.walletsPending} left for next run` : ''}`);
+  console.log(`⏱️  ${((Date.now() - startedAt) / 1000).toFixed(1)}s${result.caughtUp ? '' : ' (backlog remaining)'}`);
+}
+
+/**
+ * Usage:
+ *   npm run wallet-tracker:collect                              # full one-off collection
+ *   npm run wallet-tracker:ingest                               # one incremental run
+ *   npm run wallet-tracker:ingest -- --interval 5               # incremental run every 5 minutes
+ *   npm run wallet-tracker:ingest -- --reset                    # drop the checkpoint first
+ */
 async function main() {
-  const collector = new HistoricalDataCollector();
-  await collector.run();
-  process.exit(0);
+  const args = process.argv.slice(2);
+
+  if (!args.includes('--incremental')) {
+    const collector = new HistoricalDataCollector();
+    await collector.run();
+    process.exit(0);
+  }
+
+  if (args.includes('--reset')) {
+    await incrementalCollector.resetCheckpoint();
+    console.log('📍 Ingestion checkpoint reset');
+  }
+
+  await runIncremental();
+  const interval = getOption(args, '--interval');
+  if (!interval) return;
+
+  // Runs are chained rather than on a fixed timer so a slow one never overlaps the next
+  const intervalMs = parseInt(interval) * 60 * 1000;
+  console.log(`\n🔁 Next run in ${interval} minutes`);
+  await new Promise<void>(() => {
+    const next = () => setTimeout(async () => {
+      await runIncremental().catch(error => console.error('Incremental run failed:', error));
+      next();
+    }, intervalMs);
+    next();
+  });
 }
 
 // Run if called directly
 if (require.main === module) {
-  main().catch(error => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
 }
 
 export { HistoricalDataCollector };
\ No newline at end of file
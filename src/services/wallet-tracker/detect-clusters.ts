@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import { closeDbPool } from '../../database/connection';
+import { SybilDetector } from './sybil-detector';
+import { ClusteringConfig } from './types';
+
+/**
+ * Rebuild wallet relationships and clusters, and flag Sybil networks
+ *
+ * Usage:
+ *   npm run wallet-tracker:cluster
+ *   npm run wallet-tracker:cluster -- --dry-run                 # report only, write nothing
+ *   npm run wallet-tracker:cluster -- --lookback-days 14 --max-lookups 0
+ *   npm run wallet-tracker:cluster -- --interval 360            # rerun every 6 hours
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runOnce(detector: SybilDetector, dryRun: boolean): Promise<void> {
+  const startedAt = Date.now();
+  const result = await detector.run({ dryRun });
+
+  console.log('\n===========================================');
+  console.log('   WALLET CLUSTERING REPORT');
+  console.log('===========================================');
+  console.log(`📊 Funding lookups: ${result.fundingLookups}`);
+  console.log(`📊 Communities: ${result.communities}, clusters: ${result.clusters.length}`);
+  console.log(`📊 Sybil wallets: ${result.sybilWallets}${result.clearedWallets ? `, flags lifted: ${result.clearedWallets}` : ''}`);
+
+  for (const { cluster, wallets, externalWallets, isSybil } of result.clusters.slice(0, 15)) {
+    console.log(
+      `  ${isSybil ? '🚩' : '  '} ${cluster.cluster_id.substring(0, 8)} ${cluster.cluster_type.padEnd(13)} ` +
+      `${String(wallets.length).padStart(4)} wallets${externalWallets.length ? ` (+${externalWallets.length} external)` : ''} ` +
+      `risk ${cluster.risk_score.toFixed(2)} conf ${cluster.detection_confidence.toFixed(2)} ${cluster.detection_method}`
+    );
+  }
+  console.log(`\n⏱️  ${((Date.now() - startedAt) / 1000).toFixed(1)}s${dryRun ? ' (dry run, nothing saved)' : ''}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const overrides: Partial<ClusteringConfig> = {};
+  const lookbackDays = getOption(args, '--lookback-days');
+  const maxLookups = getOption(args, '--max-lookups');
+  const threshold = getOption(args, '--threshold');
+  if (lookbackDays) overrides.lookbackDays = parseInt(lookbackDays);
+  if (maxLookups) overrides.maxFundingLookups = parseInt(maxLookups);
+  if (threshold) overrides.sybilRiskThreshold = parseFloat(threshold);
+
+  const detector = new SybilDetector(overrides);
+  const dryRun = args.includes('--dry-run');
+  const interval = getOption(args, '--interval');
+
+  await runOnce(detector, dryRun);
+  if (!interval) return;
+
+  const intervalMs = parseInt(interval) * 60 * 1000;
+  console.log(`\n🔁 Next run in ${interval} minutes`);
+  await new Promise<void>(() => {
+    setInterval(() => {
+      runOnce(detector, dryRun).catch(error => console.error('Clustering run failed:', error));
+    }, intervalMs);
+  });
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,82 @@
+import axios from 'axios';
+import { HeliusEndpoints, heliusApiUrl } from '../../config/helius';
+import { CreditTracker } from '../holder-analysis/credit-tracker';
+import { FundingInfo } from './types';
+
+export const HELIUS_ENHANCED_TX_CREDITS = 100;
+
+/**
+ * The earliest incoming SOL transfer among an address's transfers, and
+ * everyone it sent SOL to or got SOL from. Fresh wallets, which is what
+ * Sybil networks and launch bundles use, have shorter histories than one
+ * page of 100 transfers, so this is their actual first funder.
+ */
+export function extractFunding(address: string, transactions: any[]): FundingInfo {
+  const funding: FundingInfo = {
+    funder: null,
+    amount_sol: null,
+    funded_at: null,
+    counterparties: [],
+    checked_at: new Date().toISOString()
+  };
+  const counterparties = new Set<string>();
+  let earliest = Infinity;
+
+  for (const tx of transactions) {
+    for (const transfer of tx.nativeTransfers || []) {
+      const incoming = transfer.toUserAccount === address;
+      const other = incoming ? transfer.fromUserAccount : transfer.toUserAccount;
+      if (!other || other === address || (!incoming && transfer.fromUserAccount !== address)) continue;
+      counterparties.add(other);
+
+      if (incoming && transfer.amount > 0 && tx.timestamp < earliest) {
+        earliest = tx.timestamp;
+        funding.funder = other;
+        funding.amount_sol = transfer.amount / 1e9;
+        funding.funded_at = new Date(tx.timestamp * 1000).toISOString();
+      }
+    }
+  }
+
+  funding.counterparties = Array.from(counterparties).slice(0, 200);
+  return funding;
+}
+
+/**
+ * Reads an address's latest transfers from the Helius enhanced
+ * transactions API and records the credits each lookup costs. Shared by
+ * the Sybil detector, the creator risk detector and the launch analyzer.
+ */
+export class EnhancedTransferClient {
+  private heliusApiKey: string | undefined;
+  private heliusApiUrl: string;
+
+  constructor(endpoints: HeliusEndpoints = {}) {
+    this.heliusApiKey = process.env.HELIUS_API_KEY;
+    this.heliusApiUrl = heliusApiUrl(endpoints);
+  }
+
+  /**
+   * Lookups need HELIUS_API_KEY
+   */
+  get enabled(): boolean {
+    return !!this.heliusApiKey;
+  }
+
+  /**
+   * The address's latest 100 TRANSFER transactions, newest first
+   */
+  async fetchTransfers(address: string): Promise<any[]> {
+    const response = await axios.get(`${this.heliusApiUrl}/v0/addresses/${address}/transactions`, {
+      params: { 'api-key': this.heliusApiKey, type: 'TRANSFER', limit: 100 },
+      timeout: 15000
+    });
+    await CreditTracker.getInstance().increment(HELIUS_ENHANCED_TX_CREDITS, 'enhanced-transactions');
+
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
+  async fetchFunding(address: string): Promise<FundingInfo> {
+    return extractFunding(address, await this.fetchTransfers(address));
+  }
+}
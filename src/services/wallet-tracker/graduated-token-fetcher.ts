@@ -3,18 +3,21 @@ import { DatabaseConnection } from '../../database/connection';
 import { GraduatedTokenData } from './types';
 import { Connection, PublicKey } from '@solana/web3.js';
 import axios from 'axios';
+import { HeliusEndpoints, heliusApiUrl } from '../../config/helius';
 
 export class GraduatedTokenFetcher {
   private pool: Pool;
   private connection: Connection;
   private heliusApiKey: string | undefined;
+  private heliusApiUrl: string;
   
-  constructor() {
+  constructor(endpoints: HeliusEndpoints = {}) {
     this.pool = DatabaseConnection.getPool();
     this.connection = new Connection(
-      process.env.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com'
+      endpoints.rpcUrl || process.env.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com'
     );
     this.heliusApiKey = process.env.HELIUS_API_KEY;
+    this.heliusApiUrl = heliusApiUrl(endpoints);
   }
 
   /**
@@ -75,7 +78,7 @@ export class GraduatedTokenFetcher {
       // This is a placeholder - actual Helius API integration would go here
       // The exact endpoint and parameters would depend on Helius API documentation
       const response = await axios.post(
-        `https://api.helius.xyz/v0/addresses/transactions`,
+        `${this.heliusApiUrl}/v0/addresses/transactions`,
         {
           addresses: ['39azUYFWPz3VHgKCf3VChUwbpURdCHRxjWVowf5jUJjg'], // Raydium migration address
           type: 'TRANSFER',
@@ -232,6 +235,42 @@ export class GraduatedTokenFetcher {
     }));
   }
 
+  /**
+   * Graduated tokens after a (graduation_timestamp, mint) cursor, oldest first
+   */
+  async fetchGraduatedTokensAfter(
+    cursor: { at: Date; mint: string } | null,
+    limit: number
+  ): Promise<GraduatedTokenData[]> {
+    const query = `
+      SELECT
+        gt.token_mint as mint_address,
+        gt.graduation_timestamp,
+        gt.graduation_signature,
+        gt.migration_type as migration_platform,
+        gt.graduation_price,
+        gt.graduation_market_cap as final_market_cap
+      FROM graduated_tokens gt
+      WHERE gt.graduation_timestamp IS NOT NULL
+        AND ($1::timestamp IS NULL OR (gt.graduation_timestamp, gt.token_mint) > ($1, $2))
+      ORDER BY gt.graduation_timestamp ASC, gt.token_mint ASC
+      LIMIT $3`;
+
+    const result = await this.pool.query(query, [cursor?.at ?? null, cursor?.mint ?? '', limit]);
+
+    return result.rows.map(row => ({
+      mint_address: row.mint_address,
+      graduation_timestamp: row.graduation_timestamp,
+      graduation_signature: row.graduation_signature || '',
+      graduation_price: row.graduation_price || 0,
+      peak_price: undefined,
+      final_market_cap: row.final_market_cap || undefined,
+      migration_platform: this.normalizePlatform(row.migration_platform),
+      data_source: 'local_cache',
+      validation_status: 'verified'
+    }));
+  }
+
   /**
    * Save graduated token to database if not exists
    */
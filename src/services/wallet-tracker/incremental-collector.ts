@@ -0,0 +1,439 @@
+import { Pool } from 'pg';
+import { DatabaseConnection } from '../../database/connection';
+import { graduatedTokenFetcher } from './graduated-token-fetcher';
+import { transactionFetcher } from './transaction-fetcher';
+import { walletProfileExtractor } from './wallet-profile-extractor';
+import { walletTrackerService } from './wallet-tracker-service';
+import { dataValidator } from './data-validator';
+import { positionAccountant } from './position-accountant';
+import {
+  GraduatedTokenData,
+  IncrementalCollectorConfig,
+  IncrementalRunResult,
+  IngestionCheckpoint,
+  TransactionData,
+  WalletTrade
+} from './types';
+
+export const defaultIncrementalConfig: IncrementalCollectorConfig = {
+  checkpointName: 'wallet_tracker',
+  maxTokensPerRun: parseInt(process.env.WALLET_INGEST_MAX_TOKENS || '50'),
+  tradePageSize: 1000,
+  maxTradePagesPerRun: parseInt(process.env.WALLET_INGEST_MAX_TRADE_PAGES || '20'),
+  settleSeconds: 30,
+  walletBatchSize: 50,
+  maxTransferLookupsPerRun: parseInt(process.env.WALLET_INGEST_MAX_TRANSFER_LOOKUPS || '25'),
+  transferRecheckHours: 24
+};
+
+// Arbitrary key shared by every collector process, so runs never overlap
+const RUN_LOCK_KEY = 824_016;
+
+/**
+ * Checkpointed counterpart to HistoricalDataCollector. Each run:
+ *
+ * 1. ingests pre-graduation trades of tokens that graduated after the
+ *    graduation cursor, profiling wallets seen for the first time;
+ * 2. ingests trades by already tracked wallets written after the trade
+ *    cursor, including late and backfilled ones;
+ * 3. records token transfers of the wallets touched by 1 and 2, then
+ *    rebuilds their positions and metrics.
+ *
+ * Cursors advance after every token and trade page, and touched wallets are
+ * queued on the checkpoint row, so a run killed at any point resumes without
+ * losing or double-counting work. wallet_trades inserts are idempotent.
+ */
+export class IncrementalCollector {
+  private pool: Pool;
+  private config: IncrementalCollectorConfig;
+
+  constructor(config: Partial<IncrementalCollectorConfig> = {}) {
+    this.pool = DatabaseConnection.getPool();
+    this.config = { ...defaultIncrementalConfig, ...config };
+  }
+
+  async run(): Promise<IncrementalRunResult> {
+    const result: IncrementalRunResult = {
+      skipped: false,
+      graduatedTokens: 0,
+      newWallets: 0,
+      trades: 0,
+      walletsUpdated: 0,
+      walletsPending: 0,
+      transferLookups: 0,
+      transfers: 0,
+      caughtUp: false
+    };
+
+    // Session-level advisory locks belong to a connection, so hold one for the run
+    const lockClient = await this.pool.connect();
+    try {
+      const lock = await lockClient.query('SELECT pg_try_advisory_lock($1) AS locked', [RUN_LOCK_KEY]);
+      if (!lock.rows[0].locked) {
+        console.log('⏭️  Another wallet tracker ingestion is running, skipping');
+        return { ...result, skipped: true };
+      }
+
+      try {
+        await this.ingest(result);
+      } catch (error) {
+        await this.pool.query(
+          'UPDATE wallet_tracker_checkpoints SET last_error = $2, updated_at = NOW() WHERE name = $1',
+          [this.config.checkpointName, error instanceof Error ? error.message : String(error)]
+        );
+        throw error;
+      } finally {
+        await lockClient.query('SELECT pg_advisory_unlock($1)', [RUN_LOCK_KEY]);
+      }
+    } finally {
+      lockClient.release();
+    }
+
+    return result;
+  }
+
+  private async ingest(result: IncrementalRunResult): Promise<void> {
+    let checkpoint = await this.loadCheckpoint();
+    await this.pool.query(
+      'UPDATE wallet_tracker_checkpoints SET run_started_at = NOW(), updated_at = NOW() WHERE name = $1',
+      [this.config.checkpointName]
+    );
+    if (checkpoint.pending_wallets.length > 0) {
+      console.log(`↩️  Resuming with ${checkpoint.pending_wallets.length} wallets left from the last run`);
+    }
+
+    const tokensCaughtUp = await this.ingestGraduatedTokens(checkpoint, result);
+    checkpoint = await this.loadCheckpoint();
+    const tradesCaughtUp = await this.ingestNewTrades(checkpoint, result);
+
+    checkpoint = await this.loadCheckpoint();
+    await this.recordTransfers(checkpoint.pending_wallets, result);
+    await this.updatePendingWallets(checkpoint.pending_wallets, result);
+
+    result.caughtUp = tokensCaughtUp && tradesCaughtUp;
+    await this.pool.query(`
+      UPDATE wallet_tracker_checkpoints SET
+        run_completed_at = NOW(),
+        runs_completed = runs_completed + 1,
+        last_error = NULL,
+        updated_at = NOW()
+      WHERE name = $1`,
+      [this.config.checkpointName]
+    );
+  }
+
+  // ============ Newly Graduated Tokens ============
+
+  private async ingestGraduatedTokens(checkpoint: IngestionCheckpoint, result: IncrementalRunResult): Promise<boolean> {
+    const cursor = checkpoint.graduation_cursor_at
+      ? { at: checkpoint.graduation_cursor_at, mint: checkpoint.graduation_cursor_mint || '' }
+      : null;
+    const tokens = await graduatedTokenFetcher.fetchGraduatedTokensAfter(cursor, this.config.maxTokensPerRun);
+    if (tokens.length > 0) {
+      console.log(`📊 ${tokens.length} newly graduated tokens to ingest`);
+    }
+
+    for (const token of tokens) {
+      const wallets = dataValidator.validateGraduatedToken(token).isValid
+        ? await this.ingestGraduatedToken(token, result)
+        : [];
+      await this.advanceCursor({ graduation: token }, wallets);
+      result.graduatedTokens++;
+    }
+
+    return tokens.length < this.config.maxTokensPerRun;
+  }
+
+  private async ingestGraduatedToken(token: GraduatedTokenData, result: IncrementalRunResult): Promise<string[]> {
+    const transactions = (await transactionFetcher.fetchPreGraduationTransactions(
+      token.mint_address,
+      token.graduation_timestamp
+    )).filter(tx => dataValidator.validateTransaction(tx).isValid);
+    if (transactions.length === 0) return [];
+
+    // Only first-time wallets get a profile; re-profiling would reset the
+    // score, cluster and metrics of wallets already tracked
+    const wallets = Array.from(new Set(transactions.map(tx => tx.wallet)));
+    const existing = await walletTrackerService.getExistingWallets(wallets);
+    const newWallets = new Set(wallets.filter(wallet => !existing.has(wallet)));
+    if (newWallets.size > 0) {
+      await walletProfileExtractor.extractMultipleProfiles(newWallets, new Map([[token.mint_address, transactions]]));
+      result.newWallets += newWallets.size;
+    }
+
+    const trades = transactionFetcher
+      .convertToWalletTrades(transactions, true, token.graduation_timestamp)
+      .filter(trade => dataValidator.validateWalletTrade(trade).isValid);
+    await walletTrackerService.saveTradeBatch(trades);
+    result.trades += trades.length;
+
+    return wallets;
+  }
+
+  // ============ New Trades by Tracked Wallets ============
+
+  private async ingestNewTrades(checkpoint: IngestionCheckpoint, result: IncrementalRunResult): Promise<boolean> {
+    let cursorAt = checkpoint.trade_cursor_at;
+    let cursorSignature = checkpoint.trade_cursor_signature || '';
+    if (!cursorAt) {
+      cursorAt = await this.initialTradeCursor();
+      await this.pool.query(
+        'UPDATE wallet_tracker_checkpoints SET trade_cursor_at = $2, trade_cursor_signature = $3, updated_at = NOW() WHERE name = $1',
+        [this.config.checkpointName, cursorAt, cursorSignature]
+      );
+    }
+
+    // Paged on when rows were written, not when they traded, so late and
+    // backfilled trades are still ahead of the cursor. created_at is set
+    // when the insert starts, so a batch still being committed can carry
+    // an earlier created_at than rows already visible; leave the newest
+    // ones for the next run so none are skipped past
+    const until = new Date(Date.now() - this.config.settleSeconds * 1000);
+
+    for (let page = 0; page < this.config.maxTradePagesPerRun; page++) {
+      const transactions = await this.fetchTrackedWalletTrades(cursorAt, cursorSignature, until);
+      if (transactions.length === 0) return true;
+
+      const trades: WalletTrade[] = [];
+      for (const { tx, graduatedAt } of transactions) {
+        if (!dataValidator.validateTransaction(tx).isValid) continue;
+        const [trade] = transactionFetcher.convertToWalletTrades([tx], graduatedAt !== null, graduatedAt ?? undefined);
+        if (dataValidator.validateWalletTrade(trade).isValid) trades.push(trade);
+      }
+      await walletTrackerService.saveTradeBatch(trades);
+      result.trades += trades.length;
+
+      const last = transactions[transactions.length - 1];
+      cursorAt = last.createdAt;
+      cursorSignature = last.tx.signature;
+      await this.advanceCursor({ trade: { createdAt: cursorAt, signature: cursorSignature } }, trades.map(trade => trade.wallet_address));
+
+      if (transactions.length < this.config.tradePageSize) return true;
+    }
+
+    return false;
+  }
+
+  private async fetchTrackedWalletTrades(
+    afterCreatedAt: Date,
+    afterSignature: string,
+    until: Date
+  ): Promise<{ tx: TransactionData; graduatedAt: Date | null; createdAt: Date }[]> {
+    const result = await this.pool.query(`
+      SELECT
+        t.signature,
+        t.block_time,
+        t.type,
+        t.user_address,
+        tok.mint_address,
+        t.token_amount,
+        t.sol_amount,
+        t.price_per_token,
+        t.created_at,
+        gt.graduation_timestamp
+      FROM transactions t
+      JOIN wallet_traders wt ON wt.wallet_address = t.user_address
+      JOIN tokens tok ON tok.id = t.token_id
+      LEFT JOIN graduated_tokens gt ON gt.token_mint = tok.mint_address
+      WHERE (t.created_at, t.signature) > ($1, $2)
+        AND t.created_at <= $3
+        AND t.type IN ('buy', 'sell')
+      ORDER BY t.created_at ASC, t.signature ASC
+      LIMIT $4`,
+      [afterCreatedAt, afterSignature, until, this.config.tradePageSize]
+    );
+
+    return result.rows.map(row => ({
+      tx: {
+        signature: row.signature,
+        blockTime: row.block_time,
+        type: row.type,
+        wallet: row.user_address,
+        tokenMint: row.mint_address,
+        amount: parseFloat(row.token_amount || '0'),
+        price: parseFloat(row.price_per_token || '0'),
+        solValue: parseFloat(row.sol_amount || '0')
+      },
+      graduatedAt: row.graduation_timestamp,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Start after the newest trade already collected, so switching from full
+   * collection to incremental runs neither re-reads nor skips history.
+   * Trades are written after they land, so nothing newer was written
+   * before it.
+   */
+  private async initialTradeCursor(): Promise<Date> {
+    const result = await this.pool.query('SELECT MAX(block_time) AS latest FROM wallet_trades');
+    return result.rows[0]?.latest || new Date();
+  }
+
+  // ============ Token Transfers ============
+
+  /**
+   * Record tokens the wallets moved without trading, so their positions
+   * are rebuilt with them. Lookups cost Helius credits, so a wallet is
+   * looked up again only after `transferRecheckHours`, least recently
+   * checked first, up to `maxTransferLookupsPerRun`. Only mints the
+   * monitors know are kept; the rest are airdrops and tokens no position
+   * is built for.
+   */
+  private async recordTransfers(wallets: string[], result: IncrementalRunResult): Promise<void> {
+    if (wallets.length === 0 || !transactionFetcher.canFetchTransfers || this.config.maxTransferLookupsPerRun <= 0) {
+      return;
+    }
+
+    const due = await this.pool.query(
+      `SELECT wallet_address
+       FROM wallet_traders
+       WHERE wallet_address = ANY($1::text[])
+         AND COALESCE((metadata->>'transfers_checked_at')::timestamptz < NOW() - make_interval(hours => $2), true)
+       ORDER BY (metadata->>'transfers_checked_at')::timestamptz NULLS FIRST
+       LIMIT $3`,
+      [wallets, this.config.transferRecheckHours, this.config.maxTransferLookupsPerRun]
+    );
+
+    for (const { wallet_address: wallet } of due.rows) {
+      try {
+        const transfers = await transactionFetcher.fetchWalletTransfers(wallet);
+        const known = await this.pool.query(
+          'SELECT mint_address FROM tokens WHERE mint_address = ANY($1::text[])',
+          [Array.from(new Set(transfers.map(transfer => transfer.token_mint)))]
+        );
+        const knownMints = new Set(known.rows.map(row => row.mint_address));
+        const recorded = transfers.filter(transfer => knownMints.has(transfer.token_mint));
+
+        await walletTrackerService.saveTransferBatch(recorded);
+        await this.pool.query(
+          `UPDATE wallet_traders
+           SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('transfers_checked_at', NOW())
+           WHERE wallet_address = $1`,
+          [wallet]
+        );
+        result.transferLookups++;
+        result.transfers += recorded.length;
+      } catch (error) {
+        console.warn(`  ⚠️  Transfer lookup failed for ${wallet}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (result.transferLookups > 0) {
+      console.log(`🔁 Recorded ${result.transfers} token transfers for ${result.transferLookups} wallets`);
+    }
+  }
+
+  // ============ Affected Wallets ============
+
+  private async updatePendingWallets(wallets: string[], result: IncrementalRunResult): Promise<void> {
+    if (wallets.length === 0) return;
+    console.log(`📊 Updating positions and metrics for ${wallets.length} wallets...`);
+
+    for (let i = 0; i < wallets.length; i += this.config.walletBatchSize) {
+      const batch = wallets.slice(i, i + this.config.walletBatchSize);
+      const done: string[] = [];
+
+      await Promise.all(
+        batch.map(async (walletAddress) => {
+          try {
+            await positionAccountant.reconcileWallet(walletAddress);
+            await walletTrackerService.updateWalletMetrics(walletAddress);
+            await walletTrackerService.refreshWalletActivity(walletAddress);
+            done.push(walletAddress);
+          } catch (error) {
+            console.warn(`  ⚠️  Failed to update metrics for ${walletAddress}:`, error);
+          }
+        })
+      );
+
+      // Failed wallets stay queued and are retried on the next run
+      await this.pool.query(`
+        UPDATE wallet_tracker_checkpoints SET
+          pending_wallets = ARRAY(SELECT unnest(pending_wallets) EXCEPT SELECT unnest($2::text[])),
+          updated_at = NOW()
+        WHERE name = $1`,
+        [this.config.checkpointName, done]
+      );
+      result.walletsUpdated += done.length;
+    }
+
+    const checkpoint = await this.loadCheckpoint();
+    result.walletsPending = checkpoint.pending_wallets.length;
+  }
+
+  // ============ Checkpoint ============
+
+  async getCheckpoint(): Promise<IngestionCheckpoint | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM wallet_tracker_checkpoints WHERE name = $1',
+      [this.config.checkpointName]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Forget all progress; the next run starts from the oldest graduation
+   */
+  async resetCheckpoint(): Promise<void> {
+    await this.pool.query('DELETE FROM wallet_tracker_checkpoints WHERE name = $1', [this.config.checkpointName]);
+  }
+
+  private async loadCheckpoint(): Promise<IngestionCheckpoint> {
+    const existing = await this.getCheckpoint();
+    if (existing) return existing;
+
+    // Without a checkpoint, tokens already collected by a full run are skipped
+    const seeded = await this.pool.query(`
+      INSERT INTO wallet_tracker_checkpoints (name, graduation_cursor_at, graduation_cursor_mint)
+      SELECT $1, gt.graduation_timestamp, gt.token_mint
+      FROM (SELECT NULL) seed
+      LEFT JOIN LATERAL (
+        SELECT graduation_timestamp, token_mint
+        FROM graduated_tokens
+        WHERE graduation_timestamp IS NOT NULL
+          AND token_mint IN (SELECT DISTINCT token_mint FROM wallet_trades WHERE is_graduated_token)
+        ORDER BY graduation_timestamp DESC, token_mint DESC
+        LIMIT 1
+      ) gt ON true
+      ON CONFLICT (name) DO NOTHING`,
+      [this.config.checkpointName]
+    );
+    if (seeded.rowCount) console.log('📍 Created ingestion checkpoint');
+
+    return (await this.getCheckpoint())!;
+  }
+
+  /**
+   * Move a cursor past a saved unit of work and queue its wallets, in one statement
+   */
+  private async advanceCursor(
+    unit: { graduation: GraduatedTokenData } | { trade: { createdAt: Date; signature: string } },
+    wallets: string[]
+  ): Promise<void> {
+    if ('graduation' in unit) {
+      await this.pool.query(`
+        UPDATE wallet_tracker_checkpoints SET
+          graduation_cursor_at = $2,
+          graduation_cursor_mint = $3,
+          pending_wallets = ARRAY(SELECT DISTINCT unnest(pending_wallets || $4::text[])),
+          updated_at = NOW()
+        WHERE name = $1`,
+        [this.config.checkpointName, unit.graduation.graduation_timestamp, unit.graduation.mint_address, wallets]
+      );
+    } else {
+      await this.pool.query(`
+        UPDATE wallet_tracker_checkpoints SET
+          trade_cursor_at = $2,
+          trade_cursor_signature = $3,
+          pending_wallets = ARRAY(SELECT DISTINCT unnest(pending_wallets || $4::text[])),
+          updated_at = NOW()
+        WHERE name = $1`,
+        [this.config.checkpointName, unit.trade.createdAt, unit.trade.signature, wallets]
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const incrementalCollector = new IncrementalCollector();
@@ -7,6 +7,15 @@ export { transactionFetcher } from './transaction-fetcher';
 export { walletProfileExtractor } from './wallet-profile-extractor';
 export { dataValidator } from './data-validator';
 export { HistoricalDataCollector } from './collect-historical-data';
+export { IncrementalCollector, incrementalCollector, defaultIncrementalConfig } from './incremental-collector';
+export { SybilDetector, sybilDetector, defaultClusteringConfig } from './sybil-detector';
+export { EnhancedTransferClient, extractFunding, HELIUS_ENHANCED_TX_CREDITS } from './enhanced-transfers';
+export { WalletGraph, detectCommunities } from './wallet-graph';
+export { computeTraderScore, calculateDecayFactor } from './trader-score';
+export { TraderScoreEngine, traderScoreEngine } from './trader-score-engine';
+export { accountPosition, markPosition } from './position-accounting';
+export { PositionAccountant, positionAccountant } from './position-accountant';
+export { SmartMoneySignalGenerator, smartMoneySignals, calculateSignalStrength } from './smart-money-signals';
 
 // Re-export main service for convenience
 export { WalletTrackerService } from './wallet-tracker-service';
\ No newline at end of file
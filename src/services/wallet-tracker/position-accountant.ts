@@ -0,0 +1,315 @@
+import { Pool } from 'pg';
+import { DatabaseConnection } from '../../database/connection';
+import { accountPosition, markPosition } from './position-accounting';
+import {
+  CostMethod,
+  LedgerEntry,
+  PnLCalculation,
+  PositionAccount,
+  PositionMark,
+  PositionReconciliation
+} from './types';
+
+export interface ReconcileOptions {
+  method?: CostMethod;
+  dryRun?: boolean;
+}
+
+export const DEFAULT_COST_METHOD: CostMethod =
+  process.env.WALLET_PNL_METHOD === 'average' ? 'average' : 'fifo';
+
+// Differences below these are rounding, not drift
+const AMOUNT_TOLERANCE = 1e-3;
+const SOL_TOLERANCE = 1e-6;
+const BATCH_SIZE = 100;
+
+/**
+ * Loads wallet ledgers from wallet_trades and wallet_token_transfers, runs
+ * lot accounting, marks open balances to the latest price and writes the
+ * result to wallet_positions.
+ */
+export class PositionAccountant {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = DatabaseConnection.getPool();
+  }
+
+  async calculatePnL(
+    walletAddress: string,
+    tokenMint: string,
+    method: CostMethod = DEFAULT_COST_METHOD
+  ): Promise<PnLCalculation> {
+    const ledgers = await this.loadLedgers(walletAddress, [tokenMint]);
+    const account = accountPosition(ledgers.get(tokenMint) || [], method);
+    const marks = account.current_balance > 0 ? await this.getMarks([tokenMint]) : new Map<string, PositionMark>();
+    const mark = marks.get(tokenMint) || null;
+    const unrealized = markPosition(account, mark);
+
+    return {
+      wallet_address: walletAddress,
+      token_mint: tokenMint,
+      realized_pnl: account.realized_pnl_sol,
+      unrealized_pnl: unrealized.unrealized_pnl_sol,
+      total_pnl: account.realized_pnl_sol + unrealized.unrealized_pnl_sol,
+      avg_buy_price: account.avg_buy_price || 0,
+      avg_sell_price: account.avg_sell_price || undefined,
+      current_price: mark?.price_sol,
+      total_bought: account.total_bought,
+      total_sold: account.total_sold,
+      current_balance: account.current_balance,
+      method,
+      cost_basis: account.cost_basis_sol,
+      realized_pnl_usd: account.realized_pnl_usd ?? undefined,
+      unrealized_pnl_usd: unrealized.unrealized_pnl_usd
+    };
+  }
+
+  /**
+   * Recompute every position of a wallet and bring wallet_positions in line.
+   * Reports stored values that disagreed with the ledger.
+   */
+  async reconcileWallet(walletAddress: string, options: ReconcileOptions = {}): Promise<PositionReconciliation> {
+    const method = options.method || DEFAULT_COST_METHOD;
+    const ledgers = await this.loadLedgers(walletAddress);
+    const accounts = new Map<string, PositionAccount>();
+    for (const [mint, entries] of ledgers) {
+      accounts.set(mint, accountPosition(entries, method));
+    }
+
+    const openMints = Array.from(accounts).filter(([, a]) => a.current_balance > 0).map(([mint]) => mint);
+    const [marks, stored, graduated] = await Promise.all([
+      this.getMarks(openMints),
+      this.pool.query(
+        `SELECT token_mint, total_bought, total_sold, current_balance, realized_pnl_sol
+         FROM wallet_positions WHERE wallet_address = $1`,
+        [walletAddress]
+      ),
+      this.pool.query(
+        `SELECT token_mint, BOOL_OR(is_graduated_token) AS is_graduated
+         FROM wallet_trades WHERE wallet_address = $1
+         GROUP BY token_mint`,
+        [walletAddress]
+      )
+    ]);
+    const storedByMint = new Map(stored.rows.map(row => [row.token_mint, row]));
+    const graduatedByMint = new Map<string, boolean>(graduated.rows.map(row => [row.token_mint, row.is_graduated]));
+
+    const result: PositionReconciliation = {
+      wallet_address: walletAddress,
+      positions: accounts.size,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      drift: []
+    };
+
+    for (const [mint, account] of accounts) {
+      const previous = storedByMint.get(mint);
+      if (!previous) {
+        result.created++;
+      } else {
+        const checks: [string, number, number, number][] = [
+          ['total_bought', parseFloat(previous.total_bought), account.total_bought, AMOUNT_TOLERANCE],
+          ['total_sold', parseFloat(previous.total_sold), account.total_sold, AMOUNT_TOLERANCE],
+          ['current_balance', parseFloat(previous.current_balance), account.current_balance, AMOUNT_TOLERANCE],
+          ['realized_pnl_sol', parseFloat(previous.realized_pnl_sol), account.realized_pnl_sol, SOL_TOLERANCE]
+        ];
+        const drift = checks.filter(([, storedValue, computed, tolerance]) => Math.abs(storedValue - computed) > tolerance);
+        for (const [field, storedValue, computed] of drift) {
+          result.drift.push({ token_mint: mint, field, stored: storedValue, computed });
+        }
+        if (drift.length > 0) result.updated++;
+        else result.unchanged++;
+      }
+
+      if (!options.dryRun) {
+        await this.savePosition(walletAddress, mint, account, marks.get(mint) || null, graduatedByMint.get(mint) || false);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Reconcile every wallet with trades or transfers, in batches
+   */
+  async reconcileAll(options: ReconcileOptions = {}): Promise<PositionReconciliation[]> {
+    const results: PositionReconciliation[] = [];
+    let after = '';
+
+    while (true) {
+      const batch = await this.pool.query(
+        `SELECT wallet_address FROM (
+           SELECT DISTINCT wallet_address FROM wallet_trades WHERE wallet_address > $1
+           UNION
+           SELECT DISTINCT wallet_address FROM wallet_token_transfers WHERE wallet_address > $1
+         ) w
+         ORDER BY wallet_address
+         LIMIT $2`,
+        [after, BATCH_SIZE]
+      );
+      if (batch.rows.length === 0) break;
+
+      for (const row of batch.rows) {
+        results.push(await this.reconcileWallet(row.wallet_address, options));
+      }
+      after = batch.rows[batch.rows.length - 1].wallet_address;
+    }
+
+    return results;
+  }
+
+  // ============ Loading ============
+
+  private async loadLedgers(walletAddress: string, mints?: string[]): Promise<Map<string, LedgerEntry[]>> {
+    // Trade USD comes from the stored token price, else the SOL/USD price at the time
+    const result = await this.pool.query(
+      `SELECT token_mint, trade_type AS kind, amount, sol_value,
+              COALESCE(amount * price_usd, sol_value * NULLIF(get_sol_usd_price(block_time), 0)) AS usd_value,
+              block_time, transaction_hash
+       FROM wallet_trades
+       WHERE wallet_address = $1 AND ($2::text[] IS NULL OR token_mint = ANY($2))
+       UNION ALL
+       SELECT token_mint, 'transfer_' || direction, amount, 0, NULL, block_time, transaction_hash
+       FROM wallet_token_transfers
+       WHERE wallet_address = $1 AND ($2::text[] IS NULL OR token_mint = ANY($2))`,
+      [walletAddress, mints || null]
+    );
+
+    const ledgers = new Map<string, LedgerEntry[]>();
+    for (const row of result.rows) {
+      const entries = ledgers.get(row.token_mint) || [];
+      entries.push({
+        kind: row.kind,
+        amount: parseFloat(row.amount),
+        sol_value: parseFloat(row.sol_value),
+        usd_value: row.usd_value === null ? null : parseFloat(row.usd_value),
+        block_time: row.block_time,
+        signature: row.transaction_hash
+      });
+      ledgers.set(row.token_mint, entries);
+    }
+    return ledgers;
+  }
+
+  /**
+   * Latest price per token: the newer of the pool's latest_price and the
+   * last 1m candle close, else the last tracked trade
+   */
+  async getMarks(mints: string[]): Promise<Map<string, PositionMark>> {
+    const marks = new Map<string, PositionMark>();
+    if (mints.length === 0) return marks;
+
+    const [prices, solUsd] = await Promise.all([
+      this.pool.query(
+        `SELECT m.mint,
+                pool.latest_price, pool.updated_at AS pool_time,
+                candle.close, candle.bucket AS candle_time,
+                trade.price_sol AS trade_price, trade.block_time AS trade_time
+         FROM UNNEST($1::text[]) AS m(mint)
+         LEFT JOIN tokens t ON t.mint_address = m.mint
+         LEFT JOIN LATERAL (
+           SELECT latest_price, updated_at FROM pools
+           WHERE token_id = t.id AND latest_price > 0
+           ORDER BY updated_at DESC LIMIT 1
+         ) pool ON true
+         LEFT JOIN LATERAL (
+           SELECT close, bucket FROM price_candles_1m
+           WHERE token_id = t.id
+           ORDER BY bucket DESC LIMIT 1
+         ) candle ON true
+         LEFT JOIN LATERAL (
+           SELECT price_sol, block_time FROM wallet_trades
+           WHERE token_mint = m.mint
+           ORDER BY block_time DESC LIMIT 1
+         ) trade ON true`,
+        [mints]
+      ),
+      this.pool.query(`SELECT price_usd FROM get_latest_sol_usd_price()`)
+    ]);
+    const solUsdPrice = solUsd.rows[0] ? parseFloat(solUsd.rows[0].price_usd) : null;
+
+    for (const row of prices.rows) {
+      const candidates: PositionMark[] = [];
+      if (row.latest_price) {
+        candidates.push({ price_sol: parseFloat(row.latest_price), sol_usd: solUsdPrice, marked_at: new Date(row.pool_time), source: 'pool' });
+      }
+      if (row.close) {
+        candidates.push({ price_sol: parseFloat(row.close), sol_usd: solUsdPrice, marked_at: new Date(row.candle_time), source: 'candle' });
+      }
+      if (candidates.length === 0 && row.trade_price) {
+        candidates.push({ price_sol: parseFloat(row.trade_price), sol_usd: solUsdPrice, marked_at: new Date(row.trade_time), source: 'trade' });
+      }
+      const newest = candidates.sort((a, b) => b.marked_at.getTime() - a.marked_at.getTime())[0];
+      if (newest) marks.set(row.mint, newest);
+    }
+    return marks;
+  }
+
+  // ============ Saving ============
+
+  private async savePosition(
+    walletAddress: string,
+    tokenMint: string,
+    account: PositionAccount,
+    mark: PositionMark | null,
+    isGraduated: boolean
+  ): Promise<void> {
+    const unrealized = markPosition(account, mark);
+    await this.pool.query(
+      `INSERT INTO wallet_positions (
+         wallet_address, token_mint, total_bought, total_sold, current_balance,
+         avg_buy_price, avg_sell_price, realized_pnl_sol, unrealized_pnl_sol,
+         first_buy_at, last_sell_at, is_graduated, cost_basis_sol,
+         realized_pnl_usd, unrealized_pnl_usd, transferred_in, transferred_out,
+         mark_price_sol, marked_at, accounting_method
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+       ON CONFLICT (wallet_address, token_mint) DO UPDATE SET
+         total_bought = EXCLUDED.total_bought,
+         total_sold = EXCLUDED.total_sold,
+         current_balance = EXCLUDED.current_balance,
+         avg_buy_price = EXCLUDED.avg_buy_price,
+         avg_sell_price = EXCLUDED.avg_sell_price,
+         realized_pnl_sol = EXCLUDED.realized_pnl_sol,
+         unrealized_pnl_sol = EXCLUDED.unrealized_pnl_sol,
+         first_buy_at = EXCLUDED.first_buy_at,
+         last_sell_at = EXCLUDED.last_sell_at,
+         is_graduated = wallet_positions.is_graduated OR EXCLUDED.is_graduated,
+         cost_basis_sol = EXCLUDED.cost_basis_sol,
+         realized_pnl_usd = EXCLUDED.realized_pnl_usd,
+         unrealized_pnl_usd = EXCLUDED.unrealized_pnl_usd,
+         transferred_in = EXCLUDED.transferred_in,
+         transferred_out = EXCLUDED.transferred_out,
+         mark_price_sol = EXCLUDED.mark_price_sol,
+         marked_at = EXCLUDED.marked_at,
+         accounting_method = EXCLUDED.accounting_method,
+         updated_at = NOW()`,
+      [
+        walletAddress,
+        tokenMint,
+        account.total_bought,
+        account.total_sold,
+        account.current_balance,
+        account.avg_buy_price,
+        account.avg_sell_price,
+        account.realized_pnl_sol,
+        unrealized.unrealized_pnl_sol,
+        account.first_buy_at,
+        account.last_sell_at,
+        isGraduated,
+        account.cost_basis_sol,
+        account.realized_pnl_usd,
+        unrealized.unrealized_pnl_usd,
+        account.transferred_in,
+        account.transferred_out,
+        mark?.price_sol ?? null,
+        mark?.marked_at ?? null,
+        account.method
+      ]
+    );
+  }
+}
+
+// Export singleton instance
+export const positionAccountant = new PositionAccountant();
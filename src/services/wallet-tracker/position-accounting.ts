@@ -0,0 +1,187 @@
+import { CostMethod, LedgerEntry, PositionAccount, PositionMark } from './types';
+
+interface Lot {
+  amount: number;
+  costSol: number;
+  costUsd: number | null;
+}
+
+// Token amounts are stored with 6 decimals; anything smaller is rounding
+const DUST = 1e-6;
+
+const KIND_ORDER: Record<LedgerEntry['kind'], number> = { buy: 0, transfer_in: 1, sell: 2, transfer_out: 3 };
+
+/**
+ * Replay a wallet's ledger for one token into lots.
+ *
+ * - FIFO sells consume the oldest lots first; average cost keeps one pooled lot.
+ * - Transfers in are valued at the nearest trade price (the last one before,
+ *   else the first after), so tokens funnelled in from another wallet only
+ *   earn what they gained after arriving.
+ * - Transfers out remove lots at cost without realizing anything.
+ * - Tokens sold beyond the recorded holding are counted as unmatched and
+ *   realize nothing, since their cost is unknown.
+ */
+export function accountPosition(entries: LedgerEntry[], method: CostMethod): PositionAccount {
+  const ledger = [...entries].sort((a, b) =>
+    new Date(a.block_time).getTime() - new Date(b.block_time).getTime() || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]
+  );
+  const transferPrices = priceTransfers(ledger);
+
+  const lots: Lot[] = [];
+  const account: PositionAccount = {
+    method,
+    total_bought: 0,
+    total_sold: 0,
+    transferred_in: 0,
+    transferred_out: 0,
+    unmatched_sold: 0,
+    current_balance: 0,
+    cost_basis_sol: 0,
+    cost_basis_usd: 0,
+    avg_buy_price: null,
+    avg_sell_price: null,
+    realized_pnl_sol: 0,
+    realized_pnl_usd: 0,
+    first_buy_at: null,
+    last_sell_at: null
+  };
+  let boughtSol = 0;
+  let soldSol = 0;
+
+  ledger.forEach((entry, i) => {
+    switch (entry.kind) {
+      case 'buy':
+        account.total_bought += entry.amount;
+        boughtSol += entry.sol_value;
+        if (!account.first_buy_at) account.first_buy_at = new Date(entry.block_time);
+        addLot(lots, { amount: entry.amount, costSol: entry.sol_value, costUsd: entry.usd_value }, method);
+        break;
+
+      case 'transfer_in': {
+        const price = transferPrices.get(i);
+        account.transferred_in += entry.amount;
+        addLot(lots, {
+          amount: entry.amount,
+          costSol: price ? entry.amount * price.sol : 0,
+          costUsd: price && price.usd !== null ? entry.amount * price.usd : price ? null : 0
+        }, method);
+        break;
+      }
+
+      case 'sell': {
+        account.total_sold += entry.amount;
+        soldSol += entry.sol_value;
+        account.last_sell_at = new Date(entry.block_time);
+
+        const { matched, costSol, costUsd } = takeLots(lots, entry.amount, method);
+        account.unmatched_sold += entry.amount - matched;
+        if (matched <= 0) break;
+
+        const share = matched / entry.amount;
+        account.realized_pnl_sol += entry.sol_value * share - costSol;
+        account.realized_pnl_usd = account.realized_pnl_usd !== null && entry.usd_value !== null && costUsd !== null
+          ? account.realized_pnl_usd + entry.usd_value * share - costUsd
+          : null;
+        break;
+      }
+
+      case 'transfer_out':
+        account.transferred_out += entry.amount;
+        takeLots(lots, entry.amount, method);
+        break;
+    }
+  });
+
+  account.current_balance = lots.reduce((sum, lot) => sum + lot.amount, 0);
+  account.cost_basis_sol = lots.reduce((sum, lot) => sum + lot.costSol, 0);
+  account.cost_basis_usd = lots.some(lot => lot.costUsd === null)
+    ? null
+    : lots.reduce((sum, lot) => sum + lot.costUsd!, 0);
+  account.avg_buy_price = account.total_bought > 0 ? boughtSol / account.total_bought : null;
+  account.avg_sell_price = account.total_sold > 0 ? soldSol / account.total_sold : null;
+  return account;
+}
+
+/**
+ * Unrealized PnL of the open balance at a mark price
+ */
+export function markPosition(
+  account: PositionAccount,
+  mark: PositionMark | null
+): { unrealized_pnl_sol: number; unrealized_pnl_usd: number | null } {
+  if (account.current_balance <= 0) return { unrealized_pnl_sol: 0, unrealized_pnl_usd: 0 };
+  if (!mark) return { unrealized_pnl_sol: 0, unrealized_pnl_usd: null };
+
+  const valueSol = account.current_balance * mark.price_sol;
+  return {
+    unrealized_pnl_sol: valueSol - account.cost_basis_sol,
+    unrealized_pnl_usd: mark.sol_usd !== null && account.cost_basis_usd !== null
+      ? valueSol * mark.sol_usd - account.cost_basis_usd
+      : null
+  };
+}
+
+function addLot(lots: Lot[], lot: Lot, method: CostMethod): void {
+  if (method === 'fifo' || lots.length === 0) {
+    lots.push(lot);
+    return;
+  }
+  const pooled = lots[0];
+  pooled.amount += lot.amount;
+  pooled.costSol += lot.costSol;
+  pooled.costUsd = pooled.costUsd !== null && lot.costUsd !== null ? pooled.costUsd + lot.costUsd : null;
+}
+
+/**
+ * Remove `amount` tokens from the lots and return the cost that went with them
+ */
+function takeLots(lots: Lot[], amount: number, method: CostMethod): { matched: number; costSol: number; costUsd: number | null } {
+  let remaining = amount;
+  let costSol = 0;
+  let costUsd: number | null = 0;
+
+  // Average cost has at most one lot, so FIFO order gives the same result
+  while (remaining > DUST && lots.length > 0) {
+    const lot = lots[0];
+    const taken = Math.min(lot.amount, remaining);
+    const fraction = taken / lot.amount;
+
+    costSol += lot.costSol * fraction;
+    costUsd = costUsd !== null && lot.costUsd !== null ? costUsd + lot.costUsd * fraction : null;
+
+    lot.amount -= taken;
+    lot.costSol -= lot.costSol * fraction;
+    if (lot.costUsd !== null) lot.costUsd -= lot.costUsd * fraction;
+    remaining -= taken;
+
+    if (lot.amount <= DUST) lots.shift();
+  }
+
+  return { matched: amount - Math.max(0, remaining), costSol, costUsd };
+}
+
+/**
+ * Per-token SOL and USD price for each transfer in, from the nearest trade
+ */
+function priceTransfers(ledger: LedgerEntry[]): Map<number, { sol: number; usd: number | null }> {
+  const prices = new Map<number, { sol: number; usd: number | null }>();
+  const tradePrice = (entry: LedgerEntry) => ({
+    sol: entry.sol_value / entry.amount,
+    usd: entry.usd_value !== null ? entry.usd_value / entry.amount : null
+  });
+
+  let last: { sol: number; usd: number | null } | null = null;
+  const pending: number[] = [];
+  ledger.forEach((entry, i) => {
+    if (entry.kind === 'buy' || entry.kind === 'sell') {
+      last = tradePrice(entry);
+      for (const index of pending) prices.set(index, last);
+      pending.length = 0;
+    } else if (entry.kind === 'transfer_in') {
+      if (last) prices.set(i, last);
+      else pending.push(i);
+    }
+  });
+  return prices;
+}
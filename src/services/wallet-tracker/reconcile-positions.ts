@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import { closeDbPool } from '../../database/connection';
+import { positionAccountant } from './position-accountant';
+import { CostMethod, PositionReconciliation } from './types';
+
+/**
+ * Rebuild wallet_positions from trades and transfers and report drift
+ *
+ * Usage:
+ *   npm run wallet-tracker:positions
+ *   npm run wallet-tracker:positions -- --wallet <address>
+ *   npm run wallet-tracker:positions -- --method average   # default fifo, or WALLET_PNL_METHOD
+ *   npm run wallet-tracker:positions -- --dry-run          # report drift only
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const wallet = getOption(args, '--wallet');
+  const methodArg = getOption(args, '--method');
+  const dryRun = args.includes('--dry-run');
+
+  if (methodArg && methodArg !== 'fifo' && methodArg !== 'average') {
+    throw new Error(`Unknown method "${methodArg}" (expected fifo or average)`);
+  }
+  const method = methodArg as CostMethod | undefined;
+
+  const startedAt = Date.now();
+  const results: PositionReconciliation[] = wallet
+    ? [await positionAccountant.reconcileWallet(wallet, { method, dryRun })]
+    : await positionAccountant.reconcileAll({ method, dryRun });
+
+  const total = (key: 'positions' | 'created' | 'updated' | 'unchanged') =>
+    results.reduce((sum, r) => sum + r[key], 0);
+  const drift = results.flatMap(r => r.drift.map(d => ({ wallet: r.wallet_address, ...d })));
+
+  console.log('\n===========================================');
+  console.log('   POSITION RECONCILIATION');
+  console.log('===========================================');
+  console.log(`📊 Wallets: ${results.length}, positions: ${total('positions')}`);
+  console.log(`📊 New: ${total('created')}, corrected: ${total('updated')}, unchanged: ${total('unchanged')}`);
+
+  for (const d of drift.slice(0, 20)) {
+    console.log(
+      `  ${d.wallet.substring(0, 8)} ${d.token_mint.substring(0, 8)} ${d.field.padEnd(16)} ` +
+      `stored ${d.stored.toFixed(6)} → ${d.computed.toFixed(6)}`
+    );
+  }
+  if (drift.length > 20) console.log(`  ... and ${drift.length - 20} more`);
+  console.log(`\n⏱️  ${((Date.now() - startedAt) / 1000).toFixed(1)}s${dryRun ? ' (dry run, nothing saved)' : ''}`);
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import { closeDbPool } from '../../database/connection';
+import { traderScoreEngine } from './trader-score-engine';
+
+/**
+ * Recalculate trader scores and record score history
+ *
+ * Usage:
+ *   npm run wallet-tracker:score
+ *   npm run wallet-tracker:score -- --wallet <address>   # one wallet, with its breakdown
+ *   npm run wallet-tracker:score -- --dry-run            # report only, write nothing
+ *   npm run wallet-tracker:score -- --interval 60        # rescore every hour
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runOnce(wallet: string | undefined, dryRun: boolean): Promise<void> {
+  const startedAt = Date.now();
+  const result = await traderScoreEngine.run({ dryRun, wallets: wallet ? [wallet] : undefined });
+
+  console.log('\n===========================================');
+  console.log('   TRADER SCORE REPORT');
+  console.log('===========================================');
+  console.log(`📊 Wallets scored: ${result.scored}`);
+  console.log(`📊 Smart money (700+): ${result.smartMoney}`);
+
+  for (const score of result.results.slice(0, 15)) {
+    const { profitability, consistency, timing, activity, adjustments } = score.components;
+    console.log(
+      `  ${score.wallet_address.substring(0, 8)} ${score.trader_score.toFixed(0).padStart(4)} ` +
+      `P${profitability.score.toFixed(0).padStart(4)} C${consistency.score.toFixed(0).padStart(4)} ` +
+      `T${timing.score.toFixed(0).padStart(4)} A${activity.score.toFixed(0).padStart(3)} ` +
+      `win ${score.win_rate.toFixed(0)}% ${score.closed_positions} closed` +
+      `${adjustments.decay_factor < 1 ? `, ${adjustments.days_inactive}d inactive ×${adjustments.decay_factor}` : ''}`
+    );
+  }
+
+  if (wallet && result.results[0]) {
+    console.log('\n' + JSON.stringify(result.results[0].components, null, 2));
+  }
+  console.log(`\n⏱️  ${((Date.now() - startedAt) / 1000).toFixed(1)}s${dryRun ? ' (dry run, nothing saved)' : ''}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const wallet = getOption(args, '--wallet');
+  const dryRun = args.includes('--dry-run');
+  const interval = getOption(args, '--interval');
+
+  await runOnce(wallet, dryRun);
+  if (!interval) return;
+
+  const intervalMs = parseInt(interval) * 60 * 1000;
+  console.log(`\n🔁 Next run in ${interval} minutes`);
+  await new Promise<void>(() => {
+    setInterval(() => {
+      runOnce(wallet, dryRun).catch(error => console.error('Scoring run failed:', error));
+    }, intervalMs);
+  });
+}
+
+if (require.main === module) {
+  main()
+    .then(async () => {
+      await closeDbPool();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      console.error('Fatal error:', error);
+      await closeDbPool();
+      process.exit(1);
+    });
+}
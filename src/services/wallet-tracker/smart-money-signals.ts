@@ -0,0 +1,274 @@
+import { Pool } from 'pg';
+import { DatabaseConnection } from '../../database/connection';
+import { streamNow } from '../../monitors/runtime/stream-clock';
+import { walletTrackerService } from './wallet-tracker-service';
+import { SmartMoneySignalConfig, SmartMoneyTrade, TokenSmartMoneySignal, TopTrader } from './types';
+
+interface SmartWallet {
+  score: number;
+  clusterId: string | null;
+}
+
+interface Holding {
+  tokens: number;
+  costSol: number;        // Cost basis of the tokens still held
+  entryPrice: number;
+}
+
+interface TokenState {
+  holdings: Map<string, Holding>;
+  signatures: Set<string>;
+  persistTimer: NodeJS.Timeout | null;
+}
+
+export const defaultSmartMoneySignalConfig: SmartMoneySignalConfig = {
+  minTraderScore: parseInt(process.env.MIN_WALLET_SCORE || '700'),
+  indexRefreshMs: 5 * 60 * 1000,
+  persistDelayMs: 500,
+  maxTrackedTokens: 5000,
+  topTraders: 5
+};
+
+// Below this many tokens a holding counts as exited
+const DUST_TOKENS = 1;
+
+/**
+ * Turns bonding-curve trades into per-token smart-money signals as they
+ * stream in. Buyers are looked up in an in-memory index of high-score
+ * wallets; a token's signal row is written shortly after each smart trade,
+ * which also refreshes the token's aggregate score (migration 033).
+ */
+export class SmartMoneySignalGenerator {
+  private pool: Pool;
+  private config: SmartMoneySignalConfig;
+  private index = new Map<string, SmartWallet>();
+  private indexLoad: Promise<void> | null = null;
+  private indexTimer: NodeJS.Timeout | null = null;
+  private tokens = new Map<string, Promise<TokenState>>();
+
+  constructor(config: Partial<SmartMoneySignalConfig> = {}) {
+    this.pool = DatabaseConnection.getPool();
+    this.config = { ...defaultSmartMoneySignalConfig, ...config };
+  }
+
+  /**
+   * Record a trade. Safe to call without awaiting: failures are logged.
+   */
+  onTrade(trade: SmartMoneyTrade): void {
+    this.handleTrade(trade).catch(error => {
+      console.error(`Smart money signal failed for ${trade.tokenMint}:`, error instanceof Error ? error.message : error);
+    });
+  }
+
+  async handleTrade(trade: SmartMoneyTrade): Promise<void> {
+    await this.ensureIndex();
+    if (!this.index.has(trade.walletAddress)) return;
+
+    // A freshly loaded token may already hold this trade; write its signal anyway
+    const isNew = !this.tokens.has(trade.tokenMint);
+    const state = await this.getTokenState(trade.tokenMint);
+    if (!this.apply(state, trade) && !isNew) return;
+
+    if (!state.persistTimer) {
+      state.persistTimer = setTimeout(() => {
+        state.persistTimer = null;
+        this.persist(trade.tokenMint, state).catch(error => {
+          console.error(`Failed to save smart money signal for ${trade.tokenMint}:`, error instanceof Error ? error.message : error);
+        });
+      }, this.config.persistDelayMs);
+    }
+  }
+
+  /**
+   * Current signal for a token from in-memory state, or null if no smart
+   * wallet has traded it since the process started
+   */
+  async getSignal(tokenMint: string): Promise<TokenSmartMoneySignal | null> {
+    const state = this.tokens.get(tokenMint);
+    return state ? this.buildSignal(tokenMint, await state) : null;
+  }
+
+  stop(): void {
+    if (this.indexTimer) clearInterval(this.indexTimer);
+    this.indexTimer = null;
+  }
+
+  // ============ Smart Wallet Index ============
+
+  private ensureIndex(): Promise<void> {
+    if (!this.indexLoad) {
+      this.indexLoad = this.loadIndex().catch(error => {
+        // Retry on the next trade rather than running with an empty index
+        this.indexLoad = null;
+        throw error;
+      });
+
+      if (!this.indexTimer) {
+        this.indexTimer = setInterval(() => {
+          this.loadIndex().catch(error => console.error('Failed to refresh smart wallet index:', error));
+        }, this.config.indexRefreshMs);
+        this.indexTimer.unref();
+      }
+    }
+    return this.indexLoad;
+  }
+
+  private async loadIndex(): Promise<void> {
+    const result = await this.pool.query(
+      `SELECT wallet_address, trader_score, cluster_id
+       FROM wallet_traders
+       WHERE trader_score >= $1
+         AND wallet_type NOT IN ('bot', 'sybil')`,
+      [this.config.minTraderScore]
+    );
+
+    this.index = new Map(result.rows.map(row => [
+      row.wallet_address,
+      { score: parseFloat(row.trader_score), clusterId: row.cluster_id }
+    ]));
+    console.log(`🧠 Smart wallet index loaded: ${this.index.size} wallets (score >= ${this.config.minTraderScore})`);
+  }
+
+  // ============ Token State ============
+
+  private getTokenState(tokenMint: string): Promise<TokenState> {
+    let state = this.tokens.get(tokenMint);
+    if (state) {
+      // Re-insert so iteration order stays least recently traded first
+      this.tokens.delete(tokenMint);
+    } else {
+      state = this.hydrate(tokenMint);
+      state.catch(() => this.tokens.delete(tokenMint));
+    }
+    this.tokens.set(tokenMint, state);
+
+    while (this.tokens.size > this.config.maxTrackedTokens) {
+      const oldest = this.tokens.keys().next().value as string;
+      this.tokens.delete(oldest);
+    }
+    return state;
+  }
+
+  /**
+   * Rebuild smart holdings from trades already stored, so a restart or a
+   * wallet newly crossing the score threshold doesn't lose earlier buys
+   */
+  private async hydrate(tokenMint: string): Promise<TokenState> {
+    const state: TokenState = { holdings: new Map(), signatures: new Set(), persistTimer: null };
+    const result = await this.pool.query(
+      `SELECT tx.signature, tx.user_address, tx.type, tx.sol_amount, tx.token_amount, tx.block_time
+       FROM transactions tx
+       JOIN tokens t ON t.id = tx.token_id
+       WHERE t.mint_address = $1
+         AND tx.user_address = ANY($2)
+         AND tx.type IN ('buy', 'sell')
+       ORDER BY tx.block_time`,
+      [tokenMint, Array.from(this.index.keys())]
+    );
+
+    for (const row of result.rows) {
+      this.apply(state, {
+        tokenMint,
+        walletAddress: row.user_address,
+        type: row.type,
+        solAmount: parseFloat(row.sol_amount),
+        tokenAmount: parseFloat(row.token_amount),
+        signature: row.signature,
+        blockTime: row.block_time
+      });
+    }
+    return state;
+  }
+
+  private apply(state: TokenState, trade: SmartMoneyTrade): boolean {
+    if (state.signatures.has(trade.signature)) return false;
+    state.signatures.add(trade.signature);
+
+    const holding = state.holdings.get(trade.walletAddress);
+    if (trade.type === 'buy') {
+      if (holding) {
+        holding.tokens += trade.tokenAmount;
+        holding.costSol += trade.solAmount;
+      } else {
+        state.holdings.set(trade.walletAddress, {
+          tokens: trade.tokenAmount,
+          costSol: trade.solAmount,
+          entryPrice: trade.tokenAmount > 0 ? trade.solAmount / trade.tokenAmount : 0
+        });
+      }
+      return true;
+    }
+
+    if (!holding) return false;
+    const remaining = holding.tokens - trade.tokenAmount;
+    if (remaining < DUST_TOKENS) {
+      state.holdings.delete(trade.walletAddress);
+    } else {
+      holding.costSol *= remaining / holding.tokens;
+      holding.tokens = remaining;
+    }
+    return true;
+  }
+
+  // ============ Signals ============
+
+  private async persist(tokenMint: string, state: TokenState): Promise<void> {
+    await walletTrackerService.saveSmartMoneySignal(this.buildSignal(tokenMint, state));
+  }
+
+  private buildSignal(tokenMint: string, state: TokenState): TokenSmartMoneySignal {
+    const traders: TopTrader[] = [];
+    const clusters = new Set<string>();
+    let independent = 0;
+
+    for (const [address, holding] of state.holdings) {
+      const wallet = this.index.get(address);
+      if (!wallet) continue;
+      traders.push({ address, score: wallet.score, investment: holding.costSol, entry_price: holding.entryPrice });
+
+      // Wallets in one cluster are one opinion
+      if (!wallet.clusterId) independent++;
+      else clusters.add(wallet.clusterId);
+    }
+
+    const invested = traders.reduce((sum, t) => sum + t.investment, 0);
+    const avgScore = invested > 0
+      ? traders.reduce((sum, t) => sum + t.score * t.investment, 0) / invested
+      : traders.length > 0 ? traders.reduce((sum, t) => sum + t.score, 0) / traders.length : 0;
+
+    traders.sort((a, b) => b.score - a.score);
+
+    return {
+      token_mint: tokenMint,
+      signal_timestamp: new Date(streamNow()),
+      smart_wallets_count: traders.length,
+      avg_trader_score: Math.round(avgScore * 100) / 100,
+      total_smart_money_invested_sol: invested,
+      top_traders: traders.slice(0, this.config.topTraders),
+      signal_strength: calculateSignalStrength(independent + clusters.size, avgScore, invested)
+    };
+  }
+}
+
+/**
+ * Signal strength 0-100, a percentage of the 333-point wallet component in
+ * WALLET_TRACKER.md section 5: wallet count (100), trader quality (133) and
+ * SOL invested (100). Investment tiers are scaled to bonding-curve sizes.
+ */
+export function calculateSignalStrength(independentWallets: number, avgTraderScore: number, investedSol: number): number {
+  if (independentWallets === 0) return 0;
+
+  const countPoints = Math.min(5, independentWallets) * 20;
+  const qualityPoints = Math.min(1000, avgTraderScore) / 1000 * 133;
+  const investmentPoints =
+    investedSol < 1 ? 0
+    : investedSol < 5 ? 25
+    : investedSol < 15 ? 50
+    : investedSol < 40 ? 75
+    : 100;
+
+  return Math.round((countPoints + qualityPoints + investmentPoints) / 333 * 10000) / 100;
+}
+
+// Export singleton instance
+export const smartMoneySignals = new SmartMoneySignalGenerator();
@@ -0,0 +1,588 @@
+import { Pool, PoolClient } from 'pg';
+import { randomUUID } from 'crypto';
+import { DatabaseConnection } from '../../database/connection';
+import { EnhancedTransferClient } from './enhanced-transfers';
+import { WalletGraph, detectCommunities } from './wallet-graph';
+import {
+  ClusteringConfig,
+  ClusteringResult,
+  DetectedCluster,
+  FundingInfo,
+  WalletCluster,
+  WalletRelationship
+} from './types';
+
+type RelationshipType = WalletRelationship['relationship_type'];
+
+interface Edge {
+  wallet_a: string;
+  wallet_b: string;
+  relationship_type: RelationshipType;
+  interaction_count: number;
+  confidence_score: number;
+  first_interaction: Date | null;
+  last_interaction: Date | null;
+  metadata: Record<string, any>;
+}
+
+interface TrackedWallet {
+  address: string;
+  clusterId: string | null;
+  traderScore: number;
+  pnlSol: number;
+  funding: FundingInfo | null;
+}
+
+interface PairStats {
+  coBuys: number;
+  timed: number;
+  first: Date;
+  last: Date;
+}
+
+export const defaultClusteringConfig: ClusteringConfig = {
+  lookbackDays: 30,
+  timingWindowSeconds: 10,
+  minSharedTokens: 3,
+  minTimingRatio: 0.5,
+  minCoBuyTokens: 2,
+  maxCrowdSize: 20,
+  maxFunderFanout: 50,
+  ignoredFunders: (process.env.SYBIL_IGNORED_FUNDERS || '').split(',').map(a => a.trim()).filter(Boolean),
+  maxFundingLookups: 200,
+  fundingRecheckDays: 30,
+  minClusterSize: 3,
+  sybilRiskThreshold: 0.6,
+  resolution: 1
+};
+
+// How much each kind of evidence counts towards the graph edge weight
+const EDGE_WEIGHTS: Record<RelationshipType, number> = {
+  funds_transfer: 1.0,
+  same_tx_pattern: 0.8,
+  timing_correlation: 0.6,
+  same_creator: 0.5
+};
+
+/**
+ * Builds the wallet relationship graph from funding transfers and stored
+ * trades, groups wallets with Louvain community detection and marks
+ * high-risk clusters as Sybil networks.
+ */
+export class SybilDetector {
+  private pool: Pool;
+  private config: ClusteringConfig;
+  private transfers: EnhancedTransferClient;
+
+  constructor(config: Partial<ClusteringConfig> = {}) {
+    this.pool = DatabaseConnection.getPool();
+    this.config = { ...defaultClusteringConfig, ...config };
+    this.transfers = new EnhancedTransferClient();
+  }
+
+  async run(options: { dryRun?: boolean } = {}): Promise<ClusteringResult> {
+    const since = new Date(Date.now() - this.config.lookbackDays * 24 * 60 * 60 * 1000);
+    const wallets = await this.loadTrackedWallets();
+
+    console.log(`🔗 Building wallet graph for ${wallets.size} tracked wallets (since ${since.toISOString()})`);
+    const tradeEdges = await this.buildTradeEdges(since);
+    const fundingLookups = await this.refreshFunding(wallets, tradeEdges);
+    const edges = dedupeEdges([...this.buildFundingEdges(wallets), ...tradeEdges]);
+
+    const relationships = { funds_transfer: 0, same_tx_pattern: 0, timing_correlation: 0, same_creator: 0 };
+    for (const edge of edges) relationships[edge.relationship_type]++;
+    console.log(`   ${relationships.funds_transfer} funding, ${relationships.same_tx_pattern} co-buy, ${relationships.timing_correlation} timing edges`);
+
+    const graph = new WalletGraph();
+    for (const edge of edges) {
+      graph.addEdge(edge.wallet_a, edge.wallet_b, edge.confidence_score * EDGE_WEIGHTS[edge.relationship_type]);
+    }
+    const membership = detectCommunities(graph, this.config.resolution);
+    const communities = new Map<number, string[]>();
+    for (const [wallet, community] of membership) {
+      if (!communities.has(community)) communities.set(community, []);
+      communities.get(community)!.push(wallet);
+    }
+
+    const clusters = this.assessClusters(Array.from(communities.values()), edges, graph, wallets);
+    console.log(`   ${communities.size} communities, ${clusters.length} clusters of ${this.config.minClusterSize}+ tracked wallets`);
+
+    const result: ClusteringResult = {
+      relationships,
+      fundingLookups,
+      communities: communities.size,
+      clusters,
+      sybilWallets: clusters.filter(c => c.isSybil).reduce((sum, c) => sum + c.wallets.length, 0),
+      clearedWallets: 0
+    };
+
+    if (!options.dryRun) {
+      result.clearedWallets = await this.persist(edges, clusters);
+    }
+    return result;
+  }
+
+  // ============ Graph Construction ============
+
+  private async loadTrackedWallets(): Promise<Map<string, TrackedWallet>> {
+    const result = await this.pool.query(`
+      SELECT wallet_address, cluster_id, trader_score, total_pnl_sol, metadata->'funding' AS funding
+      FROM wallet_traders`);
+
+    return new Map(result.rows.map(row => [row.wallet_address, {
+      address: row.wallet_address,
+      clusterId: row.cluster_id,
+      traderScore: parseFloat(row.trader_score) || 0,
+      pnlSol: parseFloat(row.total_pnl_sol) || 0,
+      funding: row.funding || null
+    }]));
+  }
+
+  /**
+   * Co-buy and timing edges from each wallet's first buy per token. Buys in
+   * the same second are co-buys; buys within the timing window are timing
+   * correlations, counted against the less active wallet's token count.
+   */
+  private async buildTradeEdges(since: Date): Promise<Edge[]> {
+    const result = await this.pool.query(`
+      SELECT wallet_address, token_mint, MIN(block_time) AS first_buy
+      FROM wallet_trades
+      WHERE trade_type = 'buy' AND block_time >= $1
+      GROUP BY wallet_address, token_mint
+      ORDER BY token_mint, first_buy`, [since]);
+
+    const tokensPerWallet = new Map<string, number>();
+    const pairs = new Map<string, PairStats>();
+    const windowMs = this.config.timingWindowSeconds * 1000;
+
+    const countPair = (a: string, b: string, sameSecond: boolean, at: Date) => {
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+      const stats = pairs.get(key) || { coBuys: 0, timed: 0, first: at, last: at };
+      if (sameSecond) stats.coBuys++;
+      else stats.timed++;
+      if (at < stats.first) stats.first = at;
+      if (at > stats.last) stats.last = at;
+      pairs.set(key, stats);
+    };
+
+    let start = 0;
+    const rows = result.rows;
+    while (start < rows.length) {
+      let end = start;
+      while (end < rows.length && rows[end].token_mint === rows[start].token_mint) end++;
+      const buys = rows.slice(start, end).map(row => ({
+        wallet: row.wallet_address as string,
+        time: new Date(row.first_buy).getTime()
+      }));
+      start = end;
+
+      for (const buy of buys) {
+        tokensPerWallet.set(buy.wallet, (tokensPerWallet.get(buy.wallet) || 0) + 1);
+      }
+
+      for (let i = 0; i < buys.length; i++) {
+        // Skip launch rushes: a crowd in one window says nothing about any pair in it
+        let j = i + 1;
+        while (j < buys.length && buys[j].time - buys[i].time <= windowMs) j++;
+        if (j - i > this.config.maxCrowdSize) continue;
+
+        for (let k = i + 1; k < j; k++) {
+          const sameSecond = Math.floor(buys[k].time / 1000) === Math.floor(buys[i].time / 1000);
+          countPair(buys[i].wallet, buys[k].wallet, sameSecond, new Date(buys[k].time));
+        }
+      }
+    }
+
+    const edges: Edge[] = [];
+    for (const [key, stats] of pairs) {
+      const [a, b] = key.split('|');
+
+      if (stats.coBuys >= this.config.minCoBuyTokens) {
+        edges.push({
+          wallet_a: a,
+          wallet_b: b,
+          relationship_type: 'same_tx_pattern',
+          interaction_count: stats.coBuys,
+          confidence_score: Math.min(1, 0.4 + 0.15 * stats.coBuys),
+          first_interaction: stats.first,
+          last_interaction: stats.last,
+          metadata: { co_bought_tokens: stats.coBuys }
+        });
+      }
+
+      const correlated = stats.coBuys + stats.timed;
+      const ratio = correlated / Math.max(1, Math.min(tokensPerWallet.get(a) || 0, tokensPerWallet.get(b) || 0));
+      if (correlated >= this.config.minSharedTokens && ratio >= this.config.minTimingRatio) {
+        edges.push({
+          wallet_a: a,
+          wallet_b: b,
+          relationship_type: 'timing_correlation',
+          interaction_count: correlated,
+          confidence_score: Math.min(1, ratio) * Math.min(1, correlated / 5),
+          first_interaction: stats.first,
+          last_interaction: stats.last,
+          metadata: { correlated_tokens: correlated, ratio: Number(ratio.toFixed(3)) }
+        });
+      }
+    }
+
+    return edges;
+  }
+
+  /**
+   * Funding edges link each funder to the tracked wallets it funded, so
+   * wallets sharing a source meet at the funder node. Funders of more wallets
+   * than maxFunderFanout are exchanges or faucets and are left out.
+   */
+  private buildFundingEdges(wallets: Map<string, TrackedWallet>): Edge[] {
+    const ignored = new Set(this.config.ignoredFunders);
+    const funded = new Map<string, TrackedWallet[]>();
+    for (const wallet of wallets.values()) {
+      const funder = wallet.funding?.funder;
+      if (!funder || ignored.has(funder) || funder === wallet.address) continue;
+      if (!funded.has(funder)) funded.set(funder, []);
+      funded.get(funder)!.push(wallet);
+    }
+
+    const edges: Edge[] = [];
+    for (const [funder, children] of funded) {
+      if (children.length > this.config.maxFunderFanout) continue;
+      for (const child of children) {
+        const fundedAt = child.funding!.funded_at ? new Date(child.funding!.funded_at) : null;
+        edges.push({
+          wallet_a: funder,
+          wallet_b: child.address,
+          relationship_type: 'funds_transfer',
+          interaction_count: 1,
+          confidence_score: 0.8,
+          first_interaction: fundedAt,
+          last_interaction: fundedAt,
+          metadata: { kind: 'first_funder', funder, amount_sol: child.funding!.amount_sol }
+        });
+      }
+    }
+
+    // Direct transfers between two tracked wallets
+    const seen = new Set<string>();
+    for (const wallet of wallets.values()) {
+      for (const other of wallet.funding?.counterparties || []) {
+        if (other === wallet.funding?.funder || !wallets.has(other) || ignored.has(other)) continue;
+        const [a, b] = wallet.address < other ? [wallet.address, other] : [other, wallet.address];
+        if (seen.has(`${a}|${b}`)) continue;
+        seen.add(`${a}|${b}`);
+        edges.push({
+          wallet_a: a,
+          wallet_b: b,
+          relationship_type: 'funds_transfer',
+          interaction_count: 1,
+          confidence_score: 0.9,
+          first_interaction: null,
+          last_interaction: null,
+          metadata: { kind: 'direct' }
+        });
+      }
+    }
+
+    return edges;
+  }
+
+  // ============ Funding Lookups ============
+
+  /**
+   * Look up funding for wallets with no or stale funding info. Wallets that
+   * already have trade edges go first, then by trader score, since those
+   * are the ones a fake network would be propping up.
+   */
+  private async refreshFunding(wallets: Map<string, TrackedWallet>, tradeEdges: Edge[]): Promise<number> {
+    if (!this.transfers.enabled || this.config.maxFundingLookups <= 0) {
+      console.log('   Skipping funding lookups (no HELIUS_API_KEY or lookups disabled)');
+      return 0;
+    }
+
+    const staleBefore = Date.now() - this.config.fundingRecheckDays * 24 * 60 * 60 * 1000;
+    const connected = new Set(tradeEdges.flatMap(edge => [edge.wallet_a, edge.wallet_b]));
+    const candidates = Array.from(wallets.values())
+      .filter(wallet => !wallet.funding || new Date(wallet.funding.checked_at).getTime() < staleBefore)
+      .sort((a, b) =>
+        Number(connected.has(b.address)) - Number(connected.has(a.address)) || b.traderScore - a.traderScore
+      )
+      .slice(0, this.config.maxFundingLookups);
+
+    let lookups = 0;
+    for (const wallet of candidates) {
+      try {
+        wallet.funding = await this.transfers.fetchFunding(wallet.address);
+        await this.pool.query(
+          `UPDATE wallet_traders SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('funding', $2::jsonb)
+           WHERE wallet_address = $1`,
+          [wallet.address, JSON.stringify(wallet.funding)]
+        );
+        lookups++;
+      } catch (error) {
+        console.warn(`   ⚠️  Funding lookup failed for ${wallet.address}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`   Looked up funding for ${lookups}/${candidates.length} wallets`);
+    return lookups;
+  }
+
+  // ============ Cluster Assessment ============
+
+  private assessClusters(
+    communities: string[][],
+    edges: Edge[],
+    graph: WalletGraph,
+    wallets: Map<string, TrackedWallet>
+  ): DetectedCluster[] {
+    const communityOf = new Map<string, number>();
+    communities.forEach((members, i) => members.forEach(member => communityOf.set(member, i)));
+
+    // Evidence weight and confidence per community, split by relationship type
+    const evidence = communities.map(() => ({
+      byType: { funds_transfer: 0, same_tx_pattern: 0, timing_correlation: 0, same_creator: 0 } as Record<RelationshipType, number>,
+      weight: 0,
+      weightedConfidence: 0
+    }));
+    for (const edge of edges) {
+      const community = communityOf.get(edge.wallet_a);
+      if (community === undefined || community !== communityOf.get(edge.wallet_b)) continue;
+      const weight = edge.confidence_score * EDGE_WEIGHTS[edge.relationship_type];
+      evidence[community].byType[edge.relationship_type] += weight;
+      evidence[community].weight += weight;
+      evidence[community].weightedConfidence += weight * edge.confidence_score;
+    }
+
+    const taken = new Set<string>();
+    const clusters: DetectedCluster[] = [];
+
+    communities.forEach((members, i) => {
+      const tracked = members.filter(member => wallets.has(member));
+      if (tracked.length < this.config.minClusterSize || evidence[i].weight === 0) return;
+
+      // Share of the members' edge weight that stays inside the cluster
+      const totalDegree = members.reduce((sum, member) => sum + graph.weightedDegree(member), 0);
+      const cohesion = totalDegree > 0 ? (2 * evidence[i].weight) / totalDegree : 0;
+      const confidence = (evidence[i].weightedConfidence / evidence[i].weight) * cohesion;
+
+      const shares = Object.fromEntries(
+        Object.entries(evidence[i].byType).map(([type, weight]) => [type, weight / evidence[i].weight])
+      ) as Record<RelationshipType, number>;
+      const clusterType: WalletCluster['cluster_type'] =
+        shares.funds_transfer >= 0.5 ? 'family'
+        : shares.same_tx_pattern >= 0.5 ? 'bot_network'
+        : shares.timing_correlation >= 0.5 ? 'trading_group'
+        : 'unknown';
+
+      const methods = (Object.keys(shares) as RelationshipType[]).filter(type => shares[type] > 0);
+      const typeFactor = clusterType === 'family' || clusterType === 'bot_network' ? 1
+        : clusterType === 'trading_group' ? 0.7
+        : 0.5;
+      const riskScore = Math.min(1, confidence * typeFactor + (methods.length >= 2 ? 0.1 : 0));
+
+      const external = members.filter(member => !wallets.has(member));
+      const primary = [...external, ...tracked]
+        .sort((a, b) => graph.weightedDegree(b) - graph.weightedDegree(a))[0];
+
+      const clusterId = this.reuseClusterId(tracked, wallets, taken);
+      taken.add(clusterId);
+
+      clusters.push({
+        cluster: {
+          cluster_id: clusterId,
+          cluster_type: clusterType,
+          wallet_count: tracked.length,
+          primary_wallet: primary,
+          risk_score: round2(riskScore),
+          detection_method: `louvain:${methods.join('+')}`,
+          detection_confidence: round2(confidence),
+          combined_pnl_sol: tracked.reduce((sum, w) => sum + wallets.get(w)!.pnlSol, 0),
+          combined_score: tracked.reduce((sum, w) => sum + wallets.get(w)!.traderScore, 0) / tracked.length,
+          metadata: {
+            evidence: Object.fromEntries(methods.map(type => [type, Number(shares[type].toFixed(3))])),
+            cohesion: Number(cohesion.toFixed(3)),
+            external_wallets: external.slice(0, 50)
+          }
+        },
+        wallets: tracked,
+        externalWallets: external,
+        isSybil: riskScore >= this.config.sybilRiskThreshold
+      });
+    });
+
+    return clusters.sort((a, b) => b.cluster.risk_score - a.cluster.risk_score);
+  }
+
+  /**
+   * Keep a cluster's id when most of its wallets already share one, so ids
+   * stay stable across runs as clusters gain or lose members
+   */
+  private reuseClusterId(members: string[], wallets: Map<string, TrackedWallet>, taken: Set<string>): string {
+    const counts = new Map<string, number>();
+    for (const member of members) {
+      const id = wallets.get(member)?.clusterId;
+      if (id) counts.set(id, (counts.get(id) || 0) + 1);
+    }
+    const [bestId, bestCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || [null, 0];
+    return bestId && bestCount * 2 > members.length && !taken.has(bestId) ? bestId : randomUUID();
+  }
+
+  // ============ Persistence ============
+
+  /**
+   * Store edges and replace cluster assignments in one transaction.
+   * Returns the number of wallets that lost a previous Sybil flag.
+   */
+  private async persist(edges: Edge[], clusters: DetectedCluster[]): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.saveRelationships(client, edges);
+
+      const clusterIds = clusters.map(c => c.cluster.cluster_id);
+      await client.query('DELETE FROM wallet_clusters WHERE NOT (cluster_id = ANY($1::varchar[]))', [clusterIds]);
+      for (const { cluster } of clusters) {
+        await client.query(`
+          INSERT INTO wallet_clusters (
+            cluster_id, cluster_type, wallet_count, primary_wallet, risk_score,
+            detection_method, detection_confidence, combined_pnl_sol, combined_score, metadata
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          ON CONFLICT (cluster_id) DO UPDATE SET
+            cluster_type = EXCLUDED.cluster_type,
+            wallet_count = EXCLUDED.wallet_count,
+            primary_wallet = EXCLUDED.primary_wallet,
+            risk_score = EXCLUDED.risk_score,
+            detection_method = EXCLUDED.detection_method,
+            detection_confidence = EXCLUDED.detection_confidence,
+            combined_pnl_sol = EXCLUDED.combined_pnl_sol,
+            combined_score = EXCLUDED.combined_score,
+            metadata = EXCLUDED.metadata`,
+          [
+            cluster.cluster_id, cluster.cluster_type, cluster.wallet_count, cluster.primary_wallet,
+            cluster.risk_score, cluster.detection_method, cluster.detection_confidence,
+            cluster.combined_pnl_sol, cluster.combined_score, JSON.stringify(cluster.metadata)
+          ]
+        );
+      }
+
+      const members = clusters.flatMap(c => c.wallets.map(wallet => ({
+        wallet,
+        clusterId: c.cluster.cluster_id,
+        confidence: c.cluster.detection_confidence
+      })));
+      await client.query(`
+        UPDATE wallet_traders SET cluster_id = NULL, cluster_confidence = NULL
+        WHERE cluster_id IS NOT NULL AND NOT (wallet_address = ANY($1::varchar[]))`,
+        [members.map(m => m.wallet)]
+      );
+      await client.query(`
+        UPDATE wallet_traders w SET cluster_id = m.cluster_id, cluster_confidence = m.confidence
+        FROM unnest($1::varchar[], $2::varchar[], $3::numeric[]) AS m(wallet_address, cluster_id, confidence)
+        WHERE w.wallet_address = m.wallet_address`,
+        [members.map(m => m.wallet), members.map(m => m.clusterId), members.map(m => m.confidence)]
+      );
+
+      const cleared = await this.updateSybilFlags(client, clusters.filter(c => c.isSybil));
+      await client.query('COMMIT');
+      return cleared;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async saveRelationships(client: PoolClient, edges: Edge[]): Promise<void> {
+    const BATCH_SIZE = 1000;
+    for (let i = 0; i < edges.length; i += BATCH_SIZE) {
+      const batch = edges.slice(i, i + BATCH_SIZE);
+      await client.query(`
+        INSERT INTO wallet_relationships (
+          wallet_a, wallet_b, relationship_type, interaction_count, confidence_score,
+          first_interaction, last_interaction, metadata
+        )
+        SELECT * FROM unnest(
+          $1::varchar[], $2::varchar[], $3::varchar[], $4::int[], $5::numeric[],
+          $6::timestamp[], $7::timestamp[], $8::jsonb[]
+        )
+        ON CONFLICT (wallet_a, wallet_b, relationship_type) DO UPDATE SET
+          interaction_count = EXCLUDED.interaction_count,
+          confidence_score = EXCLUDED.confidence_score,
+          first_interaction = LEAST(wallet_relationships.first_interaction, EXCLUDED.first_interaction),
+          last_interaction = GREATEST(wallet_relationships.last_interaction, EXCLUDED.last_interaction),
+          metadata = EXCLUDED.metadata`,
+        [
+          batch.map(e => e.wallet_a),
+          batch.map(e => e.wallet_b),
+          batch.map(e => e.relationship_type),
+          batch.map(e => e.interaction_count),
+          batch.map(e => round2(e.confidence_score)),
+          batch.map(e => e.first_interaction),
+          batch.map(e => e.last_interaction),
+          batch.map(e => JSON.stringify(e.metadata))
+        ]
+      );
+    }
+  }
+
+  /**
+   * Flag members of Sybil clusters and lift flags this job set earlier on
+   * wallets that no longer qualify. Dev wallets keep their type.
+   */
+  private async updateSybilFlags(client: PoolClient, sybilClusters: DetectedCluster[]): Promise<number> {
+    const wallets = sybilClusters.flatMap(c => c.wallets);
+    const clusterIds = sybilClusters.flatMap(c => c.wallets.map(() => c.cluster.cluster_id));
+    const risks = sybilClusters.flatMap(c => c.wallets.map(() => c.cluster.risk_score));
+
+    await client.query(`
+      UPDATE wallet_traders w SET
+        suspicious_activity_count = w.suspicious_activity_count + CASE WHEN w.wallet_type = 'sybil' THEN 0 ELSE 1 END,
+        wallet_type = 'sybil',
+        last_audit_at = NOW(),
+        audit_notes = COALESCE(w.audit_notes, '{}'::jsonb) || jsonb_build_object(
+          'sybil', jsonb_build_object('cluster_id', m.cluster_id, 'risk_score', m.risk, 'flagged_at', NOW())
+        )
+      FROM unnest($1::varchar[], $2::varchar[], $3::numeric[]) AS m(wallet_address, cluster_id, risk)
+      WHERE w.wallet_address = m.wallet_address AND w.wallet_type <> 'dev'`,
+      [wallets, clusterIds, risks]
+    );
+
+    const cleared = await client.query(`
+      UPDATE wallet_traders SET
+        wallet_type = 'normal',
+        last_audit_at = NOW(),
+        audit_notes = audit_notes - 'sybil'
+      WHERE wallet_type = 'sybil'
+        AND audit_notes ? 'sybil'
+        AND NOT (wallet_address = ANY($1::varchar[]))`,
+      [wallets]
+    );
+    return cleared.rowCount || 0;
+  }
+}
+
+/**
+ * One edge per pair and type with wallet_a < wallet_b, keeping the most
+ * confident. A funder that is itself tracked shows up both as first funder
+ * and as a direct counterparty.
+ */
+function dedupeEdges(edges: Edge[]): Edge[] {
+  const unique = new Map<string, Edge>();
+  for (const edge of edges) {
+    const [a, b] = edge.wallet_a < edge.wallet_b ? [edge.wallet_a, edge.wallet_b] : [edge.wallet_b, edge.wallet_a];
+    const key = `${a}|${b}|${edge.relationship_type}`;
+    const existing = unique.get(key);
+    if (!existing || edge.confidence_score > existing.confidence_score) {
+      unique.set(key, { ...edge, wallet_a: a, wallet_b: b });
+    }
+  }
+  return Array.from(unique.values());
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export singleton instance
+export const sybilDetector = new SybilDetector();
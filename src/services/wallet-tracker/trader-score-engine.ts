@@ -0,0 +1,249 @@
+import { Pool } from 'pg';
+import { DatabaseConnection } from '../../database/connection';
+import { walletTrackerService } from './wallet-tracker-service';
+import { computeTraderScore } from './trader-score';
+import { ScoredPosition, TraderScoreInput, TraderScoreResult } from './types';
+
+export interface ScoringRunOptions {
+  dryRun?: boolean;
+  wallets?: string[];     // Limit the run to these wallets
+}
+
+export interface ScoringRunResult {
+  scored: number;
+  smartMoney: number;
+  results: TraderScoreResult[];
+}
+
+const BATCH_SIZE = 200;
+const VOLUME_WEEKS = 12;
+const SMART_MONEY_SCORE = 700;
+
+/**
+ * Loads positions and trades for tracked wallets, scores them with
+ * computeTraderScore and stores the result on wallet_traders along with a
+ * wallet_scores_history row per run.
+ */
+export class TraderScoreEngine {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = DatabaseConnection.getPool();
+  }
+
+  async scoreWallet(walletAddress: string, dryRun: boolean = false): Promise<TraderScoreResult | null> {
+    const { results } = await this.run({ wallets: [walletAddress], dryRun });
+    return results[0] || null;
+  }
+
+  /**
+   * Score every wallet with at least one position, in batches
+   */
+  async run(options: ScoringRunOptions = {}): Promise<ScoringRunResult> {
+    const now = new Date();
+    const marketWinRates = await this.loadMarketWinRates();
+    const results: TraderScoreResult[] = [];
+    let smartMoney = 0;
+
+    let addresses = options.wallets || await this.nextBatch('');
+    while (addresses.length > 0) {
+      const inputs = await this.loadInputs(addresses, marketWinRates);
+      for (const input of inputs) {
+        const result = computeTraderScore(input, now);
+        results.push(result);
+        if (result.trader_score >= SMART_MONEY_SCORE) smartMoney++;
+        if (!options.dryRun) await this.saveScore(result, now);
+      }
+
+      if (options.wallets) break;
+      addresses = await this.nextBatch(addresses[addresses.length - 1]);
+    }
+
+    results.sort((a, b) => b.trader_score - a.trader_score);
+    return { scored: results.length, smartMoney, results };
+  }
+
+  // ============ Loading ============
+
+  private async nextBatch(after: string): Promise<string[]> {
+    const result = await this.pool.query(
+      `SELECT w.wallet_address
+       FROM wallet_traders w
+       WHERE w.wallet_address > $1
+         AND EXISTS (SELECT 1 FROM wallet_positions p WHERE p.wallet_address = w.wallet_address)
+       ORDER BY w.wallet_address
+       LIMIT $2`,
+      [after, BATCH_SIZE]
+    );
+    return result.rows.map(row => row.wallet_address);
+  }
+
+  /**
+   * Share of closed positions that made money, by the day they were opened.
+   * Timing is judged against this rather than in absolute terms.
+   */
+  private async loadMarketWinRates(): Promise<Map<string, number>> {
+    const result = await this.pool.query(
+      `SELECT to_char(first_buy_at, 'YYYY-MM-DD') AS day,
+              AVG(CASE WHEN total_pnl_sol > 0 THEN 1 ELSE 0 END)::float AS win_rate
+       FROM wallet_positions
+       WHERE first_buy_at IS NOT NULL AND total_sold > 0 AND current_balance = 0
+       GROUP BY 1`
+    );
+    return new Map(result.rows.map(row => [row.day, Number(row.win_rate)]));
+  }
+
+  private async loadInputs(addresses: string[], marketWinRates: Map<string, number>): Promise<TraderScoreInput[]> {
+    const [wallets, positions, volumes] = await Promise.all([
+      this.pool.query(
+        `SELECT wallet_address, wallet_type, cluster_id, cluster_confidence, reputation_score,
+                suspicious_activity_count, first_seen_at, last_activity_at, total_pnl_usd
+         FROM wallet_traders
+         WHERE wallet_address = ANY($1)`,
+        [addresses]
+      ),
+      this.pool.query(
+        `WITH trade_totals AS (
+           SELECT wallet_address, token_mint,
+                  SUM(CASE WHEN trade_type = 'buy' THEN sol_value ELSE 0 END) AS cost_sol,
+                  SUM(CASE WHEN trade_type = 'sell' THEN amount * price_usd ELSE -amount * price_usd END) AS pnl_usd,
+                  BOOL_AND(price_usd IS NOT NULL) AS has_usd
+           FROM wallet_trades
+           WHERE wallet_address = ANY($1)
+           GROUP BY wallet_address, token_mint
+         ),
+         peaks AS (
+           SELECT token_mint, MAX(price_sol) AS peak_price
+           FROM wallet_trades
+           WHERE token_mint IN (SELECT token_mint FROM wallet_positions WHERE wallet_address = ANY($1))
+           GROUP BY token_mint
+         )
+         SELECT p.wallet_address, p.token_mint, p.avg_buy_price, p.avg_sell_price, p.total_pnl_sol,
+                p.first_buy_at, p.last_sell_at,
+                (p.total_sold > 0 AND p.current_balance = 0) AS is_closed,
+                (p.is_graduated OR COALESCE(t.is_graduated, FALSE)) AS is_graduated,
+                EXTRACT(EPOCH FROM (p.first_buy_at - t.creation_timestamp)) AS entry_delay_seconds,
+                COALESCE(tt.cost_sol, p.total_bought * COALESCE(p.avg_buy_price, 0)) AS cost_sol,
+                CASE WHEN tt.has_usd AND p.current_balance = 0 THEN tt.pnl_usd END AS pnl_usd,
+                pk.peak_price,
+                EXISTS (
+                  SELECT 1
+                  FROM wallet_positions p2
+                  JOIN wallet_traders w2 ON w2.wallet_address = p2.wallet_address
+                  WHERE p2.token_mint = p.token_mint
+                    AND p2.wallet_address <> p.wallet_address
+                    AND w2.cluster_id = w.cluster_id
+                ) AS clustered
+         FROM wallet_positions p
+         JOIN wallet_traders w ON w.wallet_address = p.wallet_address
+         LEFT JOIN tokens t ON t.mint_address = p.token_mint
+         LEFT JOIN trade_totals tt ON tt.wallet_address = p.wallet_address AND tt.token_mint = p.token_mint
+         LEFT JOIN peaks pk ON pk.token_mint = p.token_mint
+         WHERE p.wallet_address = ANY($1)`,
+        [addresses]
+      ),
+      this.pool.query(
+        `SELECT wallet_address,
+                FLOOR(EXTRACT(EPOCH FROM (NOW() - block_time)) / 604800)::int AS weeks_ago,
+                SUM(sol_value) AS volume,
+                MAX(block_time) AS last_trade_at
+         FROM wallet_trades
+         WHERE wallet_address = ANY($1)
+         GROUP BY 1, 2`,
+        [addresses]
+      )
+    ]);
+
+    const positionsByWallet = new Map<string, ScoredPosition[]>();
+    for (const row of positions.rows) {
+      const firstBuyAt = row.first_buy_at ? new Date(row.first_buy_at) : null;
+      const delay = row.entry_delay_seconds === null ? null : Number(row.entry_delay_seconds);
+      const position: ScoredPosition = {
+        token_mint: row.token_mint,
+        cost_sol: Number(row.cost_sol) || 0,
+        pnl_sol: Number(row.total_pnl_sol) || 0,
+        pnl_usd: row.pnl_usd === null ? null : Number(row.pnl_usd),
+        avg_buy_price: row.avg_buy_price === null ? null : Number(row.avg_buy_price),
+        avg_sell_price: row.avg_sell_price === null ? null : Number(row.avg_sell_price),
+        peak_price: row.peak_price === null ? null : Number(row.peak_price),
+        is_closed: row.is_closed,
+        is_graduated: row.is_graduated,
+        first_buy_at: firstBuyAt,
+        last_sell_at: row.last_sell_at ? new Date(row.last_sell_at) : null,
+        // Negative delays mean the token row's creation time is wrong
+        entry_delay_seconds: delay !== null && delay >= 0 ? delay : null,
+        clustered: row.clustered,
+        market_win_rate: firstBuyAt ? marketWinRates.get(firstBuyAt.toISOString().slice(0, 10)) ?? null : null
+      };
+      const list = positionsByWallet.get(row.wallet_address) || [];
+      list.push(position);
+      positionsByWallet.set(row.wallet_address, list);
+    }
+
+    const weeklyByWallet = new Map<string, number[]>();
+    const lastTradeByWallet = new Map<string, Date>();
+    for (const row of volumes.rows) {
+      const weeks = weeklyByWallet.get(row.wallet_address) || new Array(VOLUME_WEEKS).fill(0);
+      const weeksAgo = Number(row.weeks_ago);
+      if (weeksAgo >= 0 && weeksAgo < VOLUME_WEEKS) {
+        weeks[VOLUME_WEEKS - 1 - weeksAgo] += Number(row.volume) || 0;
+      }
+      weeklyByWallet.set(row.wallet_address, weeks);
+
+      const lastTrade = new Date(row.last_trade_at);
+      const previous = lastTradeByWallet.get(row.wallet_address);
+      if (!previous || lastTrade > previous) lastTradeByWallet.set(row.wallet_address, lastTrade);
+    }
+
+    return wallets.rows.map(wallet => ({
+      wallet,
+      positions: positionsByWallet.get(wallet.wallet_address) || [],
+      weeklyVolumeSol: weeklyByWallet.get(wallet.wallet_address) || new Array(VOLUME_WEEKS).fill(0),
+      lastTradeAt: lastTradeByWallet.get(wallet.wallet_address) || null
+    }));
+  }
+
+  // ============ Saving ============
+
+  private async saveScore(result: TraderScoreResult, now: Date): Promise<void> {
+    const { adjustments } = result.components;
+    await this.pool.query(
+      `UPDATE wallet_traders SET
+         trader_score = $2,
+         score_updated_at = $3,
+         score_decay_factor = $4,
+         days_inactive = $5,
+         win_rate = $6,
+         avg_return_multiple = $7,
+         total_pnl_sol = $8,
+         updated_at = NOW()
+       WHERE wallet_address = $1`,
+      [
+        result.wallet_address,
+        result.trader_score,
+        now,
+        adjustments.decay_factor,
+        adjustments.days_inactive,
+        result.win_rate,
+        Math.min(result.avg_return_multiple, 99999999),
+        result.total_pnl_sol
+      ]
+    );
+
+    await walletTrackerService.saveScoreHistory({
+      wallet_address: result.wallet_address,
+      score_timestamp: now,
+      trader_score: result.trader_score,
+      components: result.components,
+      graduated_tokens_count: result.graduated_positions,
+      total_pnl_sol: result.total_pnl_sol,
+      win_rate: result.win_rate,
+      avg_multiplier: Math.min(result.avg_return_multiple, 99999999),
+      consistency_score: result.components.consistency.score,
+      timing_score: result.components.timing.score
+    });
+  }
+}
+
+// Export singleton instance
+export const traderScoreEngine = new TraderScoreEngine();
@@ -0,0 +1,261 @@
+import { ScoreComponents, ScoredPosition, TraderScoreInput, TraderScoreResult } from './types';
+
+/**
+ * The 1000-point trader score from docs/wallet-tracker/WALLET_TRACKER.md
+ * section 3. Everything here is pure so scores can be reproduced from the
+ * inputs stored alongside them.
+ *
+ *   Profitability  600  (cluster penalty and reputation applied)
+ *   Consistency    200
+ *   Timing         150
+ *   Activity        50
+ *
+ * The sum is multiplied by the inactivity decay factor.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Progressive decay by days since the last trade (section 3.2)
+ */
+export function calculateDecayFactor(daysInactive: number): number {
+  if (daysInactive <= 7) return 1.0;
+  if (daysInactive <= 14) return 0.95;
+  if (daysInactive <= 30) return 0.85;
+  if (daysInactive <= 60) return 0.70;
+  if (daysInactive <= 90) return 0.50;
+  return 0.30;
+}
+
+export function computeTraderScore(input: TraderScoreInput, now: Date = new Date()): TraderScoreResult {
+  const closed = input.positions.filter(p => p.is_closed);
+  const wins = closed.filter(p => p.pnl_sol > 0);
+  const winRate = closed.length > 0 ? wins.length / closed.length : 0;
+  const multiples = closed
+    .filter(p => p.avg_buy_price && p.avg_sell_price)
+    .map(p => p.avg_sell_price! / p.avg_buy_price!);
+  const avgMultiple = multiples.length > 0 ? mean(multiples) : 1;
+
+  const { profitability, clusterPenalty, reputationMultiplier } = scoreProfitability(input, closed, avgMultiple);
+  const consistency = scoreConsistency(input, closed, winRate);
+  const timing = scoreTiming(input.positions, closed);
+  const activity = scoreActivity(input, now);
+
+  const lastTrade = input.lastTradeAt || input.wallet.last_activity_at;
+  const daysInactive = lastTrade ? Math.max(0, Math.floor((now.getTime() - new Date(lastTrade).getTime()) / DAY_MS)) : 0;
+  const decayFactor = calculateDecayFactor(daysInactive);
+  const rawScore = profitability.score + consistency.score + timing.score + activity.score;
+
+  const components: ScoreComponents = {
+    profitability,
+    consistency,
+    timing,
+    activity,
+    adjustments: {
+      cluster_penalty: round2(clusterPenalty),
+      reputation_multiplier: round2(reputationMultiplier),
+      decay_factor: decayFactor,
+      days_inactive: daysInactive,
+      raw_score: round2(rawScore)
+    }
+  };
+
+  return {
+    wallet_address: input.wallet.wallet_address,
+    trader_score: round2(clamp(rawScore * decayFactor, 0, 1000)),
+    components,
+    win_rate: round2(winRate * 100),
+    avg_return_multiple: round2(avgMultiple),
+    closed_positions: closed.length,
+    graduated_positions: input.positions.filter(p => p.is_graduated).length,
+    total_pnl_sol: input.positions.reduce((sum, p) => sum + p.pnl_sol, 0)
+  };
+}
+
+// ============ A. Verified Profitability (600) ============
+
+function scoreProfitability(
+  input: TraderScoreInput,
+  closed: ScoredPosition[],
+  avgMultiple: number
+): { profitability: ScoreComponents['profitability']; clusterPenalty: number; reputationMultiplier: number } {
+  const positions = input.positions;
+  const totalPnl = positions.reduce((sum, p) => sum + p.pnl_sol, 0);
+
+  // USD from trade prices where known, else the stored total
+  const usdPositions = positions.filter(p => p.pnl_usd !== null);
+  const totalPnlUsd = usdPositions.length > 0
+    ? usdPositions.reduce((sum, p) => sum + p.pnl_usd!, 0)
+    : Number(input.wallet.total_pnl_usd) || 0;
+
+  // 999 SOL, $100k and a 5x average return reach full points
+  const totalPnlPoints = 200 * logScale(totalPnl, 3);
+  const totalPnlUsdPoints = 150 * logScale(totalPnlUsd, 5);
+  const avgReturnPoints = 50 * clamp((avgMultiple - 1) / 4, 0, 1);
+
+  // Profit made on tokens no other cluster member touched
+  const grossProfit = positions.filter(p => p.pnl_sol > 0).reduce((sum, p) => sum + p.pnl_sol, 0);
+  const organicProfit = positions.filter(p => p.pnl_sol > 0 && !p.clustered).reduce((sum, p) => sum + p.pnl_sol, 0);
+  const organicPoints = grossProfit > 0 ? 100 * organicProfit / grossProfit : 0;
+
+  // Share of active months that closed in profit, needing three months for full credit
+  const months = new Map<string, number>();
+  for (const position of closed) {
+    const at = position.last_sell_at || position.first_buy_at;
+    if (!at) continue;
+    const month = new Date(at).toISOString().slice(0, 7);
+    months.set(month, (months.get(month) || 0) + position.pnl_sol);
+  }
+  const profitableMonths = Array.from(months.values()).filter(pnl => pnl > 0).length;
+  const sustainedPoints = months.size > 0
+    ? 50 * (profitableMonths / months.size) * Math.min(1, months.size / 3)
+    : 0;
+
+  const bestOrganic = positions.filter(p => !p.clustered).reduce((best, p) => Math.max(best, p.pnl_sol), 0);
+  const bestTradePoints = 50 * logScale(bestOrganic, 2);
+
+  const base = totalPnlPoints + totalPnlUsdPoints + avgReturnPoints + organicPoints + sustainedPoints + bestTradePoints;
+  const clusterPenalty = input.wallet.cluster_id
+    ? Math.max(0.3, 1 - (Number(input.wallet.cluster_confidence) || 0))
+    : 1;
+  const reputationMultiplier = 0.5 + (Number(input.wallet.reputation_score) || 0) / 100;
+
+  return {
+    profitability: {
+      total_pnl: round2(totalPnlPoints),
+      total_pnl_usd: round2(totalPnlUsdPoints),
+      avg_return: round2(avgReturnPoints),
+      organic_profit: round2(organicPoints),
+      sustained_profit: round2(sustainedPoints),
+      best_trade: round2(bestTradePoints),
+      score: round2(Math.min(600, base * clusterPenalty * reputationMultiplier))
+    },
+    clusterPenalty,
+    reputationMultiplier
+  };
+}
+
+// ============ B. Consistency & Legitimacy (200) ============
+
+function scoreConsistency(input: TraderScoreInput, closed: ScoredPosition[], winRate: number): ScoreComponents['consistency'] {
+  // Win rate only counts fully once there are ten closed positions
+  const winRatePoints = 50 * winRate * Math.min(1, closed.length / 10);
+
+  // Steady returns beat a few lucky ones: penalise spread in per-position returns
+  const returns = closed.filter(p => p.cost_sol > 0).map(p => p.pnl_sol / p.cost_sol);
+  let consistencyPoints = 0;
+  if (returns.length >= 3) {
+    const spread = stdDev(returns);
+    consistencyPoints = 50 * (mean(returns) > 0 ? 1 : 0.5) / (1 + spread);
+  }
+
+  // 30% of positions in tokens that went on to graduate is full marks
+  const graduated = input.positions.filter(p => p.is_graduated).length;
+  const hitRate = input.positions.length > 0 ? graduated / input.positions.length : 0;
+  const graduationPoints = 50 * Math.min(1, hitRate / 0.3) * Math.min(1, input.positions.length / 5);
+
+  const typeBase: Record<string, number> = { normal: 50, whale: 50, influencer: 50, dev: 25, bot: 0, sybil: 0 };
+  const legitimacyPoints = Math.max(
+    0,
+    (typeBase[input.wallet.wallet_type] ?? 50) - 10 * (Number(input.wallet.suspicious_activity_count) || 0)
+  );
+
+  return {
+    win_rate: round2(winRatePoints),
+    profit_consistency: round2(consistencyPoints),
+    graduation_hit_rate: round2(graduationPoints),
+    behavior_legitimacy: round2(legitimacyPoints),
+    score: round2(winRatePoints + consistencyPoints + graduationPoints + legitimacyPoints)
+  };
+}
+
+// ============ C. Smart Timing & Execution (150) ============
+
+function scoreTiming(positions: ScoredPosition[], closed: ScoredPosition[]): ScoreComponents['timing'] {
+  // Early but human: buys within seconds of creation are sniper bots
+  const entryQuality = (delay: number) =>
+    delay < 5 ? 0.2
+    : delay <= 30 * 60 ? 1.0
+    : delay <= 2 * 60 * 60 ? 0.7
+    : 0.4;
+  const entries = positions
+    .filter(p => p.is_graduated && p.entry_delay_seconds !== null)
+    .map(p => entryQuality(p.entry_delay_seconds!));
+  const earlyEntryPoints = entries.length > 0 ? 50 * mean(entries) : 0;
+
+  // How close sells came to the best price anyone tracked traded at
+  const exits = closed
+    .filter(p => p.avg_sell_price && p.peak_price)
+    .map(p => clamp(p.avg_sell_price! / p.peak_price!, 0, 1));
+  const exitPoints = exits.length > 0 ? 50 * mean(exits) : 0;
+
+  // Beating the day's market: own wins against everyone's win rate that day
+  const edges = closed
+    .filter(p => p.market_win_rate !== null)
+    .map(p => (p.pnl_sol > 0 ? 1 : 0) - p.market_win_rate!);
+  const marketPoints = edges.length > 0 ? 50 * clamp(0.5 + mean(edges), 0, 1) : 0;
+
+  return {
+    early_entry: round2(earlyEntryPoints),
+    exit_efficiency: round2(exitPoints),
+    market_timing: round2(marketPoints),
+    score: round2(earlyEntryPoints + exitPoints + marketPoints)
+  };
+}
+
+// ============ D. Sustainable Activity (50) ============
+
+function scoreActivity(input: TraderScoreInput, now: Date): ScoreComponents['activity'] {
+  // Steady volume: active weeks, less whatever one week dominates beyond half
+  const weeks = input.weeklyVolumeSol;
+  const totalVolume = weeks.reduce((sum, v) => sum + v, 0);
+  const activeWeeks = weeks.filter(v => v > 0).length;
+  const topShare = totalVolume > 0 ? weeks.reduce((max, v) => Math.max(max, v), 0) / totalVolume : 1;
+  const volumePoints = totalVolume > 0
+    ? 20 * Math.min(1, activeWeeks / 8) * (1 - Math.max(0, topShare - 0.5))
+    : 0;
+
+  // Many tokens, none carrying most of the capital
+  const costs = input.positions.map(p => p.cost_sol);
+  const totalCost = costs.reduce((sum, c) => sum + c, 0);
+  const topPosition = totalCost > 0 ? costs.reduce((max, c) => Math.max(max, c), 0) / totalCost : 1;
+  const diversificationPoints = input.positions.length > 0
+    ? 20 * Math.min(1, input.positions.length / 20) * (1 - Math.max(0, topPosition - 0.5))
+    : 0;
+
+  const firstSeen = input.wallet.first_seen_at ? new Date(input.wallet.first_seen_at).getTime() : now.getTime();
+  const lastActive = new Date(input.lastTradeAt || input.wallet.last_activity_at || now).getTime();
+  const longevityPoints = 10 * clamp((lastActive - firstSeen) / (90 * DAY_MS), 0, 1);
+
+  return {
+    volume: round2(volumePoints),
+    diversification: round2(diversificationPoints),
+    longevity: round2(longevityPoints),
+    score: round2(volumePoints + diversificationPoints + longevityPoints)
+  };
+}
+
+// ============ Helpers ============
+
+// log10(1 + x) / decades, clamped to 0..1; `decades` orders of magnitude reach 1
+function logScale(value: number, decades: number): number {
+  if (value <= 0) return 0;
+  return Math.min(1, Math.log10(1 + value) / decades);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
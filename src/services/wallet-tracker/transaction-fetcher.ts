@@ -1,21 +1,27 @@
 import { Pool } from 'pg';
 import { DatabaseConnection } from '../../database/connection';
-import { TransactionData, WalletTrade } from './types';
+import { TransactionData, WalletTokenTransfer, WalletTrade } from './types';
 import { Connection, PublicKey } from '@solana/web3.js';
 import axios from 'axios';
+import { HeliusEndpoints, heliusApiUrl } from '../../config/helius';
+import { EnhancedTransferClient } from './enhanced-transfers';
 
 export class TransactionFetcher {
   private pool: Pool;
   private connection: Connection;
   private heliusApiKey: string | undefined;
+  private heliusApiUrl: string;
+  private transfers: EnhancedTransferClient;
   private readonly BATCH_SIZE = 100;
   
-  constructor() {
+  constructor(endpoints: HeliusEndpoints = {}) {
     this.pool = DatabaseConnection.getPool();
     this.connection = new Connection(
-      process.env.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com'
+      endpoints.rpcUrl || process.env.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com'
     );
     this.heliusApiKey = process.env.HELIUS_API_KEY;
+    this.heliusApiUrl = heliusApiUrl(endpoints);
+    this.transfers = new EnhancedTransferClient(endpoints);
   }
 
   /**
@@ -120,7 +126,7 @@ export class TransactionFetcher {
     
     try {
       const response = await axios.post(
-        `https://api.helius.xyz/v0/addresses/${tokenMint}/transactions`,
+        `${this.heliusApiUrl}/v0/addresses/${tokenMint}/transactions`,
         {
           limit: 1000,
           before: beforeTimestamp?.toISOString()
@@ -150,6 +156,52 @@ export class TransactionFetcher {
     }
   }
 
+  /**
+   * Whether wallet transfers can be looked up (needs HELIUS_API_KEY)
+   */
+  get canFetchTransfers(): boolean {
+    return this.transfers.enabled;
+  }
+
+  /**
+   * Token transfers in and out of a wallet among its latest 100 transfers,
+   * from Helius enhanced transactions (100 credits). Swaps are not of type
+   * TRANSFER, so trades are not counted twice. Several transfers of one
+   * mint in the same direction in one transaction are added up, as the
+   * table keeps one row per transaction, mint and direction.
+   */
+  async fetchWalletTransfers(walletAddress: string): Promise<WalletTokenTransfer[]> {
+    const transactions = await this.transfers.fetchTransfers(walletAddress);
+    const transfers = new Map<string, WalletTokenTransfer>();
+
+    for (const tx of transactions) {
+      for (const transfer of tx.tokenTransfers || []) {
+        const incoming = transfer.toUserAccount === walletAddress;
+        const outgoing = transfer.fromUserAccount === walletAddress;
+        if (incoming === outgoing || !transfer.mint || !(transfer.tokenAmount > 0)) continue;
+
+        const direction = incoming ? 'in' : 'out';
+        const key = `${tx.signature}:${transfer.mint}:${direction}`;
+        const existing = transfers.get(key);
+        if (existing) {
+          existing.amount += transfer.tokenAmount;
+          continue;
+        }
+        transfers.set(key, {
+          wallet_address: walletAddress,
+          token_mint: transfer.mint,
+          direction,
+          amount: transfer.tokenAmount,
+          counterparty: (incoming ? transfer.fromUserAccount : transfer.toUserAccount) || undefined,
+          transaction_hash: tx.signature,
+          block_time: new Date(tx.timestamp * 1000)
+        });
+      }
+    }
+
+    return Array.from(transfers.values());
+  }
+
   /**
    * Extract unique buyers from transactions
    */
@@ -89,9 +89,28 @@ export interface WalletPosition {
   is_graduated: boolean;
   graduation_entry_timing?: number;
   position_score: number;
+  cost_basis_sol?: number;
+  realized_pnl_usd?: number;
+  unrealized_pnl_usd?: number;
+  transferred_in?: number;
+  transferred_out?: number;
+  mark_price_sol?: number;
+  marked_at?: Date;
+  accounting_method?: CostMethod;
   updated_at?: Date;
 }
 
+export interface WalletTokenTransfer {
+  id?: number;
+  wallet_address: string;
+  token_mint: string;
+  direction: 'in' | 'out';
+  amount: number;
+  counterparty?: string;
+  transaction_hash: string;
+  block_time: Date;
+}
+
 export interface WalletScoreHistory {
   id?: number;
   wallet_address: string;
@@ -119,26 +138,42 @@ export interface TokenSmartMoneySignal {
   created_at?: Date;
 }
 
+// Points per sub-component; `score` is the category total after adjustments
 export interface ScoreComponents {
   profitability: {
-    total_pnl: number;
-    avg_return: number;
-    best_trade: number;
+    total_pnl: number;            // 200
+    total_pnl_usd: number;        // 150
+    avg_return: number;           // 50
+    organic_profit: number;       // 100
+    sustained_profit: number;     // 50
+    best_trade: number;           // 50
+    score: number;                // 600 max, after cluster and reputation adjustments
   };
   consistency: {
-    win_rate: number;
-    profit_consistency: number;
-    graduation_hit_rate: number;
+    win_rate: number;             // 50
+    profit_consistency: number;   // 50
+    graduation_hit_rate: number;  // 50
+    behavior_legitimacy: number;  // 50
+    score: number;
   };
   timing: {
-    early_entry: number;
-    exit_efficiency: number;
-    market_timing: number;
+    early_entry: number;          // 50
+    exit_efficiency: number;      // 50
+    market_timing: number;        // 50
+    score: number;
   };
   activity: {
-    volume: number;
-    diversification: number;
-    longevity: number;
+    volume: number;               // 20
+    diversification: number;      // 20
+    longevity: number;            // 10
+    score: number;
+  };
+  adjustments: {
+    cluster_penalty: number;
+    reputation_multiplier: number;
+    decay_factor: number;
+    days_inactive: number;
+    raw_score: number;            // Before inactivity decay
   };
 }
 
@@ -149,6 +184,18 @@ export interface TopTrader {
   entry_price?: number;
 }
 
+export interface SmartMoneyHolder {
+  wallet_address: string;
+  trader_score: number;
+  wallet_type: WalletTrader['wallet_type'];
+  cluster_id?: string;
+  current_balance: number;
+  cost_basis_sol?: number;
+  realized_pnl_sol: number;
+  unrealized_pnl_sol: number;
+  first_buy_at?: Date;
+}
+
 export interface GraduatedTokenData {
   mint_address: string;
   graduation_timestamp: Date;
@@ -203,6 +250,10 @@ export interface PnLCalculation {
   total_bought: number;
   total_sold: number;
   current_balance: number;
+  method?: CostMethod;
+  cost_basis?: number;
+  realized_pnl_usd?: number;
+  unrealized_pnl_usd?: number | null;
 }
 
 export interface WalletClassification {
@@ -215,4 +266,193 @@ export interface WalletClassification {
     volume_size?: number;
     timing_precision?: number;
   };
-}
\ No newline at end of file
+}
+export interface FundingInfo {
+  funder: string | null;          // Earliest incoming SOL transfer seen
+  amount_sol: number | null;
+  funded_at: string | null;
+  counterparties: string[];       // Other wallets this one sent SOL to or received SOL from
+  checked_at: string;
+}
+
+export interface ClusteringConfig {
+  lookbackDays: number;
+  timingWindowSeconds: number;    // First buys this close count as correlated
+  minSharedTokens: number;        // Correlated tokens needed for a timing edge
+  minTimingRatio: number;         // Correlated tokens / tokens traded by the less active wallet
+  minCoBuyTokens: number;         // Same-second co-buys needed for a co-buy edge
+  maxCrowdSize: number;           // Larger same-second groups are launch rushes, not coordination
+  maxFunderFanout: number;        // Funders of more tracked wallets are treated as exchanges
+  ignoredFunders: string[];
+  maxFundingLookups: number;      // Helius calls per run
+  fundingRecheckDays: number;
+  minClusterSize: number;
+  sybilRiskThreshold: number;
+  resolution: number;             // Louvain resolution; higher gives smaller communities
+}
+
+export interface DetectedCluster {
+  cluster: WalletCluster;
+  wallets: string[];              // Tracked wallets in the cluster
+  externalWallets: string[];      // Funders and other untracked members
+  isSybil: boolean;
+}
+
+export interface ClusteringResult {
+  relationships: Record<WalletRelationship['relationship_type'], number>;
+  fundingLookups: number;
+  communities: number;
+  clusters: DetectedCluster[];
+  sybilWallets: number;
+  clearedWallets: number;
+}
+
+/**
+ * A closed or open position as the trader score sees it, with the context
+ * joined in from trades and tokens
+ */
+export interface ScoredPosition {
+  token_mint: string;
+  cost_sol: number;               // SOL spent on buys
+  pnl_sol: number;
+  pnl_usd: number | null;         // Closed positions whose trades all carry a USD price
+  avg_buy_price: number | null;
+  avg_sell_price: number | null;
+  peak_price: number | null;      // Highest price any tracked wallet traded the token at
+  is_closed: boolean;
+  is_graduated: boolean;
+  first_buy_at: Date | null;
+  last_sell_at: Date | null;
+  entry_delay_seconds: number | null; // First buy after token creation
+  clustered: boolean;             // Another wallet in the same cluster traded this token
+  market_win_rate: number | null; // Win rate of all tracked positions opened the same day
+}
+
+export interface TraderScoreInput {
+  wallet: Pick<WalletTrader, 'wallet_address' | 'wallet_type' | 'cluster_id' | 'cluster_confidence'
+    | 'reputation_score' | 'suspicious_activity_count' | 'first_seen_at' | 'last_activity_at' | 'total_pnl_usd'>;
+  positions: ScoredPosition[];
+  weeklyVolumeSol: number[];      // SOL traded per week, most recent last
+  lastTradeAt: Date | null;
+}
+
+export interface TraderScoreResult {
+  wallet_address: string;
+  trader_score: number;
+  components: ScoreComponents;
+  win_rate: number;
+  avg_return_multiple: number;
+  closed_positions: number;
+  graduated_positions: number;
+  total_pnl_sol: number;
+}
+
+/**
+ * A bonding-curve trade as the transaction monitors see it
+ */
+export interface SmartMoneyTrade {
+  tokenMint: string;
+  walletAddress: string;
+  type: 'buy' | 'sell';
+  solAmount: number;
+  tokenAmount: number;
+  signature: string;
+  blockTime: Date;
+}
+
+export interface SmartMoneySignalConfig {
+  minTraderScore: number;         // Wallets at or above this score are smart money
+  indexRefreshMs: number;         // How often the smart wallet index is reloaded
+  persistDelayMs: number;         // Trades within this window share one signal row
+  maxTrackedTokens: number;       // Least recently traded tokens are dropped beyond this
+  topTraders: number;
+}
+
+// ============ Position Accounting ============
+
+export type CostMethod = 'fifo' | 'average';
+
+/**
+ * One change to a wallet's holding of a token. Transfers move tokens
+ * without a price; their cost basis travels with them.
+ */
+export interface LedgerEntry {
+  kind: 'buy' | 'sell' | 'transfer_in' | 'transfer_out';
+  amount: number;
+  sol_value: number;              // 0 for transfers
+  usd_value: number | null;       // Trade value in USD at the time, when known
+  block_time: Date;
+  signature: string;
+}
+
+export interface PositionAccount {
+  method: CostMethod;
+  total_bought: number;
+  total_sold: number;
+  transferred_in: number;
+  transferred_out: number;
+  unmatched_sold: number;         // Sold beyond any recorded holding; no PnL is taken on it
+  current_balance: number;
+  cost_basis_sol: number;         // Cost of the tokens still held
+  cost_basis_usd: number | null;
+  avg_buy_price: number | null;
+  avg_sell_price: number | null;
+  realized_pnl_sol: number;
+  realized_pnl_usd: number | null;
+  first_buy_at: Date | null;
+  last_sell_at: Date | null;
+}
+
+export interface PositionMark {
+  price_sol: number;
+  sol_usd: number | null;
+  marked_at: Date;
+  source: 'pool' | 'candle' | 'trade';
+}
+
+export interface PositionReconciliation {
+  wallet_address: string;
+  positions: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  drift: { token_mint: string; field: string; stored: number; computed: number }[];
+}
+
+// ============ Incremental Ingestion ============
+
+export interface IngestionCheckpoint {
+  name: string;
+  graduation_cursor_at: Date | null;
+  graduation_cursor_mint: string | null;
+  trade_cursor_at: Date | null;
+  trade_cursor_signature: string | null;
+  pending_wallets: string[];
+  run_started_at: Date | null;
+  run_completed_at: Date | null;
+  runs_completed: number;
+  last_error: string | null;
+}
+
+export interface IncrementalCollectorConfig {
+  checkpointName: string;
+  maxTokensPerRun: number;        // Newly graduated tokens ingested per run
+  tradePageSize: number;
+  maxTradePagesPerRun: number;
+  settleSeconds: number;          // Trades newer than this are left for the next run
+  walletBatchSize: number;        // Wallets whose metrics are updated concurrently
+  maxTransferLookupsPerRun: number; // Helius transfer lookups per run, 100 credits each; 0 disables
+  transferRecheckHours: number;   // A wallet's transfers are not looked up again for this long
+}
+
+export interface IncrementalRunResult {
+  skipped: boolean;               // Another run held the lock
+  graduatedTokens: number;
+  newWallets: number;
+  trades: number;
+  walletsUpdated: number;
+  walletsPending: number;         // Left for the next run
+  transferLookups: number;        // Wallets whose token transfers were looked up on Helius
+  transfers: number;              // Token transfers recorded
+  caughtUp: boolean;              // Both cursors reached the present
+}
@@ -0,0 +1,158 @@
+/**
+ * Undirected weighted wallet graph. Parallel edges between the same pair
+ * are summed, so each relationship type adds to the pair's weight.
+ */
+export class WalletGraph {
+  private readonly adjacency = new Map<string, Map<string, number>>();
+
+  addEdge(a: string, b: string, weight: number): void {
+    if (a === b || weight <= 0) return;
+    this.link(a, b, weight);
+    this.link(b, a, weight);
+  }
+
+  get nodes(): string[] {
+    return Array.from(this.adjacency.keys());
+  }
+
+  get size(): number {
+    return this.adjacency.size;
+  }
+
+  neighbors(node: string): Map<string, number> {
+    return this.adjacency.get(node) || new Map();
+  }
+
+  weightedDegree(node: string): number {
+    let degree = 0;
+    for (const weight of this.neighbors(node).values()) degree += weight;
+    return degree;
+  }
+
+  private link(from: string, to: string, weight: number): void {
+    let edges = this.adjacency.get(from);
+    if (!edges) {
+      edges = new Map();
+      this.adjacency.set(from, edges);
+    }
+    edges.set(to, (edges.get(to) || 0) + weight);
+  }
+}
+
+// Adjacency over integer node ids; a self-loop holds twice the internal weight
+type Adjacency = Map<number, number>[];
+
+/**
+ * Louvain community detection. Returns a community index per node;
+ * isolated nodes are not in the graph and so not in the result.
+ * Nodes are visited in sorted order so runs over the same graph agree.
+ */
+export function detectCommunities(
+  graph: WalletGraph,
+  resolution: number = 1,
+  maxLevels: number = 10
+): Map<string, number> {
+  const nodes = graph.nodes.sort();
+  const index = new Map(nodes.map((node, i) => [node, i]));
+  let adjacency: Adjacency = nodes.map(node => {
+    const edges = new Map<number, number>();
+    for (const [neighbor, weight] of graph.neighbors(node)) {
+      edges.set(index.get(neighbor)!, weight);
+    }
+    return edges;
+  });
+
+  // membership[i] = community of original node i at the current level
+  let membership = nodes.map((_, i) => i);
+
+  for (let level = 0; level < maxLevels; level++) {
+    const { communities, moved } = localMoving(adjacency, resolution);
+    if (!moved) break;
+
+    const renumbered = renumber(communities);
+    membership = membership.map(node => renumbered[node]);
+    adjacency = aggregate(adjacency, renumbered);
+  }
+
+  return new Map(nodes.map((node, i) => [node, membership[i]]));
+}
+
+/**
+ * Phase one: move single nodes to the neighbouring community with the
+ * largest modularity gain until no move improves it.
+ */
+function localMoving(adjacency: Adjacency, resolution: number): { communities: number[]; moved: boolean } {
+  const count = adjacency.length;
+  const degree = adjacency.map(edges => {
+    let sum = 0;
+    for (const weight of edges.values()) sum += weight;
+    return sum;
+  });
+  const totalWeight = degree.reduce((sum, d) => sum + d, 0);
+  const communities = adjacency.map((_, i) => i);
+  const communityDegree = [...degree];
+  if (totalWeight === 0) return { communities, moved: false };
+
+  let moved = false;
+  let improved = true;
+  for (let pass = 0; improved && pass < 100; pass++) {
+    improved = false;
+    for (let node = 0; node < count; node++) {
+      const current = communities[node];
+      const linksTo = new Map<number, number>();
+      for (const [neighbor, weight] of adjacency[node]) {
+        if (neighbor === node) continue;
+        const community = communities[neighbor];
+        linksTo.set(community, (linksTo.get(community) || 0) + weight);
+      }
+
+      communityDegree[current] -= degree[node];
+      const gain = (community: number) =>
+        (linksTo.get(community) || 0) - resolution * communityDegree[community] * degree[node] / totalWeight;
+
+      let best = current;
+      let bestGain = gain(current);
+      for (const community of linksTo.keys()) {
+        const candidate = gain(community);
+        if (candidate > bestGain + 1e-12) {
+          best = community;
+          bestGain = candidate;
+        }
+      }
+
+      communityDegree[best] += degree[node];
+      if (best !== current) {
+        communities[node] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+
+  return { communities, moved };
+}
+
+function renumber(communities: number[]): number[] {
+  const ids = new Map<number, number>();
+  return communities.map(community => {
+    if (!ids.has(community)) ids.set(community, ids.size);
+    return ids.get(community)!;
+  });
+}
+
+/**
+ * Phase two: collapse each community into one node, keeping internal
+ * weight as a self-loop
+ */
+function aggregate(adjacency: Adjacency, communities: number[]): Adjacency {
+  const size = communities.reduce((max, community) => Math.max(max, community), -1) + 1;
+  const result: Adjacency = Array.from({ length: size }, () => new Map());
+  adjacency.forEach((edges, node) => {
+    const from = communities[node];
+    for (const [neighbor, weight] of edges) {
+      const to = communities[neighbor];
+      result[from].set(to, (result[from].get(to) || 0) + weight);
+    }
+  });
+  return result;
+}
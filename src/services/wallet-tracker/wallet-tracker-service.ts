@@ -1,8 +1,12 @@
 import { Pool } from 'pg';
 import { DatabaseConnection } from '../../database/connection';
+import { alertBus } from '../alerts/alert-bus';
+import { positionAccountant, DEFAULT_COST_METHOD } from './position-accountant';
 import {
   WalletTrader,
   WalletTrade,
+  WalletRelationship,
+  WalletCluster,
   WalletPosition,
   WalletScoreHistory,
   TokenSmartMoneySignal,
@@ -12,7 +16,10 @@ import {
   PnLCalculation,
   WalletClassification,
   ScoreComponents,
-  TopTrader
+  TopTrader,
+  CostMethod,
+  WalletTokenTransfer,
+  SmartMoneyHolder
 } from './types';
 
 export class WalletTrackerService {
@@ -91,13 +98,45 @@ export class WalletTrackerService {
     return result.rows[0] || null;
   }
 
-  async getTopWallets(limit: number = 100): Promise<WalletTrader[]> {
+  async getExistingWallets(walletAddresses: string[]): Promise<Set<string>> {
+    if (walletAddresses.length === 0) return new Set();
+    const query = 'SELECT wallet_address FROM wallet_traders WHERE wallet_address = ANY($1)';
+    const result = await this.pool.query(query, [walletAddresses]);
+    return new Set(result.rows.map(row => row.wallet_address));
+  }
+
+  /**
+   * Bring trade count and activity dates in line with wallet_trades without
+   * touching classification or score
+   */
+  async refreshWalletActivity(walletAddress: string): Promise<void> {
+    const query = `
+      UPDATE wallet_traders wt SET
+        total_trades = stats.trades,
+        first_seen_at = LEAST(wt.first_seen_at, stats.first_trade),
+        last_activity_at = GREATEST(wt.last_activity_at, stats.last_trade),
+        updated_at = NOW()
+      FROM (
+        SELECT COUNT(*) AS trades, MIN(block_time) AS first_trade, MAX(block_time) AS last_trade
+        FROM wallet_trades
+        WHERE wallet_address = $1
+      ) stats
+      WHERE wt.wallet_address = $1 AND stats.trades > 0`;
+    await this.pool.query(query, [walletAddress]);
+  }
+
+  async getTopWallets(
+    limit: number = 100,
+    options: { minScore?: number; excludeFlagged?: boolean } = {}
+  ): Promise<WalletTrader[]> {
     const query = `
       SELECT * FROM wallet_traders 
       WHERE trader_score > 0
+        AND trader_score >= $2
+        AND ($3 = false OR wallet_type NOT IN ('bot', 'sybil'))
       ORDER BY trader_score DESC 
       LIMIT $1`;
-    const result = await this.pool.query(query, [limit]);
+    const result = await this.pool.query(query, [limit, options.minScore ?? 0, options.excludeFlagged ?? false]);
     return result.rows;
   }
 
@@ -120,7 +159,10 @@ export class WalletTrackerService {
         wallet_address, token_mint, trade_type, amount, price_sol,
         price_usd, sol_value, transaction_hash, block_time,
         is_graduated_token, time_to_graduation_minutes
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`;
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (transaction_hash, wallet_address, token_mint, trade_type) DO UPDATE SET
+        is_graduated_token = wallet_trades.is_graduated_token OR EXCLUDED.is_graduated_token,
+        time_to_graduation_minutes = COALESCE(EXCLUDED.time_to_graduation_minutes, wallet_trades.time_to_graduation_minutes)`;
 
     const values = [
       trade.wallet_address,
@@ -159,6 +201,27 @@ export class WalletTrackerService {
     }
   }
 
+  async saveTransferBatch(transfers: WalletTokenTransfer[]): Promise<void> {
+    for (const transfer of transfers) {
+      await this.pool.query(
+        `INSERT INTO wallet_token_transfers (
+          wallet_address, token_mint, direction, amount,
+          counterparty, transaction_hash, block_time
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (transaction_hash, wallet_address, token_mint, direction) DO NOTHING`,
+        [
+          transfer.wallet_address,
+          transfer.token_mint,
+          transfer.direction,
+          transfer.amount,
+          transfer.counterparty || null,
+          transfer.transaction_hash,
+          transfer.block_time
+        ]
+      );
+    }
+  }
+
   async getWalletTrades(walletAddress: string, tokenMint?: string): Promise<WalletTrade[]> {
     let query = 'SELECT * FROM wallet_trades WHERE wallet_address = $1';
     const values: any[] = [walletAddress];
@@ -236,6 +299,41 @@ export class WalletTrackerService {
     return result.rows;
   }
 
+  // ============ Relationships & Clusters ============
+
+  async getWalletRelationships(walletAddress: string): Promise<WalletRelationship[]> {
+    const query = `
+      SELECT * FROM wallet_relationships
+      WHERE wallet_a = $1 OR wallet_b = $1
+      ORDER BY confidence_score DESC`;
+    const result = await this.pool.query(query, [walletAddress]);
+    return result.rows;
+  }
+
+  async getClusters(limit: number = 100): Promise<WalletCluster[]> {
+    const query = `
+      SELECT * FROM wallet_clusters
+      ORDER BY risk_score DESC, wallet_count DESC
+      LIMIT $1`;
+    const result = await this.pool.query(query, [limit]);
+    return result.rows;
+  }
+
+  async getCluster(clusterId: string): Promise<WalletCluster | null> {
+    const query = 'SELECT * FROM wallet_clusters WHERE cluster_id = $1';
+    const result = await this.pool.query(query, [clusterId]);
+    return result.rows[0] || null;
+  }
+
+  async getClusterWallets(clusterId: string): Promise<WalletTrader[]> {
+    const query = `
+      SELECT * FROM wallet_traders
+      WHERE cluster_id = $1
+      ORDER BY trader_score DESC`;
+    const result = await this.pool.query(query, [clusterId]);
+    return result.rows;
+  }
+
   // ============ Score Management ============
 
   async saveScoreHistory(score: WalletScoreHistory): Promise<void> {
@@ -280,6 +378,20 @@ export class WalletTrackerService {
     return result.rows[0] || null;
   }
 
+  async getScoreHistory(walletAddress: string, limit: number = 100): Promise<WalletScoreHistory[]> {
+    const query = `
+      SELECT * FROM wallet_scores_history
+      WHERE wallet_address = $1
+      ORDER BY score_timestamp DESC
+      LIMIT $2`;
+    const result = await this.pool.query(query, [walletAddress, limit]);
+
+    return result.rows.map(row => ({
+      ...row,
+      components: typeof row.components === 'string' ? JSON.parse(row.components) : row.components
+    }));
+  }
+
   // ============ Smart Money Signals ============
 
   async saveSmartMoneySignal(signal: TokenSmartMoneySignal): Promise<void> {
@@ -301,6 +413,17 @@ export class WalletTrackerService {
     ];
 
     await this.pool.query(query, values);
+
+    alertBus.publish({
+      type: 'smart_money',
+      mintAddress: signal.token_mint,
+      fields: {
+        smartWallets: signal.smart_wallets_count,
+        avgTraderScore: signal.avg_trader_score ?? null,
+        investedSol: signal.total_smart_money_invested_sol ?? null,
+        signalStrength: signal.signal_strength ?? null
+      }
+    });
   }
 
   async getTokenSmartMoneySignals(tokenMint: string, limit: number = 10): Promise<TokenSmartMoneySignal[]> {
@@ -324,6 +447,26 @@ export class WalletTrackerService {
     return signals[0] || null;
   }
 
+  /**
+   * Smart-money wallets with an open position in a token, largest holding first
+   */
+  async getSmartMoneyHolders(tokenMint: string, minScore: number = this.MIN_TRADER_SCORE): Promise<SmartMoneyHolder[]> {
+    const query = `
+      SELECT
+        wt.wallet_address, wt.trader_score, wt.wallet_type, wt.cluster_id,
+        wp.current_balance, wp.cost_basis_sol, wp.realized_pnl_sol,
+        wp.unrealized_pnl_sol, wp.first_buy_at
+      FROM wallet_positions wp
+      JOIN wallet_traders wt ON wt.wallet_address = wp.wallet_address
+      WHERE wp.token_mint = $1
+        AND wp.current_balance > 0
+        AND wt.trader_score >= $2
+        AND wt.wallet_type NOT IN ('bot', 'sybil')
+      ORDER BY wp.current_balance DESC`;
+    const result = await this.pool.query(query, [tokenMint, minScore]);
+    return result.rows;
+  }
+
   // ============ Graduated Tokens ============
 
   async getGraduatedTokens(limit: number = 100): Promise<any[]> {
@@ -357,46 +500,16 @@ export class WalletTrackerService {
 
   // ============ PnL Calculation ============
 
-  async calculateWalletPnL(walletAddress: string, tokenMint: string): Promise<PnLCalculation> {
-    const trades = await this.getWalletTrades(walletAddress, tokenMint);
-    
-    let totalBought = 0;
-    let totalSold = 0;
-    let totalBoughtValue = 0;
-    let totalSoldValue = 0;
-
-    for (const trade of trades) {
-      if (trade.trade_type === 'buy') {
-        totalBought += trade.amount;
-        totalBoughtValue += trade.sol_value;
-      } else {
-        totalSold += trade.amount;
-        totalSoldValue += trade.sol_value;
-      }
-    }
-
-    const currentBalance = totalBought - totalSold;
-    const avgBuyPrice = totalBought > 0 ? totalBoughtValue / totalBought : 0;
-    const avgSellPrice = totalSold > 0 ? totalSoldValue / totalSold : 0;
-    const realizedPnL = totalSoldValue - (avgBuyPrice * totalSold);
-    
-    // For unrealized PnL, we'd need current price
-    // This is a placeholder - actual implementation would fetch current price
-    const unrealizedPnL = 0;
-
-    return {
-      wallet_address: walletAddress,
-      token_mint: tokenMint,
-      realized_pnl: realizedPnL,
-      unrealized_pnl: unrealizedPnL,
-      total_pnl: realizedPnL + unrealizedPnL,
-      avg_buy_price: avgBuyPrice,
-      avg_sell_price: avgSellPrice > 0 ? avgSellPrice : undefined,
-      current_price: undefined, // Would need to fetch
-      total_bought: totalBought,
-      total_sold: totalSold,
-      current_balance: currentBalance
-    };
+  /**
+   * Lot-accounted PnL for one position; see PositionAccountant for the
+   * cost method, transfers and how open balances are marked
+   */
+  async calculateWalletPnL(
+    walletAddress: string,
+    tokenMint: string,
+    method: CostMethod = DEFAULT_COST_METHOD
+  ): Promise<PnLCalculation> {
+    return positionAccountant.calculatePnL(walletAddress, tokenMint, method);
   }
 
   // ============ Wallet Classification ============